@@ -1,4 +1,11 @@
 import { Env } from '../types';
+import type { AIRecommendation, AIScoringRubric } from '../../../../shared/types';
+import {
+  getRequiredIncomeMultiple,
+  labelForScore,
+  recommendationForScore,
+  scoreWithRubric,
+} from '../../../../shared/utils/ai-rubric';
 
 interface EvaluationInput {
   lead: {
@@ -15,12 +22,13 @@ interface EvaluationInput {
     data: ArrayBuffer;
   }>;
   modelVersion: string;
+  rubric: AIScoringRubric;
 }
 
 export interface EvaluationResult {
   score: number;
   label: 'A' | 'B' | 'C';
-  recommendation: 'approve' | 'approve_with_conditions' | 'approve_with_verification' | 'reject';
+  recommendation: AIRecommendation;
   summary: string;
   risk_flags: string[];
   fraud_signals: string[];
@@ -63,7 +71,7 @@ async function evaluateWithWorkersAI(
     console.log('Starting Workers AI evaluation');
 
     // Step 1: Build comprehensive prompt
-    const prompt = buildEvaluationPrompt(input.lead);
+    const prompt = buildEvaluationPrompt(input.lead, getRequiredIncomeMultiple(input.rubric));
     console.log('Prompt built:', prompt.substring(0, 200) + '...');
 
     // Step 2: Prepare images for multi-modal model
@@ -92,10 +100,10 @@ async function evaluateWithWorkersAI(
     const parsed = parseAIResponse(aiResponse);
     console.log('Parsed AI response:', parsed.summary.substring(0, 100));
 
-    // Step 5: Calculate score and label
-    const score = calculateScore(parsed, input.lead.monthly_rent);
-    const label = scoreToLabel(score);
-    const recommendation = determineRecommendation(score, parsed.fraud_signals);
+    // Step 5: Score against the site's rubric
+    const score = calculateScore(input.rubric, parsed, input.lead.monthly_rent);
+    const label = labelForScore(input.rubric, score);
+    const recommendation = recommendationForScore(input.rubric, score, parsed.fraud_signals);
 
     console.log(`Evaluation complete: Score ${score}, Label ${label}, Recommendation ${recommendation}`);
 
@@ -120,8 +128,8 @@ async function evaluateWithWorkersAI(
  */
 function evaluateWithStub(input: EvaluationInput): EvaluationResult {
   const mockScore = generateMockScore(input);
-  const label = scoreToLabel(mockScore);
-  const recommendation = determineRecommendation(mockScore, []);
+  const label = labelForScore(input.rubric, mockScore);
+  const recommendation = recommendationForScore(input.rubric, mockScore, []);
 
   return {
     score: mockScore,
@@ -163,44 +171,12 @@ function generateMockScore(input: EvaluationInput): number {
   return Math.max(0, Math.min(100, score));
 }
 
-/**
- * Convert score to letter label
- */
-function scoreToLabel(score: number): 'A' | 'B' | 'C' {
-  if (score >= 80) return 'A';
-  if (score >= 50) return 'B';
-  return 'C';
-}
-
-/**
- * Determine recommendation based on score and fraud signals
- */
-function determineRecommendation(
-  score: number,
-  fraudSignals: string[]
-): 'approve' | 'approve_with_conditions' | 'approve_with_verification' | 'reject' {
-
-  // Check for fraud first
-  if (fraudSignals.some(s => s.includes('forged') || s.includes('altered'))) {
-    return 'reject';
-  }
-
-  if (fraudSignals.some(s => s.includes('too_perfect') || s.includes('unusually_high'))) {
-    return 'approve_with_verification';
-  }
-
-  // Standard scoring
-  if (score >= 80) return 'approve';
-  if (score >= 50) return 'approve_with_conditions';
-  return 'reject';
-}
-
 /**
  * Build AI evaluation prompt following the PRD specifications
  */
-function buildEvaluationPrompt(lead: EvaluationInput['lead']): string {
+function buildEvaluationPrompt(lead: EvaluationInput['lead'], requiredIncomeMultiple: number): string {
   const monthlyRent = lead.monthly_rent || 2000;
-  const requiredIncome = monthlyRent * 3;
+  const requiredIncome = monthlyRent * requiredIncomeMultiple;
 
   return `You are an expert tenant screening assistant. Analyze the provided rental application documents and evaluate the applicant's suitability as a tenant.
 
@@ -213,7 +189,7 @@ APPLICANT INFORMATION:
 
 INSTRUCTIONS:
 1. Extract key information from all provided documents (ID, paystub, bank statements, employment letters)
-2. Verify income meets requirements (minimum 3x monthly rent = $${requiredIncome})
+2. Verify income meets requirements (minimum ${requiredIncomeMultiple}x monthly rent = $${requiredIncome})
 3. Check for fraud signals (altered documents, fake templates, "too good to be true" patterns)
 4. Identify any risk factors
 
@@ -305,69 +281,23 @@ function parseAIResponse(aiResponse: any): {
 }
 
 /**
- * Calculate score (0-100) based on parsed AI data and risk factors
+ * Calculate score (0-100) from the parsed AI data under the site's rubric
  */
 function calculateScore(
+  rubric: AIScoringRubric,
   parsed: ReturnType<typeof parseAIResponse>,
   monthlyRent: number | null
 ): number {
-  let score = 100; // Start perfect
-
   const { extracted_data, risk_flags, fraud_signals } = parsed;
-  const rent = monthlyRent || 2000;
-
-  // Income verification (max -30 points)
-  const monthlyIncome = extracted_data.monthly_income || 0;
-  const rentRatio = monthlyIncome / rent;
-
-  if (rentRatio < 2) {
-    score -= 30; // Income < 2x rent
-  } else if (rentRatio < 2.5) {
-    score -= 20; // Income 2-2.5x rent
-  } else if (rentRatio < 3) {
-    score -= 10; // Income 2.5-3x rent
-  }
-  // else: Income ≥ 3x rent → no deduction
-
-  // Employment stability (max -20 points)
-  const employmentMonths = extracted_data.employment_duration_months || 0;
-
-  if (employmentMonths === 0) {
-    score -= 20; // Unemployed
-  } else if (employmentMonths < 12) {
-    score -= 15; // < 1 year
-  } else if (employmentMonths < 24) {
-    score -= 5; // 1-2 years
-  }
-  // else: > 2 years → no deduction
-
-  // Document quality (max -15 points)
-  const docQuality = extracted_data.document_quality || 'good';
 
-  if (docQuality === 'poor') {
-    score -= 15;
-  } else if (docQuality === 'good') {
-    score -= 5;
-  }
-  // else: excellent → no deduction
-
-  // Risk flags (variable deductions)
-  if (risk_flags.includes('income_below_requirement')) score -= 20;
-  if (risk_flags.includes('documents_incomplete')) score -= 10;
-  if (risk_flags.includes('financial_health_poor')) score -= 10;
-  if (risk_flags.includes('inconsistent_information')) score -= 15;
-
-  // Fraud signals (severe deductions)
-  if (fraud_signals.includes('forged_document')) score -= 50;
-  if (fraud_signals.includes('altered_paystub')) score -= 50;
-  if (fraud_signals.includes('fake_employment_letter')) score -= 40;
-  if (fraud_signals.includes('suspicious_bank_statement')) score -= 30;
-
-  // "Too good to be true" signals (flag for verification, not rejection)
-  if (fraud_signals.includes('too_perfect_documents')) score -= 10;
-  if (fraud_signals.includes('unusually_high_income')) score -= 10;
-
-  return Math.max(0, Math.min(100, score));
+  return scoreWithRubric(rubric, {
+    monthlyIncome: extracted_data.monthly_income || 0,
+    monthlyRent: monthlyRent || 2000,
+    employmentMonths: extracted_data.employment_duration_months || 0,
+    documentQuality: extracted_data.document_quality || 'good',
+    riskFlags: risk_flags,
+    fraudSignals: fraud_signals,
+  });
 }
 
 /**
@@ -1,5 +1,9 @@
 import { Env, AIEvaluationJob } from '../types';
 import { evaluateWithAI } from './ai-evaluator';
+import { getPreviousStages } from '../../../../shared/utils/application-workflow';
+import { pipelineIncludesBucket } from '../../../../shared/utils/application-pipeline';
+import { DEFAULT_AI_RUBRIC } from '../../../../shared/utils/ai-rubric';
+import type { AIRubric, AIScoringRubric, PipelineStage } from '../../../../shared/types';
 
 /**
  * Process a single AI evaluation job
@@ -97,12 +101,24 @@ export async function processPendingJobs(
       throw new Error('Quota exceeded');
     }
 
-    // Step 6: Call AI evaluation
-    console.log(`[${jobId}] Calling AI evaluation...`);
+    // Step 6: Call AI evaluation, scored with the site's current rubric (the
+    // built-in one until the site saves its own)
+    const rubricRow = await env.DB.prepare(`
+      SELECT version, rubric_json FROM ai_scoring_rubric_versions
+      WHERE site_id = ?1
+      ORDER BY version DESC
+      LIMIT 1
+    `).bind(job.site_id).first() as { version: number; rubric_json: string } | null;
+    const rubric: AIRubric = rubricRow
+      ? { version: rubricRow.version, rubric: JSON.parse(rubricRow.rubric_json) as AIScoringRubric }
+      : DEFAULT_AI_RUBRIC;
+
+    console.log(`[${jobId}] Calling AI evaluation (rubric v${rubric.version})...`);
     const evaluation = await evaluateWithAI(env, {
       lead,
       documents: validDocuments,
-      modelVersion: job.model_version
+      modelVersion: job.model_version,
+      rubric: rubric.rubric
     });
 
     console.log(`[${jobId}] AI evaluation completed - Score: ${evaluation.score}, Label: ${evaluation.label}`);
@@ -116,9 +132,9 @@ export async function processPendingJobs(
         id, lead_id, site_id,
         score, label, recommendation,
         summary, risk_flags, fraud_signals,
-        extracted_data, model_version,
+        extracted_data, model_version, rubric_version,
         evaluated_at, created_at, updated_at
-      ) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?12, ?12)
+      ) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?13, ?13)
     `).bind(
       evaluationId,
       leadId,
@@ -131,15 +147,27 @@ export async function processPendingJobs(
       JSON.stringify(evaluation.fraud_signals),
       JSON.stringify(evaluation.extracted_data),
       job.model_version,
+      rubric.version,
       now
     ).run();
 
-    // Step 8: Update lead record
+    // Step 8: Update lead record; the status only moves on from stages the
+    // application workflow allows (a re-evaluation never reopens a decision),
+    // and not at all for sites whose pipeline leaves out AI evaluation
+    const pipelineRow = await env.DB.prepare(`
+      SELECT stages_json FROM application_pipelines WHERE site_id = ?1
+    `).bind(job.site_id).first() as { stages_json: string } | null;
+    const advancesStatus = !pipelineRow ||
+      pipelineIncludesBucket({ stages: JSON.parse(pipelineRow.stages_json) as PipelineStage[] }, 'ai_evaluated');
+    const evaluatedFrom = advancesStatus
+      ? getPreviousStages('ai_evaluated').map((stage) => `'${stage}'`).join(', ')
+      : 'NULL';
     await env.DB.prepare(`
       UPDATE leads
       SET ai_score = ?1,
           ai_label = ?2,
-          status = 'ai_evaluated',
+          pipeline_stage = CASE WHEN status IN (${evaluatedFrom}) THEN NULL ELSE pipeline_stage END,
+          status = CASE WHEN status IN (${evaluatedFrom}) THEN 'ai_evaluated' ELSE status END,
           updated_at = ?3
       WHERE id = ?4
     `).bind(
@@ -8,6 +8,7 @@
  */
 
 import { evaluateWithAI, EvaluationResult } from './src/lib/ai-evaluator';
+import { DEFAULT_AI_SCORING_RUBRIC } from '../../shared/utils/ai-rubric';
 
 // Mock environment for testing
 const mockEnv = {
@@ -68,7 +69,8 @@ const testInput = {
       data: new ArrayBuffer(4096)
     }
   ],
-  modelVersion: '@cf/meta/llama-3.2-11b-vision-instruct'
+  modelVersion: '@cf/meta/llama-3.2-11b-vision-instruct',
+  rubric: DEFAULT_AI_SCORING_RUBRIC
 };
 
 async function runTest() {
@@ -0,0 +1,204 @@
+/**
+ * Global search box for the admin layout. Opens with ⌘K / Ctrl+K (or the
+ * sidebar button) and searches the site's properties, units, applicants,
+ * tenants and work orders as you type; arrow keys and Enter open a result.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFetcher, useNavigate } from '@remix-run/react';
+import type { SearchEntityType, SearchResult, SearchResults } from '~/shared/types';
+
+type SearchResponse = {
+  success: boolean;
+  query: string;
+  results: SearchResults | null;
+  message?: string;
+};
+
+const GROUPS: { type: SearchEntityType; label: string; icon: string }[] = [
+  { type: 'tenant', label: 'Tenants', icon: '🔑' },
+  { type: 'lead', label: 'Applicants', icon: '📝' },
+  { type: 'property', label: 'Properties', icon: '🏠' },
+  { type: 'unit', label: 'Units', icon: '🚪' },
+  { type: 'work_order', label: 'Work Orders', icon: '🔧' },
+];
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+function resultPath(result: SearchResult): string {
+  switch (result.entityType) {
+    case 'property':
+      return `/admin/properties/${result.id}`;
+    case 'unit':
+      return `/admin/units/${result.id}`;
+    case 'lead':
+      return result.propertyId
+        ? `/admin/properties/${result.propertyId}/applications/${result.id}`
+        : '/admin/applications';
+    case 'tenant':
+      return `/admin/tenants/${result.id}`;
+    case 'work_order':
+      return `/admin/work-orders/${result.id}`;
+  }
+}
+
+export function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const fetcher = useFetcher<SearchResponse>();
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen((isOpen) => !isOpen);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      inputRef.current?.focus();
+    } else {
+      setQuery('');
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) return;
+    const timer = setTimeout(() => {
+      fetcher.load(`/api/search?q=${encodeURIComponent(q)}`);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // Only the query triggers a search; the fetcher object changes on every load
+  }, [query]);
+
+  const data = query.trim() ? fetcher.data : undefined;
+  const groups = useMemo(
+    () =>
+      GROUPS.map((group) => ({ ...group, results: data?.results?.[group.type] ?? [] })).filter(
+        (group) => group.results.length > 0
+      ),
+    [data]
+  );
+  const flatResults = useMemo(() => groups.flatMap((group) => group.results), [groups]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [data]);
+
+  const openResult = (result: SearchResult) => {
+    setOpen(false);
+    navigate(resultPath(result));
+  };
+
+  const onInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setOpen(false);
+    } else if (e.key === 'ArrowDown' && flatResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % flatResults.length);
+    } else if (e.key === 'ArrowUp' && flatResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index - 1 + flatResults.length) % flatResults.length);
+    } else if (e.key === 'Enter' && flatResults[activeIndex]) {
+      e.preventDefault();
+      openResult(flatResults[activeIndex]);
+    }
+  };
+
+  const isSearching = fetcher.state !== 'idle';
+  let resultIndex = -1;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex w-full items-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-500 hover:border-gray-400 hover:text-gray-700"
+      >
+        <span>🔍</span>
+        <span className="flex-1 text-left">Search…</span>
+        <kbd className="rounded border border-gray-200 bg-gray-50 px-1.5 text-xs text-gray-400">⌘K</kbd>
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-50 flex items-start justify-center bg-gray-900/40 px-4 pt-24"
+          onMouseDown={() => setOpen(false)}
+        >
+          <div
+            role="dialog"
+            aria-label="Search"
+            className="w-full max-w-xl overflow-hidden rounded-xl bg-white shadow-2xl"
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <input
+              ref={inputRef}
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={onInputKeyDown}
+              maxLength={100}
+              placeholder="Search tenants, applicants, properties, units, work orders…"
+              className="w-full border-b border-gray-200 px-4 py-3 text-sm focus:outline-none"
+            />
+
+            <div className="max-h-96 overflow-y-auto py-2">
+              {!query.trim() && (
+                <p className="px-4 py-3 text-sm text-gray-500">
+                  Type a name, email, phone, address or unit number, e.g. “chen 302”.
+                </p>
+              )}
+              {query.trim() && data && !data.success && (
+                <p className="px-4 py-3 text-sm text-red-600">Search failed. Please try again.</p>
+              )}
+              {query.trim() && data?.success && groups.length === 0 && !isSearching && (
+                <p className="px-4 py-3 text-sm text-gray-500">No matches for “{query.trim()}”.</p>
+              )}
+              {groups.map((group) => (
+                <div key={group.type} className="py-1">
+                  <p className="px-4 py-1 text-xs font-semibold uppercase tracking-wide text-gray-400">
+                    {group.label}
+                  </p>
+                  <ul>
+                    {group.results.map((result) => {
+                      resultIndex++;
+                      const index = resultIndex;
+                      return (
+                        <li key={result.id}>
+                          <button
+                            type="button"
+                            onMouseEnter={() => setActiveIndex(index)}
+                            onClick={() => openResult(result)}
+                            className={`flex w-full items-center gap-3 px-4 py-2 text-left text-sm ${
+                              index === activeIndex ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700'
+                            }`}
+                          >
+                            <span>{group.icon}</span>
+                            <span className="flex-1 truncate">
+                              <span className="font-medium">{result.title}</span>
+                              {result.subtitle && (
+                                <span className="ml-2 text-gray-500">{result.subtitle}</span>
+                              )}
+                            </span>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
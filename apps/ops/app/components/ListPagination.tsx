@@ -0,0 +1,91 @@
+/**
+ * Search box and page links for lists paged by the worker with a cursor.
+ * The cursor lives in the URL (?cursor=), so a page can be bookmarked and the
+ * browser's back button returns to the previous one.
+ */
+
+import { useSearchParams } from '@remix-run/react';
+import type { CursorPagination } from '~/shared/types';
+
+type ListSearchInputProps = {
+  placeholder?: string;
+};
+
+export function ListSearchInput({ placeholder = 'Search…' }: ListSearchInputProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        const search = String(new FormData(e.currentTarget).get('search') || '').trim();
+        const params = new URLSearchParams(searchParams);
+        if (search) {
+          params.set('search', search);
+        } else {
+          params.delete('search');
+        }
+        params.delete('cursor');
+        setSearchParams(params);
+      }}
+    >
+      <input
+        key={searchParams.get('search') || ''}
+        type="search"
+        name="search"
+        defaultValue={searchParams.get('search') || ''}
+        placeholder={placeholder}
+        className="w-64 border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+    </form>
+  );
+}
+
+type ListPaginationProps = {
+  pagination: CursorPagination;
+  itemCount: number;
+  noun: string;
+};
+
+export function ListPagination({ pagination, itemCount, noun }: ListPaginationProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const isFirstPage = !searchParams.get('cursor');
+
+  if (isFirstPage && !pagination.hasMore) return null;
+
+  const goTo = (cursor: string | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (cursor) {
+      params.set('cursor', cursor);
+    } else {
+      params.delete('cursor');
+    }
+    setSearchParams(params);
+  };
+
+  return (
+    <div className="flex items-center justify-between px-6 py-3 border-t border-gray-100 text-sm">
+      <span className="text-gray-500">
+        Showing {itemCount} {noun}{pagination.hasMore ? ', more on the next page' : ''}
+      </span>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          disabled={isFirstPage}
+          onClick={() => goTo(null)}
+          className="px-3 py-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          First page
+        </button>
+        <button
+          type="button"
+          disabled={!pagination.nextCursor}
+          onClick={() => goTo(pagination.nextCursor)}
+          className="px-3 py-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          Next page
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -27,6 +27,8 @@ export function SortableTableHeader({
     const params = new URLSearchParams(searchParams);
     params.set('sortBy', column);
     params.set('sortOrder', nextSortOrder);
+    // A page cursor only applies to the sort it was issued for
+    params.delete('cursor');
     setSearchParams(params);
   };
 
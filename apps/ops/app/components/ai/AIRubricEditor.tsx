@@ -0,0 +1,287 @@
+/**
+ * AIRubricEditor - Editor for the site's AI scoring rubric
+ * Keeps the rubric in local state and posts it as JSON in the `rubric` field
+ */
+
+import { Form, useNavigation } from '@remix-run/react';
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import type { AIDocumentQuality, AIRubricTier, AIScoringRubric } from '~/shared/types';
+import { AI_FRAUD_SIGNALS, AI_RISK_FLAGS } from '~/shared/utils';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const DOCUMENT_QUALITIES: AIDocumentQuality[] = ['excellent', 'good', 'poor'];
+
+type SignalOutcome = 'score' | 'verify' | 'disqualify';
+
+const SIGNAL_OUTCOME_LABELS: Record<SignalOutcome, string> = {
+  score: 'Deduct only',
+  verify: 'Needs verification',
+  disqualify: 'Disqualifying',
+};
+
+const humanize = (value: string) => value.replace(/_/g, ' ');
+
+function signalOutcome(rubric: AIScoringRubric, signal: string): SignalOutcome {
+  if (rubric.disqualifyingFraudSignals.includes(signal)) return 'disqualify';
+  if (rubric.verificationFraudSignals.includes(signal)) return 'verify';
+  return 'score';
+}
+
+// Flags and signals without a deduction are left out of the saved rubric
+function withDeduction(deductions: Record<string, number>, key: string, deduction: number): Record<string, number> {
+  const next = { ...deductions };
+  if (deduction > 0) next[key] = deduction;
+  else delete next[key];
+  return next;
+}
+
+type AIRubricEditorProps = {
+  rubric: AIScoringRubric;
+  errors?: string[];
+  readOnly?: boolean;
+};
+
+export function AIRubricEditor({ rubric: initialRubric, errors, readOnly = false }: AIRubricEditorProps) {
+  const navigation = useNavigation();
+  const isSaving = navigation.state === 'submitting';
+  const [rubric, setRubric] = useState<AIScoringRubric>(initialRubric);
+
+  const update = (changes: Partial<AIScoringRubric>) => setRubric((current) => ({ ...current, ...changes }));
+
+  const setOutcome = (signal: string, outcome: SignalOutcome) =>
+    update({
+      disqualifyingFraudSignals: [
+        ...rubric.disqualifyingFraudSignals.filter((s) => s !== signal),
+        ...(outcome === 'disqualify' ? [signal] : []),
+      ],
+      verificationFraudSignals: [
+        ...rubric.verificationFraudSignals.filter((s) => s !== signal),
+        ...(outcome === 'verify' ? [signal] : []),
+      ],
+    });
+
+  return (
+    <Form method="post" className="space-y-6">
+      <input type="hidden" name="rubric" value={JSON.stringify(rubric)} />
+
+      {errors && errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg px-4 py-3">
+          <ul className="list-disc pl-5 space-y-1">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <fieldset disabled={readOnly} className="space-y-6">
+        <TierSection
+          title="Income"
+          description="Deduction while monthly income is below a multiple of rent. The highest multiple is quoted to the AI as the income requirement."
+          unit="x rent"
+          tiers={rubric.incomeTiers}
+          onChange={(incomeTiers) => update({ incomeTiers })}
+        />
+
+        <TierSection
+          title="Employment"
+          description="Deduction while the applicant has been with their current employer for fewer months than the threshold."
+          unit="months"
+          tiers={rubric.employmentTiers}
+          onChange={(employmentTiers) => update({ employmentTiers })}
+        />
+
+        <Section title="Document Quality" description="Deduction for the overall quality the AI assigns the documents.">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            {DOCUMENT_QUALITIES.map((quality) => (
+              <DeductionInput
+                key={quality}
+                label={quality}
+                value={rubric.documentQualityDeductions[quality]}
+                onChange={(deduction) =>
+                  update({ documentQualityDeductions: { ...rubric.documentQualityDeductions, [quality]: deduction } })
+                }
+              />
+            ))}
+          </div>
+        </Section>
+
+        <Section title="Risk Flags" description="Deduction for each risk flag the AI raises.">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            {AI_RISK_FLAGS.map((flag) => (
+              <DeductionInput
+                key={flag}
+                label={humanize(flag)}
+                value={rubric.riskFlagDeductions[flag] ?? 0}
+                onChange={(deduction) =>
+                  update({ riskFlagDeductions: withDeduction(rubric.riskFlagDeductions, flag, deduction) })
+                }
+              />
+            ))}
+          </div>
+        </Section>
+
+        <Section
+          title="Fraud Signals"
+          description="Deduction for each fraud signal. A disqualifying signal means a reject recommendation whatever the score; one that needs verification means approve with verification."
+        >
+          <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {AI_FRAUD_SIGNALS.map((signal) => (
+              <div key={signal} className="px-4 py-3 flex items-center gap-3">
+                <span className="flex-1 text-sm text-gray-900 capitalize">{humanize(signal)}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  aria-label={`${humanize(signal)} deduction`}
+                  value={rubric.fraudSignalDeductions[signal] ?? 0}
+                  onChange={(e) =>
+                    update({
+                      fraudSignalDeductions: withDeduction(rubric.fraudSignalDeductions, signal, Number(e.target.value)),
+                    })
+                  }
+                  className={`${inputClassName} max-w-[6rem]`}
+                />
+                <select
+                  aria-label={`${humanize(signal)} outcome`}
+                  value={signalOutcome(rubric, signal)}
+                  onChange={(e) => setOutcome(signal, e.target.value as SignalOutcome)}
+                  className={`${inputClassName} max-w-[12rem]`}
+                >
+                  {(Object.keys(SIGNAL_OUTCOME_LABELS) as SignalOutcome[]).map((outcome) => (
+                    <option key={outcome} value={outcome}>
+                      {SIGNAL_OUTCOME_LABELS[outcome]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </Section>
+
+        <Section
+          title="Grades"
+          description="Minimum score for each grade; lower scores are graded C. Without fraud signals, A is recommended for approval, B for approval with conditions and C for rejection."
+        >
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            {(['A', 'B'] as const).map((label) => (
+              <label key={label} className="block text-sm text-gray-700">
+                Grade {label} from
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={rubric.labelCutoffs[label]}
+                  onChange={(e) => update({ labelCutoffs: { ...rubric.labelCutoffs, [label]: Number(e.target.value) } })}
+                  className={`${inputClassName} mt-1`}
+                />
+              </label>
+            ))}
+          </div>
+        </Section>
+      </fieldset>
+
+      {!readOnly && (
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Rubric'}
+          </button>
+        </div>
+      )}
+    </Form>
+  );
+}
+
+function Section({ title, description, children }: { title: string; description: string; children: ReactNode }) {
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      <div>
+        <h3 className="text-base font-semibold text-gray-900">{title}</h3>
+        <p className="text-sm text-gray-600">{description}</p>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function DeductionInput({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <label className="block text-sm text-gray-700 capitalize">
+      {label}
+      <input
+        type="number"
+        min={0}
+        max={100}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className={`${inputClassName} mt-1`}
+      />
+    </label>
+  );
+}
+
+type TierSectionProps = {
+  title: string;
+  description: string;
+  unit: string;
+  tiers: AIRubricTier[];
+  onChange: (tiers: AIRubricTier[]) => void;
+};
+
+function TierSection({ title, description, unit, tiers, onChange }: TierSectionProps) {
+  const updateTier = (index: number, changes: Partial<AIRubricTier>) =>
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)));
+
+  return (
+    <Section title={title} description={description}>
+      <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+        {tiers.length === 0 && <p className="px-4 py-3 text-sm text-gray-500">No deductions</p>}
+        {tiers.map((tier, index) => (
+          <div key={index} className="px-4 py-3 flex items-center gap-3 text-sm text-gray-700">
+            <span className="shrink-0">Below</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              aria-label={`${title} threshold`}
+              value={tier.below}
+              onChange={(e) => updateTier(index, { below: Number(e.target.value) })}
+              className={`${inputClassName} max-w-[6rem]`}
+            />
+            <span className="shrink-0">{unit}, deduct</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              aria-label={`${title} deduction`}
+              value={tier.deduction}
+              onChange={(e) => updateTier(index, { deduction: Number(e.target.value) })}
+              className={`${inputClassName} max-w-[6rem]`}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+              className="ml-auto text-sm text-red-600 hover:text-red-700 shrink-0"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([...tiers, { below: 0, deduction: 0 }])}
+        className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+      >
+        + Add tier
+      </button>
+    </Section>
+  );
+}
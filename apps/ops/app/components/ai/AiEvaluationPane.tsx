@@ -296,6 +296,19 @@ export function AiEvaluationPane({
                     <p className="text-sm text-gray-500">
                       Evaluated {new Date(currentEvaluation.evaluatedAt).toLocaleString()}
                     </p>
+                    {currentEvaluation.rubricVersion != null && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        Scored with{' '}
+                        <a
+                          href={`/admin/settings/ai?version=${currentEvaluation.rubricVersion}`}
+                          className="text-indigo-600 hover:text-indigo-700 underline"
+                        >
+                          {currentEvaluation.rubricVersion === 0
+                            ? 'the built-in rubric'
+                            : `rubric v${currentEvaluation.rubricVersion}`}
+                        </a>
+                      </p>
+                    )}
                   </div>
                 </div>
               )}
@@ -0,0 +1,7 @@
+/**
+ * AI components
+ * Evaluation pane and the per-site scoring rubric editor
+ */
+
+export { AiEvaluationPane } from './AiEvaluationPane';
+export { AIRubricEditor } from './AIRubricEditor';
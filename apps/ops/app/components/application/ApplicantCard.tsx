@@ -12,6 +12,8 @@ type ApplicantCardProps = {
   applicationId: string;
   isExpanded?: boolean;
   onToggle?: () => void;
+  onSendInvite?: (applicantId: string) => void;
+  isSendingInvite?: boolean;
 };
 
 export function ApplicantCard({
@@ -19,6 +21,8 @@ export function ApplicantCard({
   applicationId,
   isExpanded = false,
   onToggle,
+  onSendInvite,
+  isSendingInvite = false,
 }: ApplicantCardProps) {
   const typeLabels: Record<ApplicationApplicant['applicantType'], { label: string; color: string }> = {
     primary: { label: 'Primary Applicant', color: 'bg-indigo-100 text-indigo-800 border-indigo-200' },
@@ -29,6 +33,7 @@ export function ApplicantCard({
   const statusLabels: Record<DerivedInviteStatus, { label: string; color: string }> = {
     pending: { label: 'Invite Pending', color: 'bg-yellow-100 text-yellow-800' },
     sent: { label: 'Invite Sent', color: 'bg-blue-100 text-blue-800' },
+    expired: { label: 'Invite Expired', color: 'bg-gray-100 text-gray-700' },
     completed: { label: 'Completed', color: 'bg-green-100 text-green-800' },
   };
 
@@ -227,24 +232,6 @@ export function ApplicantCard({
             </div>
           </div>
         )}
-
-        {/* Invite Link (if applicable) */}
-        {inviteStatus && inviteStatus !== 'completed' && applicant.inviteToken && (
-          <div className="mt-4 pt-4 border-t border-gray-200">
-            <button
-              onClick={() => {
-                const url = `${window.location.origin}/apply/${applicant.inviteToken}`;
-                navigator.clipboard.writeText(url);
-              }}
-              className="text-sm text-indigo-600 hover:text-indigo-700 font-medium flex items-center gap-2"
-            >
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-              </svg>
-              Copy Invite Link
-            </button>
-          </div>
-        )}
       </div>
 
       {/* Summary View (when collapsed) */}
@@ -271,6 +258,27 @@ export function ApplicantCard({
           </div>
         </div>
       )}
+
+      {/* Invite (co-applicants and guarantors who haven't completed theirs) */}
+      {onSendInvite && applicant.applicantType !== 'primary' && inviteStatus !== 'completed' && (
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-between gap-3">
+          <span className="text-xs text-gray-500">
+            {inviteStatus === 'sent' || inviteStatus === 'pending'
+              ? `Link expires ${new Date(applicant.inviteTokenExpiresAt!).toLocaleDateString()}`
+              : 'Email a link to add their own details and documents'}
+          </span>
+          <button
+            onClick={() => onSendInvite(applicant.id)}
+            disabled={isSendingInvite}
+            className="text-sm text-indigo-600 hover:text-indigo-700 font-medium flex items-center gap-2 disabled:opacity-50"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+            </svg>
+            {isSendingInvite ? 'Sending...' : inviteStatus ? 'Resend Invite' : 'Send Invite'}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -4,6 +4,13 @@
  */
 
 import { useState } from 'react';
+import type { BypassCategory, PipelineStage } from '~/shared/types';
+import {
+  APPLICATION_STAGE_LABELS,
+  BYPASS_CATEGORY_LABELS,
+  DEFAULT_APPLICATION_PIPELINE,
+  MIN_BYPASS_REASON_LENGTH,
+} from '~/shared/utils';
 
 export interface BulkActionConfirmModalProps {
   isOpen: boolean;
@@ -12,6 +19,8 @@ export interface BulkActionConfirmModalProps {
   action: 'reject' | 'move_to_stage' | 'archive' | 'send_email' | 'proceed_to_lease' | null;
   applicationCount: number;
   applications?: Array<{ id: string; firstName: string; lastName: string }>;
+  /** The site's pipeline stages offered by "Move to Stage" */
+  stages?: PipelineStage[];
 }
 
 export function BulkActionConfirmModal({
@@ -21,10 +30,13 @@ export function BulkActionConfirmModal({
   action,
   applicationCount,
   applications = [],
+  stages = DEFAULT_APPLICATION_PIPELINE.stages,
 }: BulkActionConfirmModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [reason, setReason] = useState('');
   const [stage, setStage] = useState('');
+  const [bypassReason, setBypassReason] = useState('');
+  const [bypassCategory, setBypassCategory] = useState<BypassCategory>('manual_override');
   const [leaseStartDate, setLeaseStartDate] = useState('');
   const [leaseTermMonths, setLeaseTermMonths] = useState('12');
 
@@ -78,6 +90,10 @@ export function BulkActionConfirmModal({
         params.reason = reason;
       } else if (action === 'move_to_stage') {
         params.stage = stage;
+        if (bypassReason.trim()) {
+          params.bypass_reason = bypassReason.trim();
+          params.bypass_category = bypassCategory;
+        }
       } else if (action === 'proceed_to_lease') {
         params.lease_start_date = leaseStartDate;
         params.lease_term_months = parseInt(leaseTermMonths);
@@ -87,6 +103,7 @@ export function BulkActionConfirmModal({
       onClose();
       setReason('');
       setStage('');
+      setBypassReason('');
       setLeaseStartDate('');
       setLeaseTermMonths('12');
     } catch (error) {
@@ -168,14 +185,38 @@ export function BulkActionConfirmModal({
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
                   <option value="">Choose a stage...</option>
-                  <option value="new">New</option>
-                  <option value="documents_pending">Documents Pending</option>
-                  <option value="documents_received">Documents Received</option>
-                  <option value="ai_evaluated">AI Evaluated</option>
-                  <option value="screening">Background Check</option>
-                  <option value="approved">Approved</option>
-                  <option value="rejected">Rejected</option>
+                  {stages.map((pipelineStage) => (
+                    <option key={pipelineStage.key} value={pipelineStage.key}>
+                      {pipelineStage.label}
+                    </option>
+                  ))}
+                  <option value="rejected">{APPLICATION_STAGE_LABELS.rejected}</option>
                 </select>
+                <label htmlFor="bypassReason" className="block text-sm font-medium text-gray-700 mt-3 mb-1">
+                  Bypass Reason (optional)
+                </label>
+                <textarea
+                  id="bypassReason"
+                  value={bypassReason}
+                  onChange={(e) => setBypassReason(e.target.value)}
+                  rows={2}
+                  placeholder={`Needed when the move skips stages or leaves checklist items open (at least ${MIN_BYPASS_REASON_LENGTH} characters)`}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                {bypassReason.trim() && (
+                  <select
+                    id="bypassCategory"
+                    value={bypassCategory}
+                    onChange={(e) => setBypassCategory(e.target.value as BypassCategory)}
+                    className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {Object.entries(BYPASS_CATEGORY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                )}
               </div>
             )}
 
@@ -0,0 +1,78 @@
+/**
+ * IntakeAnswersCard - Answers to the site's custom application questions
+ * Labels come from the form version the applicant submitted on
+ */
+
+import type { IntakeAnswerValue, IntakeAnswers, IntakeFormField, IntakeFormSchema } from '~/shared/types';
+import { formatIntakeOption, isCoreIntakeField } from '~/shared/utils';
+
+type IntakeAnswersCardProps = {
+  answers: IntakeAnswers;
+  schema: IntakeFormSchema | null;
+  version?: number;
+};
+
+function formatValue(field: IntakeFormField | undefined, value: IntakeAnswerValue): string {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field?.type === 'select') return formatIntakeOption(String(value));
+  return String(value);
+}
+
+export function IntakeAnswersCard({ answers, schema, version }: IntakeAnswersCardProps) {
+  // Group by section; answers whose field no longer resolves are listed by key
+  const sections = (schema?.sections ?? [])
+    .map((section) => ({
+      title: section.title,
+      fields: section.fields.filter((field) => !isCoreIntakeField(field.key) && answers[field.key] !== undefined),
+    }))
+    .filter((section) => section.fields.length > 0);
+  const knownKeys = new Set(sections.flatMap((section) => section.fields.map((field) => field.key)));
+  const unknownKeys = Object.keys(answers).filter((key) => !knownKeys.has(key));
+
+  const renderAnswer = (key: string, label: string, field?: IntakeFormField) => {
+    const value = answers[key];
+    return (
+      <div key={key} className="col-span-2 md:col-span-1">
+        <dt className="text-sm font-medium text-gray-500">{label}</dt>
+        <dd className="mt-1 text-sm text-gray-900">
+          {Array.isArray(value) ? (
+            <ul className="space-y-1">
+              {value.map((item, index) => (
+                <li key={index}>
+                  {(field?.itemFields ?? Object.keys(item).map((k) => ({ key: k, label: k } as IntakeFormField)))
+                    .filter((itemField) => item[itemField.key] !== undefined)
+                    .map((itemField) => `${itemField.label}: ${formatValue(itemField, item[itemField.key])}`)
+                    .join(' · ')}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            formatValue(field, value)
+          )}
+        </dd>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Application Answers</h2>
+        {version !== undefined && <span className="text-xs text-gray-400">Form version {version}</span>}
+      </div>
+      <div className="space-y-6">
+        {sections.map((section) => (
+          <div key={section.title}>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">{section.title}</h3>
+            <dl className="grid grid-cols-2 gap-4">
+              {section.fields.map((field) => renderAnswer(field.key, field.label, field))}
+            </dl>
+          </div>
+        ))}
+        {unknownKeys.length > 0 && (
+          <dl className="grid grid-cols-2 gap-4">{unknownKeys.map((key) => renderAnswer(key, key))}</dl>
+        )}
+      </div>
+    </div>
+  );
+}
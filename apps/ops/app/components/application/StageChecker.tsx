@@ -11,6 +11,8 @@ export type ChecklistItem = {
   description?: string;
   required: boolean;
   checked: boolean;
+  /** Ticked from the application's data rather than by hand */
+  automatic?: boolean;
   link?: {
     label: string;
     href: string;
@@ -135,8 +137,9 @@ function ChecklistItemRow({
         type="checkbox"
         id={`checklist-${item.id}`}
         checked={item.checked}
+        disabled={item.automatic}
         onChange={(e) => onToggle(e.target.checked)}
-        className="mt-1 w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 cursor-pointer"
+        className="mt-1 w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 cursor-pointer disabled:cursor-default disabled:opacity-60"
       />
 
       {/* Content */}
@@ -149,6 +152,7 @@ function ChecklistItemRow({
         >
           {item.label}
           {item.required && <span className="text-red-500 ml-1">*</span>}
+          {item.automatic && <span className="ml-2 text-xs font-normal text-gray-400">Automatic</span>}
         </label>
 
         {item.description && (
@@ -5,6 +5,8 @@
 
 import { useState, useEffect } from 'react';
 import type { ChecklistItem } from './StageChecker';
+import type { BypassCategory } from '~/shared/types';
+import { BYPASS_CATEGORY_LABELS, MIN_BYPASS_REASON_LENGTH } from '~/shared/utils';
 import {
   Alert,
   AlertDescription,
@@ -18,6 +20,7 @@ import {
   DialogHeader,
   DialogTitle,
   Label,
+  Select,
   Textarea,
 } from '@leaselab/ui-components';
 
@@ -34,7 +37,9 @@ type StageConfirmationDialogProps = {
   checklistItems: ChecklistItem[];
   warnings?: string[];
   canBypass?: boolean;
-  onConfirm: (bypassReason?: string) => void;
+  /** The move skips stages, so it always needs a bypass reason */
+  requiresBypass?: boolean;
+  onConfirm: (bypassReason?: string, bypassCategory?: BypassCategory) => void;
   onCancel: () => void;
   isLoading?: boolean;
 };
@@ -45,36 +50,41 @@ export function StageConfirmationDialog({
   checklistItems,
   warnings = [],
   canBypass = false,
+  requiresBypass = false,
   onConfirm,
   onCancel,
   isLoading = false,
 }: StageConfirmationDialogProps) {
   const [showBypassInput, setShowBypassInput] = useState(false);
   const [bypassReason, setBypassReason] = useState('');
+  const [bypassCategory, setBypassCategory] = useState<BypassCategory>('manual_override');
 
   const requiredItems = checklistItems.filter((item) => item.required);
   const incompleteRequired = requiredItems.filter((item) => !item.checked);
   const hasIncomplete = incompleteRequired.length > 0;
+  const needsBypass = hasIncomplete || requiresBypass;
+  const bypassInputShown = showBypassInput || requiresBypass;
 
   // Reset state when dialog closes
   useEffect(() => {
     if (!isOpen) {
       setShowBypassInput(false);
       setBypassReason('');
+      setBypassCategory('manual_override');
     }
   }, [isOpen]);
 
   if (!transition) return null;
 
   const handleConfirm = () => {
-    if (hasIncomplete && showBypassInput) {
-      onConfirm(bypassReason);
+    if (needsBypass && bypassInputShown) {
+      onConfirm(bypassReason, bypassCategory);
     } else {
       onConfirm();
     }
   };
 
-  const canProceed = !hasIncomplete || (showBypassInput && bypassReason.trim().length >= 10);
+  const canProceed = !needsBypass || (bypassInputShown && bypassReason.trim().length >= MIN_BYPASS_REASON_LENGTH);
 
   return (
     <Dialog
@@ -123,28 +133,48 @@ export function StageConfirmationDialog({
             </Alert>
           )}
 
-          {hasIncomplete ? (
+          {needsBypass ? (
             <div className="space-y-3">
-              <Alert variant="destructive">
-                <svg className="h-4 w-4" viewBox="0 0 24 24" stroke="currentColor" fill="none">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-                <AlertTitle>Required items not completed</AlertTitle>
-                <AlertDescription>
-                  <ul className="list-disc space-y-1 pl-4">
-                    {incompleteRequired.map((item) => (
-                      <li key={item.id}>{item.label}</li>
-                    ))}
-                  </ul>
-                </AlertDescription>
-              </Alert>
-              {canBypass && !showBypassInput ? (
+              {requiresBypass && (
+                <Alert variant="warning">
+                  <AlertTitle>This move skips stages</AlertTitle>
+                  <AlertDescription>Give a reason for skipping the stages in between.</AlertDescription>
+                </Alert>
+              )}
+              {hasIncomplete && (
+                <Alert variant="destructive">
+                  <svg className="h-4 w-4" viewBox="0 0 24 24" stroke="currentColor" fill="none">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  <AlertTitle>Required items not completed</AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc space-y-1 pl-4">
+                      {incompleteRequired.map((item) => (
+                        <li key={item.id}>{item.label}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              {canBypass && !bypassInputShown ? (
                 <Button variant="link" className="px-0" onClick={() => setShowBypassInput(true)}>
                   Bypass requirements with reason
                 </Button>
               ) : null}
-              {showBypassInput && (
+              {bypassInputShown && (
                 <div className="space-y-2">
+                  <Label htmlFor="bypassCategory">Bypass Category</Label>
+                  <Select
+                    id="bypassCategory"
+                    value={bypassCategory}
+                    onChange={(e) => setBypassCategory(e.target.value as BypassCategory)}
+                  >
+                    {(Object.keys(BYPASS_CATEGORY_LABELS) as BypassCategory[]).map((category) => (
+                      <option key={category} value={category}>
+                        {BYPASS_CATEGORY_LABELS[category]}
+                      </option>
+                    ))}
+                  </Select>
                   <Label htmlFor="bypassReason">
                     Bypass Reason <span className="text-destructive">*</span>
                   </Label>
@@ -153,9 +183,11 @@ export function StageConfirmationDialog({
                     value={bypassReason}
                     onChange={(e) => setBypassReason(e.target.value)}
                     rows={3}
-                    placeholder="Explain why you're bypassing these requirements (minimum 10 characters)"
+                    placeholder={`Explain why you're bypassing these requirements (minimum ${MIN_BYPASS_REASON_LENGTH} characters)`}
                   />
-                  <p className="text-xs text-muted-foreground">{bypassReason.length} / 10 characters minimum</p>
+                  <p className="text-xs text-muted-foreground">
+                    {bypassReason.length} / {MIN_BYPASS_REASON_LENGTH} characters minimum
+                  </p>
                 </div>
               )}
             </div>
@@ -174,7 +206,7 @@ export function StageConfirmationDialog({
             Cancel
           </Button>
           <Button type="button" onClick={handleConfirm} disabled={!canProceed || isLoading}>
-            {isLoading ? 'Processing...' : hasIncomplete && showBypassInput ? 'Bypass & Proceed' : 'Confirm Transition'}
+            {isLoading ? 'Processing...' : needsBypass && bypassInputShown ? 'Bypass & Proceed' : 'Confirm Transition'}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -6,7 +6,8 @@
 
 import { useState } from 'react';
 import { Link, useRevalidator } from '@remix-run/react';
-import type { UnitApplicationGroup } from '~/shared/types';
+import type { ApplicationPipeline, UnitApplicationGroup } from '~/shared/types';
+import { resolvePipelineStage } from '~/shared/utils';
 import { useMultiSelect } from '~/lib/useMultiSelect';
 import { BulkActionToolbar } from './BulkActionToolbar';
 import { BulkActionConfirmModal } from './BulkActionConfirmModal';
@@ -14,11 +15,13 @@ import { BulkActionConfirmModal } from './BulkActionConfirmModal';
 interface UnitGroupedApplicationListProps {
   groups: UnitApplicationGroup[];
   propertyId: string;
+  pipeline: ApplicationPipeline;
 }
 
 interface ApplicationRowProps {
   application: any;
   propertyId: string;
+  pipeline: ApplicationPipeline;
   isSelected: boolean;
   onToggleSelection: () => void;
 }
@@ -30,6 +33,7 @@ interface ApplicationRowProps {
 export function UnitGroupedApplicationList({
   groups,
   propertyId,
+  pipeline,
 }: UnitGroupedApplicationListProps) {
   if (groups.length === 0) {
     return (
@@ -58,7 +62,7 @@ export function UnitGroupedApplicationList({
   return (
     <div className="space-y-6">
       {groups.map((group, index) => (
-        <UnitGroup key={group.unit?.id || `no-unit-${index}`} group={group} propertyId={propertyId} />
+        <UnitGroup key={group.unit?.id || `no-unit-${index}`} group={group} propertyId={propertyId} pipeline={pipeline} />
       ))}
     </div>
   );
@@ -68,7 +72,15 @@ export function UnitGroupedApplicationList({
  * Individual unit group with header and applications table
  * Includes multi-select functionality and bulk actions
  */
-function UnitGroup({ group, propertyId }: { group: UnitApplicationGroup; propertyId: string }) {
+function UnitGroup({
+  group,
+  propertyId,
+  pipeline,
+}: {
+  group: UnitApplicationGroup;
+  propertyId: string;
+  pipeline: ApplicationPipeline;
+}) {
   const { unit, applications, count } = group;
   const multiSelect = useMultiSelect();
   const revalidator = useRevalidator();
@@ -245,6 +257,7 @@ function UnitGroup({ group, propertyId }: { group: UnitApplicationGroup; propert
                 key={app.id}
                 application={app}
                 propertyId={propertyId}
+                pipeline={pipeline}
                 isSelected={multiSelect.isSelected(app.id)}
                 onToggleSelection={() => multiSelect.toggleSelection(app.id, app.unitId)}
               />
@@ -265,6 +278,7 @@ function UnitGroup({ group, propertyId }: { group: UnitApplicationGroup; propert
           firstName: app.firstName,
           lastName: app.lastName,
         }))}
+        stages={pipeline.stages}
       />
     </div>
   );
@@ -273,7 +287,7 @@ function UnitGroup({ group, propertyId }: { group: UnitApplicationGroup; propert
 /**
  * Individual application row in the table with checkbox
  */
-function ApplicationRow({ application, propertyId, isSelected, onToggleSelection }: ApplicationRowProps) {
+function ApplicationRow({ application, propertyId, pipeline, isSelected, onToggleSelection }: ApplicationRowProps) {
   const aiLabelColors: Record<string, string> = {
     A: 'bg-green-100 text-green-800 border-green-200',
     B: 'bg-blue-100 text-blue-800 border-blue-200',
@@ -281,16 +295,6 @@ function ApplicationRow({ application, propertyId, isSelected, onToggleSelection
     D: 'bg-red-100 text-red-800 border-red-200',
   };
 
-  const statusLabels: Record<string, string> = {
-    new: 'New',
-    documents_pending: 'Docs Pending',
-    documents_received: 'Docs Received',
-    ai_evaluated: 'AI Evaluated',
-    screening: 'Background Check',
-    approved: 'Approved',
-    rejected: 'Rejected',
-  };
-
   const statusColors: Record<string, string> = {
     approved: 'bg-green-100 text-green-800 border-green-200',
     rejected: 'bg-red-100 text-red-800 border-red-200',
@@ -332,7 +336,7 @@ function ApplicationRow({ application, propertyId, isSelected, onToggleSelection
               statusColors[application.status] || 'bg-gray-100 text-gray-700 border-gray-200'
             }`}
           >
-            {statusLabels[application.status] || application.status}
+            {resolvePipelineStage(pipeline, application.status, application.pipelineStage).label}
           </span>
         </div>
       </td>
@@ -15,3 +15,4 @@ export { BulkActionToolbar } from './BulkActionToolbar';
 export type { BulkActionToolbarProps } from './BulkActionToolbar';
 export { BulkActionConfirmModal } from './BulkActionConfirmModal';
 export type { BulkActionConfirmModalProps } from './BulkActionConfirmModal';
+export { IntakeAnswersCard } from './IntakeAnswersCard';
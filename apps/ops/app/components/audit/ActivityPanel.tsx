@@ -0,0 +1,82 @@
+/**
+ * ActivityPanel - Audit trail for a single record
+ * Field changes show before → after; workflow actions show their details
+ */
+
+import type { AuditLogEntry } from '~/shared/types';
+
+type ActivityPanelProps = {
+  entries: AuditLogEntry[];
+  title?: string;
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+function formatAction(action: string): string {
+  return ACTION_LABELS[action] ?? action.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+}
+
+function formatField(field: string): string {
+  return field.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').toLowerCase();
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isFieldChange(value: unknown): value is { before: unknown; after: unknown } {
+  return typeof value === 'object' && value !== null && 'before' in value && 'after' in value;
+}
+
+export function ActivityPanel({ entries, title = 'Activity' }: ActivityPanelProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{title}</h2>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity recorded yet</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {entries.map((entry) => {
+            const changes = Object.entries(entry.changes ?? {});
+            return (
+              <div key={entry.id} className="py-3">
+                <div className="flex items-start justify-between gap-4">
+                  <p className="text-sm font-medium text-gray-900">{formatAction(entry.action)}</p>
+                  <p className="text-xs text-gray-500 shrink-0">
+                    {entry.performedByName || (entry.performedBy ? 'Former user' : 'System')}
+                    {' · '}
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                {changes.length > 0 && entry.action !== 'create' && entry.action !== 'delete' && (
+                  <ul className="mt-1 space-y-0.5">
+                    {changes.map(([field, value]) => (
+                      <li key={field} className="text-xs text-gray-600">
+                        <span className="text-gray-500">{formatField(field)}:</span>{' '}
+                        {isFieldChange(value) ? (
+                          <>
+                            <span className="line-through text-gray-400">{formatValue(value.before)}</span>
+                            {' → '}
+                            <span className="text-gray-900">{formatValue(value.after)}</span>
+                          </>
+                        ) : (
+                          <span className="text-gray-900">{formatValue(value)}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
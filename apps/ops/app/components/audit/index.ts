@@ -0,0 +1,6 @@
+/**
+ * Audit components
+ * Change history shown on ops detail pages
+ */
+
+export { ActivityPanel } from './ActivityPanel';
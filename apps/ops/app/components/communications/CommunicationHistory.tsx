@@ -0,0 +1,173 @@
+/**
+ * CommunicationHistory - Email log and composer for an application, tenant or work order
+ * Posts `_action=sendEmail` / `_action=retryEmail` to the hosting route's action
+ */
+
+import { Form, useNavigation } from '@remix-run/react';
+import { useMemo, useState } from 'react';
+import type { Communication, CommunicationEntityType } from '~/shared/types';
+import { getEmailTemplatesForEntity } from '~/shared/utils';
+
+type CommunicationHistoryProps = {
+  communications: Communication[];
+  entityType: CommunicationEntityType;
+  error?: string;
+  /** Reason sending is unavailable (e.g. no tenant on the work order) */
+  disabledReason?: string;
+};
+
+export function CommunicationHistory({
+  communications,
+  entityType,
+  error,
+  disabledReason,
+}: CommunicationHistoryProps) {
+  const navigation = useNavigation();
+  const templates = getEmailTemplatesForEntity(entityType);
+  const [templateKey, setTemplateKey] = useState<string>(templates[0]?.key ?? '');
+  const isSending = navigation.state === 'submitting' && navigation.formData?.get('_action') === 'sendEmail';
+
+  // New key once the sent message shows up, so double submits are deduplicated
+  const idempotencyKey = useMemo(
+    () => `${entityType}-${communications.length}-${Date.now().toString(36)}`,
+    [entityType, communications.length]
+  );
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg px-4 py-3">{error}</div>
+      )}
+
+      {/* Composer */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Send Email</h2>
+        {disabledReason ? (
+          <p className="text-sm text-gray-500">{disabledReason}</p>
+        ) : (
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="_action" value="sendEmail" />
+            <input type="hidden" name="idempotencyKey" value={idempotencyKey} />
+            <div>
+              <label htmlFor="templateKey" className="block text-sm font-medium text-gray-700 mb-1">
+                Template
+              </label>
+              <select
+                id="templateKey"
+                name="templateKey"
+                value={templateKey}
+                onChange={(e) => setTemplateKey(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {templates.map((template) => (
+                  <option key={template.key} value={template.key}>
+                    {template.label}
+                  </option>
+                ))}
+                <option value="">Custom message</option>
+              </select>
+            </div>
+
+            {templateKey === '' && (
+              <>
+                <div>
+                  <label htmlFor="subject" className="block text-sm font-medium text-gray-700 mb-1">
+                    Subject
+                  </label>
+                  <input
+                    id="subject"
+                    name="subject"
+                    type="text"
+                    required
+                    maxLength={200}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="body" className="block text-sm font-medium text-gray-700 mb-1">
+                    Message
+                  </label>
+                  <textarea
+                    id="body"
+                    name="body"
+                    rows={6}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    {'Placeholders such as {{firstName}}, {{propertyName}} and {{unitNumber}} are filled in per recipient.'}
+                  </p>
+                </div>
+              </>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSending}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isSending ? 'Sending...' : 'Send Email'}
+            </button>
+          </Form>
+        )}
+      </div>
+
+      {/* History */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Communication History</h2>
+        {communications.length === 0 ? (
+          <p className="text-sm text-gray-500">No emails sent yet</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {communications.map((communication) => (
+              <div key={communication.id} className="py-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{communication.subject}</p>
+                    <p className="text-xs text-gray-500">
+                      To {communication.recipientName ? `${communication.recipientName} <${communication.recipientEmail}>` : communication.recipientEmail}
+                      {' · '}
+                      {new Date(communication.sentAt || communication.createdAt).toLocaleString()}
+                      {communication.attempts > 1 && ` · ${communication.attempts} attempts`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <CommunicationStatusBadge status={communication.status} />
+                    {communication.status === 'failed' && (
+                      <Form method="post">
+                        <input type="hidden" name="_action" value="retryEmail" />
+                        <input type="hidden" name="communicationId" value={communication.id} />
+                        <button type="submit" className="text-xs text-indigo-600 hover:text-indigo-700 font-medium">
+                          Retry
+                        </button>
+                      </Form>
+                    )}
+                  </div>
+                </div>
+                {communication.lastError && communication.status !== 'sent' && (
+                  <p className="mt-1 text-xs text-red-600">{communication.lastError}</p>
+                )}
+                <details className="mt-1">
+                  <summary className="text-xs text-gray-500 cursor-pointer">Show message</summary>
+                  <pre className="mt-2 text-xs text-gray-700 whitespace-pre-wrap font-sans">{communication.body}</pre>
+                </details>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CommunicationStatusBadge({ status }: { status: string }) {
+  const config: Record<string, { bg: string; text: string; label: string }> = {
+    queued: { bg: 'bg-yellow-100', text: 'text-yellow-700', label: 'Queued' },
+    sending: { bg: 'bg-blue-100', text: 'text-blue-700', label: 'Sending' },
+    sent: { bg: 'bg-green-100', text: 'text-green-700', label: 'Sent' },
+    failed: { bg: 'bg-red-100', text: 'text-red-700', label: 'Failed' },
+  };
+
+  const c = config[status] || { bg: 'bg-gray-100', text: 'text-gray-700', label: status };
+  return <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${c.bg} ${c.text}`}>{c.label}</span>;
+}
@@ -0,0 +1,6 @@
+/**
+ * Communication components
+ * Email history and composer shared by applications, tenants and work orders
+ */
+
+export { CommunicationHistory } from './CommunicationHistory';
@@ -0,0 +1,495 @@
+/**
+ * IntakeFormEditor - Builder for the storefront application form
+ * Keeps the form in local state and posts it as JSON in the `schema` field
+ */
+
+import { Form, useNavigation } from '@remix-run/react';
+import { useMemo, useState } from 'react';
+import type { IntakeFieldType, IntakeFormField, IntakeFormSchema } from '~/shared/types';
+import { CORE_INTAKE_FIELDS, isCoreIntakeField } from '~/shared/utils';
+
+const FIELD_TYPE_LABELS: Record<IntakeFieldType, string> = {
+  text: 'Short text',
+  textarea: 'Long text',
+  email: 'Email',
+  phone: 'Phone',
+  number: 'Number',
+  date: 'Date',
+  select: 'Dropdown',
+  yes_no: 'Yes / No',
+  list: 'List of entries',
+};
+
+const CORE_FIELD_LABELS: Record<string, string> = {
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  email: 'Email',
+  phone: 'Phone',
+  currentAddress: 'Current Address',
+  employmentStatus: 'Employment Status',
+  moveInDate: 'Ideal Move-in Date',
+  message: 'Message',
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Editor rows carry a stable uid so reordering doesn't confuse React
+type EditorField = {
+  uid: string;
+  key: string;
+  label: string;
+  type: IntakeFieldType;
+  required: boolean;
+  helpText: string;
+  optionsText: string;
+  maxItems: string;
+  itemFields: EditorField[];
+};
+
+type EditorSection = {
+  uid: string;
+  id: string;
+  title: string;
+  description: string;
+  fields: EditorField[];
+};
+
+let uidCounter = 0;
+const nextUid = () => `row_${++uidCounter}`;
+
+function toEditorField(field: IntakeFormField): EditorField {
+  return {
+    uid: nextUid(),
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    required: field.required,
+    helpText: field.helpText ?? '',
+    optionsText: (field.options ?? []).join(', '),
+    maxItems: field.maxItems !== undefined ? String(field.maxItems) : '',
+    itemFields: (field.itemFields ?? []).map(toEditorField),
+  };
+}
+
+function toSchemaField(field: EditorField, isListItem = false): IntakeFormField {
+  const result: IntakeFormField = {
+    key: field.key.trim(),
+    label: field.label.trim(),
+    type: field.type,
+    required: field.required,
+  };
+  if (field.helpText.trim()) result.helpText = field.helpText.trim();
+  if (field.type === 'select' && !isCoreIntakeField(field.key)) {
+    result.options = field.optionsText.split(',').map((option) => option.trim()).filter(Boolean);
+  }
+  if (field.type === 'list' && !isListItem) {
+    result.itemFields = field.itemFields.map((itemField) => toSchemaField(itemField, true));
+    if (field.maxItems.trim()) result.maxItems = Number(field.maxItems);
+  }
+  return result;
+}
+
+function toSchema(sections: EditorSection[]): IntakeFormSchema {
+  return {
+    sections: sections.map((section) => ({
+      id: section.id,
+      title: section.title.trim(),
+      ...(section.description.trim() ? { description: section.description.trim() } : {}),
+      fields: section.fields.map((field) => toSchemaField(field)),
+    })),
+  };
+}
+
+function newField(key: string): EditorField {
+  return {
+    uid: nextUid(),
+    key,
+    label: '',
+    type: 'text',
+    required: false,
+    helpText: '',
+    optionsText: '',
+    maxItems: '',
+    itemFields: [],
+  };
+}
+
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const copy = [...items];
+  [copy[index], copy[target]] = [copy[target], copy[index]];
+  return copy;
+}
+
+type IntakeFormEditorProps = {
+  schema: IntakeFormSchema;
+  errors?: string[];
+};
+
+export function IntakeFormEditor({ schema, errors }: IntakeFormEditorProps) {
+  const navigation = useNavigation();
+  const isSaving = navigation.state === 'submitting';
+  const [sections, setSections] = useState<EditorSection[]>(() =>
+    schema.sections.map((section) => ({
+      uid: nextUid(),
+      id: section.id,
+      title: section.title,
+      description: section.description ?? '',
+      fields: section.fields.map(toEditorField),
+    }))
+  );
+
+  const usedKeys = useMemo(() => new Set(sections.flatMap((s) => s.fields.map((f) => f.key))), [sections]);
+  const missingCoreFields = Object.keys(CORE_INTAKE_FIELDS).filter((key) => !usedKeys.has(key));
+
+  const updateSection = (index: number, changes: Partial<EditorSection>) =>
+    setSections((current) => current.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+  const updateField = (sectionIndex: number, fieldIndex: number, changes: Partial<EditorField>) =>
+    updateSection(sectionIndex, {
+      fields: sections[sectionIndex].fields.map((f, i) => (i === fieldIndex ? { ...f, ...changes } : f)),
+    });
+
+  const addSection = () => {
+    let n = sections.length + 1;
+    while (sections.some((s) => s.id === `section_${n}`)) n++;
+    setSections([...sections, { uid: nextUid(), id: `section_${n}`, title: 'New Section', description: '', fields: [] }]);
+  };
+
+  const addField = (sectionIndex: number, key?: string) => {
+    let field: EditorField;
+    if (key && isCoreIntakeField(key)) {
+      field = { ...newField(key), label: CORE_FIELD_LABELS[key], type: CORE_INTAKE_FIELDS[key].type };
+    } else {
+      let n = 1;
+      while (usedKeys.has(`question_${n}`)) n++;
+      field = newField(`question_${n}`);
+    }
+    updateSection(sectionIndex, { fields: [...sections[sectionIndex].fields, field] });
+  };
+
+  return (
+    <Form method="post" className="space-y-6">
+      <input type="hidden" name="schema" value={JSON.stringify(toSchema(sections))} />
+
+      {errors && errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg px-4 py-3">
+          <ul className="list-disc pl-5 space-y-1">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {sections.map((section, sectionIndex) => (
+        <div key={section.uid} className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+          <div className="flex items-start gap-4">
+            <div className="flex-1 space-y-2">
+              <input
+                type="text"
+                aria-label="Section title"
+                value={section.title}
+                onChange={(e) => updateSection(sectionIndex, { title: e.target.value })}
+                className={`${inputClassName} font-semibold`}
+              />
+              <input
+                type="text"
+                aria-label="Section description"
+                placeholder="Description (optional)"
+                value={section.description}
+                onChange={(e) => updateSection(sectionIndex, { description: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <RowActions
+              onUp={() => setSections(move(sections, sectionIndex, -1))}
+              onDown={() => setSections(move(sections, sectionIndex, 1))}
+              onRemove={
+                section.fields.some((f) => isCoreIntakeField(f.key) && CORE_INTAKE_FIELDS[f.key].locked)
+                  ? undefined
+                  : () => setSections(sections.filter((_, i) => i !== sectionIndex))
+              }
+            />
+          </div>
+
+          <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {section.fields.length === 0 && <p className="px-4 py-3 text-sm text-gray-500">No questions yet</p>}
+            {section.fields.map((field, fieldIndex) => (
+              <FieldEditor
+                key={field.uid}
+                field={field}
+                onChange={(changes) => updateField(sectionIndex, fieldIndex, changes)}
+                onUp={() => updateSection(sectionIndex, { fields: move(section.fields, fieldIndex, -1) })}
+                onDown={() => updateSection(sectionIndex, { fields: move(section.fields, fieldIndex, 1) })}
+                onRemove={() =>
+                  updateSection(sectionIndex, { fields: section.fields.filter((_, i) => i !== fieldIndex) })
+                }
+                onMoveTo={
+                  sections.length > 1
+                    ? (targetIndex) => {
+                        setSections((current) =>
+                          current.map((s, i) => {
+                            if (i === sectionIndex) return { ...s, fields: s.fields.filter((f) => f.uid !== field.uid) };
+                            if (i === targetIndex) return { ...s, fields: [...s.fields, field] };
+                            return s;
+                          })
+                        );
+                      }
+                    : undefined
+                }
+                sections={sections.map((s) => s.title || s.id)}
+                sectionIndex={sectionIndex}
+              />
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={() => addField(sectionIndex)}
+              className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+            >
+              + Add question
+            </button>
+            {missingCoreFields.map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => addField(sectionIndex, key)}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                + {CORE_FIELD_LABELS[key]}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={addSection}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Add Section
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save New Version'}
+        </button>
+      </div>
+    </Form>
+  );
+}
+
+type FieldEditorProps = {
+  field: EditorField;
+  onChange: (changes: Partial<EditorField>) => void;
+  onUp: () => void;
+  onDown: () => void;
+  onRemove: () => void;
+  onMoveTo?: (sectionIndex: number) => void;
+  sections: string[];
+  sectionIndex: number;
+};
+
+function FieldEditor({ field, onChange, onUp, onDown, onRemove, onMoveTo, sections, sectionIndex }: FieldEditorProps) {
+  const core = isCoreIntakeField(field.key) ? CORE_INTAKE_FIELDS[field.key] : null;
+
+  return (
+    <div className="px-4 py-3 space-y-3">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 grid grid-cols-1 gap-3 md:grid-cols-4">
+          <input
+            type="text"
+            aria-label="Label"
+            placeholder="Label"
+            value={field.label}
+            onChange={(e) => onChange({ label: e.target.value })}
+            className={`${inputClassName} md:col-span-2`}
+          />
+          <input
+            type="text"
+            aria-label="Key"
+            placeholder="key"
+            value={field.key}
+            readOnly={Boolean(core)}
+            onChange={(e) => onChange({ key: e.target.value })}
+            className={`${inputClassName} font-mono ${core ? 'bg-gray-50 text-gray-500' : ''}`}
+          />
+          <select
+            aria-label="Type"
+            value={field.type}
+            disabled={Boolean(core)}
+            onChange={(e) => onChange({ type: e.target.value as IntakeFieldType })}
+            className={inputClassName}
+          >
+            {Object.entries(FIELD_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <RowActions onUp={onUp} onDown={onDown} onRemove={core?.locked ? undefined : onRemove} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="inline-flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={field.required}
+            disabled={core?.locked}
+            onChange={(e) => onChange({ required: e.target.checked })}
+          />
+          Required
+        </label>
+        <input
+          type="text"
+          aria-label="Help text"
+          placeholder="Help text (optional)"
+          value={field.helpText}
+          onChange={(e) => onChange({ helpText: e.target.value })}
+          className={`${inputClassName} flex-1 min-w-[12rem]`}
+        />
+        {onMoveTo && (
+          <select
+            aria-label="Move to section"
+            value=""
+            onChange={(e) => e.target.value !== '' && onMoveTo(Number(e.target.value))}
+            className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">Move to…</option>
+            {sections.map((title, index) =>
+              index === sectionIndex ? null : (
+                <option key={index} value={index}>
+                  {title}
+                </option>
+              )
+            )}
+          </select>
+        )}
+      </div>
+
+      {field.type === 'select' && !core && (
+        <input
+          type="text"
+          aria-label="Options"
+          placeholder="Options, separated by commas (e.g. None, Cat, Dog)"
+          value={field.optionsText}
+          onChange={(e) => onChange({ optionsText: e.target.value })}
+          className={inputClassName}
+        />
+      )}
+
+      {field.type === 'list' && (
+        <div className="ml-4 pl-4 border-l-2 border-gray-100 space-y-2">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>Each entry asks for:</span>
+            <span className="ml-auto">Max entries</span>
+            <input
+              type="number"
+              min={1}
+              aria-label="Max entries"
+              value={field.maxItems}
+              onChange={(e) => onChange({ maxItems: e.target.value })}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          {field.itemFields.map((itemField, itemIndex) => (
+            <div key={itemField.uid} className="flex items-center gap-2">
+              <input
+                type="text"
+                aria-label="Column label"
+                placeholder="Label"
+                value={itemField.label}
+                onChange={(e) => onChange({ itemFields: replaceAt(field.itemFields, itemIndex, { label: e.target.value }) })}
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                aria-label="Column key"
+                placeholder="key"
+                value={itemField.key}
+                onChange={(e) => onChange({ itemFields: replaceAt(field.itemFields, itemIndex, { key: e.target.value }) })}
+                className={`${inputClassName} font-mono`}
+              />
+              <select
+                aria-label="Column type"
+                value={itemField.type}
+                onChange={(e) =>
+                  onChange({
+                    itemFields: replaceAt(field.itemFields, itemIndex, { type: e.target.value as IntakeFieldType }),
+                  })
+                }
+                className={inputClassName}
+              >
+                {Object.entries(FIELD_TYPE_LABELS)
+                  .filter(([type]) => type !== 'list' && type !== 'select')
+                  .map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+              </select>
+              <label className="inline-flex items-center gap-1 text-sm text-gray-700 shrink-0">
+                <input
+                  type="checkbox"
+                  checked={itemField.required}
+                  onChange={(e) =>
+                    onChange({ itemFields: replaceAt(field.itemFields, itemIndex, { required: e.target.checked }) })
+                  }
+                />
+                Required
+              </label>
+              <button
+                type="button"
+                onClick={() => onChange({ itemFields: field.itemFields.filter((_, i) => i !== itemIndex) })}
+                className="text-sm text-red-600 hover:text-red-700 shrink-0"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              onChange({ itemFields: [...field.itemFields, newField(`column_${field.itemFields.length + 1}`)] })
+            }
+            className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+          >
+            + Add column
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function replaceAt(fields: EditorField[], index: number, changes: Partial<EditorField>): EditorField[] {
+  return fields.map((f, i) => (i === index ? { ...f, ...changes } : f));
+}
+
+function RowActions({ onUp, onDown, onRemove }: { onUp: () => void; onDown: () => void; onRemove?: () => void }) {
+  return (
+    <div className="flex items-center gap-2 shrink-0 pt-2 text-sm">
+      <button type="button" onClick={onUp} className="text-gray-500 hover:text-gray-900" aria-label="Move up">
+        ↑
+      </button>
+      <button type="button" onClick={onDown} className="text-gray-500 hover:text-gray-900" aria-label="Move down">
+        ↓
+      </button>
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="text-red-600 hover:text-red-700">
+          Remove
+        </button>
+      )}
+    </div>
+  );
+}
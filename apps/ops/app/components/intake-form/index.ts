@@ -0,0 +1,6 @@
+/**
+ * Intake form components
+ * Builder for the per-site storefront application form
+ */
+
+export { IntakeFormEditor } from './IntakeFormEditor';
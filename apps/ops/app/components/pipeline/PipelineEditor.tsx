@@ -0,0 +1,267 @@
+/**
+ * PipelineEditor - Editor for the site's application pipeline stages
+ * Keeps the stages in local state and posts them as JSON in the `stages` field
+ */
+
+import { Form, useNavigation } from '@remix-run/react';
+import { useState } from 'react';
+import type { LeadStatus, PipelineChecklistItem, PipelineStage } from '~/shared/types';
+import { APPLICATION_STAGE_LABELS, APPLICATION_STAGE_ORDER, APPLICATION_WORKFLOW } from '~/shared/utils';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Editor rows carry a stable uid so reordering doesn't confuse React
+type EditorChecklistItem = {
+  uid: string;
+  id: string;
+  label: string;
+  description: string;
+  required: boolean;
+};
+
+type EditorStage = {
+  uid: string;
+  key: string;
+  label: string;
+  bucket: LeadStatus;
+  checklist: EditorChecklistItem[];
+};
+
+let uidCounter = 0;
+const nextUid = () => `stage_row_${++uidCounter}`;
+
+function toEditorStage(stage: PipelineStage): EditorStage {
+  return {
+    uid: nextUid(),
+    key: stage.key,
+    label: stage.label,
+    bucket: stage.bucket,
+    checklist: stage.checklist.map((item) => ({
+      uid: nextUid(),
+      id: item.id,
+      label: item.label,
+      description: item.description ?? '',
+      required: item.required,
+    })),
+  };
+}
+
+function toPipelineStages(stages: EditorStage[]): PipelineStage[] {
+  return stages.map((stage) => ({
+    key: stage.key.trim(),
+    label: stage.label.trim(),
+    bucket: stage.bucket,
+    checklist: stage.checklist.map((item) => {
+      const result: PipelineChecklistItem = { id: item.id.trim(), label: item.label.trim(), required: item.required };
+      if (item.description.trim()) result.description = item.description.trim();
+      return result;
+    }),
+  }));
+}
+
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const copy = [...items];
+  [copy[index], copy[target]] = [copy[target], copy[index]];
+  return copy;
+}
+
+type PipelineEditorProps = {
+  stages: PipelineStage[];
+  errors?: string[];
+};
+
+export function PipelineEditor({ stages: initialStages, errors }: PipelineEditorProps) {
+  const navigation = useNavigation();
+  const isSaving = navigation.state === 'submitting';
+  const [stages, setStages] = useState<EditorStage[]>(() => initialStages.map(toEditorStage));
+
+  const updateStage = (index: number, changes: Partial<EditorStage>) =>
+    setStages((current) => current.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+  const updateItem = (stageIndex: number, itemIndex: number, changes: Partial<EditorChecklistItem>) =>
+    updateStage(stageIndex, {
+      checklist: stages[stageIndex].checklist.map((item, i) => (i === itemIndex ? { ...item, ...changes } : item)),
+    });
+
+  // New stages go into the bucket of the stage before them
+  const addStage = () => {
+    let n = stages.length + 1;
+    while (stages.some((s) => s.key === `stage_${n}`)) n++;
+    const bucket = stages[stages.length - 1]?.bucket ?? 'new';
+    setStages([...stages, { uid: nextUid(), key: `stage_${n}`, label: '', bucket, checklist: [] }]);
+  };
+
+  const addItem = (stageIndex: number) => {
+    const checklist = stages[stageIndex].checklist;
+    let n = checklist.length + 1;
+    while (checklist.some((item) => item.id === `item_${n}`)) n++;
+    updateStage(stageIndex, {
+      checklist: [...checklist, { uid: nextUid(), id: `item_${n}`, label: '', description: '', required: true }],
+    });
+  };
+
+  return (
+    <Form method="post" className="space-y-6">
+      <input type="hidden" name="stages" value={JSON.stringify(toPipelineStages(stages))} />
+
+      {errors && errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg px-4 py-3">
+          <ul className="list-disc pl-5 space-y-1">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {stages.map((stage, stageIndex) => {
+        const workflowItems = APPLICATION_WORKFLOW[stage.bucket]?.checklist ?? [];
+        const leavesBucket = stages[stageIndex + 1]?.bucket !== stage.bucket;
+
+        return (
+          <div key={stage.uid} className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+            <div className="flex items-start gap-4">
+              <div className="flex-1 grid grid-cols-1 gap-3 md:grid-cols-4">
+                <input
+                  type="text"
+                  aria-label="Stage label"
+                  placeholder="Label (e.g. Showing Scheduled)"
+                  value={stage.label}
+                  onChange={(e) => updateStage(stageIndex, { label: e.target.value })}
+                  className={`${inputClassName} font-semibold md:col-span-2`}
+                />
+                <input
+                  type="text"
+                  aria-label="Stage key"
+                  placeholder="key"
+                  value={stage.key}
+                  onChange={(e) => updateStage(stageIndex, { key: e.target.value })}
+                  className={`${inputClassName} font-mono`}
+                />
+                <select
+                  aria-label="Status"
+                  value={stage.bucket}
+                  onChange={(e) => updateStage(stageIndex, { bucket: e.target.value as LeadStatus })}
+                  className={inputClassName}
+                >
+                  {APPLICATION_STAGE_ORDER.map((status) => (
+                    <option key={status} value={status}>
+                      {APPLICATION_STAGE_LABELS[status]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <RowActions
+                onUp={() => setStages(move(stages, stageIndex, -1))}
+                onDown={() => setStages(move(stages, stageIndex, 1))}
+                onRemove={stages.length > 1 ? () => setStages(stages.filter((_, i) => i !== stageIndex)) : undefined}
+              />
+            </div>
+
+            {leavesBucket && workflowItems.length > 0 && (
+              <p className="text-xs text-gray-500">
+                Also checked before leaving {APPLICATION_STAGE_LABELS[stage.bucket]}:{' '}
+                {workflowItems.map((item) => item.label).join(', ')}
+              </p>
+            )}
+
+            <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {stage.checklist.length === 0 && <p className="px-4 py-3 text-sm text-gray-500">No checklist items</p>}
+              {stage.checklist.map((item, itemIndex) => (
+                <div key={item.uid} className="px-4 py-3 flex items-center gap-3">
+                  <input
+                    type="text"
+                    aria-label="Checklist item label"
+                    placeholder="Label (e.g. References checked)"
+                    value={item.label}
+                    onChange={(e) => updateItem(stageIndex, itemIndex, { label: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="text"
+                    aria-label="Checklist item id"
+                    placeholder="id"
+                    value={item.id}
+                    onChange={(e) => updateItem(stageIndex, itemIndex, { id: e.target.value })}
+                    className={`${inputClassName} font-mono max-w-[12rem]`}
+                  />
+                  <input
+                    type="text"
+                    aria-label="Checklist item description"
+                    placeholder="Description (optional)"
+                    value={item.description}
+                    onChange={(e) => updateItem(stageIndex, itemIndex, { description: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <label className="inline-flex items-center gap-1 text-sm text-gray-700 shrink-0">
+                    <input
+                      type="checkbox"
+                      checked={item.required}
+                      onChange={(e) => updateItem(stageIndex, itemIndex, { required: e.target.checked })}
+                    />
+                    Required
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateStage(stageIndex, { checklist: stage.checklist.filter((_, i) => i !== itemIndex) })
+                    }
+                    className="text-sm text-red-600 hover:text-red-700 shrink-0"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              onClick={() => addItem(stageIndex)}
+              className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+            >
+              + Add checklist item
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={addStage}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Add Stage
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Pipeline'}
+        </button>
+      </div>
+    </Form>
+  );
+}
+
+function RowActions({ onUp, onDown, onRemove }: { onUp: () => void; onDown: () => void; onRemove?: () => void }) {
+  return (
+    <div className="flex items-center gap-2 shrink-0 pt-2 text-sm">
+      <button type="button" onClick={onUp} className="text-gray-500 hover:text-gray-900" aria-label="Move up">
+        ↑
+      </button>
+      <button type="button" onClick={onDown} className="text-gray-500 hover:text-gray-900" aria-label="Move down">
+        ↓
+      </button>
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="text-red-600 hover:text-red-700">
+          Remove
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Pipeline components
+ * Editor for the per-site application pipeline stages
+ */
+
+export { PipelineEditor } from './PipelineEditor';
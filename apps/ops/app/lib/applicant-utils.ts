@@ -1,6 +1,6 @@
 import type { ApplicationApplicant } from '~/shared/types';
 
-export type DerivedInviteStatus = 'pending' | 'sent' | 'completed';
+export type DerivedInviteStatus = 'pending' | 'sent' | 'expired' | 'completed';
 
 export function deriveApplicantInviteStatus(applicant: ApplicationApplicant): DerivedInviteStatus | null {
   if (!applicant.inviteToken && !applicant.inviteSentAt) {
@@ -11,6 +11,11 @@ export function deriveApplicantInviteStatus(applicant: ApplicationApplicant): De
     return 'completed';
   }
 
+  // Invites issued before links expired have no expiry and can't be used
+  if (!applicant.inviteTokenExpiresAt || new Date(applicant.inviteTokenExpiresAt) <= new Date()) {
+    return 'expired';
+  }
+
   if (applicant.inviteSentAt) {
     return 'sent';
   }
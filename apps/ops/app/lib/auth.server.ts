@@ -13,14 +13,9 @@ import {
   fetchUserFromWorker,
   fetchUserByEmailFromWorker,
 } from './worker-client';
+import type { WorkerConfig, WorkerEnv } from './worker-client';
 import { hashPassword, verifyPassword } from '~/shared/utils';
 
-// WorkerEnv interface for worker API calls
-interface WorkerEnv {
-  WORKER_URL: string;
-  WORKER_INTERNAL_KEY?: string;
-}
-
 // Session management
 // Cookie helpers using signed JWT-style cookie
 export function createLogoutCookie(): string {
@@ -30,7 +25,7 @@ export function createLogoutCookie(): string {
 // Auth helpers
 export async function requireAuth(
   request: Request,
-  workerEnv: WorkerEnv,
+  workerEnv: WorkerConfig,
   sessionSecret: string,
   siteId: string
 ): Promise<User> {
@@ -44,8 +39,8 @@ export async function requireAuth(
     throw redirect('/login');
   }
 
-  // Fetch user by ID via Worker API
-  const user = await fetchUserFromWorker(workerEnv, session.siteId, session.userId);
+  // Fetch user by ID via Worker API, as themselves
+  const user = await fetchUserFromWorker({ ...workerEnv, userId: session.userId }, session.siteId, session.userId);
   if (!user) {
     throw redirect('/login');
   }
@@ -57,10 +52,28 @@ export async function requireAuth(
   return user;
 }
 
+/**
+ * Worker settings for calls made on behalf of the signed-in user, who is sent
+ * as the acting user so the worker applies their role and property scope.
+ * Redirects to /login without a valid session.
+ */
+export async function requireWorkerEnv(
+  request: Request,
+  env: WorkerConfig & { SESSION_SECRET: string }
+): Promise<WorkerEnv> {
+  const cookie = getSessionCookie(request);
+  const session = cookie ? await verifySessionCookie(cookie, env.SESSION_SECRET) : null;
+  if (!session) {
+    throw redirect('/login');
+  }
+
+  return { WORKER_URL: env.WORKER_URL, WORKER_INTERNAL_KEY: env.WORKER_INTERNAL_KEY, userId: session.userId };
+}
+
 // Convenience wrapper matching previous API used by some routes
 export async function requireUser(
   request: Request,
-  workerEnv: WorkerEnv,
+  workerEnv: WorkerConfig,
   sessionSecret: string,
   siteId: string
 ): Promise<User> {
@@ -122,7 +135,7 @@ export async function clearActiveSite(
 
 export async function getOptionalUser(
   request: Request,
-  workerEnv: WorkerEnv,
+  workerEnv: WorkerConfig,
   sessionSecret: string,
   siteId: string
 ): Promise<User | null> {
@@ -132,11 +145,11 @@ export async function getOptionalUser(
   const session = await verifySessionCookie(cookie, sessionSecret);
   if (!session) return null;
 
-  return fetchUserFromWorker(workerEnv, session.siteId, session.userId);
+  return fetchUserFromWorker({ ...workerEnv, userId: session.userId }, session.siteId, session.userId);
 }
 
 export async function login(
-  workerEnv: WorkerEnv,
+  workerEnv: WorkerConfig,
   sessionSecret: string,
   siteId: string,
   email: string,
@@ -153,7 +166,7 @@ export async function login(
   const sessionValue = await createSessionCookie({ userId: userWithPassword.id, siteId: userWithPassword.siteId, expiresAt }, sessionSecret);
 
   // Update last_login_at via worker API
-  await updateUserLastLoginToWorker(workerEnv, userWithPassword.id);
+  await updateUserLastLoginToWorker({ ...workerEnv, userId: userWithPassword.id }, userWithPassword.id);
 
   const { passwordHash: _, ...user } = userWithPassword;
   return { sessionId: sessionValue, user };
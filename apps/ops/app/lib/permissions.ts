@@ -1,21 +1,30 @@
-import type { User } from '~/shared/types';
+import type { Permission, User } from '~/shared/types';
+import { hasPermission } from '~/shared/utils';
 
 /**
  * Permission helper utilities for role-based access control
+ *
+ * Roles and their permissions are defined in shared/utils/permissions.ts;
+ * the worker enforces the same rules and additionally limits users to the
+ * properties they have been granted.
  */
 
+export function can(user: User | null, permission: Permission): boolean {
+  return hasPermission(user, permission);
+}
+
 export function canDelete(user: User | null): boolean {
   if (!user) return false;
   // Super admins can always delete
   if (user.isSuperAdmin) return true;
-  // Only admin role can delete
-  return user.role === 'admin';
+  // Only property managers can delete
+  return user.role === 'property_manager';
 }
 
 export function canEdit(user: User | null): boolean {
   if (!user) return false;
-  // Super admins and admins can edit
-  if (user.isSuperAdmin || user.role === 'admin') return true;
+  // Super admins and property managers can edit
+  if (user.isSuperAdmin || user.role === 'property_manager') return true;
   // Maintenance can edit work orders and some fields
   return user.role === 'maintenance';
 }
@@ -26,9 +35,12 @@ export function canView(user: User | null): boolean {
   return true;
 }
 
+export function canViewFinancials(user: User | null): boolean {
+  return hasPermission(user, 'financials:read');
+}
+
 export function isAdmin(user: User | null): boolean {
-  if (!user) return false;
-  return user.isSuperAdmin || user.role === 'admin';
+  return hasPermission(user, 'users:admin');
 }
 
 export function isSuperAdmin(user: User | null): boolean {
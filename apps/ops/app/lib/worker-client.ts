@@ -4,13 +4,106 @@
  * Helper functions to call leaselab-worker API instead of direct D1/R2 access
  */
 
-interface WorkerEnv {
+import type {
+  LeaseLedger,
+  LedgerEntry,
+  LeaseBalanceSummary,
+  DelinquencyReport,
+  PortfolioSummary,
+  RentRoll,
+  TenantNotice,
+  LeaseSignatureEnvelope,
+  ScreeningResult,
+  Communication,
+  CommunicationEntityType,
+  IntakeForm,
+  IntakeFormSchema,
+  ApplicationPipeline,
+  PipelineStage,
+  AIRubric,
+  AIScoringRubric,
+  ApplicationApplicant,
+  WorkOrderAttachment,
+  UserPropertyAccess,
+  AuditEntityType,
+  AuditLogEntry,
+  CursorPage,
+  SearchResults,
+  StageChecklistState,
+  BypassCategory,
+} from '~/shared/types';
+import { parseSigningKeys, requestSignatureHeaders, signRequest } from '~/shared/utils';
+
+export interface WorkerConfig {
   WORKER_URL: string;
+  // Request signing keys ("id:secret,..."); the first one signs
   WORKER_INTERNAL_KEY?: string;
 }
 
+export interface WorkerEnv extends WorkerConfig {
+  // Acting user; sent as X-User-Id so the worker applies their role and property scope
+  userId: string;
+}
+
+/**
+ * Sign and send a request to the worker on behalf of the acting user, who is
+ * sent as X-User-Id unless the caller set it. Returns the raw response.
+ */
+export async function signedWorkerFetch(
+  url: string,
+  env: WorkerEnv,
+  init: RequestInit = {}
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (!headers.has('X-User-Id')) {
+    headers.set('X-User-Id', env.userId);
+  }
+  return signAndSend(url, env, { ...init, headers });
+}
+
+/**
+ * Sign and send a request to the worker. The signature covers the method,
+ * path, body, X-User-Id and X-Site-Id (see shared/utils/request-signing.ts),
+ * so every call to the worker must go through here.
+ */
+async function signAndSend(
+  url: string,
+  env: WorkerConfig,
+  init: RequestInit
+): Promise<Response> {
+  // Let Request serialize the body (including multipart boundaries) so the
+  // bytes that are hashed are exactly the bytes that are sent
+  const prepared = new Request(url, init);
+  const method = prepared.method.toUpperCase();
+  const body = method === 'GET' || method === 'HEAD' ? null : await prepared.arrayBuffer();
+  const headers = new Headers(prepared.headers);
+
+  const [key] = parseSigningKeys(env.WORKER_INTERNAL_KEY);
+  if (key) {
+    const { pathname, search } = new URL(prepared.url);
+    const signature = await signRequest(key, {
+      method,
+      path: pathname + search,
+      body,
+      userId: headers.get('X-User-Id'),
+      siteId: headers.get('X-Site-Id'),
+    });
+    for (const [name, value] of Object.entries(requestSignatureHeaders(signature))) {
+      headers.set(name, value);
+    }
+  }
+
+  return fetch(prepared.url, {
+    method,
+    headers,
+    body,
+  });
+}
+
 /**
- * Base fetch function for calling worker API
+ * Base fetch function for calling worker API. Every call carries the acting
+ * user: the worker rejects calls without one (see
+ * apps/worker/middleware/permissions.ts).
  */
 async function workerFetch(
   url: string,
@@ -19,11 +112,23 @@ async function workerFetch(
   siteId?: string
 ): Promise<Response> {
   const headers = new Headers(options.headers);
-
-  // Add internal auth if configured
-  if (env.WORKER_INTERNAL_KEY) {
-    headers.set('X-Internal-Key', env.WORKER_INTERNAL_KEY);
+  if (!headers.has('X-User-Id')) {
+    headers.set('X-User-Id', env.userId);
   }
+  return systemWorkerFetch(url, env, { ...options, headers }, siteId);
+}
+
+/**
+ * Call the worker without an acting user. Only the worker's system routes
+ * (the login lookup) accept this; everything else goes through workerFetch.
+ */
+async function systemWorkerFetch(
+  url: string,
+  env: WorkerConfig,
+  options: RequestInit = {},
+  siteId?: string
+): Promise<Response> {
+  const headers = new Headers(options.headers);
 
   // Add site context
   if (siteId) {
@@ -32,7 +137,7 @@ async function workerFetch(
 
   headers.set('Content-Type', 'application/json');
 
-  const response = await fetch(url, {
+  const response = await signAndSend(url, env, {
     ...options,
     headers,
   });
@@ -58,6 +163,44 @@ async function parseResponse<T>(response: Response): Promise<T> {
   return json.data;
 }
 
+/**
+ * Options shared by the paginated list fetchers. Without a cursor the first
+ * page is returned; pass back pagination.nextCursor for the next one.
+ */
+export interface ListPageOptions {
+  limit?: number;
+  cursor?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  search?: string;
+}
+
+export const DEFAULT_LIST_PAGE_SIZE = 25;
+
+/**
+ * Build the query string for a paginated list request
+ */
+function listPageQuery(options: ListPageOptions & Record<string, string | number | undefined>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ limit: DEFAULT_LIST_PAGE_SIZE, ...options })) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  return `?${params.toString()}`;
+}
+
+/**
+ * Parse a paginated list response from worker
+ */
+async function parsePageResponse<T>(response: Response): Promise<CursorPage<T>> {
+  const json = await response.json() as any;
+
+  if (!json.success) {
+    throw new Error(json.error || json.message || 'Worker API error');
+  }
+
+  return { items: json.data, pagination: json.pagination };
+}
+
 // ==================== PROPERTIES ====================
 
 export async function fetchPropertiesFromWorker(
@@ -69,6 +212,16 @@ export async function fetchPropertiesFromWorker(
   return parseResponse(response);
 }
 
+export async function fetchPropertiesPageFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  options: ListPageOptions = {}
+): Promise<CursorPage<any>> {
+  const url = `${env.WORKER_URL}/api/ops/properties${listPageQuery({ ...options })}`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parsePageResponse(response);
+}
+
 export async function fetchPropertiesWithApplicationCountsFromWorker(
   env: WorkerEnv,
   siteId: string,
@@ -145,6 +298,20 @@ export async function fetchUnitsFromWorker(
   return parseResponse(response);
 }
 
+/**
+ * Units of several properties in one call, e.g. for a page of properties
+ */
+export async function fetchUnitsForPropertiesFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  propertyIds: string[]
+): Promise<any[]> {
+  if (propertyIds.length === 0) return [];
+  const url = `${env.WORKER_URL}/api/ops/units?propertyIds=${propertyIds.map(encodeURIComponent).join(',')}`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
 export async function fetchUnitFromWorker(
   env: WorkerEnv,
   siteId: string,
@@ -267,6 +434,16 @@ export async function fetchWorkOrdersFromWorker(
   return parseResponse(response);
 }
 
+export async function fetchWorkOrdersPageFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  options: ListPageOptions & { status?: string; propertyId?: string } = {}
+): Promise<CursorPage<any>> {
+  const url = `${env.WORKER_URL}/api/ops/work-orders${listPageQuery({ ...options })}`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parsePageResponse(response);
+}
+
 export async function saveWorkOrderToWorker(
   env: WorkerEnv,
   siteId: string,
@@ -282,11 +459,11 @@ export async function saveWorkOrderToWorker(
 
 // ==================== HELPER ====================
 
-export function isWorkerConfigured(env: Partial<WorkerEnv>): boolean {
+export function isWorkerConfigured(env: Partial<WorkerConfig>): boolean {
   return Boolean(env.WORKER_URL);
 }
 
-export function getWorkerUrl(env: Partial<WorkerEnv>): string {
+export function getWorkerUrl(env: Partial<WorkerConfig>): string {
   if (!env.WORKER_URL) {
     throw new Error('WORKER_URL environment variable is not configured');
   }
@@ -345,12 +522,12 @@ export async function createUserToWorker(
  * Get user by email (for login)
  */
 export async function fetchUserByEmailFromWorker(
-  env: WorkerEnv,
+  env: WorkerConfig,
   siteId: string,
   email: string
 ): Promise<any> {
   const url = `${env.WORKER_URL}/api/ops/users/email/${encodeURIComponent(email)}`;
-  const response = await workerFetch(url, env, {}, siteId);
+  const response = await systemWorkerFetch(url, env, {}, siteId);
   return parseResponse(response);
 }
 
@@ -419,6 +596,7 @@ export async function setSuperAdminStatusToWorker(
  */
 export async function updateUserRoleToWorker(
   env: WorkerEnv,
+  siteId: string,
   userId: string,
   role: string
 ): Promise<void> {
@@ -426,7 +604,7 @@ export async function updateUserRoleToWorker(
   await workerFetch(url, env, {
     method: 'PUT',
     body: JSON.stringify({ role }),
-  });
+  }, siteId);
 }
 
 /**
@@ -496,6 +674,50 @@ export async function revokeSiteAccessToWorker(
   });
 }
 
+/**
+ * Get the properties a user is limited to on a site
+ */
+export async function fetchUserPropertyAccessFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string
+): Promise<UserPropertyAccess[]> {
+  const url = `${env.WORKER_URL}/api/ops/users/${userId}/properties`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Grant a user access to a property
+ */
+export async function grantPropertyAccessToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  propertyId: string
+): Promise<void> {
+  const url = `${env.WORKER_URL}/api/ops/users/${userId}/properties`;
+  await workerFetch(url, env, {
+    method: 'POST',
+    body: JSON.stringify({ propertyId }),
+  }, siteId);
+}
+
+/**
+ * Revoke a user's access to a property
+ */
+export async function revokePropertyAccessToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  propertyId: string
+): Promise<void> {
+  const url = `${env.WORKER_URL}/api/ops/users/${userId}/properties/${propertyId}/delete`;
+  await workerFetch(url, env, {
+    method: 'POST',
+  }, siteId);
+}
+
 // ==================== TENANTS ====================
 
 /**
@@ -504,12 +726,13 @@ export async function revokeSiteAccessToWorker(
 export async function fetchTenantsFromWorker(
   env: WorkerEnv,
   siteId: string,
-  options?: { status?: string; propertyId?: string; sortBy?: string; sortOrder?: 'asc' | 'desc' }
+  options?: { status?: string; propertyId?: string; unitId?: string; sortBy?: string; sortOrder?: 'asc' | 'desc' }
 ): Promise<any[]> {
   let url = `${env.WORKER_URL}/api/ops/tenants`;
   const params = new URLSearchParams();
   if (options?.status) params.set('status', options.status);
   if (options?.propertyId) params.set('propertyId', options.propertyId);
+  if (options?.unitId) params.set('unitId', options.unitId);
   if (options?.sortBy) params.set('sortBy', options.sortBy);
   if (options?.sortOrder) params.set('sortOrder', options.sortOrder);
   if (params.toString()) url += `?${params.toString()}`;
@@ -518,6 +741,19 @@ export async function fetchTenantsFromWorker(
   return parseResponse(response);
 }
 
+/**
+ * Get one page of tenants
+ */
+export async function fetchTenantsPageFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  options: ListPageOptions & { status?: string; propertyId?: string; unitId?: string } = {}
+): Promise<CursorPage<any>> {
+  const url = `${env.WORKER_URL}/api/ops/tenants${listPageQuery({ ...options })}`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parsePageResponse(response);
+}
+
 /**
  * Get tenant by ID
  */
@@ -561,6 +797,82 @@ export async function deleteTenantToWorker(
   }, siteId);
 }
 
+// ==================== TENANT NOTICES ====================
+
+/**
+ * Fetch N1/N4/N11 notices for a tenant
+ */
+export async function fetchTenantNoticesFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  tenantId: string
+): Promise<TenantNotice[]> {
+  const url = `${env.WORKER_URL}/api/ops/tenants/${tenantId}/notices`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Fetch notices with raised reminders or effective dates in the next `days` days
+ */
+export async function fetchUpcomingNoticesFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  days?: number
+): Promise<TenantNotice[]> {
+  let url = `${env.WORKER_URL}/api/ops/notices/upcoming`;
+  if (days !== undefined) {
+    url += `?days=${days}`;
+  }
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Create a draft notice for a tenant
+ */
+export async function createTenantNoticeToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  tenantId: string,
+  data: any
+): Promise<TenantNotice> {
+  const url = `${env.WORKER_URL}/api/ops/tenants/${tenantId}/notices`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    body: JSON.stringify(data),
+    headers,
+  }, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Run a lifecycle action on a notice (serve, void, complete, acknowledge-reminder)
+ */
+export async function updateNoticeStatusToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  noticeId: string,
+  action: 'serve' | 'void' | 'complete' | 'acknowledge-reminder',
+  data: any = {}
+): Promise<TenantNotice | undefined> {
+  const url = `${env.WORKER_URL}/api/ops/notices/${noticeId}/${action}`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    body: JSON.stringify(data),
+    headers,
+  }, siteId);
+  return parseResponse(response);
+}
+
 // ==================== IMAGES ====================
 
 /**
@@ -577,6 +889,21 @@ export async function fetchImagesFromWorker(
   return parseResponse(response);
 }
 
+/**
+ * Get images for several properties or units in one call
+ */
+export async function fetchImagesForEntitiesFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  entityType: 'property' | 'unit',
+  entityIds: string[]
+): Promise<any[]> {
+  if (entityIds.length === 0) return [];
+  const url = `${env.WORKER_URL}/api/ops/images?entityType=${entityType}&entityIds=${entityIds.map(encodeURIComponent).join(',')}`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
 /**
  * Get single image by ID
  */
@@ -678,14 +1005,11 @@ export async function uploadImageToWorker(
   formData.append('key', key);
 
   const headers = new Headers();
-  if (env.WORKER_INTERNAL_KEY) {
-    headers.set('X-Internal-Key', env.WORKER_INTERNAL_KEY);
-  }
   if (siteId) {
     headers.set('X-Site-Id', siteId);
   }
 
-  const response = await fetch(url, {
+  const response = await signedWorkerFetch(url, env, {
     method: 'POST',
     headers,
     body: formData,
@@ -745,14 +1069,11 @@ export async function uploadLeadFileToWorker(
   formData.append('fileType', fileType);
 
   const headers = new Headers();
-  if (env.WORKER_INTERNAL_KEY) {
-    headers.set('X-Internal-Key', env.WORKER_INTERNAL_KEY);
-  }
   if (siteId) {
     headers.set('X-Site-Id', siteId);
   }
 
-  const response = await fetch(url, {
+  const response = await signedWorkerFetch(url, env, {
     method: 'POST',
     headers,
     body: formData,
@@ -968,6 +1289,36 @@ export async function createUnitHistoryToWorker(
   }, siteId);
 }
 
+/**
+ * Move a tenant into a unit (unit update and move-in history are one transaction)
+ */
+export async function assignTenantToUnitToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  unitId: string,
+  data: { tenantId: string; moveInDate?: string }
+): Promise<void> {
+  const url = `${env.WORKER_URL}/api/ops/units/${unitId}/assign-tenant`;
+  await workerFetch(url, env, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }, siteId);
+}
+
+/**
+ * Move the current tenant out of a unit (unit update and move-out history are one transaction)
+ */
+export async function removeTenantFromUnitToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  unitId: string
+): Promise<void> {
+  const url = `${env.WORKER_URL}/api/ops/units/${unitId}/remove-tenant`;
+  await workerFetch(url, env, {
+    method: 'POST',
+  }, siteId);
+}
+
 // ==================== WORK ORDER OPERATIONS ====================
 
 /**
@@ -997,6 +1348,69 @@ export async function deleteWorkOrderToWorker(
   }, siteId);
 }
 
+/**
+ * Get photos and videos attached to a work order (with signed URLs when the
+ * worker has FILE_SIGNING_SECRET configured)
+ */
+export async function fetchWorkOrderAttachmentsFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  workOrderId: string
+): Promise<WorkOrderAttachment[]> {
+  const url = `${env.WORKER_URL}/api/ops/work-orders/${workOrderId}/attachments`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Attach a photo or video to a work order
+ */
+export async function uploadWorkOrderAttachmentToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  workOrderId: string,
+  file: File
+): Promise<WorkOrderAttachment> {
+  const url = `${env.WORKER_URL}/api/ops/work-orders/${workOrderId}/attachments`;
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const headers = new Headers();
+  if (siteId) {
+    headers.set('X-Site-Id', siteId);
+  }
+  headers.set('X-User-Id', userId);
+
+  const response = await signedWorkerFetch(url, env, {
+    method: 'POST',
+    headers,
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Unknown error' })) as any;
+    throw new Error(error.message || error.error || response.statusText);
+  }
+
+  return parseResponse(response);
+}
+
+/**
+ * Delete a work order attachment
+ */
+export async function deleteWorkOrderAttachmentToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  workOrderId: string,
+  attachmentId: string
+): Promise<void> {
+  const url = `${env.WORKER_URL}/api/ops/work-orders/${workOrderId}/attachments/${attachmentId}/delete`;
+  await workerFetch(url, env, {
+    method: 'POST',
+  }, siteId);
+}
+
 /**
  * Create lead file metadata
  */
@@ -1134,15 +1548,33 @@ export async function fetchLeasesFromWorker(
 }
 
 /**
- * Fetch a single lease by ID
+ * Fetch one page of leases
  */
-export async function fetchLeaseByIdFromWorker(
+export async function fetchLeasesPageFromWorker(
   env: WorkerEnv,
   siteId: string,
-  leaseId: string
-): Promise<any> {
-  const url = `${env.WORKER_URL}/api/ops/leases/${leaseId}`;
-  const response = await workerFetch(url, env, {}, siteId);
+  options: ListPageOptions & {
+    status?: string;
+    propertyId?: string;
+    unitId?: string;
+    tenantId?: string;
+  } = {}
+): Promise<CursorPage<any>> {
+  const url = `${env.WORKER_URL}/api/ops/leases${listPageQuery({ ...options })}`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parsePageResponse(response);
+}
+
+/**
+ * Fetch a single lease by ID
+ */
+export async function fetchLeaseByIdFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  leaseId: string
+): Promise<any> {
+  const url = `${env.WORKER_URL}/api/ops/leases/${leaseId}`;
+  const response = await workerFetch(url, env, {}, siteId);
   return parseResponse(response);
 }
 
@@ -1242,6 +1674,293 @@ export async function deleteLeaseFileToWorker(
   await parseResponse(response);
 }
 
+// ==================== LEASE LEDGER ====================
+
+/**
+ * Fetch a lease's ledger (entries with running balance + summary)
+ */
+export async function fetchLeaseLedgerFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  leaseId: string
+): Promise<LeaseLedger> {
+  const url = `${env.WORKER_URL}/api/ops/leases/${leaseId}/ledger`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Record a charge, payment, credit or adjustment against a lease
+ */
+export async function createLedgerEntryToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  leaseId: string,
+  data: {
+    entryType: string;
+    category?: string;
+    amount: number;
+    effectiveDate: string;
+    description?: string;
+    paymentMethod?: string;
+    reference?: string;
+  }
+): Promise<LedgerEntry> {
+  const url = `${env.WORKER_URL}/api/ops/leases/${leaseId}/ledger`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    body: JSON.stringify(data),
+    headers,
+  }, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Delete a manually recorded ledger entry
+ */
+export async function deleteLedgerEntryToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  leaseId: string,
+  entryId: string
+): Promise<void> {
+  const url = `${env.WORKER_URL}/api/ops/leases/${leaseId}/ledger/${entryId}/delete`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    headers,
+  }, siteId);
+  await parseResponse(response);
+}
+
+/**
+ * Fetch ledger totals for every lease in the site (used by the rent roll)
+ */
+export async function fetchLedgerSummaryFromWorker(
+  env: WorkerEnv,
+  siteId: string
+): Promise<LeaseBalanceSummary[]> {
+  const url = `${env.WORKER_URL}/api/ops/leases/ledger-summary`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+// ==================== LEASE E-SIGNATURE ====================
+
+/**
+ * Fetch the latest e-signature envelope for a lease (null if never sent)
+ * @param refresh - Poll the provider for status changes first
+ */
+export async function fetchLeaseSignatureFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  leaseId: string,
+  refresh = false
+): Promise<LeaseSignatureEnvelope | null> {
+  let url = `${env.WORKER_URL}/api/ops/leases/${leaseId}/signature`;
+  if (refresh) {
+    url += '?refresh=true';
+  }
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Send a lease document out for e-signature
+ */
+export async function sendLeaseForSignatureToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  leaseId: string,
+  data: {
+    documentId?: string;
+    landlordSigner?: { name: string; email: string };
+    subject?: string;
+    message?: string;
+  } = {}
+): Promise<LeaseSignatureEnvelope> {
+  const url = `${env.WORKER_URL}/api/ops/leases/${leaseId}/signature/send`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    body: JSON.stringify(data),
+    headers,
+  }, siteId);
+  return parseResponse(response);
+}
+
+// ==================== FINANCIAL REPORTS ====================
+
+/**
+ * Fetch the aged delinquency report (per tenant and per property)
+ */
+export async function fetchDelinquencyReportFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  asOf?: string
+): Promise<DelinquencyReport> {
+  let url = `${env.WORKER_URL}/api/ops/financial/delinquency`;
+  if (asOf) {
+    url += `?asOf=${encodeURIComponent(asOf)}`;
+  }
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Fetch portfolio totals (units, occupancy, rent, collections) in one request
+ */
+export async function fetchPortfolioSummaryFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  asOf?: string
+): Promise<PortfolioSummary> {
+  let url = `${env.WORKER_URL}/api/ops/financial/portfolio-summary`;
+  if (asOf) {
+    url += `?asOf=${encodeURIComponent(asOf)}`;
+  }
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Fetch the rent roll: every unit with its current lease, tenant and ledger totals
+ */
+export async function fetchRentRollFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  asOf?: string
+): Promise<RentRoll> {
+  let url = `${env.WORKER_URL}/api/ops/financial/rent-roll`;
+  if (asOf) {
+    url += `?asOf=${encodeURIComponent(asOf)}`;
+  }
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+// ==================== TENANT SCREENING ====================
+
+/**
+ * Fetch screening results for an application
+ * @param refresh - Poll the provider for outstanding reports first
+ */
+export async function fetchScreeningResultsFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  applicationId: string,
+  refresh = false
+): Promise<ScreeningResult[]> {
+  let url = `${env.WORKER_URL}/api/ops/applications/${applicationId}/screening`;
+  if (refresh) {
+    url += '?refresh=true';
+  }
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Order screening reports (defaults to every applicant without a completed check)
+ */
+export async function requestScreeningToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  applicationId: string,
+  applicantIds?: string[]
+): Promise<ScreeningResult[]> {
+  const url = `${env.WORKER_URL}/api/ops/applications/${applicationId}/screening`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    body: JSON.stringify({ applicantIds }),
+    headers,
+  }, siteId);
+  return parseResponse(response);
+}
+
+// ==================== COMMUNICATIONS ====================
+
+const COMMUNICATION_ENTITY_PATHS: Record<CommunicationEntityType, string> = {
+  application: 'applications',
+  tenant: 'tenants',
+  work_order: 'work-orders',
+};
+
+/**
+ * Fetch the email history for an application, tenant or work order (newest first)
+ */
+export async function fetchCommunicationsFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  entityType: CommunicationEntityType,
+  entityId: string
+): Promise<Communication[]> {
+  const url = `${env.WORKER_URL}/api/ops/${COMMUNICATION_ENTITY_PATHS[entityType]}/${entityId}/communications`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Queue an email to everyone on an application, tenant or work order
+ */
+export async function sendCommunicationToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  entityType: CommunicationEntityType,
+  entityId: string,
+  data: {
+    templateKey?: string;
+    subject?: string;
+    body?: string;
+    idempotencyKey?: string;
+  }
+): Promise<Communication[]> {
+  const url = `${env.WORKER_URL}/api/ops/${COMMUNICATION_ENTITY_PATHS[entityType]}/${entityId}/communications`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    body: JSON.stringify(data),
+    headers,
+  }, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Re-queue a failed email
+ */
+export async function retryCommunicationToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  communicationId: string
+): Promise<Communication> {
+  const url = `${env.WORKER_URL}/api/ops/communications/${communicationId}/retry`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    headers,
+  }, siteId);
+  return parseResponse(response);
+}
+
 // ==================== THEME CONFIGURATION ====================
 
 export interface ThemePayload {
@@ -1299,6 +2018,165 @@ export async function saveThemeToWorker(
   return parseResponse(response);
 }
 
+// ==================== INTAKE FORM ====================
+
+/**
+ * Get the site's current intake form, or a past version
+ */
+export async function fetchIntakeFormFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  version?: number
+): Promise<IntakeForm> {
+  const query = version !== undefined ? `?version=${version}` : '';
+  const url = `${env.WORKER_URL}/api/ops/intake-form${query}`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Save the intake form as a new version
+ */
+export async function saveIntakeFormToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  schema: IntakeFormSchema
+): Promise<IntakeForm> {
+  const url = `${env.WORKER_URL}/api/ops/intake-form`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(schema),
+  }, siteId);
+  return parseResponse(response);
+}
+
+// ==================== APPLICATION PIPELINE ====================
+
+/**
+ * Get the site's application pipeline
+ */
+export async function fetchApplicationPipelineFromWorker(
+  env: WorkerEnv,
+  siteId: string
+): Promise<ApplicationPipeline> {
+  const url = `${env.WORKER_URL}/api/ops/application-pipeline`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Replace the site's application pipeline
+ */
+export async function saveApplicationPipelineToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  stages: PipelineStage[]
+): Promise<ApplicationPipeline> {
+  const url = `${env.WORKER_URL}/api/ops/application-pipeline`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ stages }),
+  }, siteId);
+  return parseResponse(response);
+}
+
+// ==================== AI SCORING RUBRIC ====================
+
+/**
+ * Get the site's current AI scoring rubric, or a past version
+ */
+export async function fetchAIRubricFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  version?: number
+): Promise<AIRubric> {
+  const query = version !== undefined ? `?version=${version}` : '';
+  const url = `${env.WORKER_URL}/api/ops/ai-rubric${query}`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Save the site's AI scoring rubric as a new version
+ */
+export async function saveAIRubricToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  rubric: AIScoringRubric
+): Promise<AIRubric> {
+  const url = `${env.WORKER_URL}/api/ops/ai-rubric`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(rubric),
+  }, siteId);
+  return parseResponse(response);
+}
+
+// ==================== AUDIT LOG ====================
+
+/**
+ * Fetch audit entries for the site (newest first), e.g. one lease's activity
+ */
+export async function fetchAuditLogFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  filters: {
+    entityType?: AuditEntityType;
+    entityId?: string;
+    performedBy?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+  } = {}
+): Promise<AuditLogEntry[]> {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+
+  const url = `${env.WORKER_URL}/api/ops/audit${params.toString() ? `?${params.toString()}` : ''}`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
+// ==================== GLOBAL SEARCH ====================
+
+/**
+ * Search the site's properties, units, applicants, tenants and work orders.
+ * Pass the user's scoped env so results follow their role and properties.
+ */
+export async function searchFromWorker(
+  env: WorkerEnv,
+  siteId: string,
+  query: string,
+  limit?: number
+): Promise<SearchResults> {
+  const params = new URLSearchParams({ q: query });
+  if (limit) params.set('limit', String(limit));
+
+  const url = `${env.WORKER_URL}/api/ops/search?${params.toString()}`;
+  const response = await workerFetch(url, env, {}, siteId);
+  return parseResponse(response);
+}
+
 // ==================== APPLICATION WORKFLOW ====================
 
 /**
@@ -1350,6 +2228,41 @@ export async function createApplicantToWorker(
   return parseResponse(response);
 }
 
+/**
+ * Send (or re-send) a co-applicant or guarantor their invite link
+ */
+export async function sendApplicantInviteToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  applicantId: string
+): Promise<ApplicationApplicant> {
+  const url = `${env.WORKER_URL}/api/ops/applicants/${applicantId}/invite`;
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+  }, siteId);
+  return parseResponse(response);
+}
+
+/**
+ * Email the applicant a fresh link to their application status page
+ */
+export async function sendApplicationStatusLinkToWorker(
+  env: WorkerEnv,
+  siteId: string,
+  userId: string,
+  applicationId: string
+): Promise<{ expiresAt: string }> {
+  const url = `${env.WORKER_URL}/api/ops/applications/${applicationId}/status-link`;
+  const headers = new Headers();
+  headers.set('X-User-Id', userId);
+
+  const response = await workerFetch(url, env, {
+    method: 'POST',
+    headers,
+  }, siteId);
+  return parseResponse(response);
+}
+
 /**
  * Update an applicant
  */
@@ -1680,13 +2593,19 @@ export async function removeFromShortlistToWorker(
 }
 
 /**
- * Approve an application (stub)
+ * Approve an application. The screening checklist and any bypass reason go
+ * along so the worker can check the move.
  */
 export async function approveApplicationToWorker(
   env: WorkerEnv,
   siteId: string,
   userId: string,
-  applicationId: string
+  applicationId: string,
+  data: {
+    checklist?: StageChecklistState;
+    bypassReason?: string;
+    bypassCategory?: BypassCategory;
+  } = {}
 ): Promise<void> {
   const url = `${env.WORKER_URL}/api/ops/applications/${applicationId}/approve`;
   const headers = new Headers();
@@ -1694,6 +2613,7 @@ export async function approveApplicationToWorker(
 
   await workerFetch(url, env, {
     method: 'POST',
+    body: JSON.stringify(data),
     headers,
   }, siteId);
 }
@@ -1747,14 +2667,18 @@ export async function sendApplicationEmailToWorker(
   userId: string,
   applicationId: string,
   emailData: {
-    subject: string;
-    message: string;
+    subject?: string;
+    message?: string;
     template?: string;
-  }
+  },
+  idempotencyKey?: string
 ): Promise<void> {
   const url = `${env.WORKER_URL}/api/ops/applications/${applicationId}/send-email`;
   const headers = new Headers();
   headers.set('X-User-Id', userId);
+  if (idempotencyKey) {
+    headers.set('Idempotency-Key', idempotencyKey);
+  }
 
   await workerFetch(url, env, {
     method: 'POST',
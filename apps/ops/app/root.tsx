@@ -44,7 +44,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
     if (session) {
       activeSite = session.siteId;
       // Fetch sites user can access
-      accessibleSites = await fetchUserAccessibleSitesFromWorker(workerEnv, session.userId);
+      accessibleSites = await fetchUserAccessibleSitesFromWorker({ ...workerEnv, userId: session.userId }, session.userId);
       // If active site revoked, choose first accessible and reissue cookie
       if (activeSite && !accessibleSites.find(s => s.siteId === activeSite)) {
         if (accessibleSites.length > 0) {
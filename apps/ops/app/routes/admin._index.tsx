@@ -1,8 +1,16 @@
 import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link } from '@remix-run/react';
-import { fetchLeadsFromWorker, fetchPropertiesFromWorker, fetchWorkOrdersFromWorker, fetchTenantsFromWorker } from '~/lib/worker-client';
+import {
+  fetchLeadsFromWorker,
+  fetchPropertiesFromWorker,
+  fetchWorkOrdersFromWorker,
+  fetchTenantsFromWorker,
+  fetchUpcomingNoticesFromWorker,
+} from '~/lib/worker-client';
+import { NOTICE_TYPE_LABELS } from '~/shared/utils';
 import { getSiteId } from '~/lib/site.server';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export const meta: MetaFunction = () => {
   return [{ title: 'Dashboard - LeaseLab.io' }];
@@ -10,13 +18,15 @@ export const meta: MetaFunction = () => {
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
 
-  const [leads, properties, workOrders, tenants] = await Promise.all([
-    fetchLeadsFromWorker(env, siteId),
-    fetchPropertiesFromWorker(env, siteId),
-    fetchWorkOrdersFromWorker(env, siteId),
-    fetchTenantsFromWorker(env, siteId),
+  const [leads, properties, workOrders, tenants, upcomingNotices] = await Promise.all([
+    fetchLeadsFromWorker(workerEnv, siteId),
+    fetchPropertiesFromWorker(workerEnv, siteId),
+    fetchWorkOrdersFromWorker(workerEnv, siteId),
+    fetchTenantsFromWorker(workerEnv, siteId),
+    fetchUpcomingNoticesFromWorker(workerEnv, siteId, 30),
   ]);
 
   const now = Date.now();
@@ -91,6 +101,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
       urgentWorkOrders,
       upcomingMoveOuts,
       vacancyProperties,
+      noticeDeadlines: upcomingNotices.slice(0, 5),
     },
   });
 }
@@ -135,7 +146,7 @@ export default function AdminDashboard() {
       </div>
 
       {/* Outstanding Priority Work */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
         <OutstandingCard
           title="Urgent Work Orders"
           subtitle="High & emergency priority"
@@ -182,6 +193,20 @@ export default function AdminDashboard() {
             })),
           ].slice(0, 5)}
         />
+        <OutstandingCard
+          title="Notice Deadlines"
+          subtitle="Reminders + effective in 30 days"
+          emptyText="No upcoming notice deadlines"
+          to="/admin/tenants"
+          items={outstanding.noticeDeadlines.map((notice) => ({
+            key: notice.id,
+            title: `${NOTICE_TYPE_LABELS[notice.type]} • ${notice.tenantName || 'Tenant'}`,
+            meta: `${notice.reminderDueAt ? 'Reminder • ' : ''}${
+              notice.status === 'effective' ? 'Effective since' : 'Effective'
+            } ${notice.effectiveOn}`,
+            to: `/admin/tenants/${notice.tenantId}?tab=notices`,
+          }))}
+        />
       </div>
 
       {/* Recent Applications */}
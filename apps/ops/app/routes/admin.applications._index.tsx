@@ -8,15 +8,12 @@ import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link, useSearchParams } from '@remix-run/react';
 import { useState, useMemo } from 'react';
 import { getSiteId } from '~/lib/site.server';
-import { requireAuth } from '~/lib/auth.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 import { fetchPropertiesWithApplicationCountsFromWorker } from '~/lib/worker-client';
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
-  const workerEnv = {
-    WORKER_URL: env.WORKER_URL,
-    WORKER_INTERNAL_KEY: env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, env);
   const secret = env.SESSION_SECRET as string;
   const hostnameSiteId = getSiteId(request);
   const user = await requireAuth(request, workerEnv, secret, hostnameSiteId);
@@ -24,7 +21,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 
   // Fetch properties with application counts
   // Only show properties with available units
-  const properties = await fetchPropertiesWithApplicationCountsFromWorker(env, siteId, {
+  const properties = await fetchPropertiesWithApplicationCountsFromWorker(workerEnv, siteId, {
     onlyAvailable: true,
   });
 
@@ -1,9 +1,11 @@
 import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link } from '@remix-run/react';
-import { fetchPropertiesFromWorker, fetchUnitsFromWorker, fetchTenantsFromWorker } from '~/lib/worker-client';
+import { fetchPortfolioSummaryFromWorker } from '~/lib/worker-client';
 import { formatCurrency } from '~/shared/utils';
 import { getSiteId } from '~/lib/site.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
+import { canViewFinancials } from '~/lib/permissions';
 
 export const meta: MetaFunction = () => {
   return [{ title: 'Financial Overview - LeaseLab.io' }];
@@ -11,45 +13,27 @@ export const meta: MetaFunction = () => {
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
-
-  const [properties, tenants] = await Promise.all([
-    fetchPropertiesFromWorker(workerEnv, siteId),
-    fetchTenantsFromWorker(workerEnv, siteId),
-  ]);
-
-  // Calculate financial metrics
-  let totalMonthlyRent = 0;
-  let totalOccupied = 0;
-  let totalUnits = 0;
-
-  for (const property of properties) {
-    const units = await fetchUnitsFromWorker(workerEnv, siteId, property.id);
-    totalUnits += units.length;
-    for (const unit of units) {
-      if (unit.status === 'occupied') {
-        totalMonthlyRent += unit.rentAmount;
-        totalOccupied++;
-      }
-    }
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const user = await requireAuth(request, workerEnv, context.cloudflare.env.SESSION_SECRET as string, siteId);
+  if (!canViewFinancials(user)) {
+    throw new Response('Forbidden', { status: 403 });
   }
 
-  const occupancyRate = totalUnits > 0 ? (totalOccupied / totalUnits) * 100 : 0;
+  // The worker limits owners to their own properties
+  const summary = await fetchPortfolioSummaryFromWorker(workerEnv, siteId);
 
   return json({
-    totalMonthlyRent,
-    totalOccupied,
-    totalUnits,
-    occupancyRate,
-    activeTenants: tenants.length,
+    totalMonthlyRent: summary.totalRent,
+    totalOccupied: summary.occupiedUnits,
+    totalUnits: summary.totalUnits,
+    occupancyRate: summary.occupancyRate,
+    activeTenants: summary.activeTenants,
+    potentialRent: summary.potentialRent,
   });
 }
 
 export default function FinancialIndex() {
-  const { totalMonthlyRent, totalOccupied, totalUnits, occupancyRate, activeTenants } = useLoaderData<typeof loader>();
+  const { totalMonthlyRent, totalOccupied, totalUnits, occupancyRate, activeTenants, potentialRent } = useLoaderData<typeof loader>();
 
   const financialSections = [
     {
@@ -59,6 +43,13 @@ export default function FinancialIndex() {
       link: '/admin/financial/rent-roll',
       color: 'bg-blue-50 text-blue-700',
     },
+    {
+      title: 'Delinquency',
+      description: 'Outstanding balances aged into 30/60/90+ day buckets',
+      icon: '⏰',
+      link: '/admin/financial/delinquency',
+      color: 'bg-red-50 text-red-700',
+    },
     {
       title: 'Payments',
       description: 'Track rent payments, due dates, and payment history',
@@ -133,7 +124,7 @@ export default function FinancialIndex() {
           </div>
           <h3 className="text-sm font-medium text-gray-500">Revenue Potential</h3>
           <p className="text-2xl font-bold text-gray-900 mt-1">
-            {formatCurrency(totalMonthlyRent / (occupancyRate / 100))}
+            {formatCurrency(potentialRent)}
           </p>
           <p className="text-xs text-gray-500 mt-1">At 100% occupancy</p>
         </div>
@@ -0,0 +1,281 @@
+import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
+import { json } from '@remix-run/cloudflare';
+import { useLoaderData, Link, Form } from '@remix-run/react';
+import { Fragment, useState } from 'react';
+import type { AgingBucket, AgingBuckets } from '~/shared/types';
+import { fetchDelinquencyReportFromWorker } from '~/lib/worker-client';
+import { formatCurrency } from '~/shared/utils';
+import { getSiteId } from '~/lib/site.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
+import { canViewFinancials } from '~/lib/permissions';
+
+export const meta: MetaFunction = () => {
+  return [{ title: 'Delinquency - LeaseLab.io' }];
+};
+
+const BUCKET_COLUMNS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days_1_30', label: '1–30' },
+  { key: 'days_31_60', label: '31–60' },
+  { key: 'days_61_90', label: '61–90' },
+  { key: 'days_90_plus', label: '90+' },
+];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const siteId = getSiteId(request);
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const user = await requireAuth(request, workerEnv, context.cloudflare.env.SESSION_SECRET as string, siteId);
+  if (!canViewFinancials(user)) {
+    throw new Response('Forbidden', { status: 403 });
+  }
+
+  const url = new URL(request.url);
+  const asOf = url.searchParams.get('asOf') || undefined;
+
+  // The worker limits owners to their own properties
+  const report = await fetchDelinquencyReportFromWorker(workerEnv, siteId, asOf);
+
+  return json({ report });
+}
+
+export default function Delinquency() {
+  const { report } = useLoaderData<typeof loader>();
+  const [expandedTenantId, setExpandedTenantId] = useState<string | null>(null);
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <Link
+          to="/admin/financial"
+          className="text-sm text-gray-500 hover:text-gray-700 mb-2 inline-flex items-center"
+        >
+          <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Back to Financial
+        </Link>
+        <div className="flex items-end justify-between mt-2">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Delinquency</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Outstanding balances aged by days past due as of {report.asOf}
+            </p>
+          </div>
+          <Form method="get" className="flex items-center gap-2">
+            <input
+              type="date"
+              name="asOf"
+              defaultValue={report.asOf}
+              max={new Date().toISOString().slice(0, 10)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700"
+            >
+              Update
+            </button>
+          </Form>
+        </div>
+      </div>
+
+      {/* Bucket Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-6 mb-8">
+        {BUCKET_COLUMNS.map((column) => (
+          <div key={column.key} className="bg-white rounded-xl shadow-sm p-6">
+            <h3 className="text-sm font-medium text-gray-500">
+              {column.key === 'current' ? column.label : `${column.label} days`}
+            </h3>
+            <p className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(report.totals[column.key])}</p>
+          </div>
+        ))}
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h3 className="text-sm font-medium text-gray-500">Total Outstanding</h3>
+          <p className={`text-2xl font-bold mt-1 ${report.totals.total > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {formatCurrency(report.totals.total)}
+          </p>
+        </div>
+      </div>
+
+      {/* By Property */}
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden mb-8">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">By Property</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Property
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tenants
+                </th>
+                {BUCKET_COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {column.label}
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {report.properties.map((property) => (
+                <tr key={property.propertyId} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <Link
+                      to={`/admin/properties/${property.propertyId}`}
+                      className="text-sm font-medium text-gray-900 hover:text-indigo-600"
+                    >
+                      {property.propertyName}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{property.tenantCount}</td>
+                  <BucketCells buckets={property.buckets} />
+                  <td className="px-6 py-4 text-right text-sm font-medium text-gray-900">
+                    {formatCurrency(property.total)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {report.properties.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No outstanding balances</p>
+          </div>
+        )}
+      </div>
+
+      {/* By Tenant */}
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">By Tenant</h2>
+          <p className="text-xs text-gray-500 mt-1">Click a tenant to see the unpaid charges in each bucket</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tenant
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Property / Unit
+                </th>
+                {BUCKET_COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {column.label}
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {report.tenants.map((tenant) => {
+                const isExpanded = expandedTenantId === tenant.tenantId;
+                return (
+                  <Fragment key={tenant.tenantId}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedTenantId(isExpanded ? null : tenant.tenantId)}
+                    >
+                      <td className="px-6 py-4">
+                        <span className="text-sm text-gray-400 mr-2">{isExpanded ? '▾' : '▸'}</span>
+                        <Link
+                          to={`/admin/tenants/${tenant.tenantId}`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+                        >
+                          {tenant.tenantName}
+                        </Link>
+                        {tenant.email && <p className="text-xs text-gray-500 ml-5">{tenant.email}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {tenant.propertyName}
+                        {tenant.unitNumber && <span className="text-gray-400"> • Unit {tenant.unitNumber}</span>}
+                      </td>
+                      <BucketCells buckets={tenant.buckets} />
+                      <td className="px-6 py-4 text-right text-sm font-medium text-red-600">
+                        {formatCurrency(tenant.total)}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={BUCKET_COLUMNS.length + 3} className="px-6 py-4">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-xs text-gray-500 uppercase">
+                                <th className="py-1 text-left font-medium">Date</th>
+                                <th className="py-1 text-left font-medium">Charge</th>
+                                <th className="py-1 text-left font-medium">Bucket</th>
+                                <th className="py-1 text-right font-medium">Days Past Due</th>
+                                <th className="py-1 text-right font-medium">Original</th>
+                                <th className="py-1 text-right font-medium">Outstanding</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {tenant.items.map((item) => (
+                                <tr key={item.entryId}>
+                                  <td className="py-1 text-gray-600">{item.effectiveDate}</td>
+                                  <td className="py-1 text-gray-900">
+                                    <Link
+                                      to={`/admin/leases/${item.leaseId}`}
+                                      className="hover:text-indigo-600"
+                                    >
+                                      {item.description || item.category.replace(/_/g, ' ')}
+                                    </Link>
+                                  </td>
+                                  <td className="py-1 text-gray-600">
+                                    {BUCKET_COLUMNS.find((column) => column.key === item.bucket)?.label}
+                                  </td>
+                                  <td className="py-1 text-right text-gray-600">{item.daysPastDue}</td>
+                                  <td className="py-1 text-right text-gray-600">{formatCurrency(item.originalAmount)}</td>
+                                  <td className="py-1 text-right font-medium text-gray-900">
+                                    {formatCurrency(item.outstanding)}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {report.tenants.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No tenants in arrears</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BucketCells({ buckets }: { buckets: AgingBuckets }) {
+  return (
+    <>
+      {BUCKET_COLUMNS.map((column) => (
+        <td key={column.key} className="px-6 py-4 text-right text-sm text-gray-900">
+          {buckets[column.key] > 0 ? formatCurrency(buckets[column.key]) : <span className="text-gray-300">—</span>}
+        </td>
+      ))}
+    </>
+  );
+}
@@ -1,88 +1,28 @@
 import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link } from '@remix-run/react';
-import { fetchPropertiesFromWorker, fetchUnitsFromWorker, fetchTenantsFromWorker } from '~/lib/worker-client';
+import { fetchRentRollFromWorker } from '~/lib/worker-client';
 import { formatCurrency } from '~/shared/utils';
 import { getSiteId } from '~/lib/site.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
+import { canViewFinancials } from '~/lib/permissions';
 
 export const meta: MetaFunction = () => {
   return [{ title: 'Rent Roll - LeaseLab.io' }];
 };
 
-interface RentRollUnit {
-  unitId: string;
-  unitNumber: string;
-  propertyId: string;
-  propertyName: string;
-  propertyAddress: string;
-  status: string;
-  rentAmount: number;
-  tenantName?: string;
-  tenantId?: string;
-  leaseStart?: string;
-  leaseEnd?: string;
-  squareFeet?: number;
-}
-
 export async function loader({ request, context }: LoaderFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
-
-  const [properties, tenants] = await Promise.all([
-    fetchPropertiesFromWorker(workerEnv, siteId),
-    fetchTenantsFromWorker(workerEnv, siteId),
-  ]);
-
-  // Build comprehensive rent roll data
-  const rentRoll: RentRollUnit[] = [];
-
-  for (const property of properties) {
-    const units = await fetchUnitsFromWorker(workerEnv, siteId, property.id);
-
-    for (const unit of units) {
-      const tenant = tenants.find(t => t.unitId === unit.id);
-
-      rentRoll.push({
-        unitId: unit.id,
-        unitNumber: unit.unitNumber,
-        propertyId: property.id,
-        propertyName: property.name,
-        propertyAddress: `${property.address}, ${property.city}`,
-        status: unit.status,
-        rentAmount: unit.rentAmount,
-        tenantName: tenant ? `${tenant.firstName} ${tenant.lastName}` : undefined,
-        tenantId: tenant?.id,
-        leaseStart: tenant?.leaseStartDate,
-        leaseEnd: tenant?.leaseEndDate,
-        squareFeet: unit.squareFeet,
-      });
-    }
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const user = await requireAuth(request, workerEnv, context.cloudflare.env.SESSION_SECRET as string, siteId);
+  if (!canViewFinancials(user)) {
+    throw new Response('Forbidden', { status: 403 });
   }
 
-  // Calculate totals
-  const totalUnits = rentRoll.length;
-  const occupiedUnits = rentRoll.filter(u => u.status === 'occupied').length;
-  const vacantUnits = rentRoll.filter(u => u.status === 'available').length;
-  const totalRent = rentRoll
-    .filter(u => u.status === 'occupied')
-    .reduce((sum, u) => sum + u.rentAmount, 0);
-  const potentialRent = rentRoll.reduce((sum, u) => sum + u.rentAmount, 0);
-  const occupancyRate = totalUnits > 0 ? (occupiedUnits / totalUnits) * 100 : 0;
+  // The worker limits owners to their own properties
+  const { rows: rentRoll, summary } = await fetchRentRollFromWorker(workerEnv, siteId);
 
-  return json({
-    rentRoll,
-    summary: {
-      totalUnits,
-      occupiedUnits,
-      vacantUnits,
-      totalRent,
-      potentialRent,
-      occupancyRate,
-    },
-  });
+  return json({ rentRoll, summary });
 }
 
 export default function RentRoll() {
@@ -107,7 +47,7 @@ export default function RentRoll() {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6 mb-8">
         <div className="bg-white rounded-xl shadow-sm p-6">
           <div className="flex items-center justify-between mb-2">
             <span className="text-2xl">🏢</span>
@@ -156,6 +96,26 @@ export default function RentRoll() {
           <p className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(summary.potentialRent)}</p>
           <p className="text-xs text-gray-500 mt-1">At 100% occupancy</p>
         </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-2xl">✅</span>
+          </div>
+          <h3 className="text-sm font-medium text-gray-500">Collected This Month</h3>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(summary.collectedThisMonth)}</p>
+          <p className="text-xs text-gray-500 mt-1">Payments recorded in ledger</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-2xl">⚠️</span>
+          </div>
+          <h3 className="text-sm font-medium text-gray-500">Outstanding</h3>
+          <p className={`text-2xl font-bold mt-1 ${summary.totalOutstanding > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {formatCurrency(summary.totalOutstanding)}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">Unpaid balance across leases</p>
+        </div>
       </div>
 
       {/* Rent Roll Table */}
@@ -179,6 +139,12 @@ export default function RentRoll() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Rent
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Collected
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Balance
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Lease Period
                 </th>
@@ -219,7 +185,20 @@ export default function RentRoll() {
                   </td>
                   <td className="px-6 py-4">
                     <span className="text-sm font-medium text-gray-900">
-                      {formatCurrency(unit.rentAmount)}
+                      {formatCurrency(unit.leaseRent ?? unit.rentAmount)}
+                    </span>
+                    {unit.leaseRent !== undefined && unit.leaseRent !== unit.rentAmount && (
+                      <p className="text-xs text-gray-500">Listed {formatCurrency(unit.rentAmount)}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className="text-sm text-gray-900">
+                      {formatCurrency(unit.collectedThisMonth)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className={`text-sm font-medium ${unit.balance > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {formatCurrency(unit.balance)}
                     </span>
                   </td>
                   <td className="px-6 py-4">
@@ -9,13 +9,15 @@ import { useLoaderData, useFetcher, Link } from '@remix-run/react';
 import { getSiteId } from '~/lib/site.server';
 import { fetchLeadsFromWorker, updateLeadInWorker } from '~/lib/worker-client';
 import { useState, useMemo } from 'react';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
 
   // Fetch general inquiries (leads with propertyId = 'general')
-  const inquiries = await fetchLeadsFromWorker(env, siteId, {
+  const inquiries = await fetchLeadsFromWorker(workerEnv, siteId, {
     propertyId: 'general',
   });
 
@@ -24,6 +26,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 
 export async function action({ request, context }: ActionFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const formData = await request.formData();
   const action = formData.get('action');
@@ -31,7 +34,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
 
   if (action === 'dismiss') {
     // Update the inquiry status to 'rejected' (dismissed)
-    await updateLeadInWorker(env, siteId, inquiryId, {
+    await updateLeadInWorker(workerEnv, siteId, inquiryId, {
       status: 'rejected',
     });
 
@@ -1,17 +1,26 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json, redirect } from '@remix-run/cloudflare';
-import { useLoaderData, useRouteLoaderData, Link, useSubmit, Form } from '@remix-run/react';
+import { useLoaderData, useRouteLoaderData, useActionData, Link, useSubmit, Form } from '@remix-run/react';
 import {
   fetchLeaseByIdFromWorker,
   fetchLeaseFilesFromWorker,
   updateLeaseToWorker,
   deleteLeaseToWorker,
   deleteLeaseFileToWorker,
+  fetchLeaseLedgerFromWorker,
+  createLedgerEntryToWorker,
+  deleteLedgerEntryToWorker,
+  fetchLeaseSignatureFromWorker,
+  sendLeaseForSignatureToWorker,
+  fetchAuditLogFromWorker,
 } from '~/lib/worker-client';
 import { formatCurrency } from '~/shared/utils';
+import { CreateLedgerEntrySchema } from '~/shared/config';
 import { getSiteId } from '~/lib/site.server';
-import { requireAuth } from '~/lib/auth.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 import { canDelete } from '~/lib/permissions';
+import { ActivityPanel } from '~/components/audit';
+import type { AuditLogEntry } from '~/shared/types';
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
   if (!data) return [{ title: 'Lease Not Found' }];
@@ -20,34 +29,33 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 
 export async function loader({ params, request, context }: LoaderFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const leaseId = params.id;
 
   if (!leaseId) {
     throw new Response('Lease ID is required', { status: 400 });
   }
 
-  const [lease, files] = await Promise.all([
+  const user = await requireAuth(request, workerEnv, context.cloudflare.env.SESSION_SECRET as string, siteId);
+
+  const [lease, files, ledger, signature, activity] = await Promise.all([
     fetchLeaseByIdFromWorker(workerEnv, siteId, leaseId),
     fetchLeaseFilesFromWorker(workerEnv, siteId, leaseId),
+    fetchLeaseLedgerFromWorker(workerEnv, siteId, leaseId).catch(() => null),
+    fetchLeaseSignatureFromWorker(workerEnv, siteId, leaseId, true).catch(() => null),
+    fetchAuditLogFromWorker(workerEnv, siteId, { entityType: 'lease', entityId: leaseId }).catch((): AuditLogEntry[] => []),
   ]);
 
   if (!lease) {
     throw new Response('Lease not found', { status: 404 });
   }
 
-  return json({ lease, files });
+  return json({ lease, files, ledger, signature, activity });
 }
 
 export async function action({ params, request, context }: ActionFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const secret = context.cloudflare.env.SESSION_SECRET as string;
   const leaseId = params.id;
 
@@ -68,6 +76,7 @@ export async function action({ params, request, context }: ActionFunctionArgs) {
   }
 
   if (action === 'updateStatus') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
     const status = formData.get('status') as string;
     await updateLeaseToWorker(workerEnv, siteId, leaseId, { status });
     return json({ success: true });
@@ -79,11 +88,61 @@ export async function action({ params, request, context }: ActionFunctionArgs) {
     return json({ success: true });
   }
 
+  if (action === 'recordLedgerEntry') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    const parsed = CreateLedgerEntrySchema.safeParse({
+      entryType: formData.get('entryType'),
+      category: formData.get('category') || undefined,
+      amount: Number(formData.get('amount')),
+      effectiveDate: formData.get('effectiveDate'),
+      description: formData.get('description') || undefined,
+      paymentMethod: formData.get('paymentMethod') || undefined,
+      reference: formData.get('reference') || undefined,
+    });
+
+    if (!parsed.success) {
+      return json({ ledgerErrors: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    await createLedgerEntryToWorker(workerEnv, siteId, user.id, leaseId, parsed.data);
+    return json({ success: true });
+  }
+
+  if (action === 'deleteLedgerEntry') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    const entryId = formData.get('entryId') as string;
+    await deleteLedgerEntryToWorker(workerEnv, siteId, user.id, leaseId, entryId);
+    return json({ success: true });
+  }
+
+  if (action === 'sendForSignature') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    const landlordEmail = formData.get('landlordEmail') as string;
+    try {
+      await sendLeaseForSignatureToWorker(workerEnv, siteId, user.id, leaseId, {
+        documentId: (formData.get('documentId') as string) || undefined,
+        landlordSigner: landlordEmail ? { email: landlordEmail, name: (formData.get('landlordName') as string) || landlordEmail } : undefined,
+        message: (formData.get('message') as string) || undefined,
+      });
+    } catch (error) {
+      return json(
+        { signatureError: error instanceof Error ? error.message : 'Failed to send for signature' },
+        { status: 400 }
+      );
+    }
+    return json({ success: true });
+  }
+
   return json({ success: false }, { status: 400 });
 }
 
 export default function LeaseDetail() {
-  const { lease, files } = useLoaderData<typeof loader>();
+  const { lease, files, ledger, signature, activity } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const ledgerErrors = actionData && 'ledgerErrors' in actionData ? actionData.ledgerErrors : undefined;
+  const signatureError = actionData && 'signatureError' in actionData ? actionData.signatureError : undefined;
+  const leaseDocuments = files.filter((file: any) => file.fileType === 'lease_document');
+  const canSendForSignature = lease.status === 'draft' || lease.status === 'pending_signature';
   const adminData = useRouteLoaderData<typeof import('./admin').loader>('routes/admin');
   const user = adminData?.user || null;
   const submit = useSubmit();
@@ -104,6 +163,14 @@ export default function LeaseDetail() {
     submit(formData, { method: 'post' });
   };
 
+  const handleLedgerEntryDelete = (entryId: string) => {
+    if (!confirm('Are you sure you want to delete this ledger entry?')) return;
+    const formData = new FormData();
+    formData.append('_action', 'deleteLedgerEntry');
+    formData.append('entryId', entryId);
+    submit(formData, { method: 'post' });
+  };
+
   return (
     <div className="p-8">
       {/* Header */}
@@ -224,6 +291,228 @@ export default function LeaseDetail() {
         </div>
       </div>
 
+      {/* E-Signature */}
+      <div className="bg-white rounded-xl shadow-sm p-6 mt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">E-Signature</h2>
+          {signature && <EnvelopeStatusBadge status={signature.status} />}
+        </div>
+
+        {signature ? (
+          <div className="mb-4">
+            <p className="text-sm text-gray-500 mb-3">
+              Sent {new Date(signature.sentAt).toLocaleDateString()} via {signature.provider}
+              {signature.completedAt && <> • Completed {new Date(signature.completedAt).toLocaleDateString()}</>}
+              {!signature.completedAt && signature.expiresAt && (
+                <> • Expires {new Date(signature.expiresAt).toLocaleDateString()}</>
+              )}
+            </p>
+            <div className="space-y-2">
+              {signature.signers.map((signer) => (
+                <div key={signer.email} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                  <div>
+                    <div className="font-medium text-gray-900">{signer.name}</div>
+                    <div className="text-xs text-gray-500">{signer.email}</div>
+                  </div>
+                  <div className="text-right">
+                    <span className="capitalize text-gray-700">{signer.status}</span>
+                    {signer.signedAt && (
+                      <div className="text-xs text-gray-500">{new Date(signer.signedAt).toLocaleDateString()}</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 mb-4">This lease has not been sent for signature.</p>
+        )}
+
+        {canSendForSignature && (
+          leaseDocuments.length === 0 ? (
+            <p className="text-sm text-gray-500 border-t border-gray-100 pt-4">
+              Upload a lease document to send it for signature.
+            </p>
+          ) : (
+            <Form method="post" className="grid grid-cols-1 md:grid-cols-3 gap-3 border-t border-gray-100 pt-4">
+              <input type="hidden" name="_action" value="sendForSignature" />
+              <select name="documentId" className="md:col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm">
+                {leaseDocuments.map((file: any) => (
+                  <option key={file.id} value={file.id}>{file.fileName}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                name="landlordName"
+                placeholder="Landlord signer name (optional)"
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <input
+                type="email"
+                name="landlordEmail"
+                placeholder="Landlord signer email (optional)"
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700"
+              >
+                {signature ? 'Resend for Signature' : 'Send for Signature'}
+              </button>
+              <textarea
+                name="message"
+                rows={2}
+                placeholder="Message to signers (optional)"
+                className="md:col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              {signatureError && <p className="md:col-span-3 text-xs text-red-600">{signatureError}</p>}
+            </Form>
+          )
+        )}
+      </div>
+
+      {/* Rent Ledger */}
+      {ledger && (
+        <div className="bg-white rounded-xl shadow-sm p-6 mt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Rent Ledger</h2>
+            <div className="text-right">
+              <span className="text-sm text-gray-500">Balance: </span>
+              <span className={`text-lg font-bold ${ledger.summary.balance > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {formatCurrency(ledger.summary.balance)}
+              </span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
+            <div>
+              <div className="text-gray-500">Charged</div>
+              <div className="font-medium text-gray-900">{formatCurrency(ledger.summary.totalCharged)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Paid</div>
+              <div className="font-medium text-gray-900">{formatCurrency(ledger.summary.totalPaid)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Credited</div>
+              <div className="font-medium text-gray-900">{formatCurrency(ledger.summary.totalCredited)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Adjusted</div>
+              <div className="font-medium text-gray-900">{formatCurrency(ledger.summary.totalAdjusted)}</div>
+            </div>
+          </div>
+
+          {ledger.entries.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No ledger entries yet.</p>
+          ) : (
+            <div className="overflow-x-auto mb-6">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {ledger.entries.map((entry) => (
+                    <tr key={entry.id}>
+                      <td className="px-4 py-2 text-gray-600">{entry.effectiveDate}</td>
+                      <td className="px-4 py-2 capitalize text-gray-900">{entry.entryType}</td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {entry.description || entry.category.replace(/_/g, ' ')}
+                        {entry.reference && <span className="text-xs text-gray-400"> • {entry.reference}</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(entry.amount)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(entry.balance ?? 0)}</td>
+                      <td className="px-4 py-2 text-right">
+                        {!entry.period && (
+                          <button
+                            onClick={() => handleLedgerEntryDelete(entry.id)}
+                            className="text-xs text-red-600 hover:text-red-700"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <Form method="post" className="grid grid-cols-1 md:grid-cols-3 gap-3 border-t border-gray-100 pt-4">
+            <input type="hidden" name="_action" value="recordLedgerEntry" />
+            <select name="entryType" defaultValue="payment" className="px-3 py-2 border border-gray-300 rounded-lg text-sm">
+              <option value="payment">Payment</option>
+              <option value="charge">Charge</option>
+              <option value="credit">Credit</option>
+              <option value="adjustment">Adjustment</option>
+            </select>
+            <select name="category" defaultValue="rent" className="px-3 py-2 border border-gray-300 rounded-lg text-sm">
+              <option value="rent">Rent</option>
+              <option value="deposit">Deposit</option>
+              <option value="late_fee">Late Fee</option>
+              <option value="utility">Utility</option>
+              <option value="other">Other</option>
+            </select>
+            <select name="paymentMethod" defaultValue="" className="px-3 py-2 border border-gray-300 rounded-lg text-sm">
+              <option value="">Payment method…</option>
+              <option value="e_transfer">E-Transfer</option>
+              <option value="pad">Pre-Authorized Debit</option>
+              <option value="cheque">Cheque</option>
+              <option value="cash">Cash</option>
+              <option value="card">Card</option>
+              <option value="other">Other</option>
+            </select>
+            <div>
+              <input
+                type="number"
+                name="amount"
+                step="0.01"
+                placeholder="Amount"
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              {ledgerErrors?.amount && <p className="text-xs text-red-600 mt-1">{ledgerErrors.amount[0]}</p>}
+            </div>
+            <div>
+              <input
+                type="date"
+                name="effectiveDate"
+                defaultValue={new Date().toISOString().split('T')[0]}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              {ledgerErrors?.effectiveDate && <p className="text-xs text-red-600 mt-1">{ledgerErrors.effectiveDate[0]}</p>}
+            </div>
+            <input
+              type="text"
+              name="reference"
+              placeholder="Reference (e.g. cheque #)"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="text"
+              name="description"
+              placeholder="Description"
+              className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700"
+            >
+              Record Entry
+            </button>
+          </Form>
+        </div>
+      )}
+
       {/* Lease Files */}
       <div className="bg-white rounded-xl shadow-sm p-6 mt-6">
         <div className="flex items-center justify-between mb-4">
@@ -269,6 +558,8 @@ export default function LeaseDetail() {
         )}
       </div>
 
+      <ActivityPanel entries={activity} />
+
       {/* Delete Lease */}
       {userCanDelete && (
         <div className="bg-white rounded-xl shadow-sm p-6 mt-6">
@@ -319,3 +610,23 @@ function LeaseStatusBadge({ status }: { status: string }) {
     </span>
   );
 }
+
+function EnvelopeStatusBadge({ status }: { status: string }) {
+  const colors = {
+    created: 'bg-gray-100 text-gray-800',
+    sent: 'bg-yellow-100 text-yellow-800',
+    delivered: 'bg-yellow-100 text-yellow-800',
+    signed: 'bg-blue-100 text-blue-800',
+    completed: 'bg-green-100 text-green-800',
+    declined: 'bg-red-100 text-red-800',
+    voided: 'bg-gray-100 text-gray-600',
+  };
+
+  const colorClass = colors[status as keyof typeof colors] || 'bg-gray-100 text-gray-800';
+
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${colorClass}`}>
+      {status}
+    </span>
+  );
+}
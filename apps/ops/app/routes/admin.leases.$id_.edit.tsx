@@ -7,10 +7,12 @@ import {
   fetchUnitsFromWorker,
   fetchTenantsFromWorker,
   updateLeaseToWorker,
+  signedWorkerFetch,
 } from '~/lib/worker-client';
 import { getSiteId } from '~/lib/site.server';
 import { useState } from 'react';
 import { generateId } from '~/shared/utils';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
   if (!data) return [{ title: 'Edit Lease' }];
@@ -19,6 +21,7 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 
 export async function loader({ params, context, request }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const leaseId = params.id;
 
@@ -27,9 +30,9 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   }
 
   const [lease, properties, tenants] = await Promise.all([
-    fetchLeaseByIdFromWorker(env, siteId, leaseId),
-    fetchPropertiesFromWorker(env, siteId),
-    fetchTenantsFromWorker(env, siteId),
+    fetchLeaseByIdFromWorker(workerEnv, siteId, leaseId),
+    fetchPropertiesFromWorker(workerEnv, siteId),
+    fetchTenantsFromWorker(workerEnv, siteId),
   ]);
 
   if (!lease) {
@@ -39,7 +42,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   // Get units for the current property
   let units: any[] = [];
   if (lease.propertyId) {
-    units = await fetchUnitsFromWorker(env, siteId, lease.propertyId);
+    units = await fetchUnitsFromWorker(workerEnv, siteId, lease.propertyId);
   }
 
   return json({ lease, properties, tenants, units });
@@ -47,6 +50,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
 
 export async function action({ params, context, request }: ActionFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const leaseId = params.id;
 
@@ -114,7 +118,7 @@ export async function action({ params, context, request }: ActionFunctionArgs) {
     const fileData = JSON.parse(fileDataStr);
 
     // Update the lease
-    await updateLeaseToWorker(env, siteId, leaseId, {
+    await updateLeaseToWorker(workerEnv, siteId, leaseId, {
       propertyId,
       unitId,
       tenantId,
@@ -127,11 +131,10 @@ export async function action({ params, context, request }: ActionFunctionArgs) {
 
     // Create lease file record
     const fileId = generateId('lease_file');
-    await fetch(`${env.WORKER_URL}/api/ops/leases/${leaseId}/files`, {
+    await signedWorkerFetch(`${env.WORKER_URL}/api/ops/leases/${leaseId}/files`, workerEnv, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-Internal-Key': env.WORKER_INTERNAL_KEY as string,
         'X-Site-Id': siteId,
       },
       body: JSON.stringify({
@@ -2,6 +2,7 @@ import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link, useNavigate } from '@remix-run/react';
 import { fetchLeaseByIdFromWorker } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 import { getSiteId } from '~/lib/site.server';
 import { useState, useRef, useCallback, DragEvent, ChangeEvent } from 'react';
 
@@ -12,10 +13,7 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 
 export async function loader({ params, request, context }: LoaderFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const leaseId = params.id;
 
   if (!leaseId) {
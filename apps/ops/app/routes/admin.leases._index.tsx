@@ -3,16 +3,17 @@ import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link, useSearchParams, useRevalidator } from '@remix-run/react';
 import { useState } from 'react';
 import {
-  fetchLeasesFromWorker,
+  fetchLeasesPageFromWorker,
   fetchPropertiesFromWorker,
   fetchUnitsFromWorker,
-  fetchTenantsFromWorker,
 } from '~/lib/worker-client';
 import { formatCurrency } from '~/shared/utils';
 import { getSiteId } from '~/lib/site.server';
 import { SortableTableHeader, NonSortableTableHeader } from '~/components/SortableTableHeader';
+import { ListPagination, ListSearchInput } from '~/components/ListPagination';
 import { useMultiSelect } from '~/lib/useMultiSelect';
 import { LeaseBulkActionToolbar, LeaseBulkActionConfirmModal } from '~/components/lease';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export const meta: MetaFunction = () => {
   return [{ title: 'Leases - LeaseLab.io' }];
@@ -20,6 +21,7 @@ export const meta: MetaFunction = () => {
 
 export async function loader({ context, request }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const url = new URL(request.url);
 
@@ -29,19 +31,20 @@ export async function loader({ context, request }: LoaderFunctionArgs) {
   const tenantId = url.searchParams.get('tenantId') || undefined;
   const sortBy = url.searchParams.get('sortBy') || 'start_date';
   const sortOrder = (url.searchParams.get('sortOrder') || 'desc') as 'asc' | 'desc';
+  const search = url.searchParams.get('search') || undefined;
+  const cursor = url.searchParams.get('cursor') || undefined;
 
-  const [leases, properties, units, tenants] = await Promise.all([
-    fetchLeasesFromWorker(env, siteId, { status, propertyId, unitId, tenantId, sortBy, sortOrder }),
-    fetchPropertiesFromWorker(env, siteId),
-    propertyId ? fetchUnitsFromWorker(env, siteId, propertyId) : Promise.resolve([]),
-    fetchTenantsFromWorker(env, siteId),
+  const [page, properties, units] = await Promise.all([
+    fetchLeasesPageFromWorker(workerEnv, siteId, { status, propertyId, unitId, tenantId, search, sortBy, sortOrder, cursor }),
+    fetchPropertiesFromWorker(workerEnv, siteId),
+    propertyId ? fetchUnitsFromWorker(workerEnv, siteId, propertyId) : Promise.resolve([]),
   ]);
 
-  return json({ leases, properties, units, tenants });
+  return json({ leases: page.items, pagination: page.pagination, properties, units });
 }
 
 export default function LeasesIndex() {
-  const { leases, properties, units, tenants } = useLoaderData<typeof loader>();
+  const { leases, pagination, properties, units } = useLoaderData<typeof loader>();
   const [searchParams, setSearchParams] = useSearchParams();
   const revalidator = useRevalidator();
 
@@ -147,7 +150,7 @@ export default function LeasesIndex() {
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Leases</h1>
         <div className="flex items-center gap-4">
-          <div className="text-sm text-gray-500">{leases.length} leases</div>
+          <ListSearchInput placeholder="Search tenant, property or unit" />
           <Link
             to="/admin/leases/new"
             className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 transition-colors"
@@ -168,6 +171,7 @@ export default function LeasesIndex() {
                 key={value}
                 onClick={() => {
                   const params = new URLSearchParams(searchParams);
+                  params.delete('cursor');
                   if (value === 'all') {
                     params.delete('status');
                   } else {
@@ -194,6 +198,7 @@ export default function LeasesIndex() {
             <button
               onClick={() => {
                 const params = new URLSearchParams(searchParams);
+                params.delete('cursor');
                 params.delete('propertyId');
                 params.delete('unitId'); // Clear unit filter when property changes
                 setSearchParams(params);
@@ -209,6 +214,7 @@ export default function LeasesIndex() {
                 key={property.id}
                 onClick={() => {
                   const params = new URLSearchParams(searchParams);
+                  params.delete('cursor');
                   params.set('propertyId', property.id);
                   params.delete('unitId'); // Clear unit filter when property changes
                   setSearchParams(params);
@@ -233,6 +239,7 @@ export default function LeasesIndex() {
               <button
                 onClick={() => {
                   const params = new URLSearchParams(searchParams);
+                  params.delete('cursor');
                   params.delete('unitId');
                   setSearchParams(params);
                 }}
@@ -247,6 +254,7 @@ export default function LeasesIndex() {
                   key={unit.id}
                   onClick={() => {
                     const params = new URLSearchParams(searchParams);
+                    params.delete('cursor');
                     params.set('unitId', unit.id);
                     setSearchParams(params);
                   }}
@@ -368,6 +376,7 @@ export default function LeasesIndex() {
             )}
           </tbody>
         </table>
+        <ListPagination pagination={pagination} itemCount={leases.length} noun="leases" />
       </div>
 
       {/* Bulk Action Confirmation Modal */}
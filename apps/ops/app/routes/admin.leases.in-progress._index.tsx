@@ -3,6 +3,8 @@ import { json } from '@remix-run/cloudflare';
 import { useLoaderData, useRevalidator } from '@remix-run/react';
 import { useState } from 'react';
 import { getSiteId } from '~/lib/site.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
+import { signedWorkerFetch } from '~/lib/worker-client';
 import { LeaseInProgressCard } from '~/components/lease/LeaseInProgressCard';
 
 export const meta: MetaFunction = () => {
@@ -12,13 +14,15 @@ export const meta: MetaFunction = () => {
 export async function loader({ context, request }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
   const siteId = getSiteId(request);
+  const workerEnv = await requireWorkerEnv(request, env);
+  const user = await requireAuth(request, workerEnv, env.SESSION_SECRET as string, siteId);
 
   // Fetch leases in progress from worker API
   const workerUrl = env.WORKER_URL || 'http://localhost:8787';
-  const response = await fetch(`${workerUrl}/api/ops/leases/in-progress`, {
+  const response = await signedWorkerFetch(`${workerUrl}/api/ops/leases/in-progress`, workerEnv, {
     headers: {
       'x-site-id': siteId,
-      'x-user-id': 'system', // TODO: Get from auth context
+      'x-user-id': user.id,
     },
   });
 
@@ -9,6 +9,7 @@ import {
 } from '~/lib/worker-client';
 import { getSiteId } from '~/lib/site.server';
 import { useState } from 'react';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export const meta: MetaFunction = () => {
   return [{ title: 'Create New Lease - LeaseLab.io' }];
@@ -16,11 +17,12 @@ export const meta: MetaFunction = () => {
 
 export async function loader({ context, request }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
 
   const [properties, tenants] = await Promise.all([
-    fetchPropertiesFromWorker(env, siteId),
-    fetchTenantsFromWorker(env, siteId),
+    fetchPropertiesFromWorker(workerEnv, siteId),
+    fetchTenantsFromWorker(workerEnv, siteId),
   ]);
 
   return json({ properties, tenants });
@@ -28,6 +30,7 @@ export async function loader({ context, request }: LoaderFunctionArgs) {
 
 export async function action({ context, request }: ActionFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const formData = await request.formData();
 
@@ -41,7 +44,7 @@ export async function action({ context, request }: ActionFunctionArgs) {
   const status = (formData.get('status') as string) || 'draft';
 
   try {
-    const lease = await createLeaseToWorker(env, siteId, {
+    const lease = await createLeaseToWorker(workerEnv, siteId, {
       propertyId,
       unitId,
       tenantId,
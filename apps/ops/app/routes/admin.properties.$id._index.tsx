@@ -5,7 +5,7 @@ import { fetchPropertyWithUnitsFromWorker, savePropertyToWorker, deletePropertyT
 import { formatCurrency } from '~/shared/utils';
 import type { Property, Unit, PropertyImage } from '~/shared/types';
 import { getSiteId } from '~/lib/site.server';
-import { requireAuth } from '~/lib/auth.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 import { canDelete } from '~/lib/permissions';
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
@@ -13,10 +13,7 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 };
 
 export async function loader({ params, context, request }: LoaderFunctionArgs) {
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const siteId = getSiteId(request);
   const { id } = params;
 
@@ -48,10 +45,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
 }
 
 export async function action({ request, params, context }: ActionFunctionArgs) {
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const secret = context.cloudflare.env.SESSION_SECRET as string;
   const siteId = getSiteId(request);
   const { id } = params;
@@ -2,6 +2,7 @@ import type { LoaderFunctionArgs, ActionFunctionArgs, MetaFunction } from '@remi
 import { json, redirect } from '@remix-run/cloudflare';
 import { Form, Link, useLoaderData, useNavigation, useActionData } from '@remix-run/react';
 import { fetchPropertyFromWorker, saveUnitToWorker } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 import { CreateUnitSchema } from '~/shared/config';
 import { getSiteId } from '~/lib/site.server';
 
@@ -11,10 +12,7 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 
 export async function loader({ params, context, request }: LoaderFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const { id } = params;
 
   if (!id) {
@@ -32,10 +30,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
 
 export async function action({ request, params, context }: ActionFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const { id: propertyId } = params;
 
   if (!propertyId) {
@@ -9,10 +9,10 @@
 
 import type { LoaderFunctionArgs, ActionFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
-import { useLoaderData, Link, useNavigate, useSearchParams, useRouteLoaderData, useFetcher, useRevalidator } from '@remix-run/react';
+import { useLoaderData, useActionData, Link, useNavigate, useSearchParams, useRouteLoaderData, useFetcher, useRevalidator } from '@remix-run/react';
 import { useEffect, useState } from 'react';
 import { getSiteId } from '~/lib/site.server';
-import { requireAuth } from '~/lib/auth.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 import {
   fetchPropertyFromWorker,
   fetchLeadFromWorker,
@@ -20,20 +20,51 @@ import {
   fetchApplicationDocumentsFromWorker,
   fetchApplicationTransitionsFromWorker,
   fetchApplicationNotesFromWorker,
+  createStageTransitionToWorker,
   approveApplicationToWorker,
   rejectApplicationToWorker,
   reviveApplicationToWorker,
   sendApplicationEmailToWorker,
+  fetchScreeningResultsFromWorker,
+  requestScreeningToWorker,
+  fetchCommunicationsFromWorker,
+  retryCommunicationToWorker,
+  fetchIntakeFormFromWorker,
+  fetchApplicationPipelineFromWorker,
+  sendApplicantInviteToWorker,
+  sendApplicationStatusLinkToWorker,
 } from '~/lib/worker-client';
-import { ApplicantCard, DocumentsList, InternalNotes } from '~/components/application';
+import {
+  ApplicantCard,
+  DocumentsList,
+  InternalNotes,
+  IntakeAnswersCard,
+  StageChecker,
+  StageConfirmationDialog,
+} from '~/components/application';
+import { CommunicationHistory } from '~/components/communications';
 import { AiEvaluationPane } from '~/components/ai/AiEvaluationPane';
+import { getStageWarnings } from '~/lib/stage-checkers';
+import type {
+  BypassCategory,
+  IntakeForm,
+  LeadStatus,
+  PipelineStage,
+  ScreeningResult,
+  StageChecklistState,
+} from '~/shared/types';
+import {
+  findPipelineTarget,
+  getNextPipelineStages,
+  getPipelineStageChecklist,
+  getPipelineTransitionGate,
+  isBypassCategory,
+  resolvePipelineStage,
+} from '~/shared/utils';
 
 export async function loader({ request, params, context }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
-  const workerEnv = {
-    WORKER_URL: env.WORKER_URL,
-    WORKER_INTERNAL_KEY: env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, env);
   const secret = env.SESSION_SECRET as string;
   const hostnameSiteId = getSiteId(request);
   const user = await requireAuth(request, workerEnv, secret, hostnameSiteId);
@@ -44,15 +75,29 @@ export async function loader({ request, params, context }: LoaderFunctionArgs) {
     throw new Response('Property ID and Application ID required', { status: 400 });
   }
 
-  const [property, application, applicants, documents, transitions, notes] = await Promise.all([
-    fetchPropertyFromWorker(env, siteId, propertyId),
-    fetchLeadFromWorker(env, siteId, applicationId),
-    fetchApplicationApplicantsFromWorker(env, siteId, applicationId),
-    fetchApplicationDocumentsFromWorker(env, siteId, applicationId),
-    fetchApplicationTransitionsFromWorker(env, siteId, applicationId),
-    fetchApplicationNotesFromWorker(env, siteId, applicationId),
+  // Poll outstanding screening reports first so applicant check statuses are current
+  const screeningResults = await fetchScreeningResultsFromWorker(workerEnv, siteId, applicationId, true).catch(
+    (): ScreeningResult[] => []
+  );
+
+  const [property, application, applicants, documents, transitions, notes, communications, pipeline] = await Promise.all([
+    fetchPropertyFromWorker(workerEnv, siteId, propertyId),
+    fetchLeadFromWorker(workerEnv, siteId, applicationId),
+    fetchApplicationApplicantsFromWorker(workerEnv, siteId, applicationId),
+    fetchApplicationDocumentsFromWorker(workerEnv, siteId, applicationId),
+    fetchApplicationTransitionsFromWorker(workerEnv, siteId, applicationId),
+    fetchApplicationNotesFromWorker(workerEnv, siteId, applicationId),
+    fetchCommunicationsFromWorker(workerEnv, siteId, 'application', applicationId),
+    fetchApplicationPipelineFromWorker(workerEnv, siteId),
   ]);
 
+  // Custom question labels live on the form version the applicant submitted on
+  const intakeForm = application.intakeAnswers
+    ? await fetchIntakeFormFromWorker(workerEnv, siteId, application.intakeFormVersion ?? 0).catch(
+        (): IntakeForm | null => null
+      )
+    : null;
+
   return json({
     property,
     application,
@@ -60,6 +105,10 @@ export async function loader({ request, params, context }: LoaderFunctionArgs) {
     documents,
     transitions,
     notes,
+    screeningResults,
+    communications,
+    intakeForm,
+    pipeline,
   });
 }
 
@@ -72,10 +121,7 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
     return json({ success: false, error: 'Property ID and Application ID required' }, { status: 400 });
   }
 
-  const workerEnv = {
-    WORKER_URL: env.WORKER_URL,
-    WORKER_INTERNAL_KEY: env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, env);
   const secret = env.SESSION_SECRET as string;
   const user = await requireAuth(request, workerEnv, secret, hostnameSiteId);
   const siteId = user.siteId;
@@ -83,32 +129,90 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
   const formData = await request.formData();
   const intent = formData.get('_action');
 
+  // Ticked checklist items and any bypass for a stage move
+  const stageMove = () => {
+    const bypassReason = formData.get('bypassReason');
+    const bypassCategory = formData.get('bypassCategory');
+    return {
+      checklist: JSON.parse((formData.get('checklist') as string) || '{}') as StageChecklistState,
+      bypassReason: typeof bypassReason === 'string' && bypassReason ? bypassReason : undefined,
+      bypassCategory: isBypassCategory(bypassCategory) ? bypassCategory : undefined,
+    };
+  };
+
   try {
     switch (intent) {
       case 'approve': {
-        await approveApplicationToWorker(env, siteId, user.id, applicationId);
+        await approveApplicationToWorker(workerEnv, siteId, user.id, applicationId, stageMove());
         return json({ success: true, message: 'Application approved successfully!' });
       }
+      case 'transition': {
+        const toStage = formData.get('toStage');
+        const target =
+          typeof toStage === 'string' && toStage
+            ? findPipelineTarget(await fetchApplicationPipelineFromWorker(workerEnv, siteId), toStage)
+            : undefined;
+        if (!target) {
+          return json({ success: false, error: 'Choose a stage to move to.' }, { status: 400 });
+        }
+        await createStageTransitionToWorker(workerEnv, siteId, user.id, applicationId, {
+          toStage: target.key,
+          ...stageMove(),
+        });
+        return json({ success: true, message: `Moved to ${target.label}.` });
+      }
       case 'reject': {
         const reason = formData.get('reason');
         if (!reason || typeof reason !== 'string') {
           return json({ success: false, error: 'Rejection reason is required.' }, { status: 400 });
         }
-        await rejectApplicationToWorker(env, siteId, user.id, applicationId, reason);
+        await rejectApplicationToWorker(workerEnv, siteId, user.id, applicationId, reason);
         return json({ success: true, message: 'Application rejected.' });
       }
       case 'revive': {
-        await reviveApplicationToWorker(env, siteId, user.id, applicationId);
+        await reviveApplicationToWorker(workerEnv, siteId, user.id, applicationId);
         return json({ success: true, message: 'Application revived.' });
       }
+      case 'requestScreening': {
+        await requestScreeningToWorker(workerEnv, siteId, user.id, applicationId);
+        return json({ success: true, message: 'Screening requested.' });
+      }
       case 'sendEmail': {
-        const subject = formData.get('subject');
-        const message = formData.get('message');
-        if (!subject || typeof subject !== 'string' || !message || typeof message !== 'string') {
-          return json({ success: false, error: 'Subject and message are required.' }, { status: 400 });
+        const template = (formData.get('templateKey') as string) || undefined;
+        const subject = (formData.get('subject') as string) || undefined;
+        const message = (formData.get('body') as string) || undefined;
+        if (!template && (!subject || !message)) {
+          return json({ success: false, error: 'Choose a template or enter a subject and message.' }, { status: 400 });
         }
-        await sendApplicationEmailToWorker(env, siteId, user.id, applicationId, { subject, message });
-        return json({ success: true, message: 'Email sent successfully!' });
+        await sendApplicationEmailToWorker(
+          workerEnv,
+          siteId,
+          user.id,
+          applicationId,
+          { template, subject, message },
+          (formData.get('idempotencyKey') as string) || undefined
+        );
+        return json({ success: true, message: 'Email queued.' });
+      }
+      case 'sendInvite': {
+        const invited = await sendApplicantInviteToWorker(workerEnv, siteId, formData.get('applicantId') as string);
+        return json({
+          success: true,
+          message: invited.inviteSentAt
+            ? `Invite emailed to ${invited.email}.`
+            : 'Invite created, but not emailed: the storefront URL is not configured.',
+        });
+      }
+      case 'sendStatusLink': {
+        const { expiresAt } = await sendApplicationStatusLinkToWorker(workerEnv, siteId, user.id, applicationId);
+        return json({
+          success: true,
+          message: `Status link emailed. It works until ${new Date(expiresAt).toLocaleDateString()}.`,
+        });
+      }
+      case 'retryEmail': {
+        await retryCommunicationToWorker(workerEnv, siteId, user.id, formData.get('communicationId') as string);
+        return json({ success: true, message: 'Email re-queued.' });
       }
       default:
         return json({ success: false, error: 'Unsupported action.' }, { status: 400 });
@@ -120,7 +224,19 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
 }
 
 export default function ApplicationDetail() {
-  const { property, application, applicants, documents, transitions, notes } = useLoaderData<typeof loader>();
+  const {
+    property,
+    application,
+    applicants,
+    documents,
+    transitions,
+    notes,
+    screeningResults,
+    communications,
+    intakeForm,
+    pipeline,
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
   const adminData = useRouteLoaderData<typeof import('./admin').loader>('routes/admin');
@@ -129,6 +245,9 @@ export default function ApplicationDetail() {
   const [showAiPane, setShowAiPane] = useState(false);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [actionMessage, setActionMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  // Manual checklist items ticked for the current stage, and the stage being confirmed
+  const [tickedItems, setTickedItems] = useState<StageChecklistState>({});
+  const [pendingStage, setPendingStage] = useState<PipelineStage | null>(null);
   const actionFetcher = useFetcher<{ success?: boolean; message?: string; error?: string }>();
   const revalidator = useRevalidator();
   const isRejected = application?.status === 'rejected';
@@ -167,12 +286,25 @@ export default function ApplicationDetail() {
     }
   }, [actionFetcher.state, actionFetcher.data, actionLoading, revalidator]);
 
-  const handleApprove = async () => {
-    setActionLoading('approve');
+  const handleApprove = () => {
+    setPendingStage(approveTarget);
+  };
+
+  const handleConfirmStage = (bypassReason?: string, bypassCategory?: BypassCategory) => {
+    if (!pendingStage) return;
+
+    const intent = pendingStage.key === approveTarget.key ? 'approve' : 'transition';
+    setActionLoading(intent);
     setActionMessage(null);
     const formData = new FormData();
-    formData.append('_action', 'approve');
+    formData.append('_action', intent);
+    formData.append('toStage', pendingStage.key);
+    formData.append('checklist', JSON.stringify(tickedItems));
+    if (bypassReason) formData.append('bypassReason', bypassReason);
+    if (bypassCategory) formData.append('bypassCategory', bypassCategory);
     actionFetcher.submit(formData, { method: 'post' });
+    setPendingStage(null);
+    setTickedItems({});
   };
 
   const handleReject = async () => {
@@ -187,18 +319,32 @@ export default function ApplicationDetail() {
     actionFetcher.submit(formData, { method: 'post' });
   };
 
-  const handleSendEmail = async () => {
-    const subject = prompt('Email subject:');
-    if (!subject) return;
-    const message = prompt('Email message:');
-    if (!message) return;
+  const handleSendEmail = () => {
+    setActiveTab('communications');
+  };
+
+  const handleRequestScreening = async () => {
+    setActionLoading('screening');
+    setActionMessage(null);
+    const formData = new FormData();
+    formData.append('_action', 'requestScreening');
+    actionFetcher.submit(formData, { method: 'post' });
+  };
+
+  const handleSendInvite = (applicantId: string) => {
+    setActionLoading(`invite:${applicantId}`);
+    setActionMessage(null);
+    const formData = new FormData();
+    formData.append('_action', 'sendInvite');
+    formData.append('applicantId', applicantId);
+    actionFetcher.submit(formData, { method: 'post' });
+  };
 
-    setActionLoading('email');
+  const handleSendStatusLink = () => {
+    setActionLoading('statusLink');
     setActionMessage(null);
     const formData = new FormData();
-    formData.append('_action', 'sendEmail');
-    formData.append('subject', subject);
-    formData.append('message', message);
+    formData.append('_action', 'sendStatusLink');
     actionFetcher.submit(formData, { method: 'post' });
   };
 
@@ -213,6 +359,25 @@ export default function ApplicationDetail() {
   // Get primary applicant for header display
   const primaryApplicant = applicants.find((a: any) => a.applicantType === 'primary') || applicants[0];
 
+  // The checklist, next stages and confirmation all come from the site's
+  // pipeline over the workflow the worker enforces
+  const stageData = {
+    applicants,
+    documents,
+    aiScore: application.aiScore,
+    screeningResults,
+  };
+  const stageLabel = (status: string, key?: string | null) =>
+    resolvePipelineStage(pipeline, status as LeadStatus, key).label;
+  const currentStage = resolvePipelineStage(pipeline, application.status as LeadStatus, application.pipelineStage);
+  const approveTarget = findPipelineTarget(pipeline, 'approved')!;
+  const stageChecklist = getPipelineStageChecklist(pipeline, currentStage, stageData, tickedItems);
+  const nextStages = isRejected
+    ? []
+    : getNextPipelineStages(pipeline, currentStage).filter((stage) => stage.key !== approveTarget.key);
+  const canApprove = getPipelineTransitionGate(pipeline, currentStage, approveTarget) !== undefined;
+  const pendingGate = pendingStage ? getPipelineTransitionGate(pipeline, currentStage, pendingStage) : undefined;
+
   // Status badge color mapping
   const statusColors: Record<string, string> = {
     new: 'bg-blue-100 text-blue-800',
@@ -256,7 +421,7 @@ export default function ApplicationDetail() {
                 </span>
               )}
               <span className={`px-3 py-1 rounded-lg text-sm font-medium ${statusColors[application.status] || 'bg-gray-100 text-gray-800'}`}>
-                {application.status.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase())}
+                {currentStage.label}
               </span>
             </div>
             <div className="flex items-center gap-6 text-sm text-gray-600">
@@ -307,9 +472,9 @@ export default function ApplicationDetail() {
             </button>
             <button
               onClick={handleApprove}
-              disabled={actionLoading !== null || isRejected}
+              disabled={actionLoading !== null || !canApprove}
               className={`inline-flex items-center gap-2 px-4 py-2 font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
-                isRejected ? 'bg-gray-200 text-gray-500' : 'bg-green-600 text-white hover:bg-green-700'
+                !canApprove ? 'bg-gray-200 text-gray-500' : 'bg-green-600 text-white hover:bg-green-700'
               }`}
             >
               {actionLoading === 'approve' ? (
@@ -362,6 +527,25 @@ export default function ApplicationDetail() {
               )}
               {actionLoading === 'email' ? 'Sending...' : 'Send Email'}
             </button>
+            <button
+              onClick={handleSendStatusLink}
+              disabled={actionLoading !== null || isRejected}
+              className={`inline-flex items-center gap-2 px-4 py-2 font-medium rounded-lg border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                isRejected ? 'bg-gray-100 text-gray-400 border-gray-200' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {actionLoading === 'statusLink' ? (
+                <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+              ) : (
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                </svg>
+              )}
+              {actionLoading === 'statusLink' ? 'Sending...' : 'Send Status Link'}
+            </button>
             <button
               onClick={handleRevive}
               disabled={actionLoading !== null || !isRejected}
@@ -442,6 +626,16 @@ export default function ApplicationDetail() {
           >
             AI Notes ({notes.length})
           </button>
+          <button
+            onClick={() => setActiveTab('communications')}
+            className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${
+              activeTab === 'communications'
+                ? 'border-indigo-600 text-indigo-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Communications ({communications.length})
+          </button>
         </div>
       </div>
 
@@ -449,16 +643,103 @@ export default function ApplicationDetail() {
       <div className="flex-1 overflow-y-auto p-6">
         {activeTab === 'overview' && (
           <div className="max-w-5xl mx-auto space-y-6">
+            {/* Stage */}
+            {stageChecklist.length > 0 && (
+              <StageChecker
+                title={`${currentStage.label} checklist`}
+                description="Required items must be complete before the application moves on"
+                items={stageChecklist}
+                onItemToggle={(itemId, checked) => setTickedItems((prev) => ({ ...prev, [itemId]: checked }))}
+              />
+            )}
+            {nextStages.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-sm text-gray-600">Move to:</span>
+                {nextStages.map((stage) => (
+                  <button
+                    key={stage.key}
+                    onClick={() => setPendingStage(stage)}
+                    disabled={actionLoading !== null}
+                    className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {stage.label}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Applicants */}
             <div>
               <h2 className="text-lg font-semibold text-gray-900 mb-4">Applicants</h2>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {applicants.map((applicant: any) => (
-                  <ApplicantCard key={applicant.id} applicant={applicant} applicationId={application.id} />
+                  <ApplicantCard
+                    key={applicant.id}
+                    applicant={applicant}
+                    applicationId={application.id}
+                    onSendInvite={handleSendInvite}
+                    isSendingInvite={actionLoading === `invite:${applicant.id}`}
+                  />
                 ))}
               </div>
             </div>
 
+            {/* Screening */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">Tenant Screening</h2>
+                <button
+                  onClick={handleRequestScreening}
+                  disabled={actionLoading !== null || isRejected}
+                  className="px-4 py-2 text-sm font-medium rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {actionLoading === 'screening' ? 'Requesting...' : 'Request Screening'}
+                </button>
+              </div>
+              {screeningResults.length === 0 ? (
+                <p className="text-sm text-gray-500">No screening reports requested yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="border-b border-gray-200">
+                    <tr>
+                      <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Applicant</th>
+                      <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                      <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Credit</th>
+                      <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Criminal</th>
+                      <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Eviction</th>
+                      <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Identity</th>
+                      <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase">Requested</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {screeningResults.map((result) => {
+                      const applicant = applicants.find((a: any) => a.id === result.applicantId);
+                      return (
+                        <tr key={result.id}>
+                          <td className="py-2 text-gray-900">
+                            {applicant ? `${applicant.firstName} ${applicant.lastName}` : '—'}
+                            <span className="block text-xs text-gray-400">{result.provider} • {result.referenceId}</span>
+                          </td>
+                          <td className="py-2 capitalize text-gray-700">{result.status.replace('_', ' ')}</td>
+                          <td className="py-2 text-gray-700">{result.creditScore ?? '—'}</td>
+                          <td className={`py-2 capitalize ${result.criminalCheck === 'flagged' ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                            {result.criminalCheck ?? '—'}
+                          </td>
+                          <td className={`py-2 capitalize ${result.evictionHistory === 'flagged' ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                            {result.evictionHistory ?? '—'}
+                          </td>
+                          <td className={`py-2 ${result.identityVerified === false ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                            {result.identityVerified === undefined ? '—' : result.identityVerified ? 'Verified' : 'Not verified'}
+                          </td>
+                          <td className="py-2 text-right text-gray-500">{new Date(result.requestedAt).toLocaleDateString()}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
             {/* Application Summary */}
             <div className="bg-white rounded-lg border border-gray-200 p-6">
               <h2 className="text-lg font-semibold text-gray-900 mb-4">Application Summary</h2>
@@ -493,6 +774,14 @@ export default function ApplicationDetail() {
                 )}
               </dl>
             </div>
+
+            {application.intakeAnswers && (
+              <IntakeAnswersCard
+                answers={application.intakeAnswers}
+                schema={intakeForm?.schema ?? null}
+                version={application.intakeFormVersion}
+              />
+            )}
           </div>
         )}
 
@@ -520,7 +809,10 @@ export default function ApplicationDetail() {
                         <div className="flex-1">
                           <div className="flex items-center gap-3 mb-1">
                             <span className="font-medium text-gray-900">
-                              {transition.fromStage || 'Initial'} → {transition.toStage}
+                              {transition.fromStage
+                                ? stageLabel(transition.fromStage, transition.fromPipelineStage)
+                                : 'Initial'}{' '}
+                              → {stageLabel(transition.toStage, transition.toPipelineStage)}
                             </span>
                             <span className="text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded">
                               {transition.transitionType}
@@ -556,8 +848,40 @@ export default function ApplicationDetail() {
             <InternalNotes applicationId={application.id} notes={notes} currentUserId={currentUserId} />
           </div>
         )}
+
+        {activeTab === 'communications' && (
+          <div className="max-w-5xl mx-auto">
+            <CommunicationHistory
+              communications={communications}
+              entityType="application"
+              error={actionData && 'error' in actionData ? actionData.error : undefined}
+            />
+          </div>
+        )}
       </div>
 
+      {/* Stage Confirmation */}
+      <StageConfirmationDialog
+        isOpen={pendingStage !== null}
+        transition={
+          pendingStage
+            ? {
+                fromStage: currentStage.key,
+                fromStageLabel: currentStage.label,
+                toStage: pendingStage.key,
+                toStageLabel: pendingStage.label,
+              }
+            : null
+        }
+        checklistItems={pendingGate === 'checklist' ? stageChecklist : []}
+        warnings={pendingStage ? getStageWarnings(application.status, pendingStage.bucket, stageData) : []}
+        canBypass
+        requiresBypass={pendingGate === 'bypass'}
+        onConfirm={handleConfirmStage}
+        onCancel={() => setPendingStage(null)}
+        isLoading={actionLoading !== null}
+      />
+
       {/* AI Evaluation Pane */}
       <AiEvaluationPane
         open={showAiPane}
@@ -8,20 +8,20 @@ import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link, useSearchParams } from '@remix-run/react';
 import { useMemo } from 'react';
 import { getSiteId } from '~/lib/site.server';
-import { requireAuth } from '~/lib/auth.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 import {
+  fetchApplicationPipelineFromWorker,
   fetchPropertyFromWorker,
   fetchPropertyApplicationsFromWorker,
 } from '~/lib/worker-client';
+import type { ApplicationPipeline } from '~/shared/types';
+import { APPLICATION_STAGE_LABELS, findPipelineTarget, resolvePipelineStage } from '~/shared/utils';
 import { ViewToggle, useViewToggle } from '~/components/ViewToggle';
 import { UnitGroupedApplicationList } from '~/components/application/UnitGroupedApplicationList';
 
 export async function loader({ request, params, context }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
-  const workerEnv = {
-    WORKER_URL: env.WORKER_URL,
-    WORKER_INTERNAL_KEY: env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, env);
   const secret = env.SESSION_SECRET as string;
   const hostnameSiteId = getSiteId(request);
   const user = await requireAuth(request, workerEnv, secret, hostnameSiteId);
@@ -38,10 +38,15 @@ export async function loader({ request, params, context }: LoaderFunctionArgs) {
   const sortOrder = (url.searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc';
   const groupBy = url.searchParams.get('groupBy') === 'unit' ? 'unit' : 'property';
 
+  // The stage filter takes a pipeline stage key; the worker filters on its
+  // status and stages sharing that status are told apart here
+  const pipeline = await fetchApplicationPipelineFromWorker(workerEnv, siteId);
+  const stage = status ? findPipelineTarget(pipeline, status) : undefined;
+
   const [property, applications] = await Promise.all([
-    fetchPropertyFromWorker(env, siteId, propertyId),
-    fetchPropertyApplicationsFromWorker(env, siteId, propertyId, {
-      status,
+    fetchPropertyFromWorker(workerEnv, siteId, propertyId),
+    fetchPropertyApplicationsFromWorker(workerEnv, siteId, propertyId, {
+      status: stage?.bucket ?? status,
       sortBy,
       sortOrder,
       groupBy,
@@ -50,14 +55,27 @@ export async function loader({ request, params, context }: LoaderFunctionArgs) {
 
   return json({
     property,
-    applications,
+    applications: stage ? filterByStage(applications, pipeline, stage.key, groupBy) : applications,
+    pipeline,
     filters: { status, sortBy, sortOrder },
     groupBy,
   });
 }
 
+function filterByStage(applications: any[], pipeline: ApplicationPipeline, stageKey: string, groupBy: string) {
+  const inStage = (app: any) => resolvePipelineStage(pipeline, app.status, app.pipelineStage).key === stageKey;
+  if (groupBy !== 'unit') return applications.filter(inStage);
+
+  return applications
+    .map((group: any) => {
+      const filtered = group.applications.filter(inStage);
+      return { ...group, applications: filtered, count: filtered.length };
+    })
+    .filter((group: any) => group.count > 0);
+}
+
 export default function PropertyApplicationList() {
-  const { property, applications, filters, groupBy } = useLoaderData<typeof loader>();
+  const { property, applications, pipeline, filters, groupBy } = useLoaderData<typeof loader>();
   const [searchParams, setSearchParams] = useSearchParams();
   const [currentGroupView, setCurrentGroupView] = useViewToggle('application_group_view', 'unit');
 
@@ -206,13 +224,12 @@ export default function PropertyApplicationList() {
                     className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
                   >
                     <option value="">All</option>
-                    <option value="new">New</option>
-                    <option value="documents_pending">Docs Pending</option>
-                    <option value="documents_received">Docs Received</option>
-                    <option value="ai_evaluated">AI Evaluated</option>
-                    <option value="screening">Background Check</option>
-                    <option value="approved">Approved</option>
-                    <option value="rejected">Rejected</option>
+                    {pipeline.stages.map((stage) => (
+                      <option key={stage.key} value={stage.key}>
+                        {stage.label}
+                      </option>
+                    ))}
+                    <option value="rejected">{APPLICATION_STAGE_LABELS.rejected}</option>
                   </select>
                 </div>
 
@@ -283,7 +300,7 @@ export default function PropertyApplicationList() {
             </div>
           ) : groupBy === 'unit' ? (
             <div className="p-6">
-              <UnitGroupedApplicationList groups={applications} propertyId={property.id} />
+              <UnitGroupedApplicationList groups={applications} propertyId={property.id} pipeline={pipeline} />
             </div>
           ) : (
             <div className="overflow-x-auto">
@@ -298,7 +315,7 @@ export default function PropertyApplicationList() {
                 </thead>
                 <tbody className="divide-y divide-gray-100">
                   {visibleApplications.map((app: any) => (
-                    <ApplicationRow key={app.id} application={app} propertyId={property.id} />
+                    <ApplicationRow key={app.id} application={app} propertyId={property.id} pipeline={pipeline} />
                   ))}
                 </tbody>
               </table>
@@ -313,9 +330,11 @@ export default function PropertyApplicationList() {
 function ApplicationRow({
   application,
   propertyId,
+  pipeline,
 }: {
   application: any;
   propertyId: string;
+  pipeline: ApplicationPipeline;
 }) {
   const aiLabelColors: Record<string, string> = {
     A: 'bg-green-100 text-green-800 border-green-200',
@@ -324,16 +343,6 @@ function ApplicationRow({
     D: 'bg-red-100 text-red-800 border-red-200',
   };
 
-  const statusLabels: Record<string, string> = {
-    new: 'New',
-    documents_pending: 'Docs Pending',
-    documents_received: 'Docs Received',
-    ai_evaluated: 'AI Evaluated',
-    screening: 'Background Check',
-    approved: 'Approved',
-    rejected: 'Rejected',
-  };
-
   const statusColors: Record<string, string> = {
     approved: 'bg-green-100 text-green-800 border-green-200',
     rejected: 'bg-red-100 text-red-800 border-red-200',
@@ -366,7 +375,7 @@ function ApplicationRow({
               statusColors[application.status] || 'bg-gray-100 text-gray-700 border-gray-200'
             }`}
           >
-            {statusLabels[application.status] || application.status}
+            {resolvePipelineStage(pipeline, application.status, application.pipelineStage).label}
           </span>
         </div>
       </td>
@@ -1,11 +1,16 @@
 import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link, useSearchParams } from '@remix-run/react';
-import { fetchPropertiesFromWorker, fetchUnitsFromWorker, fetchImagesFromWorker } from '~/lib/worker-client';
-import type { Property, Unit, PropertyImage } from '~/shared/types';
+import {
+  fetchPropertiesPageFromWorker,
+  fetchUnitsForPropertiesFromWorker,
+  fetchImagesForEntitiesFromWorker,
+} from '~/lib/worker-client';
+import type { Property, Unit, PropertyImage, CursorPagination } from '~/shared/types';
 import { getSiteId } from '~/lib/site.server';
 import { SortableTableHeader, NonSortableTableHeader } from '~/components/SortableTableHeader';
-import { useMemo } from 'react';
+import { ListPagination, ListSearchInput } from '~/components/ListPagination';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export const meta: MetaFunction = () => {
   return [{ title: 'Properties - LeaseLab.io' }];
@@ -22,46 +27,59 @@ type PropertyWithStats = Property & {
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
-  const properties = await fetchPropertiesFromWorker(env, siteId);
+  const url = new URL(request.url);
+  const sortBy = url.searchParams.get('sortBy') || 'name';
+  const sortOrder = (url.searchParams.get('sortOrder') || 'asc') as 'asc' | 'desc';
+  const search = url.searchParams.get('search') || undefined;
+  const cursor = url.searchParams.get('cursor') || undefined;
+
+  const page = await fetchPropertiesPageFromWorker(workerEnv, siteId, { search, sortBy, sortOrder, cursor });
   const baseUrl = context.cloudflare.env.R2_PUBLIC_URL || '';
 
-  // Fetch units and images for each property
-  const propertiesWithStats: PropertyWithStats[] = await Promise.all(
-    properties.map(async (property) => {
-      const units = await fetchUnitsFromWorker(env, siteId, property.id);
-      const rawImages = await fetchImagesFromWorker(env, siteId, 'property', property.id);
+  // Units and images for the whole page in one call each
+  const propertyIds = page.items.map((property) => property.id);
+  const [allUnits, allImages] = await Promise.all([
+    fetchUnitsForPropertiesFromWorker(workerEnv, siteId, propertyIds),
+    fetchImagesForEntitiesFromWorker(workerEnv, siteId, 'property', propertyIds),
+  ]);
 
-      const images = rawImages.map(img => ({
+  const propertiesWithStats: PropertyWithStats[] = page.items.map((property) => {
+    const units: Unit[] = allUnits.filter(u => u.propertyId === property.id);
+    const images = allImages
+      .filter(img => img.entityId === property.id)
+      .map(img => ({
         ...img,
         url: baseUrl ? `${baseUrl}/${img.r2Key}` : `/api/images/${img.id}/file`,
       }));
 
-      const occupiedCount = units.filter(u => u.status === 'occupied').length;
-      const totalRent = units.reduce((sum, u) => sum + u.rentAmount, 0);
+    const occupiedCount = units.filter(u => u.status === 'occupied').length;
+    const totalRent = units.reduce((sum, u) => sum + u.rentAmount, 0);
 
-      return {
-        ...property,
-        units,
-        images,
-        unitCount: units.length,
-        occupiedCount,
-        vacantCount: units.filter(u => u.status === 'available').length,
-        totalRent,
-      };
-    })
-  );
+    return {
+      ...property,
+      units,
+      images,
+      unitCount: units.length,
+      occupiedCount,
+      vacantCount: units.filter(u => u.status === 'available').length,
+      totalRent,
+    };
+  });
 
-  return json({ properties: propertiesWithStats });
+  return json({ properties: propertiesWithStats, pagination: page.pagination });
 }
 
 export default function PropertiesIndex() {
-  const { properties } = useLoaderData<typeof loader>();
+  const { properties, pagination } = useLoaderData<typeof loader>();
   const [searchParams, setSearchParams] = useSearchParams();
   const view = searchParams.get('view') || 'list'; // Default to list view
 
   const toggleView = (newView: 'list' | 'cards') => {
-    setSearchParams({ view: newView });
+    const params = new URLSearchParams(searchParams);
+    params.set('view', newView);
+    setSearchParams(params);
   };
 
   return (
@@ -69,11 +87,14 @@ export default function PropertiesIndex() {
       <div className="flex items-center justify-between mb-6">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Properties</h1>
-          <p className="text-sm text-gray-500 mt-1">
-            {properties.length} properties · {properties.reduce((sum, p) => sum + p.unitCount, 0)} total units
-          </p>
+          {!pagination.hasMore && !searchParams.get('cursor') && (
+            <p className="text-sm text-gray-500 mt-1">
+              {properties.length} properties · {properties.reduce((sum, p) => sum + p.unitCount, 0)} total units
+            </p>
+          )}
         </div>
         <div className="flex items-center gap-3">
+          <ListSearchInput placeholder="Search name, address or city" />
           {/* View Toggle */}
           <div className="flex items-center bg-gray-100 rounded-lg p-1">
             <button
@@ -112,72 +133,20 @@ export default function PropertiesIndex() {
 
       {properties.length === 0 ? (
         <div className="bg-white rounded-xl shadow-sm p-8 text-center text-gray-500">
-          No properties found. Add your first property to get started.
+          {searchParams.get('search')
+            ? 'No properties match your search.'
+            : 'No properties found. Add your first property to get started.'}
         </div>
       ) : view === 'list' ? (
-        <ListView properties={properties} />
+        <ListView properties={properties} pagination={pagination} />
       ) : (
-        <CardView properties={properties} />
+        <CardView properties={properties} pagination={pagination} />
       )}
     </div>
   );
 }
 
-function ListView({ properties }: { properties: PropertyWithStats[] }) {
-  const [searchParams] = useSearchParams();
-
-  const sortedProperties = useMemo(() => {
-    const sortBy = searchParams.get('sortBy') || 'name';
-    const sortOrder = searchParams.get('sortOrder') || 'asc';
-
-    const sorted = [...properties].sort((a, b) => {
-      let aVal: any;
-      let bVal: any;
-
-      switch (sortBy) {
-        case 'name':
-          aVal = a.name.toLowerCase();
-          bVal = b.name.toLowerCase();
-          break;
-        case 'city':
-          aVal = a.city?.toLowerCase() || '';
-          bVal = b.city?.toLowerCase() || '';
-          break;
-        case 'propertyType':
-          aVal = a.propertyType?.toLowerCase() || '';
-          bVal = b.propertyType?.toLowerCase() || '';
-          break;
-        case 'unitCount':
-          aVal = a.unitCount;
-          bVal = b.unitCount;
-          break;
-        case 'occupiedCount':
-          aVal = a.occupiedCount;
-          bVal = b.occupiedCount;
-          break;
-        case 'totalRent':
-          aVal = a.totalRent;
-          bVal = b.totalRent;
-          break;
-        case 'isActive':
-        case 'status':
-          // Sort active properties first (true > false)
-          aVal = a.isActive ? 1 : 0;
-          bVal = b.isActive ? 1 : 0;
-          break;
-        default:
-          aVal = a.name.toLowerCase();
-          bVal = b.name.toLowerCase();
-      }
-
-      if (aVal < bVal) return sortOrder === 'asc' ? -1 : 1;
-      if (aVal > bVal) return sortOrder === 'asc' ? 1 : -1;
-      return 0;
-    });
-
-    return sorted;
-  }, [properties, searchParams]);
-
+function ListView({ properties, pagination }: { properties: PropertyWithStats[]; pagination: CursorPagination }) {
   return (
     <div className="bg-white rounded-xl shadow-sm overflow-hidden">
       <table className="min-w-full divide-y divide-gray-200">
@@ -186,14 +155,14 @@ function ListView({ properties }: { properties: PropertyWithStats[] }) {
             <SortableTableHeader column="name" label="Property" />
             <SortableTableHeader column="city" label="Location" />
             <SortableTableHeader column="propertyType" label="Type" />
-            <SortableTableHeader column="unitCount" label="Units" defaultSortOrder="desc" />
-            <SortableTableHeader column="occupiedCount" label="Occupancy" defaultSortOrder="desc" />
-            <SortableTableHeader column="isActive" label="Status" defaultSortOrder="desc" />
+            <NonSortableTableHeader label="Units" />
+            <NonSortableTableHeader label="Occupancy" />
+            <NonSortableTableHeader label="Status" />
             <NonSortableTableHeader label="Actions" className="text-right" />
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
-          {sortedProperties.map((property) => (
+          {properties.map((property) => (
             <tr key={property.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => window.location.href = `/admin/properties/${property.id}`}>
               <td className="px-6 py-4 whitespace-nowrap">
                 <div className="flex items-center">
@@ -263,63 +232,69 @@ function ListView({ properties }: { properties: PropertyWithStats[] }) {
           ))}
         </tbody>
       </table>
+      <ListPagination pagination={pagination} itemCount={properties.length} noun="properties" />
     </div>
   );
 }
 
-function CardView({ properties }: { properties: PropertyWithStats[] }) {
+function CardView({ properties, pagination }: { properties: PropertyWithStats[]; pagination: CursorPagination }) {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {properties.map((property) => (
-        <Link
-          key={property.id}
-          to={`/admin/properties/${property.id}`}
-          className="bg-white rounded-xl shadow-sm overflow-hidden hover:shadow-md transition-shadow"
-        >
-          <div className="h-40 bg-gray-200 flex items-center justify-center relative">
-            {property.images.length > 0 ? (
-              <img
-                src={property.images.find(img => img.isCover)?.url || property.images[0]?.url}
-                alt={property.name}
-                className="w-full h-full object-cover"
-              />
-            ) : (
-              <span className="text-4xl">🏠</span>
-            )}
-            <div className="absolute top-2 right-2">
-              <PropertyTypeBadge type={property.propertyType} />
-            </div>
-          </div>
-          <div className="p-4">
-            <div className="flex items-center justify-between mb-2">
-              <h3 className="font-semibold text-gray-900 truncate">{property.name}</h3>
-              <ActiveBadge isActive={property.isActive} />
-            </div>
-            <p className="text-sm text-gray-500 mb-3 truncate">
-              {property.address}, {property.city}, {property.province}
-            </p>
-            <div className="flex items-center justify-between text-sm">
-              <div className="flex items-center gap-3">
-                <span className="text-gray-600">
-                  <span className="font-medium">{property.unitCount}</span> units
-                </span>
-                <span className="text-gray-400">|</span>
-                <span className={property.vacantCount > 0 ? 'text-green-600' : 'text-gray-600'}>
-                  <span className="font-medium">{property.vacantCount}</span> vacant
-                </span>
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {properties.map((property) => (
+          <Link
+            key={property.id}
+            to={`/admin/properties/${property.id}`}
+            className="bg-white rounded-xl shadow-sm overflow-hidden hover:shadow-md transition-shadow"
+          >
+            <div className="h-40 bg-gray-200 flex items-center justify-center relative">
+              {property.images.length > 0 ? (
+                <img
+                  src={property.images.find(img => img.isCover)?.url || property.images[0]?.url}
+                  alt={property.name}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <span className="text-4xl">🏠</span>
+              )}
+              <div className="absolute top-2 right-2">
+                <PropertyTypeBadge type={property.propertyType} />
               </div>
             </div>
-            {property.unitCount > 0 && (
-              <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
-                <div
-                  className="bg-indigo-600 h-1.5 rounded-full"
-                  style={{ width: `${(property.occupiedCount / property.unitCount) * 100}%` }}
-                />
+            <div className="p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-semibold text-gray-900 truncate">{property.name}</h3>
+                <ActiveBadge isActive={property.isActive} />
               </div>
-            )}
-          </div>
-        </Link>
-      ))}
+              <p className="text-sm text-gray-500 mb-3 truncate">
+                {property.address}, {property.city}, {property.province}
+              </p>
+              <div className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-3">
+                  <span className="text-gray-600">
+                    <span className="font-medium">{property.unitCount}</span> units
+                  </span>
+                  <span className="text-gray-400">|</span>
+                  <span className={property.vacantCount > 0 ? 'text-green-600' : 'text-gray-600'}>
+                    <span className="font-medium">{property.vacantCount}</span> vacant
+                  </span>
+                </div>
+              </div>
+              {property.unitCount > 0 && (
+                <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
+                  <div
+                    className="bg-indigo-600 h-1.5 rounded-full"
+                    style={{ width: `${(property.occupiedCount / property.unitCount) * 100}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          </Link>
+        ))}
+      </div>
+      <div className="mt-6">
+        <ListPagination pagination={pagination} itemCount={properties.length} noun="properties" />
+      </div>
     </div>
   );
 }
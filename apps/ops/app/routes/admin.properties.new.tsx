@@ -4,6 +4,7 @@ import { Form, Link, useNavigation, useActionData } from '@remix-run/react';
 import { savePropertyToWorker } from '~/lib/worker-client';
 import { CreatePropertySchema } from '~/shared/config';
 import { getSiteId } from '~/lib/site.server';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export const meta: MetaFunction = () => {
   return [{ title: 'New Property - LeaseLab.io' }];
@@ -11,6 +12,7 @@ export const meta: MetaFunction = () => {
 
 export async function action({ request, context }: ActionFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const formData = await request.formData();
 
@@ -35,7 +37,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
     return json({ error: 'Validation failed', details: parsed.error.flatten() }, { status: 400 });
   }
 
-  const property = await savePropertyToWorker(env, siteId, parsed.data);
+  const property = await savePropertyToWorker(workerEnv, siteId, parsed.data);
   return redirect(`/admin/properties/${property.id}`);
 }
 
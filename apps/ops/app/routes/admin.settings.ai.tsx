@@ -1,7 +1,72 @@
-import { useFetcher } from '@remix-run/react';
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { json, redirect } from '@remix-run/cloudflare';
+import { Link, useActionData, useFetcher, useLoaderData } from '@remix-run/react';
 import { useEffect } from 'react';
+import type { AIScoringRubric } from '~/shared/types';
+import { validateAIScoringRubric } from '~/shared/utils';
+import { fetchAIRubricFromWorker, saveAIRubricToWorker } from '~/lib/worker-client';
+import { getSiteId } from '~/lib/site.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
+import { canEdit } from '~/lib/permissions';
+import { AIRubricEditor } from '~/components/ai';
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const siteId = getSiteId(request);
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+
+  // ?version=N shows the rubric an earlier evaluation was scored with
+  const versionParam = new URL(request.url).searchParams.get('version');
+  const version = versionParam !== null ? Number(versionParam) : undefined;
+
+  const current = await fetchAIRubricFromWorker(workerEnv, siteId);
+  if (version === undefined || version === current.version) {
+    return json({ current, viewing: null });
+  }
+
+  const viewing = Number.isInteger(version)
+    ? await fetchAIRubricFromWorker(workerEnv, siteId, version).catch(() => null)
+    : null;
+  if (!viewing) {
+    throw new Response('Rubric version not found', { status: 404 });
+  }
+  return json({ current, viewing });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const siteId = getSiteId(request);
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const secret = context.cloudflare.env.SESSION_SECRET as string;
+  const user = await requireAuth(request, workerEnv, secret, siteId);
+  if (!canEdit(user)) {
+    return json({ errors: ['Insufficient permissions to edit the scoring rubric'] }, { status: 403 });
+  }
+
+  const formData = await request.formData();
+  let rubric: AIScoringRubric;
+  try {
+    rubric = JSON.parse(formData.get('rubric') as string);
+  } catch {
+    return json({ errors: ['Invalid form data'] }, { status: 400 });
+  }
+
+  // Same rules the worker enforces, checked here so every problem can be listed
+  const errors = validateAIScoringRubric(rubric);
+  if (errors.length > 0) {
+    return json({ errors }, { status: 400 });
+  }
+
+  try {
+    await saveAIRubricToWorker(workerEnv, siteId, user.id, rubric);
+  } catch (error) {
+    return json({ errors: [error instanceof Error ? error.message : 'Failed to save rubric'] }, { status: 500 });
+  }
+
+  return redirect('/admin/settings/ai');
+}
 
 export default function SettingsAiPage() {
+  const { current, viewing } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
   const usageFetcher = useFetcher<any>();
 
   useEffect(() => {
@@ -119,8 +184,38 @@ export default function SettingsAiPage() {
             </div>
           </div>
         </div>
+
+        <div className="mt-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-1">Scoring Rubric</h2>
+          <p className="text-sm text-gray-600 mb-2">
+            How the AI evaluator turns what it finds in an applicant's documents into a score, grade and
+            recommendation. Scores start at 100 and each matching rule deducts points. Saving creates a new version,
+            and every evaluation records the version it was scored with.
+          </p>
+          <p className="text-sm text-gray-500 mb-6">
+            {viewing ? (
+              <>
+                Viewing {viewing.version === 0 ? 'the built-in rubric' : `version ${viewing.version}`}
+                {viewing.createdAt ? `, saved ${new Date(viewing.createdAt).toLocaleString()}` : ''}.{' '}
+                <Link to="/admin/settings/ai" className="text-indigo-600 hover:text-indigo-700 underline">
+                  Edit the current rubric
+                </Link>
+              </>
+            ) : current.version === 0 ? (
+              'Using the built-in rubric.'
+            ) : (
+              `Version ${current.version}${current.createdAt ? `, last saved ${new Date(current.createdAt).toLocaleString()}` : ''}.`
+            )}
+          </p>
+
+          {viewing ? (
+            <AIRubricEditor key={`view-${viewing.version}`} rubric={viewing.rubric} readOnly />
+          ) : (
+            // Remount on save so the editor picks up the saved rubric
+            <AIRubricEditor key={current.version} rubric={current.rubric} errors={actionData?.errors} />
+          )}
+        </div>
       </div>
     </div>
   );
 }
-
@@ -0,0 +1,76 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { json, redirect } from '@remix-run/cloudflare';
+import { useActionData, useLoaderData } from '@remix-run/react';
+import type { IntakeFormSchema } from '~/shared/types';
+import { validateIntakeFormSchema } from '~/shared/utils';
+import { fetchIntakeFormFromWorker, saveIntakeFormToWorker } from '~/lib/worker-client';
+import { getSiteId } from '~/lib/site.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
+import { canEdit } from '~/lib/permissions';
+import { IntakeFormEditor } from '~/components/intake-form';
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const siteId = getSiteId(request);
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const intakeForm = await fetchIntakeFormFromWorker(workerEnv, siteId);
+  return json({ intakeForm });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const siteId = getSiteId(request);
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const secret = context.cloudflare.env.SESSION_SECRET as string;
+  const user = await requireAuth(request, workerEnv, secret, siteId);
+  if (!canEdit(user)) {
+    return json({ errors: ['Insufficient permissions to edit the intake form'] }, { status: 403 });
+  }
+
+  const formData = await request.formData();
+  let schema: IntakeFormSchema;
+  try {
+    schema = JSON.parse(formData.get('schema') as string);
+  } catch {
+    return json({ errors: ['Invalid form data'] }, { status: 400 });
+  }
+
+  // Same rules the worker enforces, checked here so every problem can be listed
+  const errors = Array.isArray(schema?.sections) ? validateIntakeFormSchema(schema) : ['Invalid form data'];
+  if (errors.length > 0) {
+    return json({ errors }, { status: 400 });
+  }
+
+  try {
+    await saveIntakeFormToWorker(workerEnv, siteId, user.id, schema);
+  } catch (error) {
+    return json({ errors: [error instanceof Error ? error.message : 'Failed to save intake form'] }, { status: 500 });
+  }
+
+  return redirect('/admin/settings/intake-form');
+}
+
+export default function SettingsIntakeFormPage() {
+  const { intakeForm } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+
+  return (
+    <div className="p-8">
+      <div className="max-w-4xl">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Application Form</h1>
+        <p className="text-gray-600 mb-2">
+          Sections and questions applicants see on the storefront. Name, email and phone are always required; every
+          other question can be reworded, made optional, moved or removed.
+        </p>
+        <p className="text-sm text-gray-500 mb-8">
+          {intakeForm.version === 0
+            ? 'Using the default form. Saving creates version 1.'
+            : `Version ${intakeForm.version}${
+                intakeForm.createdAt ? `, saved ${new Date(intakeForm.createdAt).toLocaleString()}` : ''
+              }. Saving creates a new version; existing applications keep the answers they submitted.`}
+        </p>
+
+        {/* Remount on save so the editor picks up the new version */}
+        <IntakeFormEditor key={intakeForm.version} schema={intakeForm.schema} errors={actionData?.errors} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { json, redirect } from '@remix-run/cloudflare';
+import { useActionData, useLoaderData } from '@remix-run/react';
+import type { PipelineStage } from '~/shared/types';
+import { validateApplicationPipeline } from '~/shared/utils';
+import { fetchApplicationPipelineFromWorker, saveApplicationPipelineToWorker } from '~/lib/worker-client';
+import { getSiteId } from '~/lib/site.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
+import { canEdit } from '~/lib/permissions';
+import { PipelineEditor } from '~/components/pipeline';
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const siteId = getSiteId(request);
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const pipeline = await fetchApplicationPipelineFromWorker(workerEnv, siteId);
+  return json({ pipeline });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const siteId = getSiteId(request);
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const secret = context.cloudflare.env.SESSION_SECRET as string;
+  const user = await requireAuth(request, workerEnv, secret, siteId);
+  if (!canEdit(user)) {
+    return json({ errors: ['Insufficient permissions to edit the pipeline'] }, { status: 403 });
+  }
+
+  const formData = await request.formData();
+  let stages: PipelineStage[];
+  try {
+    stages = JSON.parse(formData.get('stages') as string);
+  } catch {
+    return json({ errors: ['Invalid form data'] }, { status: 400 });
+  }
+
+  // Same rules the worker enforces, checked here so every problem can be listed
+  const errors = Array.isArray(stages) ? validateApplicationPipeline({ stages }) : ['Invalid form data'];
+  if (errors.length > 0) {
+    return json({ errors }, { status: 400 });
+  }
+
+  try {
+    await saveApplicationPipelineToWorker(workerEnv, siteId, user.id, stages);
+  } catch (error) {
+    return json({ errors: [error instanceof Error ? error.message : 'Failed to save pipeline'] }, { status: 500 });
+  }
+
+  return redirect('/admin/settings/pipeline');
+}
+
+export default function SettingsPipelinePage() {
+  const { pipeline } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+
+  return (
+    <div className="p-8">
+      <div className="max-w-5xl">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Application Pipeline</h1>
+        <p className="text-gray-600 mb-2">
+          The stages applications move through, in order. Each stage sits in a status, so reports and the storefront
+          keep working; add stages such as "Showing Scheduled" within a status, or leave a status out (for example AI
+          Evaluated) to skip it. Moving an application past a stage needs that stage's required checklist items.
+        </p>
+        <p className="text-sm text-gray-500 mb-8">
+          {pipeline.updatedAt
+            ? `Last saved ${new Date(pipeline.updatedAt).toLocaleString()}. Applications in a removed stage move to the first stage of their status.`
+            : 'Using the default pipeline, one stage per status.'}
+        </p>
+
+        {/* Remount on save so the editor picks up the saved stages */}
+        <PipelineEditor key={pipeline.updatedAt ?? 'default'} stages={pipeline.stages} errors={actionData?.errors} />
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { useLoaderData, useActionData, Form } from '@remix-run/react';
-import { requireAuth, getOptionalUser, hashPassword, verifyPassword } from '~/lib/auth.server';
+import { requireAuth, getOptionalUser, hashPassword, verifyPassword, requireWorkerEnv } from '~/lib/auth.server';
 import {
   fetchUserByEmailFromWorker,
   updateUserPasswordToWorker,
@@ -13,13 +13,11 @@ import {
 } from '~/lib/worker-client';
 import { useState } from 'react';
 import { getSiteId } from '~/lib/site.server';
+import { USER_ROLE_LABELS } from '~/shared/utils';
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
     const secret = context.cloudflare.env.SESSION_SECRET as string;
-    const workerEnv = {
-        WORKER_URL: context.cloudflare.env.WORKER_URL,
-        WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-    };
+    const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
     const siteId = getSiteId(request);
     // Settings should be accessible to any logged-in user regardless of hostname site context
     const user = await getOptionalUser(request, workerEnv, secret, siteId);
@@ -35,10 +33,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 
 export async function action({ request, context }: ActionFunctionArgs) {
     const secret = context.cloudflare.env.SESSION_SECRET as string;
-    const workerEnv = {
-        WORKER_URL: context.cloudflare.env.WORKER_URL,
-        WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-    };
+    const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
     const siteId = getSiteId(request);
     const user = await requireAuth(request, workerEnv, secret, siteId);
     const formData = await request.formData();
@@ -244,7 +239,7 @@ export default function SettingsPage() {
 
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
-                            <p className="text-gray-900 capitalize px-4 py-2 bg-gray-50 rounded-lg">{user.role}</p>
+                            <p className="text-gray-900 px-4 py-2 bg-gray-50 rounded-lg">{USER_ROLE_LABELS[user.role] || user.role}</p>
                         </div>
 
                         <div className="pt-2">
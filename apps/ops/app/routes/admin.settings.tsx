@@ -33,6 +33,12 @@ export default function SettingsLayout() {
           <NavLink to="/admin/settings/storefront-theme" className={tabClassName}>
             Storefront Theme
           </NavLink>
+          <NavLink to="/admin/settings/intake-form" className={tabClassName}>
+            Application Form
+          </NavLink>
+          <NavLink to="/admin/settings/pipeline" className={tabClassName}>
+            Pipeline
+          </NavLink>
           <NavLink to="/admin/settings/ai" className={tabClassName}>
             AI
           </NavLink>
@@ -1,11 +1,28 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json, redirect } from '@remix-run/cloudflare';
-import { useLoaderData, useRouteLoaderData, Link, useSubmit, Form } from '@remix-run/react';
-import { fetchTenantsFromWorker, fetchWorkOrdersFromWorker, updateTenantToWorker, deleteTenantToWorker } from '~/lib/worker-client';
-import { formatCurrency } from '~/shared/utils';
+import { useLoaderData, useRouteLoaderData, useActionData, useSearchParams, Link, useSubmit, Form } from '@remix-run/react';
+import { useState } from 'react';
+import type { NoticeType, NoticeServiceMethod, TenantNotice, AuditLogEntry } from '~/shared/types';
+import {
+  fetchTenantsFromWorker,
+  fetchWorkOrdersFromWorker,
+  updateTenantToWorker,
+  deleteTenantToWorker,
+  fetchTenantNoticesFromWorker,
+  createTenantNoticeToWorker,
+  updateNoticeStatusToWorker,
+  fetchCommunicationsFromWorker,
+  sendCommunicationToWorker,
+  retryCommunicationToWorker,
+  fetchAuditLogFromWorker,
+} from '~/lib/worker-client';
+import { formatCurrency, calculateNoticeEffectiveDate, NOTICE_TYPE_LABELS } from '~/shared/utils';
+import { CreateNoticeSchema, ServeNoticeSchema } from '~/shared/config';
 import { getSiteId } from '~/lib/site.server';
-import { requireAuth } from '~/lib/auth.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 import { canDelete } from '~/lib/permissions';
+import { CommunicationHistory } from '~/components/communications';
+import { ActivityPanel } from '~/components/audit';
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
   if (!data) return [{ title: 'Tenant Not Found' }];
@@ -14,10 +31,7 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 
 export async function loader({ params, request, context }: LoaderFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const tenantId = params.id;
 
   if (!tenantId) {
@@ -32,19 +46,23 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
     throw new Response('Tenant not found', { status: 404 });
   }
 
-  // Fetch work orders for this tenant
-  const allWorkOrders = await fetchWorkOrdersFromWorker(workerEnv, siteId);
+  const user = await requireAuth(request, workerEnv, context.cloudflare.env.SESSION_SECRET as string, siteId);
+
+  // Fetch work orders, notices, email history and activity for this tenant
+  const [allWorkOrders, notices, communications, activity] = await Promise.all([
+    fetchWorkOrdersFromWorker(workerEnv, siteId),
+    fetchTenantNoticesFromWorker(workerEnv, siteId, tenantId),
+    fetchCommunicationsFromWorker(workerEnv, siteId, 'tenant', tenantId),
+    fetchAuditLogFromWorker(workerEnv, siteId, { entityType: 'tenant', entityId: tenantId }).catch((): AuditLogEntry[] => []),
+  ]);
   const workOrders = allWorkOrders.filter(wo => wo.tenantId === tenantId);
 
-  return json({ tenant, workOrders });
+  return json({ tenant, workOrders, notices, communications, activity });
 }
 
 export async function action({ params, request, context }: ActionFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const secret = context.cloudflare.env.SESSION_SECRET as string;
   const tenantId = params.id;
 
@@ -67,16 +85,106 @@ export async function action({ params, request, context }: ActionFunctionArgs) {
   }
 
   if (action === 'updateStatus') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
     const status = formData.get('status') as string;
     await updateTenantToWorker(workerEnv, siteId, tenantId, { status });
     return json({ success: true });
   }
 
+  if (action === 'createNotice') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    const optionalNumber = (key: string) => (formData.get(key) ? Number(formData.get(key)) : undefined);
+    const optionalString = (key: string) => (formData.get(key) as string) || undefined;
+
+    const parsed = CreateNoticeSchema.safeParse({
+      type: formData.get('type'),
+      details: {
+        currentRent: optionalNumber('currentRent'),
+        newRent: optionalNumber('newRent'),
+        arrearsAmount: optionalNumber('arrearsAmount'),
+        arrearsPeriodStart: optionalString('arrearsPeriodStart'),
+        arrearsPeriodEnd: optionalString('arrearsPeriodEnd'),
+        agreedTerminationDate: optionalString('agreedTerminationDate'),
+        tenantSignedOn: optionalString('tenantSignedOn'),
+        landlordSignedOn: optionalString('landlordSignedOn'),
+      },
+      notes: optionalString('notes'),
+    });
+
+    if (!parsed.success) {
+      return json({ noticeError: parsed.error.issues.map((issue) => issue.message).join(', ') }, { status: 400 });
+    }
+
+    await createTenantNoticeToWorker(workerEnv, siteId, user.id, tenantId, parsed.data);
+    return json({ success: true });
+  }
+
+  if (action === 'serveNotice') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    const parsed = ServeNoticeSchema.safeParse({
+      servedOn: formData.get('servedOn'),
+      serviceMethod: formData.get('serviceMethod'),
+    });
+
+    if (!parsed.success) {
+      return json({ noticeError: parsed.error.issues.map((issue) => issue.message).join(', ') }, { status: 400 });
+    }
+
+    await updateNoticeStatusToWorker(workerEnv, siteId, user.id, formData.get('noticeId') as string, 'serve', parsed.data);
+    return json({ success: true });
+  }
+
+  if (action === 'acknowledgeNoticeReminder') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    await updateNoticeStatusToWorker(workerEnv, siteId, user.id, formData.get('noticeId') as string, 'acknowledge-reminder');
+    return json({ success: true });
+  }
+
+  if (action === 'voidNotice' || action === 'completeNotice') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    const noticeId = formData.get('noticeId') as string;
+    if (action === 'voidNotice') {
+      await updateNoticeStatusToWorker(workerEnv, siteId, user.id, noticeId, 'void', {
+        reason: (formData.get('reason') as string) || undefined,
+      });
+    } else {
+      await updateNoticeStatusToWorker(workerEnv, siteId, user.id, noticeId, 'complete');
+    }
+    return json({ success: true });
+  }
+
+  if (action === 'sendEmail') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    try {
+      await sendCommunicationToWorker(workerEnv, siteId, user.id, 'tenant', tenantId, {
+        templateKey: (formData.get('templateKey') as string) || undefined,
+        subject: (formData.get('subject') as string) || undefined,
+        body: (formData.get('body') as string) || undefined,
+        idempotencyKey: (formData.get('idempotencyKey') as string) || undefined,
+      });
+    } catch (error) {
+      return json({ emailError: error instanceof Error ? error.message : 'Failed to send email' }, { status: 400 });
+    }
+    return json({ success: true });
+  }
+
+  if (action === 'retryEmail') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    await retryCommunicationToWorker(workerEnv, siteId, user.id, formData.get('communicationId') as string);
+    return json({ success: true });
+  }
+
   return json({ success: false }, { status: 400 });
 }
 
 export default function TenantDetail() {
-  const { tenant, workOrders } = useLoaderData<typeof loader>();
+  const { tenant, workOrders, notices, communications, activity } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const noticeError = actionData && 'noticeError' in actionData ? actionData.noticeError : undefined;
+  const emailError = actionData && 'emailError' in actionData ? actionData.emailError : undefined;
+  const [searchParams] = useSearchParams();
+  const tab = searchParams.get('tab');
+  const activeTab = tab === 'notices' || tab === 'communications' || tab === 'activity' ? tab : 'overview';
   const adminData = useRouteLoaderData<typeof import('./admin').loader>('routes/admin');
   const user = adminData?.user || null;
   const submit = useSubmit();
@@ -106,223 +214,553 @@ export default function TenantDetail() {
         <p className="text-sm text-gray-500 mt-1">Tenant ID: {tenant.id}</p>
       </div>
 
-      {/* Status Update */}
-      <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
-        <h2 className="text-lg font-semibold text-gray-900 mb-4">Tenant Status</h2>
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-gray-700">Current Status:</span>
-          <StatusBadge status={tenant.status} />
-        </div>
-        <div className="mt-4">
-          <label className="text-sm font-medium text-gray-700 block mb-2">Update Status:</label>
-          <select
-            onChange={(e) => handleStatusChange(e.target.value)}
-            value={tenant.status}
-            className="block w-full max-w-xs rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+      {/* Tabs */}
+      <div className="border-b border-gray-200 mb-6">
+        <nav className="flex gap-6">
+          <Link
+            to="?tab=overview"
+            className={`pb-3 text-sm font-medium border-b-2 ${
+              activeTab === 'overview'
+                ? 'border-indigo-600 text-indigo-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
           >
-            <option value="moving_in">Moving In</option>
-            <option value="active">Active</option>
-            <option value="lease_up">Lease Up</option>
-            <option value="renewing">Renewing</option>
-            <option value="moving_out">Moving Out</option>
-            <option value="pending_n11">Pending N11</option>
-            <option value="terminated">Terminated</option>
-            <option value="inactive">Inactive</option>
-            <option value="evicted">Evicted</option>
-          </select>
-        </div>
+            Overview
+          </Link>
+          <Link
+            to="?tab=notices"
+            className={`pb-3 text-sm font-medium border-b-2 ${
+              activeTab === 'notices'
+                ? 'border-indigo-600 text-indigo-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            Notices
+            {notices.filter((n) => n.status === 'served').length > 0 && (
+              <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-purple-100 text-purple-700">
+                {notices.filter((n) => n.status === 'served').length}
+              </span>
+            )}
+          </Link>
+          <Link
+            to="?tab=communications"
+            className={`pb-3 text-sm font-medium border-b-2 ${
+              activeTab === 'communications'
+                ? 'border-indigo-600 text-indigo-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            Communications
+          </Link>
+          <Link
+            to="?tab=activity"
+            className={`pb-3 text-sm font-medium border-b-2 ${
+              activeTab === 'activity'
+                ? 'border-indigo-600 text-indigo-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            Activity
+          </Link>
+        </nav>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Contact Information */}
-        <div className="bg-white rounded-xl shadow-sm p-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">Contact Information</h2>
-          <dl className="space-y-4">
-            <div>
-              <dt className="text-sm font-medium text-gray-500">Email</dt>
-              <dd className="text-sm text-gray-900 mt-1">
-                <a href={`mailto:${tenant.email}`} className="text-indigo-600 hover:text-indigo-700">
-                  {tenant.email}
-                </a>
-              </dd>
+      {activeTab === 'notices' && (
+        <NoticesPanel
+          notices={notices}
+          leaseStartDate={tenant.currentLease?.startDate}
+          error={noticeError}
+        />
+      )}
+
+      {activeTab === 'communications' && (
+        <CommunicationHistory communications={communications} entityType="tenant" error={emailError} />
+      )}
+
+      {activeTab === 'activity' && <ActivityPanel entries={activity} />}
+
+      {activeTab === 'overview' && (
+        <>
+          {/* Status Update */}
+          <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Tenant Status</h2>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-700">Current Status:</span>
+              <StatusBadge status={tenant.status} />
             </div>
-            <div>
-              <dt className="text-sm font-medium text-gray-500">Phone</dt>
-              <dd className="text-sm text-gray-900 mt-1">
-                <a href={`tel:${tenant.phone}`} className="text-indigo-600 hover:text-indigo-700">
-                  {tenant.phone}
-                </a>
-              </dd>
+            <div className="mt-4">
+              <label className="text-sm font-medium text-gray-700 block mb-2">Update Status:</label>
+              <select
+                onChange={(e) => handleStatusChange(e.target.value)}
+                value={tenant.status}
+                className="block w-full max-w-xs rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="moving_in">Moving In</option>
+                <option value="active">Active</option>
+                <option value="lease_up">Lease Up</option>
+                <option value="renewing">Renewing</option>
+                <option value="moving_out">Moving Out</option>
+                <option value="pending_n11">Pending N11</option>
+                <option value="terminated">Terminated</option>
+                <option value="inactive">Inactive</option>
+                <option value="evicted">Evicted</option>
+              </select>
             </div>
-            {tenant.emergencyContact && (
-              <>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Contact Information */}
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Contact Information</h2>
+              <dl className="space-y-4">
                 <div>
-                  <dt className="text-sm font-medium text-gray-500">Emergency Contact</dt>
-                  <dd className="text-sm text-gray-900 mt-1">{tenant.emergencyContact}</dd>
+                  <dt className="text-sm font-medium text-gray-500">Email</dt>
+                  <dd className="text-sm text-gray-900 mt-1">
+                    <a href={`mailto:${tenant.email}`} className="text-indigo-600 hover:text-indigo-700">
+                      {tenant.email}
+                    </a>
+                  </dd>
                 </div>
                 <div>
-                  <dt className="text-sm font-medium text-gray-500">Emergency Phone</dt>
+                  <dt className="text-sm font-medium text-gray-500">Phone</dt>
                   <dd className="text-sm text-gray-900 mt-1">
-                    <a href={`tel:${tenant.emergencyPhone}`} className="text-indigo-600 hover:text-indigo-700">
-                      {tenant.emergencyPhone}
+                    <a href={`tel:${tenant.phone}`} className="text-indigo-600 hover:text-indigo-700">
+                      {tenant.phone}
                     </a>
                   </dd>
                 </div>
-              </>
-            )}
-          </dl>
-        </div>
+                {tenant.emergencyContact && (
+                  <>
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500">Emergency Contact</dt>
+                      <dd className="text-sm text-gray-900 mt-1">{tenant.emergencyContact}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500">Emergency Phone</dt>
+                      <dd className="text-sm text-gray-900 mt-1">
+                        <a href={`tel:${tenant.emergencyPhone}`} className="text-indigo-600 hover:text-indigo-700">
+                          {tenant.emergencyPhone}
+                        </a>
+                      </dd>
+                    </div>
+                  </>
+                )}
+              </dl>
+            </div>
 
-        {/* Property & Unit Information */}
-        {tenant.property && (
-          <div className="bg-white rounded-xl shadow-sm p-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">Property & Unit</h2>
-            <dl className="space-y-4">
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Property</dt>
-                <dd className="text-sm text-gray-900 mt-1">
-                  <Link to={`/admin/properties/${tenant.property.id}`} className="text-indigo-600 hover:text-indigo-700">
-                    {tenant.property.name}
-                  </Link>
-                </dd>
-                <dd className="text-sm text-gray-500 mt-1">
-                  {tenant.property.address}, {tenant.property.city}, {tenant.property.province} {tenant.property.postalCode}
-                </dd>
+            {/* Property & Unit Information */}
+            {tenant.property && (
+              <div className="bg-white rounded-xl shadow-sm p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Property & Unit</h2>
+                <dl className="space-y-4">
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Property</dt>
+                    <dd className="text-sm text-gray-900 mt-1">
+                      <Link to={`/admin/properties/${tenant.property.id}`} className="text-indigo-600 hover:text-indigo-700">
+                        {tenant.property.name}
+                      </Link>
+                    </dd>
+                    <dd className="text-sm text-gray-500 mt-1">
+                      {tenant.property.address}, {tenant.property.city}, {tenant.property.province} {tenant.property.postalCode}
+                    </dd>
+                  </div>
+                  {tenant.unit && (
+                    <>
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500">Unit</dt>
+                        <dd className="text-sm text-gray-900 mt-1">
+                          Unit {tenant.unit.unitNumber} {tenant.unit.name && `- ${tenant.unit.name}`}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500">Unit Details</dt>
+                        <dd className="text-sm text-gray-900 mt-1">
+                          {tenant.unit.bedrooms} bed, {tenant.unit.bathrooms} bath
+                          {tenant.unit.sqft && ` • ${tenant.unit.sqft} sq ft`}
+                        </dd>
+                      </div>
+                    </>
+                  )}
+                </dl>
               </div>
-              {tenant.unit && (
-                <>
+            )}
+
+            {/* Lease Information */}
+            {tenant.currentLease && (
+              <div className="bg-white rounded-xl shadow-sm p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Current Lease</h2>
+                <dl className="space-y-4">
                   <div>
-                    <dt className="text-sm font-medium text-gray-500">Unit</dt>
+                    <dt className="text-sm font-medium text-gray-500">Lease Status</dt>
                     <dd className="text-sm text-gray-900 mt-1">
-                      Unit {tenant.unit.unitNumber} {tenant.unit.name && `- ${tenant.unit.name}`}
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        tenant.currentLease.status === 'active' ? 'bg-green-100 text-green-800' :
+                        tenant.currentLease.status === 'signed' ? 'bg-blue-100 text-blue-800' :
+                        'bg-gray-100 text-gray-800'
+                      }`}>
+                        {tenant.currentLease.status.replace('_', ' ').toUpperCase()}
+                      </span>
                     </dd>
                   </div>
                   <div>
-                    <dt className="text-sm font-medium text-gray-500">Unit Details</dt>
+                    <dt className="text-sm font-medium text-gray-500">Lease Period</dt>
                     <dd className="text-sm text-gray-900 mt-1">
-                      {tenant.unit.bedrooms} bed, {tenant.unit.bathrooms} bath
-                      {tenant.unit.sqft && ` • ${tenant.unit.sqft} sq ft`}
+                      {new Date(tenant.currentLease.startDate).toLocaleDateString()} - {new Date(tenant.currentLease.endDate).toLocaleDateString()}
                     </dd>
                   </div>
-                </>
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Monthly Rent</dt>
+                    <dd className="text-sm text-gray-900 mt-1">
+                      {formatCurrency(tenant.currentLease.monthlyRent)}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">Security Deposit</dt>
+                    <dd className="text-sm text-gray-900 mt-1">
+                      {formatCurrency(tenant.currentLease.securityDeposit)}
+                    </dd>
+                  </div>
+                  <div className="pt-4 border-t border-gray-200">
+                    <Link
+                      to={`/admin/leases/${tenant.currentLease.id}`}
+                      className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+                    >
+                      View Lease Details →
+                    </Link>
+                  </div>
+                </dl>
+              </div>
+            )}
+
+            {/* Work Orders */}
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Work Orders
+                {activeWorkOrders.length > 0 && (
+                  <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                    {activeWorkOrders.length} active
+                  </span>
+                )}
+              </h2>
+              {workOrders.length === 0 ? (
+                <p className="text-sm text-gray-500">No work orders</p>
+              ) : (
+                <div className="space-y-3">
+                  {workOrders.map((wo) => (
+                    <Link
+                      key={wo.id}
+                      to={`/admin/work-orders/${wo.id}`}
+                      className="block p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <p className="text-sm font-medium text-gray-900">{wo.title}</p>
+                          <p className="text-xs text-gray-500 mt-1">{wo.category}</p>
+                        </div>
+                        <WorkOrderStatusBadge status={wo.status} />
+                      </div>
+                      <div className="flex items-center gap-3 mt-2">
+                        <WorkOrderPriorityBadge priority={wo.priority} />
+                        <span className="text-xs text-gray-500">
+                          {new Date(wo.createdAt).toLocaleDateString()}
+                        </span>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
               )}
-            </dl>
+            </div>
           </div>
-        )}
 
-        {/* Lease Information */}
-        {tenant.currentLease && (
-          <div className="bg-white rounded-xl shadow-sm p-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">Current Lease</h2>
-            <dl className="space-y-4">
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Lease Status</dt>
-                <dd className="text-sm text-gray-900 mt-1">
-                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                    tenant.currentLease.status === 'active' ? 'bg-green-100 text-green-800' :
-                    tenant.currentLease.status === 'signed' ? 'bg-blue-100 text-blue-800' :
-                    'bg-gray-100 text-gray-800'
-                  }`}>
-                    {tenant.currentLease.status.replace('_', ' ').toUpperCase()}
-                  </span>
-                </dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Lease Period</dt>
-                <dd className="text-sm text-gray-900 mt-1">
-                  {new Date(tenant.currentLease.startDate).toLocaleDateString()} - {new Date(tenant.currentLease.endDate).toLocaleDateString()}
-                </dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Monthly Rent</dt>
-                <dd className="text-sm text-gray-900 mt-1">
-                  {formatCurrency(tenant.currentLease.monthlyRent)}
-                </dd>
-              </div>
-              <div>
-                <dt className="text-sm font-medium text-gray-500">Security Deposit</dt>
-                <dd className="text-sm text-gray-900 mt-1">
-                  {formatCurrency(tenant.currentLease.securityDeposit)}
-                </dd>
-              </div>
-              <div className="pt-4 border-t border-gray-200">
-                <Link
-                  to={`/admin/leases/${tenant.currentLease.id}`}
-                  className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+          {/* Delete Section */}
+          {userCanDelete && (
+            <div className="mt-6 bg-white rounded-xl shadow-sm p-6 border-l-4 border-red-500">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Danger Zone</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Delete this tenant permanently. This action cannot be undone.
+              </p>
+              <Form method="post" onSubmit={(e) => {
+                if (!confirm('Are you sure you want to delete this tenant? This action cannot be undone and will remove all associated data.')) {
+                  e.preventDefault();
+                }
+              }}>
+                <input type="hidden" name="_action" value="delete" />
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700"
                 >
-                  View Lease Details →
-                </Link>
-              </div>
-            </dl>
+                  Delete Tenant
+                </button>
+              </Form>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function NoticesPanel({
+  notices,
+  leaseStartDate,
+  error,
+}: {
+  notices: TenantNotice[];
+  leaseStartDate?: string;
+  error?: string;
+}) {
+  const [type, setType] = useState<NoticeType>('n4');
+  const today = new Date().toISOString().split('T')[0];
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg px-4 py-3">{error}</div>
+      )}
+
+      {/* Notice List */}
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Notices</h2>
+        {notices.length === 0 ? (
+          <p className="text-sm text-gray-500">No notices for this tenant</p>
+        ) : (
+          <div className="space-y-4">
+            {notices.map((notice) => (
+              <NoticeRow key={notice.id} notice={notice} leaseStartDate={leaseStartDate} today={today} />
+            ))}
           </div>
         )}
+      </div>
 
-        {/* Work Orders */}
-        <div className="bg-white rounded-xl shadow-sm p-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">
-            Work Orders
-            {activeWorkOrders.length > 0 && (
-              <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
-                {activeWorkOrders.length} active
-              </span>
-            )}
-          </h2>
-          {workOrders.length === 0 ? (
-            <p className="text-sm text-gray-500">No work orders</p>
-          ) : (
-            <div className="space-y-3">
-              {workOrders.map((wo) => (
-                <Link
-                  key={wo.id}
-                  to={`/admin/work-orders/${wo.id}`}
-                  className="block p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <p className="text-sm font-medium text-gray-900">{wo.title}</p>
-                      <p className="text-xs text-gray-500 mt-1">{wo.category}</p>
-                    </div>
-                    <WorkOrderStatusBadge status={wo.status} />
-                  </div>
-                  <div className="flex items-center gap-3 mt-2">
-                    <WorkOrderPriorityBadge priority={wo.priority} />
-                    <span className="text-xs text-gray-500">
-                      {new Date(wo.createdAt).toLocaleDateString()}
-                    </span>
-                  </div>
-                </Link>
+      {/* Create Notice */}
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">New Notice</h2>
+        <Form method="post" className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input type="hidden" name="_action" value="createNotice" />
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium text-gray-700 block mb-1">Notice Type</label>
+            <select
+              name="type"
+              value={type}
+              onChange={(e) => setType(e.target.value as NoticeType)}
+              className="block w-full max-w-sm rounded-lg border-gray-300 shadow-sm sm:text-sm"
+            >
+              {(Object.keys(NOTICE_TYPE_LABELS) as NoticeType[]).map((key) => (
+                <option key={key} value={key}>{NOTICE_TYPE_LABELS[key]}</option>
               ))}
-            </div>
+            </select>
+          </div>
+
+          {type === 'n1' && (
+            <>
+              <NoticeField label="Current Rent" name="currentRent" type="number" required />
+              <NoticeField label="New Rent" name="newRent" type="number" required />
+            </>
+          )}
+          {type === 'n4' && (
+            <>
+              <NoticeField label="Arrears Amount" name="arrearsAmount" type="number" required />
+              <div />
+              <NoticeField label="Arrears Period Start" name="arrearsPeriodStart" type="date" />
+              <NoticeField label="Arrears Period End" name="arrearsPeriodEnd" type="date" />
+            </>
+          )}
+          {type === 'n11' && (
+            <>
+              <NoticeField label="Agreed Termination Date" name="agreedTerminationDate" type="date" required />
+              <div />
+              <NoticeField label="Tenant Signed On" name="tenantSignedOn" type="date" />
+              <NoticeField label="Landlord Signed On" name="landlordSignedOn" type="date" />
+            </>
           )}
-        </div>
-      </div>
 
-      {/* Delete Section */}
-      {userCanDelete && (
-        <div className="mt-6 bg-white rounded-xl shadow-sm p-6 border-l-4 border-red-500">
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">Danger Zone</h3>
-          <p className="text-sm text-gray-600 mb-4">
-            Delete this tenant permanently. This action cannot be undone.
-          </p>
-          <Form method="post" onSubmit={(e) => {
-            if (!confirm('Are you sure you want to delete this tenant? This action cannot be undone and will remove all associated data.')) {
-              e.preventDefault();
-            }
-          }}>
-            <input type="hidden" name="_action" value="delete" />
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium text-gray-700 block mb-1">Notes</label>
+            <textarea name="notes" rows={2} className="block w-full rounded-lg border-gray-300 shadow-sm sm:text-sm" />
+          </div>
+          <div className="md:col-span-2">
             <button
               type="submit"
-              className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700"
+              className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700"
             >
-              Delete Tenant
+              Create Draft Notice
             </button>
-          </Form>
+          </div>
+        </Form>
+      </div>
+    </div>
+  );
+}
+
+function NoticeRow({
+  notice,
+  leaseStartDate,
+  today,
+}: {
+  notice: TenantNotice;
+  leaseStartDate?: string;
+  today: string;
+}) {
+  const [servedOn, setServedOn] = useState(today);
+  const [serviceMethod, setServiceMethod] = useState<NoticeServiceMethod>('hand');
+  const previewEffectiveOn = calculateNoticeEffectiveDate(notice.type, {
+    servedOn,
+    serviceMethod,
+    leaseStartDate,
+    agreedTerminationDate: notice.details.agreedTerminationDate,
+  });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-900">{NOTICE_TYPE_LABELS[notice.type]}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Created {new Date(notice.createdAt).toLocaleDateString()}
+            {notice.servedOn && ` • Served ${notice.servedOn} (${notice.serviceMethod?.replace('_', ' ')})`}
+            {notice.effectiveOn && ` • Effective ${notice.effectiveOn}`}
+          </p>
+          <p className="text-xs text-gray-600 mt-1">
+            {notice.type === 'n1' &&
+              `${formatCurrency(notice.details.currentRent || 0)} → ${formatCurrency(notice.details.newRent || 0)}`}
+            {notice.type === 'n4' && `Arrears ${formatCurrency(notice.details.arrearsAmount || 0)}`}
+            {notice.type === 'n11' && `Agreed termination ${notice.details.agreedTerminationDate}`}
+          </p>
+          {notice.notes && <p className="text-xs text-gray-500 mt-1">{notice.notes}</p>}
+          {notice.voidReason && <p className="text-xs text-red-600 mt-1">Voided: {notice.voidReason}</p>}
+        </div>
+        <NoticeStatusBadge status={notice.status} />
+      </div>
+
+      {notice.reminderDueAt && (
+        <Form method="post" className="flex items-center justify-between mt-3 bg-yellow-50 rounded-lg px-3 py-2">
+          <input type="hidden" name="_action" value="acknowledgeNoticeReminder" />
+          <input type="hidden" name="noticeId" value={notice.id} />
+          <span className="text-xs text-yellow-800">
+            {notice.status === 'effective' ? 'This notice is now in effect' : `Deadline approaching: ${notice.effectiveOn}`}
+          </span>
+          <button type="submit" className="text-xs text-yellow-900 font-medium hover:underline">
+            Acknowledge
+          </button>
+        </Form>
+      )}
+
+      {notice.status === 'draft' && (
+        <Form method="post" className="flex flex-wrap items-end gap-3 mt-4 pt-4 border-t border-gray-100">
+          <input type="hidden" name="_action" value="serveNotice" />
+          <input type="hidden" name="noticeId" value={notice.id} />
+          <div>
+            <label className="text-xs font-medium text-gray-500 block mb-1">Served On</label>
+            <input
+              type="date"
+              name="servedOn"
+              value={servedOn}
+              onChange={(e) => setServedOn(e.target.value)}
+              className="rounded-lg border-gray-300 shadow-sm sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium text-gray-500 block mb-1">Method</label>
+            <select
+              name="serviceMethod"
+              value={serviceMethod}
+              onChange={(e) => setServiceMethod(e.target.value as NoticeServiceMethod)}
+              className="rounded-lg border-gray-300 shadow-sm sm:text-sm"
+            >
+              <option value="hand">Hand delivery</option>
+              <option value="mail_slot">Mail slot / door</option>
+              <option value="email">Email (consented)</option>
+              <option value="courier">Courier</option>
+              <option value="mail">Mail</option>
+            </select>
+          </div>
+          <p className="text-xs text-gray-500 pb-2">
+            Effective: <span className="font-medium text-gray-900">{previewEffectiveOn || '—'}</span>
+          </p>
+          <button
+            type="submit"
+            className="px-3 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700"
+          >
+            Mark Served
+          </button>
+        </Form>
+      )}
+
+      {(notice.status === 'draft' || notice.status === 'served' || notice.status === 'effective') && (
+        <div className="flex items-center gap-3 mt-3">
+          {(notice.status === 'served' || notice.status === 'effective') && (
+            <Form method="post">
+              <input type="hidden" name="_action" value="completeNotice" />
+              <input type="hidden" name="noticeId" value={notice.id} />
+              <button type="submit" className="text-sm text-green-700 hover:text-green-800 font-medium">
+                Mark Completed
+              </button>
+            </Form>
+          )}
+          {notice.status !== 'effective' && (
+            <Form
+              method="post"
+              onSubmit={(e) => {
+                const reason = prompt('Reason for voiding this notice?');
+                if (reason === null) {
+                  e.preventDefault();
+                  return;
+                }
+                (e.currentTarget.elements.namedItem('reason') as HTMLInputElement).value = reason;
+              }}
+            >
+              <input type="hidden" name="_action" value="voidNotice" />
+              <input type="hidden" name="noticeId" value={notice.id} />
+              <input type="hidden" name="reason" value="" />
+              <button type="submit" className="text-sm text-red-600 hover:text-red-700 font-medium">
+                Void
+              </button>
+            </Form>
+          )}
         </div>
       )}
     </div>
   );
 }
 
+function NoticeField({
+  label,
+  name,
+  type,
+  required,
+}: {
+  label: string;
+  name: string;
+  type: 'number' | 'date';
+  required?: boolean;
+}) {
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-700 block mb-1">{label}</label>
+      <input
+        type={type}
+        name={name}
+        step={type === 'number' ? '0.01' : undefined}
+        required={required}
+        className="block w-full rounded-lg border-gray-300 shadow-sm sm:text-sm"
+      />
+    </div>
+  );
+}
+
+function NoticeStatusBadge({ status }: { status: string }) {
+  const config: Record<string, { bg: string; text: string; label: string }> = {
+    draft: { bg: 'bg-gray-100', text: 'text-gray-700', label: 'Draft' },
+    served: { bg: 'bg-blue-100', text: 'text-blue-700', label: 'Served' },
+    effective: { bg: 'bg-purple-100', text: 'text-purple-700', label: 'Effective' },
+    completed: { bg: 'bg-green-100', text: 'text-green-700', label: 'Completed' },
+    void: { bg: 'bg-red-100', text: 'text-red-700', label: 'Void' },
+  };
+
+  const c = config[status] || { bg: 'bg-gray-100', text: 'text-gray-700', label: status };
+  return <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${c.bg} ${c.text}`}>{c.label}</span>;
+}
+
 function StatusBadge({ status }: { status: string }) {
   const config: Record<string, { bg: string; text: string; label: string }> = {
     moving_in: { bg: 'bg-blue-100', text: 'text-blue-700', label: 'Moving In' },
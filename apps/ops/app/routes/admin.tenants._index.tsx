@@ -2,12 +2,14 @@ import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link, useSearchParams, useRevalidator } from '@remix-run/react';
 import { useState } from 'react';
-import { fetchTenantsFromWorker, fetchPropertiesFromWorker, fetchUnitsFromWorker } from '~/lib/worker-client';
+import { fetchTenantsPageFromWorker, fetchPropertiesFromWorker, fetchUnitsFromWorker } from '~/lib/worker-client';
 import { formatPhoneNumber } from '~/shared/utils';
 import { getSiteId } from '~/lib/site.server';
 import { SortableTableHeader, NonSortableTableHeader } from '~/components/SortableTableHeader';
+import { ListPagination, ListSearchInput } from '~/components/ListPagination';
 import { useMultiSelect } from '~/lib/useMultiSelect';
 import { TenantBulkActionToolbar, TenantBulkActionConfirmModal } from '~/components/tenant';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export const meta: MetaFunction = () => {
   return [{ title: 'Tenants - LeaseLab.io' }];
@@ -15,6 +17,7 @@ export const meta: MetaFunction = () => {
 
 export async function loader({ context, request }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const url = new URL(request.url);
 
@@ -23,18 +26,20 @@ export async function loader({ context, request }: LoaderFunctionArgs) {
   const unitId = url.searchParams.get('unitId') || undefined;
   const sortBy = url.searchParams.get('sortBy') || 'created_at';
   const sortOrder = (url.searchParams.get('sortOrder') || 'desc') as 'asc' | 'desc';
+  const search = url.searchParams.get('search') || undefined;
+  const cursor = url.searchParams.get('cursor') || undefined;
 
-  const [tenants, properties, units] = await Promise.all([
-    fetchTenantsFromWorker(env, siteId, { status, propertyId, sortBy, sortOrder }),
-    fetchPropertiesFromWorker(env, siteId),
-    fetchUnitsFromWorker(env, siteId, propertyId),
+  const [page, properties, units] = await Promise.all([
+    fetchTenantsPageFromWorker(workerEnv, siteId, { status, propertyId, unitId, search, sortBy, sortOrder, cursor }),
+    fetchPropertiesFromWorker(workerEnv, siteId),
+    fetchUnitsFromWorker(workerEnv, siteId, propertyId),
   ]);
 
-  return json({ tenants, properties, units });
+  return json({ tenants: page.items, pagination: page.pagination, properties, units });
 }
 
 export default function TenantsIndex() {
-  const { tenants, properties, units } = useLoaderData<typeof loader>();
+  const { tenants, pagination, properties, units } = useLoaderData<typeof loader>();
   const [searchParams, setSearchParams] = useSearchParams();
   const revalidator = useRevalidator();
 
@@ -139,7 +144,7 @@ export default function TenantsIndex() {
     <div className="p-8">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Tenants</h1>
-        <div className="text-sm text-gray-500">{tenants.length} tenants</div>
+        <ListSearchInput placeholder="Search name, email or phone" />
       </div>
 
       {/* Filters */}
@@ -153,6 +158,7 @@ export default function TenantsIndex() {
                 key={value}
                 onClick={() => {
                   const params = new URLSearchParams(searchParams);
+                  params.delete('cursor');
                   if (value === 'all') {
                     params.delete('status');
                   } else {
@@ -178,6 +184,7 @@ export default function TenantsIndex() {
             <button
               onClick={() => {
                 const params = new URLSearchParams(searchParams);
+                params.delete('cursor');
                 params.delete('propertyId');
                 params.delete('unitId'); // Clear unit filter when property changes
                 setSearchParams(params);
@@ -194,6 +201,7 @@ export default function TenantsIndex() {
                 key={property.id}
                 onClick={() => {
                   const params = new URLSearchParams(searchParams);
+                  params.delete('cursor');
                   params.set('propertyId', property.id);
                   params.delete('unitId'); // Clear unit filter when property changes
                   setSearchParams(params);
@@ -217,6 +225,7 @@ export default function TenantsIndex() {
               <button
                 onClick={() => {
                   const params = new URLSearchParams(searchParams);
+                  params.delete('cursor');
                   params.delete('unitId');
                   setSearchParams(params);
                 }}
@@ -232,6 +241,7 @@ export default function TenantsIndex() {
                   key={unit.id}
                   onClick={() => {
                     const params = new URLSearchParams(searchParams);
+                    params.delete('cursor');
                     params.set('unitId', unit.id);
                     setSearchParams(params);
                   }}
@@ -365,6 +375,7 @@ export default function TenantsIndex() {
             </tbody>
           </table>
         )}
+        <ListPagination pagination={pagination} itemCount={tenants.length} noun="tenants" />
       </div>
 
       {/* Bulk Action Confirmation Modal */}
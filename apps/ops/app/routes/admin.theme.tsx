@@ -17,6 +17,7 @@ import { themePresets } from "@leaselab/ui-components/themes";
 import { getSiteId } from "~/lib/site.server";
 import { fetchThemeFromWorker, saveThemeToWorker } from "~/lib/worker-client";
 import { ColorPicker } from "~/components/color-picker";
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 function asNullable(value: FormDataEntryValue | null): string | null {
   if (!value) return null;
@@ -26,18 +27,20 @@ function asNullable(value: FormDataEntryValue | null): string | null {
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
-  const theme = await fetchThemeFromWorker(env, siteId);
+  const theme = await fetchThemeFromWorker(workerEnv, siteId);
   return json({ theme, presets: themePresets });
 }
 
 export async function action({ request, context }: ActionFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const formData = await request.formData();
 
   const themePreset = (formData.get("theme_preset") as string) || "professional";
-  await saveThemeToWorker(env, siteId, {
+  await saveThemeToWorker(workerEnv, siteId, {
     themePreset,
     brandName: asNullable(formData.get("brand_name")),
     brandLogoUrl: asNullable(formData.get("brand_logo_url")),
@@ -1,16 +1,16 @@
 import type { LoaderFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { Outlet, Link, useLocation, useLoaderData, Form, useNavigate, useRouteError, isRouteErrorResponse } from '@remix-run/react';
-import { requireAuth } from '~/lib/auth.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 import { getSiteId } from '~/lib/site.server';
-import { fetchUserSitesFromWorker } from '~/lib/worker-client';
+import { fetchUserSitesFromWorker, signedWorkerFetch } from '~/lib/worker-client';
 import { SiteSwitcher } from '~/components/SiteSwitcher';
+import { CommandPalette } from '~/components/CommandPalette';
+import { canViewFinancials } from '~/lib/permissions';
+import { USER_ROLE_LABELS } from '~/shared/utils';
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const secret = context.cloudflare.env.SESSION_SECRET as string;
   const siteId = getSiteId(request);
 
@@ -28,7 +28,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   let leasesInProgressCount = 0;
   try {
     const workerUrl = context.cloudflare.env.WORKER_URL || 'http://localhost:8787';
-    const response = await fetch(`${workerUrl}/api/ops/leases/in-progress`, {
+    const response = await signedWorkerFetch(`${workerUrl}/api/ops/leases/in-progress`, workerEnv, {
       headers: {
         'x-site-id': siteId,
         'x-user-id': user.id,
@@ -46,7 +46,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   let workOrderCounts = { total_actionable: 0, urgent: 0 };
   try {
     const workerUrl = context.cloudflare.env.WORKER_URL || 'http://localhost:8787';
-    const response = await fetch(`${workerUrl}/api/ops/work-orders/counts`, {
+    const response = await signedWorkerFetch(`${workerUrl}/api/ops/work-orders/counts`, workerEnv, {
       headers: {
         'x-site-id': siteId,
         'x-user-id': user.id,
@@ -74,7 +74,7 @@ const navItems = [
   { path: '/admin/tenants', label: 'Tenants', icon: '🔑' },
   { path: '/admin/leases', label: 'Leases', icon: '📋' },
   { path: '/admin/leases/in-progress', label: 'Leases in Progress', icon: '📝', badge: 'leases' },
-  { path: '/admin/financial', label: 'Financial', icon: '💰' },
+  { path: '/admin/financial', label: 'Financial', icon: '💰', requiresFinancials: true },
   { path: '/admin/work-orders', label: 'Work Orders', icon: '🔧', badge: 'workOrders' },
   { path: '/admin/settings', label: 'Settings', icon: '⚙️' },
 ];
@@ -102,8 +102,11 @@ export default function AdminLayout() {
             </label>
             <SiteSwitcher currentSite={currentSite} availableSites={availableSites} />
           </div>
+          <div className="mb-4">
+            <CommandPalette />
+          </div>
           <ul className="space-y-1">
-            {navItems.map((item) => {
+            {navItems.filter((item) => !item.requiresFinancials || canViewFinancials(user)).map((item) => {
               const isActive = location.pathname === item.path ||
                 (item.path !== '/admin' && location.pathname.startsWith(item.path));
 
@@ -141,7 +144,7 @@ export default function AdminLayout() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-900">{user.name}</p>
-              <p className="text-xs text-gray-500">{user.role}</p>
+              <p className="text-xs text-gray-500">{USER_ROLE_LABELS[user.role] || user.role}</p>
             </div>
             <Form method="post" action="/logout">
               <button
@@ -4,7 +4,7 @@ import { useLoaderData, useRouteLoaderData, Link, Form, useNavigation } from '@r
 import { fetchUnitWithDetailsFromWorker, saveUnitToWorker, deleteUnitToWorker, fetchUnitHistoryFromWorker, fetchImagesFromWorker, createUnitHistoryToWorker } from '~/lib/worker-client';
 import { formatCurrency } from '~/shared/utils';
 import { getSiteId } from '~/lib/site.server';
-import { requireAuth } from '~/lib/auth.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 import { canDelete } from '~/lib/permissions';
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
@@ -13,10 +13,7 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 
 export async function loader({ params, context, request }: LoaderFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const { id } = params;
 
   if (!id) {
@@ -37,10 +34,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
 
 export async function action({ request, params, context }: ActionFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const secret = context.cloudflare.env.SESSION_SECRET as string;
   const { id } = params;
 
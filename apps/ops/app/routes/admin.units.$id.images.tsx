@@ -2,6 +2,7 @@ import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link, useRevalidator } from '@remix-run/react';
 import { fetchUnitFromWorker, fetchPropertyFromWorker, fetchImagesFromWorker } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 import { ImageUploader } from '~/components/ImageUploader';
 import type { PropertyImage } from '~/shared/types';
 import { getSiteId } from '~/lib/site.server';
@@ -12,10 +13,7 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 
 export async function loader({ params, context, request }: LoaderFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const { id } = params;
 
   if (!id) {
@@ -2,7 +2,7 @@ import type { LoaderFunctionArgs, ActionFunctionArgs } from '@remix-run/cloudfla
 import { json, redirect } from '@remix-run/cloudflare';
 import { useLoaderData, Form, useNavigation } from '@remix-run/react';
 import { useState } from 'react';
-import { requireAuth } from '~/lib/auth.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 import {
     fetchUserFromWorker,
     fetchUserSitesFromWorker,
@@ -10,10 +10,15 @@ import {
     revokeSiteAccessToWorker,
     setSuperAdminStatusToWorker,
     updateUserRoleToWorker,
-    updateUserPasswordToWorker
+    updateUserPasswordToWorker,
+    fetchUserPropertyAccessFromWorker,
+    grantPropertyAccessToWorker,
+    revokePropertyAccessToWorker,
+    fetchPropertiesFromWorker,
 } from '~/lib/worker-client';
 import { getSiteId } from '~/lib/site.server';
-import { hashPassword } from '~/shared/utils';
+import { hashPassword, USER_ROLES, USER_ROLE_LABELS, USER_ROLE_DESCRIPTIONS } from '~/shared/utils';
+import type { UserRole } from '~/shared/types';
 
 export async function loader({ params, request, context }: LoaderFunctionArgs) {
     const { id } = params;
@@ -21,10 +26,7 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
 
     const siteId = getSiteId(request);
     const secret = context.cloudflare.env.SESSION_SECRET as string;
-    const workerEnv = {
-        WORKER_URL: context.cloudflare.env.WORKER_URL,
-        WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-    };
+    const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
 
     const currentUser = await requireAuth(request, workerEnv, secret, siteId);
 
@@ -38,9 +40,13 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
         throw new Response('User not found', { status: 404 });
     }
 
-    const siteAccess = await fetchUserSitesFromWorker(workerEnv, id);
+    const [siteAccess, propertyAccess, properties] = await Promise.all([
+        fetchUserSitesFromWorker(workerEnv, id),
+        fetchUserPropertyAccessFromWorker(workerEnv, siteId, id),
+        fetchPropertiesFromWorker(workerEnv, siteId),
+    ]);
 
-    return json({ user, siteAccess, currentUser });
+    return json({ user, siteAccess, propertyAccess, properties, currentUser });
 }
 
 export async function action({ params, request, context }: ActionFunctionArgs) {
@@ -49,10 +55,7 @@ export async function action({ params, request, context }: ActionFunctionArgs) {
 
     const siteId = getSiteId(request);
     const secret = context.cloudflare.env.SESSION_SECRET as string;
-    const workerEnv = {
-        WORKER_URL: context.cloudflare.env.WORKER_URL,
-        WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-    };
+    const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
 
     const currentUser = await requireAuth(request, workerEnv, secret, siteId);
 
@@ -69,7 +72,9 @@ export async function action({ params, request, context }: ActionFunctionArgs) {
         await setSuperAdminStatusToWorker(workerEnv, id, isSuperAdmin);
     } else if (action === 'update_role') {
         const role = formData.get('role') as string;
-        await updateUserRoleToWorker(workerEnv, id, role);
+        // Roles are stored on the user's primary site
+        const targetUser = await fetchUserFromWorker(workerEnv, siteId, id);
+        await updateUserRoleToWorker(workerEnv, targetUser.siteId, id, role);
     } else if (action === 'reset_password') {
         const password = formData.get('password') as string;
 
@@ -80,7 +85,7 @@ export async function action({ params, request, context }: ActionFunctionArgs) {
 
         if (!currentUser.isSuperAdmin) {
             // If current user is not super admin, check if target is admin
-            if (targetUser.role === 'admin') {
+            if (targetUser.role === 'property_manager') {
                 return json({ error: 'Only super admins can reset admin passwords' }, { status: 403 });
             }
         }
@@ -95,20 +100,26 @@ export async function action({ params, request, context }: ActionFunctionArgs) {
     } else if (action === 'revoke_site_access') {
         const targetSiteId = formData.get('site_id') as string;
         await revokeSiteAccessToWorker(workerEnv, id, targetSiteId);
+    } else if (action === 'grant_property_access') {
+        await grantPropertyAccessToWorker(workerEnv, siteId, id, formData.get('property_id') as string);
+    } else if (action === 'revoke_property_access') {
+        await revokePropertyAccessToWorker(workerEnv, siteId, id, formData.get('property_id') as string);
     }
 
     return redirect(`/admin/settings/users/${id}`);
 }
 
 export default function UserEdit() {
-    const { user, siteAccess, currentUser } = useLoaderData<typeof loader>();
+    const { user, siteAccess, propertyAccess, properties, currentUser } = useLoaderData<typeof loader>();
     const navigation = useNavigation();
     const isSubmitting = navigation.state === 'submitting';
     const [showPasswordReset, setShowPasswordReset] = useState(false);
 
     // Determine if current user can reset this user's password
     const canResetPassword = currentUser.isSuperAdmin ||
-                            (user.role !== 'admin' && !user.isSuperAdmin);
+                            (user.role !== 'property_manager' && !user.isSuperAdmin);
+    const grantedPropertyIds = new Set(propertyAccess.map((grant) => grant.propertyId));
+    const grantableProperties = properties.filter((property: { id: string }) => !grantedPropertyIds.has(property.id));
 
     return (
         <div className="p-8">
@@ -140,9 +151,9 @@ export default function UserEdit() {
                                     aria-label="User role"
                                     className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
                                 >
-                                    <option value="admin">Admin</option>
-                                    <option value="maintenance">Maintenance</option>
-                                    <option value="viewer">Viewer</option>
+                                    {USER_ROLES.map((role) => (
+                                        <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                                    ))}
                                 </select>
                                 <button
                                     type="submit"
@@ -152,6 +163,7 @@ export default function UserEdit() {
                                     Update
                                 </button>
                             </Form>
+                            <p className="text-xs text-gray-500 mt-1">{USER_ROLE_DESCRIPTIONS[user.role as UserRole]}</p>
                         </div>
                         <div>
                             <dt className="text-sm text-gray-500">Primary Site</dt>
@@ -212,7 +224,7 @@ export default function UserEdit() {
                             )
                         ) : (
                             <p className="text-sm text-gray-500">
-                                Only super admins can reset admin passwords
+                                Only super admins can reset property manager passwords
                             </p>
                         )}
                     </div>
@@ -302,9 +314,9 @@ export default function UserEdit() {
                                         aria-label="Site access role"
                                         className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
                                     >
-                                        <option value="viewer">Viewer</option>
-                                        <option value="maintenance">Maintenance</option>
-                                        <option value="admin">Admin</option>
+                                        {USER_ROLES.map((role) => (
+                                            <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                                        ))}
                                     </select>
                                     <button
                                         type="submit"
@@ -317,6 +329,73 @@ export default function UserEdit() {
                             </div>
                         </Form>
                     </div>
+
+                    {/* Property Access */}
+                    <div className="mt-6 pt-6 border-t border-gray-200">
+                        <h3 className="text-sm font-medium text-gray-700 mb-1">Property Access</h3>
+                        <p className="text-xs text-gray-500 mb-3">
+                            {user.role === 'owner'
+                                ? 'Owners only see the properties listed here.'
+                                : 'With no properties listed, this user can see every property on this site.'}
+                        </p>
+                        {propertyAccess.length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                                {user.role === 'owner' ? 'No properties granted' : 'All properties'}
+                            </p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {propertyAccess.map((grant) => (
+                                    <li
+                                        key={grant.id}
+                                        className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                                    >
+                                        <div>
+                                            <p className="text-sm font-medium text-gray-900">
+                                                {grant.propertyName || grant.propertyId}
+                                            </p>
+                                            <p className="text-xs text-gray-500">
+                                                Granted {new Date(grant.grantedAt).toLocaleDateString()}
+                                            </p>
+                                        </div>
+                                        <Form method="post">
+                                            <input type="hidden" name="_action" value="revoke_property_access" />
+                                            <input type="hidden" name="property_id" value={grant.propertyId} />
+                                            <button
+                                                type="submit"
+                                                disabled={isSubmitting}
+                                                className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                                            >
+                                                Revoke
+                                            </button>
+                                        </Form>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {grantableProperties.length > 0 && (
+                            <Form method="post" className="mt-4 flex gap-2">
+                                <input type="hidden" name="_action" value="grant_property_access" />
+                                <select
+                                    name="property_id"
+                                    required
+                                    aria-label="Property"
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    {grantableProperties.map((property: { id: string; name: string }) => (
+                                        <option key={property.id} value={property.id}>{property.name}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    type="submit"
+                                    disabled={isSubmitting}
+                                    className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                                >
+                                    Grant Property
+                                </button>
+                            </Form>
+                        )}
+                    </div>
                 </div>
             </div>
         </div>
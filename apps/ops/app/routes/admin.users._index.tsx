@@ -2,18 +2,17 @@ import type { LoaderFunctionArgs, ActionFunctionArgs } from '@remix-run/cloudfla
 import { json, redirect } from '@remix-run/cloudflare';
 import { useLoaderData, Link, Form, useNavigation, useActionData, useSearchParams } from '@remix-run/react';
 import { useState, useMemo } from 'react';
-import { requireAuth } from '~/lib/auth.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 import { fetchUsersFromWorker, createUserToWorker } from '~/lib/worker-client';
 import { getSiteId } from '~/lib/site.server';
 import { SortableTableHeader, NonSortableTableHeader } from '~/components/SortableTableHeader';
+import { USER_ROLES, USER_ROLE_LABELS } from '~/shared/utils';
+import type { UserRole } from '~/shared/types';
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
     const siteId = getSiteId(request);
     const secret = context.cloudflare.env.SESSION_SECRET as string;
-    const workerEnv = {
-        WORKER_URL: context.cloudflare.env.WORKER_URL,
-        WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-    };
+    const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
 
     const currentUser = await requireAuth(request, workerEnv, secret, siteId);
 
@@ -34,10 +33,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 export async function action({ request, context }: ActionFunctionArgs) {
     const siteId = getSiteId(request);
     const secret = context.cloudflare.env.SESSION_SECRET as string;
-    const workerEnv = {
-        WORKER_URL: context.cloudflare.env.WORKER_URL,
-        WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-    };
+    const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
 
     const currentUser = await requireAuth(request, workerEnv, secret, siteId);
 
@@ -178,8 +174,8 @@ export default function UsersIndex() {
                                     </td>
                                     <td className="px-6 py-4 text-sm text-gray-500">{user.email}</td>
                                     <td className="px-6 py-4">
-                                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
-                                            {user.role}
+                                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                            {USER_ROLE_LABELS[user.role as UserRole] || user.role}
                                         </span>
                                     </td>
                                     <td className="px-6 py-4 text-sm text-gray-500">{user.siteId}</td>
@@ -274,9 +270,9 @@ export default function UsersIndex() {
                                     required
                                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                                 >
-                                    <option value="admin">Admin</option>
-                                    <option value="maintenance">Maintenance</option>
-                                    <option value="viewer">Viewer</option>
+                                    {USER_ROLES.map((role) => (
+                                        <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                                    ))}
                                 </select>
                             </div>
 
@@ -1,11 +1,25 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json, redirect } from '@remix-run/cloudflare';
-import { useLoaderData, useRouteLoaderData, Link, useSubmit, Form } from '@remix-run/react';
-import { fetchWorkOrderFromWorker, fetchTenantsFromWorker, fetchPropertyFromWorker, saveWorkOrderToWorker, deleteWorkOrderToWorker } from '~/lib/worker-client';
+import { useLoaderData, useRouteLoaderData, useActionData, Link, useSubmit, Form } from '@remix-run/react';
+import {
+  fetchWorkOrderFromWorker,
+  fetchTenantsFromWorker,
+  fetchPropertyFromWorker,
+  saveWorkOrderToWorker,
+  deleteWorkOrderToWorker,
+  fetchCommunicationsFromWorker,
+  sendCommunicationToWorker,
+  retryCommunicationToWorker,
+  fetchWorkOrderAttachmentsFromWorker,
+  uploadWorkOrderAttachmentToWorker,
+  deleteWorkOrderAttachmentToWorker,
+} from '~/lib/worker-client';
 import { getSiteId } from '~/lib/site.server';
-import { requireAuth } from '~/lib/auth.server';
-import { canDelete } from '~/lib/permissions';
-import type { WorkOrder } from '~/shared/types';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
+import { canDelete, canEdit } from '~/lib/permissions';
+import { CommunicationHistory } from '~/components/communications';
+import { WORK_ORDER_ATTACHMENT_CONSTRAINTS } from '~/shared/config';
+import type { WorkOrder, WorkOrderAttachment } from '~/shared/types';
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
   if (!data) return [{ title: 'Work Order Not Found' }];
@@ -14,10 +28,7 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 
 export async function loader({ params, request, context }: LoaderFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const workOrderId = params.id;
 
   if (!workOrderId) {
@@ -41,15 +52,15 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
     property = await fetchPropertyFromWorker(workerEnv, siteId, workOrder.propertyId);
   }
 
-  return json({ workOrder, tenant, property });
+  const communications = await fetchCommunicationsFromWorker(workerEnv, siteId, 'work_order', workOrderId);
+  const attachments = await fetchWorkOrderAttachmentsFromWorker(workerEnv, siteId, workOrderId);
+
+  return json({ workOrder, tenant, property, communications, attachments });
 }
 
 export async function action({ params, request, context }: ActionFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const secret = context.cloudflare.env.SESSION_SECRET as string;
   const workOrderId = params.id;
 
@@ -94,15 +105,70 @@ export async function action({ params, request, context }: ActionFunctionArgs) {
     return json({ success: true });
   }
 
+  if (action === 'sendEmail') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    try {
+      await sendCommunicationToWorker(workerEnv, siteId, user.id, 'work_order', workOrderId, {
+        templateKey: (formData.get('templateKey') as string) || undefined,
+        subject: (formData.get('subject') as string) || undefined,
+        body: (formData.get('body') as string) || undefined,
+        idempotencyKey: (formData.get('idempotencyKey') as string) || undefined,
+      });
+    } catch (error) {
+      return json({ emailError: error instanceof Error ? error.message : 'Failed to send email' }, { status: 400 });
+    }
+    return json({ success: true });
+  }
+
+  if (action === 'uploadAttachment') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    if (!canEdit(user)) {
+      return json({ attachmentError: 'Insufficient permissions to add attachments' }, { status: 403 });
+    }
+
+    const files = formData.getAll('attachments').filter((f): f is File => typeof f !== 'string' && f.size > 0);
+    if (files.length === 0) {
+      return json({ attachmentError: 'Choose at least one photo or video' }, { status: 400 });
+    }
+    try {
+      for (const file of files) {
+        await uploadWorkOrderAttachmentToWorker(workerEnv, siteId, user.id, workOrderId, file);
+      }
+    } catch (error) {
+      return json({ attachmentError: error instanceof Error ? error.message : 'Failed to upload file' }, { status: 400 });
+    }
+    return json({ success: true });
+  }
+
+  if (action === 'deleteAttachment') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    if (!canDelete(user)) {
+      return json({ attachmentError: 'Insufficient permissions to delete attachments' }, { status: 403 });
+    }
+
+    await deleteWorkOrderAttachmentToWorker(workerEnv, siteId, workOrderId, formData.get('attachmentId') as string);
+    return json({ success: true });
+  }
+
+  if (action === 'retryEmail') {
+    const user = await requireAuth(request, workerEnv, secret, siteId);
+    await retryCommunicationToWorker(workerEnv, siteId, user.id, formData.get('communicationId') as string);
+    return json({ success: true });
+  }
+
   return json({ success: false }, { status: 400 });
 }
 
 export default function WorkOrderDetail() {
-  const { workOrder, tenant, property } = useLoaderData<typeof loader>();
+  const { workOrder, tenant, property, communications, attachments } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const emailError = actionData && 'emailError' in actionData ? actionData.emailError : undefined;
+  const attachmentError = actionData && 'attachmentError' in actionData ? actionData.attachmentError : undefined;
   const adminData = useRouteLoaderData<typeof import('./admin').loader>('routes/admin');
   const user = adminData?.user || null;
   const submit = useSubmit();
   const userCanDelete = canDelete(user);
+  const userCanEdit = canEdit(user);
 
   const handleStatusChange = (newStatus: string) => {
     const formData = new FormData();
@@ -345,6 +411,129 @@ export default function WorkOrderDetail() {
           </Form>
         </div>
       </div>
+
+      {/* Photos & Videos */}
+      <div className="mt-6">
+        <AttachmentGallery
+          attachments={attachments}
+          error={attachmentError}
+          canUpload={userCanEdit}
+          canRemove={userCanDelete}
+        />
+      </div>
+
+      {/* Communications */}
+      <div className="mt-6">
+        <CommunicationHistory
+          communications={communications}
+          entityType="work_order"
+          error={emailError}
+          disabledReason={tenant ? undefined : 'Link a tenant to this work order to email them.'}
+        />
+      </div>
+    </div>
+  );
+}
+
+function AttachmentGallery({
+  attachments,
+  error,
+  canUpload,
+  canRemove,
+}: {
+  attachments: WorkOrderAttachment[];
+  error?: string;
+  canUpload: boolean;
+  canRemove: boolean;
+}) {
+  const { maxAttachmentsPerWorkOrder, allowedImageTypes, allowedVideoTypes } = WORK_ORDER_ATTACHMENT_CONSTRAINTS;
+  const accept = [...allowedImageTypes, ...allowedVideoTypes].join(',');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Photos & Videos</h2>
+        <span className="text-sm text-gray-500">
+          {attachments.length} / {maxAttachmentsPerWorkOrder}
+        </span>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No photos or videos attached.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="space-y-2">
+              {!attachment.signedUrl ? (
+                <div className="flex aspect-square items-center justify-center rounded-lg bg-gray-100 p-2 text-center text-xs text-gray-500">
+                  Preview unavailable (file signing is not configured)
+                </div>
+              ) : attachment.mimeType.startsWith('video/') ? (
+                <video
+                  src={attachment.signedUrl}
+                  controls
+                  preload="metadata"
+                  className="aspect-square w-full rounded-lg bg-black object-cover"
+                />
+              ) : (
+                <a href={attachment.signedUrl} target="_blank" rel="noreferrer">
+                  <img
+                    src={attachment.signedUrl}
+                    alt={attachment.fileName}
+                    className="aspect-square w-full rounded-lg object-cover"
+                  />
+                </a>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="truncate text-xs text-gray-700" title={attachment.fileName}>{attachment.fileName}</p>
+                  <p className="text-xs text-gray-400">
+                    {attachment.uploadedByTenantId ? 'From tenant' : 'From staff'} ·{' '}
+                    {new Date(attachment.createdAt).toLocaleDateString('en-CA')}
+                  </p>
+                </div>
+                {canRemove && (
+                  <Form method="post" onSubmit={(e) => {
+                    if (!confirm('Delete this file?')) {
+                      e.preventDefault();
+                    }
+                  }}>
+                    <input type="hidden" name="_action" value="deleteAttachment" />
+                    <input type="hidden" name="attachmentId" value={attachment.id} />
+                    <button type="submit" className="text-xs text-red-600 hover:text-red-700">
+                      Delete
+                    </button>
+                  </Form>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canUpload && attachments.length < maxAttachmentsPerWorkOrder && (
+        <Form method="post" encType="multipart/form-data" className="flex flex-wrap items-center gap-3">
+          <input type="hidden" name="_action" value="uploadAttachment" />
+          <input
+            type="file"
+            name="attachments"
+            accept={accept}
+            multiple
+            required
+            className="text-sm text-gray-700"
+          />
+          <button
+            type="submit"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Upload
+          </button>
+        </Form>
+      )}
     </div>
   );
 }
@@ -1,9 +1,11 @@
 import type { LoaderFunctionArgs, MetaFunction } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { useLoaderData, Link, useSearchParams } from '@remix-run/react';
-import { fetchWorkOrdersFromWorker } from '~/lib/worker-client';
+import { fetchWorkOrdersFromWorker, fetchWorkOrdersPageFromWorker } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 import { getSiteId } from '~/lib/site.server';
 import { SortableTableHeader, NonSortableTableHeader } from '~/components/SortableTableHeader';
+import { ListPagination, ListSearchInput } from '~/components/ListPagination';
 
 export const meta: MetaFunction = () => {
   return [{ title: 'Work Orders - LeaseLab.io' }];
@@ -11,16 +13,15 @@ export const meta: MetaFunction = () => {
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const url = new URL(request.url);
 
   // Default to "open_in_progress" if no status filter specified
   const statusFilter = url.searchParams.get('status') || 'open_in_progress';
   const sortBy = url.searchParams.get('sortBy') || 'created_at';
   const sortOrder = (url.searchParams.get('sortOrder') || 'desc') as 'asc' | 'desc';
+  const search = url.searchParams.get('search') || undefined;
+  const cursor = url.searchParams.get('cursor') || undefined;
 
   // Map filter presets to actual status values
   let statusParam: string | undefined;
@@ -32,10 +33,12 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
     statusParam = statusFilter; // Single status (completed, cancelled, etc.)
   }
 
-  const workOrders = await fetchWorkOrdersFromWorker(workerEnv, siteId, {
+  const page = await fetchWorkOrdersPageFromWorker(workerEnv, siteId, {
     status: statusParam,
+    search,
     sortBy,
     sortOrder,
+    cursor,
   });
 
   // Fetch counts for all statuses (for filter badges)
@@ -48,11 +51,11 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
     all: allWorkOrders.length,
   };
 
-  return json({ workOrders, counts, currentFilter: statusFilter });
+  return json({ workOrders: page.items, pagination: page.pagination, counts, currentFilter: statusFilter });
 }
 
 export default function WorkOrdersIndex() {
-  const { workOrders, counts, currentFilter } = useLoaderData<typeof loader>();
+  const { workOrders, pagination, counts, currentFilter } = useLoaderData<typeof loader>();
   const [searchParams, setSearchParams] = useSearchParams();
 
   const statuses = [
@@ -70,12 +73,15 @@ export default function WorkOrdersIndex() {
     <div className="p-8">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Work Orders</h1>
-        <Link
-          to="/admin/work-orders/new"
-          className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700"
-        >
-          Create Work Order
-        </Link>
+        <div className="flex items-center gap-4">
+          <ListSearchInput placeholder="Search title, property or tenant" />
+          <Link
+            to="/admin/work-orders/new"
+            className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700"
+          >
+            Create Work Order
+          </Link>
+        </div>
       </div>
 
       {/* Filters */}
@@ -90,6 +96,7 @@ export default function WorkOrdersIndex() {
                   key={value}
                   onClick={() => {
                     const params = new URLSearchParams(searchParams);
+                    params.delete('cursor');
                     if (value === 'open_in_progress') {
                       // Default filter, remove param
                       params.delete('status');
@@ -195,6 +202,7 @@ export default function WorkOrdersIndex() {
             </tbody>
           </table>
         )}
+        <ListPagination pagination={pagination} itemCount={workOrders.length} noun="work orders" />
       </div>
     </div>
   );
@@ -1,16 +1,15 @@
 import type { LoaderFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { getSiteId } from '~/lib/site.server';
+import { signedWorkerFetch } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 /**
  * GET /api/ai-usage
  * Fetch AI evaluation usage and quota for current site
  */
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const siteId = getSiteId(request);
 
   try {
@@ -19,13 +18,9 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 
     const workerUrl = `${workerEnv.WORKER_URL}/api/ops/ai-usage?month=${month}`;
     const headers = new Headers();
-
-    if (workerEnv.WORKER_INTERNAL_KEY) {
-      headers.set('X-Internal-Key', workerEnv.WORKER_INTERNAL_KEY);
-    }
     headers.set('X-Site-Id', siteId);
 
-    const response = await fetch(workerUrl, { headers });
+    const response = await signedWorkerFetch(workerUrl, workerEnv, { headers });
     const data = (await response.json().catch(() => ({}))) as {
       success?: boolean;
       message?: string;
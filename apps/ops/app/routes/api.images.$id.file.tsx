@@ -1,14 +1,12 @@
 import type { LoaderFunctionArgs } from '@remix-run/cloudflare';
 import { redirect } from '@remix-run/cloudflare';
 import { fetchImageFromWorker, getImageServeUrl } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 import { getSiteId } from '~/lib/site.server';
 import { generateImageResizingUrl } from '~/shared/utils';
 
 export async function loader({ params, context, request }: LoaderFunctionArgs) {
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const siteId = getSiteId(request);
   const { id } = params;
 
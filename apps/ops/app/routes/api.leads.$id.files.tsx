@@ -1,7 +1,8 @@
 import type { ActionFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { FileUploadSchema } from '~/shared/config';
-import { fetchLeadFromWorker, updateLeadToWorker, createLeadFileToWorker } from '~/lib/worker-client';
+import { fetchLeadFromWorker, createLeadFileToWorker } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 import { generateId } from '~/shared/utils';
 import { getSiteId } from '~/lib/site.server';
 
@@ -16,10 +17,7 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
   }
 
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const bucket = context.cloudflare.env.PRIVATE_BUCKET; // Use private bucket for application files
 
   try {
@@ -53,10 +51,7 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
       r2Key,
     });
 
-    // Update lead status if this is the first file
-    if (lead.status === 'new') {
-      await updateLeadToWorker(workerEnv, siteId, leadId, { status: 'documents_pending' });
-    }
+    // The worker moves a new application on to documents_pending with its first file
 
     // Generate presigned upload URL
     // Note: In production, use proper presigned URL generation for R2
@@ -1,10 +1,10 @@
 import type { ActionFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
-import { fetchLeadFromWorker, updateLeadToWorker } from '~/lib/worker-client';
-import { generateId } from '~/shared/utils';
+import { fetchLeadFromWorker, requestScreeningToWorker } from '~/lib/worker-client';
 import { getSiteId } from '~/lib/site.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 
-// Placeholder for Certn/SingleKey screening integration
+// Order tenant screening (provider selected by the worker's SCREENING_PROVIDER)
 export async function action({ request, params, context }: ActionFunctionArgs) {
   if (request.method !== 'POST') {
     return json({ success: false, error: 'Method not allowed' }, { status: 405 });
@@ -16,10 +16,9 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
   }
 
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const secret = context.cloudflare.env.SESSION_SECRET as string;
+  const user = await requireAuth(request, workerEnv, secret, siteId);
 
   try {
     // Verify lead exists
@@ -28,26 +27,17 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
       return json({ success: false, error: 'Lead not found' }, { status: 404 });
     }
 
-    // Update status
-    await updateLeadToWorker(workerEnv, siteId, leadId, { status: 'screening' });
-
-    // Placeholder response - in production, this would integrate with Certn/SingleKey
-    const screeningId = generateId('scr');
+    const body = (await request.json().catch(() => ({}))) as { applicantIds?: string[] };
+    const results = await requestScreeningToWorker(workerEnv, siteId, user.id, leadId, body.applicantIds);
 
     return json({
       success: true,
-      data: {
-        screeningId,
-        provider: 'placeholder',
-        status: 'pending',
-        message: 'Screening request submitted. Integration with Certn/SingleKey pending.',
-        estimatedCompletion: '24-48 hours',
-      },
+      data: results,
     });
   } catch (error) {
     console.error('Error initiating screening:', error);
     return json(
-      { success: false, error: 'Internal server error' },
+      { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
       { status: 500 }
     );
   }
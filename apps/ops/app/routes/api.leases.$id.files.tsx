@@ -1,6 +1,7 @@
 import type { ActionFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
-import { fetchLeaseByIdFromWorker } from '~/lib/worker-client';
+import { fetchLeaseByIdFromWorker, signedWorkerFetch } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 import { getSiteId } from '~/lib/site.server';
 
 export async function action({ request, params, context }: ActionFunctionArgs) {
@@ -14,10 +15,7 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
   }
 
   const siteId = getSiteId(request);
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
 
   try {
     // Verify lease exists
@@ -47,10 +45,9 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
     workerFormData.append('file', file);
     workerFormData.append('fileType', fileType);
 
-    const workerResponse = await fetch(`${workerEnv.WORKER_URL}/api/ops/leases/${leaseId}/files`, {
+    const workerResponse = await signedWorkerFetch(`${workerEnv.WORKER_URL}/api/ops/leases/${leaseId}/files`, workerEnv, {
       method: 'POST',
       headers: {
-        'X-Internal-Key': workerEnv.WORKER_INTERNAL_KEY as string,
         'X-Site-Id': siteId,
       },
       body: workerFormData,
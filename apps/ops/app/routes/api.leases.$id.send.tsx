@@ -1,8 +1,11 @@
 import type { ActionFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
-import { generateId } from '~/shared/utils';
+import { SendLeaseForSignatureSchema } from '~/shared/config';
+import { sendLeaseForSignatureToWorker } from '~/lib/worker-client';
+import { getSiteId } from '~/lib/site.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
 
-// Placeholder for DocuSign integration
+// Send a lease document for e-signature (provider selected by the worker's ESIGN_PROVIDER)
 export async function action({ request, params, context }: ActionFunctionArgs) {
   if (request.method !== 'POST') {
     return json({ success: false, error: 'Method not allowed' }, { status: 405 });
@@ -13,30 +16,30 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
     return json({ success: false, error: 'Lease ID required' }, { status: 400 });
   }
 
+  const siteId = getSiteId(request);
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const secret = context.cloudflare.env.SESSION_SECRET as string;
+  const user = await requireAuth(request, workerEnv, secret, siteId);
+
+  const parsed = SendLeaseForSignatureSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return json(
+      { success: false, error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+      { status: 400 }
+    );
+  }
+
   try {
-    // Placeholder response - in production, this would integrate with DocuSign
-    const envelopeId = generateId('env');
+    const envelope = await sendLeaseForSignatureToWorker(workerEnv, siteId, user.id, leaseId, parsed.data);
 
     return json({
       success: true,
-      data: {
-        envelopeId,
-        status: 'sent',
-        message: 'Lease sent for signature. DocuSign integration pending.',
-        signers: [
-          {
-            email: 'tenant@example.com',
-            name: 'Tenant Name',
-            status: 'sent',
-          },
-        ],
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-      },
+      data: envelope,
     });
   } catch (error) {
     console.error('Error sending lease:', error);
     return json(
-      { success: false, error: 'Internal server error' },
+      { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
       { status: 500 }
     );
   }
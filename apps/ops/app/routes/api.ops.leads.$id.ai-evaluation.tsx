@@ -1,6 +1,7 @@
 import type { ActionFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { getSiteId } from '~/lib/site.server';
+import { signedWorkerFetch } from '~/lib/worker-client';
 import { getSessionCookie, verifySessionCookie } from '~/lib/session-cookie.server';
 
 /**
@@ -48,14 +49,10 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
   headers.set('X-Site-Id', siteId);
   headers.set('X-User-Id', session.userId);
 
-  if (env.WORKER_INTERNAL_KEY) {
-    headers.set('X-Internal-Key', env.WORKER_INTERNAL_KEY);
-  }
-
   const workerUrl = `${env.WORKER_URL}/api/ops/leads/${leadId}/ai-evaluation`;
 
   try {
-    const workerResponse = await fetch(workerUrl, {
+    const workerResponse = await signedWorkerFetch(workerUrl, { ...env, userId: session.userId }, {
       method: 'POST',
       headers,
       body: JSON.stringify(payload),
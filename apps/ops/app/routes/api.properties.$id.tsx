@@ -2,9 +2,11 @@ import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-r
 import { fetchPropertyWithUnitsFromWorker, savePropertyToWorker, deletePropertyToWorker } from '~/lib/worker-client';
 import { UpdatePropertySchema } from '~/shared/config';
 import { getSiteId } from '~/lib/site.server';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export async function loader({ params, context, request }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const { id } = params;
 
@@ -13,7 +15,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   }
 
   try {
-    const property = await fetchPropertyWithUnitsFromWorker(env, siteId, id);
+    const property = await fetchPropertyWithUnitsFromWorker(workerEnv, siteId, id);
 
     if (!property) {
       return json({ success: false, error: 'Property not found' }, { status: 404 });
@@ -28,6 +30,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
 
 export async function action({ request, params, context }: ActionFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const { id } = params;
 
@@ -48,8 +51,8 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
         }, { status: 400 });
       }
 
-      await savePropertyToWorker(env, siteId, { id, ...parsed.data });
-      const updated = await fetchPropertyWithUnitsFromWorker(env, siteId, id);
+      await savePropertyToWorker(workerEnv, siteId, { id, ...parsed.data });
+      const updated = await fetchPropertyWithUnitsFromWorker(workerEnv, siteId, id);
 
       return json({ success: true, data: updated });
     } catch (error) {
@@ -60,7 +63,7 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
 
   if (request.method === 'DELETE') {
     try {
-      await deletePropertyToWorker(env, siteId, id);
+      await deletePropertyToWorker(workerEnv, siteId, id);
       return json({ success: true, message: 'Property deleted' });
     } catch (error) {
       console.error('Error deleting property:', error);
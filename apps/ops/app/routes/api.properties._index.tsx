@@ -2,13 +2,15 @@ import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-r
 import { fetchPropertiesFromWorker, savePropertyToWorker } from '~/lib/worker-client';
 import { CreatePropertySchema } from '~/shared/config';
 import { getSiteId } from '~/lib/site.server';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export async function loader({ context, request }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
 
   try {
-    const properties = await fetchPropertiesFromWorker(env, siteId);
+    const properties = await fetchPropertiesFromWorker(workerEnv, siteId);
     return json({ success: true, data: properties });
   } catch (error) {
     console.error('Error fetching properties:', error);
@@ -22,6 +24,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
   }
 
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
 
   try {
@@ -36,7 +39,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
       }, { status: 400 });
     }
 
-    const property = await savePropertyToWorker(env, siteId, parsed.data);
+    const property = await savePropertyToWorker(workerEnv, siteId, parsed.data);
     return json({ success: true, data: property }, { status: 201 });
   } catch (error) {
     console.error('Error creating property:', error);
@@ -0,0 +1,38 @@
+import type { LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { json } from '@remix-run/cloudflare';
+import { getSiteId } from '~/lib/site.server';
+import { requireAuth, requireWorkerEnv } from '~/lib/auth.server';
+import { searchFromWorker } from '~/lib/worker-client';
+
+/**
+ * GET /api/search?q=
+ * Global search for the command palette, grouped by entity type
+ */
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const siteId = getSiteId(request);
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
+  const user = await requireAuth(request, workerEnv, context.cloudflare.env.SESSION_SECRET as string, siteId);
+  // The worker only searches what the user's role and properties allow
+
+  const query = new URL(request.url).searchParams.get('q')?.trim() || '';
+  if (!query) {
+    return json({ success: true, query, results: null });
+  }
+
+  try {
+    const results = await searchFromWorker(workerEnv, siteId, query.slice(0, 100));
+    return json({ success: true, query, results });
+  } catch (error) {
+    console.error('Error searching:', error);
+    return json(
+      {
+        success: false,
+        query,
+        results: null,
+        error: 'Search failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
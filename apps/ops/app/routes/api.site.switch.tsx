@@ -1,6 +1,6 @@
 import type { ActionFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
-import { setActiveSite, getOptionalUser } from '~/lib/auth.server';
+import { setActiveSite, getOptionalUser, requireWorkerEnv } from '~/lib/auth.server';
 import { fetchUserHasAccessToSiteFromWorker, fetchUserAccessibleSitesFromWorker } from '~/lib/worker-client';
 
 /**
@@ -11,10 +11,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
         return json({ success: false, error: 'Method not allowed' }, { status: 405 });
     }
 
-    const workerEnv = {
-        WORKER_URL: context.cloudflare.env.WORKER_URL,
-        WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-    };
+    const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
     const secret = context.cloudflare.env.SESSION_SECRET as string;
 
     try {
@@ -1,5 +1,6 @@
 import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
-import { fetchUnitFromWorker, saveUnitToWorker, createUnitHistoryToWorker, fetchTenantFromWorker } from '~/lib/worker-client';
+import { fetchUnitFromWorker, fetchTenantFromWorker, assignTenantToUnitToWorker } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 import { AssignTenantSchema } from '~/shared/config';
 import { getSiteId } from '~/lib/site.server';
 
@@ -8,10 +9,7 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
     return json({ success: false, error: 'Method not allowed' }, { status: 405 });
   }
 
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const siteId = getSiteId(request);
   const { id } = params;
 
@@ -45,23 +43,8 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
       return json({ success: false, error: 'Tenant not found' }, { status: 404 });
     }
 
-    // Update unit with tenant and status
-    await saveUnitToWorker(workerEnv, siteId, {
-      id,
-      currentTenantId: tenantId,
-      status: 'occupied',
-    });
-
-    // Create history record
-    await createUnitHistoryToWorker(workerEnv, siteId, id, {
-      eventType: 'tenant_move_in',
-      eventData: {
-        tenantId,
-        tenantName: `${tenant.firstName} ${tenant.lastName}`,
-        moveInDate: moveInDate || new Date().toISOString().split('T')[0],
-        previousStatus: unit.status,
-      },
-    });
+    // Mark the unit occupied and record the move-in in one worker transaction
+    await assignTenantToUnitToWorker(workerEnv, siteId, id, { tenantId, moveInDate });
 
     return json({ success: true, message: 'Tenant assigned successfully' });
   } catch (error) {
@@ -1,5 +1,6 @@
 import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
-import { fetchUnitFromWorker, saveUnitToWorker, createUnitHistoryToWorker, fetchTenantFromWorker } from '~/lib/worker-client';
+import { fetchUnitFromWorker, removeTenantFromUnitToWorker } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 import { getSiteId } from '~/lib/site.server';
 
 export async function action({ request, params, context }: ActionFunctionArgs) {
@@ -7,10 +8,7 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
     return json({ success: false, error: 'Method not allowed' }, { status: 405 });
   }
 
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const siteId = getSiteId(request);
   const { id } = params;
 
@@ -29,26 +27,8 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
       return json({ success: false, error: 'Unit has no tenant assigned' }, { status: 400 });
     }
 
-    // Get tenant info for history
-    const tenant = await fetchTenantFromWorker(workerEnv, siteId, unit.currentTenantId);
-    const tenantName = tenant ? `${tenant.firstName} ${tenant.lastName}` : 'Unknown';
-
-    // Update unit to remove tenant
-    await saveUnitToWorker(workerEnv, siteId, {
-      id,
-      currentTenantId: null,
-      status: 'available',
-    });
-
-    // Create history record
-    await createUnitHistoryToWorker(workerEnv, siteId, id, {
-      eventType: 'tenant_move_out',
-      eventData: {
-        tenantId: unit.currentTenantId,
-        tenantName,
-        moveOutDate: new Date().toISOString().split('T')[0],
-      },
-    });
+    // Free the unit and record the move-out in one worker transaction
+    await removeTenantFromUnitToWorker(workerEnv, siteId, id);
 
     return json({ success: true, message: 'Tenant removed successfully' });
   } catch (error) {
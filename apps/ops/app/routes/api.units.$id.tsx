@@ -2,9 +2,11 @@ import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-r
 import { fetchUnitWithDetailsFromWorker, saveUnitToWorker, deleteUnitToWorker, createUnitHistoryToWorker } from '~/lib/worker-client';
 import { UpdateUnitSchema, AssignTenantSchema } from '~/shared/config';
 import { getSiteId } from '~/lib/site.server';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export async function loader({ params, context, request }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const { id } = params;
 
@@ -13,7 +15,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   }
 
   try {
-    const unit = await fetchUnitWithDetailsFromWorker(env, siteId, id);
+    const unit = await fetchUnitWithDetailsFromWorker(workerEnv, siteId, id);
 
     if (!unit) {
       return json({ success: false, error: 'Unit not found' }, { status: 404 });
@@ -28,6 +30,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
 
 export async function action({ request, params, context }: ActionFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const { id } = params;
 
@@ -49,9 +52,9 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
       }
 
       // Track status changes
-      const currentUnit = await fetchUnitWithDetailsFromWorker(env, siteId, id);
+      const currentUnit = await fetchUnitWithDetailsFromWorker(workerEnv, siteId, id);
       if (currentUnit && parsed.data.status && parsed.data.status !== currentUnit.status) {
-        await createUnitHistoryToWorker(env, siteId, id, {
+        await createUnitHistoryToWorker(workerEnv, siteId, id, {
           unitId: id,
           eventType: 'status_change',
           eventData: {
@@ -63,7 +66,7 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
 
       // Track rent changes
       if (currentUnit && parsed.data.rentAmount && parsed.data.rentAmount !== currentUnit.rentAmount) {
-        await createUnitHistoryToWorker(env, siteId, id, {
+        await createUnitHistoryToWorker(workerEnv, siteId, id, {
           unitId: id,
           eventType: 'rent_change',
           eventData: {
@@ -73,8 +76,8 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
         });
       }
 
-      await saveUnitToWorker(env, siteId, { id, ...parsed.data });
-      const updated = await fetchUnitWithDetailsFromWorker(env, siteId, id);
+      await saveUnitToWorker(workerEnv, siteId, { id, ...parsed.data });
+      const updated = await fetchUnitWithDetailsFromWorker(workerEnv, siteId, id);
 
       return json({ success: true, data: updated });
     } catch (error) {
@@ -85,7 +88,7 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
 
   if (request.method === 'DELETE') {
     try {
-      await deleteUnitToWorker(env, siteId, id);
+      await deleteUnitToWorker(workerEnv, siteId, id);
       return json({ success: true, message: 'Unit deleted' });
     } catch (error) {
       console.error('Error deleting unit:', error);
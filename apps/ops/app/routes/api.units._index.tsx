@@ -2,16 +2,18 @@ import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-r
 import { fetchUnitsFromWorker, saveUnitToWorker } from '~/lib/worker-client';
 import { CreateUnitSchema } from '~/shared/config';
 import { getSiteId } from '~/lib/site.server';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const url = new URL(request.url);
   const propertyId = url.searchParams.get('propertyId') || undefined;
   const status = url.searchParams.get('status') as 'available' | 'occupied' | 'maintenance' | 'pending' | undefined;
 
   try {
-    const units = await fetchUnitsFromWorker(env, siteId, propertyId);
+    const units = await fetchUnitsFromWorker(workerEnv, siteId, propertyId);
     return json({ success: true, data: units });
   } catch (error) {
     console.error('Error fetching units:', error);
@@ -25,6 +27,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
   }
 
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
 
   try {
@@ -47,7 +50,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
       }, { status: 400 });
     }
 
-    const unit = await saveUnitToWorker(env, siteId, { propertyId, ...parsed.data });
+    const unit = await saveUnitToWorker(workerEnv, siteId, { propertyId, ...parsed.data });
     return json({ success: true, data: unit }, { status: 201 });
   } catch (error) {
     console.error('Error creating unit:', error);
@@ -1,6 +1,6 @@
 import type { ActionFunctionArgs } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
-import { requireAuth, hashPassword, verifyPassword } from '~/lib/auth.server';
+import { requireAuth, hashPassword, verifyPassword, requireWorkerEnv } from '~/lib/auth.server';
 import { fetchUserByEmailFromWorker, updateUserPasswordToWorker } from '~/lib/worker-client';
 
 export async function action({ request, context }: ActionFunctionArgs) {
@@ -9,10 +9,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
     }
 
         const secret = context.cloudflare.env.SESSION_SECRET as string;
-        const workerEnv = {
-            WORKER_URL: context.cloudflare.env.WORKER_URL,
-            WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-        };
+        const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
         const siteId = (new URL(request.url)).hostname || 'default';
 
     // Ensure user is authenticated
@@ -2,6 +2,7 @@ import type { LoaderFunctionArgs, ActionFunctionArgs } from '@remix-run/cloudfla
 import { json } from '@remix-run/cloudflare';
 import { UpdateWorkOrderSchema } from '~/shared/config';
 import { fetchWorkOrderFromWorker, saveWorkOrderToWorker, deleteWorkOrderToWorker } from '~/lib/worker-client';
+import { requireWorkerEnv } from '~/lib/auth.server';
 import { getSiteId } from '~/lib/site.server';
 
 // GET /api/work-orders/:id
@@ -11,10 +12,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
     return json({ success: false, error: 'Work order ID required' }, { status: 400 });
   }
 
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const siteId = getSiteId(request);
 
   try {
@@ -39,10 +37,7 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
     return json({ success: false, error: 'Work order ID required' }, { status: 400 });
   }
 
-  const workerEnv = {
-    WORKER_URL: context.cloudflare.env.WORKER_URL,
-    WORKER_INTERNAL_KEY: context.cloudflare.env.WORKER_INTERNAL_KEY,
-  };
+  const workerEnv = await requireWorkerEnv(request, context.cloudflare.env);
   const siteId = getSiteId(request);
 
   try {
@@ -3,10 +3,12 @@ import { json } from '@remix-run/cloudflare';
 import { CreateWorkOrderSchema } from '~/shared/config';
 import { fetchWorkOrdersFromWorker, saveWorkOrderToWorker } from '~/lib/worker-client';
 import { getSiteId } from '~/lib/site.server';
+import { requireWorkerEnv } from '~/lib/auth.server';
 
 // GET /api/work-orders
 export async function loader({ request, context }: LoaderFunctionArgs) {
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
   const url = new URL(request.url);
 
@@ -14,7 +16,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   const propertyId = url.searchParams.get('propertyId') || undefined;
 
   try {
-    const workOrders = await fetchWorkOrdersFromWorker(env, siteId);
+    const workOrders = await fetchWorkOrdersFromWorker(workerEnv, siteId);
     return json({ success: true, data: workOrders });
   } catch (error) {
     console.error('Error fetching work orders:', error);
@@ -32,6 +34,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
   }
 
   const env = context.cloudflare.env;
+  const workerEnv = await requireWorkerEnv(request, env);
   const siteId = getSiteId(request);
 
   try {
@@ -46,7 +49,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
     }
 
     const data = validationResult.data;
-    const workOrder = await saveWorkOrderToWorker(env, siteId, {
+    const workOrder = await saveWorkOrderToWorker(workerEnv, siteId, {
       propertyId: data.propertyId,
       tenantId: data.tenantId,
       title: data.title,
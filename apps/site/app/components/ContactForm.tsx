@@ -9,19 +9,23 @@ import {
   CardContent,
   CardHeader,
   CardTitle,
-  Input,
   Label,
   Select,
-  Textarea,
 } from "@leaselab/ui-components";
 import type { Listing } from "~/lib/types";
+import type { IntakeForm } from "~/shared/types";
+import { DEFAULT_INTAKE_FORM_SCHEMA, GENERAL_INQUIRY_FIELD_KEYS } from "~/shared/utils";
 import FileUpload from "./FileUpload";
+import IntakeFieldInput from "./IntakeFieldInput";
 
 type ContactFormProps = {
   listings?: Listing[];
   selectedProperty?: string;
+  intakeForm?: IntakeForm | null;
 };
 
+const DEFAULT_INTAKE_FORM: IntakeForm = { version: 0, schema: DEFAULT_INTAKE_FORM_SCHEMA };
+
 function getFirstDayOfNextMonth(): string {
   const now = new Date();
   const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
@@ -30,14 +34,13 @@ function getFirstDayOfNextMonth(): string {
   return `${year}-${month}-01`;
 }
 
-export default function ContactForm({ listings = [], selectedProperty }: ContactFormProps) {
-  const fetcher = useFetcher<{ error?: string; success?: boolean }>();
+export default function ContactForm({ listings = [], selectedProperty, intakeForm }: ContactFormProps) {
+  const fetcher = useFetcher<{ error?: string; fields?: Record<string, string>; success?: boolean }>();
   const isSubmitting = fetcher.state === "submitting" || fetcher.state === "loading";
   const hasRedirected = useRef(false);
 
   const [selectedListingId, setSelectedListingId] = useState(selectedProperty || "");
   const [fileIds, setFileIds] = useState<string[]>([]);
-  const [employmentStatus, setEmploymentStatus] = useState("");
 
   useEffect(() => {
     if (selectedProperty) {
@@ -76,6 +79,17 @@ export default function ContactForm({ listings = [], selectedProperty }: Contact
   const unitIdToSubmit = selectedListingId === "other" ? undefined : selectedListingId;
   const isGeneralInquiry = selectedListingId === "other";
 
+  // General inquiries only ask for contact details and a message
+  const form = intakeForm ?? DEFAULT_INTAKE_FORM;
+  const visibleSections = form.schema.sections
+    .map((section) => ({
+      ...section,
+      fields: isGeneralInquiry
+        ? section.fields.filter((field) => (GENERAL_INQUIRY_FIELD_KEYS as string[]).includes(field.key))
+        : section.fields,
+    }))
+    .filter((section) => section.fields.length > 0);
+
   return (
     <Card>
       <CardHeader>
@@ -116,73 +130,24 @@ export default function ContactForm({ listings = [], selectedProperty }: Contact
         <input type="hidden" name="propertyId" value={propertyIdToSubmit} />
         {unitIdToSubmit && <input type="hidden" name="unitId" value={unitIdToSubmit} />}
 
-        {/* Name Fields */}
-        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-          <div className="space-y-2">
-            <Label htmlFor="firstName">
-              First Name <span className="text-red-400">*</span>
-            </Label>
-            <Input type="text" id="firstName" name="firstName" required />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="lastName">
-              Last Name <span className="text-red-400">*</span>
-            </Label>
-            <Input type="text" id="lastName" name="lastName" required />
-          </div>
-        </div>
-
-        {/* Email */}
-        <div className="space-y-2">
-          <Label htmlFor="email">
-            Email <span className="text-red-400">*</span>
-          </Label>
-          <Input type="email" id="email" name="email" required />
-        </div>
-
-        {/* Phone */}
-        <div className="space-y-2">
-          <Label htmlFor="phone">
-            Phone <span className="text-red-400">*</span>
-          </Label>
-          <Input type="tel" id="phone" name="phone" required />
-        </div>
-
-        {/* Move-in Date - Hidden for General Inquiries */}
-        {!isGeneralInquiry && (
-          <div className="space-y-2">
-            <Label htmlFor="moveInDate">Ideal Move-in Date</Label>
-            <Input type="date" id="moveInDate" name="moveInDate" defaultValue={getFirstDayOfNextMonth()} />
-          </div>
-        )}
-
-        {/* Employment Status - Hidden for General Inquiries */}
-        {!isGeneralInquiry && (
-          <div className="space-y-2">
-            <Label htmlFor="employmentStatus">Employment Status</Label>
-            <Select
-              id="employmentStatus"
-              name="employmentStatus"
-              value={employmentStatus}
-              onChange={(event) => setEmploymentStatus(event.target.value)}
-            >
-              <option value="">Select...</option>
-              <option value="employed">Employed</option>
-              <option value="self_employed">Self-Employed</option>
-              <option value="student">Student</option>
-              <option value="retired">Retired</option>
-              <option value="unemployed">Unemployed</option>
-            </Select>
-          </div>
-        )}
-
-        {/* Monthly Income removed (internal-only now) */}
-
-        {/* Message */}
-        <div className="space-y-2">
-          <Label htmlFor="message">Message</Label>
-          <Textarea id="message" name="message" rows={4} />
-        </div>
+        {/* Intake form questions (configured per site) */}
+        <input type="hidden" name="intakeFormVersion" value={form.version} />
+        {visibleSections.map((section) => (
+          <fieldset key={section.id} className="space-y-4">
+            {visibleSections.length > 1 && (
+              <legend className="mb-2 text-sm font-semibold">{section.title}</legend>
+            )}
+            {section.description && <p className="text-sm text-muted-foreground">{section.description}</p>}
+            {section.fields.map((field) => (
+              <IntakeFieldInput
+                key={field.key}
+                field={field}
+                error={fetcher.data?.fields?.[field.key]}
+                defaultValue={field.key === "moveInDate" ? getFirstDayOfNextMonth() : undefined}
+              />
+            ))}
+          </fieldset>
+        ))}
 
         {/* File Upload - Hidden for General Inquiries */}
         {!isGeneralInquiry && (
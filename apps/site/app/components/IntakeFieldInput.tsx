@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Button, Input, Label, Select, Textarea } from "@leaselab/ui-components";
+import type { IntakeFormField, IntakeListItem } from "~/shared/types";
+import { MAX_INTAKE_LIST_ITEMS, formatIntakeOption, getIntakeFieldOptions } from "~/shared/utils";
+
+type IntakeFieldInputProps = {
+  field: IntakeFormField;
+  error?: string;
+  defaultValue?: string;
+};
+
+const INPUT_TYPES: Record<string, string> = {
+  text: "text",
+  email: "email",
+  phone: "tel",
+  number: "number",
+  date: "date",
+};
+
+/**
+ * Renders one intake form question. Inputs are named after the field key;
+ * list answers are posted as a JSON array in a hidden input.
+ */
+export default function IntakeFieldInput({ field, error, defaultValue }: IntakeFieldInputProps) {
+  const id = `intake-${field.key}`;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>
+        {field.label} {field.required && <span className="text-red-400">*</span>}
+      </Label>
+      {renderControl(field, id, defaultValue)}
+      {field.helpText && <p className="text-xs text-muted-foreground">{field.helpText}</p>}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+function renderControl(field: IntakeFormField, id: string, defaultValue?: string) {
+  switch (field.type) {
+    case "textarea":
+      return <Textarea id={id} name={field.key} rows={4} required={field.required} />;
+    case "select":
+      return (
+        <Select id={id} name={field.key} required={field.required} defaultValue="">
+          <option value="">Select...</option>
+          {getIntakeFieldOptions(field).map((option) => (
+            <option key={option} value={option}>
+              {formatIntakeOption(option)}
+            </option>
+          ))}
+        </Select>
+      );
+    case "yes_no":
+      return (
+        <Select id={id} name={field.key} required={field.required} defaultValue="">
+          <option value="">Select...</option>
+          <option value="yes">Yes</option>
+          <option value="no">No</option>
+        </Select>
+      );
+    case "list":
+      return <ListFieldInput field={field} />;
+    default:
+      return (
+        <Input
+          type={INPUT_TYPES[field.type] || "text"}
+          id={id}
+          name={field.key}
+          required={field.required}
+          defaultValue={defaultValue}
+        />
+      );
+  }
+}
+
+function ListFieldInput({ field }: { field: IntakeFormField }) {
+  const itemFields = field.itemFields ?? [];
+  const maxItems = field.maxItems ?? MAX_INTAKE_LIST_ITEMS;
+  const [items, setItems] = useState<IntakeListItem[]>(field.required ? [{}] : []);
+
+  const updateItem = (index: number, key: string, value: string) =>
+    setItems(items.map((item, i) => (i === index ? { ...item, [key]: value } : item)));
+
+  return (
+    <div className="space-y-3">
+      <input type="hidden" name={field.key} value={JSON.stringify(items)} />
+      {items.map((item, index) => (
+        <div key={index} className="flex flex-wrap items-end gap-2 rounded-md border p-3">
+          {itemFields.map((itemField) => (
+            <div key={itemField.key} className="min-w-[8rem] flex-1 space-y-1">
+              <Label htmlFor={`intake-${field.key}-${index}-${itemField.key}`} className="text-xs">
+                {itemField.label} {itemField.required && <span className="text-red-400">*</span>}
+              </Label>
+              {itemField.type === "yes_no" ? (
+                <Select
+                  id={`intake-${field.key}-${index}-${itemField.key}`}
+                  value={String(item[itemField.key] ?? "")}
+                  onChange={(event) => updateItem(index, itemField.key, event.target.value)}
+                >
+                  <option value="">Select...</option>
+                  <option value="yes">Yes</option>
+                  <option value="no">No</option>
+                </Select>
+              ) : (
+                <Input
+                  type={INPUT_TYPES[itemField.type] || "text"}
+                  id={`intake-${field.key}-${index}-${itemField.key}`}
+                  value={String(item[itemField.key] ?? "")}
+                  onChange={(event) => updateItem(index, itemField.key, event.target.value)}
+                />
+              )}
+            </div>
+          ))}
+          <Button type="button" variant="ghost" onClick={() => setItems(items.filter((_, i) => i !== index))}>
+            Remove
+          </Button>
+        </div>
+      ))}
+      {items.length < maxItems && (
+        <Button type="button" variant="outline" onClick={() => setItems([...items, {}])}>
+          Add {field.label.toLowerCase()}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "@remix-run/react";
 
 export type Tab = {
   id: string;
@@ -42,6 +43,12 @@ export default function TabbedLayout({ tabs, defaultTab, activeTab: controlledAc
             {tab.label}
           </button>
         ))}
+        <Link
+          to="/portal"
+          className="ml-auto px-4 py-2 rounded-lg text-white/60 transition-colors hover:text-white hover:bg-white/5"
+        >
+          Tenant Portal
+        </Link>
       </div>
 
       {/* Tab Content */}
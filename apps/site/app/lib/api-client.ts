@@ -1,4 +1,12 @@
 import type { Listing } from './types';
+import type { AcceptApplicantInviteInput } from '~/shared/config';
+import type {
+    ApplicantInvite,
+    ApplicantInviteDocument,
+    ApplicationStatusView,
+    IntakeForm,
+    TenantPortalSession,
+} from '~/shared/types';
 
 /**
  * API Client for communicating with the backend ops API
@@ -41,6 +49,22 @@ export interface SiteConfig {
     theme?: ThemeConfig;
 }
 
+/**
+ * A failed worker API request. `status` lets pages tell e.g. an unknown link
+ * (404) from a used one (410); `detail` is the worker's message, if any.
+ */
+export class ApiRequestError extends Error {
+    readonly status: number;
+    readonly detail?: string;
+
+    constructor(message: string, status: number, detail?: string) {
+        super(message);
+        this.name = 'ApiRequestError';
+        this.status = status;
+        this.detail = detail;
+    }
+}
+
 /**
  * Get the API base URL from environment
  */
@@ -85,8 +109,12 @@ async function apiRequest<T>(
     });
 
     if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' })) as { error?: string };
-        throw new Error(errorData.error || `API request failed with status ${response.status}`);
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' })) as { error?: string; message?: string };
+        throw new ApiRequestError(
+            errorData.error || `API request failed with status ${response.status}`,
+            response.status,
+            errorData.message
+        );
     }
 
     const data = await response.json() as { success: boolean; data?: T; error?: string };
@@ -147,6 +175,15 @@ export async function fetchThemeConfig(
     return apiRequest<ThemeConfig>(env, '/api/public/theme');
 }
 
+/**
+ * Fetch the site's application intake form
+ */
+export async function fetchIntakeForm(
+    env: { WORKER_URL?: string; SITE_API_TOKEN?: string }
+): Promise<IntakeForm> {
+    return apiRequest<IntakeForm>(env, '/api/public/intake-form');
+}
+
 /**
  * Fetch a single unit by ID (includes property details)
  */
@@ -223,3 +260,144 @@ export async function submitApplication(
     const result = await response.json() as { data?: any };
     return result.data;
 }
+
+/**
+ * Ask the worker to email a tenant portal sign-in link.
+ * Resolves the same way whether or not the email belongs to a tenant.
+ */
+export async function requestPortalLoginLink(
+    env: { WORKER_URL?: string; SITE_API_TOKEN?: string },
+    email: string,
+    verifyUrl: string
+): Promise<void> {
+    await apiRequest<void>(env, '/api/public/portal/login-link', {
+        method: 'POST',
+        body: JSON.stringify({ email, verifyUrl }),
+    });
+}
+
+/**
+ * Exchange a sign-in link token for a tenant portal session
+ */
+export async function createPortalSession(
+    env: { WORKER_URL?: string; SITE_API_TOKEN?: string },
+    token: string
+): Promise<TenantPortalSession> {
+    return apiRequest<TenantPortalSession>(env, '/api/public/portal/sessions', {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+    });
+}
+
+/**
+ * Fetch an open co-applicant or guarantor invite.
+ * Throws ApiRequestError with status 404 (unknown) or 410 (expired or used).
+ */
+export async function fetchApplicantInvite(
+    env: { WORKER_URL?: string; SITE_API_TOKEN?: string },
+    token: string
+): Promise<ApplicantInvite> {
+    return apiRequest<ApplicantInvite>(env, `/api/public/applicant-invites/${encodeURIComponent(token)}`);
+}
+
+/**
+ * Upload one of an invited applicant's documents
+ */
+export async function uploadApplicantInviteDocument(
+    env: { WORKER_URL?: string; SITE_API_TOKEN?: string },
+    token: string,
+    documentType: string,
+    file: File
+): Promise<ApplicantInviteDocument> {
+    return uploadApplicantDocument(
+        env,
+        `/api/public/applicant-invites/${encodeURIComponent(token)}/documents`,
+        documentType,
+        file
+    );
+}
+
+async function uploadApplicantDocument(
+    env: { WORKER_URL?: string; SITE_API_TOKEN?: string },
+    path: string,
+    documentType: string,
+    file: File
+): Promise<ApplicantInviteDocument> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('documentType', documentType);
+
+    // Multipart, so apiRequest's JSON content type doesn't apply
+    const response = await fetch(`${getApiUrl(env)}${path}`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${getApiToken(env)}`,
+        },
+        body: formData,
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' })) as { error?: string; message?: string };
+        throw new ApiRequestError(errorData.error || 'Failed to upload document', response.status, errorData.message);
+    }
+
+    const result = await response.json() as { data: ApplicantInviteDocument };
+    return result.data;
+}
+
+/**
+ * Submit an invited applicant's details and accept the invite
+ */
+export async function acceptApplicantInvite(
+    env: { WORKER_URL?: string; SITE_API_TOKEN?: string },
+    token: string,
+    details: AcceptApplicantInviteInput
+): Promise<void> {
+    await apiRequest<void>(env, `/api/public/applicant-invites/${encodeURIComponent(token)}/accept`, {
+        method: 'POST',
+        body: JSON.stringify(details),
+    });
+}
+
+/**
+ * Signed query params from an emailed application status link
+ */
+export interface ApplicationStatusLink {
+    expires: string;
+    signature: string;
+}
+
+/**
+ * Fetch an applicant's view of their application.
+ * Throws ApiRequestError with status 403 (invalid or expired link) or 404.
+ */
+export async function fetchApplicationStatus(
+    env: { WORKER_URL?: string; SITE_API_TOKEN?: string },
+    applicationId: string,
+    link: ApplicationStatusLink
+): Promise<ApplicationStatusView> {
+    const query = new URLSearchParams({ expires: link.expires, signature: link.signature });
+    return apiRequest<ApplicationStatusView>(
+        env,
+        `/api/public/applications/${encodeURIComponent(applicationId)}/status?${query}`
+    );
+}
+
+/**
+ * Upload a document from the application status page
+ */
+export async function uploadApplicationStatusDocument(
+    env: { WORKER_URL?: string; SITE_API_TOKEN?: string },
+    applicationId: string,
+    link: ApplicationStatusLink,
+    documentType: string,
+    file: File
+): Promise<ApplicantInviteDocument> {
+    const query = new URLSearchParams({ expires: link.expires, signature: link.signature });
+    return uploadApplicantDocument(
+        env,
+        `/api/public/applications/${encodeURIComponent(applicationId)}/status/documents?${query}`,
+        documentType,
+        file
+    );
+}
@@ -0,0 +1,208 @@
+import { createCookie, redirect } from '@remix-run/cloudflare';
+import type {
+    Lease,
+    LeaseFile,
+    LeaseLedger,
+    Tenant,
+    TenantPortalProfile,
+    WorkOrder,
+    WorkOrderAttachment,
+} from '~/shared/types';
+import { WORK_ORDER_ATTACHMENT_CONSTRAINTS } from '~/shared/config';
+
+/**
+ * Tenant portal session and API helpers
+ *
+ * The portal session token lives in an HttpOnly cookie and is sent to the
+ * worker's /api/portal routes in place of the site API token.
+ */
+
+type PortalEnv = { WORKER_URL?: string };
+
+export type PortalLease = Lease & { files: LeaseFile[] };
+export type PortalWorkOrder = WorkOrder & { attachments: WorkOrderAttachment[] };
+
+export const portalSessionCookie = createCookie('portal_session', {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+    path: '/',
+});
+
+/**
+ * Set-Cookie header value for a new session
+ */
+export async function commitPortalSession(sessionToken: string, expiresAt: string): Promise<string> {
+    return portalSessionCookie.serialize(sessionToken, { expires: new Date(expiresAt) });
+}
+
+/**
+ * Set-Cookie header value that clears the session
+ */
+export async function destroyPortalSession(): Promise<string> {
+    return portalSessionCookie.serialize('', { maxAge: 0 });
+}
+
+export async function getPortalSessionToken(request: Request): Promise<string | null> {
+    const token = await portalSessionCookie.parse(request.headers.get('Cookie'));
+    return typeof token === 'string' && token ? token : null;
+}
+
+/**
+ * Session token for the request, or a redirect to the login page
+ */
+export async function requirePortalSession(request: Request): Promise<string> {
+    const token = await getPortalSessionToken(request);
+    if (!token) {
+        throw redirect('/portal/login');
+    }
+    return token;
+}
+
+function getWorkerUrl(env: PortalEnv): string {
+    if (!env.WORKER_URL) {
+        throw new Error('WORKER_URL environment variable must be configured');
+    }
+    return env.WORKER_URL;
+}
+
+/**
+ * Raw request to the worker's portal API. An expired or revoked session
+ * clears the cookie and sends the tenant back to the login page.
+ */
+export async function portalFetch(
+    env: PortalEnv,
+    sessionToken: string,
+    endpoint: string,
+    options?: RequestInit
+): Promise<Response> {
+    const response = await fetch(`${getWorkerUrl(env)}/api/portal${endpoint}`, {
+        ...options,
+        headers: {
+            ...options?.headers,
+            'Authorization': `Bearer ${sessionToken}`,
+        },
+    });
+
+    if (response.status === 401) {
+        throw redirect('/portal/login', {
+            headers: { 'Set-Cookie': await destroyPortalSession() },
+        });
+    }
+
+    return response;
+}
+
+async function portalRequest<T>(
+    env: PortalEnv,
+    sessionToken: string,
+    endpoint: string,
+    options?: RequestInit
+): Promise<T> {
+    const response = await portalFetch(env, sessionToken, endpoint, options);
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' })) as {
+            error?: string;
+            message?: string;
+        };
+        throw new Error(errorData.message || errorData.error || `API request failed with status ${response.status}`);
+    }
+
+    const data = await response.json() as { success: boolean; data?: T; error?: string };
+    if (!data.success) {
+        throw new Error(data.error || 'API request failed');
+    }
+
+    return data.data as T;
+}
+
+function jsonBody(method: string, body: unknown): RequestInit {
+    return {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    };
+}
+
+export async function fetchPortalProfile(env: PortalEnv, sessionToken: string): Promise<TenantPortalProfile> {
+    return portalRequest<TenantPortalProfile>(env, sessionToken, '/me');
+}
+
+export async function updatePortalEmergencyContact(
+    env: PortalEnv,
+    sessionToken: string,
+    data: { emergencyContact?: string; emergencyPhone?: string }
+): Promise<Tenant> {
+    return portalRequest<Tenant>(env, sessionToken, '/me/emergency-contact', jsonBody('PUT', data));
+}
+
+export async function fetchPortalLease(env: PortalEnv, sessionToken: string): Promise<PortalLease | null> {
+    return portalRequest<PortalLease | null>(env, sessionToken, '/lease');
+}
+
+export async function fetchPortalLedger(env: PortalEnv, sessionToken: string): Promise<LeaseLedger | null> {
+    return portalRequest<LeaseLedger | null>(env, sessionToken, '/ledger');
+}
+
+export async function fetchPortalWorkOrders(env: PortalEnv, sessionToken: string): Promise<WorkOrder[]> {
+    return portalRequest<WorkOrder[]>(env, sessionToken, '/work-orders');
+}
+
+export async function fetchPortalWorkOrder(
+    env: PortalEnv,
+    sessionToken: string,
+    id: string
+): Promise<PortalWorkOrder> {
+    return portalRequest<PortalWorkOrder>(env, sessionToken, `/work-orders/${id}`);
+}
+
+export async function createPortalWorkOrder(
+    env: PortalEnv,
+    sessionToken: string,
+    data: { title: string; description: string; category: string; priority?: string }
+): Promise<WorkOrder> {
+    return portalRequest<WorkOrder>(env, sessionToken, '/work-orders', jsonBody('POST', data));
+}
+
+export async function uploadPortalWorkOrderAttachment(
+    env: PortalEnv,
+    sessionToken: string,
+    workOrderId: string,
+    file: File
+): Promise<WorkOrderAttachment> {
+    const formData = new FormData();
+    formData.append('file', file);
+    // Don't set Content-Type - let fetch set it with the boundary
+    return portalRequest<WorkOrderAttachment>(env, sessionToken, `/work-orders/${workOrderId}/attachments`, {
+        method: 'POST',
+        body: formData,
+    });
+}
+
+/**
+ * Check photos and videos before forwarding them, so one bad file doesn't
+ * leave a request half uploaded. Returns an error message or null.
+ */
+export function validateAttachments(files: File[], existingCount = 0): string | null {
+    const { allowedImageTypes, allowedVideoTypes, maxImageSize, maxVideoSize, maxAttachmentsPerWorkOrder } =
+        WORK_ORDER_ATTACHMENT_CONSTRAINTS;
+    if (existingCount + files.length > maxAttachmentsPerWorkOrder) {
+        return `A request can have at most ${maxAttachmentsPerWorkOrder} photos and videos`;
+    }
+    for (const file of files) {
+        const isVideo = (allowedVideoTypes as readonly string[]).includes(file.type);
+        if (!isVideo && !(allowedImageTypes as readonly string[]).includes(file.type)) {
+            return `${file.name} is not a supported photo or video (use JPEG, PNG, HEIC, WebP, MP4, MOV or WebM)`;
+        }
+        const maxSize = isVideo ? maxVideoSize : maxImageSize;
+        if (file.size > maxSize) {
+            return `${file.name} is larger than ${maxSize / 1024 / 1024}MB`;
+        }
+    }
+    return null;
+}
+
+export async function logoutPortal(env: PortalEnv, sessionToken: string): Promise<void> {
+    await portalRequest<void>(env, sessionToken, '/logout', { method: 'POST' });
+}
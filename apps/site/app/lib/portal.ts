@@ -0,0 +1,38 @@
+/**
+ * Labels shared by the tenant portal pages
+ */
+
+export const WORK_ORDER_CATEGORY_OPTIONS = [
+    { value: 'plumbing', label: 'Plumbing' },
+    { value: 'electrical', label: 'Electrical' },
+    { value: 'hvac', label: 'Heating / cooling' },
+    { value: 'appliance', label: 'Appliance' },
+    { value: 'structural', label: 'Doors, windows, walls or floors' },
+    { value: 'pest', label: 'Pests' },
+    { value: 'landscaping', label: 'Outdoor / landscaping' },
+    { value: 'other', label: 'Something else' },
+];
+
+export const WORK_ORDER_PRIORITY_OPTIONS = [
+    { value: 'low', label: 'Low - whenever convenient' },
+    { value: 'medium', label: 'Normal' },
+    { value: 'high', label: 'High - affects daily living' },
+    { value: 'emergency', label: 'Emergency - risk to safety or property' },
+];
+
+export const WORK_ORDER_STATUS_LABELS: Record<string, string> = {
+    open: 'Received',
+    in_progress: 'In progress',
+    pending_parts: 'Waiting for parts',
+    scheduled: 'Scheduled',
+    completed: 'Completed',
+    cancelled: 'Cancelled',
+};
+
+// File input filter; mirrors WORK_ORDER_ATTACHMENT_CONSTRAINTS, which the server enforces
+export const WORK_ORDER_ATTACHMENT_ACCEPT =
+    'image/jpeg,image/png,image/heic,image/heif,image/webp,video/mp4,video/quicktime,video/webm';
+
+export function getWorkOrderCategoryLabel(category: string): string {
+    return WORK_ORDER_CATEGORY_OPTIONS.find((option) => option.value === category)?.label || category;
+}
@@ -4,13 +4,14 @@ import { useLoaderData, useSearchParams, Link } from "@remix-run/react";
 import { useState } from "react";
 import { Button, Card, CardContent, buttonVariants, cn } from "@leaselab/ui-components";
 import PropertyMap from "~/components/PropertyMap";
-import { fetchProperties, fetchSiteConfig } from "~/lib/api-client";
+import { fetchProperties, fetchSiteConfig, fetchIntakeForm } from "~/lib/api-client";
 import { applyFilters, sortByStatus } from "~/lib/filters";
 import ListingCard from "~/components/ListingCard";
 import Filters from "~/components/Filters";
 import TabbedLayout from "~/components/TabbedLayout";
 import AboutSection from "~/components/AboutSection";
 import ContactForm from "~/components/ContactForm";
+import type { IntakeForm } from "~/shared/types";
 
 export const meta: MetaFunction = () => {
   return [
@@ -36,9 +37,11 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 
   try {
     // Fetch data from backend API
-    const [allListings, siteConfig] = await Promise.all([
+    const [allListings, siteConfig, intakeForm] = await Promise.all([
       fetchProperties(env, filters),
       fetchSiteConfig(env),
+      // The form falls back to the default fields if this fails
+      fetchIntakeForm(env).catch(() => null),
     ]);
 
     const filtered = applyFilters(allListings, filters);
@@ -48,6 +51,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
       listings: sorted,
       allListings,
       siteConfig,
+      intakeForm,
       mapsApiKey: env.GOOGLE_MAPS_API_KEY || undefined,
       hasFilters: Object.values(filters).some(Boolean),
     });
@@ -59,10 +63,11 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 
 export default function Index() {
   const data = useLoaderData<typeof loader>();
-  const { listings, allListings, siteConfig, hasFilters, mapsApiKey } = data as {
+  const { listings, allListings, siteConfig, intakeForm, hasFilters, mapsApiKey } = data as {
     listings: any[];
     allListings: any[];
     siteConfig: any;
+    intakeForm: IntakeForm | null;
     hasFilters: boolean;
     mapsApiKey: string | undefined;
   };
@@ -171,7 +176,7 @@ export default function Index() {
       label: "Submit an Application",
       content: (
         <div className="space-y-6">
-          <ContactForm listings={allListings} />
+          <ContactForm listings={allListings} intakeForm={intakeForm} />
         </div>
       ),
     },
@@ -1,6 +1,9 @@
 import type { ActionFunctionArgs } from "@remix-run/cloudflare";
 import { json, redirect } from "@remix-run/cloudflare";
 
+// Form inputs that are not intake form answers
+const RESERVED_FIELDS = new Set(["listingSelect", "propertyId", "unitId", "intakeFormVersion", "fileIds"]);
+
 export async function action({ request, context }: ActionFunctionArgs) {
   if (request.method !== "POST") {
     return json({ error: "Method not allowed" }, { status: 405 });
@@ -10,14 +13,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
 
   const propertyId = formData.get("propertyId") as string;
   const unitId = formData.get("unitId") as string | null;
-  const firstName = formData.get("firstName") as string;
-  const lastName = formData.get("lastName") as string;
-  const email = formData.get("email") as string;
-  const phone = formData.get("phone") as string;
-  const moveInDate = formData.get("moveInDate") as string;
-  const employmentStatus = formData.get("employmentStatus") as string;
-  // monthlyIncome removed from public submission
-  const message = formData.get("message") as string;
+  const intakeFormVersion = formData.get("intakeFormVersion") as string | null;
   const fileIdsJson = formData.get("fileIds") as string;
 
   // Parse fileIds from JSON
@@ -33,12 +29,8 @@ export async function action({ request, context }: ActionFunctionArgs) {
   // Check if this is a General Inquiry
   const isGeneralInquiry = propertyId === "general";
 
-  // Validate required fields
-  if (!propertyId || !firstName || !lastName || !email || !phone) {
-    return json(
-      { error: "Property, name, email, and phone are required" },
-      { status: 400 }
-    );
+  if (!propertyId) {
+    return json({ error: "Please select a property" }, { status: 400 });
   }
 
   // General Inquiries should not have attachments
@@ -49,10 +41,13 @@ export async function action({ request, context }: ActionFunctionArgs) {
     );
   }
 
-  // Validate email format
-  const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-  if (!emailRegex.test(email) || email.length > 320) {
-    return json({ error: "Invalid email format" }, { status: 400 });
+  // Every other field is an intake form answer; the worker validates them
+  // against the site's form and ignores anything not on it
+  const answers: Record<string, string> = {};
+  for (const [key, value] of formData.entries()) {
+    if (typeof value === "string" && !RESERVED_FIELDS.has(key)) {
+      answers[key] = value;
+    }
   }
 
   // Handle both Cloudflare Pages and Vite dev mode
@@ -71,21 +66,15 @@ export async function action({ request, context }: ActionFunctionArgs) {
   }
 
   try {
-    // Prepare payload - General Inquiries have simplified requirements
-    const payload: any = {
+    const payload: Record<string, unknown> = {
+      ...answers,
       propertyId,
-      firstName,
-      lastName,
-      email,
-      phone,
-      message,
+      intakeFormVersion: intakeFormVersion ? Number(intakeFormVersion) : undefined,
     };
 
     // Only include these fields for non-general inquiries (actual applications)
     if (!isGeneralInquiry) {
       payload.unitId = unitId || undefined;
-      payload.employmentStatus = employmentStatus || "employed";
-      payload.moveInDate = moveInDate || new Date().toISOString().split("T")[0];
       payload.fileIds = fileIds.length > 0 ? fileIds : undefined;
     }
 
@@ -100,8 +89,15 @@ export async function action({ request, context }: ActionFunctionArgs) {
     });
 
     if (!response.ok) {
-      const errorData = await response.json();
+      const errorData = await response.json() as { message?: string; fields?: Record<string, string> };
       console.error("Ops API error:", errorData);
+      // Answer validation errors are shown next to the fields they belong to
+      if (response.status === 400 && errorData.fields) {
+        return json(
+          { error: "Please check the highlighted fields.", fields: errorData.fields },
+          { status: 400 }
+        );
+      }
       return json(
         { error: "Failed to submit application. Please try again." },
         { status: 500 }
@@ -0,0 +1,254 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import type { ComponentProps, ReactNode } from "react";
+import {
+  Alert,
+  AlertDescription,
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+} from "@leaselab/ui-components";
+import type { DocumentVerificationStatus } from "~/shared/types";
+import { FILE_UPLOAD_CONSTRAINTS, LeadFileTypeEnum } from "~/shared/config";
+import { APPLICATION_DOCUMENT_TYPE_LABELS } from "~/shared/utils";
+import type { ApplicationStatusLink } from "~/lib/api-client";
+import { ApiRequestError, fetchApplicationStatus, uploadApplicationStatusDocument } from "~/lib/api-client";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Your Application" }];
+};
+
+const VERIFICATION_BADGES: Record<
+  DocumentVerificationStatus,
+  { label: string; variant: ComponentProps<typeof Badge>["variant"] }
+> = {
+  pending: { label: "Received", variant: "secondary" },
+  verified: { label: "Accepted", variant: "success" },
+  rejected: { label: "Needs replacing", variant: "destructive" },
+  expired: { label: "Expired", variant: "warning" },
+};
+
+const CLOSED_MESSAGES: Record<number, string> = {
+  403: "This link isn't valid or has expired. Ask the property manager to send you a new one.",
+  404: "We couldn't find this application. It may have been withdrawn.",
+};
+
+function getEnv(context: unknown) {
+  return (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+}
+
+function getLink(request: Request): ApplicationStatusLink {
+  const url = new URL(request.url);
+  return {
+    expires: url.searchParams.get("expires") || "",
+    signature: url.searchParams.get("signature") || "",
+  };
+}
+
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+  try {
+    const status = await fetchApplicationStatus(getEnv(context), params.id || "", getLink(request));
+    return json({ status, closedMessage: null });
+  } catch (error) {
+    if (error instanceof ApiRequestError && CLOSED_MESSAGES[error.status]) {
+      return json({ status: null, closedMessage: CLOSED_MESSAGES[error.status] }, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+type ActionData = { error?: string; uploaded?: string };
+
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const file = formData.get("file");
+  if (!file || typeof file === "string" || file.size === 0) {
+    return json<ActionData>({ error: "Choose a file to upload." }, { status: 400 });
+  }
+  if (file.size > FILE_UPLOAD_CONSTRAINTS.maxFileSize) {
+    return json<ActionData>(
+      { error: `Files can be up to ${FILE_UPLOAD_CONSTRAINTS.maxFileSize / 1024 / 1024}MB.` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const document = await uploadApplicationStatusDocument(
+      getEnv(context),
+      params.id || "",
+      getLink(request),
+      String(formData.get("documentType") || ""),
+      file
+    );
+    return json<ActionData>({ uploaded: document.fileName });
+  } catch (error) {
+    if (error instanceof ApiRequestError) {
+      const message = CLOSED_MESSAGES[error.status] || error.detail || error.message;
+      return json<ActionData>({ error: message }, { status: error.status });
+    }
+    return json<ActionData>(
+      { error: error instanceof Error ? error.message : "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
+
+export default function ApplicationStatusPage() {
+  const { status, closedMessage } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const uploading = navigation.state === "submitting";
+
+  if (!status) {
+    return (
+      <div className="container py-16">
+        <Card className="mx-auto max-w-md">
+          <CardHeader>
+            <CardTitle>Link unavailable</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm">{closedMessage}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const rejected = status.documents.filter((document) => status.rejectedDocumentIds.includes(document.id));
+
+  return (
+    <div className="container py-16 space-y-6">
+      <div className="mx-auto max-w-2xl space-y-2">
+        <h1 className="text-3xl font-bold">Hi {status.firstName}</h1>
+        <p className="text-muted-foreground">
+          Here's where your application
+          {status.propertyName ? ` for ${status.propertyName}` : ""} stands. You applied on{" "}
+          {new Date(status.submittedAt).toLocaleDateString()}, and this link works until{" "}
+          {new Date(status.linkExpiresAt).toLocaleDateString()}.
+        </p>
+      </div>
+
+      <StatusCard title="Status">
+        <div className="space-y-2">
+          <Badge variant="info">{status.stage.label}</Badge>
+          <p className="text-sm">{status.stage.description}</p>
+        </div>
+      </StatusCard>
+
+      <StatusCard title="Documents">
+        {status.acceptsDocuments && status.missingDocumentTypes.length > 0 && (
+          <div className="space-y-1 text-sm">
+            <p className="font-medium">Still needed</p>
+            <ul className="list-disc pl-5">
+              {status.missingDocumentTypes.map((type) => (
+                <li key={type}>{APPLICATION_DOCUMENT_TYPE_LABELS[type]}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {status.acceptsDocuments && rejected.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              Some documents couldn't be accepted. Please upload a replacement:
+              <ul className="mt-1 list-disc pl-5">
+                {rejected.map((document) => (
+                  <li key={document.id}>
+                    {document.fileName}
+                    {document.rejectionReason ? `: ${document.rejectionReason}` : ""}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {status.documents.length > 0 ? (
+          <ul className="space-y-1 text-sm">
+            {status.documents.map((document) => {
+              const badge = VERIFICATION_BADGES[document.verificationStatus ?? "pending"];
+              return (
+                <li key={document.id} className="flex justify-between gap-4">
+                  <span className="truncate">
+                    {document.fileName}
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {APPLICATION_DOCUMENT_TYPE_LABELS[document.documentType]}
+                    </span>
+                  </span>
+                  <Badge variant={badge.variant} className="shrink-0">
+                    {badge.label}
+                  </Badge>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">You haven't uploaded any documents yet.</p>
+        )}
+
+        {actionData?.uploaded && (
+          <Alert variant="success">
+            <AlertDescription>Uploaded {actionData.uploaded}.</AlertDescription>
+          </Alert>
+        )}
+        {actionData?.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{actionData.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {status.acceptsDocuments && (
+          <Form method="post" encType="multipart/form-data" className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="documentType">Document type</Label>
+              <Select
+                id="documentType"
+                name="documentType"
+                required
+                defaultValue={status.missingDocumentTypes[0] || "other"}
+              >
+                {LeadFileTypeEnum.options.map((type) => (
+                  <option key={type} value={type}>
+                    {APPLICATION_DOCUMENT_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="file">File</Label>
+              <Input
+                id="file"
+                name="file"
+                type="file"
+                required
+                accept={FILE_UPLOAD_CONSTRAINTS.allowedMimeTypes.join(",")}
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={uploading}>
+              {uploading ? "Uploading..." : "Upload"}
+            </Button>
+          </Form>
+        )}
+      </StatusCard>
+    </div>
+  );
+}
+
+function StatusCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <Card className="mx-auto max-w-2xl">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">{children}</CardContent>
+    </Card>
+  );
+}
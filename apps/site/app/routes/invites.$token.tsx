@@ -0,0 +1,300 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import type { ComponentProps, ReactNode } from "react";
+import {
+  Alert,
+  AlertDescription,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+} from "@leaselab/ui-components";
+import type { EmploymentStatus, LeadFileType } from "~/shared/types";
+import { FILE_UPLOAD_CONSTRAINTS } from "~/shared/config";
+import {
+  ApiRequestError,
+  acceptApplicantInvite,
+  fetchApplicantInvite,
+  uploadApplicantInviteDocument,
+} from "~/lib/api-client";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Complete Your Application" }];
+};
+
+const EMPLOYMENT_STATUS_LABELS: Record<EmploymentStatus, string> = {
+  employed: "Employed",
+  self_employed: "Self-employed",
+  unemployed: "Unemployed",
+  retired: "Retired",
+  student: "Student",
+};
+
+const DOCUMENT_TYPE_LABELS: Record<LeadFileType, string> = {
+  government_id: "Government ID",
+  paystub: "Pay stub",
+  bank_statement: "Bank statement",
+  tax_return: "Tax return",
+  employment_letter: "Employment letter",
+  other: "Other",
+};
+
+const CLOSED_MESSAGES: Record<number, string> = {
+  404: "This invite link isn't valid. Check that you opened the full link from your email.",
+  410: "This invite link has expired or has already been used. Ask the property manager to send a new one.",
+};
+
+function getEnv(context: unknown) {
+  return (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+}
+
+// Viewing the invite doesn't use it up, so email scanners that prefetch the
+// link are harmless; only accepting does
+export async function loader({ params, context }: LoaderFunctionArgs) {
+  try {
+    const invite = await fetchApplicantInvite(getEnv(context), params.token || "");
+    return json({ invite, closedMessage: null });
+  } catch (error) {
+    if (error instanceof ApiRequestError && CLOSED_MESSAGES[error.status]) {
+      return json({ invite: null, closedMessage: CLOSED_MESSAGES[error.status] }, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+type ActionData = { intent: "upload" | "accept"; error?: string; uploaded?: string; accepted?: boolean };
+
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  const env = getEnv(context);
+  const token = params.token || "";
+  const formData = await request.formData();
+  const intent = formData.get("_action") === "upload" ? "upload" : "accept";
+
+  try {
+    if (intent === "upload") {
+      const file = formData.get("file");
+      if (!file || typeof file === "string" || file.size === 0) {
+        return json<ActionData>({ intent, error: "Choose a file to upload." }, { status: 400 });
+      }
+      if (file.size > FILE_UPLOAD_CONSTRAINTS.maxFileSize) {
+        return json<ActionData>(
+          { intent, error: `Files can be up to ${FILE_UPLOAD_CONSTRAINTS.maxFileSize / 1024 / 1024}MB.` },
+          { status: 413 }
+        );
+      }
+      const document = await uploadApplicantInviteDocument(env, token, String(formData.get("documentType") || ""), file);
+      return json<ActionData>({ intent, uploaded: document.fileName });
+    }
+
+    const monthlyIncome = String(formData.get("monthlyIncome") || "").trim();
+    const optional = (name: string) => String(formData.get(name) || "").trim() || undefined;
+    await acceptApplicantInvite(env, token, {
+      firstName: String(formData.get("firstName") || "").trim(),
+      lastName: String(formData.get("lastName") || "").trim(),
+      phone: optional("phone"),
+      dateOfBirth: optional("dateOfBirth"),
+      employmentStatus: String(formData.get("employmentStatus") || "") as EmploymentStatus,
+      employerName: optional("employerName"),
+      jobTitle: optional("jobTitle"),
+      monthlyIncome: monthlyIncome ? Number(monthlyIncome) : undefined,
+    });
+    return json<ActionData>({ intent, accepted: true });
+  } catch (error) {
+    if (error instanceof ApiRequestError) {
+      const message = CLOSED_MESSAGES[error.status] || error.detail || error.message;
+      return json<ActionData>({ intent, error: message }, { status: error.status });
+    }
+    return json<ActionData>(
+      { intent, error: error instanceof Error ? error.message : "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
+
+export default function ApplicantInvitePage() {
+  const { invite, closedMessage } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submitting = navigation.state === "submitting" ? navigation.formData?.get("_action") : null;
+
+  if (actionData?.accepted) {
+    return (
+      <InviteCard title="Thank you">
+        <p className="text-sm">
+          Your details have been added to the application. The property manager will be in touch if they need anything
+          else.
+        </p>
+      </InviteCard>
+    );
+  }
+
+  if (!invite) {
+    return (
+      <InviteCard title="Invite unavailable">
+        <p className="text-sm">{closedMessage}</p>
+      </InviteCard>
+    );
+  }
+
+  const role = invite.applicantType === "guarantor" ? "guarantor" : "co-applicant";
+  const uploadError = actionData?.intent === "upload" ? actionData.error : undefined;
+  const acceptError = actionData?.intent === "accept" ? actionData.error : undefined;
+
+  return (
+    <div className="container py-16 space-y-6">
+      <div className="mx-auto max-w-2xl space-y-2">
+        <h1 className="text-3xl font-bold">Complete your application</h1>
+        <p className="text-muted-foreground">
+          {invite.primaryApplicantName} added you as a {role}
+          {invite.propertyName ? ` on their application for ${invite.propertyName}` : " on their rental application"}.
+          This link works until {new Date(invite.expiresAt).toLocaleDateString()}.
+        </p>
+      </div>
+
+      <Card className="mx-auto max-w-2xl">
+        <CardHeader>
+          <CardTitle>Your documents</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {invite.documents.length > 0 ? (
+            <ul className="space-y-1 text-sm">
+              {invite.documents.map((document) => (
+                <li key={document.id} className="flex justify-between gap-4">
+                  <span className="truncate">{document.fileName}</span>
+                  <span className="text-muted-foreground shrink-0">
+                    {DOCUMENT_TYPE_LABELS[document.documentType as LeadFileType] || document.documentType}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Upload a government ID and proof of income, such as recent pay stubs or an employment letter.
+            </p>
+          )}
+          {actionData?.uploaded && (
+            <Alert variant="success">
+              <AlertDescription>Uploaded {actionData.uploaded}.</AlertDescription>
+            </Alert>
+          )}
+          {uploadError && (
+            <Alert variant="destructive">
+              <AlertDescription>{uploadError}</AlertDescription>
+            </Alert>
+          )}
+          <Form method="post" encType="multipart/form-data" className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+            <input type="hidden" name="_action" value="upload" />
+            <div className="space-y-2">
+              <Label htmlFor="documentType">Document type</Label>
+              <Select id="documentType" name="documentType" required defaultValue="government_id">
+                {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="file">File</Label>
+              <Input
+                id="file"
+                name="file"
+                type="file"
+                required
+                accept={FILE_UPLOAD_CONSTRAINTS.allowedMimeTypes.join(",")}
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={submitting === "upload"}>
+              {submitting === "upload" ? "Uploading..." : "Upload"}
+            </Button>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card className="mx-auto max-w-2xl">
+        <CardHeader>
+          <CardTitle>Your details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="_action" value="accept" />
+            {acceptError && (
+              <Alert variant="destructive">
+                <AlertDescription>{acceptError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <Field label="First name" name="firstName" required maxLength={100} defaultValue={invite.firstName} />
+              <Field label="Last name" name="lastName" required maxLength={100} defaultValue={invite.lastName} />
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" type="email" value={invite.email} disabled readOnly />
+              </div>
+              <Field label="Phone" name="phone" type="tel" maxLength={30} defaultValue={invite.phone || ""} />
+              <Field label="Date of birth" name="dateOfBirth" type="date" defaultValue={invite.dateOfBirth || ""} />
+              <div className="space-y-2">
+                <Label htmlFor="employmentStatus">Employment status</Label>
+                <Select
+                  id="employmentStatus"
+                  name="employmentStatus"
+                  required
+                  defaultValue={invite.employmentStatus || ""}
+                >
+                  <option value="">Select...</option>
+                  {Object.entries(EMPLOYMENT_STATUS_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <Field label="Employer" name="employerName" maxLength={200} defaultValue={invite.employerName || ""} />
+              <Field label="Job title" name="jobTitle" maxLength={200} defaultValue={invite.jobTitle || ""} />
+              <Field
+                label="Monthly income ($)"
+                name="monthlyIncome"
+                type="number"
+                min={0}
+                step="0.01"
+                defaultValue={invite.monthlyIncome ?? ""}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Submitting completes your part of the application; you won't be able to change it afterwards.
+            </p>
+            <Button type="submit" className="w-full" disabled={submitting === "accept"}>
+              {submitting === "accept" ? "Submitting..." : "Submit my details"}
+            </Button>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function InviteCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="container py-16">
+      <Card className="mx-auto max-w-md">
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+        </CardHeader>
+        <CardContent>{children}</CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function Field({ label, name, ...props }: { label: string; name: string } & ComponentProps<typeof Input>) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={name}>{label}</Label>
+      <Input id={name} name={name} {...props} />
+    </div>
+  );
+}
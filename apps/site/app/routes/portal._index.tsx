@@ -0,0 +1,73 @@
+import { Link, useRouteLoaderData } from "@remix-run/react";
+import { Card, CardContent, CardHeader, CardTitle } from "@leaselab/ui-components";
+import { formatCurrency, formatDate } from "~/shared/utils";
+import type { loader as portalLoader } from "./portal";
+
+export default function PortalOverview() {
+  const data = useRouteLoaderData<typeof portalLoader>("routes/portal");
+  if (!data) return null;
+  const { lease, balance, openWorkOrderCount } = data.profile;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-3">
+      <Card>
+        <CardHeader>
+          <CardTitle>Lease</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1 text-sm">
+          {lease ? (
+            <>
+              <p className="font-medium">
+                {lease.property?.name}
+                {lease.unit?.unitNumber ? `, Unit ${lease.unit.unitNumber}` : ""}
+              </p>
+              <p className="text-muted-foreground">
+                {formatDate(lease.startDate)} to {formatDate(lease.endDate)}
+              </p>
+              <p className="text-muted-foreground">{formatCurrency(lease.monthlyRent)} / month</p>
+              <Link to="/portal/lease" className="inline-block pt-2 text-primary hover:underline">
+                View lease
+              </Link>
+            </>
+          ) : (
+            <p className="text-muted-foreground">You don't have a lease to show yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Balance</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1 text-sm">
+          {balance ? (
+            <>
+              <p className="text-2xl font-semibold">{formatCurrency(Math.abs(balance.balance))}</p>
+              <p className="text-muted-foreground">
+                {balance.balance > 0 ? "Amount owing" : balance.balance < 0 ? "In credit" : "Nothing owing"}
+              </p>
+              <Link to="/portal/ledger" className="inline-block pt-2 text-primary hover:underline">
+                View statement
+              </Link>
+            </>
+          ) : (
+            <p className="text-muted-foreground">No charges yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Maintenance</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1 text-sm">
+          <p className="text-2xl font-semibold">{openWorkOrderCount}</p>
+          <p className="text-muted-foreground">Open {openWorkOrderCount === 1 ? "request" : "requests"}</p>
+          <Link to="/portal/work-orders" className="inline-block pt-2 text-primary hover:underline">
+            Request maintenance
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { portalFetch, requirePortalSession } from "~/lib/portal.server";
+
+// Resource route: streams a lease document from the worker
+export async function loader({ request, context, params }: LoaderFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await requirePortalSession(request);
+  const response = await portalFetch(env, sessionToken, `/lease/files/${params.fileId}`);
+
+  if (!response.ok) {
+    throw new Response("File not found", { status: response.status === 404 ? 404 : 500 });
+  }
+  return new Response(response.body, { headers: response.headers });
+}
@@ -0,0 +1,102 @@
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { useLoaderData } from "@remix-run/react";
+import { Card, CardContent, CardHeader, CardTitle } from "@leaselab/ui-components";
+import { formatCurrency, formatDate } from "~/shared/utils";
+import { fetchPortalLease, requirePortalSession } from "~/lib/portal.server";
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await requirePortalSession(request);
+  const lease = await fetchPortalLease(env, sessionToken);
+  return json({ lease });
+}
+
+const LEASE_STATUS_LABELS: Record<string, string> = {
+  pending_signature: "Awaiting signature",
+  signed: "Signed",
+  active: "Active",
+  expired: "Expired",
+  terminated: "Terminated",
+};
+
+const FILE_TYPE_LABELS: Record<string, string> = {
+  lease_document: "Lease",
+  addendum: "Addendum",
+  inspection_report: "Inspection report",
+  move_in_checklist: "Move-in checklist",
+  move_out_checklist: "Move-out checklist",
+  other: "Document",
+};
+
+export default function PortalLease() {
+  const { lease } = useLoaderData<typeof loader>();
+
+  if (!lease) {
+    return <p className="text-muted-foreground">You don't have a lease to show yet.</p>;
+  }
+
+  const details = [
+    { label: "Property", value: lease.property?.name },
+    { label: "Address", value: lease.property?.address },
+    { label: "Unit", value: lease.unit?.unitNumber },
+    { label: "Status", value: LEASE_STATUS_LABELS[lease.status] || lease.status },
+    { label: "Term", value: `${formatDate(lease.startDate)} to ${formatDate(lease.endDate)}` },
+    { label: "Monthly rent", value: formatCurrency(lease.monthlyRent) },
+    { label: "Security deposit", value: formatCurrency(lease.securityDeposit) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Lease Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid gap-4 sm:grid-cols-2">
+            {details
+              .filter((detail) => detail.value)
+              .map((detail) => (
+                <div key={detail.label}>
+                  <dt className="text-sm text-muted-foreground">{detail.label}</dt>
+                  <dd className="font-medium">{detail.value}</dd>
+                </div>
+              ))}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Documents</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {lease.files.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No documents have been shared yet.</p>
+          ) : (
+            <ul className="divide-y divide-white/10">
+              {lease.files.map((file) => (
+                <li key={file.id} className="flex items-center justify-between gap-4 py-3">
+                  <div>
+                    <p className="font-medium">{file.fileName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {FILE_TYPE_LABELS[file.fileType] || file.fileType} · {formatDate(file.uploadedAt)}
+                    </p>
+                  </div>
+                  <a
+                    href={`/portal/lease/files/${file.id}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-sm text-primary hover:underline"
+                  >
+                    Open
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { useLoaderData } from "@remix-run/react";
+import { Card, CardContent, CardHeader, CardTitle } from "@leaselab/ui-components";
+import { formatCurrency, formatDate } from "~/shared/utils";
+import { fetchPortalLedger, requirePortalSession } from "~/lib/portal.server";
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await requirePortalSession(request);
+  const ledger = await fetchPortalLedger(env, sessionToken);
+  return json({ ledger });
+}
+
+const ENTRY_TYPE_LABELS: Record<string, string> = {
+  charge: "Charge",
+  payment: "Payment",
+  credit: "Credit",
+  adjustment: "Adjustment",
+};
+
+export default function PortalLedger() {
+  const { ledger } = useLoaderData<typeof loader>();
+
+  if (!ledger) {
+    return <p className="text-muted-foreground">You don't have a lease to show a balance for yet.</p>;
+  }
+
+  const { summary, entries } = ledger;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">
+              {summary.balance < 0 ? "Credit balance" : "Balance owing"}
+            </p>
+            <p className="text-2xl font-semibold">{formatCurrency(Math.abs(summary.balance))}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Total charged</p>
+            <p className="text-2xl font-semibold">{formatCurrency(summary.totalCharged)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Total paid</p>
+            <p className="text-2xl font-semibold">{formatCurrency(summary.totalPaid)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Statement</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No activity yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-white/10 text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Type</th>
+                    <th className="py-2 pr-4 font-medium">Description</th>
+                    <th className="py-2 pr-4 text-right font-medium">Amount</th>
+                    <th className="py-2 text-right font-medium">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="border-b border-white/5">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDate(entry.effectiveDate)}</td>
+                      <td className="py-2 pr-4">{ENTRY_TYPE_LABELS[entry.entryType] || entry.entryType}</td>
+                      <td className="py-2 pr-4">{entry.description || entry.category}</td>
+                      <td className="py-2 pr-4 text-right">
+                        {entry.entryType === "payment" || entry.entryType === "credit" ? "-" : ""}
+                        {formatCurrency(entry.amount)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {entry.balance !== undefined ? formatCurrency(entry.balance) : ""}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import type { ActionFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { Form, useActionData, useNavigation, useRouteLoaderData } from "@remix-run/react";
+import {
+  Alert,
+  AlertDescription,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from "@leaselab/ui-components";
+import { requirePortalSession, updatePortalEmergencyContact } from "~/lib/portal.server";
+import type { loader as portalLoader } from "./portal";
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await requirePortalSession(request);
+  const formData = await request.formData();
+
+  try {
+    await updatePortalEmergencyContact(env, sessionToken, {
+      emergencyContact: String(formData.get("emergencyContact") || ""),
+      emergencyPhone: String(formData.get("emergencyPhone") || ""),
+    });
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    return json({ success: false, error: error instanceof Error ? error.message : "Failed to save" }, { status: 400 });
+  }
+
+  return json({ success: true, error: null });
+}
+
+export default function PortalProfile() {
+  const data = useRouteLoaderData<typeof portalLoader>("routes/portal");
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  if (!data) return null;
+  const { tenant } = data.profile;
+
+  return (
+    <Card className="max-w-xl">
+      <CardHeader>
+        <CardTitle>Emergency Contact</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="mb-4 text-sm text-muted-foreground">
+          Who we should reach if we can't get hold of you in an emergency. To change your own name, email or phone,
+          please contact the office.
+        </p>
+        <Form method="post" className="space-y-4">
+          {actionData?.success && (
+            <Alert variant="success">
+              <AlertDescription>Emergency contact saved.</AlertDescription>
+            </Alert>
+          )}
+          {actionData?.error && (
+            <Alert variant="destructive">
+              <AlertDescription>{actionData.error}</AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="emergencyContact">Name</Label>
+            <Input
+              id="emergencyContact"
+              name="emergencyContact"
+              maxLength={200}
+              defaultValue={tenant.emergencyContact || ""}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="emergencyPhone">Phone</Label>
+            <Input
+              id="emergencyPhone"
+              name="emergencyPhone"
+              type="tel"
+              maxLength={30}
+              defaultValue={tenant.emergencyPhone || ""}
+            />
+          </div>
+          <Button type="submit" disabled={navigation.state === "submitting"}>
+            Save
+          </Button>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
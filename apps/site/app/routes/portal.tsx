@@ -0,0 +1,66 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { Form, NavLink, Outlet, useLoaderData } from "@remix-run/react";
+import { Button, cn } from "@leaselab/ui-components";
+import { fetchPortalProfile, requirePortalSession } from "~/lib/portal.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Tenant Portal" }];
+};
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await requirePortalSession(request);
+  const profile = await fetchPortalProfile(env, sessionToken);
+  return json({ profile });
+}
+
+const NAV_ITEMS = [
+  { to: "/portal", label: "Overview", end: true },
+  { to: "/portal/lease", label: "Lease", end: false },
+  { to: "/portal/ledger", label: "Balance", end: false },
+  { to: "/portal/work-orders", label: "Maintenance", end: false },
+  { to: "/portal/profile", label: "Emergency Contact", end: false },
+];
+
+export default function PortalLayout() {
+  const { profile } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="container py-8">
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Tenant Portal</h1>
+          <p className="text-sm text-muted-foreground">
+            Signed in as {profile.tenant.firstName} {profile.tenant.lastName}
+          </p>
+        </div>
+        <Form method="post" action="/portal/logout">
+          <Button type="submit" variant="outline">
+            Sign out
+          </Button>
+        </Form>
+      </div>
+
+      <nav className="mb-6 flex flex-wrap gap-2 border-b border-white/10 pb-4">
+        {NAV_ITEMS.map((item) => (
+          <NavLink
+            key={item.to}
+            to={item.to}
+            end={item.end}
+            className={({ isActive }) =>
+              cn(
+                "rounded-lg px-4 py-2 transition-colors",
+                isActive ? "bg-white/10 text-white" : "text-white/60 hover:bg-white/5 hover:text-white"
+              )
+            }
+          >
+            {item.label}
+          </NavLink>
+        ))}
+      </nav>
+
+      <Outlet />
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { portalFetch, requirePortalSession } from "~/lib/portal.server";
+
+// Resource route: streams a work order photo or video from the worker.
+// Range is forwarded so video players can seek.
+export async function loader({ request, context, params }: LoaderFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await requirePortalSession(request);
+  const range = request.headers.get("Range");
+  const response = await portalFetch(env, sessionToken, `/work-orders/${params.id}/attachments/${params.attachmentId}`, {
+    headers: range ? { Range: range } : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Response("File not found", { status: response.status === 404 ? 404 : 500 });
+  }
+  return new Response(response.body, { status: response.status, headers: response.headers });
+}
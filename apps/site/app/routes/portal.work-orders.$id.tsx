@@ -0,0 +1,182 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { Form, Link, useActionData, useLoaderData, useNavigation, useSearchParams } from "@remix-run/react";
+import {
+  Alert,
+  AlertDescription,
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+} from "@leaselab/ui-components";
+import { formatDate } from "~/shared/utils";
+import {
+  fetchPortalWorkOrder,
+  requirePortalSession,
+  uploadPortalWorkOrderAttachment,
+  validateAttachments,
+} from "~/lib/portal.server";
+import {
+  WORK_ORDER_ATTACHMENT_ACCEPT,
+  WORK_ORDER_PRIORITY_OPTIONS,
+  WORK_ORDER_STATUS_LABELS,
+  getWorkOrderCategoryLabel,
+} from "~/lib/portal";
+
+export async function loader({ request, context, params }: LoaderFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await requirePortalSession(request);
+  try {
+    const workOrder = await fetchPortalWorkOrder(env, sessionToken, params.id!);
+    return json({ workOrder });
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    throw new Response("Request not found", { status: 404 });
+  }
+}
+
+export async function action({ request, context, params }: ActionFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await requirePortalSession(request);
+  const formData = await request.formData();
+
+  const files = formData.getAll("attachments").filter((f): f is File => typeof f !== "string" && f.size > 0);
+  if (files.length === 0) {
+    return json({ error: "Choose at least one photo or video" }, { status: 400 });
+  }
+  const existingCount = Number(formData.get("existingCount") || 0);
+  const fileError = validateAttachments(files, existingCount);
+  if (fileError) {
+    return json({ error: fileError }, { status: 400 });
+  }
+
+  try {
+    for (const file of files) {
+      await uploadPortalWorkOrderAttachment(env, sessionToken, params.id!, file);
+    }
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    return json({ error: error instanceof Error ? error.message : "Failed to upload file" }, { status: 400 });
+  }
+
+  return json({ error: null });
+}
+
+export default function PortalWorkOrderDetail() {
+  const { workOrder } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const isUploading = navigation.state === "submitting";
+  const isClosed = workOrder.status === "completed" || workOrder.status === "cancelled";
+  const priorityLabel = WORK_ORDER_PRIORITY_OPTIONS.find((option) => option.value === workOrder.priority)?.label;
+
+  return (
+    <div className="space-y-6">
+      <Link to="/portal/work-orders" className="text-sm opacity-70 hover:opacity-100">
+        &larr; All requests
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <CardTitle>{workOrder.title}</CardTitle>
+            <Badge variant="outline">{WORK_ORDER_STATUS_LABELS[workOrder.status] || workOrder.status}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <dl className="grid gap-4 text-sm sm:grid-cols-3">
+            <div>
+              <dt className="text-muted-foreground">Category</dt>
+              <dd className="font-medium">{getWorkOrderCategoryLabel(workOrder.category)}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Urgency</dt>
+              <dd className="font-medium">{priorityLabel || workOrder.priority}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Submitted</dt>
+              <dd className="font-medium">{formatDate(workOrder.createdAt)}</dd>
+            </div>
+            {workOrder.scheduledDate && (
+              <div>
+                <dt className="text-muted-foreground">Scheduled for</dt>
+                <dd className="font-medium">{formatDate(workOrder.scheduledDate)}</dd>
+              </div>
+            )}
+            {workOrder.completedAt && (
+              <div>
+                <dt className="text-muted-foreground">Completed</dt>
+                <dd className="font-medium">{formatDate(workOrder.completedAt)}</dd>
+              </div>
+            )}
+          </dl>
+          <p className="whitespace-pre-wrap text-sm">{workOrder.description}</p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Photos &amp; videos</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {searchParams.get("uploads") === "failed" && !actionData && (
+            <Alert variant="warning">
+              <AlertDescription>
+                Your request was submitted, but some files didn't upload. You can try adding them again below.
+              </AlertDescription>
+            </Alert>
+          )}
+          {actionData?.error && (
+            <Alert variant="destructive">
+              <AlertDescription>{actionData.error}</AlertDescription>
+            </Alert>
+          )}
+
+          {workOrder.attachments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No photos or videos yet.</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              {workOrder.attachments.map((attachment) => {
+                const src = `/portal/work-orders/${workOrder.id}/attachments/${attachment.id}`;
+                return attachment.mimeType.startsWith("video/") ? (
+                  <video
+                    key={attachment.id}
+                    src={src}
+                    controls
+                    preload="metadata"
+                    className="aspect-square w-full rounded-md bg-black object-cover"
+                  />
+                ) : (
+                  <a key={attachment.id} href={src} target="_blank" rel="noreferrer">
+                    <img src={src} alt={attachment.fileName} className="aspect-square w-full rounded-md object-cover" />
+                  </a>
+                );
+              })}
+            </div>
+          )}
+
+          {!isClosed && (
+            <Form method="post" encType="multipart/form-data" className="flex flex-wrap items-center gap-3">
+              <input type="hidden" name="existingCount" value={workOrder.attachments.length} />
+              <Input
+                name="attachments"
+                type="file"
+                accept={WORK_ORDER_ATTACHMENT_ACCEPT}
+                multiple
+                required
+                className="max-w-sm"
+              />
+              <Button type="submit" variant="outline" disabled={isUploading}>
+                {isUploading ? "Uploading..." : "Add photos or videos"}
+              </Button>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
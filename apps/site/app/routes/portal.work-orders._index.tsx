@@ -0,0 +1,177 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json, redirect } from "@remix-run/cloudflare";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import {
+  Alert,
+  AlertDescription,
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  Textarea,
+} from "@leaselab/ui-components";
+import { formatDate } from "~/shared/utils";
+import {
+  createPortalWorkOrder,
+  fetchPortalWorkOrders,
+  requirePortalSession,
+  uploadPortalWorkOrderAttachment,
+  validateAttachments,
+} from "~/lib/portal.server";
+import {
+  WORK_ORDER_CATEGORY_OPTIONS,
+  WORK_ORDER_PRIORITY_OPTIONS,
+  WORK_ORDER_ATTACHMENT_ACCEPT,
+  WORK_ORDER_STATUS_LABELS,
+  getWorkOrderCategoryLabel,
+} from "~/lib/portal";
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await requirePortalSession(request);
+  const workOrders = await fetchPortalWorkOrders(env, sessionToken);
+  return json({ workOrders });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await requirePortalSession(request);
+  const formData = await request.formData();
+
+  const files = formData.getAll("attachments").filter((f): f is File => typeof f !== "string" && f.size > 0);
+  const fileError = validateAttachments(files);
+  if (fileError) {
+    return json({ error: fileError }, { status: 400 });
+  }
+
+  let workOrderId: string;
+  try {
+    const workOrder = await createPortalWorkOrder(env, sessionToken, {
+      title: String(formData.get("title") || ""),
+      description: String(formData.get("description") || ""),
+      category: String(formData.get("category") || ""),
+      priority: String(formData.get("priority") || "medium"),
+    });
+    workOrderId = workOrder.id;
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    return json({ error: error instanceof Error ? error.message : "Failed to submit request" }, { status: 400 });
+  }
+
+  // The request is already filed, so a failed upload shouldn't make the
+  // tenant resubmit it; they can retry from the request page
+  for (const file of files) {
+    try {
+      await uploadPortalWorkOrderAttachment(env, sessionToken, workOrderId, file);
+    } catch (error) {
+      if (error instanceof Response) throw error;
+      console.error("Failed to upload work order attachment:", error);
+      return redirect(`/portal/work-orders/${workOrderId}?uploads=failed`);
+    }
+  }
+
+  return redirect(`/portal/work-orders/${workOrderId}`);
+}
+
+export default function PortalWorkOrders() {
+  const { workOrders } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>New Maintenance Request</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form method="post" encType="multipart/form-data" className="space-y-4">
+            {actionData?.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{actionData.error}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="title">What needs fixing?</Label>
+              <Input id="title" name="title" required maxLength={200} placeholder="e.g. Kitchen sink is leaking" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category">Category</Label>
+              <Select id="category" name="category" required defaultValue="">
+                <option value="">Select...</option>
+                {WORK_ORDER_CATEGORY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="priority">Urgency</Label>
+              <Select id="priority" name="priority" defaultValue="medium">
+                {WORK_ORDER_PRIORITY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Details</Label>
+              <Textarea
+                id="description"
+                name="description"
+                required
+                rows={5}
+                placeholder="Where is the problem, when did it start, and how can we get in?"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="attachments">Photos or videos (optional)</Label>
+              <Input id="attachments" name="attachments" type="file" accept={WORK_ORDER_ATTACHMENT_ACCEPT} multiple />
+            </div>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Submitting..." : "Submit request"}
+            </Button>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Requests</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {workOrders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You haven't submitted any requests.</p>
+          ) : (
+            <ul className="divide-y divide-white/10">
+              {workOrders.map((workOrder) => (
+                <li key={workOrder.id}>
+                  <Link
+                    to={`/portal/work-orders/${workOrder.id}`}
+                    className="flex items-center justify-between gap-4 py-3 hover:opacity-80"
+                  >
+                    <div>
+                      <p className="font-medium">{workOrder.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {getWorkOrderCategoryLabel(workOrder.category)} · {formatDate(workOrder.createdAt)}
+                      </p>
+                    </div>
+                    <Badge variant="outline">{WORK_ORDER_STATUS_LABELS[workOrder.status] || workOrder.status}</Badge>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/cloudflare";
+import { json, redirect } from "@remix-run/cloudflare";
+import { Form, useActionData, useNavigation } from "@remix-run/react";
+import {
+  Alert,
+  AlertDescription,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from "@leaselab/ui-components";
+import { requestPortalLoginLink } from "~/lib/api-client";
+import { getPortalSessionToken } from "~/lib/portal.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Tenant Portal - Sign In" }];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  if (await getPortalSessionToken(request)) {
+    return redirect("/portal");
+  }
+  return json({});
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const formData = await request.formData();
+  const email = String(formData.get("email") || "").trim();
+  if (!email) {
+    return json({ sent: false, error: "Enter your email address" }, { status: 400 });
+  }
+
+  try {
+    await requestPortalLoginLink(env, email, new URL("/portal/verify", request.url).toString());
+  } catch (error) {
+    console.error("Failed to request portal login link:", error);
+    return json({ sent: false, error: "We couldn't send a sign-in link. Please try again." }, { status: 500 });
+  }
+
+  return json({ sent: true, error: null });
+}
+
+export default function PortalLogin() {
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+
+  return (
+    <div className="container py-16">
+      <Card className="mx-auto max-w-md">
+        <CardHeader>
+          <CardTitle>Tenant Portal</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {actionData?.sent ? (
+            <p className="text-sm">
+              If that email belongs to a tenant, a sign-in link is on its way. It expires in 15 minutes.
+            </p>
+          ) : (
+            <Form method="post" className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Enter the email address on your lease and we'll send you a link to sign in.
+              </p>
+              {actionData?.error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{actionData.error}</AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" name="email" type="email" required autoComplete="email" />
+              </div>
+              <Button type="submit" className="w-full" disabled={navigation.state === "submitting"}>
+                Email me a sign-in link
+              </Button>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import type { ActionFunctionArgs } from "@remix-run/cloudflare";
+import { redirect } from "@remix-run/cloudflare";
+import { destroyPortalSession, getPortalSessionToken, logoutPortal } from "~/lib/portal.server";
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const sessionToken = await getPortalSessionToken(request);
+
+  if (sessionToken) {
+    try {
+      await logoutPortal(env, sessionToken);
+    } catch (error) {
+      // Already expired or revoked; clearing the cookie is all that's left
+      if (!(error instanceof Response)) {
+        console.error("Failed to revoke portal session:", error);
+      }
+    }
+  }
+
+  return redirect("/portal/login", {
+    headers: { "Set-Cookie": await destroyPortalSession() },
+  });
+}
+
+export async function loader() {
+  return redirect("/portal");
+}
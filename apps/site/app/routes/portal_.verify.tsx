@@ -0,0 +1,65 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/cloudflare";
+import { json, redirect } from "@remix-run/cloudflare";
+import { Form, Link, useActionData, useLoaderData } from "@remix-run/react";
+import { Button, Card, CardContent, CardHeader, CardTitle, buttonVariants, cn } from "@leaselab/ui-components";
+import { createPortalSession } from "~/lib/api-client";
+import { commitPortalSession } from "~/lib/portal.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Tenant Portal - Sign In" }];
+};
+
+// Only render here: the link is single use, and email scanners that
+// prefetch links would otherwise spend it before the tenant clicks
+export async function loader({ request }: LoaderFunctionArgs) {
+  const token = new URL(request.url).searchParams.get("token") || "";
+  return json({ token });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const env = (context as any).cloudflare?.env || (typeof process !== "undefined" ? process.env : {});
+  const formData = await request.formData();
+  const token = String(formData.get("token") || "");
+
+  try {
+    const session = await createPortalSession(env, token);
+    return redirect("/portal", {
+      headers: { "Set-Cookie": await commitPortalSession(session.sessionToken, session.expiresAt) },
+    });
+  } catch {
+    return json({ error: "This sign-in link is invalid or has expired." }, { status: 401 });
+  }
+}
+
+export default function PortalVerify() {
+  const { token } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const failed = !token || actionData?.error;
+
+  return (
+    <div className="container py-16">
+      <Card className="mx-auto max-w-md">
+        <CardHeader>
+          <CardTitle>Tenant Portal</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {failed ? (
+            <>
+              <p className="text-sm">{actionData?.error || "This sign-in link is invalid or has expired."}</p>
+              <Link to="/portal/login" className={cn(buttonVariants(), "inline-flex w-full justify-center")}>
+                Send a new link
+              </Link>
+            </>
+          ) : (
+            <Form method="post">
+              <input type="hidden" name="token" value={token} />
+              <Button type="submit" className="w-full">
+                Continue to the portal
+              </Button>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { json } from "@remix-run/cloudflare";
 import { useLoaderData, useSearchParams, Link } from "@remix-run/react";
 import { useState } from "react";
 import { Card, CardContent } from "@leaselab/ui-components";
-import { fetchPropertyById, fetchProperties, fetchSiteConfig } from "~/lib/api-client";
+import { fetchPropertyById, fetchProperties, fetchSiteConfig, fetchIntakeForm } from "~/lib/api-client";
 import ListingGallery from "~/components/ListingGallery";
 import TabbedLayout from "~/components/TabbedLayout";
 import ContactForm from "~/components/ContactForm";
@@ -30,13 +30,15 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
 
   try {
     // Fetch data from backend API
-    const [listing, allListings, siteConfig] = await Promise.all([
+    const [listing, allListings, siteConfig, intakeForm] = await Promise.all([
       fetchPropertyById(env, slug),
       fetchProperties(env),
       fetchSiteConfig(env),
+      // The form falls back to the default fields if this fails
+      fetchIntakeForm(env).catch(() => null),
     ]);
 
-    return json({ listing, allListings, siteConfig });
+    return json({ listing, allListings, siteConfig, intakeForm });
   } catch (error) {
     console.error('Error loading property:', error);
     throw new Response("Property not found", { status: 404 });
@@ -44,7 +46,7 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
 }
 
 export default function PropertyDetail() {
-  const { listing, allListings, siteConfig } = useLoaderData<typeof loader>();
+  const { listing, allListings, siteConfig, intakeForm } = useLoaderData<typeof loader>();
   const [searchParams] = useSearchParams();
   const [activeTab, setActiveTab] = useState("overview");
 
@@ -124,7 +126,7 @@ export default function PropertyDetail() {
       label: "Submit an Application",
       content: (
         <div className="space-y-6">
-          <ContactForm listings={allListings} selectedProperty={listing.id} />
+          <ContactForm listings={allListings} selectedProperty={listing.id} intakeForm={intakeForm} />
         </div>
       ),
     },
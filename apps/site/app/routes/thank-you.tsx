@@ -37,8 +37,9 @@ export default function ThankYou() {
             information and get back to you soon.
           </p>
           <p className="text-sm opacity-70">
-            You should receive a confirmation email shortly. If you don't see it,
-            please check your spam folder.
+            If you applied for a home, we'll email you a link where you can follow
+            your application and upload any documents we still need. If you don't
+            see it, please check your spam folder.
           </p>
           <Link to="/" className={cn(buttonVariants(), "inline-flex w-full justify-center sm:w-auto")}>
             Return to Listings
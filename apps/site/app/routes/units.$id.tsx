@@ -3,7 +3,7 @@
 import { useLoaderData, useSearchParams, Link } from "@remix-run/react";
 import { useState } from "react";
 import { Card, CardContent } from "@leaselab/ui-components";
-import { fetchUnitById, fetchProperties, fetchSiteConfig } from "~/lib/api-client";
+import { fetchUnitById, fetchProperties, fetchSiteConfig, fetchIntakeForm } from "~/lib/api-client";
 import ListingGallery from "~/components/ListingGallery";
 import TabbedLayout from "~/components/TabbedLayout";
 import ContactForm from "~/components/ContactForm";
@@ -32,13 +32,15 @@ export async function loader({ params, context }: any) {
   }
 
   try {
-    const [unit, allListings, siteConfig] = await Promise.all([
+    const [unit, allListings, siteConfig, intakeForm] = await Promise.all([
       fetchUnitById(env, id),
       fetchProperties(env),
       fetchSiteConfig(env),
+      // The form falls back to the default fields if this fails
+      fetchIntakeForm(env).catch(() => null),
     ]);
 
-    return { unit, allListings, siteConfig };
+    return { unit, allListings, siteConfig, intakeForm };
   } catch (error) {
     console.error('Error loading unit:', error);
     throw new Response("Unit not found", { status: 404 });
@@ -46,7 +48,7 @@ export async function loader({ params, context }: any) {
 }
 
 export default function UnitDetail() {
-  const { unit, allListings, siteConfig } = useLoaderData<typeof loader>();
+  const { unit, allListings, siteConfig, intakeForm } = useLoaderData<typeof loader>();
   const [searchParams] = useSearchParams();
   const [activeTab, setActiveTab] = useState("overview");
 
@@ -119,7 +121,7 @@ export default function UnitDetail() {
       label: "Submit an Application",
       content: (
         <div className="space-y-6">
-          <ContactForm listings={allListings} selectedProperty={unit.propertyId} />
+          <ContactForm listings={allListings} selectedProperty={unit.propertyId} intakeForm={intakeForm} />
         </div>
       ),
     },
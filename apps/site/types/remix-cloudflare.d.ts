@@ -13,4 +13,5 @@ declare module "@remix-run/cloudflare" {
   export const redirectDocument: typeof ServerRuntime.redirectDocument;
   export const data: typeof ServerRuntime.data;
   export const defer: typeof ServerRuntime.defer;
+  export const createCookie: ServerRuntime.CreateCookieFunction;
 }
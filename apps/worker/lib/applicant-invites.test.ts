@@ -0,0 +1,155 @@
+/**
+ * Unit tests for co-applicant and guarantor invites
+ * @vitest-environment node
+ *
+ * Runs against an in-memory SQLite database with the migrations applied.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'node:path';
+import { SQLiteDatabaseAdapter, applySqlFiles } from '../../../shared/storage-sqlite/sqlite-database';
+import { APPLICANT_INVITE_TTL_SECONDS, buildApplicantInviteUrl, getApplicantInviteState } from './applicant-invites';
+import {
+  acceptApplicantInvite,
+  createApplicant,
+  getApplicantByInviteTokenForSite,
+  issueApplicantInvite,
+  recalculateHousehold,
+  updateApplicant,
+} from './db/application-applicants';
+import { createLead } from './db/leads';
+import { createProperty } from './db/properties';
+import type { ApplicantType, ApplicationApplicant, Lead } from '../../../shared/types';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../scripts/migrations');
+const SITE_ID = 'site_1';
+
+const details = {
+  firstName: 'Casey',
+  lastName: 'Cosigner',
+  employmentStatus: 'employed' as const,
+  monthlyIncome: 4000,
+};
+
+describe('Applicant invites', () => {
+  describe('buildApplicantInviteUrl', () => {
+    it('should fill in the site and skip sites without a storefront URL', () => {
+      expect(buildApplicantInviteUrl({ STOREFRONT_URL: 'https://{siteId}.example.com/' }, 'acme', 'tok')).toBe(
+        'https://acme.example.com/invites/tok'
+      );
+      expect(buildApplicantInviteUrl({}, 'acme', 'tok')).toBeNull();
+    });
+  });
+
+  describe('with a database', () => {
+    let db: SQLiteDatabaseAdapter;
+    let lead: Lead;
+
+    const addApplicant = (applicantType: ApplicantType, overrides: Partial<ApplicationApplicant> = {}) =>
+      createApplicant(db, {
+        applicationId: lead.id,
+        applicantType,
+        firstName: 'Invited',
+        lastName: 'Person',
+        email: `${applicantType}@example.com`,
+        phone: null,
+        dateOfBirth: null,
+        employmentStatus: null,
+        employerName: null,
+        jobTitle: null,
+        monthlyIncome: null,
+        aiScore: null,
+        aiLabel: null,
+        aiRiskFlags: null,
+        aiEvaluatedAt: null,
+        backgroundCheckStatus: null,
+        backgroundCheckProvider: null,
+        backgroundCheckReferenceId: null,
+        backgroundCheckCompletedAt: null,
+        inviteToken: null,
+        inviteSentAt: null,
+        inviteAcceptedAt: null,
+        createdBy: null,
+        ...overrides,
+      });
+
+    beforeEach(async () => {
+      db = new SQLiteDatabaseAdapter();
+      await applySqlFiles(db, MIGRATIONS_DIR);
+
+      const property = await createProperty(db, SITE_ID, {
+        name: 'Maple House',
+        address: '1 Main St',
+        city: 'Toronto',
+        province: 'ON',
+        postalCode: 'M1M 1M1',
+        propertyType: 'multi_family',
+      });
+      lead = await createLead(db, SITE_ID, {
+        propertyId: property.id,
+        firstName: 'Ada',
+        lastName: 'Applicant',
+        email: 'ada@example.com',
+        phone: '555-0100',
+        employmentStatus: 'employed',
+        moveInDate: '2026-12-01',
+      } as Parameters<typeof createLead>[2]);
+      await db.execute('UPDATE leads SET monthly_income = ?, ai_score = ? WHERE id = ?', [6000, 80, lead.id]);
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    it('should accept an open invite once', async () => {
+      const applicant = await addApplicant('co_applicant');
+      const issued = (await issueApplicantInvite(db, applicant.id, APPLICANT_INVITE_TTL_SECONDS))!;
+      expect(getApplicantInviteState(issued)).toBe('open');
+
+      const accepted = await acceptApplicantInvite(db, SITE_ID, issued.inviteToken!, details);
+      expect(accepted).toMatchObject({ firstName: 'Casey', monthlyIncome: 4000, employmentStatus: 'employed' });
+      expect(getApplicantInviteState(accepted!)).toBe('accepted');
+
+      expect(await acceptApplicantInvite(db, SITE_ID, issued.inviteToken!, details)).toBeNull();
+      expect(await issueApplicantInvite(db, applicant.id, APPLICANT_INVITE_TTL_SECONDS)).toBeNull();
+    });
+
+    it('should refuse expired invites, other sites and primary applicants', async () => {
+      const applicant = await addApplicant('guarantor');
+      const issued = (await issueApplicantInvite(db, applicant.id, APPLICANT_INVITE_TTL_SECONDS))!;
+
+      expect(await getApplicantByInviteTokenForSite(db, 'site_2', issued.inviteToken!)).toBeNull();
+      expect(await acceptApplicantInvite(db, 'site_2', issued.inviteToken!, details)).toBeNull();
+
+      const expired = await updateApplicant(db, applicant.id, { inviteTokenExpiresAt: '2020-01-01T00:00:00.000Z' });
+      expect(getApplicantInviteState(expired)).toBe('expired');
+      expect(await acceptApplicantInvite(db, SITE_ID, issued.inviteToken!, details)).toBeNull();
+
+      const primary = await addApplicant('primary');
+      expect(await issueApplicantInvite(db, primary.id, APPLICANT_INVITE_TTL_SECONDS)).toBeNull();
+    });
+
+    it('should replace the token when an invite is re-sent', async () => {
+      const applicant = await addApplicant('co_applicant');
+      const first = (await issueApplicantInvite(db, applicant.id, APPLICANT_INVITE_TTL_SECONDS))!;
+      const second = (await issueApplicantInvite(db, applicant.id, APPLICANT_INVITE_TTL_SECONDS))!;
+
+      expect(second.inviteToken).not.toBe(first.inviteToken);
+      expect(await acceptApplicantInvite(db, SITE_ID, first.inviteToken!, details)).toBeNull();
+      expect(await acceptApplicantInvite(db, SITE_ID, second.inviteToken!, details)).not.toBeNull();
+    });
+
+    it('should total household income and average scores without the guarantor', async () => {
+      await addApplicant('co_applicant', { monthlyIncome: 4000, aiScore: 60 });
+      await addApplicant('guarantor', { monthlyIncome: 20000, aiScore: 95 });
+
+      await recalculateHousehold(db, SITE_ID, lead.id);
+
+      const row = await db.queryOne<Record<string, number>>(
+        'SELECT household_monthly_income, household_ai_score, applicant_count FROM leads WHERE id = ?',
+        [lead.id]
+      );
+      expect(row).toEqual({ household_monthly_income: 10000, household_ai_score: 70, applicant_count: 3 });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Co-applicant and guarantor invites
+ *
+ * Staff add a co-applicant or guarantor to an application and send them a
+ * tokenized storefront link (see routes/public.ts), where they fill in their
+ * own details, upload documents and accept. A link works once and expires.
+ */
+
+import type { CloudflareEnv } from '../../../shared/config';
+import type { ApplicationApplicant } from '../../../shared/types';
+import { issueApplicantInvite, updateApplicant } from './db/application-applicants';
+import { getEmailProvider } from './email';
+import type { EmailProviderEnv } from './email';
+import { buildStorefrontUrl } from './storefront';
+
+export const APPLICANT_INVITE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export type ApplicantInviteState = 'open' | 'expired' | 'accepted';
+
+/**
+ * Whether an invite can still be used. Invites without an expiry predate
+ * expiring links and count as expired.
+ */
+export function getApplicantInviteState(applicant: ApplicationApplicant, now: Date = new Date()): ApplicantInviteState {
+  if (applicant.inviteAcceptedAt) return 'accepted';
+  if (!applicant.inviteTokenExpiresAt || new Date(applicant.inviteTokenExpiresAt) <= now) return 'expired';
+  return 'open';
+}
+
+/**
+ * The storefront page for an invite, or null when STOREFRONT_URL isn't set
+ */
+export function buildApplicantInviteUrl(
+  env: Pick<CloudflareEnv, 'STOREFRONT_URL'>,
+  siteId: string,
+  token: string
+): string | null {
+  return buildStorefrontUrl(env, siteId, `/invites/${token}`);
+}
+
+const APPLICANT_TYPE_NAMES: Record<ApplicationApplicant['applicantType'], string> = {
+  primary: 'applicant',
+  co_applicant: 'co-applicant',
+  guarantor: 'guarantor',
+};
+
+/**
+ * Email an invite link. Sent directly rather than through the communications
+ * queue so the token doesn't sit in the staff-visible communication history.
+ */
+export async function sendApplicantInvite(
+  env: EmailProviderEnv,
+  applicant: ApplicationApplicant,
+  primaryApplicantName: string,
+  link: string
+): Promise<void> {
+  const provider = getEmailProvider(env);
+  await provider.send({
+    to: { email: applicant.email, name: `${applicant.firstName} ${applicant.lastName}` },
+    subject: `${primaryApplicantName} added you to a rental application`,
+    text: [
+      `Hi ${applicant.firstName},`,
+      '',
+      `${primaryApplicantName} has added you as a ${APPLICANT_TYPE_NAMES[applicant.applicantType]} on their rental application.`,
+      'Use the link below to add your details and documents. It works once and expires in 7 days.',
+      '',
+      link,
+      '',
+      "If you weren't expecting this, you can ignore this email.",
+    ].join('\n'),
+  });
+}
+
+/**
+ * Issue a fresh invite and email it when the storefront URL is configured
+ * (inviteSentAt is set only once emailed). Returns null when the applicant
+ * can't be invited (primary or already accepted).
+ */
+export async function inviteApplicant(
+  env: CloudflareEnv,
+  siteId: string,
+  applicantId: string,
+  primaryApplicantName: string
+): Promise<ApplicationApplicant | null> {
+  const issued = await issueApplicantInvite(env.DB, applicantId, APPLICANT_INVITE_TTL_SECONDS);
+  if (!issued?.inviteToken) return null;
+
+  const link = buildApplicantInviteUrl(env, siteId, issued.inviteToken);
+  if (!link) return issued;
+
+  await sendApplicantInvite(env, issued, primaryApplicantName, link);
+  return updateApplicant(env.DB, issued.id, { inviteSentAt: new Date().toISOString() });
+}
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for applicant status links
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  APPLICANT_STAGE_COPY,
+  APPLICATION_STATUS_LINK_TTL_SECONDS,
+  acceptsApplicantDocuments,
+  createApplicationStatusLink,
+  verifyApplicationStatusLink,
+} from './application-status';
+
+describe('application status links', () => {
+  const env = { STOREFRONT_URL: 'https://{siteId}.example.com/', FILE_SIGNING_SECRET: 'test-signing-secret' };
+  const now = new Date('2025-06-01T12:00:00.000Z');
+
+  async function signedParams(siteId = 'site_1', applicationId = 'lead_1') {
+    const link = (await createApplicationStatusLink(env, siteId, applicationId, now))!;
+    const url = new URL(link.url);
+    return {
+      url,
+      expiresAt: link.expiresAt,
+      expires: url.searchParams.get('expires')!,
+      signature: url.searchParams.get('signature')!,
+    };
+  }
+
+  it('links to the storefront status page until it expires', async () => {
+    const { url, expiresAt, expires, signature } = await signedParams();
+    expect(`${url.origin}${url.pathname}`).toBe('https://site_1.example.com/applications/lead_1/status');
+    expect(expiresAt).toBe(new Date(now.getTime() + APPLICATION_STATUS_LINK_TTL_SECONDS * 1000).toISOString());
+    expect(await verifyApplicationStatusLink(env.FILE_SIGNING_SECRET, 'site_1', 'lead_1', expires, signature, now)).toBe(true);
+
+    const later = new Date(now.getTime() + (APPLICATION_STATUS_LINK_TTL_SECONDS + 1) * 1000);
+    expect(await verifyApplicationStatusLink(env.FILE_SIGNING_SECRET, 'site_1', 'lead_1', expires, signature, later)).toBe(false);
+  });
+
+  it('rejects a signature reused for another site, application or expiry', async () => {
+    const { expires, signature } = await signedParams();
+    const secret = env.FILE_SIGNING_SECRET;
+    expect(await verifyApplicationStatusLink(secret, 'site_2', 'lead_1', expires, signature, now)).toBe(false);
+    expect(await verifyApplicationStatusLink(secret, 'site_1', 'lead_2', expires, signature, now)).toBe(false);
+    expect(await verifyApplicationStatusLink(secret, 'site_1', 'lead_1', String(Number(expires) + 60), signature, now)).toBe(false);
+    expect(await verifyApplicationStatusLink(secret, 'site_1', 'lead_1', 'soon', signature, now)).toBe(false);
+  });
+
+  it('skips sites without a storefront URL or signing secret', async () => {
+    expect(await createApplicationStatusLink({ FILE_SIGNING_SECRET: 'secret' }, 'site_1', 'lead_1')).toBeNull();
+    expect(await createApplicationStatusLink({ STOREFRONT_URL: 'https://example.com' }, 'site_1', 'lead_1')).toBeNull();
+  });
+});
+
+describe('applicant stage copy', () => {
+  it('hides internal review steps and stops uploads once decided', () => {
+    expect(APPLICANT_STAGE_COPY.ai_evaluating).toEqual(APPLICANT_STAGE_COPY.screening);
+    expect(acceptsApplicantDocuments('documents_pending')).toBe(true);
+    expect(acceptsApplicantDocuments('screening')).toBe(true);
+    expect(acceptsApplicantDocuments('approved')).toBe(false);
+    expect(acceptsApplicantDocuments('rejected')).toBe(false);
+  });
+});
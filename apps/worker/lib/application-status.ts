@@ -0,0 +1,151 @@
+/**
+ * Applicant status page
+ *
+ * Applicants get an emailed storefront link to follow their application and
+ * upload documents still outstanding (see routes/public.ts). The link is
+ * signed with FILE_SIGNING_SECRET over the site, the application and the
+ * expiry, so it needs no stored token and works until it expires.
+ */
+
+import type { CloudflareEnv } from '../../../shared/config';
+import type { Lead, LeadStatus } from '../../../shared/types';
+import { hmacSha256Hex, timingSafeEqual } from '../../../shared/utils';
+import { getEmailProvider } from './email';
+import type { EmailProviderEnv } from './email';
+import { buildStorefrontUrl } from './storefront';
+
+export const APPLICATION_STATUS_LINK_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// What applicants see for each status. Internal steps (AI evaluation,
+// background checks, custom pipeline stages) all read as "under review".
+const UNDER_REVIEW = {
+  label: 'Under review',
+  description: "We have what we need and are reviewing your application. We'll be in touch once there's a decision.",
+};
+
+export const APPLICANT_STAGE_COPY: Record<LeadStatus, { label: string; description: string }> = {
+  new: {
+    label: 'Received',
+    description: "We've received your application and will start reviewing it shortly.",
+  },
+  documents_pending: {
+    label: 'Documents needed',
+    description: 'We need a few documents from you before we can continue. Upload them below.',
+  },
+  documents_received: UNDER_REVIEW,
+  ai_evaluating: UNDER_REVIEW,
+  ai_evaluated: UNDER_REVIEW,
+  screening: UNDER_REVIEW,
+  approved: {
+    label: 'Approved',
+    description: "Good news: your application has been approved. We'll contact you about next steps and your lease.",
+  },
+  rejected: {
+    label: 'Not approved',
+    description: "We're unable to move forward with your application at this time. Thank you for your interest.",
+  },
+  lease_sent: {
+    label: 'Lease sent',
+    description: 'Your lease is ready. Check your email for the signing link.',
+  },
+  lease_signed: {
+    label: 'Lease signed',
+    description: 'Your lease is signed. Welcome home!',
+  },
+};
+
+const DECIDED_STATUSES: LeadStatus[] = ['approved', 'rejected', 'lease_sent', 'lease_signed'];
+
+/**
+ * Applicants can add documents until a decision is made
+ */
+export function acceptsApplicantDocuments(status: LeadStatus): boolean {
+  return !DECIDED_STATUSES.includes(status);
+}
+
+// ==================== SIGNED LINKS ====================
+
+function signaturePayload(siteId: string, applicationId: string, expires: number): string {
+  return `application-status:${siteId}:${applicationId}:${expires}`;
+}
+
+/**
+ * Signed storefront link to an application's status page, or null when
+ * STOREFRONT_URL or FILE_SIGNING_SECRET isn't configured
+ */
+export async function createApplicationStatusLink(
+  env: Pick<CloudflareEnv, 'STOREFRONT_URL' | 'FILE_SIGNING_SECRET'>,
+  siteId: string,
+  applicationId: string,
+  now: Date = new Date()
+): Promise<{ url: string; expiresAt: string } | null> {
+  const page = buildStorefrontUrl(env, siteId, `/applications/${applicationId}/status`);
+  if (!page || !env.FILE_SIGNING_SECRET) return null;
+
+  const expires = Math.floor(now.getTime() / 1000) + APPLICATION_STATUS_LINK_TTL_SECONDS;
+  const signature = await hmacSha256Hex(env.FILE_SIGNING_SECRET, signaturePayload(siteId, applicationId, expires));
+
+  const url = new URL(page);
+  url.searchParams.set('expires', String(expires));
+  url.searchParams.set('signature', signature);
+
+  return { url: url.toString(), expiresAt: new Date(expires * 1000).toISOString() };
+}
+
+export async function verifyApplicationStatusLink(
+  secret: string,
+  siteId: string,
+  applicationId: string,
+  expires: string,
+  signature: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < Math.floor(now.getTime() / 1000)) {
+    return false;
+  }
+  const expected = await hmacSha256Hex(secret, signaturePayload(siteId, applicationId, expiresAt));
+  return timingSafeEqual(expected, signature);
+}
+
+/**
+ * Email an applicant their status link. Sent directly rather than through the
+ * communications queue so the signed link doesn't sit in the staff-visible
+ * communication history.
+ */
+export async function sendApplicationStatusLink(
+  env: EmailProviderEnv,
+  lead: Pick<Lead, 'firstName' | 'lastName' | 'email'>,
+  link: string
+): Promise<void> {
+  const provider = getEmailProvider(env);
+  await provider.send({
+    to: { email: lead.email, name: `${lead.firstName} ${lead.lastName}` },
+    subject: 'Follow your rental application',
+    text: [
+      `Hi ${lead.firstName},`,
+      '',
+      'Use the link below to check where your application is and upload any documents we still need. It works for 30 days.',
+      '',
+      link,
+      '',
+      "If you didn't apply, you can ignore this email.",
+    ].join('\n'),
+  });
+}
+
+/**
+ * Sign and email a status link. Returns when it expires, or null when links
+ * aren't configured and nothing was sent.
+ */
+export async function emailApplicationStatusLink(
+  env: CloudflareEnv,
+  siteId: string,
+  lead: Pick<Lead, 'id' | 'firstName' | 'lastName' | 'email'>
+): Promise<string | null> {
+  const link = await createApplicationStatusLink(env, siteId, lead.id);
+  if (!link) return null;
+
+  await sendApplicationStatusLink(env, lead, link.url);
+  return link.expiresAt;
+}
@@ -0,0 +1,75 @@
+import type { AIRubric, AIScoringRubric } from '../../../../shared/types';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { generateId, DEFAULT_AI_RUBRIC } from '../../../../shared/utils';
+
+// ==================== MAPPERS ====================
+
+function mapAIRubricFromDb(row: unknown): AIRubric {
+    const r = row as Record<string, unknown>;
+    return {
+        version: r.version as number,
+        rubric: JSON.parse(r.rubric_json as string) as AIScoringRubric,
+        createdBy: (r.created_by as string) || undefined,
+        createdAt: r.created_at as string,
+    };
+}
+
+// ==================== AI SCORING RUBRICS ====================
+
+/**
+ * Current AI scoring rubric for a site (the built-in one until one is saved)
+ */
+export async function getCurrentAIRubric(dbInput: DatabaseInput, siteId: string): Promise<AIRubric> {
+    const db = normalizeDb(dbInput);
+    const row = await db.queryOne(
+        `SELECT * FROM ai_scoring_rubric_versions WHERE site_id = ? ORDER BY version DESC LIMIT 1`,
+        [siteId]
+    );
+    return row ? mapAIRubricFromDb(row) : DEFAULT_AI_RUBRIC;
+}
+
+/**
+ * A specific rubric version, or null if the site has no such version
+ */
+export async function getAIRubricVersion(
+    dbInput: DatabaseInput,
+    siteId: string,
+    version: number
+): Promise<AIRubric | null> {
+    if (version === 0) {
+        return DEFAULT_AI_RUBRIC;
+    }
+    const db = normalizeDb(dbInput);
+    const row = await db.queryOne(
+        `SELECT * FROM ai_scoring_rubric_versions WHERE site_id = ? AND version = ?`,
+        [siteId, version]
+    );
+    return row ? mapAIRubricFromDb(row) : null;
+}
+
+/**
+ * Save a rubric as the site's next version. Earlier versions are kept so past
+ * evaluations can still be explained against the rubric that scored them.
+ */
+export async function createAIRubricVersion(
+    dbInput: DatabaseInput,
+    siteId: string,
+    rubric: AIScoringRubric,
+    createdBy?: string
+): Promise<AIRubric> {
+    const db = normalizeDb(dbInput);
+    const id = generateId('rubric');
+    const now = new Date().toISOString();
+
+    // Version is assigned in the insert itself; UNIQUE(site_id, version) rejects a concurrent save
+    await db.execute(
+        `INSERT INTO ai_scoring_rubric_versions (id, site_id, version, rubric_json, created_by, created_at)
+         SELECT ?, ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?
+         FROM ai_scoring_rubric_versions WHERE site_id = ?`,
+        [id, siteId, JSON.stringify(rubric), createdBy || null, now, siteId]
+    );
+
+    const row = await db.queryOne(`SELECT * FROM ai_scoring_rubric_versions WHERE id = ? AND site_id = ?`, [id, siteId]);
+    return mapAIRubricFromDb(row);
+}
@@ -154,6 +154,7 @@ describe('application-applicants database helpers', () => {
         backgroundCheckReferenceId: null,
         backgroundCheckCompletedAt: null,
         inviteToken: 'token_abc123',
+        inviteTokenExpiresAt: null,
         inviteSentAt: null,
         inviteAcceptedAt: null,
         createdBy: null,
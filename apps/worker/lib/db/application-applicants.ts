@@ -1,5 +1,6 @@
+import type { AcceptApplicantInviteInput } from '~/shared/config';
 import type { ApplicationApplicant } from '~/shared/types';
-import { generateId } from '~/shared/utils';
+import { generateId, generateRandomToken } from '~/shared/utils';
 import type { DatabaseInput } from './helpers';
 import { normalizeDb } from './helpers';
 
@@ -38,6 +39,7 @@ function mapApplicantFromDb(row: unknown): ApplicationApplicant {
 
     // Invite system
     inviteToken: r.invite_token as string | null,
+    inviteTokenExpiresAt: r.invite_token_expires_at as string | null,
     inviteSentAt: r.invite_sent_at as string | null,
     inviteAcceptedAt: r.invite_accepted_at as string | null,
 
@@ -109,11 +111,11 @@ export async function getPrimaryApplicant(
 }
 
 /**
- * Create a new applicant
+ * Create a new applicant. Invites are issued separately (issueApplicantInvite).
  */
 export async function createApplicant(
   dbInput: DatabaseInput,
-  data: Omit<ApplicationApplicant, 'id' | 'createdAt' | 'updatedAt'>
+  data: Omit<ApplicationApplicant, 'id' | 'createdAt' | 'updatedAt' | 'inviteTokenExpiresAt'>
 ): Promise<ApplicationApplicant> {
   const db = normalizeDb(dbInput);
   const id = generateId('app');
@@ -266,3 +268,133 @@ export async function getApplicantByInviteToken(
   const result = await db.queryOne(query, [inviteToken]);
   return result ? mapApplicantFromDb(result) : null;
 }
+
+/**
+ * Find an applicant by invite token, only if their application belongs to the site
+ */
+export async function getApplicantByInviteTokenForSite(
+  dbInput: DatabaseInput,
+  siteId: string,
+  inviteToken: string
+): Promise<ApplicationApplicant | null> {
+  const db = normalizeDb(dbInput);
+
+  const query = `
+    SELECT aa.* FROM application_applicants aa
+    JOIN leads l ON l.id = aa.application_id
+    WHERE aa.invite_token = ? AND l.site_id = ?
+    LIMIT 1
+  `;
+
+  const result = await db.queryOne(query, [inviteToken, siteId]);
+  return result ? mapApplicantFromDb(result) : null;
+}
+
+/**
+ * Give a co-applicant or guarantor a fresh invite token, replacing any earlier
+ * one. Returns null for primary applicants and invites already accepted.
+ */
+export async function issueApplicantInvite(
+  dbInput: DatabaseInput,
+  applicantId: string,
+  ttlSeconds: number
+): Promise<ApplicationApplicant | null> {
+  const db = normalizeDb(dbInput);
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlSeconds * 1000).toISOString();
+
+  const { changes } = await db.execute(
+    `UPDATE application_applicants
+     SET invite_token = ?, invite_token_expires_at = ?, invite_sent_at = NULL, updated_at = ?
+     WHERE id = ? AND applicant_type != 'primary' AND invite_accepted_at IS NULL`,
+    [generateRandomToken(32), expiresAt, now.toISOString(), applicantId]
+  );
+  if (changes === 0) {
+    return null;
+  }
+
+  return getApplicantById(db, applicantId);
+}
+
+/**
+ * Save an invited applicant's details and accept the invite. Succeeds once
+ * per token, and only before it expires.
+ */
+export async function acceptApplicantInvite(
+  dbInput: DatabaseInput,
+  siteId: string,
+  inviteToken: string,
+  details: AcceptApplicantInviteInput
+): Promise<ApplicationApplicant | null> {
+  const db = normalizeDb(dbInput);
+  const now = new Date().toISOString();
+
+  // Conditional update so the link can't be used twice, even concurrently
+  const { changes } = await db.execute(
+    `UPDATE application_applicants
+     SET first_name = ?, last_name = ?, phone = ?, date_of_birth = ?,
+         employment_status = ?, employer_name = ?, job_title = ?, monthly_income = ?,
+         invite_accepted_at = ?, updated_at = ?
+     WHERE invite_token = ? AND invite_accepted_at IS NULL AND invite_token_expires_at > ?
+       AND application_id IN (SELECT id FROM leads WHERE site_id = ?)`,
+    [
+      details.firstName,
+      details.lastName,
+      details.phone || null,
+      details.dateOfBirth || null,
+      details.employmentStatus,
+      details.employerName || null,
+      details.jobTitle || null,
+      details.monthlyIncome ?? null,
+      now,
+      now,
+      inviteToken,
+      now,
+      siteId,
+    ]
+  );
+  if (changes === 0) {
+    return null;
+  }
+
+  return getApplicantByInviteTokenForSite(db, siteId, inviteToken);
+}
+
+/**
+ * Recompute an application's household income, score and applicant count.
+ * The lead itself stands in for the primary applicant when there is no
+ * primary row; guarantors count as applicants but don't live in the unit, so
+ * their income and score are left out.
+ */
+export async function recalculateHousehold(
+  dbInput: DatabaseInput,
+  siteId: string,
+  applicationId: string
+): Promise<void> {
+  const db = normalizeDb(dbInput);
+  const lead = await db.queryOne<{ monthly_income: number | null; ai_score: number | null }>(
+    'SELECT monthly_income, ai_score FROM leads WHERE id = ? AND site_id = ?',
+    [applicationId, siteId]
+  );
+  if (!lead) return;
+
+  const applicants = await getApplicantsByApplicationId(db, applicationId);
+  const primary = applicants.find((a) => a.applicantType === 'primary');
+  const coApplicants = applicants.filter((a) => a.applicantType === 'co_applicant');
+
+  const incomes = [primary?.monthlyIncome ?? lead.monthly_income, ...coApplicants.map((a) => a.monthlyIncome)];
+  const scores = [primary?.aiScore ?? lead.ai_score, ...coApplicants.map((a) => a.aiScore)].filter(
+    (score): score is number => score !== null && score !== undefined
+  );
+
+  const householdIncome = incomes.reduce<number>((sum, income) => sum + (income ?? 0), 0);
+  const householdScore = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+  const applicantCount = 1 + applicants.filter((a) => a.applicantType !== 'primary').length;
+
+  await db.execute(
+    `UPDATE leads
+     SET household_monthly_income = ?, household_ai_score = ?, applicant_count = ?, updated_at = ?
+     WHERE id = ? AND site_id = ?`,
+    [householdIncome, householdScore, applicantCount, new Date().toISOString(), applicationId, siteId]
+  );
+}
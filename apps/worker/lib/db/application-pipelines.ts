@@ -0,0 +1,52 @@
+import type { ApplicationPipeline, PipelineStage } from '../../../../shared/types';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { DEFAULT_APPLICATION_PIPELINE } from '../../../../shared/utils';
+
+// ==================== MAPPERS ====================
+
+function mapApplicationPipelineFromDb(row: unknown): ApplicationPipeline {
+    const r = row as Record<string, unknown>;
+    return {
+        stages: JSON.parse(r.stages_json as string) as PipelineStage[],
+        updatedBy: (r.updated_by as string) || undefined,
+        updatedAt: r.updated_at as string,
+    };
+}
+
+// ==================== APPLICATION PIPELINES ====================
+
+/**
+ * A site's application pipeline (the built-in one until the site saves its own)
+ */
+export async function getApplicationPipeline(dbInput: DatabaseInput, siteId: string): Promise<ApplicationPipeline> {
+    const db = normalizeDb(dbInput);
+    const row = await db.queryOne(`SELECT * FROM application_pipelines WHERE site_id = ?`, [siteId]);
+    return row ? mapApplicationPipelineFromDb(row) : DEFAULT_APPLICATION_PIPELINE;
+}
+
+/**
+ * Replace a site's pipeline. Leads whose stage was removed fall back to the
+ * first stage of their status.
+ */
+export async function saveApplicationPipeline(
+    dbInput: DatabaseInput,
+    siteId: string,
+    stages: PipelineStage[],
+    updatedBy?: string
+): Promise<ApplicationPipeline> {
+    const db = normalizeDb(dbInput);
+    const now = new Date().toISOString();
+
+    await db.execute(
+        `INSERT INTO application_pipelines (site_id, stages_json, updated_by, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (site_id) DO UPDATE SET
+           stages_json = excluded.stages_json,
+           updated_by = excluded.updated_by,
+           updated_at = excluded.updated_at`,
+        [siteId, JSON.stringify(stages), updatedBy || null, now]
+    );
+
+    return { stages, updatedBy, updatedAt: now };
+}
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for stage changes under the application workflow
+ * @vitest-environment node
+ *
+ * Runs against an in-memory SQLite database with the migrations applied.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'node:path';
+import { SQLiteDatabaseAdapter, applySqlFiles } from '../../../../shared/storage-sqlite/sqlite-database';
+import { runD1Transaction } from '../../../../shared/storage-cloudflare/d1-database';
+import { changeApplicationStage, getTransitionById } from './application-stage-transitions';
+import { StageTransitionError, createLead, getLeadById, updateLead } from './leads';
+import { createUser } from './users';
+import { createProperty } from './properties';
+import { saveApplicationPipeline } from './application-pipelines';
+import { DEFAULT_APPLICATION_PIPELINE } from '../../../../shared/utils';
+import type { Lead } from '../../../../shared/types';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../scripts/migrations');
+const SITE_ID = 'site_1';
+
+describe('changeApplicationStage', () => {
+  let db: SQLiteDatabaseAdapter;
+  let userId: string;
+  let lead: Lead;
+
+  const reload = async () => (await getLeadById(db, SITE_ID, lead.id))!;
+
+  beforeEach(async () => {
+    db = new SQLiteDatabaseAdapter();
+    await applySqlFiles(db, MIGRATIONS_DIR);
+
+    const user = await createUser(db, {
+      email: 'pm@example.com',
+      name: 'Pat Manager',
+      passwordHash: 'x',
+      role: 'property_manager',
+      siteId: SITE_ID,
+    });
+    userId = user.id;
+    const property = await createProperty(db, SITE_ID, {
+      name: 'Maple House',
+      address: '1 Main St',
+      city: 'Toronto',
+      province: 'ON',
+      postalCode: 'M1M 1M1',
+      propertyType: 'multi_family',
+    });
+    lead = await createLead(db, SITE_ID, {
+      propertyId: property.id,
+      firstName: 'Ada',
+      lastName: 'Applicant',
+      email: 'ada@example.com',
+      phone: '555-0100',
+      employmentStatus: 'employed',
+      moveInDate: '2026-12-01',
+    } as Parameters<typeof createLead>[2]);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should refuse a move the workflow does not allow and leave the status alone', async () => {
+    await expect(
+      changeApplicationStage(db, SITE_ID, lead, 'lease_signed', { type: 'system', userId })
+    ).rejects.toThrow(StageTransitionError);
+
+    expect((await reload()).status).toBe('new');
+  });
+
+  it('should hold a manual move on an incomplete checklist unless it is bypassed', async () => {
+    // No applicant details yet, so the automatic items stay open whatever is ticked
+    const checklist = { review_application: true };
+    await expect(
+      changeApplicationStage(db, SITE_ID, lead, 'documents_pending', { type: 'manual', userId, checklist })
+    ).rejects.toThrow('Incomplete checklist items: Verify contact information, Verify employment status');
+
+    const transitionId = await changeApplicationStage(db, SITE_ID, lead, 'documents_pending', {
+      type: 'manual',
+      userId,
+      checklist,
+      bypassReason: 'Details confirmed over the phone',
+      bypassCategory: 'other',
+    });
+
+    expect((await reload()).status).toBe('documents_pending');
+    expect(await getTransitionById(db, transitionId!)).toMatchObject({
+      fromStage: 'new',
+      toStage: 'documents_pending',
+      transitionType: 'manual',
+      bypassReason: 'Details confirmed over the phone',
+      bypassCategory: 'other',
+      checklistSnapshot: { verify_contact_info: false, verify_employment: false, review_application: true },
+      transitionedBy: userId,
+    });
+  });
+
+  it('should record the bypass for a manual move that skips stages', async () => {
+    const transitionId = await changeApplicationStage(db, SITE_ID, lead, 'screening', {
+      type: 'manual',
+      userId,
+      bypassReason: '  Returning applicant with documents on file  ',
+      bypassCategory: 'manual_override',
+    });
+
+    expect((await reload()).status).toBe('screening');
+    expect(await getTransitionById(db, transitionId!)).toMatchObject({
+      bypassReason: 'Returning applicant with documents on file',
+      bypassCategory: 'manual_override',
+    });
+  });
+
+  it("should move through the site's own stages within a status", async () => {
+    const [newStage, ...rest] = DEFAULT_APPLICATION_PIPELINE.stages;
+    await saveApplicationPipeline(db, SITE_ID, [
+      newStage,
+      {
+        key: 'showing_scheduled',
+        label: 'Showing Scheduled',
+        bucket: 'new',
+        checklist: [{ id: 'showing_done', label: 'Showing completed', required: true }],
+      },
+      ...rest,
+    ]);
+
+    // The status's checklist now belongs to its last stage, so the first move needs nothing
+    const transitionId = await changeApplicationStage(db, SITE_ID, lead, 'showing_scheduled', {
+      type: 'manual',
+      userId,
+    });
+
+    expect(await reload()).toMatchObject({ status: 'new', pipelineStage: 'showing_scheduled' });
+    expect(await getTransitionById(db, transitionId!)).toMatchObject({
+      fromStage: 'new',
+      fromPipelineStage: 'new',
+      toStage: 'new',
+      toPipelineStage: 'showing_scheduled',
+    });
+
+    // Going back to the first stage of the status needs nothing
+    await changeApplicationStage(db, SITE_ID, await reload(), 'new', { type: 'manual', userId });
+    expect(await reload()).toMatchObject({ status: 'new', pipelineStage: 'new' });
+  });
+
+  describe('when another change moved the lead first', () => {
+    const recorded = async () => ({
+      transitions: await db.query('SELECT id FROM application_stage_transitions WHERE application_id = ?', [lead.id]),
+      history: await db.query("SELECT id FROM lead_history WHERE lead_id = ? AND event_type = 'lead_updated'", [lead.id]),
+    });
+
+    it('should throw and record nothing', async () => {
+      await changeApplicationStage(db, SITE_ID, lead, 'documents_pending', { type: 'system', userId });
+      const before = await recorded();
+
+      // lead is the copy loaded before that move
+      await expect(
+        changeApplicationStage(db, SITE_ID, lead, 'rejected', { type: 'system', userId })
+      ).rejects.toThrow(StageTransitionError);
+
+      expect((await reload()).status).toBe('documents_pending');
+      expect(await recorded()).toEqual(before);
+    });
+
+    it('should record nothing inside a D1 transaction', async () => {
+      await changeApplicationStage(db, SITE_ID, lead, 'documents_pending', { type: 'system', userId });
+      const before = await recorded();
+
+      // Queued writes can't tell whether they matched, so the move is skipped instead
+      const transitionId = await runD1Transaction(db, (tx) =>
+        changeApplicationStage(tx, SITE_ID, lead, 'rejected', { type: 'system', userId })
+      );
+
+      expect((await reload()).status).toBe('documents_pending');
+      expect(await getTransitionById(db, transitionId!)).toBeNull();
+      expect(await recorded()).toEqual(before);
+    });
+  });
+
+  it('should not let updateLead change the status', async () => {
+    await expect(updateLead(db, SITE_ID, lead.id, { status: 'approved' })).rejects.toThrow(StageTransitionError);
+    await updateLead(db, SITE_ID, lead.id, { landlordNote: 'Prefers email' });
+
+    expect(await reload()).toMatchObject({ status: 'new', landlordNote: 'Prefers email' });
+  });
+});
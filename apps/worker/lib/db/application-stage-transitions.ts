@@ -1,7 +1,29 @@
-import type { ApplicationStageTransition } from '~/shared/types';
-import { generateId } from '~/shared/utils';
+import type {
+  ApplicationPipeline,
+  ApplicationStageTransition,
+  BypassCategory,
+  Lead,
+  PipelineStage,
+  StageChecklistItem,
+  StageChecklistState,
+  StageTransitionType,
+} from '~/shared/types';
+import type { StageChecklistData } from '~/shared/utils';
+import {
+  checkPipelineTransition,
+  findPipelineTarget,
+  generateId,
+  getPipelineStageChecklist,
+  getPipelineTransitionGate,
+  resolvePipelineStage,
+} from '~/shared/utils';
 import type { DatabaseInput } from './helpers';
 import { normalizeDb } from './helpers';
+import { getApplicationPipeline } from './application-pipelines';
+import { getApplicantsByApplicationId } from './application-applicants';
+import { getDocumentsByApplicationId } from './application-documents';
+import { StageTransitionError, leadInStage, updateLeadStatus } from './leads';
+import { getScreeningResultsByLead } from './screening';
 
 // Mapper function to convert database row to ApplicationStageTransition type
 function mapTransitionFromDb(row: unknown): ApplicationStageTransition {
@@ -13,6 +35,8 @@ function mapTransitionFromDb(row: unknown): ApplicationStageTransition {
     // Stage change
     fromStage: r.from_stage as ApplicationStageTransition['fromStage'],
     toStage: r.to_stage as ApplicationStageTransition['toStage'],
+    fromPipelineStage: (r.from_pipeline_stage as string | null) ?? null,
+    toPipelineStage: (r.to_pipeline_stage as string | null) ?? null,
     transitionType: r.transition_type as ApplicationStageTransition['transitionType'],
 
     // Confirmation metadata
@@ -32,6 +56,13 @@ function mapTransitionFromDb(row: unknown): ApplicationStageTransition {
   };
 }
 
+// Pipeline stages are only recorded where the site's pipeline names them
+type NewStageTransition = Omit<
+  ApplicationStageTransition,
+  'id' | 'transitionedAt' | 'fromPipelineStage' | 'toPipelineStage'
+> &
+  Partial<Pick<ApplicationStageTransition, 'fromPipelineStage' | 'toPipelineStage'>>;
+
 /**
  * Get all stage transitions for an application
  */
@@ -91,42 +122,185 @@ export async function getLatestTransition(
  */
 export async function createTransition(
   dbInput: DatabaseInput,
-  data: Omit<ApplicationStageTransition, 'id' | 'transitionedAt'>
+  data: NewStageTransition
 ): Promise<ApplicationStageTransition> {
+  const db = normalizeDb(dbInput);
+  const id = await insertTransition(db, data);
+
+  const created = await getTransitionById(db, id);
+  if (!created) throw new Error('Failed to create stage transition');
+  return created;
+}
+
+/**
+ * Insert a stage transition without reading it back, for use inside a
+ * transaction. Returns the new transition's id.
+ */
+export async function insertTransition(
+  dbInput: DatabaseInput,
+  data: NewStageTransition
+): Promise<string> {
   const db = normalizeDb(dbInput);
   const id = generateId('trans');
-  const now = new Date().toISOString();
+  const { sql, params } = transitionInsert(id, data);
+  await db.execute(sql, params);
+  return id;
+}
 
-  const query = `
+// The INSERT for a transition, written only while guard holds if one is given
+function transitionInsert(
+  id: string,
+  data: NewStageTransition,
+  guard?: { sql: string; params: unknown[] }
+): { sql: string; params: unknown[] } {
+  const sql = `
     INSERT INTO application_stage_transitions (
-      id, application_id, from_stage, to_stage, transition_type,
+      id, application_id, from_stage, to_stage, from_pipeline_stage, to_pipeline_stage, transition_type,
       confirmation_acknowledged, bypass_reason, bypass_category,
       checklist_snapshot, internal_notes, transitioned_at, transitioned_by
-    ) VALUES (
-      ?, ?, ?, ?, ?,
+    ) SELECT
+      ?, ?, ?, ?, ?, ?, ?,
       ?, ?, ?,
       ?, ?, ?, ?
-    )
+    ${guard ? `WHERE ${guard.sql}` : ''}
   `;
 
-  await db.execute(query, [
+  const params: unknown[] = [
     id,
     data.applicationId,
     data.fromStage,
     data.toStage,
+    data.fromPipelineStage ?? null,
+    data.toPipelineStage ?? null,
     data.transitionType,
     data.confirmationAcknowledged ? 1 : 0,
     data.bypassReason,
     data.bypassCategory,
     data.checklistSnapshot ? JSON.stringify(data.checklistSnapshot) : null,
     data.internalNotes,
-    now,
+    new Date().toISOString(),
     data.transitionedBy,
+  ];
+
+  return { sql, params: guard ? [...params, ...guard.params] : params };
+}
+
+/**
+ * What an application's checklists are evaluated against
+ */
+export async function loadStageChecklistData(
+  dbInput: DatabaseInput,
+  siteId: string,
+  lead: Pick<Lead, 'id' | 'aiScore'>
+): Promise<StageChecklistData> {
+  const db = normalizeDb(dbInput);
+  const [applicants, documents, screeningResults] = await Promise.all([
+    getApplicantsByApplicationId(db, lead.id),
+    getDocumentsByApplicationId(db, lead.id),
+    getScreeningResultsByLead(db, siteId, lead.id),
   ]);
+  return { applicants, documents, aiScore: lead.aiScore ?? null, screeningResults };
+}
 
-  const created = await getTransitionById(db, id);
-  if (!created) throw new Error('Failed to create stage transition');
-  return created;
+export interface ChangeStageOptions {
+  type: StageTransitionType;
+  // Moves without a user update the status but are not recorded as transitions
+  userId?: string | null;
+  bypassReason?: string | null;
+  bypassCategory?: BypassCategory | null;
+  // Manual checklist items the reviewer ticked
+  checklist?: StageChecklistState | null;
+  internalNotes?: string | null;
+  // The site's pipeline, for callers that loaded it before their transaction
+  pipeline?: ApplicationPipeline;
+}
+
+/**
+ * Move an application to another stage of the site's pipeline. toStage is a
+ * pipeline stage key or a status (its first stage). Between statuses the
+ * move must follow an edge of the shared workflow; manual moves must also
+ * pass the gate (the current stage's checklist, or a bypass reason and
+ * category). Throws StageTransitionError otherwise. Its reads (the pipeline
+ * unless passed in, and the checklist data for manual moves) come before its
+ * writes, but D1 refuses reads once a transaction has queued a write: inside a
+ * transaction it must be the first statement, or be given the pipeline for a
+ * non-manual move. Nothing is written if the lead has left lead.status since
+ * it was loaded: outside a transaction that throws StageTransitionError, inside
+ * one the move is skipped. Returns the recorded transition's id.
+ */
+export async function changeApplicationStage(
+  dbInput: DatabaseInput,
+  siteId: string,
+  lead: Pick<Lead, 'id' | 'status' | 'pipelineStage' | 'aiScore'>,
+  toStage: string,
+  options: ChangeStageOptions
+): Promise<string | null> {
+  const db = normalizeDb(dbInput);
+  const pipeline = options.pipeline ?? (await getApplicationPipeline(db, siteId));
+  const from = resolvePipelineStage(pipeline, lead.status, lead.pipelineStage);
+  const to = findPipelineTarget(pipeline, toStage);
+  if (!to) {
+    throw new StageTransitionError(`Unknown stage "${toStage}"`);
+  }
+
+  let checklist: StageChecklistItem[] = [];
+  if (options.type === 'manual' && getPipelineTransitionGate(pipeline, from, to) === 'checklist') {
+    const data = await loadStageChecklistData(db, siteId, lead);
+    checklist = getPipelineStageChecklist(pipeline, from, data, options.checklist ?? {});
+  }
+
+  const check = checkPipelineTransition(pipeline, from, to, {
+    type: options.type,
+    checklist,
+    bypassReason: options.bypassReason,
+    bypassCategory: options.bypassCategory,
+  });
+  if (!check.allowed) {
+    throw new StageTransitionError(check.message ?? 'Stage change not allowed');
+  }
+
+  // Stand-ins for statuses the pipeline leaves out are not stored
+  const inPipeline = (stage: PipelineStage) => pipeline.stages.some((s) => s.key === stage.key);
+
+  // The transition is only recorded if the move applies, i.e. the lead is
+  // still in the stage it was loaded in
+  let transitionId: string | null = null;
+  const guardedWrites: Array<{ sql: string; params: unknown[] }> = [];
+  if (options.userId) {
+    transitionId = generateId('trans');
+    guardedWrites.push(
+      transitionInsert(
+        transitionId,
+        {
+          applicationId: lead.id,
+          fromStage: lead.status,
+          toStage: to.bucket,
+          fromPipelineStage: inPipeline(from) ? from.key : null,
+          toPipelineStage: inPipeline(to) ? to.key : null,
+          transitionType: options.type,
+          confirmationAcknowledged: options.type === 'manual',
+          bypassReason: check.bypassed ? options.bypassReason?.trim() ?? null : null,
+          bypassCategory: check.bypassed ? options.bypassCategory ?? null : null,
+          checklistSnapshot:
+            checklist.length > 0 ? Object.fromEntries(checklist.map((item) => [item.id, item.checked])) : null,
+          internalNotes: options.internalNotes ?? null,
+          transitionedBy: options.userId,
+        },
+        leadInStage(siteId, lead.id, lead.status)
+      )
+    );
+  }
+  await updateLeadStatus(
+    db,
+    siteId,
+    lead.id,
+    lead.status,
+    to.bucket,
+    inPipeline(to) ? to.key : null,
+    guardedWrites
+  );
+
+  return transitionId;
 }
 
 /**
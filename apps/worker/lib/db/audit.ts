@@ -0,0 +1,159 @@
+/**
+ * Database operations for the audit log
+ * One row per change to a record: who made it, on which site, and what changed
+ */
+
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { nanoid } from 'nanoid';
+import { diffAuditRecords } from '../../../../shared/utils';
+import type { AuditEntityType, AuditLogEntry } from '../../../../shared/types';
+
+export interface AuditLogFilters {
+    entityType?: AuditEntityType;
+    entityId?: string;
+    performedBy?: string;
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string; // YYYY-MM-DD, inclusive
+    limit?: number;
+}
+
+const DEFAULT_AUDIT_LIMIT = 50;
+const MAX_AUDIT_LIMIT = 200;
+
+function mapAuditLogEntryFromDb(row: Record<string, unknown>): AuditLogEntry {
+    return {
+        id: row.id as string,
+        siteId: (row.site_id as string) || undefined,
+        entityType: row.entity_type as AuditEntityType,
+        entityId: row.entity_id as string,
+        action: row.action as string,
+        performedBy: (row.performed_by as string) || undefined,
+        performedByName: (row.performed_by_name as string) || undefined,
+        changes: JSON.parse((row.changes as string) || '{}'),
+        bulkActionId: (row.bulk_action_id as string) || undefined,
+        createdAt: row.created_at as string,
+    };
+}
+
+/**
+ * Log an audit entry with optional bulk action ID
+ */
+export async function logAuditEntry(
+    dbInput: DatabaseInput,
+    entry: {
+        siteId?: string;
+        entityType: string;
+        entityId: string;
+        action: string;
+        performedBy?: string | null;
+        bulkActionId?: string;
+        changes?: Record<string, any>;
+    }
+): Promise<void> {
+    const db = normalizeDb(dbInput);
+    const auditId = nanoid();
+
+    await db.execute(
+        `INSERT INTO audit_log (id, site_id, entity_type, entity_id, action, performed_by, bulk_action_id, changes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            auditId,
+            entry.siteId || null,
+            entry.entityType,
+            entry.entityId,
+            entry.action,
+            entry.performedBy || null,
+            entry.bulkActionId || null,
+            JSON.stringify(entry.changes || {}),
+        ]
+    );
+}
+
+/**
+ * Record a create, update or delete as a before/after diff. Updates that
+ * change nothing are not logged. The change itself has already been made,
+ * so a failure here is logged rather than thrown.
+ */
+export async function recordEntityChange(
+    dbInput: DatabaseInput,
+    siteId: string,
+    change: {
+        entityType: AuditEntityType;
+        entityId: string;
+        action: 'create' | 'update' | 'delete';
+        performedBy?: string | null;
+        before?: Record<string, any> | null;
+        after?: Record<string, any> | null;
+    }
+): Promise<void> {
+    const changes = diffAuditRecords(change.before, change.after);
+    if (change.action === 'update' && Object.keys(changes).length === 0) {
+        return;
+    }
+
+    try {
+        await logAuditEntry(dbInput, {
+            siteId,
+            entityType: change.entityType,
+            entityId: change.entityId,
+            action: change.action,
+            performedBy: change.performedBy,
+            changes,
+        });
+    } catch (error) {
+        console.error(`Failed to record audit entry for ${change.entityType} ${change.entityId}:`, error);
+    }
+}
+
+/**
+ * Audit entries for a site, newest first, with the acting user's name
+ */
+export async function getAuditLog(
+    dbInput: DatabaseInput,
+    siteId: string,
+    filters: AuditLogFilters = {}
+): Promise<AuditLogEntry[]> {
+    const db = normalizeDb(dbInput);
+    const conditions = ['a.site_id = ?'];
+    const params: (string | number)[] = [siteId];
+
+    if (filters.entityType) {
+        conditions.push('a.entity_type = ?');
+        params.push(filters.entityType);
+    }
+    if (filters.entityId) {
+        conditions.push('a.entity_id = ?');
+        params.push(filters.entityId);
+    }
+    if (filters.performedBy) {
+        conditions.push('a.performed_by = ?');
+        params.push(filters.performedBy);
+    }
+    if (filters.from) {
+        conditions.push('a.created_at >= ?');
+        params.push(filters.from);
+    }
+    if (filters.to) {
+        // Inclusive end date: compare against the start of the next day
+        const nextDay = new Date(`${filters.to}T00:00:00Z`);
+        nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+        conditions.push('a.created_at < ?');
+        params.push(nextDay.toISOString().slice(0, 10));
+    }
+
+    const limit = Math.min(Math.max(filters.limit || DEFAULT_AUDIT_LIMIT, 1), MAX_AUDIT_LIMIT);
+    params.push(limit);
+
+    const rows = await db.query<Record<string, unknown>>(
+        `SELECT a.*, u.name as performed_by_name
+         FROM audit_log a
+         LEFT JOIN users u ON u.id = a.performed_by
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY a.created_at DESC
+         LIMIT ?`,
+        params
+    );
+
+    return rows.map(mapAuditLogEntryFromDb);
+}
@@ -118,34 +118,5 @@ export async function getBulkActionsByUser(
   }));
 }
 
-/**
- * Log an audit entry with optional bulk action ID
- */
-export async function logAuditEntry(
-  dbInput: DatabaseInput,
-  entry: {
-    entityType: string;
-    entityId: string;
-    action: string;
-    performedBy: string;
-    bulkActionId?: string;
-    changes?: Record<string, any>;
-  }
-): Promise<void> {
-  const db = normalizeDb(dbInput);
-  const auditId = nanoid();
-
-  await db.execute(
-    `INSERT INTO audit_log (id, entity_type, entity_id, action, performed_by, bulk_action_id, changes)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
-    [
-      auditId,
-      entry.entityType,
-      entry.entityId,
-      entry.action,
-      entry.performedBy,
-      entry.bulkActionId || null,
-      JSON.stringify(entry.changes || {}),
-    ]
-  );
-}
+// Audit entries (including those linked to a bulk action) live in audit.ts
+export { logAuditEntry } from './audit';
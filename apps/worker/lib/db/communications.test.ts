@@ -0,0 +1,72 @@
+/**
+ * Unit tests for the communications queue
+ * @vitest-environment node
+ *
+ * Runs against an in-memory SQLite database with the migrations applied.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import path from 'node:path';
+import { SQLiteDatabaseAdapter, applySqlFiles } from '../../../../shared/storage-sqlite/sqlite-database';
+import {
+  claimCommunication,
+  createCommunication,
+  getCommunicationById,
+  getDueCommunications,
+  requeueStaleCommunications,
+} from './communications';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../scripts/migrations');
+const SITE_ID = 'site_1';
+
+describe('Communications', () => {
+  let db: SQLiteDatabaseAdapter;
+
+  beforeEach(async () => {
+    db = new SQLiteDatabaseAdapter();
+    await applySqlFiles(db, MIGRATIONS_DIR);
+  });
+
+  const queue = (idempotencyKey: string) =>
+    createCommunication(db, SITE_ID, {
+      entityType: 'tenant',
+      entityId: 'tenant_1',
+      recipientEmail: 'tina@example.com',
+      subject: 'Hello',
+      body: 'Hi Tina',
+      idempotencyKey,
+    });
+
+  describe('requeueStaleCommunications', () => {
+    it('should re-queue attempts claimed before the cutoff and leave recent ones alone', async () => {
+      const stale = await queue('stale');
+      const recent = await queue('recent');
+      await claimCommunication(db, SITE_ID, stale.id);
+      await claimCommunication(db, SITE_ID, recent.id);
+      await db.execute('UPDATE communications SET claimed_at = ? WHERE id = ?', ['2026-01-01T00:00:00.000Z', stale.id]);
+
+      const requeued = await requeueStaleCommunications(db, '2026-01-01T00:15:00.000Z', 5);
+
+      expect(requeued).toBe(1);
+      expect(await getCommunicationById(db, SITE_ID, stale.id)).toMatchObject({
+        status: 'queued',
+        attempts: 1,
+        lastError: 'Delivery attempt did not finish',
+      });
+      expect((await getCommunicationById(db, SITE_ID, recent.id))!.status).toBe('sending');
+      expect((await getDueCommunications(db, new Date().toISOString())).map((c) => c.id)).toEqual([stale.id]);
+    });
+
+    it('should fail an attempt that was cut off on its last try', async () => {
+      const communication = await queue('last_try');
+      await claimCommunication(db, SITE_ID, communication.id);
+
+      await requeueStaleCommunications(db, new Date(Date.now() + 1000).toISOString(), 1);
+
+      expect(await getCommunicationById(db, SITE_ID, communication.id)).toMatchObject({
+        status: 'failed',
+        nextAttemptAt: undefined,
+      });
+    });
+  });
+});
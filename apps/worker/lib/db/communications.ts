@@ -0,0 +1,225 @@
+import type { Communication, CommunicationEntityType } from '../../../../shared/types';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { generateId } from '../../../../shared/utils';
+
+// ==================== MAPPERS ====================
+
+function mapCommunicationFromDb(row: unknown): Communication {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id as string,
+    entityType: r.entity_type as Communication['entityType'],
+    entityId: r.entity_id as string,
+    channel: r.channel as Communication['channel'],
+    templateKey: (r.template_key as string) || undefined,
+    recipientEmail: r.recipient_email as string,
+    recipientName: (r.recipient_name as string) || undefined,
+    subject: r.subject as string,
+    body: r.body as string,
+    status: r.status as Communication['status'],
+    attempts: (r.attempts as number) || 0,
+    nextAttemptAt: (r.next_attempt_at as string) || undefined,
+    lastError: (r.last_error as string) || undefined,
+    idempotencyKey: (r.idempotency_key as string) || undefined,
+    provider: (r.provider as string) || undefined,
+    providerMessageId: (r.provider_message_id as string) || undefined,
+    sentAt: (r.sent_at as string) || undefined,
+    createdBy: (r.created_by as string) || undefined,
+    createdAt: r.created_at as string,
+    updatedAt: r.updated_at as string,
+  };
+}
+
+// ==================== COMMUNICATION OPERATIONS ====================
+
+/**
+ * Communication history for an application, tenant or work order (newest first)
+ */
+export async function getCommunicationsByEntity(
+  dbInput: DatabaseInput,
+  siteId: string,
+  entityType: CommunicationEntityType,
+  entityId: string
+): Promise<Communication[]> {
+  const db = normalizeDb(dbInput);
+  const results = await db.query(
+    `SELECT * FROM communications
+     WHERE site_id = ? AND entity_type = ? AND entity_id = ?
+     ORDER BY created_at DESC`,
+    [siteId, entityType, entityId]
+  );
+  return results.map(mapCommunicationFromDb);
+}
+
+export async function getCommunicationById(
+  dbInput: DatabaseInput,
+  siteId: string,
+  id: string
+): Promise<Communication | null> {
+  const db = normalizeDb(dbInput);
+  const result = await db.queryOne('SELECT * FROM communications WHERE id = ? AND site_id = ?', [id, siteId]);
+  return result ? mapCommunicationFromDb(result) : null;
+}
+
+export async function getCommunicationByIdempotencyKey(
+  dbInput: DatabaseInput,
+  siteId: string,
+  idempotencyKey: string
+): Promise<Communication | null> {
+  const db = normalizeDb(dbInput);
+  const result = await db.queryOne(
+    'SELECT * FROM communications WHERE site_id = ? AND idempotency_key = ?',
+    [siteId, idempotencyKey]
+  );
+  return result ? mapCommunicationFromDb(result) : null;
+}
+
+/**
+ * Queued messages due for a delivery attempt, across all sites (oldest first).
+ * Used by the cron sweep; each row carries its own site.
+ */
+export async function getDueCommunications(
+  dbInput: DatabaseInput,
+  now: string,
+  limit = 50
+): Promise<Array<Communication & { siteId: string }>> {
+  const db = normalizeDb(dbInput);
+  const results = await db.query<Record<string, unknown>>(
+    `SELECT * FROM communications
+     WHERE status = 'queued' AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+     ORDER BY next_attempt_at ASC
+     LIMIT ?`,
+    [now, limit]
+  );
+  return results.map((row) => ({ ...mapCommunicationFromDb(row), siteId: row.site_id as string }));
+}
+
+export async function createCommunication(
+  dbInput: DatabaseInput,
+  siteId: string,
+  data: Pick<
+    Communication,
+    'entityType' | 'entityId' | 'templateKey' | 'recipientEmail' | 'recipientName' | 'subject' | 'body' | 'idempotencyKey' | 'createdBy'
+  >
+): Promise<Communication> {
+  const db = normalizeDb(dbInput);
+  const id = generateId('comm');
+  const now = new Date().toISOString();
+
+  await db.execute(
+    `
+    INSERT INTO communications (
+      id, site_id, entity_type, entity_id, channel, template_key, recipient_email, recipient_name,
+      subject, body, status, attempts, next_attempt_at, idempotency_key, created_by, created_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, 'email', ?, ?, ?, ?, ?, 'queued', 0, ?, ?, ?, ?, ?)
+  `,
+    [
+      id,
+      siteId,
+      data.entityType,
+      data.entityId,
+      data.templateKey || null,
+      data.recipientEmail,
+      data.recipientName || null,
+      data.subject,
+      data.body,
+      now,
+      data.idempotencyKey || null,
+      data.createdBy || null,
+      now,
+      now,
+    ]
+  );
+
+  const result = await db.queryOne('SELECT * FROM communications WHERE id = ?', [id]);
+  return mapCommunicationFromDb(result);
+}
+
+/**
+ * Move a queued message to 'sending', count the attempt and note when it was claimed.
+ * @returns false if another worker already claimed it or it is no longer queued
+ */
+export async function claimCommunication(dbInput: DatabaseInput, siteId: string, id: string): Promise<boolean> {
+  const db = normalizeDb(dbInput);
+  const now = new Date().toISOString();
+  const result = await db.execute(
+    `UPDATE communications
+     SET status = 'sending', attempts = attempts + 1, claimed_at = ?, updated_at = ?
+     WHERE id = ? AND site_id = ? AND status = 'queued'`,
+    [now, now, id, siteId]
+  );
+  return result.changes > 0;
+}
+
+/**
+ * Recover delivery attempts that never recorded an outcome (the worker was
+ * stopped between claiming and updating the row), across all sites. Messages
+ * claimed before claimedBefore go back to 'queued', due now, or to 'failed'
+ * once they have used their last attempt. Returns the number recovered.
+ */
+export async function requeueStaleCommunications(
+  dbInput: DatabaseInput,
+  claimedBefore: string,
+  maxAttempts: number
+): Promise<number> {
+  const db = normalizeDb(dbInput);
+  const now = new Date().toISOString();
+  const result = await db.execute(
+    `UPDATE communications
+     SET status = CASE WHEN attempts >= ? THEN 'failed' ELSE 'queued' END,
+         next_attempt_at = CASE WHEN attempts >= ? THEN NULL ELSE ? END,
+         last_error = 'Delivery attempt did not finish',
+         updated_at = ?
+     WHERE status = 'sending' AND (claimed_at IS NULL OR claimed_at < ?)`,
+    [maxAttempts, maxAttempts, now, now, claimedBefore]
+  );
+  return result.changes;
+}
+
+export async function updateCommunication(
+  dbInput: DatabaseInput,
+  siteId: string,
+  id: string,
+  data: Partial<
+    Pick<Communication, 'status' | 'nextAttemptAt' | 'lastError' | 'provider' | 'providerMessageId' | 'sentAt'>
+  >
+): Promise<void> {
+  const db = normalizeDb(dbInput);
+  const updates: string[] = [];
+  const params: (string | null)[] = [];
+
+  if (data.status !== undefined) {
+    updates.push('status = ?');
+    params.push(data.status);
+  }
+  if (data.nextAttemptAt !== undefined) {
+    updates.push('next_attempt_at = ?');
+    params.push(data.nextAttemptAt || null);
+  }
+  if (data.lastError !== undefined) {
+    updates.push('last_error = ?');
+    params.push(data.lastError || null);
+  }
+  if (data.provider !== undefined) {
+    updates.push('provider = ?');
+    params.push(data.provider);
+  }
+  if (data.providerMessageId !== undefined) {
+    updates.push('provider_message_id = ?');
+    params.push(data.providerMessageId);
+  }
+  if (data.sentAt !== undefined) {
+    updates.push('sent_at = ?');
+    params.push(data.sentAt);
+  }
+
+  if (updates.length === 0) return;
+
+  updates.push('updated_at = ?');
+  params.push(new Date().toISOString());
+  params.push(id, siteId);
+
+  await db.execute(`UPDATE communications SET ${updates.join(', ')} WHERE id = ? AND site_id = ?`, params);
+}
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for delinquency aging
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { LedgerEntry } from '~/shared/types';
+import { ageLedgerEntries, getAgingBucket, sumAgingBuckets } from './delinquency';
+
+const entry = (overrides: Partial<LedgerEntry>): LedgerEntry => ({
+  id: overrides.id || 'ledger_1',
+  leaseId: 'lease_1',
+  entryType: 'charge',
+  category: 'rent',
+  amount: 1000,
+  effectiveDate: '2025-01-01',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('Delinquency', () => {
+  describe('getAgingBucket', () => {
+    it('should place days past due into the right bucket', () => {
+      expect(getAgingBucket(0)).toBe('current');
+      expect(getAgingBucket(1)).toBe('days_1_30');
+      expect(getAgingBucket(30)).toBe('days_1_30');
+      expect(getAgingBucket(31)).toBe('days_31_60');
+      expect(getAgingBucket(60)).toBe('days_31_60');
+      expect(getAgingBucket(90)).toBe('days_61_90');
+      expect(getAgingBucket(91)).toBe('days_90_plus');
+    });
+  });
+
+  describe('ageLedgerEntries', () => {
+    it('should apply payments to the oldest charges first', () => {
+      const items = ageLedgerEntries(
+        [
+          entry({ id: 'jan', effectiveDate: '2025-01-01' }),
+          entry({ id: 'feb', effectiveDate: '2025-02-01' }),
+          entry({ id: 'mar', effectiveDate: '2025-03-01' }),
+          entry({ id: 'pay', entryType: 'payment', amount: 1500, effectiveDate: '2025-03-05' }),
+        ],
+        '2025-03-15'
+      );
+
+      expect(items.map((i) => i.entryId)).toEqual(['feb', 'mar']);
+      expect(items[0]).toMatchObject({ outstanding: 500, daysPastDue: 42, bucket: 'days_31_60' });
+      expect(items[1]).toMatchObject({ outstanding: 1000, daysPastDue: 14, bucket: 'days_1_30' });
+    });
+
+    it('should carry prepayments forward to later charges', () => {
+      const items = ageLedgerEntries(
+        [
+          entry({ id: 'pay', entryType: 'payment', amount: 1200, effectiveDate: '2024-12-20' }),
+          entry({ id: 'jan', effectiveDate: '2025-01-01' }),
+          entry({ id: 'feb', effectiveDate: '2025-02-01' }),
+        ],
+        '2025-02-01'
+      );
+
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ entryId: 'feb', outstanding: 800, bucket: 'current' });
+    });
+
+    it('should treat positive adjustments as charges and negative ones as reductions', () => {
+      const items = ageLedgerEntries(
+        [
+          entry({ id: 'jan', effectiveDate: '2025-01-01' }),
+          entry({ id: 'fee', entryType: 'adjustment', category: 'late_fee', amount: 50, effectiveDate: '2025-01-06' }),
+          entry({ id: 'waive', entryType: 'adjustment', amount: -1000, effectiveDate: '2025-01-10' }),
+        ],
+        '2025-04-15'
+      );
+
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ entryId: 'fee', outstanding: 50, bucket: 'days_90_plus' });
+    });
+
+    it('should return nothing when the ledger is paid up', () => {
+      const items = ageLedgerEntries(
+        [
+          entry({ id: 'jan', effectiveDate: '2025-01-01' }),
+          entry({ id: 'pay', entryType: 'payment', amount: 1000, effectiveDate: '2025-01-01' }),
+        ],
+        '2025-06-01'
+      );
+
+      expect(items).toEqual([]);
+    });
+  });
+
+  describe('sumAgingBuckets', () => {
+    it('should total outstanding amounts per bucket', () => {
+      expect(
+        sumAgingBuckets([
+          { bucket: 'days_1_30', outstanding: 100.1 },
+          { bucket: 'days_1_30', outstanding: 200.2 },
+          { bucket: 'days_90_plus', outstanding: 50 },
+        ])
+      ).toEqual({ current: 0, days_1_30: 300.3, days_31_60: 0, days_61_90: 0, days_90_plus: 50 });
+    });
+  });
+});
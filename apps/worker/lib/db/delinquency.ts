@@ -0,0 +1,229 @@
+/**
+ * Arrears / delinquency reporting built on the lease ledger
+ *
+ * Payments, credits and negative adjustments are applied to the oldest open
+ * charges first, and whatever remains unpaid on each charge is aged by how
+ * many days it is past its effective date.
+ */
+
+import type {
+  AgedLedgerItem,
+  AgingBucket,
+  AgingBuckets,
+  DelinquencyReport,
+  LedgerEntry,
+  PropertyDelinquency,
+  TenantDelinquency,
+} from '../../../../shared/types';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { applyRunningBalance, getBalanceEffect, mapLedgerEntryFromDb, roundCents } from './ledger';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'days_1_30', 'days_31_60', 'days_61_90', 'days_90_plus'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function emptyBuckets(): AgingBuckets {
+  return { current: 0, days_1_30: 0, days_31_60: 0, days_61_90: 0, days_90_plus: 0 };
+}
+
+function daysBetween(from: string, to: string): number {
+  const fromMs = Date.parse(`${from.slice(0, 10)}T00:00:00Z`);
+  const toMs = Date.parse(`${to.slice(0, 10)}T00:00:00Z`);
+  return Math.round((toMs - fromMs) / MS_PER_DAY);
+}
+
+// ==================== AGING CALCULATION ====================
+
+/**
+ * Map days past due to an aging bucket
+ */
+export function getAgingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days_1_30';
+  if (daysPastDue <= 60) return 'days_31_60';
+  if (daysPastDue <= 90) return 'days_61_90';
+  return 'days_90_plus';
+}
+
+/**
+ * Age a lease's ledger as of a date.
+ * Reductions are applied oldest charge first; a reduction recorded before
+ * any charge (prepayment) is carried forward to the next charge.
+ * Returns only charges with an unpaid remainder.
+ */
+export function ageLedgerEntries(entries: LedgerEntry[], asOf: string): AgedLedgerItem[] {
+  const open: { entry: LedgerEntry; originalAmount: number; outstanding: number }[] = [];
+  let unapplied = 0;
+
+  for (const entry of applyRunningBalance(entries)) {
+    const effect = getBalanceEffect(entry);
+
+    if (effect > 0) {
+      const applied = Math.min(unapplied, effect);
+      unapplied -= applied;
+      open.push({ entry, originalAmount: effect, outstanding: effect - applied });
+      continue;
+    }
+
+    let remaining = -effect;
+    for (const item of open) {
+      if (remaining <= 0) break;
+      const applied = Math.min(item.outstanding, remaining);
+      item.outstanding -= applied;
+      remaining -= applied;
+    }
+    unapplied += remaining;
+  }
+
+  return open
+    .filter((item) => roundCents(item.outstanding) > 0)
+    .map(({ entry, originalAmount, outstanding }) => {
+      const daysPastDue = Math.max(daysBetween(entry.effectiveDate, asOf), 0);
+      return {
+        entryId: entry.id,
+        leaseId: entry.leaseId,
+        category: entry.category,
+        description: entry.description,
+        effectiveDate: entry.effectiveDate,
+        originalAmount: roundCents(originalAmount),
+        outstanding: roundCents(outstanding),
+        daysPastDue,
+        bucket: getAgingBucket(daysPastDue),
+      };
+    });
+}
+
+/**
+ * Sum aged items into bucket totals
+ */
+export function sumAgingBuckets(items: Pick<AgedLedgerItem, 'bucket' | 'outstanding'>[]): AgingBuckets {
+  const buckets = emptyBuckets();
+  for (const item of items) {
+    buckets[item.bucket] = roundCents(buckets[item.bucket] + item.outstanding);
+  }
+  return buckets;
+}
+
+function addBuckets(target: AgingBuckets, source: AgingBuckets): void {
+  for (const bucket of AGING_BUCKETS) {
+    target[bucket] = roundCents(target[bucket] + source[bucket]);
+  }
+}
+
+// ==================== DELINQUENCY REPORT ====================
+
+/**
+ * Build the site-wide delinquency report as of a date.
+ * Entries dated after asOf are ignored. Tenants whose ledgers are fully paid
+ * (or in credit) are omitted. Pass propertyIds to limit the report to those
+ * properties (null = all).
+ */
+export async function getDelinquencyReport(
+  dbInput: DatabaseInput,
+  siteId: string,
+  asOf: string = new Date().toISOString().slice(0, 10),
+  propertyIds: string[] | null = null
+): Promise<DelinquencyReport> {
+  const db = normalizeDb(dbInput);
+
+  const [entryRows, leaseRows] = await Promise.all([
+    db.query(
+      `SELECT * FROM lease_ledger_entries
+       WHERE site_id = ? AND effective_date <= ?
+       ORDER BY effective_date ASC, created_at ASC`,
+      [siteId, asOf]
+    ),
+    db.query<Record<string, unknown>>(
+      `
+      SELECT
+        l.id, l.tenant_id, l.property_id, l.unit_id,
+        t.first_name, t.last_name, t.email,
+        p.name as property_name,
+        u.unit_number
+      FROM leases l
+      LEFT JOIN tenants t ON t.id = l.tenant_id AND t.site_id = l.site_id
+      LEFT JOIN properties p ON p.id = l.property_id AND p.site_id = l.site_id
+      LEFT JOIN units u ON u.id = l.unit_id AND u.site_id = l.site_id
+      WHERE l.site_id = ?
+    `,
+      [siteId]
+    ),
+  ]);
+
+  const entriesByLease = new Map<string, LedgerEntry[]>();
+  for (const row of entryRows) {
+    const entry = mapLedgerEntryFromDb(row);
+    const list = entriesByLease.get(entry.leaseId) || [];
+    list.push(entry);
+    entriesByLease.set(entry.leaseId, list);
+  }
+
+  const tenants = new Map<string, TenantDelinquency>();
+  for (const lease of leaseRows) {
+    if (propertyIds && !propertyIds.includes(lease.property_id as string)) continue;
+    const leaseId = lease.id as string;
+    const items = ageLedgerEntries(entriesByLease.get(leaseId) || [], asOf);
+    if (items.length === 0) continue;
+
+    const tenantId = lease.tenant_id as string;
+    let tenant = tenants.get(tenantId);
+    if (!tenant) {
+      tenant = {
+        tenantId,
+        tenantName: [lease.first_name, lease.last_name].filter(Boolean).join(' ') || 'Unknown tenant',
+        email: (lease.email as string) || undefined,
+        propertyId: lease.property_id as string,
+        propertyName: (lease.property_name as string) || 'Unknown property',
+        unitId: (lease.unit_id as string) || undefined,
+        unitNumber: (lease.unit_number as string) || undefined,
+        leaseIds: [],
+        buckets: emptyBuckets(),
+        total: 0,
+        items: [],
+      };
+      tenants.set(tenantId, tenant);
+    }
+
+    tenant.leaseIds.push(leaseId);
+    tenant.items.push(...items);
+    addBuckets(tenant.buckets, sumAgingBuckets(items));
+  }
+
+  const properties = new Map<string, PropertyDelinquency>();
+  const totals = { ...emptyBuckets(), total: 0 };
+
+  const tenantList = [...tenants.values()]
+    .map((tenant) => ({
+      ...tenant,
+      total: roundCents(AGING_BUCKETS.reduce((sum, bucket) => sum + tenant.buckets[bucket], 0)),
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  for (const tenant of tenantList) {
+    let property = properties.get(tenant.propertyId);
+    if (!property) {
+      property = {
+        propertyId: tenant.propertyId,
+        propertyName: tenant.propertyName,
+        tenantCount: 0,
+        buckets: emptyBuckets(),
+        total: 0,
+      };
+      properties.set(tenant.propertyId, property);
+    }
+    property.tenantCount += 1;
+    addBuckets(property.buckets, tenant.buckets);
+    property.total = roundCents(property.total + tenant.total);
+
+    addBuckets(totals, tenant.buckets);
+    totals.total = roundCents(totals.total + tenant.total);
+  }
+
+  return {
+    asOf,
+    tenants: tenantList,
+    properties: [...properties.values()].sort((a, b) => b.total - a.total),
+    totals,
+  };
+}
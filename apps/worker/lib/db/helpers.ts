@@ -1,5 +1,6 @@
 import type { IDatabase } from '~/shared/storage-core';
 import type { D1Database } from '@cloudflare/workers-types';
+import { D1Transaction, runD1Transaction } from '../../../../shared/storage-cloudflare/d1-database';
 
 // Database type that accepts both D1Database and IDatabase for backward compatibility
 export type DatabaseInput = D1Database | IDatabase;
@@ -37,7 +38,7 @@ export function normalizeDb(db: DatabaseInput): IDatabase {
             };
         },
         async transaction<T>(fn: (tx: IDatabase) => Promise<T>): Promise<T> {
-            return fn(this);
+            return runD1Transaction(this, fn);
         },
         async batch(statements: Array<{ sql: string; params?: unknown[] }>) {
             const stmts = statements.map(({ sql, params }) => {
@@ -54,3 +55,20 @@ export function normalizeDb(db: DatabaseInput): IDatabase {
         async close() { },
     };
 }
+
+/**
+ * Run a multi-step write atomically. On D1 the writes are queued and
+ * committed in one batch, so do every read before the first write:
+ * reading after a queued write throws TransactionReadAfterWriteError.
+ */
+export function withTransaction<T>(dbInput: DatabaseInput, fn: (tx: IDatabase) => Promise<T>): Promise<T> {
+    return normalizeDb(dbInput).transaction(fn);
+}
+
+/**
+ * Whether writes on db are queued until a D1 transaction commits, in which
+ * case they report changes = 0 whether or not they will match any rows.
+ */
+export function isQueuedTransaction(db: IDatabase): boolean {
+    return db instanceof D1Transaction;
+}
@@ -29,6 +29,20 @@ export async function getImagesByEntity(dbInput: DatabaseInput, siteId: string,
     return results.map(mapImageFromDb);
 }
 
+/**
+ * Images of several properties or units in one query, e.g. for a list page
+ */
+export async function getImagesByEntities(dbInput: DatabaseInput, siteId: string, entityType: 'property' | 'unit', entityIds: string[]): Promise<PropertyImage[]> {
+    if (entityIds.length === 0) return [];
+    const db = normalizeDb(dbInput);
+    const placeholders = entityIds.map(() => '?').join(', ');
+    const results = await db.query(
+        `SELECT * FROM images WHERE entity_type = ? AND entity_id IN (${placeholders}) AND site_id = ? ORDER BY sort_order ASC`,
+        [entityType, ...entityIds, siteId]
+    );
+    return results.map(mapImageFromDb);
+}
+
 export async function getImageById(dbInput: DatabaseInput, siteId: string, id: string): Promise<PropertyImage | null> {
     const db = normalizeDb(dbInput);
     const result = await db.queryOne('SELECT * FROM images WHERE id = ? AND site_id = ?', [id, siteId]);
@@ -2,11 +2,14 @@
 
 // Re-export types and helpers
 export type { DatabaseInput } from './helpers';
-export { normalizeDb } from './helpers';
+export { normalizeDb, withTransaction } from './helpers';
+export type { PageOptions } from './pagination';
+export { InvalidCursorError } from './pagination';
 
 // Re-export all property operations
 export {
     getProperties,
+    getPropertiesPage,
     getPropertyById,
     getPropertyBySlug,
     getPropertyWithUnits,
@@ -33,6 +36,7 @@ export {
 // Re-export all image operations
 export {
     getImagesByEntity,
+    getImagesByEntities,
     getImageById,
     createImage,
     updateImage,
@@ -47,9 +51,12 @@ export {
 // Re-export all lead operations
 export {
     getLeads,
+    getLeadsPage,
     getLeadById,
     createLead,
     updateLead,
+    updateLeadStatus,
+    StageTransitionError,
     archiveLead,
     restoreLead,
     getLeadFiles,
@@ -67,8 +74,12 @@ export {
 // Re-export all tenant operations
 export {
     getTenants,
+    getTenantsPage,
     getTenantById,
+    getTenantPropertyIds,
+    getTenantByEmail,
     createTenant,
+    insertTenant,
     updateTenant,
     deleteTenant,
 } from './tenants';
@@ -76,6 +87,7 @@ export {
 // Re-export all work order operations
 export {
     getWorkOrders,
+    getWorkOrdersPage,
     getWorkOrderById,
     createWorkOrder,
     updateWorkOrder,
@@ -98,6 +110,10 @@ export {
     revokeSiteAccess,
     isUserSuperAdmin,
     setSuperAdminStatus,
+    getUserPropertyAccess,
+    grantPropertyAccess,
+    revokePropertyAccess,
+    getUserAccess,
 } from './users';
 
 // Re-export user access types
@@ -126,8 +142,10 @@ export type { ThemeConfigurationRecord } from './themes';
 // Re-export all lease operations
 export {
     getLeases,
+    getLeasesPage,
     getLeaseById,
     createLease,
+    insertLease,
     updateLease,
     deleteLease,
     getLeaseFiles,
@@ -135,3 +153,126 @@ export {
     createLeaseFile,
     deleteLeaseFile,
 } from './leases';
+
+// Re-export all lease ledger operations
+export {
+    getLedgerEntries,
+    getLedgerEntryById,
+    createLedgerEntry,
+    deleteLedgerEntry,
+    generateRentCharges,
+    processRentCharges,
+    getLeaseBalanceSummaries,
+    applyRunningBalance,
+    summarizeLedger,
+} from './ledger';
+
+// Re-export delinquency reporting
+export {
+    getDelinquencyReport,
+    ageLedgerEntries,
+} from './delinquency';
+
+// Re-export rent roll and portfolio reporting
+export {
+    getRentRoll,
+    getPortfolioSummary,
+} from './rent-roll';
+
+// Re-export tenant notice operations
+export {
+    getNoticesByTenant,
+    getNoticeById,
+    getNoticeEvents,
+    getUpcomingNotices,
+    createNotice,
+    serveNotice,
+    voidNotice,
+    completeNotice,
+    acknowledgeNoticeReminder,
+    processNoticeReminders,
+} from './notices';
+
+// Re-export lease e-signature envelope operations
+export {
+    getLatestSignatureEnvelope,
+    getSignatureEnvelopeByEnvelopeId,
+    createSignatureEnvelope,
+    updateSignatureEnvelope,
+} from './lease-signatures';
+
+// Re-export tenant screening result operations
+export {
+    getScreeningResultsByLead,
+    getScreeningResultByReference,
+    createScreeningResult,
+    updateScreeningResult,
+} from './screening';
+
+// Re-export communication log operations
+export {
+    getCommunicationsByEntity,
+    getCommunicationById,
+    getCommunicationByIdempotencyKey,
+    getDueCommunications,
+    createCommunication,
+    claimCommunication,
+    updateCommunication,
+} from './communications';
+
+// Re-export intake form operations
+export {
+    getCurrentIntakeForm,
+    getIntakeFormVersion,
+    createIntakeFormVersion,
+} from './intake-forms';
+
+// Re-export application pipeline operations
+export {
+    getApplicationPipeline,
+    saveApplicationPipeline,
+} from './application-pipelines';
+
+// Re-export AI scoring rubric operations
+export {
+    getCurrentAIRubric,
+    getAIRubricVersion,
+    createAIRubricVersion,
+} from './ai-rubrics';
+
+// Re-export tenant portal token operations
+export {
+    createPortalToken,
+    consumePortalLoginToken,
+    getPortalSession,
+    revokePortalSession,
+} from './tenant-portal';
+
+// Re-export work order attachment operations
+export {
+    getWorkOrderAttachments,
+    getWorkOrderAttachmentById,
+    createWorkOrderAttachment,
+    deleteWorkOrderAttachment,
+} from './work-order-attachments';
+
+// Re-export signed request nonce operations
+export {
+    recordRequestNonce,
+    purgeExpiredRequestNonces,
+} from './request-nonces';
+
+// Re-export audit log operations
+export {
+    logAuditEntry,
+    recordEntityChange,
+    getAuditLog,
+} from './audit';
+export type { AuditLogFilters } from './audit';
+
+// Re-export global search operations
+export {
+    searchSite,
+    SEARCH_ENTITY_TYPES,
+} from './search';
+export type { SearchOptions } from './search';
@@ -0,0 +1,78 @@
+import type { IntakeForm, IntakeFormSchema } from '../../../../shared/types';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { generateId, DEFAULT_INTAKE_FORM_SCHEMA } from '../../../../shared/utils';
+
+// ==================== MAPPERS ====================
+
+function mapIntakeFormFromDb(row: unknown): IntakeForm {
+    const r = row as Record<string, unknown>;
+    return {
+        version: r.version as number,
+        schema: JSON.parse(r.schema_json as string) as IntakeFormSchema,
+        createdBy: (r.created_by as string) || undefined,
+        createdAt: r.created_at as string,
+    };
+}
+
+// Sites that have never saved a form use the built-in one as version 0
+const DEFAULT_INTAKE_FORM: IntakeForm = { version: 0, schema: DEFAULT_INTAKE_FORM_SCHEMA };
+
+// ==================== INTAKE FORMS ====================
+
+/**
+ * Current intake form for a site (the built-in default until one is saved)
+ */
+export async function getCurrentIntakeForm(dbInput: DatabaseInput, siteId: string): Promise<IntakeForm> {
+    const db = normalizeDb(dbInput);
+    const row = await db.queryOne(
+        `SELECT * FROM intake_form_versions WHERE site_id = ? ORDER BY version DESC LIMIT 1`,
+        [siteId]
+    );
+    return row ? mapIntakeFormFromDb(row) : DEFAULT_INTAKE_FORM;
+}
+
+/**
+ * A specific intake form version, or null if the site has no such version
+ */
+export async function getIntakeFormVersion(
+    dbInput: DatabaseInput,
+    siteId: string,
+    version: number
+): Promise<IntakeForm | null> {
+    if (version === 0) {
+        return DEFAULT_INTAKE_FORM;
+    }
+    const db = normalizeDb(dbInput);
+    const row = await db.queryOne(
+        `SELECT * FROM intake_form_versions WHERE site_id = ? AND version = ?`,
+        [siteId, version]
+    );
+    return row ? mapIntakeFormFromDb(row) : null;
+}
+
+/**
+ * Save a form as the site's next version. Earlier versions are kept so
+ * existing leads can still be read against the form they were submitted on.
+ */
+export async function createIntakeFormVersion(
+    dbInput: DatabaseInput,
+    siteId: string,
+    schema: IntakeFormSchema,
+    createdBy?: string
+): Promise<IntakeForm> {
+    const db = normalizeDb(dbInput);
+    const id = generateId('intake');
+    const now = new Date().toISOString();
+
+    // Version is assigned in the insert itself; UNIQUE(site_id, version) rejects a concurrent save
+    await db.execute(
+        `INSERT INTO intake_form_versions (id, site_id, version, schema_json, created_by, created_at)
+         SELECT ?, ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?
+         FROM intake_form_versions WHERE site_id = ?`,
+        [id, siteId, JSON.stringify(schema), createdBy || null, now, siteId]
+    );
+
+    const row = await db.queryOne(`SELECT * FROM intake_form_versions WHERE id = ? AND site_id = ?`, [id, siteId]);
+    return mapIntakeFormFromDb(row);
+}
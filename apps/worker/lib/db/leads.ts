@@ -1,7 +1,17 @@
-import type { Lead, LeadFile, LeadAIResult, LeadHistory } from '~/shared/types';
-import { generateId } from '~/shared/utils';
+import type { Lead, LeadFile, LeadAIResult, LeadHistory, LeadStatus } from '~/shared/types';
+import { checkStageTransition, generateId } from '~/shared/utils';
 import type { DatabaseInput } from './helpers';
-import { normalizeDb } from './helpers';
+import { isQueuedTransaction, normalizeDb } from './helpers';
+import type { PageOptions, SortColumn } from './pagination';
+import {
+    applyCursor,
+    clampPageLimit,
+    propertyScopeCondition,
+    resolveSortKey,
+    searchCondition,
+    sortValueExpression,
+    toCursorPage,
+} from './pagination';
 
 // Mapper functions
 function mapLeadFromDb(row: unknown): Lead {
@@ -18,7 +28,10 @@ function mapLeadFromDb(row: unknown): Lead {
         employmentStatus: r.employment_status as Lead['employmentStatus'],
         moveInDate: r.move_in_date as string,
         message: r.message as string | undefined,
+        intakeFormVersion: (r.intake_form_version as number | null) ?? undefined,
+        intakeAnswers: r.intake_answers_json ? JSON.parse(r.intake_answers_json as string) : undefined,
         status: r.status as Lead['status'],
+        pipelineStage: (r.pipeline_stage as string | null) ?? undefined,
         aiScore: r.ai_score as number | undefined,
         aiLabel: r.ai_label as Lead['aiLabel'] | undefined,
         landlordNote: r.landlord_note as string | undefined,
@@ -64,21 +77,34 @@ function mapAIEvaluationFromDb(row: unknown): LeadAIResult {
         recommendation: r.recommendation as string,
         fraudSignals: JSON.parse(r.fraud_signals as string || '[]'),
         modelVersion: r.model_version as string,
+        rubricVersion: (r.rubric_version as number | null) ?? null,
         evaluatedAt: r.evaluated_at as string,
     };
 }
 
-export async function getLeads(dbInput: DatabaseInput, siteId: string, options?: {
+// Sort keys accepted by the lead list
+const LEAD_SORT_COLUMNS: Record<string, SortColumn> = {
+    createdAt: { expression: 'l.created_at', nullValue: '' },
+    updatedAt: { expression: 'l.updated_at', nullValue: '' },
+    firstName: { expression: 'l.first_name', nullValue: '' },
+    lastName: { expression: 'l.last_name', nullValue: '' },
+    email: { expression: 'l.email', nullValue: '' },
+    status: { expression: 'l.status', nullValue: '' },
+    moveInDate: { expression: 'l.move_in_date', nullValue: '' },
+    aiScore: { expression: 'l.ai_score', nullValue: -1 },
+    householdAiScore: { expression: 'l.household_ai_score', nullValue: -1 },
+    shortlistedAt: { expression: 'l.shortlisted_at', nullValue: '' },
+    propertyName: { expression: 'p.name', nullValue: '' },
+};
+
+export interface LeadListOptions extends PageOptions {
     status?: string;
     propertyId?: string;
-    sortBy?: string;
-    sortOrder?: 'asc' | 'desc';
-    limit?: number;
-    offset?: number;
     includeArchived?: boolean;
-}) {
-    const db = normalizeDb(dbInput);
-    const { status, propertyId, sortBy = 'created_at', sortOrder = 'desc', limit = 50, offset = 0, includeArchived = false } = options || {};
+}
+
+function buildLeadListQuery(siteId: string, options: LeadListOptions, sortColumn: SortColumn) {
+    const { status, propertyId, includeArchived = false, search, propertyIds } = options;
 
     // Join with units to check if the unit is occupied and properties to get property name
     let query = `
@@ -86,13 +112,14 @@ export async function getLeads(dbInput: DatabaseInput, siteId: string, options?:
       l.*,
       u.status as unit_status,
       CASE WHEN u.status = 'occupied' THEN 1 ELSE 0 END as is_unit_occupied,
-      p.name as property_name
+      p.name as property_name,
+      ${sortValueExpression(sortColumn)} as sort_value
     FROM leads l
     LEFT JOIN units u ON l.unit_id = u.id OR (l.property_id = u.property_id AND u.unit_number = 'Main')
     LEFT JOIN properties p ON l.property_id = p.id
     WHERE l.site_id = ?
   `;
-    const params: (string | number)[] = [siteId];
+    const params: unknown[] = [siteId];
 
     // Filter by is_active unless includeArchived is true
     if (!includeArchived) {
@@ -109,25 +136,60 @@ export async function getLeads(dbInput: DatabaseInput, siteId: string, options?:
         params.push(propertyId);
     }
 
-    // Map sort fields to database columns
-    // Handle undefined or invalid sortBy values
-    const validSortBy = sortBy && sortBy !== 'undefined' ? sortBy : 'created_at';
-
-    let orderColumn: string;
-    if (validSortBy === 'aiScore' || validSortBy === 'ai_score') {
-        orderColumn = 'l.ai_score';
-    } else if (validSortBy === 'propertyName' || validSortBy === 'property_name') {
-        orderColumn = 'p.name';
-    } else {
-        orderColumn = `l.${validSortBy.replace(/([A-Z])/g, '_$1').toLowerCase()}`;
+    const conditions = [
+        propertyScopeCondition('l.property_id', propertyIds),
+        searchCondition(['l.first_name', 'l.last_name', "l.first_name || ' ' || l.last_name", 'l.email', 'l.phone'], search),
+    ];
+    for (const condition of conditions) {
+        if (condition) {
+            query += ` AND ${condition.sql}`;
+            params.push(...condition.params);
+        }
     }
-    query += ` ORDER BY ${orderColumn} ${sortOrder.toUpperCase()} LIMIT ? OFFSET ?`;
-    params.push(limit, offset);
 
-    const results = await db.query(query, params);
+    return { query, params };
+}
+
+export async function getLeads(dbInput: DatabaseInput, siteId: string, options?: Omit<LeadListOptions, 'limit' | 'cursor'> & {
+    limit?: number;
+    offset?: number;
+}) {
+    const db = normalizeDb(dbInput);
+    const { limit = 50, offset = 0 } = options || {};
+    const sortBy = resolveSortKey(LEAD_SORT_COLUMNS, options?.sortBy, 'createdAt');
+    const sortOrder = options?.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const { query, params } = buildLeadListQuery(siteId, options || {}, LEAD_SORT_COLUMNS[sortBy]);
+    const results = await db.query(
+        `${query} ORDER BY sort_value ${sortOrder}, l.id ${sortOrder} LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+    );
     return results.map(mapLeadWithOccupancyFromDb);
 }
 
+/**
+ * One page of leads; pass pagination.nextCursor back as cursor for the next
+ */
+export async function getLeadsPage(dbInput: DatabaseInput, siteId: string, options: LeadListOptions = {}) {
+    const db = normalizeDb(dbInput);
+    const sortBy = resolveSortKey(LEAD_SORT_COLUMNS, options.sortBy, 'createdAt');
+    const sortOrder = options.sortOrder ?? 'desc';
+    const limit = clampPageLimit(options.limit);
+
+    const base = buildLeadListQuery(siteId, options, LEAD_SORT_COLUMNS[sortBy]);
+    const { query, params } = applyCursor(base.query, base.params, {
+        sortBy,
+        column: LEAD_SORT_COLUMNS[sortBy],
+        sortOrder,
+        idColumn: 'l.id',
+        limit,
+        cursor: options.cursor,
+    });
+
+    const rows = await db.query<Record<string, unknown>>(query, params);
+    return toCursorPage(rows, { sortBy, sortOrder, limit }, mapLeadWithOccupancyFromDb);
+}
+
 /**
  * Get leads grouped by unit
  * Returns applications organized by unit for better UX in property management
@@ -243,8 +305,8 @@ export async function createLead(dbInput: DatabaseInput, siteId: string, data: O
     const isGeneralInquiry = data.propertyId === 'general';
 
     await db.execute(`
-    INSERT INTO leads (id, site_id, property_id, first_name, last_name, email, phone, current_address, employment_status, move_in_date, message, status, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'new', ?, ?)
+    INSERT INTO leads (id, site_id, property_id, first_name, last_name, email, phone, current_address, employment_status, move_in_date, message, intake_form_version, intake_answers_json, status, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'new', ?, ?)
   `, [
         id,
         siteId,
@@ -257,6 +319,8 @@ export async function createLead(dbInput: DatabaseInput, siteId: string, data: O
         isGeneralInquiry ? null : data.employmentStatus,
         isGeneralInquiry ? null : data.moveInDate,
         data.message || null,
+        data.intakeFormVersion ?? null,
+        data.intakeAnswers && Object.keys(data.intakeAnswers).length > 0 ? JSON.stringify(data.intakeAnswers) : null,
         now,
         now
     ]);
@@ -278,15 +342,28 @@ export async function createLead(dbInput: DatabaseInput, siteId: string, data: O
     return (await getLeadById(db, siteId, id))!;
 }
 
+/**
+ * A lead status change the application workflow does not allow
+ */
+export class StageTransitionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StageTransitionError';
+    }
+}
+
+/**
+ * Update a lead's details. The status is not updated here: stage changes go
+ * through changeApplicationStage so the workflow is enforced.
+ */
 export async function updateLead(dbInput: DatabaseInput, siteId: string, id: string, data: Partial<Lead>): Promise<void> {
+    if (data.status !== undefined) {
+        throw new StageTransitionError('Lead status changes must go through changeApplicationStage');
+    }
     const db = normalizeDb(dbInput);
     const updates: string[] = [];
     const params: (string | number | null)[] = [];
 
-    if (data.status !== undefined) {
-        updates.push('status = ?');
-        params.push(data.status);
-    }
     if (data.aiScore !== undefined) {
         updates.push('ai_score = ?');
         params.push(data.aiScore);
@@ -321,6 +398,63 @@ export async function updateLead(dbInput: DatabaseInput, siteId: string, id: str
     await recordLeadHistory(db, siteId, id, 'lead_updated', changed);
 }
 
+/**
+ * SQL condition that holds while a lead is still in stage, for writes that
+ * must only apply together with a move out of it (see updateLeadStatus)
+ */
+export function leadInStage(siteId: string, id: string, stage: LeadStatus): { sql: string; params: unknown[] } {
+    return {
+        sql: 'EXISTS (SELECT 1 FROM leads WHERE id = ? AND site_id = ? AND status = ?)',
+        params: [id, siteId, stage],
+    };
+}
+
+/**
+ * Move a lead between stages along an edge of the application workflow, or
+ * between pipeline stages within its status. The move only applies while
+ * the lead is still in fromStage; its history row and guardedWrites (each
+ * conditioned on leadInStage(fromStage)) run first in the same batch, so
+ * they are only written if it does. Outside a transaction, throws StageTransitionError
+ * when another change moved the lead first. Checklists and bypass reasons are
+ * checked by changeApplicationStage, not here. Does not read, so it can run
+ * inside a transaction.
+ */
+export async function updateLeadStatus(
+    dbInput: DatabaseInput,
+    siteId: string,
+    id: string,
+    fromStage: LeadStatus,
+    toStage: LeadStatus,
+    pipelineStage: string | null = null,
+    guardedWrites: Array<{ sql: string; params: unknown[] }> = []
+): Promise<void> {
+    if (fromStage !== toStage) {
+        const check = checkStageTransition(fromStage, toStage, { type: 'system', checklist: [] });
+        if (!check.allowed) {
+            throw new StageTransitionError(check.message ?? 'Stage change not allowed');
+        }
+    }
+    const db = normalizeDb(dbInput);
+    const guard = leadInStage(siteId, id, fromStage);
+    const historyId = 'lh_' + crypto.randomUUID().replace(/-/g, '').slice(0, 16);
+
+    const results = await db.batch([
+        ...guardedWrites,
+        {
+            sql: `INSERT INTO lead_history (id, lead_id, site_id, event_type, event_data)
+                  SELECT ?, ?, ?, 'lead_updated', ? WHERE ${guard.sql}`,
+            params: [historyId, id, siteId, JSON.stringify({ status: toStage, pipeline_stage: pipelineStage }), ...guard.params],
+        },
+        {
+            sql: 'UPDATE leads SET status = ?, pipeline_stage = ?, updated_at = ? WHERE id = ? AND site_id = ? AND status = ?',
+            params: [toStage, pipelineStage, new Date().toISOString(), id, siteId, fromStage],
+        },
+    ]);
+    if (!isQueuedTransaction(db) && results[results.length - 1].changes === 0) {
+        throw new StageTransitionError('The application was moved by someone else. Reload it and try again');
+    }
+}
+
 /**
  * Archive a lead (soft delete)
  */
@@ -441,8 +575,8 @@ export async function createAIEvaluation(dbInput: DatabaseInput, siteId: string,
     const now = new Date().toISOString();
 
     await db.execute(`
-    INSERT INTO lead_ai_evaluations (id, site_id, lead_id, score, label, summary, risk_flags, recommendation, fraud_signals, model_version, evaluated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO lead_ai_evaluations (id, site_id, lead_id, score, label, summary, risk_flags, recommendation, fraud_signals, model_version, rubric_version, evaluated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `, [
         id,
         siteId,
@@ -454,6 +588,7 @@ export async function createAIEvaluation(dbInput: DatabaseInput, siteId: string,
         data.recommendation,
         JSON.stringify(data.fraudSignals),
         data.modelVersion,
+        data.rubricVersion,
         now
     ]);
 
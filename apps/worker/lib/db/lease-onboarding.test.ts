@@ -43,7 +43,7 @@ const createMockDb = () => {
             const [status, leaseId] = params;
             data[`lease_${leaseId}`] = { onboarding_status: status };
           }
-          return { success: true };
+          return { success: true, meta: { rows_written: 1, last_row_id: 0 } };
         },
         first: async () => {
           // Return data based on SQL query
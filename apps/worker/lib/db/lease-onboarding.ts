@@ -6,6 +6,8 @@
  */
 
 import { randomUUID } from 'crypto';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
 
 /**
  * Standard checklist step structure
@@ -86,22 +88,21 @@ export const DEFAULT_CHECKLIST_STEPS: ChecklistStep[] = [
  * Create a new lease onboarding checklist
  */
 export async function createLeaseChecklist(
-  db: D1Database,
+  dbInput: DatabaseInput,
   leaseId: string,
   customSteps?: ChecklistStep[]
 ): Promise<string> {
+  const db = normalizeDb(dbInput);
   const id = randomUUID();
   const steps = customSteps || DEFAULT_CHECKLIST_STEPS;
   const completedSteps = steps.filter(s => s.completed).length;
 
-  await db
-    .prepare(
-      `INSERT INTO lease_onboarding_checklists
-       (id, lease_id, steps, total_steps, completed_steps, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))`
-    )
-    .bind(id, leaseId, JSON.stringify(steps), steps.length, completedSteps)
-    .run();
+  await db.execute(
+    `INSERT INTO lease_onboarding_checklists
+     (id, lease_id, steps, total_steps, completed_steps, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    [id, leaseId, JSON.stringify(steps), steps.length, completedSteps]
+  );
 
   return id;
 }
@@ -110,15 +111,14 @@ export async function createLeaseChecklist(
  * Get lease checklist by lease ID
  */
 export async function getLeaseChecklist(
-  db: D1Database,
+  dbInput: DatabaseInput,
   leaseId: string
 ): Promise<LeaseChecklist | null> {
-  const result = await db
-    .prepare(
-      `SELECT * FROM lease_onboarding_checklists WHERE lease_id = ?`
-    )
-    .bind(leaseId)
-    .first();
+  const db = normalizeDb(dbInput);
+  const result = await db.queryOne<Record<string, unknown>>(
+    `SELECT * FROM lease_onboarding_checklists WHERE lease_id = ?`,
+    [leaseId]
+  );
 
   if (!result) {
     return null;
@@ -139,15 +139,14 @@ export async function getLeaseChecklist(
  * Get lease checklist by checklist ID
  */
 export async function getLeaseChecklistById(
-  db: D1Database,
+  dbInput: DatabaseInput,
   checklistId: string
 ): Promise<LeaseChecklist | null> {
-  const result = await db
-    .prepare(
-      `SELECT * FROM lease_onboarding_checklists WHERE id = ?`
-    )
-    .bind(checklistId)
-    .first();
+  const db = normalizeDb(dbInput);
+  const result = await db.queryOne<Record<string, unknown>>(
+    `SELECT * FROM lease_onboarding_checklists WHERE id = ?`,
+    [checklistId]
+  );
 
   if (!result) {
     return null;
@@ -168,12 +167,13 @@ export async function getLeaseChecklistById(
  * Update a single checklist step
  */
 export async function updateChecklistStep(
-  db: D1Database,
+  dbInput: DatabaseInput,
   leaseId: string,
   stepId: string,
   completed: boolean,
   notes?: string
 ): Promise<LeaseChecklist> {
+  const db = normalizeDb(dbInput);
   const checklist = await getLeaseChecklist(db, leaseId);
 
   if (!checklist) {
@@ -184,10 +184,10 @@ export async function updateChecklistStep(
   const updatedSteps = checklist.steps.map(step => {
     if (step.id === stepId) {
       return {
-        ...step,
-        completed,
-        completed_at: completed ? new Date().toISOString() : undefined,
-        notes: notes || step.notes,
+      ...step,
+      completed,
+      completed_at: completed ? new Date().toISOString() : undefined,
+      notes: notes || step.notes,
       };
     }
     return step;
@@ -196,14 +196,12 @@ export async function updateChecklistStep(
   const completedCount = updatedSteps.filter(s => s.completed).length;
 
   // Update database
-  await db
-    .prepare(
-      `UPDATE lease_onboarding_checklists
-       SET steps = ?, completed_steps = ?, updated_at = datetime('now')
-       WHERE lease_id = ?`
-    )
-    .bind(JSON.stringify(updatedSteps), completedCount, leaseId)
-    .run();
+  await db.execute(
+    `UPDATE lease_onboarding_checklists
+     SET steps = ?, completed_steps = ?, updated_at = datetime('now')
+     WHERE lease_id = ?`,
+    [JSON.stringify(updatedSteps), completedCount, leaseId]
+  );
 
   return {
     ...checklist,
@@ -219,10 +217,11 @@ export async function updateChecklistStep(
  * - Optionally updates lease status to 'active'
  */
 export async function completeLeaseOnboarding(
-  db: D1Database,
+  dbInput: DatabaseInput,
   leaseId: string,
   setActiveStatus: boolean = true
 ): Promise<void> {
+  const db = normalizeDb(dbInput);
   const checklist = await getLeaseChecklist(db, leaseId);
 
   if (!checklist) {
@@ -242,23 +241,19 @@ export async function completeLeaseOnboarding(
 
   // Update lease status
   if (setActiveStatus) {
-    await db
-      .prepare(
-        `UPDATE leases
-         SET onboarding_status = NULL, status = 'active'
-         WHERE id = ?`
-      )
-      .bind(leaseId)
-      .run();
+    await db.execute(
+      `UPDATE leases
+     SET onboarding_status = NULL, status = 'active'
+     WHERE id = ?`,
+      [leaseId]
+    );
   } else {
-    await db
-      .prepare(
-        `UPDATE leases
-         SET onboarding_status = 'completed'
-         WHERE id = ?`
-      )
-      .bind(leaseId)
-      .run();
+    await db.execute(
+      `UPDATE leases
+     SET onboarding_status = 'completed'
+     WHERE id = ?`,
+      [leaseId]
+    );
   }
 }
 
@@ -266,39 +261,38 @@ export async function completeLeaseOnboarding(
  * Get all leases in progress with their checklists
  */
 export async function getLeasesInProgress(
-  db: D1Database,
+  dbInput: DatabaseInput,
   siteId: string
 ): Promise<any[]> {
-  const result = await db
-    .prepare(
-      `SELECT
-         l.*,
-         loc.id as checklist_id,
-         loc.steps as checklist_steps,
-         loc.total_steps,
-         loc.completed_steps,
-         loc.created_at as checklist_created_at,
-         loc.updated_at as checklist_updated_at,
-         t.id as tenant_id,
-         t.first_name as tenant_first_name,
-         t.last_name as tenant_last_name,
-         t.email as tenant_email,
-         u.id as unit_id,
-         u.unit_number,
-         p.id as property_id,
-         p.name as property_name
-       FROM leases l
-       LEFT JOIN lease_onboarding_checklists loc ON l.id = loc.lease_id
-       LEFT JOIN tenants t ON l.tenant_id = t.id
-       LEFT JOIN units u ON l.unit_id = u.id
-       LEFT JOIN properties p ON u.property_id = p.id
-       WHERE l.site_id = ? AND l.onboarding_status = 'in_progress'
-       ORDER BY loc.updated_at DESC`
-    )
-    .bind(siteId)
-    .all();
+  const db = normalizeDb(dbInput);
+  const rows = await db.query<any>(
+    `SELECT
+       l.*,
+       loc.id as checklist_id,
+       loc.steps as checklist_steps,
+       loc.total_steps,
+       loc.completed_steps,
+       loc.created_at as checklist_created_at,
+       loc.updated_at as checklist_updated_at,
+       t.id as tenant_id,
+       t.first_name as tenant_first_name,
+       t.last_name as tenant_last_name,
+       t.email as tenant_email,
+       u.id as unit_id,
+       u.unit_number,
+       p.id as property_id,
+       p.name as property_name
+     FROM leases l
+     LEFT JOIN lease_onboarding_checklists loc ON l.id = loc.lease_id
+     LEFT JOIN tenants t ON l.tenant_id = t.id
+     LEFT JOIN units u ON l.unit_id = u.id
+     LEFT JOIN properties p ON u.property_id = p.id
+     WHERE l.site_id = ? AND l.onboarding_status = 'in_progress'
+     ORDER BY loc.updated_at DESC`,
+    [siteId]
+  );
 
-  return result.results.map((row: any) => ({
+  return rows.map((row: any) => ({
     id: row.id,
     tenant: {
       id: row.tenant_id,
@@ -0,0 +1,132 @@
+import type { LeaseSignatureEnvelope, DocuSignSigner } from '../../../../shared/types';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { generateId } from '../../../../shared/utils';
+
+// ==================== MAPPERS ====================
+
+function mapSignatureEnvelopeFromDb(row: unknown): LeaseSignatureEnvelope {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id as string,
+    leaseId: r.lease_id as string,
+    provider: r.provider as string,
+    envelopeId: r.envelope_id as string,
+    status: r.status as LeaseSignatureEnvelope['status'],
+    signers: JSON.parse((r.signers_json as string) || '[]') as DocuSignSigner[],
+    sentAt: r.sent_at as string,
+    expiresAt: (r.expires_at as string) || '',
+    signedAt: (r.completed_at as string) || undefined,
+    completedAt: (r.completed_at as string) || undefined,
+    signedFileId: (r.signed_file_id as string) || undefined,
+    createdAt: r.created_at as string,
+    updatedAt: r.updated_at as string,
+  };
+}
+
+// ==================== ENVELOPE OPERATIONS ====================
+
+/**
+ * Most recently sent envelope for a lease
+ */
+export async function getLatestSignatureEnvelope(
+  dbInput: DatabaseInput,
+  siteId: string,
+  leaseId: string
+): Promise<LeaseSignatureEnvelope | null> {
+  const db = normalizeDb(dbInput);
+  const result = await db.queryOne(
+    'SELECT * FROM lease_signature_envelopes WHERE lease_id = ? AND site_id = ? ORDER BY sent_at DESC LIMIT 1',
+    [leaseId, siteId]
+  );
+  return result ? mapSignatureEnvelopeFromDb(result) : null;
+}
+
+/**
+ * Look up an envelope by the provider's envelope ID.
+ * Not site-scoped: webhooks arrive without a site and are matched by envelope.
+ */
+export async function getSignatureEnvelopeByEnvelopeId(
+  dbInput: DatabaseInput,
+  provider: string,
+  envelopeId: string
+): Promise<(LeaseSignatureEnvelope & { siteId: string }) | null> {
+  const db = normalizeDb(dbInput);
+  const result = await db.queryOne<Record<string, unknown>>(
+    'SELECT * FROM lease_signature_envelopes WHERE provider = ? AND envelope_id = ?',
+    [provider, envelopeId]
+  );
+  return result ? { ...mapSignatureEnvelopeFromDb(result), siteId: result.site_id as string } : null;
+}
+
+export async function createSignatureEnvelope(
+  dbInput: DatabaseInput,
+  siteId: string,
+  data: Pick<LeaseSignatureEnvelope, 'leaseId' | 'provider' | 'envelopeId' | 'status' | 'signers' | 'sentAt' | 'expiresAt'>
+): Promise<LeaseSignatureEnvelope> {
+  const db = normalizeDb(dbInput);
+  const id = generateId('esign');
+  const now = new Date().toISOString();
+
+  await db.execute(
+    `
+    INSERT INTO lease_signature_envelopes (
+      id, site_id, lease_id, provider, envelope_id, status, signers_json,
+      sent_at, expires_at, created_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+    [
+      id,
+      siteId,
+      data.leaseId,
+      data.provider,
+      data.envelopeId,
+      data.status,
+      JSON.stringify(data.signers),
+      data.sentAt,
+      data.expiresAt || null,
+      now,
+      now,
+    ]
+  );
+
+  const result = await db.queryOne('SELECT * FROM lease_signature_envelopes WHERE id = ?', [id]);
+  return mapSignatureEnvelopeFromDb(result);
+}
+
+export async function updateSignatureEnvelope(
+  dbInput: DatabaseInput,
+  siteId: string,
+  id: string,
+  data: Partial<Pick<LeaseSignatureEnvelope, 'status' | 'signers' | 'completedAt' | 'signedFileId'>>
+): Promise<void> {
+  const db = normalizeDb(dbInput);
+  const updates: string[] = [];
+  const params: (string | number | null)[] = [];
+
+  if (data.status !== undefined) {
+    updates.push('status = ?');
+    params.push(data.status);
+  }
+  if (data.signers !== undefined) {
+    updates.push('signers_json = ?');
+    params.push(JSON.stringify(data.signers));
+  }
+  if (data.completedAt !== undefined) {
+    updates.push('completed_at = ?');
+    params.push(data.completedAt || null);
+  }
+  if (data.signedFileId !== undefined) {
+    updates.push('signed_file_id = ?');
+    params.push(data.signedFileId || null);
+  }
+
+  if (updates.length === 0) return;
+
+  updates.push('updated_at = ?');
+  params.push(new Date().toISOString());
+  params.push(id, siteId);
+
+  await db.execute(`UPDATE lease_signature_envelopes SET ${updates.join(', ')} WHERE id = ? AND site_id = ?`, params);
+}
@@ -1,6 +1,16 @@
-import type { Lease, LeaseFile, Property, Unit, Tenant } from '../../../../shared/types';
+import type { Lease, LeaseFile, Property, Unit, Tenant, CursorPage } from '../../../../shared/types';
 import type { DatabaseInput } from './helpers';
 import { normalizeDb } from './helpers';
+import type { PageOptions, SortColumn } from './pagination';
+import {
+  applyCursor,
+  clampPageLimit,
+  propertyScopeCondition,
+  resolveSortKey,
+  searchCondition,
+  sortValueExpression,
+  toCursorPage,
+} from './pagination';
 import { generateId } from '../../../../shared/utils';
 
 // Mapper functions
@@ -101,20 +111,27 @@ function mapLeaseFileFromDb(row: unknown): LeaseFile {
 
 // ==================== LEASE CRUD OPERATIONS ====================
 
-export async function getLeases(
-  dbInput: DatabaseInput,
-  siteId: string,
-  options?: {
-    status?: string;
-    propertyId?: string;
-    unitId?: string;
-    tenantId?: string;
-    sortBy?: string;
-    sortOrder?: 'asc' | 'desc';
-  }
-): Promise<Lease[]> {
-  const db = normalizeDb(dbInput);
-  const { status, propertyId, unitId, tenantId, sortBy = 'created_at', sortOrder = 'desc' } = options || {};
+// Sort keys accepted by the lease list
+const LEASE_SORT_COLUMNS: Record<string, SortColumn> = {
+  createdAt: { expression: 'l.created_at', nullValue: '' },
+  startDate: { expression: 'l.start_date', nullValue: '' },
+  endDate: { expression: 'l.end_date', nullValue: '' },
+  monthlyRent: { expression: 'l.monthly_rent', nullValue: 0 },
+  status: { expression: 'l.status', nullValue: '' },
+  propertyName: { expression: 'p.name', nullValue: '' },
+  unitNumber: { expression: 'u.unit_number', nullValue: '' },
+  tenantName: { expression: 't.last_name', nullValue: '' },
+};
+
+export interface LeaseListOptions extends PageOptions {
+  status?: string;
+  propertyId?: string;
+  unitId?: string;
+  tenantId?: string;
+}
+
+function buildLeaseListQuery(siteId: string, options: LeaseListOptions, sortColumn: SortColumn) {
+  const { status, propertyId, unitId, tenantId, search, propertyIds } = options;
 
   // Build query with joins to get property, unit, and tenant details
   let query = `
@@ -140,14 +157,15 @@ export async function getLeases(
       t.emergency_contact as tenant_emergency_contact,
       t.emergency_phone as tenant_emergency_phone,
       t.status as tenant_status,
-      t.lead_id as tenant_lead_id
+      t.lead_id as tenant_lead_id,
+      ${sortValueExpression(sortColumn)} as sort_value
     FROM leases l
     INNER JOIN properties p ON l.property_id = p.id
     LEFT JOIN units u ON l.unit_id = u.id
     INNER JOIN tenants t ON l.tenant_id = t.id
     WHERE l.site_id = ?
   `;
-  const params: (string | number)[] = [siteId];
+  const params: unknown[] = [siteId];
 
   if (status) {
     query += ' AND l.status = ?';
@@ -169,28 +187,64 @@ export async function getLeases(
     params.push(tenantId);
   }
 
-  // Map sort fields to database columns
-  // Handle undefined or invalid sortBy values
-  const validSortBy = sortBy && sortBy !== 'undefined' ? sortBy : 'created_at';
-
-  let orderColumn: string;
-  if (validSortBy === 'propertyName' || validSortBy === 'property_name') {
-    orderColumn = 'p.name';
-  } else if (validSortBy === 'tenantName' || validSortBy === 'tenant_name') {
-    orderColumn = 't.last_name';
-  } else if (validSortBy === 'startDate' || validSortBy === 'start_date') {
-    orderColumn = 'l.start_date';
-  } else if (validSortBy === 'endDate' || validSortBy === 'end_date') {
-    orderColumn = 'l.end_date';
-  } else {
-    orderColumn = `l.${validSortBy.replace(/([A-Z])/g, '_$1').toLowerCase()}`;
+  const conditions = [
+    propertyScopeCondition('l.property_id', propertyIds),
+    searchCondition(['t.first_name', 't.last_name', "t.first_name || ' ' || t.last_name", 't.email', 'p.name', 'u.unit_number'], search),
+  ];
+  for (const condition of conditions) {
+    if (condition) {
+      query += ` AND ${condition.sql}`;
+      params.push(...condition.params);
+    }
   }
-  query += ` ORDER BY ${orderColumn} ${sortOrder.toUpperCase()}`;
 
-  const results = await db.query(query, params);
+  return { query, params };
+}
+
+/**
+ * All leases matching the filters, with property, unit and tenant details
+ */
+export async function getLeases(
+  dbInput: DatabaseInput,
+  siteId: string,
+  options: Omit<LeaseListOptions, 'limit' | 'cursor'> = {}
+): Promise<Lease[]> {
+  const db = normalizeDb(dbInput);
+  const sortBy = resolveSortKey(LEASE_SORT_COLUMNS, options.sortBy, 'createdAt');
+  const sortOrder = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+  const { query, params } = buildLeaseListQuery(siteId, options, LEASE_SORT_COLUMNS[sortBy]);
+  const results = await db.query(`${query} ORDER BY sort_value ${sortOrder}, l.id ${sortOrder}`, params);
   return results.map(mapLeaseWithDetailsFromDb);
 }
 
+/**
+ * One page of leases; pass pagination.nextCursor back as cursor for the next
+ */
+export async function getLeasesPage(
+  dbInput: DatabaseInput,
+  siteId: string,
+  options: LeaseListOptions = {}
+): Promise<CursorPage<Lease>> {
+  const db = normalizeDb(dbInput);
+  const sortBy = resolveSortKey(LEASE_SORT_COLUMNS, options.sortBy, 'createdAt');
+  const sortOrder = options.sortOrder ?? 'desc';
+  const limit = clampPageLimit(options.limit);
+
+  const base = buildLeaseListQuery(siteId, options, LEASE_SORT_COLUMNS[sortBy]);
+  const { query, params } = applyCursor(base.query, base.params, {
+    sortBy,
+    column: LEASE_SORT_COLUMNS[sortBy],
+    sortOrder,
+    idColumn: 'l.id',
+    limit,
+    cursor: options.cursor,
+  });
+
+  const rows = await db.query<Record<string, unknown>>(query, params);
+  return toCursorPage(rows, { sortBy, sortOrder, limit }, mapLeaseWithDetailsFromDb);
+}
+
 export async function getLeaseById(
   dbInput: DatabaseInput,
   siteId: string,
@@ -238,6 +292,20 @@ export async function createLease(
   siteId: string,
   data: Omit<Lease, 'id' | 'createdAt' | 'updatedAt' | 'property' | 'unit' | 'tenant'>
 ): Promise<Lease> {
+  const db = normalizeDb(dbInput);
+  const id = await insertLease(db, siteId, data);
+  return (await getLeaseById(db, siteId, id))!;
+}
+
+/**
+ * Insert a lease without reading it back, for use inside a transaction.
+ * Returns the new lease's id.
+ */
+export async function insertLease(
+  dbInput: DatabaseInput,
+  siteId: string,
+  data: Omit<Lease, 'id' | 'createdAt' | 'updatedAt' | 'property' | 'unit' | 'tenant'>
+): Promise<string> {
   const db = normalizeDb(dbInput);
   const id = generateId('lease');
   const now = new Date().toISOString();
@@ -270,7 +338,7 @@ export async function createLease(
     ]
   );
 
-  return (await getLeaseById(db, siteId, id))!;
+  return id;
 }
 
 export async function updateLease(
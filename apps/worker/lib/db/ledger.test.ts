@@ -0,0 +1,219 @@
+/**
+ * Unit tests for lease ledger helpers
+ * @vitest-environment node
+ *
+ * Rent charge generation runs against an in-memory SQLite database with the
+ * migrations applied.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import path from 'node:path';
+import type { Lease, LedgerEntry } from '~/shared/types';
+import { SQLiteDatabaseAdapter, applySqlFiles } from '../../../../shared/storage-sqlite/sqlite-database';
+import {
+  buildRentSchedule,
+  applyRunningBalance,
+  summarizeLedger,
+  getBalanceEffect,
+  generateRentCharges,
+  getLedgerEntries,
+  processRentCharges,
+  validateAsOf,
+} from './ledger';
+import { createProperty } from './properties';
+import { createTenant } from './tenants';
+import { createLease } from './leases';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../scripts/migrations');
+
+const entry = (overrides: Partial<LedgerEntry>): LedgerEntry => ({
+  id: overrides.id || 'ledger_1',
+  leaseId: 'lease_1',
+  entryType: 'charge',
+  category: 'rent',
+  amount: 1000,
+  effectiveDate: '2025-01-01',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('Ledger', () => {
+  describe('buildRentSchedule', () => {
+    it('should produce one charge per month up to the as-of date', () => {
+      const schedule = buildRentSchedule(
+        { startDate: '2025-01-01', endDate: '2025-12-31', monthlyRent: 1500 },
+        '2025-03-15'
+      );
+
+      expect(schedule.map(s => s.period)).toEqual(['2025-01', '2025-02', '2025-03']);
+      expect(schedule.every(s => s.amount === 1500)).toBe(true);
+    });
+
+    it('should clamp the due day to the end of short months', () => {
+      const schedule = buildRentSchedule(
+        { startDate: '2025-01-31', endDate: '2025-12-31', monthlyRent: 1000 },
+        '2025-04-30'
+      );
+
+      expect(schedule.map(s => s.dueDate)).toEqual([
+        '2025-01-31',
+        '2025-02-28',
+        '2025-03-31',
+        '2025-04-30',
+      ]);
+    });
+
+    it('should stop at the lease end date', () => {
+      const schedule = buildRentSchedule(
+        { startDate: '2024-06-01', endDate: '2024-09-01', monthlyRent: 1000 },
+        '2025-01-01'
+      );
+
+      expect(schedule.map(s => s.period)).toEqual(['2024-06', '2024-07', '2024-08']);
+    });
+
+    it('should roll over year boundaries', () => {
+      const schedule = buildRentSchedule(
+        { startDate: '2024-11-15', endDate: '2025-11-14', monthlyRent: 900 },
+        '2025-01-20'
+      );
+
+      expect(schedule.map(s => s.period)).toEqual(['2024-11', '2024-12', '2025-01']);
+    });
+
+    it('should return nothing before the lease starts or without rent', () => {
+      expect(
+        buildRentSchedule({ startDate: '2025-05-01', endDate: '2026-04-30', monthlyRent: 1000 }, '2025-04-30')
+      ).toEqual([]);
+      expect(
+        buildRentSchedule({ startDate: '2025-01-01', endDate: '2025-12-31', monthlyRent: 0 }, '2025-06-01')
+      ).toEqual([]);
+    });
+  });
+
+  describe('getBalanceEffect', () => {
+    it('should increase the balance for charges and decrease it for payments and credits', () => {
+      expect(getBalanceEffect({ entryType: 'charge', amount: 100 })).toBe(100);
+      expect(getBalanceEffect({ entryType: 'payment', amount: 100 })).toBe(-100);
+      expect(getBalanceEffect({ entryType: 'credit', amount: 100 })).toBe(-100);
+    });
+
+    it('should apply adjustments with their own sign', () => {
+      expect(getBalanceEffect({ entryType: 'adjustment', amount: -25 })).toBe(-25);
+      expect(getBalanceEffect({ entryType: 'adjustment', amount: 25 })).toBe(25);
+    });
+  });
+
+  describe('applyRunningBalance', () => {
+    it('should order entries by date and post charges before same-day payments', () => {
+      const entries = applyRunningBalance([
+        entry({ id: 'p1', entryType: 'payment', amount: 1000, effectiveDate: '2025-02-01' }),
+        entry({ id: 'c2', entryType: 'charge', amount: 1000, effectiveDate: '2025-02-01' }),
+        entry({ id: 'c1', entryType: 'charge', amount: 1000, effectiveDate: '2025-01-01' }),
+      ]);
+
+      expect(entries.map(e => e.id)).toEqual(['c1', 'c2', 'p1']);
+      expect(entries.map(e => e.balance)).toEqual([1000, 2000, 1000]);
+    });
+  });
+
+  describe('summarizeLedger', () => {
+    it('should total each entry type and compute the balance', () => {
+      const summary = summarizeLedger([
+        entry({ id: 'c1', entryType: 'charge', amount: 1000 }),
+        entry({ id: 'c2', entryType: 'charge', amount: 50.1 }),
+        entry({ id: 'p1', entryType: 'payment', amount: 800 }),
+        entry({ id: 'cr1', entryType: 'credit', amount: 50 }),
+        entry({ id: 'a1', entryType: 'adjustment', amount: -0.1 }),
+      ]);
+
+      expect(summary).toEqual({
+        totalCharged: 1050.1,
+        totalPaid: 800,
+        totalCredited: 50,
+        totalAdjusted: -0.1,
+        balance: 200,
+      });
+    });
+  });
+
+  describe('validateAsOf', () => {
+    it('should accept real dates up to today', () => {
+      expect(validateAsOf('2025-03-15', '2025-03-15')).toBeNull();
+      expect(validateAsOf('2024-02-29', '2025-03-15')).toBeNull();
+    });
+
+    it('should reject malformed dates and dates after today', () => {
+      expect(validateAsOf('2025-3-15', '2025-03-15')).toBe('Expected a date (YYYY-MM-DD)');
+      expect(validateAsOf('2025-02-30', '2025-03-15')).toBe('Expected a date (YYYY-MM-DD)');
+      expect(validateAsOf('2025-13-01', '2025-03-15')).toBe('Expected a date (YYYY-MM-DD)');
+      expect(validateAsOf('2099-01-01', '2025-03-15')).toBe('The date cannot be after today');
+    });
+  });
+
+  describe('rent charge generation', () => {
+    const SITE_ID = 'site_1';
+    let db: SQLiteDatabaseAdapter;
+    let lease: Lease;
+
+    beforeEach(async () => {
+      db = new SQLiteDatabaseAdapter();
+      await applySqlFiles(db, MIGRATIONS_DIR);
+
+      const property = await createProperty(db, SITE_ID, {
+        name: 'Maple House',
+        address: '1 Main St',
+        city: 'Toronto',
+        province: 'ON',
+        postalCode: 'M1M 1M1',
+        propertyType: 'multi_family',
+      });
+      const tenant = await createTenant(db, SITE_ID, {
+        firstName: 'Ada',
+        lastName: 'Tenant',
+        email: 'ada@example.com',
+        phone: '555-0100',
+        status: 'active',
+      });
+      lease = await createLease(db, SITE_ID, {
+        propertyId: property.id,
+        tenantId: tenant.id,
+        startDate: '2025-01-01',
+        endDate: '2025-12-31',
+        monthlyRent: 1500,
+        securityDeposit: 1500,
+        status: 'active',
+      });
+    });
+
+    it('should count only the charges it inserted when runs overlap', async () => {
+      const counts = await Promise.all([
+        generateRentCharges(db, SITE_ID, lease, '2025-03-15'),
+        generateRentCharges(db, SITE_ID, lease, '2025-03-15'),
+      ]);
+
+      expect(counts[0] + counts[1]).toBe(3);
+      expect(await getLedgerEntries(db, SITE_ID, lease.id)).toHaveLength(3);
+      expect(await generateRentCharges(db, SITE_ID, lease, '2025-03-15')).toBe(0);
+    });
+
+    it('should post the charges due across sites from the daily job with a fixed number of reads', async () => {
+      const other = await createLease(db, 'site_2', {
+        propertyId: lease.propertyId,
+        tenantId: lease.tenantId,
+        startDate: '2025-02-01',
+        endDate: '2026-01-31',
+        monthlyRent: 900,
+        securityDeposit: 900,
+        status: 'signed',
+      });
+      const query = vi.spyOn(db, 'query');
+
+      expect(await processRentCharges(db, '2025-02-10')).toBe(3);
+      expect(query).toHaveBeenCalledTimes(2);
+      expect(await processRentCharges(db, '2025-02-10')).toBe(0);
+      expect((await getLedgerEntries(db, SITE_ID, lease.id)).map((e) => e.period)).toEqual(['2025-01', '2025-02']);
+      expect((await getLedgerEntries(db, 'site_2', other.id)).map((e) => e.period)).toEqual(['2025-02']);
+    });
+  });
+});
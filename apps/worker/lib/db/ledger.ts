@@ -0,0 +1,433 @@
+/**
+ * Database operations for the per-lease rent ledger
+ *
+ * Ledger entries record what a tenant owes (charges, positive adjustments)
+ * and what has been received (payments, credits, negative adjustments).
+ * Monthly rent charges are generated from the lease start/end dates by the
+ * daily job (and the generate-charges endpoint), never on read. Generation is
+ * idempotent per lease + period, so it can safely run again.
+ */
+
+import type {
+  Lease,
+  LedgerEntry,
+  LedgerSummary,
+  LeaseBalanceSummary,
+} from '../../../../shared/types';
+import { generateId } from '../../../../shared/utils';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+
+/**
+ * Lease statuses that accrue monthly rent charges
+ */
+export const RENT_ACCRUING_LEASE_STATUSES: Lease['status'][] = ['signed', 'active', 'expired'];
+
+// Mapper function
+export function mapLedgerEntryFromDb(row: unknown): LedgerEntry {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id as string,
+    leaseId: r.lease_id as string,
+    entryType: r.entry_type as LedgerEntry['entryType'],
+    category: r.category as LedgerEntry['category'],
+    amount: r.amount as number,
+    description: (r.description as string) || undefined,
+    effectiveDate: r.effective_date as string,
+    period: (r.period as string) || undefined,
+    paymentMethod: (r.payment_method as LedgerEntry['paymentMethod']) || undefined,
+    reference: (r.reference as string) || undefined,
+    createdBy: (r.created_by as string) || undefined,
+    createdAt: r.created_at as string,
+  };
+}
+
+// ==================== BALANCE CALCULATION ====================
+
+export function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Signed effect of an entry on the balance owed
+ * Charges increase the balance, payments and credits reduce it,
+ * adjustments apply their own sign.
+ */
+export function getBalanceEffect(entry: Pick<LedgerEntry, 'entryType' | 'amount'>): number {
+  switch (entry.entryType) {
+    case 'charge':
+      return Math.abs(entry.amount);
+    case 'payment':
+    case 'credit':
+      return -Math.abs(entry.amount);
+    case 'adjustment':
+    default:
+      return entry.amount;
+  }
+}
+
+/**
+ * Sort entries chronologically and attach the running balance after each entry
+ */
+export function applyRunningBalance(entries: LedgerEntry[]): LedgerEntry[] {
+  const sorted = [...entries].sort((a, b) => {
+    if (a.effectiveDate !== b.effectiveDate) return a.effectiveDate < b.effectiveDate ? -1 : 1;
+    // Charges first on the same day so a same-day payment never shows a credit balance
+    if (a.entryType !== b.entryType) {
+      if (a.entryType === 'charge') return -1;
+      if (b.entryType === 'charge') return 1;
+    }
+    return a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0;
+  });
+
+  let balance = 0;
+  return sorted.map((entry) => {
+    balance = roundCents(balance + getBalanceEffect(entry));
+    return { ...entry, balance };
+  });
+}
+
+/**
+ * Summarize ledger entries into totals and the current balance
+ */
+export function summarizeLedger(entries: LedgerEntry[]): LedgerSummary {
+  const summary: LedgerSummary = {
+    totalCharged: 0,
+    totalPaid: 0,
+    totalCredited: 0,
+    totalAdjusted: 0,
+    balance: 0,
+  };
+
+  for (const entry of entries) {
+    switch (entry.entryType) {
+      case 'charge':
+        summary.totalCharged += Math.abs(entry.amount);
+        break;
+      case 'payment':
+        summary.totalPaid += Math.abs(entry.amount);
+        break;
+      case 'credit':
+        summary.totalCredited += Math.abs(entry.amount);
+        break;
+      case 'adjustment':
+        summary.totalAdjusted += entry.amount;
+        break;
+    }
+    summary.balance += getBalanceEffect(entry);
+  }
+
+  return {
+    totalCharged: roundCents(summary.totalCharged),
+    totalPaid: roundCents(summary.totalPaid),
+    totalCredited: roundCents(summary.totalCredited),
+    totalAdjusted: roundCents(summary.totalAdjusted),
+    balance: roundCents(summary.balance),
+  };
+}
+
+// ==================== RENT SCHEDULE ====================
+
+/**
+ * Check an asOf date for ledger reports and charge generation: YYYY-MM-DD,
+ * a real date and not after today. Returns the problem, or null when valid.
+ */
+export function validateAsOf(
+  asOf: string,
+  today: string = new Date().toISOString().slice(0, 10)
+): string | null {
+  const date = new Date(`${asOf}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== asOf) {
+    return 'Expected a date (YYYY-MM-DD)';
+  }
+  if (asOf > today) {
+    return 'The date cannot be after today';
+  }
+  return null;
+}
+
+export interface RentScheduleItem {
+  period: string; // YYYY-MM
+  dueDate: string; // YYYY-MM-DD
+  amount: number;
+}
+
+function toIsoDate(year: number, monthIndex: number, day: number): string {
+  return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+/**
+ * Build the monthly rent schedule for a lease up to (and including) asOf.
+ *
+ * Rent is due on the lease start day each month (clamped to the last day of
+ * shorter months). A period is charged when its due date is on or before
+ * asOf and before the lease end date.
+ */
+export function buildRentSchedule(
+  lease: Pick<Lease, 'startDate' | 'endDate' | 'monthlyRent'>,
+  asOf: string
+): RentScheduleItem[] {
+  const [startYear, startMonth, startDay] = lease.startDate.slice(0, 10).split('-').map(Number);
+  if (!startYear || !startMonth || !startDay || !(lease.monthlyRent > 0)) return [];
+
+  const endDate = lease.endDate ? lease.endDate.slice(0, 10) : null;
+  const cutoff = asOf.slice(0, 10);
+  const items: RentScheduleItem[] = [];
+
+  for (let offset = 0; ; offset++) {
+    const monthIndex = (startMonth - 1 + offset) % 12;
+    const year = startYear + Math.floor((startMonth - 1 + offset) / 12);
+    const day = Math.min(startDay, daysInMonth(year, monthIndex));
+    const dueDate = toIsoDate(year, monthIndex, day);
+
+    if (dueDate > cutoff) break;
+    if (endDate && dueDate >= endDate) break;
+
+    items.push({
+      period: dueDate.slice(0, 7),
+      dueDate,
+      amount: roundCents(lease.monthlyRent),
+    });
+  }
+
+  return items;
+}
+
+// ==================== LEDGER CRUD OPERATIONS ====================
+
+export async function getLedgerEntries(
+  dbInput: DatabaseInput,
+  siteId: string,
+  leaseId: string
+): Promise<LedgerEntry[]> {
+  const db = normalizeDb(dbInput);
+  const results = await db.query(
+    `SELECT * FROM lease_ledger_entries
+     WHERE lease_id = ? AND site_id = ?
+     ORDER BY effective_date ASC, created_at ASC`,
+    [leaseId, siteId]
+  );
+  return results.map(mapLedgerEntryFromDb);
+}
+
+export async function getLedgerEntryById(
+  dbInput: DatabaseInput,
+  siteId: string,
+  id: string
+): Promise<LedgerEntry | null> {
+  const db = normalizeDb(dbInput);
+  const result = await db.queryOne('SELECT * FROM lease_ledger_entries WHERE id = ? AND site_id = ?', [id, siteId]);
+  return result ? mapLedgerEntryFromDb(result) : null;
+}
+
+export async function createLedgerEntry(
+  dbInput: DatabaseInput,
+  siteId: string,
+  data: Omit<LedgerEntry, 'id' | 'createdAt' | 'balance'>
+): Promise<LedgerEntry> {
+  const db = normalizeDb(dbInput);
+  const id = generateId('ledger');
+  const now = new Date().toISOString();
+
+  await db.execute(
+    `
+    INSERT INTO lease_ledger_entries (
+      id, site_id, lease_id, entry_type, category, amount, description,
+      effective_date, period, payment_method, reference, created_by, created_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+    [
+      id,
+      siteId,
+      data.leaseId,
+      data.entryType,
+      data.category,
+      roundCents(data.amount),
+      data.description || null,
+      data.effectiveDate,
+      data.period || null,
+      data.paymentMethod || null,
+      data.reference || null,
+      data.createdBy || null,
+      now,
+    ]
+  );
+
+  return (await getLedgerEntryById(db, siteId, id))!;
+}
+
+export async function deleteLedgerEntry(dbInput: DatabaseInput, siteId: string, id: string): Promise<void> {
+  const db = normalizeDb(dbInput);
+  await db.execute('DELETE FROM lease_ledger_entries WHERE id = ? AND site_id = ?', [id, siteId]);
+}
+
+// Insert for one scheduled rent charge; the unique (lease_id, period) index
+// turns a period another run already charged into a no-op
+function rentChargeStatement(siteId: string, leaseId: string, item: RentScheduleItem, now: string) {
+  return {
+    sql: `INSERT OR IGNORE INTO lease_ledger_entries (
+        id, site_id, lease_id, entry_type, category, amount, description,
+        effective_date, period, created_at
+      )
+      VALUES (?, ?, ?, 'charge', 'rent', ?, ?, ?, ?, ?)`,
+    params: [
+      generateId('ledger'),
+      siteId,
+      leaseId,
+      item.amount,
+      `Rent for ${item.period}`,
+      item.dueDate,
+      item.period,
+      now,
+    ],
+  };
+}
+
+// Statements per batch when posting charges for many leases at once
+const RENT_CHARGE_BATCH_SIZE = 100;
+
+// Rows inserted, not rows attempted: a concurrent run may have charged some periods first
+async function insertRentCharges(
+  dbInput: DatabaseInput,
+  statements: Array<{ sql: string; params: unknown[] }>
+): Promise<number> {
+  const db = normalizeDb(dbInput);
+  let created = 0;
+  for (let i = 0; i < statements.length; i += RENT_CHARGE_BATCH_SIZE) {
+    const results = await db.batch(statements.slice(i, i + RENT_CHARGE_BATCH_SIZE));
+    created += results.reduce((sum, result) => sum + result.changes, 0);
+  }
+  return created;
+}
+
+/**
+ * Generate any missing monthly rent charges for a lease up to asOf.
+ * Existing periods are skipped via the unique (lease_id, period) index,
+ * so this is safe to call repeatedly. Returns the number of charges created.
+ */
+export async function generateRentCharges(
+  dbInput: DatabaseInput,
+  siteId: string,
+  lease: Pick<Lease, 'id' | 'startDate' | 'endDate' | 'monthlyRent' | 'status'>,
+  asOf: string = new Date().toISOString().slice(0, 10)
+): Promise<number> {
+  if (!RENT_ACCRUING_LEASE_STATUSES.includes(lease.status)) return 0;
+
+  const db = normalizeDb(dbInput);
+  const schedule = buildRentSchedule(lease, asOf);
+  if (schedule.length === 0) return 0;
+
+  const existing = await db.query<{ period: string }>(
+    'SELECT period FROM lease_ledger_entries WHERE lease_id = ? AND site_id = ? AND period IS NOT NULL',
+    [lease.id, siteId]
+  );
+  const existingPeriods = new Set(existing.map((row) => row.period));
+  const now = new Date().toISOString();
+  return insertRentCharges(
+    db,
+    schedule
+      .filter((item) => !existingPeriods.has(item.period))
+      .map((item) => rentChargeStatement(siteId, lease.id, item, now))
+  );
+}
+
+/**
+ * Generate missing rent charges up to today for every rent-accruing lease in
+ * every site, with one read of the leases, one of the periods already charged
+ * and batched inserts. Called from the worker's daily scheduled handler.
+ */
+export async function processRentCharges(
+  dbInput: DatabaseInput,
+  today: string = new Date().toISOString().slice(0, 10)
+): Promise<number> {
+  const db = normalizeDb(dbInput);
+  const placeholders = RENT_ACCRUING_LEASE_STATUSES.map(() => '?').join(', ');
+
+  const leases = await db.query<Record<string, unknown>>(
+    `SELECT id, site_id, start_date, end_date, monthly_rent FROM leases WHERE status IN (${placeholders})`,
+    [...RENT_ACCRUING_LEASE_STATUSES]
+  );
+  if (leases.length === 0) return 0;
+
+  const existing = await db.query<{ lease_id: string; period: string }>(
+    `SELECT e.lease_id, e.period FROM lease_ledger_entries e
+     JOIN leases l ON l.id = e.lease_id AND l.site_id = e.site_id
+     WHERE e.period IS NOT NULL AND l.status IN (${placeholders})`,
+    [...RENT_ACCRUING_LEASE_STATUSES]
+  );
+  const charged = new Set(existing.map((row) => `${row.lease_id}:${row.period}`));
+
+  const now = new Date().toISOString();
+  const statements = leases.flatMap((row) =>
+    buildRentSchedule(
+      {
+        startDate: row.start_date as string,
+        endDate: row.end_date as string,
+        monthlyRent: row.monthly_rent as number,
+      },
+      today
+    )
+      .filter((item) => !charged.has(`${row.id}:${item.period}`))
+      .map((item) => rentChargeStatement(row.site_id as string, row.id as string, item, now))
+  );
+  return insertRentCharges(db, statements);
+}
+
+/**
+ * Ledger totals per lease for the whole site, computed in SQL.
+ * collectedThisMonth counts payments dated in the month of asOf.
+ */
+export async function getLeaseBalanceSummaries(
+  dbInput: DatabaseInput,
+  siteId: string,
+  asOf: string = new Date().toISOString().slice(0, 10)
+): Promise<LeaseBalanceSummary[]> {
+  const db = normalizeDb(dbInput);
+  const month = asOf.slice(0, 7);
+
+  const results = await db.query<Record<string, unknown>>(
+    `
+    SELECT
+      l.id as lease_id,
+      l.property_id,
+      l.unit_id,
+      l.tenant_id,
+      l.monthly_rent,
+      COALESCE(SUM(CASE WHEN e.entry_type = 'charge' THEN ABS(e.amount) ELSE 0 END), 0) as total_charged,
+      COALESCE(SUM(CASE WHEN e.entry_type = 'payment' THEN ABS(e.amount) ELSE 0 END), 0) as total_paid,
+      COALESCE(SUM(CASE WHEN e.entry_type = 'credit' THEN ABS(e.amount) ELSE 0 END), 0) as total_credited,
+      COALESCE(SUM(CASE WHEN e.entry_type = 'adjustment' THEN e.amount ELSE 0 END), 0) as total_adjusted,
+      COALESCE(SUM(CASE WHEN e.entry_type = 'payment' AND substr(e.effective_date, 1, 7) = ? THEN ABS(e.amount) ELSE 0 END), 0) as collected_this_month
+    FROM leases l
+    LEFT JOIN lease_ledger_entries e ON e.lease_id = l.id AND e.site_id = l.site_id
+    WHERE l.site_id = ?
+    GROUP BY l.id
+  `,
+    [month, siteId]
+  );
+
+  return results.map((r) => {
+    const totalCharged = roundCents(r.total_charged as number);
+    const totalPaid = roundCents(r.total_paid as number);
+    const totalCredited = roundCents(r.total_credited as number);
+    const totalAdjusted = roundCents(r.total_adjusted as number);
+    return {
+      leaseId: r.lease_id as string,
+      propertyId: r.property_id as string,
+      unitId: (r.unit_id as string) || undefined,
+      tenantId: r.tenant_id as string,
+      monthlyRent: r.monthly_rent as number,
+      totalCharged,
+      totalPaid,
+      totalCredited,
+      totalAdjusted,
+      balance: roundCents(totalCharged - totalPaid - totalCredited + totalAdjusted),
+      collectedThisMonth: roundCents(r.collected_this_month as number),
+    };
+  });
+}
@@ -0,0 +1,388 @@
+/**
+ * Database operations for tenant notices (Ontario N1 / N4 / N11)
+ *
+ * Lifecycle: draft → served → effective → completed, with void allowed
+ * before the notice takes effect. Serving a notice fixes its effective date
+ * and schedules reminders; the scheduled job advances served notices to
+ * effective and raises reminders as their dates arrive.
+ */
+
+import type {
+  NoticeEvent,
+  NoticeServiceMethod,
+  NoticeStatus,
+  TenantNotice,
+} from '../../../../shared/types';
+import type { CreateNoticeInput } from '../../../../shared/config';
+import {
+  generateId,
+  addDaysToIsoDate,
+  calculateNoticeEffectiveDate,
+  getNextNoticeReminderDate,
+  DEFAULT_NOTICE_REMINDER_SCHEDULE,
+} from '../../../../shared/utils';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+
+/**
+ * Allowed status transitions. 'effective' is normally reached via the
+ * scheduled job once effective_on has passed.
+ */
+export const NOTICE_STATUS_TRANSITIONS: Record<NoticeStatus, NoticeStatus[]> = {
+  draft: ['served', 'void'],
+  served: ['effective', 'void', 'completed'],
+  effective: ['completed'],
+  void: [],
+  completed: [],
+};
+
+export function canTransitionNotice(from: NoticeStatus, to: NoticeStatus): boolean {
+  return NOTICE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string' || !value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// Mapper functions
+function mapNoticeFromDb(row: unknown): TenantNotice {
+  const r = row as Record<string, unknown>;
+  const tenantName = [r.tenant_first_name, r.tenant_last_name].filter(Boolean).join(' ');
+  return {
+    id: r.id as string,
+    tenantId: r.tenant_id as string,
+    leaseId: (r.lease_id as string) || undefined,
+    propertyId: (r.property_id as string) || undefined,
+    unitId: (r.unit_id as string) || undefined,
+    type: r.type as TenantNotice['type'],
+    status: r.status as NoticeStatus,
+    servedOn: (r.served_on as string) || undefined,
+    serviceMethod: (r.service_method as NoticeServiceMethod) || undefined,
+    effectiveOn: (r.effective_on as string) || undefined,
+    details: parseJson(r.details_json, {}),
+    reminderSchedule: parseJson(r.reminder_schedule_json, DEFAULT_NOTICE_REMINDER_SCHEDULE),
+    nextReminderOn: (r.next_reminder_on as string) || undefined,
+    reminderDueAt: (r.reminder_due_at as string) || undefined,
+    documentId: (r.document_id as string) || undefined,
+    notes: (r.notes as string) || undefined,
+    voidReason: (r.void_reason as string) || undefined,
+    createdBy: (r.created_by as string) || undefined,
+    createdAt: r.created_at as string,
+    updatedAt: r.updated_at as string,
+    tenantName: tenantName || undefined,
+  };
+}
+
+function mapNoticeEventFromDb(row: unknown): NoticeEvent {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id as string,
+    noticeId: r.notice_id as string,
+    type: r.type as string,
+    payload: parseJson<Record<string, unknown> | undefined>(r.payload_json, undefined),
+    createdBy: (r.created_by as string) || undefined,
+    createdAt: r.created_at as string,
+  };
+}
+
+async function recordNoticeEvent(
+  dbInput: DatabaseInput,
+  siteId: string,
+  noticeId: string,
+  type: string,
+  payload?: Record<string, unknown>,
+  createdBy?: string
+): Promise<void> {
+  const db = normalizeDb(dbInput);
+  await db.execute(
+    `INSERT INTO notice_events (id, site_id, notice_id, type, payload_json, created_by, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      generateId('nev'),
+      siteId,
+      noticeId,
+      type,
+      payload ? JSON.stringify(payload) : null,
+      createdBy || null,
+      new Date().toISOString(),
+    ]
+  );
+}
+
+// ==================== NOTICE QUERIES ====================
+
+export async function getNoticesByTenant(
+  dbInput: DatabaseInput,
+  siteId: string,
+  tenantId: string
+): Promise<TenantNotice[]> {
+  const db = normalizeDb(dbInput);
+  const results = await db.query(
+    `SELECT * FROM tenant_notices
+     WHERE tenant_id = ? AND site_id = ?
+     ORDER BY created_at DESC`,
+    [tenantId, siteId]
+  );
+  return results.map(mapNoticeFromDb);
+}
+
+export async function getNoticeById(
+  dbInput: DatabaseInput,
+  siteId: string,
+  id: string
+): Promise<TenantNotice | null> {
+  const db = normalizeDb(dbInput);
+  const result = await db.queryOne('SELECT * FROM tenant_notices WHERE id = ? AND site_id = ?', [id, siteId]);
+  return result ? mapNoticeFromDb(result) : null;
+}
+
+export async function getNoticeEvents(
+  dbInput: DatabaseInput,
+  siteId: string,
+  noticeId: string
+): Promise<NoticeEvent[]> {
+  const db = normalizeDb(dbInput);
+  const results = await db.query(
+    'SELECT * FROM notice_events WHERE notice_id = ? AND site_id = ? ORDER BY created_at ASC',
+    [noticeId, siteId]
+  );
+  return results.map(mapNoticeEventFromDb);
+}
+
+/**
+ * Served/effective notices that need attention: a raised reminder that has
+ * not been acknowledged, or an effective date within the next `days` days.
+ */
+export async function getUpcomingNotices(
+  dbInput: DatabaseInput,
+  siteId: string,
+  options: { asOf?: string; days?: number } = {}
+): Promise<TenantNotice[]> {
+  const db = normalizeDb(dbInput);
+  const asOf = options.asOf || new Date().toISOString().slice(0, 10);
+  const horizon = addDaysToIsoDate(asOf, options.days ?? 30);
+
+  const results = await db.query(
+    `
+    SELECT n.*, t.first_name as tenant_first_name, t.last_name as tenant_last_name
+    FROM tenant_notices n
+    LEFT JOIN tenants t ON t.id = n.tenant_id AND t.site_id = n.site_id
+    WHERE n.site_id = ?
+      AND n.status IN ('served', 'effective')
+      AND (n.reminder_due_at IS NOT NULL OR (n.effective_on >= ? AND n.effective_on <= ?))
+    ORDER BY n.effective_on ASC
+  `,
+    [siteId, asOf, horizon]
+  );
+  return results.map(mapNoticeFromDb);
+}
+
+// ==================== NOTICE LIFECYCLE ====================
+
+export async function createNotice(
+  dbInput: DatabaseInput,
+  siteId: string,
+  tenantId: string,
+  data: CreateNoticeInput & { propertyId?: string; unitId?: string },
+  createdBy?: string
+): Promise<TenantNotice> {
+  const db = normalizeDb(dbInput);
+  const id = generateId('notice');
+  const now = new Date().toISOString();
+
+  await db.execute(
+    `
+    INSERT INTO tenant_notices (
+      id, site_id, tenant_id, lease_id, property_id, unit_id, type, status,
+      details_json, reminder_schedule_json, notes, created_by, created_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, 'draft', ?, ?, ?, ?, ?, ?)
+  `,
+    [
+      id,
+      siteId,
+      tenantId,
+      data.leaseId || null,
+      data.propertyId || null,
+      data.unitId || null,
+      data.type,
+      JSON.stringify(data.details || {}),
+      JSON.stringify(data.reminderSchedule || DEFAULT_NOTICE_REMINDER_SCHEDULE),
+      data.notes || null,
+      createdBy || null,
+      now,
+      now,
+    ]
+  );
+
+  await recordNoticeEvent(db, siteId, id, 'created', { type: data.type }, createdBy);
+
+  return (await getNoticeById(db, siteId, id))!;
+}
+
+/**
+ * Mark a draft notice as served and fix its effective date from the
+ * Ontario timing rules. Returns null if the effective date cannot be
+ * determined (e.g. N11 without an agreed termination date).
+ */
+export async function serveNotice(
+  dbInput: DatabaseInput,
+  siteId: string,
+  notice: TenantNotice,
+  data: {
+    servedOn: string;
+    serviceMethod: NoticeServiceMethod;
+    rentPeriod?: 'monthly' | 'weekly';
+    leaseStartDate?: string;
+  },
+  servedBy?: string
+): Promise<TenantNotice | null> {
+  const db = normalizeDb(dbInput);
+
+  const effectiveOn = calculateNoticeEffectiveDate(notice.type, {
+    servedOn: data.servedOn,
+    serviceMethod: data.serviceMethod,
+    leaseStartDate: data.leaseStartDate,
+    rentPeriod: data.rentPeriod,
+    agreedTerminationDate: notice.details.agreedTerminationDate,
+  });
+  if (!effectiveOn) return null;
+
+  const today = new Date().toISOString().slice(0, 10);
+  const nextReminderOn = getNextNoticeReminderDate(effectiveOn, notice.reminderSchedule, today);
+
+  await db.execute(
+    `UPDATE tenant_notices
+     SET status = 'served', served_on = ?, service_method = ?, effective_on = ?,
+         next_reminder_on = ?, updated_at = ?
+     WHERE id = ? AND site_id = ?`,
+    [data.servedOn, data.serviceMethod, effectiveOn, nextReminderOn, new Date().toISOString(), notice.id, siteId]
+  );
+
+  await recordNoticeEvent(
+    db,
+    siteId,
+    notice.id,
+    'served',
+    { servedOn: data.servedOn, serviceMethod: data.serviceMethod, effectiveOn },
+    servedBy
+  );
+
+  return getNoticeById(db, siteId, notice.id);
+}
+
+export async function voidNotice(
+  dbInput: DatabaseInput,
+  siteId: string,
+  id: string,
+  reason?: string,
+  voidedBy?: string
+): Promise<void> {
+  const db = normalizeDb(dbInput);
+  await db.execute(
+    `UPDATE tenant_notices
+     SET status = 'void', void_reason = ?, next_reminder_on = NULL, reminder_due_at = NULL, updated_at = ?
+     WHERE id = ? AND site_id = ?`,
+    [reason || null, new Date().toISOString(), id, siteId]
+  );
+  await recordNoticeEvent(db, siteId, id, 'voided', reason ? { reason } : undefined, voidedBy);
+}
+
+export async function completeNotice(
+  dbInput: DatabaseInput,
+  siteId: string,
+  id: string,
+  completedBy?: string
+): Promise<void> {
+  const db = normalizeDb(dbInput);
+  await db.execute(
+    `UPDATE tenant_notices
+     SET status = 'completed', next_reminder_on = NULL, reminder_due_at = NULL, updated_at = ?
+     WHERE id = ? AND site_id = ?`,
+    [new Date().toISOString(), id, siteId]
+  );
+  await recordNoticeEvent(db, siteId, id, 'completed', undefined, completedBy);
+}
+
+export async function acknowledgeNoticeReminder(
+  dbInput: DatabaseInput,
+  siteId: string,
+  id: string,
+  acknowledgedBy?: string
+): Promise<void> {
+  const db = normalizeDb(dbInput);
+  await db.execute(
+    'UPDATE tenant_notices SET reminder_due_at = NULL, updated_at = ? WHERE id = ? AND site_id = ?',
+    [new Date().toISOString(), id, siteId]
+  );
+  await recordNoticeEvent(db, siteId, id, 'reminder_acknowledged', undefined, acknowledgedBy);
+}
+
+// ==================== SCHEDULED PROCESSING ====================
+
+/**
+ * Advance notices for every site as of `today`:
+ * - served notices whose effective date has arrived become 'effective'
+ * - served notices whose next reminder date has arrived get a reminder raised
+ *   (shown on the Ops dashboard) and their next reminder rescheduled
+ * Called from the worker's scheduled handler.
+ */
+export async function processNoticeReminders(
+  dbInput: DatabaseInput,
+  today: string = new Date().toISOString().slice(0, 10)
+): Promise<{ becameEffective: number; remindersRaised: number }> {
+  const db = normalizeDb(dbInput);
+  const now = new Date().toISOString();
+
+  const effectiveRows = await db.query<Record<string, unknown>>(
+    `SELECT id, site_id, effective_on FROM tenant_notices
+     WHERE status = 'served' AND effective_on IS NOT NULL AND effective_on <= ?`,
+    [today]
+  );
+
+  for (const row of effectiveRows) {
+    await db.execute(
+      `UPDATE tenant_notices
+       SET status = 'effective', next_reminder_on = NULL, reminder_due_at = ?, updated_at = ?
+       WHERE id = ? AND site_id = ?`,
+      [now, now, row.id, row.site_id]
+    );
+    await recordNoticeEvent(db, row.site_id as string, row.id as string, 'became_effective', {
+      effectiveOn: row.effective_on,
+    });
+  }
+
+  const reminderRows = await db.query(
+    `SELECT * FROM tenant_notices
+     WHERE status = 'served' AND next_reminder_on IS NOT NULL AND next_reminder_on <= ?`,
+    [today]
+  );
+
+  for (const row of reminderRows) {
+    const notice = mapNoticeFromDb(row);
+    const siteId = (row as Record<string, unknown>).site_id as string;
+    const nextReminderOn = getNextNoticeReminderDate(
+      notice.effectiveOn!,
+      notice.reminderSchedule,
+      addDaysToIsoDate(today, 1)
+    );
+
+    await db.execute(
+      `UPDATE tenant_notices
+       SET reminder_due_at = ?, next_reminder_on = ?, updated_at = ?
+       WHERE id = ? AND site_id = ?`,
+      [now, nextReminderOn, now, notice.id, siteId]
+    );
+    await recordNoticeEvent(db, siteId, notice.id, 'reminder', {
+      effectiveOn: notice.effectiveOn,
+      reminderDate: notice.nextReminderOn,
+    });
+  }
+
+  return { becameEffective: effectiveRows.length, remindersRaised: reminderRows.length };
+}
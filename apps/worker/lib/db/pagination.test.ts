@@ -0,0 +1,133 @@
+/**
+ * Unit tests for cursor pagination of the ops list queries
+ * @vitest-environment node
+ *
+ * Runs the real list queries against an in-memory SQLite database with the
+ * migrations applied.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'node:path';
+import { SQLiteDatabaseAdapter, applySqlFiles } from '../../../../shared/storage-sqlite/sqlite-database';
+import { InvalidCursorError, resolveSortKey, searchCondition } from './pagination';
+import { createProperty, getPropertiesPage } from './properties';
+import { createTenant, getTenants, getTenantsPage } from './tenants';
+import { createLease, getLeasesPage } from './leases';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../scripts/migrations');
+const SITE_ID = 'site_1';
+
+describe('resolveSortKey', () => {
+  const columns = { createdAt: { expression: 't.created_at', nullValue: '' } };
+
+  it('should accept camelCase and snake_case keys and ignore unknown ones', () => {
+    expect(resolveSortKey(columns, 'created_at', 'createdAt')).toBe('createdAt');
+    expect(resolveSortKey(columns, 'name; DROP TABLE tenants', 'createdAt')).toBe('createdAt');
+    expect(resolveSortKey(columns, 'constructor', 'createdAt')).toBe('createdAt');
+  });
+});
+
+describe('searchCondition', () => {
+  it('should escape LIKE wildcards in the search term', () => {
+    expect(searchCondition(['t.email'], ' 50%_off ')).toEqual({
+      sql: "(t.email LIKE ? ESCAPE '\\')",
+      params: ['%50\\%\\_off%'],
+    });
+    expect(searchCondition(['t.email'], '  ')).toBeNull();
+  });
+});
+
+describe('list pagination', () => {
+  let db: SQLiteDatabaseAdapter;
+
+  beforeEach(async () => {
+    db = new SQLiteDatabaseAdapter();
+    await applySqlFiles(db, MIGRATIONS_DIR);
+
+    for (const firstName of ['Cleo', 'Ada', 'Eve', 'Bea', 'Dan']) {
+      await createTenant(db, SITE_ID, {
+        firstName,
+        lastName: 'Tenant',
+        email: `${firstName.toLowerCase()}@example.com`,
+        phone: '555-0100',
+        status: 'active',
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should walk every row exactly once, in order, using the cursor', async () => {
+    const names: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await getTenantsPage(db, SITE_ID, { sortBy: 'firstName', sortOrder: 'asc', limit: 2, cursor });
+      expect(page.items.length).toBeLessThanOrEqual(2);
+      names.push(...page.items.map((tenant) => tenant.firstName));
+      cursor = page.pagination.nextCursor ?? undefined;
+      expect(page.pagination.hasMore).toBe(Boolean(cursor));
+    } while (cursor);
+
+    expect(names).toEqual(['Ada', 'Bea', 'Cleo', 'Dan', 'Eve']);
+  });
+
+  it('should break ties in the sort column by id', async () => {
+    // All five tenants were created within the same second
+    const all = await getTenants(db, SITE_ID, { sortBy: 'createdAt', sortOrder: 'desc' });
+    const first = await getTenantsPage(db, SITE_ID, { sortBy: 'createdAt', limit: 3 });
+    const second = await getTenantsPage(db, SITE_ID, { sortBy: 'createdAt', limit: 3, cursor: first.pagination.nextCursor! });
+
+    expect([...first.items, ...second.items].map((tenant) => tenant.id)).toEqual(all.map((tenant) => tenant.id));
+    expect(second.pagination).toEqual({ limit: 3, nextCursor: null, hasMore: false });
+  });
+
+  it('should filter by search term', async () => {
+    const page = await getTenantsPage(db, SITE_ID, { search: 'EVE@', limit: 10 });
+    expect(page.items.map((tenant) => tenant.firstName)).toEqual(['Eve']);
+  });
+
+  it('should reject a malformed cursor or one from a different sort', async () => {
+    await expect(getTenantsPage(db, SITE_ID, { cursor: 'not-a-cursor' })).rejects.toBeInstanceOf(InvalidCursorError);
+
+    const page = await getTenantsPage(db, SITE_ID, { sortBy: 'firstName', limit: 1 });
+    await expect(
+      getTenantsPage(db, SITE_ID, { sortBy: 'email', cursor: page.pagination.nextCursor! })
+    ).rejects.toBeInstanceOf(InvalidCursorError);
+  });
+
+  it('should only return rows on the properties a caller may see', async () => {
+    const property = (name: string) =>
+      createProperty(db, SITE_ID, {
+        name,
+        address: '1 Main St',
+        city: 'Toronto',
+        province: 'ON',
+        postalCode: 'M1M 1M1',
+        propertyType: 'single_family',
+      });
+    const maple = await property('Maple House');
+    const oak = await property('Oak Court');
+
+    const [tenant] = await getTenants(db, SITE_ID, { search: 'ada' });
+    await createLease(db, SITE_ID, {
+      propertyId: oak.id,
+      tenantId: tenant.id,
+      startDate: '2026-01-01',
+      endDate: '2026-12-31',
+      monthlyRent: 2000,
+      securityDeposit: 2000,
+      status: 'active',
+    });
+
+    const properties = await getPropertiesPage(db, SITE_ID, { propertyIds: [maple.id], limit: 10 });
+    expect(properties.items.map((p) => p.name)).toEqual(['Maple House']);
+
+    expect((await getLeasesPage(db, SITE_ID, { propertyIds: [maple.id] })).items).toEqual([]);
+    expect((await getLeasesPage(db, SITE_ID, { propertyIds: [oak.id] })).items).toHaveLength(1);
+    expect((await getTenantsPage(db, SITE_ID, { propertyIds: [] })).items).toEqual([]);
+    expect((await getTenantsPage(db, SITE_ID, { propertyIds: null })).items).toHaveLength(5);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Cursor (keyset) pagination for list queries
+ *
+ * Pages are ordered by a whitelisted sort column plus the row id as a tie
+ * breaker. The cursor records the last row's sort value and id, so the next
+ * page starts with a range condition instead of an OFFSET and stays fast
+ * however deep it goes.
+ */
+
+import type { CursorPage } from '../../../../shared/types';
+
+export const DEFAULT_PAGE_LIMIT = 25;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface SortColumn {
+    /** SQL expression to order by, e.g. 'p.name' */
+    expression: string;
+    /** Used in place of NULL so rows without a value keep a stable position */
+    nullValue: string | number;
+}
+
+export interface PageOptions {
+    limit?: number;
+    cursor?: string;
+    sortBy?: string;
+    sortOrder?: 'asc' | 'desc';
+    search?: string;
+    /** Properties the caller may see; null or undefined for all of them */
+    propertyIds?: string[] | null;
+}
+
+/**
+ * The cursor is malformed or was issued for a different sort
+ */
+export class InvalidCursorError extends Error {
+    constructor(message = 'Invalid cursor') {
+        super(message);
+        this.name = 'InvalidCursorError';
+    }
+}
+
+interface CursorPayload {
+    sortBy: string;
+    sortOrder: 'asc' | 'desc';
+    value: string | number;
+    id: string;
+}
+
+function encodeCursor(payload: CursorPayload): string {
+    const json = JSON.stringify([payload.sortBy, payload.sortOrder, payload.value, payload.id]);
+    const bytes = new TextEncoder().encode(json);
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): CursorPayload {
+    try {
+        const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+        const json = new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+        const [sortBy, sortOrder, value, id] = JSON.parse(json);
+        if (
+            typeof sortBy !== 'string' ||
+            (sortOrder !== 'asc' && sortOrder !== 'desc') ||
+            (typeof value !== 'string' && typeof value !== 'number') ||
+            typeof id !== 'string'
+        ) {
+            throw new Error('bad payload');
+        }
+        return { sortBy, sortOrder, value, id };
+    } catch {
+        throw new InvalidCursorError();
+    }
+}
+
+/**
+ * Resolve a requested sort key (camelCase or snake_case) against a list's
+ * sort columns. Unknown keys fall back to the default rather than reaching SQL.
+ */
+export function resolveSortKey(
+    columns: Record<string, SortColumn>,
+    sortBy: string | undefined,
+    fallback: string
+): string {
+    if (!sortBy) return fallback;
+    const key = sortBy.replace(/_([a-z])/g, (_, char: string) => char.toUpperCase());
+    return Object.prototype.hasOwnProperty.call(columns, key) ? key : fallback;
+}
+
+/**
+ * The sort expression with NULLs replaced, selected as sort_value so the
+ * cursor for the last row of a page can be read back
+ */
+export function sortValueExpression(column: SortColumn): string {
+    const nullValue = typeof column.nullValue === 'number' ? String(column.nullValue) : `'${column.nullValue}'`;
+    return `COALESCE(${column.expression}, ${nullValue})`;
+}
+
+/**
+ * "column IN (...)" for a property scope; no condition for unrestricted
+ * callers and an always-false one for callers with no properties
+ */
+export function propertyScopeCondition(
+    column: string,
+    propertyIds: string[] | null | undefined
+): { sql: string; params: string[] } | null {
+    if (!propertyIds) return null;
+    if (propertyIds.length === 0) return { sql: '1 = 0', params: [] };
+    return { sql: `${column} IN (${propertyIds.map(() => '?').join(', ')})`, params: propertyIds };
+}
+
+/**
+ * Case-insensitive substring match across columns
+ */
+export function searchCondition(
+    columns: string[],
+    search: string | undefined
+): { sql: string; params: string[] } | null {
+    const term = search?.trim();
+    if (!term) return null;
+    const pattern = `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    return {
+        sql: `(${columns.map((column) => `${column} LIKE ? ESCAPE '\\'`).join(' OR ')})`,
+        params: columns.map(() => pattern),
+    };
+}
+
+export function clampPageLimit(limit: number | undefined): number {
+    return Math.min(Math.max(Math.floor(limit || DEFAULT_PAGE_LIMIT), 1), MAX_PAGE_LIMIT);
+}
+
+/**
+ * Append the cursor condition, ORDER BY and LIMIT to a query whose WHERE
+ * clause is already open and which selects sortValueExpression(column) as
+ * sort_value. Fetches one extra row to tell whether another page follows.
+ */
+export function applyCursor(
+    query: string,
+    params: unknown[],
+    options: {
+        sortBy: string;
+        column: SortColumn;
+        sortOrder: 'asc' | 'desc';
+        idColumn: string;
+        limit: number;
+        cursor?: string;
+    }
+): { query: string; params: unknown[] } {
+    const sortExpression = sortValueExpression(options.column);
+    const comparison = options.sortOrder === 'asc' ? '>' : '<';
+    const direction = options.sortOrder.toUpperCase();
+    const nextParams = [...params];
+    let nextQuery = query;
+
+    if (options.cursor) {
+        const cursor = decodeCursor(options.cursor);
+        if (cursor.sortBy !== options.sortBy || cursor.sortOrder !== options.sortOrder) {
+            throw new InvalidCursorError('Cursor was issued for a different sort order');
+        }
+        nextQuery += ` AND (${sortExpression} ${comparison} ? OR (${sortExpression} = ? AND ${options.idColumn} ${comparison} ?))`;
+        nextParams.push(cursor.value, cursor.value, cursor.id);
+    }
+
+    nextQuery += ` ORDER BY ${sortExpression} ${direction}, ${options.idColumn} ${direction} LIMIT ?`;
+    nextParams.push(options.limit + 1);
+
+    return { query: nextQuery, params: nextParams };
+}
+
+/**
+ * Turn the rows fetched by applyCursor into a page
+ */
+export function toCursorPage<T>(
+    rows: Record<string, unknown>[],
+    options: { sortBy: string; sortOrder: 'asc' | 'desc'; limit: number },
+    map: (row: Record<string, unknown>) => T
+): CursorPage<T> {
+    const hasMore = rows.length > options.limit;
+    const pageRows = hasMore ? rows.slice(0, options.limit) : rows;
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+        items: pageRows.map(map),
+        pagination: {
+            limit: options.limit,
+            nextCursor: hasMore && last
+                ? encodeCursor({
+                    sortBy: options.sortBy,
+                    sortOrder: options.sortOrder,
+                    value: last.sort_value as string | number,
+                    id: last.id as string,
+                })
+                : null,
+            hasMore,
+        },
+    };
+}
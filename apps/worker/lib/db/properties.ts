@@ -1,7 +1,17 @@
-import type { Property } from '../../../../shared/types';
+import type { Property, CursorPage } from '../../../../shared/types';
 import { generateId } from '../../../../shared/utils';
 import type { DatabaseInput } from './helpers';
 import { normalizeDb } from './helpers';
+import type { PageOptions, SortColumn } from './pagination';
+import {
+    applyCursor,
+    clampPageLimit,
+    propertyScopeCondition,
+    resolveSortKey,
+    searchCondition,
+    sortValueExpression,
+    toCursorPage,
+} from './pagination';
 
 // Import related functions
 import { getUnitsByPropertyId } from './units';
@@ -30,33 +40,92 @@ function mapPropertyFromDb(row: unknown): Property {
     };
 }
 
-export async function getProperties(dbInput: DatabaseInput, siteId: string, options?: {
+// Sort keys accepted by the property list
+const PROPERTY_SORT_COLUMNS: Record<string, SortColumn> = {
+    createdAt: { expression: 'created_at', nullValue: '' },
+    name: { expression: 'name', nullValue: '' },
+    city: { expression: 'city', nullValue: '' },
+    propertyType: { expression: 'property_type', nullValue: '' },
+};
+
+export interface PropertyListOptions extends PageOptions {
     isActive?: boolean;
     propertyType?: string;
     city?: string;
-}): Promise<Property[]> {
-    const db = normalizeDb(dbInput);
-    let query = 'SELECT * FROM properties WHERE site_id = ?';
-    const params: (string | number)[] = [siteId];
+}
 
-    if (options?.isActive !== undefined) {
+function buildPropertyListQuery(siteId: string, options: PropertyListOptions, sortColumn: SortColumn) {
+    let query = `SELECT *, ${sortValueExpression(sortColumn)} as sort_value FROM properties WHERE site_id = ?`;
+    const params: unknown[] = [siteId];
+
+    if (options.isActive !== undefined) {
         query += ' AND is_active = ?';
         params.push(options.isActive ? 1 : 0);
     }
-    if (options?.propertyType) {
+    if (options.propertyType) {
         query += ' AND property_type = ?';
         params.push(options.propertyType);
     }
-    if (options?.city) {
+    if (options.city) {
         query += ' AND city = ?';
         params.push(options.city);
     }
 
-    query += ' ORDER BY created_at DESC';
-    const results = await db.query(query, params);
+    const conditions = [
+        propertyScopeCondition('id', options.propertyIds),
+        searchCondition(['name', 'address', 'city', 'postal_code'], options.search),
+    ];
+    for (const condition of conditions) {
+        if (condition) {
+            query += ` AND ${condition.sql}`;
+            params.push(...condition.params);
+        }
+    }
+
+    return { query, params };
+}
+
+export async function getProperties(
+    dbInput: DatabaseInput,
+    siteId: string,
+    options: Omit<PropertyListOptions, 'limit' | 'cursor'> = {}
+): Promise<Property[]> {
+    const db = normalizeDb(dbInput);
+    const sortBy = resolveSortKey(PROPERTY_SORT_COLUMNS, options.sortBy, 'createdAt');
+    const sortOrder = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const { query, params } = buildPropertyListQuery(siteId, options, PROPERTY_SORT_COLUMNS[sortBy]);
+    const results = await db.query(`${query} ORDER BY sort_value ${sortOrder}, id ${sortOrder}`, params);
     return results.map(mapPropertyFromDb);
 }
 
+/**
+ * One page of properties; pass pagination.nextCursor back as cursor for the next
+ */
+export async function getPropertiesPage(
+    dbInput: DatabaseInput,
+    siteId: string,
+    options: PropertyListOptions = {}
+): Promise<CursorPage<Property>> {
+    const db = normalizeDb(dbInput);
+    const sortBy = resolveSortKey(PROPERTY_SORT_COLUMNS, options.sortBy, 'createdAt');
+    const sortOrder = options.sortOrder ?? 'desc';
+    const limit = clampPageLimit(options.limit);
+
+    const base = buildPropertyListQuery(siteId, options, PROPERTY_SORT_COLUMNS[sortBy]);
+    const { query, params } = applyCursor(base.query, base.params, {
+        sortBy,
+        column: PROPERTY_SORT_COLUMNS[sortBy],
+        sortOrder,
+        idColumn: 'id',
+        limit,
+        cursor: options.cursor,
+    });
+
+    const rows = await db.query<Record<string, unknown>>(query, params);
+    return toCursorPage(rows, { sortBy, sortOrder, limit }, mapPropertyFromDb);
+}
+
 export async function getPropertyById(dbInput: DatabaseInput, siteId: string, id: string): Promise<Property | null> {
     const db = normalizeDb(dbInput);
     const result = await db.queryOne('SELECT * FROM properties WHERE id = ? AND site_id = ?', [id, siteId]);
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the rent roll and portfolio summary
+ * @vitest-environment node
+ *
+ * Runs the report queries against an in-memory SQLite database with the
+ * migrations applied.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'node:path';
+import { SQLiteDatabaseAdapter, applySqlFiles } from '../../../../shared/storage-sqlite/sqlite-database';
+import { getPortfolioSummary, getRentRoll } from './rent-roll';
+import { createProperty } from './properties';
+import { createUnit } from './units';
+import { createTenant } from './tenants';
+import { createLease } from './leases';
+import { createLedgerEntry } from './ledger';
+import type { Property } from '../../../../shared/types';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../scripts/migrations');
+const SITE_ID = 'site_1';
+const AS_OF = '2026-03-15';
+
+describe('rent roll', () => {
+  let db: SQLiteDatabaseAdapter;
+  let maple: Property;
+  let oak: Property;
+
+  const property = (name: string) =>
+    createProperty(db, SITE_ID, {
+      name,
+      address: '1 Main St',
+      city: 'Toronto',
+      province: 'ON',
+      postalCode: 'M1M 1M1',
+      propertyType: 'multi_family',
+    });
+
+  const unit = (propertyId: string, unitNumber: string, rentAmount: number, status: 'available' | 'occupied') =>
+    createUnit(db, SITE_ID, { propertyId, unitNumber, bedrooms: 1, bathrooms: 1, sqft: 700, rentAmount, status });
+
+  const tenant = (firstName: string) =>
+    createTenant(db, SITE_ID, {
+      firstName,
+      lastName: 'Tenant',
+      email: `${firstName.toLowerCase()}@example.com`,
+      phone: '555-0100',
+      status: 'active',
+    });
+
+  beforeEach(async () => {
+    db = new SQLiteDatabaseAdapter();
+    await applySqlFiles(db, MIGRATIONS_DIR);
+
+    maple = await property('Maple House');
+    oak = await property('Oak Court');
+    const maple101 = await unit(maple.id, '101', 1500, 'occupied');
+    await unit(maple.id, '102', 1600, 'available');
+    const oak1 = await unit(oak.id, '1', 2000, 'occupied');
+
+    const ada = await tenant('Ada');
+    const bea = await tenant('Bea');
+    const cleo = await tenant('Cleo');
+
+    // Ada's old lease on 101 still has arrears; Bea's lease is the current one
+    const oldLease = await createLease(db, SITE_ID, {
+      propertyId: maple.id,
+      unitId: maple101.id,
+      tenantId: ada.id,
+      startDate: '2025-01-01',
+      endDate: '2025-12-31',
+      monthlyRent: 1400,
+      securityDeposit: 1400,
+      status: 'expired',
+    });
+    const current = await createLease(db, SITE_ID, {
+      propertyId: maple.id,
+      unitId: maple101.id,
+      tenantId: bea.id,
+      startDate: '2026-01-01',
+      endDate: '2026-12-31',
+      monthlyRent: 1550,
+      securityDeposit: 1550,
+      status: 'active',
+    });
+    // Signed but not started yet, so not Oak 1's current lease
+    await createLease(db, SITE_ID, {
+      propertyId: oak.id,
+      unitId: oak1.id,
+      tenantId: cleo.id,
+      startDate: '2026-04-01',
+      endDate: '2027-03-31',
+      monthlyRent: 2100,
+      securityDeposit: 2100,
+      status: 'signed',
+    });
+
+    const entry = (leaseId: string, entryType: 'charge' | 'payment', amount: number, effectiveDate: string) =>
+      createLedgerEntry(db, SITE_ID, { leaseId, entryType, category: 'rent', amount, effectiveDate });
+    await entry(oldLease.id, 'charge', 1400, '2025-12-01');
+    await entry(oldLease.id, 'payment', 1000, '2025-12-05');
+    await entry(current.id, 'charge', 1550, '2026-03-01');
+    await entry(current.id, 'payment', 1550, '2026-03-02');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should join each unit to its current lease and tenant and sum the ledger over all its leases', async () => {
+    const { rows } = await getRentRoll(db, SITE_ID, AS_OF);
+
+    expect(rows.map((row) => `${row.propertyName} ${row.unitNumber}`)).toEqual([
+      'Maple House 101',
+      'Maple House 102',
+      'Oak Court 1',
+    ]);
+    expect(rows[0]).toMatchObject({
+      tenantName: 'Bea Tenant',
+      leaseStart: '2026-01-01',
+      leaseEnd: '2026-12-31',
+      leaseRent: 1550,
+      rentAmount: 1500,
+      squareFeet: 700,
+      collectedThisMonth: 1550,
+      balance: 400,
+    });
+    expect(rows[1].tenantId).toBeUndefined();
+    expect(rows[2]).toMatchObject({ tenantId: undefined, leaseId: undefined, balance: 0 });
+  });
+
+  it('should summarise the portfolio in one query', async () => {
+    expect(await getPortfolioSummary(db, SITE_ID, AS_OF)).toEqual({
+      asOf: AS_OF,
+      propertyCount: 2,
+      totalUnits: 3,
+      occupiedUnits: 2,
+      vacantUnits: 1,
+      totalRent: 3550, // Maple 101 at its lease rent, Oak 1 at its listed rent
+      potentialRent: 5100,
+      occupancyRate: (2 / 3) * 100,
+      activeTenants: 1,
+      collectedThisMonth: 1550,
+      totalOutstanding: 400,
+    });
+  });
+
+  it('should limit the report to the given properties', async () => {
+    const { rows, summary } = await getRentRoll(db, SITE_ID, AS_OF, [oak.id]);
+
+    expect(rows.map((row) => row.unitNumber)).toEqual(['1']);
+    expect(summary).toMatchObject({ propertyCount: 1, totalUnits: 1, activeTenants: 0, totalOutstanding: 0 });
+    expect((await getRentRoll(db, SITE_ID, AS_OF, [])).rows).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Rent roll and portfolio summary for the financial pages
+ *
+ * One row per unit with its property, current lease, tenant and ledger
+ * totals, all joined and aggregated in SQL so a report is one or two
+ * queries whatever the size of the portfolio.
+ */
+
+import type { Lease, PortfolioSummary, RentRoll, RentRollRow, UnitStatus } from '../../../../shared/types';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { roundCents } from './ledger';
+import { propertyScopeCondition } from './pagination';
+
+/**
+ * Lease statuses that make a lease a unit's current lease (once it has started)
+ */
+export const CURRENT_LEASE_STATUSES: Lease['status'][] = ['active', 'signed'];
+
+/**
+ * The rent roll rows as a SQL query with its params. A unit's balance and
+ * collections are summed over all of its leases; payments count towards
+ * collectedThisMonth when dated in the month of asOf.
+ */
+function buildRentRollQuery(
+  siteId: string,
+  asOf: string,
+  propertyIds: string[] | null
+): { sql: string; params: unknown[] } {
+  const statuses = CURRENT_LEASE_STATUSES.map(() => '?').join(', ');
+  let sql = `
+    SELECT
+      u.id as unit_id, u.unit_number, u.status, u.rent_amount, u.sqft,
+      p.id as property_id, p.name as property_name, p.address, p.city,
+      cl.id as lease_id, cl.start_date, cl.end_date, cl.monthly_rent,
+      t.id as tenant_id, t.first_name, t.last_name,
+      COALESCE(b.collected_this_month, 0) as collected_this_month,
+      COALESCE(b.balance, 0) as balance
+    FROM units u
+    JOIN properties p ON p.id = u.property_id AND p.site_id = u.site_id
+    LEFT JOIN leases cl ON cl.id = (
+      SELECT l.id FROM leases l
+      WHERE l.unit_id = u.id AND l.site_id = u.site_id
+        AND l.status IN (${statuses}) AND l.start_date <= ?
+      ORDER BY l.start_date DESC, l.id
+      LIMIT 1
+    )
+    LEFT JOIN tenants t ON t.id = cl.tenant_id AND t.site_id = cl.site_id
+    LEFT JOIN (
+      SELECT
+        l.unit_id,
+        SUM(CASE e.entry_type
+          WHEN 'charge' THEN ABS(e.amount)
+          WHEN 'adjustment' THEN e.amount
+          ELSE -ABS(e.amount)
+        END) as balance,
+        SUM(CASE WHEN e.entry_type = 'payment' AND substr(e.effective_date, 1, 7) = ? THEN ABS(e.amount) ELSE 0 END) as collected_this_month
+      FROM lease_ledger_entries e
+      JOIN leases l ON l.id = e.lease_id AND l.site_id = e.site_id
+      WHERE e.site_id = ? AND l.unit_id IS NOT NULL
+      GROUP BY l.unit_id
+    ) b ON b.unit_id = u.id
+    WHERE u.site_id = ?
+  `;
+  const params: unknown[] = [...CURRENT_LEASE_STATUSES, asOf, asOf.slice(0, 7), siteId, siteId];
+
+  const scope = propertyScopeCondition('u.property_id', propertyIds);
+  if (scope) {
+    sql += ` AND ${scope.sql}`;
+    params.push(...scope.params);
+  }
+
+  return { sql, params };
+}
+
+function mapRentRollRowFromDb(r: Record<string, unknown>): RentRollRow {
+  return {
+    unitId: r.unit_id as string,
+    unitNumber: r.unit_number as string,
+    propertyId: r.property_id as string,
+    propertyName: r.property_name as string,
+    propertyAddress: `${r.address}, ${r.city}`,
+    status: r.status as UnitStatus,
+    rentAmount: r.rent_amount as number,
+    squareFeet: (r.sqft as number) || undefined,
+    leaseId: (r.lease_id as string) || undefined,
+    leaseStart: (r.start_date as string) || undefined,
+    leaseEnd: (r.end_date as string) || undefined,
+    leaseRent: (r.monthly_rent as number) ?? undefined,
+    tenantId: (r.tenant_id as string) || undefined,
+    tenantName: r.tenant_id ? [r.first_name, r.last_name].filter(Boolean).join(' ') : undefined,
+    collectedThisMonth: roundCents(r.collected_this_month as number),
+    balance: roundCents(r.balance as number),
+  };
+}
+
+/**
+ * Portfolio totals as of a date. Occupancy follows the units' status; rent
+ * for occupied units is the current lease's rent, falling back to the unit's
+ * listed rent when it has no lease on record. Pass propertyIds to limit the
+ * summary to those properties (null = all).
+ */
+export async function getPortfolioSummary(
+  dbInput: DatabaseInput,
+  siteId: string,
+  asOf: string = new Date().toISOString().slice(0, 10),
+  propertyIds: string[] | null = null
+): Promise<PortfolioSummary> {
+  const db = normalizeDb(dbInput);
+  const rows = buildRentRollQuery(siteId, asOf, propertyIds);
+  const propertyScope = propertyScopeCondition('id', propertyIds);
+  const leaseScope = propertyScopeCondition('property_id', propertyIds);
+  const statuses = CURRENT_LEASE_STATUSES.map(() => '?').join(', ');
+
+  const r = await db.queryOne<Record<string, unknown>>(
+    `
+    SELECT
+      (SELECT COUNT(*) FROM properties
+       WHERE site_id = ?${propertyScope ? ` AND ${propertyScope.sql}` : ''}) as property_count,
+      (SELECT COUNT(DISTINCT tenant_id) FROM leases
+       WHERE site_id = ? AND status IN (${statuses}) AND start_date <= ?${leaseScope ? ` AND ${leaseScope.sql}` : ''}) as active_tenants,
+      COUNT(*) as total_units,
+      COALESCE(SUM(CASE WHEN r.status = 'occupied' THEN 1 ELSE 0 END), 0) as occupied_units,
+      COALESCE(SUM(CASE WHEN r.status = 'available' THEN 1 ELSE 0 END), 0) as vacant_units,
+      COALESCE(SUM(CASE WHEN r.status = 'occupied' THEN COALESCE(r.monthly_rent, r.rent_amount) ELSE 0 END), 0) as total_rent,
+      COALESCE(SUM(r.rent_amount), 0) as potential_rent,
+      COALESCE(SUM(r.collected_this_month), 0) as collected_this_month,
+      COALESCE(SUM(CASE WHEN r.balance > 0 THEN r.balance ELSE 0 END), 0) as total_outstanding
+    FROM (${rows.sql}) r
+  `,
+    [
+      siteId,
+      ...(propertyScope?.params ?? []),
+      siteId,
+      ...CURRENT_LEASE_STATUSES,
+      asOf,
+      ...(leaseScope?.params ?? []),
+      ...rows.params,
+    ]
+  );
+
+  const totalUnits = (r?.total_units as number) || 0;
+  const occupiedUnits = (r?.occupied_units as number) || 0;
+  return {
+    asOf,
+    propertyCount: (r?.property_count as number) || 0,
+    totalUnits,
+    occupiedUnits,
+    vacantUnits: (r?.vacant_units as number) || 0,
+    totalRent: roundCents((r?.total_rent as number) || 0),
+    potentialRent: roundCents((r?.potential_rent as number) || 0),
+    occupancyRate: totalUnits > 0 ? (occupiedUnits / totalUnits) * 100 : 0,
+    activeTenants: (r?.active_tenants as number) || 0,
+    collectedThisMonth: roundCents((r?.collected_this_month as number) || 0),
+    totalOutstanding: roundCents((r?.total_outstanding as number) || 0),
+  };
+}
+
+/**
+ * Every unit with its current lease, tenant and ledger totals, ordered by
+ * property and unit number, plus the portfolio summary
+ */
+export async function getRentRoll(
+  dbInput: DatabaseInput,
+  siteId: string,
+  asOf: string = new Date().toISOString().slice(0, 10),
+  propertyIds: string[] | null = null
+): Promise<RentRoll> {
+  const db = normalizeDb(dbInput);
+  const query = buildRentRollQuery(siteId, asOf, propertyIds);
+
+  const [rows, summary] = await Promise.all([
+    db.query<Record<string, unknown>>(`${query.sql} ORDER BY p.name, u.unit_number, u.id`, query.params),
+    getPortfolioSummary(db, siteId, asOf, propertyIds),
+  ]);
+
+  return { asOf, rows: rows.map(mapRentRollRowFromDb), summary };
+}
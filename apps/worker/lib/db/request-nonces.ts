@@ -0,0 +1,42 @@
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+
+// ==================== SIGNED REQUEST NONCES ====================
+
+/**
+ * Record the nonce of a signed ops request. Returns false when the nonce
+ * has been seen before, i.e. the request is a replay.
+ */
+export async function recordRequestNonce(
+    dbInput: DatabaseInput,
+    nonce: string,
+    keyId: string,
+    expiresAt: string
+): Promise<boolean> {
+    const db = normalizeDb(dbInput);
+
+    const { changes } = await db.execute(
+        `INSERT OR IGNORE INTO request_nonces (nonce, key_id, expires_at, created_at)
+         VALUES (?, ?, ?, ?)`,
+        [nonce, keyId, expiresAt, new Date().toISOString()]
+    );
+
+    return changes > 0;
+}
+
+/**
+ * Delete nonces whose requests are past the signature timestamp window
+ */
+export async function purgeExpiredRequestNonces(
+    dbInput: DatabaseInput,
+    now: Date = new Date()
+): Promise<number> {
+    const db = normalizeDb(dbInput);
+
+    const { changes } = await db.execute(
+        'DELETE FROM request_nonces WHERE expires_at < ?',
+        [now.toISOString()]
+    );
+
+    return changes;
+}
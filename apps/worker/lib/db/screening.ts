@@ -0,0 +1,152 @@
+import type { ScreeningResult } from '../../../../shared/types';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { generateId } from '../../../../shared/utils';
+
+// ==================== MAPPERS ====================
+
+function mapScreeningResultFromDb(row: unknown): ScreeningResult {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id as string,
+    leadId: r.lead_id as string,
+    applicantId: (r.applicant_id as string) || undefined,
+    provider: r.provider as string,
+    referenceId: r.reference_id as string,
+    status: r.status as ScreeningResult['status'],
+    creditScore: r.credit_score != null ? (r.credit_score as number) : undefined,
+    criminalCheck: (r.criminal_check as ScreeningResult['criminalCheck']) || undefined,
+    evictionHistory: (r.eviction_history as ScreeningResult['evictionHistory']) || undefined,
+    identityVerified: r.identity_verified != null ? Boolean(r.identity_verified) : undefined,
+    report: r.report_json ? JSON.parse(r.report_json as string) : undefined,
+    requestedAt: r.requested_at as string,
+    completedAt: (r.completed_at as string) || undefined,
+    updatedAt: r.updated_at as string,
+  };
+}
+
+// ==================== SCREENING RESULT OPERATIONS ====================
+
+/**
+ * All screening results for an application (newest first)
+ */
+export async function getScreeningResultsByLead(
+  dbInput: DatabaseInput,
+  siteId: string,
+  leadId: string
+): Promise<ScreeningResult[]> {
+  const db = normalizeDb(dbInput);
+  const results = await db.query(
+    'SELECT * FROM screening_results WHERE lead_id = ? AND site_id = ? ORDER BY requested_at DESC',
+    [leadId, siteId]
+  );
+  return results.map(mapScreeningResultFromDb);
+}
+
+/**
+ * Look up a result by the provider's reference ID.
+ * Not site-scoped: webhooks arrive without a site and are matched by reference.
+ */
+export async function getScreeningResultByReference(
+  dbInput: DatabaseInput,
+  provider: string,
+  referenceId: string
+): Promise<(ScreeningResult & { siteId: string }) | null> {
+  const db = normalizeDb(dbInput);
+  const result = await db.queryOne<Record<string, unknown>>(
+    'SELECT * FROM screening_results WHERE provider = ? AND reference_id = ?',
+    [provider, referenceId]
+  );
+  return result ? { ...mapScreeningResultFromDb(result), siteId: result.site_id as string } : null;
+}
+
+export async function createScreeningResult(
+  dbInput: DatabaseInput,
+  siteId: string,
+  data: Pick<ScreeningResult, 'leadId' | 'applicantId' | 'provider' | 'referenceId' | 'status'> & {
+    id?: string;
+    requestedBy?: string;
+  }
+): Promise<ScreeningResult> {
+  const db = normalizeDb(dbInput);
+  const id = data.id || generateId('screening');
+  const now = new Date().toISOString();
+
+  await db.execute(
+    `
+    INSERT INTO screening_results (
+      id, site_id, lead_id, applicant_id, provider, reference_id, status,
+      requested_by, requested_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+    [
+      id,
+      siteId,
+      data.leadId,
+      data.applicantId || null,
+      data.provider,
+      data.referenceId,
+      data.status,
+      data.requestedBy || null,
+      now,
+      now,
+    ]
+  );
+
+  const result = await db.queryOne('SELECT * FROM screening_results WHERE id = ?', [id]);
+  return mapScreeningResultFromDb(result);
+}
+
+export async function updateScreeningResult(
+  dbInput: DatabaseInput,
+  siteId: string,
+  id: string,
+  data: Partial<
+    Pick<
+      ScreeningResult,
+      'status' | 'creditScore' | 'criminalCheck' | 'evictionHistory' | 'identityVerified' | 'report' | 'completedAt'
+    >
+  >
+): Promise<void> {
+  const db = normalizeDb(dbInput);
+  const updates: string[] = [];
+  const params: (string | number | null)[] = [];
+
+  if (data.status !== undefined) {
+    updates.push('status = ?');
+    params.push(data.status);
+  }
+  if (data.creditScore !== undefined) {
+    updates.push('credit_score = ?');
+    params.push(data.creditScore);
+  }
+  if (data.criminalCheck !== undefined) {
+    updates.push('criminal_check = ?');
+    params.push(data.criminalCheck);
+  }
+  if (data.evictionHistory !== undefined) {
+    updates.push('eviction_history = ?');
+    params.push(data.evictionHistory);
+  }
+  if (data.identityVerified !== undefined) {
+    updates.push('identity_verified = ?');
+    params.push(data.identityVerified ? 1 : 0);
+  }
+  if (data.report !== undefined) {
+    updates.push('report_json = ?');
+    params.push(JSON.stringify(data.report));
+  }
+  if (data.completedAt !== undefined) {
+    updates.push('completed_at = ?');
+    params.push(data.completedAt || null);
+  }
+
+  if (updates.length === 0) return;
+
+  updates.push('updated_at = ?');
+  params.push(new Date().toISOString());
+  params.push(id, siteId);
+
+  await db.execute(`UPDATE screening_results SET ${updates.join(', ')} WHERE id = ? AND site_id = ?`, params);
+}
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for global search
+ * @vitest-environment node
+ *
+ * Runs against an in-memory SQLite database with the migrations applied, so
+ * the FTS5 index and the triggers that maintain it are the real ones.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'node:path';
+import { SQLiteDatabaseAdapter, applySqlFiles } from '../../../../shared/storage-sqlite/sqlite-database';
+import { searchSite, searchTerms } from './search';
+import { createProperty, updateProperty } from './properties';
+import { createUnit } from './units';
+import { createTenant, deleteTenant, updateTenant } from './tenants';
+import { createLease } from './leases';
+import { createWorkOrder } from './work-orders';
+import type { Property } from '../../../../shared/types';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../scripts/migrations');
+const SITE_ID = 'site_1';
+
+describe('searchTerms', () => {
+  it('should keep only words, so FTS operators in the input are ignored', () => {
+    expect(searchTerms('Chen "302" OR NEAR(*)')).toEqual(['chen', '302', 'or', 'near']);
+    expect(searchTerms('  -- ')).toEqual([]);
+  });
+});
+
+describe('searchSite', () => {
+  let db: SQLiteDatabaseAdapter;
+  let maple: Property;
+
+  const titles = async (query: string, options = {}) => {
+    const results = await searchSite(db, SITE_ID, query, options);
+    return Object.fromEntries(
+      Object.entries(results)
+        .filter(([, group]) => group.length > 0)
+        .map(([type, group]) => [type, group.map((result) => result.title)])
+    );
+  };
+
+  beforeEach(async () => {
+    db = new SQLiteDatabaseAdapter();
+    await applySqlFiles(db, MIGRATIONS_DIR);
+
+    maple = await createProperty(db, SITE_ID, {
+      name: 'Maple House',
+      address: '1 Main St',
+      city: 'Toronto',
+      province: 'ON',
+      postalCode: 'M1M 1M1',
+      propertyType: 'multi_family',
+    });
+    const unit302 = await createUnit(db, SITE_ID, {
+      propertyId: maple.id,
+      unitNumber: '302',
+      bedrooms: 2,
+      bathrooms: 1,
+      rentAmount: 2000,
+    });
+    await createUnit(db, SITE_ID, {
+      propertyId: maple.id,
+      unitNumber: '101',
+      bedrooms: 1,
+      bathrooms: 1,
+      rentAmount: 1500,
+    });
+
+    const tenant = (firstName: string, lastName: string) =>
+      createTenant(db, SITE_ID, {
+        firstName,
+        lastName,
+        email: `${firstName.toLowerCase()}@example.com`,
+        phone: '555-0100',
+        status: 'active',
+      });
+    const wei = await tenant('Wei', 'Chen');
+    await tenant('Lin', 'Chen');
+
+    await createLease(db, SITE_ID, {
+      propertyId: maple.id,
+      unitId: unit302.id,
+      tenantId: wei.id,
+      startDate: '2026-01-01',
+      endDate: '2026-12-31',
+      monthlyRent: 2000,
+      securityDeposit: 2000,
+      status: 'active',
+    });
+    await createWorkOrder(db, SITE_ID, {
+      propertyId: maple.id,
+      tenantId: wei.id,
+      title: 'Leaking kitchen faucet',
+      description: 'Drips overnight',
+      category: 'plumbing',
+      priority: 'medium',
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should find a tenant by name and the unit of their current lease', async () => {
+    expect(await titles('chen 302')).toEqual({ tenant: ['Wei Chen'] });
+    expect(await titles('Chen')).toEqual({
+      tenant: expect.arrayContaining(['Wei Chen', 'Lin Chen']),
+      work_order: ['Leaking kitchen faucet'],
+    });
+  });
+
+  it('should match word prefixes and group results by entity type', async () => {
+    const results = await searchSite(db, SITE_ID, 'mapl');
+
+    expect(results.property).toEqual([
+      {
+        entityType: 'property',
+        id: maple.id,
+        title: 'Maple House',
+        subtitle: '1 Main St, Toronto',
+        propertyId: maple.id,
+      },
+    ]);
+    expect(results.unit.map((unit) => unit.title).sort()).toEqual(['Unit 101', 'Unit 302']);
+    expect(results.tenant.map((tenant) => tenant.title)).toEqual(['Wei Chen']);
+  });
+
+  it('should keep the index up to date as records change', async () => {
+    const [wei] = (await searchSite(db, SITE_ID, 'wei')).tenant;
+
+    await updateTenant(db, SITE_ID, wei.id, { lastName: 'Zhang' });
+    expect(await titles('chen 302')).toEqual({});
+    expect(await titles('zhang')).toEqual({ tenant: ['Wei Zhang'], work_order: ['Leaking kitchen faucet'] });
+
+    await updateProperty(db, SITE_ID, maple.id, { name: 'Birch Place' });
+    expect(await titles('maple')).toEqual({});
+    expect((await titles('birch')).unit).toHaveLength(2);
+
+    const [lin] = (await searchSite(db, SITE_ID, 'lin')).tenant;
+    await deleteTenant(db, SITE_ID, lin.id);
+    expect(await titles('lin')).toEqual({});
+  });
+
+  it('should only return results for the site, the requested types and the caller\'s properties', async () => {
+    expect(await searchSite(db, 'site_2', 'chen')).toEqual({
+      property: [],
+      unit: [],
+      lead: [],
+      tenant: [],
+      work_order: [],
+    });
+    expect(await titles('chen', { types: ['work_order'] })).toEqual({ work_order: ['Leaking kitchen faucet'] });
+    expect(await titles('chen', { propertyIds: [] })).toEqual({});
+    expect(await titles('chen', { propertyIds: [maple.id] })).toEqual({
+      tenant: ['Wei Chen'],
+      work_order: ['Leaking kitchen faucet'],
+    });
+  });
+
+  it('should limit the number of results per entity type', async () => {
+    const results = await searchSite(db, SITE_ID, 'maple', { limit: 1 });
+    expect(results.property).toHaveLength(1);
+    expect(results.unit).toHaveLength(1);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Global search across a site's properties, units, applicants, tenants and
+ * work orders
+ *
+ * Reads the search_documents index that triggers on the source tables keep
+ * up to date (migration 0023): an FTS5 table on D1/SQLite, a tsvector column
+ * on PostgreSQL.
+ */
+
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { propertyScopeCondition } from './pagination';
+import type { SearchEntityType, SearchResult, SearchResults } from '../../../../shared/types';
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = ['property', 'unit', 'lead', 'tenant', 'work_order'];
+
+export const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_TERMS = 8;
+
+export interface SearchOptions {
+    /** Results per entity type */
+    limit?: number;
+    /** Entity types to search; defaults to all of them */
+    types?: SearchEntityType[];
+    /** Properties the caller may see; null or undefined for all of them */
+    propertyIds?: string[] | null;
+}
+
+/**
+ * Split a query into the words to match. Everything but letters and digits is
+ * dropped, so user input never reaches the FTS query syntax.
+ */
+export function searchTerms(query: string): string[] {
+    return (query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).slice(0, MAX_SEARCH_TERMS);
+}
+
+function emptyResults(): SearchResults {
+    return { property: [], unit: [], lead: [], tenant: [], work_order: [] };
+}
+
+/**
+ * Find records on the site matching every word of the query, each word as a
+ * prefix ("chen 30" finds Wei Chen in unit 302). Results are grouped by
+ * entity type, best matches first.
+ */
+export async function searchSite(
+    dbInput: DatabaseInput,
+    siteId: string,
+    query: string,
+    options: SearchOptions = {}
+): Promise<SearchResults> {
+    const db = normalizeDb(dbInput);
+    const results = emptyResults();
+    const terms = searchTerms(query);
+    const types = options.types ?? SEARCH_ENTITY_TYPES;
+    if (terms.length === 0 || types.length === 0) return results;
+
+    const isPostgres = db.dialect === 'postgresql';
+    const match = isPostgres
+        ? terms.map((term) => `${term}:*`).join(' & ')
+        : terms.map((term) => `"${term}"*`).join(' ');
+
+    // FTS5's bm25() is lower for better matches; title counts most, then subtitle
+    const params: unknown[] = [];
+    let sql = isPostgres
+        ? `SELECT d.entity_type, d.entity_id, d.title, d.subtitle, d.property_id,
+                ROW_NUMBER() OVER (
+                    PARTITION BY d.entity_type
+                    ORDER BY ts_rank(d.search_vector, to_tsquery('simple', ?)) DESC, d.title
+                ) as group_rank
+           FROM search_documents d
+           WHERE d.search_vector @@ to_tsquery('simple', ?)`
+        : `SELECT d.entity_type, d.entity_id, d.title, d.subtitle, d.property_id,
+                ROW_NUMBER() OVER (
+                    PARTITION BY d.entity_type
+                    ORDER BY bm25(search_index, 10.0, 5.0, 1.0), d.title
+                ) as group_rank
+           FROM search_index
+           JOIN search_documents d ON d.id = search_index.rowid
+           WHERE search_index MATCH ?`;
+    params.push(...(isPostgres ? [match, match] : [match]));
+
+    sql += ` AND d.site_id = ? AND d.entity_type IN (${types.map(() => '?').join(', ')})`;
+    params.push(siteId, ...types);
+
+    const scope = propertyScopeCondition('d.property_id', options.propertyIds);
+    if (scope) {
+        sql += ` AND ${scope.sql}`;
+        params.push(...scope.params);
+    }
+
+    const rows = await db.query<Record<string, unknown>>(
+        `SELECT * FROM (${sql}) ranked WHERE group_rank <= ? ORDER BY entity_type, group_rank`,
+        [...params, options.limit ?? DEFAULT_SEARCH_LIMIT]
+    );
+
+    for (const row of rows) {
+        const result: SearchResult = {
+            entityType: row.entity_type as SearchEntityType,
+            id: row.entity_id as string,
+            title: row.title as string,
+            subtitle: (row.subtitle as string) || undefined,
+            propertyId: (row.property_id as string) || undefined,
+        };
+        results[result.entityType].push(result);
+    }
+
+    return results;
+}
@@ -0,0 +1,101 @@
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { generateId, generateRandomToken, hashToken } from '../../../../shared/utils';
+import { API_TOKEN_SALT } from '../../../../shared/constants';
+
+export type PortalTokenKind = 'login' | 'session';
+
+export interface PortalTokenOwner {
+    siteId: string;
+    tenantId: string;
+}
+
+// ==================== TENANT PORTAL TOKENS ====================
+
+/**
+ * Issue a login link or session token for a tenant.
+ * Returns the raw token; only its hash is stored.
+ */
+export async function createPortalToken(
+    dbInput: DatabaseInput,
+    siteId: string,
+    tenantId: string,
+    kind: PortalTokenKind,
+    ttlSeconds: number
+): Promise<{ token: string; expiresAt: string }> {
+    const db = normalizeDb(dbInput);
+    const token = generateRandomToken(32);
+    const tokenHash = await hashToken(token, API_TOKEN_SALT);
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlSeconds * 1000).toISOString();
+
+    await db.execute(
+        `INSERT INTO tenant_portal_tokens (id, site_id, tenant_id, kind, token_hash, expires_at, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [generateId('ptok'), siteId, tenantId, kind, tokenHash, expiresAt, now.toISOString()]
+    );
+
+    return { token, expiresAt };
+}
+
+/**
+ * Redeem a login link. Succeeds once per token, and only before it expires.
+ */
+export async function consumePortalLoginToken(
+    dbInput: DatabaseInput,
+    siteId: string,
+    token: string
+): Promise<PortalTokenOwner | null> {
+    const db = normalizeDb(dbInput);
+    const tokenHash = await hashToken(token, API_TOKEN_SALT);
+    const now = new Date().toISOString();
+
+    // Conditional update so two concurrent redemptions can't both succeed
+    const { changes } = await db.execute(
+        `UPDATE tenant_portal_tokens SET used_at = ?
+         WHERE token_hash = ? AND site_id = ? AND kind = 'login' AND used_at IS NULL AND expires_at > ?`,
+        [now, tokenHash, siteId, now]
+    );
+    if (changes === 0) {
+        return null;
+    }
+
+    const row = await db.queryOne<{ site_id: string; tenant_id: string }>(
+        `SELECT site_id, tenant_id FROM tenant_portal_tokens WHERE token_hash = ?`,
+        [tokenHash]
+    );
+    return row ? { siteId: row.site_id, tenantId: row.tenant_id } : null;
+}
+
+/**
+ * Resolve a portal session token to its tenant, or null if unknown, revoked or expired
+ */
+export async function getPortalSession(dbInput: DatabaseInput, token: string): Promise<PortalTokenOwner | null> {
+    const db = normalizeDb(dbInput);
+    const tokenHash = await hashToken(token, API_TOKEN_SALT);
+    const now = new Date().toISOString();
+
+    const row = await db.queryOne<{ site_id: string; tenant_id: string }>(
+        `SELECT site_id, tenant_id FROM tenant_portal_tokens
+         WHERE token_hash = ? AND kind = 'session' AND used_at IS NULL AND expires_at > ?`,
+        [tokenHash, now]
+    );
+    if (!row) {
+        return null;
+    }
+
+    await db.execute(`UPDATE tenant_portal_tokens SET last_used_at = ? WHERE token_hash = ?`, [now, tokenHash]);
+    return { siteId: row.site_id, tenantId: row.tenant_id };
+}
+
+/**
+ * End a portal session (sign out). Session rows are marked used rather than deleted.
+ */
+export async function revokePortalSession(dbInput: DatabaseInput, token: string): Promise<void> {
+    const db = normalizeDb(dbInput);
+    const tokenHash = await hashToken(token, API_TOKEN_SALT);
+    await db.execute(
+        `UPDATE tenant_portal_tokens SET used_at = ? WHERE token_hash = ? AND kind = 'session' AND used_at IS NULL`,
+        [new Date().toISOString(), tokenHash]
+    );
+}
@@ -1,6 +1,16 @@
-import type { Tenant, Lease } from '../../../../shared/types';
+import type { Tenant, Lease, CursorPage } from '../../../../shared/types';
 import type { DatabaseInput } from './helpers';
 import { normalizeDb } from './helpers';
+import type { PageOptions, SortColumn } from './pagination';
+import {
+    applyCursor,
+    clampPageLimit,
+    propertyScopeCondition,
+    resolveSortKey,
+    searchCondition,
+    sortValueExpression,
+    toCursorPage,
+} from './pagination';
 import { generateId } from '../../../../shared/utils';
 
 // Mapper functions
@@ -82,17 +92,31 @@ function mapTenantWithLeaseFromDb(row: unknown): Tenant {
     return tenant;
 }
 
-export async function getTenants(dbInput: DatabaseInput, siteId: string, options?: {
+const ACTIVE_WORK_ORDER_COUNT_SQL =
+    "(SELECT COUNT(*) FROM work_orders WHERE tenant_id = t.id AND status IN ('open', 'in_progress', 'scheduled'))";
+
+// Sort keys accepted by the tenant list
+const TENANT_SORT_COLUMNS: Record<string, SortColumn> = {
+    createdAt: { expression: 't.created_at', nullValue: '' },
+    firstName: { expression: 't.first_name', nullValue: '' },
+    lastName: { expression: 't.last_name', nullValue: '' },
+    email: { expression: 't.email', nullValue: '' },
+    status: { expression: 't.status', nullValue: '' },
+    propertyName: { expression: 'p.name', nullValue: '' },
+    unitNumber: { expression: 'u.unit_number', nullValue: '' },
+    activeWorkOrderCount: { expression: ACTIVE_WORK_ORDER_COUNT_SQL, nullValue: 0 },
+};
+
+export interface TenantListOptions extends PageOptions {
     status?: string;
     propertyId?: string;
     unitId?: string;
-    sortBy?: string;
-    sortOrder?: 'asc' | 'desc';
-}): Promise<Tenant[]> {
-    const db = normalizeDb(dbInput);
-    const { status, propertyId, unitId, sortBy = 'created_at', sortOrder = 'desc' } = options || {};
+}
 
-    // Build query to join with current leases and count active work orders
+function buildTenantListQuery(siteId: string, options: TenantListOptions, sortColumn: SortColumn) {
+    const { status, propertyId, unitId, search, propertyIds } = options;
+
+    // Join with current leases and count active work orders
     let query = `
     SELECT
       t.*,
@@ -106,14 +130,15 @@ export async function getTenants(dbInput: DatabaseInput, siteId: string, options
       p.name as property_name,
       u.unit_number,
       u.name as unit_name,
-      (SELECT COUNT(*) FROM work_orders WHERE tenant_id = t.id AND status IN ('open', 'in_progress', 'scheduled')) as active_work_order_count
+      ${ACTIVE_WORK_ORDER_COUNT_SQL} as active_work_order_count,
+      ${sortValueExpression(sortColumn)} as sort_value
     FROM tenants t
     LEFT JOIN leases l ON t.id = l.tenant_id AND l.status IN ('active', 'signed')
     LEFT JOIN properties p ON l.property_id = p.id
     LEFT JOIN units u ON l.unit_id = u.id
     WHERE t.site_id = ?
   `;
-    const params: (string | number)[] = [siteId];
+    const params: unknown[] = [siteId];
 
     if (status) {
         query += ' AND t.status = ?';
@@ -130,34 +155,107 @@ export async function getTenants(dbInput: DatabaseInput, siteId: string, options
         params.push(unitId);
     }
 
-    // Map sort fields to database columns
-    let orderColumn: string;
-    if (sortBy === 'propertyName' || sortBy === 'property_name') {
-        orderColumn = 'p.name';
-    } else if (sortBy === 'unitNumber' || sortBy === 'unit_number') {
-        orderColumn = 'u.unit_number';
-    } else if (sortBy === 'activeWorkOrderCount' || sortBy === 'active_work_order_count') {
-        orderColumn = 'active_work_order_count';
-    } else {
-        orderColumn = `t.${sortBy.replace(/([A-Z])/g, '_$1').toLowerCase()}`;
+    const conditions = [
+        propertyScopeCondition('l.property_id', propertyIds),
+        searchCondition(['t.first_name', 't.last_name', "t.first_name || ' ' || t.last_name", 't.email', 't.phone'], search),
+    ];
+    for (const condition of conditions) {
+        if (condition) {
+            query += ` AND ${condition.sql}`;
+            params.push(...condition.params);
+        }
     }
-    query += ` ORDER BY ${orderColumn} ${sortOrder.toUpperCase()}`;
 
-    const results = await db.query(query, params);
+    return { query, params };
+}
+
+/**
+ * All tenants matching the filters, with their current lease
+ */
+export async function getTenants(dbInput: DatabaseInput, siteId: string, options: Omit<TenantListOptions, 'limit' | 'cursor'> = {}): Promise<Tenant[]> {
+    const db = normalizeDb(dbInput);
+    const sortBy = resolveSortKey(TENANT_SORT_COLUMNS, options.sortBy, 'createdAt');
+    const sortOrder = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const { query, params } = buildTenantListQuery(siteId, options, TENANT_SORT_COLUMNS[sortBy]);
+    const results = await db.query(`${query} ORDER BY sort_value ${sortOrder}, t.id ${sortOrder}`, params);
     return results.map(mapTenantWithLeaseFromDb);
 }
 
+/**
+ * One page of tenants; pass pagination.nextCursor back as cursor for the next
+ */
+export async function getTenantsPage(dbInput: DatabaseInput, siteId: string, options: TenantListOptions = {}): Promise<CursorPage<Tenant>> {
+    const db = normalizeDb(dbInput);
+    const sortBy = resolveSortKey(TENANT_SORT_COLUMNS, options.sortBy, 'createdAt');
+    const sortOrder = options.sortOrder ?? 'desc';
+    const limit = clampPageLimit(options.limit);
+
+    const base = buildTenantListQuery(siteId, options, TENANT_SORT_COLUMNS[sortBy]);
+    const { query, params } = applyCursor(base.query, base.params, {
+        sortBy,
+        column: TENANT_SORT_COLUMNS[sortBy],
+        sortOrder,
+        idColumn: 't.id',
+        limit,
+        cursor: options.cursor,
+    });
+
+    const rows = await db.query<Record<string, unknown>>(query, params);
+    return toCursorPage(rows, { sortBy, sortOrder, limit }, mapTenantWithLeaseFromDb);
+}
+
 export async function getTenantById(dbInput: DatabaseInput, siteId: string, id: string): Promise<Tenant | null> {
     const db = normalizeDb(dbInput);
     const result = await db.queryOne('SELECT * FROM tenants WHERE id = ? AND site_id = ?', [id, siteId]);
     return result ? mapTenantFromDb(result) : null;
 }
 
+/**
+ * Properties of a tenant's current (active or signed) leases, which is where
+ * the tenant list and property scopes place them
+ */
+export async function getTenantPropertyIds(dbInput: DatabaseInput, siteId: string, id: string): Promise<string[]> {
+    const db = normalizeDb(dbInput);
+    const rows = await db.query<{ property_id: string }>(
+        "SELECT DISTINCT property_id FROM leases WHERE tenant_id = ? AND site_id = ? AND status IN ('active', 'signed')",
+        [id, siteId]
+    );
+    return rows.map((r) => r.property_id);
+}
+
+/**
+ * Find a tenant by email (case-insensitive). If the same person has been a
+ * tenant more than once, the most recent record wins.
+ */
+export async function getTenantByEmail(dbInput: DatabaseInput, siteId: string, email: string): Promise<Tenant | null> {
+    const db = normalizeDb(dbInput);
+    const result = await db.queryOne(
+        'SELECT * FROM tenants WHERE site_id = ? AND LOWER(email) = LOWER(?) ORDER BY created_at DESC LIMIT 1',
+        [siteId, email.trim()]
+    );
+    return result ? mapTenantFromDb(result) : null;
+}
+
 export async function createTenant(
     dbInput: DatabaseInput,
     siteId: string,
     data: Omit<Tenant, 'id' | 'createdAt' | 'updatedAt'>
 ): Promise<Tenant> {
+    const db = normalizeDb(dbInput);
+    const id = await insertTenant(db, siteId, data);
+    return (await getTenantById(db, siteId, id))!;
+}
+
+/**
+ * Insert a tenant without reading it back, for use inside a transaction.
+ * Returns the new tenant's id.
+ */
+export async function insertTenant(
+    dbInput: DatabaseInput,
+    siteId: string,
+    data: Omit<Tenant, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<string> {
     const db = normalizeDb(dbInput);
     const id = generateId('tenant');
     const now = new Date().toISOString();
@@ -180,7 +278,7 @@ export async function createTenant(
         now
     ]);
 
-    return (await getTenantById(db, siteId, id))!;
+    return id;
 }
 
 export async function updateTenant(
@@ -2,6 +2,7 @@ import type { Unit, UnitHistory, UnitStatus, UnitEventType, Tenant } from '../..
 import { generateId } from '../../../../shared/utils';
 import type { DatabaseInput } from './helpers';
 import { normalizeDb } from './helpers';
+import { propertyScopeCondition } from './pagination';
 
 // Import related functions
 import { getPropertyById } from './properties';
@@ -45,6 +46,8 @@ function mapUnitHistoryFromDb(row: unknown): UnitHistory {
 
 export async function getUnits(dbInput: DatabaseInput, siteId: string, options?: {
     propertyId?: string;
+    // Units of any of these properties
+    propertyIds?: string[];
     status?: UnitStatus;
     isActive?: boolean;
 }): Promise<Unit[]> {
@@ -56,6 +59,11 @@ export async function getUnits(dbInput: DatabaseInput, siteId: string, options?:
         query += ' AND property_id = ?';
         params.push(options.propertyId);
     }
+    const scope = propertyScopeCondition('property_id', options?.propertyIds);
+    if (scope) {
+        query += ` AND ${scope.sql}`;
+        params.push(...scope.params);
+    }
     if (options?.status) {
         query += ' AND status = ?';
         params.push(options.status);
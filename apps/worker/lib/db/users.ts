@@ -1,6 +1,7 @@
-import type { User } from '../../../../shared/types';
+import type { User, UserAccess, UserPropertyAccess, UserRole } from '../../../../shared/types';
 import type { DatabaseInput } from './helpers';
 import { normalizeDb } from './helpers';
+import { normalizeUserRole, resolvePropertyScope } from '../../../../shared/utils';
 
 // Export user access type
 export interface AccessibleSite {
@@ -20,7 +21,7 @@ export async function getUserByEmail(dbInput: DatabaseInput, siteId: string, ema
         id: row.id as string,
         email: row.email as string,
         name: row.name as string,
-        role: row.role as User['role'],
+        role: normalizeUserRole(row.role as string),
         passwordHash: row.password_hash as string,
         siteId: row.site_id as string,
         isSuperAdmin: Boolean(row.is_super_admin),
@@ -40,7 +41,7 @@ export async function getUserById(dbInput: DatabaseInput, siteId: string, id: st
         id: row.id as string,
         email: row.email as string,
         name: row.name as string,
-        role: row.role as User['role'],
+        role: normalizeUserRole(row.role as string),
         passwordHash: row.password_hash as string,
         siteId: row.site_id as string,
         isSuperAdmin: Boolean(row.is_super_admin),
@@ -61,7 +62,7 @@ export async function getUsers(dbInput: DatabaseInput): Promise<User[]> {
         id: row.id as string,
         email: row.email as string,
         name: row.name as string,
-        role: row.role as User['role'],
+        role: normalizeUserRole(row.role as string),
         passwordHash: row.password_hash as string,
         siteId: row.site_id as string,
         isSuperAdmin: Boolean(row.is_super_admin),
@@ -238,32 +239,15 @@ export async function getUserAccessibleSites(
 }
 
 /**
- * Check if a user has access to a specific site
+ * Check if a user has access to a specific site: their own site, a granted
+ * site, or any site for super admins
  */
 export async function userHasAccessToSite(
     dbInput: DatabaseInput,
     userId: string,
     siteId: string
 ): Promise<boolean> {
-    const db = normalizeDb(dbInput);
-
-    // Check super admin status
-    const user = await db.queryOne<{ is_super_admin: number }>(
-        `SELECT is_super_admin FROM users WHERE id = ?`,
-        [userId]
-    );
-
-    if (user?.is_super_admin) {
-        return true;
-    }
-
-    // Check direct site access
-    const access = await db.queryOne(
-        `SELECT 1 FROM user_access WHERE user_id = ? AND site_id = ?`,
-        [userId, siteId]
-    );
-
-    return Boolean(access);
+    return (await getUserAccess(dbInput, userId, siteId)) !== null;
 }
 
 /**
@@ -273,7 +257,7 @@ export async function grantSiteAccess(
     dbInput: DatabaseInput,
     userId: string,
     siteId: string,
-    role: string = 'admin',
+    role: UserRole = 'viewer',
     grantedBy?: string
 ): Promise<void> {
     const db = normalizeDb(dbInput);
@@ -294,9 +278,9 @@ export async function grantSiteAccess(
         // Insert new access
         const id = `ua_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
         await db.execute(
-            `INSERT INTO user_access (id, user_id, site_id, role, granted_by, created_at, granted_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-            [id, userId, siteId, role, grantedBy || null, new Date().toISOString(), new Date().toISOString()]
+            `INSERT INTO user_access (id, user_id, site_id, role, granted_by, granted_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+            [id, userId, siteId, role, grantedBy || null, new Date().toISOString()]
         );
     }
 }
@@ -350,3 +334,115 @@ export async function setSuperAdminStatus(
         [isSuperAdmin ? 1 : 0, userId]
     );
 }
+
+// ==================== PROPERTY ACCESS ====================
+
+function mapUserPropertyAccessFromDb(row: Record<string, unknown>): UserPropertyAccess {
+    return {
+        id: row.id as string,
+        userId: row.user_id as string,
+        propertyId: row.property_id as string,
+        propertyName: (row.property_name as string) || undefined,
+        grantedBy: (row.granted_by as string) || undefined,
+        grantedAt: row.granted_at as string,
+    };
+}
+
+/**
+ * Properties a user has been granted on a site
+ */
+export async function getUserPropertyAccess(
+    dbInput: DatabaseInput,
+    siteId: string,
+    userId: string
+): Promise<UserPropertyAccess[]> {
+    const db = normalizeDb(dbInput);
+    const rows = await db.query<Record<string, unknown>>(
+        `SELECT upa.*, p.name as property_name
+     FROM user_property_access upa
+     LEFT JOIN properties p ON p.id = upa.property_id
+     WHERE upa.site_id = ? AND upa.user_id = ?
+     ORDER BY p.name ASC`,
+        [siteId, userId]
+    );
+    return rows.map(mapUserPropertyAccessFromDb);
+}
+
+/**
+ * Grant a user access to a property (no-op if already granted)
+ */
+export async function grantPropertyAccess(
+    dbInput: DatabaseInput,
+    siteId: string,
+    userId: string,
+    propertyId: string,
+    grantedBy?: string
+): Promise<void> {
+    const db = normalizeDb(dbInput);
+    const id = `upa_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
+    await db.execute(
+        `INSERT OR IGNORE INTO user_property_access (id, site_id, user_id, property_id, granted_by, granted_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+        [id, siteId, userId, propertyId, grantedBy || null, new Date().toISOString()]
+    );
+}
+
+export async function revokePropertyAccess(
+    dbInput: DatabaseInput,
+    siteId: string,
+    userId: string,
+    propertyId: string
+): Promise<void> {
+    const db = normalizeDb(dbInput);
+    await db.execute(
+        `DELETE FROM user_property_access WHERE site_id = ? AND user_id = ? AND property_id = ?`,
+        [siteId, userId, propertyId]
+    );
+}
+
+/**
+ * Resolve a user's role and property scope on a site. The role comes from
+ * the user record on their primary site and from user_access elsewhere.
+ * Returns null if the user doesn't exist or has no access to the site.
+ */
+export async function getUserAccess(
+    dbInput: DatabaseInput,
+    userId: string,
+    siteId: string
+): Promise<UserAccess | null> {
+    const db = normalizeDb(dbInput);
+
+    const user = await db.queryOne<{ role: string; site_id: string; is_super_admin: number }>(
+        `SELECT role, site_id, is_super_admin FROM users WHERE id = ?`,
+        [userId]
+    );
+    if (!user) return null;
+
+    const isSuperAdmin = Boolean(user.is_super_admin);
+    let role: UserRole;
+    if (isSuperAdmin) {
+        role = 'property_manager';
+    } else if (user.site_id === siteId) {
+        role = normalizeUserRole(user.role);
+    } else {
+        const access = await db.queryOne<{ role: string }>(
+            `SELECT role FROM user_access WHERE user_id = ? AND site_id = ?`,
+            [userId, siteId]
+        );
+        if (!access) return null;
+        role = normalizeUserRole(access.role);
+    }
+
+    const grants = await db.query<{ property_id: string }>(
+        `SELECT property_id FROM user_property_access WHERE site_id = ? AND user_id = ?`,
+        [siteId, userId]
+    );
+
+    return {
+        userId,
+        siteId,
+        role,
+        isSuperAdmin,
+        propertyIds: resolvePropertyScope(role, isSuperAdmin, grants.map((grant) => grant.property_id)),
+    };
+}
@@ -0,0 +1,80 @@
+import type { WorkOrderAttachment } from '../../../../shared/types';
+import type { DatabaseInput } from './helpers';
+import { normalizeDb } from './helpers';
+import { generateId } from '../../../../shared/utils';
+
+// ==================== MAPPERS ====================
+
+function mapWorkOrderAttachmentFromDb(row: unknown): WorkOrderAttachment {
+    const r = row as Record<string, unknown>;
+    return {
+        id: r.id as string,
+        workOrderId: r.work_order_id as string,
+        fileName: r.file_name as string,
+        fileSize: r.file_size as number,
+        mimeType: r.mime_type as string,
+        r2Key: r.r2_key as string,
+        uploadedByTenantId: (r.uploaded_by_tenant_id as string) || undefined,
+        uploadedByUserId: (r.uploaded_by_user_id as string) || undefined,
+        createdAt: r.created_at as string,
+    };
+}
+
+// ==================== WORK ORDER ATTACHMENTS ====================
+
+export async function getWorkOrderAttachments(
+    dbInput: DatabaseInput,
+    siteId: string,
+    workOrderId: string
+): Promise<WorkOrderAttachment[]> {
+    const db = normalizeDb(dbInput);
+    const results = await db.query(
+        `SELECT * FROM work_order_attachments WHERE work_order_id = ? AND site_id = ? ORDER BY created_at ASC`,
+        [workOrderId, siteId]
+    );
+    return results.map(mapWorkOrderAttachmentFromDb);
+}
+
+export async function getWorkOrderAttachmentById(
+    dbInput: DatabaseInput,
+    siteId: string,
+    id: string
+): Promise<WorkOrderAttachment | null> {
+    const db = normalizeDb(dbInput);
+    const row = await db.queryOne(`SELECT * FROM work_order_attachments WHERE id = ? AND site_id = ?`, [id, siteId]);
+    return row ? mapWorkOrderAttachmentFromDb(row) : null;
+}
+
+export async function createWorkOrderAttachment(
+    dbInput: DatabaseInput,
+    siteId: string,
+    data: Omit<WorkOrderAttachment, 'id' | 'createdAt'> & { id?: string }
+): Promise<WorkOrderAttachment> {
+    const db = normalizeDb(dbInput);
+    const id = data.id || generateId('woatt');
+    const now = new Date().toISOString();
+
+    await db.execute(
+        `INSERT INTO work_order_attachments (id, site_id, work_order_id, file_name, file_size, mime_type, r2_key, uploaded_by_tenant_id, uploaded_by_user_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            id,
+            siteId,
+            data.workOrderId,
+            data.fileName,
+            data.fileSize,
+            data.mimeType,
+            data.r2Key,
+            data.uploadedByTenantId || null,
+            data.uploadedByUserId || null,
+            now,
+        ]
+    );
+
+    return { ...data, id, createdAt: now };
+}
+
+export async function deleteWorkOrderAttachment(dbInput: DatabaseInput, siteId: string, id: string): Promise<void> {
+    const db = normalizeDb(dbInput);
+    await db.execute(`DELETE FROM work_order_attachments WHERE id = ? AND site_id = ?`, [id, siteId]);
+}
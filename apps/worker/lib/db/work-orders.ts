@@ -1,7 +1,17 @@
-import type { WorkOrder } from '../../../../shared/types';
+import type { WorkOrder, CursorPage } from '../../../../shared/types';
 import { generateId } from '../../../../shared/utils';
 import type { DatabaseInput } from './helpers';
 import { normalizeDb } from './helpers';
+import type { PageOptions, SortColumn } from './pagination';
+import {
+    applyCursor,
+    clampPageLimit,
+    propertyScopeCondition,
+    resolveSortKey,
+    searchCondition,
+    sortValueExpression,
+    toCursorPage,
+} from './pagination';
 
 // Extended type for work orders with property and unit info
 export type WorkOrderWithDetails = WorkOrder & {
@@ -42,18 +52,26 @@ function mapWorkOrderWithDetailsFromDb(row: unknown): WorkOrderWithDetails {
     };
 }
 
-export async function getWorkOrders(
-    dbInput: DatabaseInput,
-    siteId: string,
-    options?: {
-        status?: string;
-        propertyId?: string;
-        sortBy?: string;
-        sortOrder?: 'asc' | 'desc';
-    }
-): Promise<WorkOrderWithDetails[]> {
-    const db = normalizeDb(dbInput);
+// Sort keys accepted by the work order list
+const WORK_ORDER_SORT_COLUMNS: Record<string, SortColumn> = {
+    createdAt: { expression: 'wo.created_at', nullValue: '' },
+    title: { expression: 'wo.title', nullValue: '' },
+    category: { expression: 'wo.category', nullValue: '' },
+    priority: { expression: 'wo.priority', nullValue: '' },
+    status: { expression: 'wo.status', nullValue: '' },
+    scheduledDate: { expression: 'wo.scheduled_date', nullValue: '' },
+    propertyName: { expression: 'p.name', nullValue: '' },
+    unitNumber: { expression: 'u.unit_number', nullValue: '' },
+    tenantName: { expression: 't.last_name', nullValue: '' },
+};
 
+export interface WorkOrderListOptions extends PageOptions {
+    status?: string; // comma-separated for several, e.g. 'open,in_progress'
+    propertyId?: string;
+    tenantId?: string;
+}
+
+function buildWorkOrderListQuery(siteId: string, options: WorkOrderListOptions, sortColumn: SortColumn) {
     // Join with properties to get property name
     // Left join with leases to get unit info (if work order has a tenant)
     let query = `
@@ -61,7 +79,8 @@ export async function getWorkOrders(
             wo.*,
             p.name as property_name,
             u.unit_number as unit_number,
-            (t.first_name || ' ' || t.last_name) as tenant_name
+            (t.first_name || ' ' || t.last_name) as tenant_name,
+            ${sortValueExpression(sortColumn)} as sort_value
         FROM work_orders wo
         INNER JOIN properties p ON wo.property_id = p.id
         LEFT JOIN tenants t ON wo.tenant_id = t.id
@@ -69,9 +88,9 @@ export async function getWorkOrders(
         LEFT JOIN units u ON l.unit_id = u.id
         WHERE wo.site_id = ?
     `;
-    const params: string[] = [siteId];
+    const params: unknown[] = [siteId];
 
-    if (options?.status) {
+    if (options.status) {
         // Support comma-separated status values (e.g., 'open,in_progress')
         const statuses = options.status.split(',').map(s => s.trim());
         if (statuses.length === 1) {
@@ -83,38 +102,70 @@ export async function getWorkOrders(
             params.push(...statuses);
         }
     }
-    if (options?.propertyId) {
+    if (options.propertyId) {
         query += ' AND wo.property_id = ?';
         params.push(options.propertyId);
     }
+    if (options.tenantId) {
+        query += ' AND wo.tenant_id = ?';
+        params.push(options.tenantId);
+    }
 
-    // Add sorting
-    const sortBy = options?.sortBy || 'created_at';
-    const sortOrder = options?.sortOrder || 'desc';
-
-    // Map frontend sort fields to database columns
-    const sortFieldMap: Record<string, string> = {
-        'title': 'wo.title',
-        'category': 'wo.category',
-        'priority': 'wo.priority',
-        'status': 'wo.status',
-        'createdAt': 'wo.created_at',
-        'created_at': 'wo.created_at',
-        'propertyName': 'p.name',
-        'property_name': 'p.name',
-        'unitNumber': 'u.unit_number',
-        'unit_number': 'u.unit_number',
-        'tenantName': 't.last_name',
-        'tenant_name': 't.last_name',
-    };
+    const conditions = [
+        propertyScopeCondition('wo.property_id', options.propertyIds),
+        searchCondition(['wo.title', 'wo.description', 'p.name', "t.first_name || ' ' || t.last_name"], options.search),
+    ];
+    for (const condition of conditions) {
+        if (condition) {
+            query += ` AND ${condition.sql}`;
+            params.push(...condition.params);
+        }
+    }
 
-    const dbSortField = sortFieldMap[sortBy] || 'wo.created_at';
-    query += ` ORDER BY ${dbSortField} ${sortOrder.toUpperCase()}`;
+    return { query, params };
+}
+
+export async function getWorkOrders(
+    dbInput: DatabaseInput,
+    siteId: string,
+    options: Omit<WorkOrderListOptions, 'limit' | 'cursor'> = {}
+): Promise<WorkOrderWithDetails[]> {
+    const db = normalizeDb(dbInput);
+    const sortBy = resolveSortKey(WORK_ORDER_SORT_COLUMNS, options.sortBy, 'createdAt');
+    const sortOrder = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
 
-    const results = await db.query(query, params);
+    const { query, params } = buildWorkOrderListQuery(siteId, options, WORK_ORDER_SORT_COLUMNS[sortBy]);
+    const results = await db.query(`${query} ORDER BY sort_value ${sortOrder}, wo.id ${sortOrder}`, params);
     return results.map(mapWorkOrderWithDetailsFromDb);
 }
 
+/**
+ * One page of work orders; pass pagination.nextCursor back as cursor for the next
+ */
+export async function getWorkOrdersPage(
+    dbInput: DatabaseInput,
+    siteId: string,
+    options: WorkOrderListOptions = {}
+): Promise<CursorPage<WorkOrderWithDetails>> {
+    const db = normalizeDb(dbInput);
+    const sortBy = resolveSortKey(WORK_ORDER_SORT_COLUMNS, options.sortBy, 'createdAt');
+    const sortOrder = options.sortOrder ?? 'desc';
+    const limit = clampPageLimit(options.limit);
+
+    const base = buildWorkOrderListQuery(siteId, options, WORK_ORDER_SORT_COLUMNS[sortBy]);
+    const { query, params } = applyCursor(base.query, base.params, {
+        sortBy,
+        column: WORK_ORDER_SORT_COLUMNS[sortBy],
+        sortOrder,
+        idColumn: 'wo.id',
+        limit,
+        cursor: options.cursor,
+    });
+
+    const rows = await db.query<Record<string, unknown>>(query, params);
+    return toCursorPage(rows, { sortBy, sortOrder, limit }, mapWorkOrderWithDetailsFromDb);
+}
+
 export async function getWorkOrderById(dbInput: DatabaseInput, siteId: string, id: string): Promise<WorkOrder | null> {
     const db = normalizeDb(dbInput);
     const result = await db.queryOne('SELECT * FROM work_orders WHERE id = ? AND site_id = ?', [id, siteId]);
@@ -0,0 +1,89 @@
+/**
+ * Compose and queue an email about an application, tenant or work order
+ */
+
+import type { Communication, CommunicationEntityType } from '../../../../shared/types';
+import type { CloudflareEnv } from '../../../../shared/config';
+import { EMAIL_TEMPLATES, isEmailTemplateKey, renderEmail } from '../../../../shared/utils';
+import { getEmailContext, getRecipientVariables } from './context';
+import { dispatchCommunication, queueEmail } from './sender';
+import type { EmailProviderEnv } from './provider';
+
+export interface SendEntityEmailRequest {
+  entityType: CommunicationEntityType;
+  entityId: string;
+  /** Built-in template; otherwise subject and body are used as the template */
+  templateKey?: string;
+  subject?: string;
+  body?: string;
+  /** Restrict to these recipients (defaults to everyone on the entity) */
+  recipientEmails?: string[];
+  /** Deduplicates retried requests; suffixed per recipient */
+  idempotencyKey?: string;
+  createdBy?: string;
+}
+
+export type SendEntityEmailResult =
+  | { ok: true; communications: Communication[] }
+  | { ok: false; reason: 'not_found' | 'invalid'; message: string };
+
+/**
+ * Render the email for every recipient, queue it and dispatch it.
+ * Nothing is queued unless every recipient's email renders completely.
+ */
+export async function sendEntityEmail(
+  env: Pick<CloudflareEnv, 'DB' | 'EMAIL_QUEUE'> & EmailProviderEnv,
+  siteId: string,
+  request: SendEntityEmailRequest
+): Promise<SendEntityEmailResult> {
+  let template: { subject: string; body: string };
+  if (request.templateKey) {
+    if (!isEmailTemplateKey(request.templateKey) || EMAIL_TEMPLATES[request.templateKey].entityType !== request.entityType) {
+      return { ok: false, reason: 'invalid', message: `Unknown template '${request.templateKey}'` };
+    }
+    template = EMAIL_TEMPLATES[request.templateKey];
+  } else if (request.subject && request.body) {
+    template = { subject: request.subject, body: request.body };
+  } else {
+    return { ok: false, reason: 'invalid', message: 'A template or a subject and body are required' };
+  }
+
+  const context = await getEmailContext(env.DB, siteId, request.entityType, request.entityId);
+  if (!context) {
+    return { ok: false, reason: 'not_found', message: 'Recipient record not found' };
+  }
+
+  const wanted = request.recipientEmails?.map((email) => email.toLowerCase());
+  const recipients = context.recipients.filter(
+    (recipient) => !wanted || wanted.includes(recipient.email.toLowerCase())
+  );
+  if (recipients.length === 0) {
+    return { ok: false, reason: 'invalid', message: 'No recipients with an email address' };
+  }
+
+  const rendered = recipients.map((recipient) => ({
+    recipient,
+    ...renderEmail(template, getRecipientVariables(context, recipient)),
+  }));
+  const missing = [...new Set(rendered.flatMap((email) => email.missingVariables))];
+  if (missing.length > 0) {
+    return { ok: false, reason: 'invalid', message: `Missing template variables: ${missing.join(', ')}` };
+  }
+
+  const communications: Communication[] = [];
+  for (const email of rendered) {
+    const { communication } = await queueEmail(env.DB, siteId, {
+      entityType: request.entityType,
+      entityId: request.entityId,
+      to: { email: email.recipient.email, name: email.recipient.name },
+      subject: email.subject,
+      body: email.body,
+      templateKey: request.templateKey,
+      idempotencyKey: request.idempotencyKey ? `${request.idempotencyKey}:${email.recipient.email}` : undefined,
+      createdBy: request.createdBy,
+    });
+    communications.push(await dispatchCommunication(env, siteId, communication));
+  }
+
+  return { ok: true, communications };
+}
@@ -0,0 +1,130 @@
+/**
+ * Template context per entity
+ *
+ * Resolves who an application, tenant or work order email goes to and the
+ * template variables (property, unit, rent, dates) for it.
+ */
+
+import type { CommunicationEntityType, Property, Unit } from '../../../../shared/types';
+import type { TemplateVariables } from '../../../../shared/utils';
+import { formatCurrency, formatDate } from '../../../../shared/utils';
+import type { DatabaseInput } from '../db/helpers';
+import { getLeadById } from '../db/leads';
+import { getApplicantsByApplicationId } from '../db/application-applicants';
+import { getTenantById } from '../db/tenants';
+import { getLeases } from '../db/leases';
+import { getWorkOrderById } from '../db/work-orders';
+import { getPropertyById } from '../db/properties';
+import { getUnitById } from '../db/units';
+
+export interface EmailRecipient {
+  email: string;
+  name: string;
+  firstName: string;
+}
+
+export interface EmailContext {
+  recipients: EmailRecipient[];
+  variables: TemplateVariables;
+}
+
+function propertyVariables(property: Property | null, unit: Unit | null): TemplateVariables {
+  return {
+    propertyName: property?.name,
+    propertyAddress: property ? `${property.address}, ${property.city}` : undefined,
+    unitNumber: unit?.unitNumber,
+  };
+}
+
+function longDate(date?: string): string | undefined {
+  return date ? formatDate(date, 'long') : undefined;
+}
+
+/**
+ * Variables for a single recipient (adds their name to the entity variables)
+ */
+export function getRecipientVariables(context: EmailContext, recipient: EmailRecipient): TemplateVariables {
+  return { ...context.variables, recipientName: recipient.name, firstName: recipient.firstName };
+}
+
+/**
+ * Build recipients and template variables for an entity
+ * @returns null if the entity does not exist in this site
+ */
+export async function getEmailContext(
+  db: DatabaseInput,
+  siteId: string,
+  entityType: CommunicationEntityType,
+  entityId: string
+): Promise<EmailContext | null> {
+  const today = formatDate(new Date(), 'long');
+
+  if (entityType === 'application') {
+    const lead = await getLeadById(db, siteId, entityId);
+    if (!lead) return null;
+
+    const property = await getPropertyById(db, siteId, lead.propertyId);
+    const unit = lead.unitId ? await getUnitById(db, siteId, lead.unitId) : null;
+    const applicants = await getApplicantsByApplicationId(db, entityId);
+    const recipients: EmailRecipient[] = applicants.length
+      ? applicants
+          .filter((applicant) => applicant.email)
+          .map((applicant) => ({
+            email: applicant.email,
+            name: `${applicant.firstName} ${applicant.lastName}`,
+            firstName: applicant.firstName,
+          }))
+      : [{ email: lead.email, name: `${lead.firstName} ${lead.lastName}`, firstName: lead.firstName }];
+
+    return {
+      recipients,
+      variables: {
+        ...propertyVariables(property, unit),
+        monthlyRent: unit ? formatCurrency(unit.rentAmount) : undefined,
+        moveInDate: longDate(lead.moveInDate),
+        today,
+      },
+    };
+  }
+
+  if (entityType === 'tenant') {
+    const tenant = await getTenantById(db, siteId, entityId);
+    if (!tenant) return null;
+
+    const leases = await getLeases(db, siteId, { tenantId: entityId });
+    const lease =
+      leases.find((candidate) => candidate.status === 'active' || candidate.status === 'signed') || leases[0];
+    const property = lease ? await getPropertyById(db, siteId, lease.propertyId) : null;
+    const unit = lease?.unitId ? await getUnitById(db, siteId, lease.unitId) : null;
+
+    return {
+      recipients: [{ email: tenant.email, name: `${tenant.firstName} ${tenant.lastName}`, firstName: tenant.firstName }],
+      variables: {
+        ...propertyVariables(property, unit),
+        monthlyRent: lease ? formatCurrency(lease.monthlyRent) : undefined,
+        leaseStartDate: longDate(lease?.startDate),
+        leaseEndDate: longDate(lease?.endDate),
+        today,
+      },
+    };
+  }
+
+  const workOrder = await getWorkOrderById(db, siteId, entityId);
+  if (!workOrder) return null;
+
+  const property = await getPropertyById(db, siteId, workOrder.propertyId);
+  const tenant = workOrder.tenantId ? await getTenantById(db, siteId, workOrder.tenantId) : null;
+
+  return {
+    recipients: tenant
+      ? [{ email: tenant.email, name: `${tenant.firstName} ${tenant.lastName}`, firstName: tenant.firstName }]
+      : [],
+    variables: {
+      ...propertyVariables(property, null),
+      workOrderTitle: workOrder.title,
+      workOrderStatus: workOrder.status.replace(/_/g, ' '),
+      scheduledDate: longDate(workOrder.scheduledDate),
+      today,
+    },
+  };
+}
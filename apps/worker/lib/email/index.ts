@@ -0,0 +1,22 @@
+/**
+ * Outbound email
+ *
+ * Importing this module registers the built-in providers. Select one with
+ * the EMAIL_PROVIDER env var: 'resend' sends email, 'memory' only logs it
+ * (local development and tests). It has no default.
+ */
+
+import { registerEmailProvider } from './provider';
+import { InMemoryEmailProvider } from './memory';
+import { ResendEmailProvider } from './resend';
+
+registerEmailProvider('memory', (config) => new InMemoryEmailProvider(config));
+registerEmailProvider('resend', (config) => new ResendEmailProvider(config));
+
+export * from './provider';
+export { InMemoryEmailProvider } from './memory';
+export type { SentEmail } from './memory';
+export { ResendEmailProvider } from './resend';
+export * from './sender';
+export * from './context';
+export * from './compose';
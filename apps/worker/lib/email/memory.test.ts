@@ -0,0 +1,62 @@
+/**
+ * Unit tests for the in-memory email provider
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InMemoryEmailProvider, EmailDeliveryError, createEmailProvider, getEmailProvider } from './index';
+
+const message = {
+  to: { email: 'tina@example.com', name: 'Tina Tenant' },
+  subject: 'Hello',
+  text: 'Hi Tina',
+};
+
+describe('InMemoryEmailProvider', () => {
+  it('should record sent messages with the configured from address', async () => {
+    const provider = new InMemoryEmailProvider({ fromAddress: 'Ops <ops@example.com>' });
+    const { messageId } = await provider.send(message);
+
+    expect(messageId).toMatch(/^msg_/);
+    expect(provider.sent).toHaveLength(1);
+    expect(provider.sent[0].from).toBe('Ops <ops@example.com>');
+    expect(provider.sent[0].to.email).toBe('tina@example.com');
+  });
+
+  it('should not resend a repeated idempotency key', async () => {
+    const provider = new InMemoryEmailProvider();
+    const first = await provider.send({ ...message, idempotencyKey: 'key_1' });
+    const second = await provider.send({ ...message, idempotencyKey: 'key_1' });
+
+    expect(second.messageId).toBe(first.messageId);
+    expect(provider.sent).toHaveLength(1);
+  });
+
+  it('should fail permanently for invalid addresses', async () => {
+    const provider = new InMemoryEmailProvider();
+    const error = await provider.send({ ...message, to: { email: 'not-an-email' } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(EmailDeliveryError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should inject retryable failures with failNext', async () => {
+    const provider = new InMemoryEmailProvider();
+    provider.failNext();
+
+    const error = await provider.send(message).catch((e) => e);
+    expect(error).toBeInstanceOf(EmailDeliveryError);
+    expect(error.retryable).toBe(true);
+    await expect(provider.send(message)).resolves.toBeDefined();
+  });
+});
+
+describe('Email provider registry', () => {
+  it('should refuse to pick a provider when EMAIL_PROVIDER is unset', () => {
+    expect(() => getEmailProvider({})).toThrow('EMAIL_PROVIDER is not set');
+    expect(getEmailProvider({ EMAIL_PROVIDER: 'memory' }).name).toBe('memory');
+  });
+
+  it('should list available providers for an unknown name', () => {
+    expect(() => createEmailProvider({ provider: 'postmark' })).toThrow('Available providers: memory, resend');
+  });
+});
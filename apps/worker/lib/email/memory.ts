@@ -0,0 +1,68 @@
+import { generateId, isValidEmail } from '../../../../shared/utils';
+import type { EmailConfig, EmailMessage, EmailSendResult, IEmailProvider } from './provider';
+import { EmailDeliveryError } from './provider';
+
+const DEFAULT_FROM_ADDRESS = 'LeaseLab <no-reply@leaselab.local>';
+
+export interface SentEmail extends EmailMessage {
+  messageId: string;
+  from: string;
+  sentAt: string;
+}
+
+/**
+ * Local email provider for development and tests.
+ *
+ * Nothing leaves the worker: messages are kept in memory for the lifetime
+ * of the instance and logged to the console. Invalid recipient addresses
+ * fail permanently; failNext() injects transient failures for retry tests.
+ */
+export class InMemoryEmailProvider implements IEmailProvider {
+  readonly name = 'memory';
+  readonly sent: SentEmail[] = [];
+  private fromAddress: string;
+  private pendingFailures = 0;
+  private seenIdempotencyKeys = new Map<string, string>();
+
+  constructor(config: Partial<EmailConfig> = {}) {
+    this.fromAddress = config.fromAddress || DEFAULT_FROM_ADDRESS;
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    if (!isValidEmail(message.to.email)) {
+      throw new EmailDeliveryError(`Invalid recipient address: ${message.to.email}`, false);
+    }
+
+    if (this.pendingFailures > 0) {
+      this.pendingFailures--;
+      throw new EmailDeliveryError('Simulated transient failure');
+    }
+
+    // Like hosted providers, accept a repeated idempotency key without resending
+    if (message.idempotencyKey && this.seenIdempotencyKeys.has(message.idempotencyKey)) {
+      return { messageId: this.seenIdempotencyKeys.get(message.idempotencyKey)! };
+    }
+
+    const sent: SentEmail = {
+      ...message,
+      from: message.from || this.fromAddress,
+      messageId: generateId('msg'),
+      sentAt: new Date().toISOString(),
+    };
+    this.sent.push(sent);
+    if (message.idempotencyKey) {
+      this.seenIdempotencyKeys.set(message.idempotencyKey, sent.messageId);
+    }
+
+    console.log(`[email:memory] ${sent.from} -> ${message.to.email}: ${message.subject}`);
+
+    return { messageId: sent.messageId };
+  }
+
+  /**
+   * Fail the next `count` sends with a retryable error
+   */
+  failNext(count = 1): void {
+    this.pendingFailures += count;
+  }
+}
@@ -0,0 +1,109 @@
+import type { CloudflareEnv } from '../../../../shared/config';
+
+/**
+ * Outbound email message
+ */
+export interface EmailMessage {
+  to: { email: string; name?: string };
+  from?: string;
+  subject: string;
+  text: string;
+  /** Passed through to providers that deduplicate on their side */
+  idempotencyKey?: string;
+}
+
+/**
+ * Result of a successful send
+ */
+export interface EmailSendResult {
+  messageId: string;
+}
+
+/**
+ * Raised by providers for failed sends.
+ * retryable=false marks permanent failures (invalid address, rejected
+ * content) that the sender should not retry.
+ */
+export class EmailDeliveryError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean = true
+  ) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+  }
+}
+
+/**
+ * Email provider interface
+ * Implementations wrap a vendor API (Postmark, Resend, SES, ...) or the
+ * in-memory provider used for local development and tests
+ */
+export interface IEmailProvider {
+  readonly name: string;
+
+  /**
+   * Send a single message
+   * @throws EmailDeliveryError (or any Error, treated as retryable)
+   */
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/**
+ * Provider configuration
+ */
+export interface EmailConfig {
+  provider: string;
+  fromAddress?: string;
+  apiKey?: string;
+}
+
+/**
+ * The worker settings a provider is created from
+ */
+export type EmailProviderEnv = Pick<CloudflareEnv, 'EMAIL_PROVIDER' | 'EMAIL_FROM' | 'EMAIL_API_KEY'>;
+
+export type EmailProviderFactory = (config: EmailConfig) => IEmailProvider;
+
+const providers = new Map<string, EmailProviderFactory>();
+
+/**
+ * Register an email provider implementation
+ * @param name - Provider name (e.g., 'memory', 'postmark', 'resend')
+ * @param factory - Factory function to create the provider instance
+ */
+export function registerEmailProvider(name: string, factory: EmailProviderFactory): void {
+  providers.set(name, factory);
+}
+
+/**
+ * Create an email provider from configuration
+ * @throws Error if provider is not registered
+ */
+export function createEmailProvider(config: EmailConfig): IEmailProvider {
+  const factory = providers.get(config.provider);
+  if (!factory) {
+    throw new Error(
+      `Email provider '${config.provider}' not registered. ` +
+        `Available providers: ${Array.from(providers.keys()).join(', ') || 'none'}`
+    );
+  }
+  return factory(config);
+}
+
+/**
+ * Create the provider configured for this worker (EMAIL_PROVIDER)
+ * @throws Error if EMAIL_PROVIDER is not set, so email is never dropped silently
+ */
+export function getEmailProvider(env: EmailProviderEnv): IEmailProvider {
+  if (!env.EMAIL_PROVIDER) {
+    throw new Error(
+      "EMAIL_PROVIDER is not set. Use 'resend' to send email, or 'memory' for local development and tests"
+    );
+  }
+  return createEmailProvider({
+    provider: env.EMAIL_PROVIDER,
+    fromAddress: env.EMAIL_FROM,
+    apiKey: env.EMAIL_API_KEY,
+  });
+}
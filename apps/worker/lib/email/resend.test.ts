@@ -0,0 +1,74 @@
+/**
+ * Unit tests for the Resend email provider
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { EmailDeliveryError, getEmailProvider } from './index';
+import { ResendEmailProvider } from './resend';
+
+const message = {
+  to: { email: 'tina@example.com', name: 'Tina Tenant' },
+  subject: 'Hello',
+  text: 'Hi Tina',
+  idempotencyKey: 'comm_1',
+};
+
+const config = { apiKey: 're_test', fromAddress: 'LeaseLab <no-reply@example.com>' };
+
+function respondWith(status: number, body: unknown) {
+  const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('ResendEmailProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the message with the API key and idempotency key', async () => {
+    const fetchMock = respondWith(200, { id: 'resend_1' });
+
+    const result = await new ResendEmailProvider(config).send(message);
+
+    expect(result).toEqual({ messageId: 'resend_1' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.resend.com/emails');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer re_test', 'Idempotency-Key': 'comm_1' });
+    expect(JSON.parse(init.body)).toEqual({
+      from: 'LeaseLab <no-reply@example.com>',
+      to: ['"Tina Tenant" <tina@example.com>'],
+      subject: 'Hello',
+      text: 'Hi Tina',
+    });
+  });
+
+  it('should retry rate limits and server errors but not rejected messages', async () => {
+    const provider = new ResendEmailProvider(config);
+
+    respondWith(429, { message: 'Too many requests' });
+    const rateLimited = await provider.send(message).catch((e) => e);
+    expect(rateLimited).toBeInstanceOf(EmailDeliveryError);
+    expect(rateLimited.retryable).toBe(true);
+
+    respondWith(503, {});
+    expect((await provider.send(message).catch((e) => e)).retryable).toBe(true);
+
+    respondWith(422, { message: 'Invalid `to` field' });
+    const rejected = await provider.send(message).catch((e) => e);
+    expect(rejected.message).toBe('Resend error 422: Invalid `to` field');
+    expect(rejected.retryable).toBe(false);
+  });
+
+  it('should refuse to start without an API key or from address', () => {
+    expect(() => getEmailProvider({ EMAIL_PROVIDER: 'resend', EMAIL_FROM: config.fromAddress })).toThrow(
+      'EMAIL_API_KEY is not set'
+    );
+    expect(() => getEmailProvider({ EMAIL_PROVIDER: 'resend', EMAIL_API_KEY: 're_test' })).toThrow(
+      'EMAIL_FROM is not set'
+    );
+    expect(
+      getEmailProvider({ EMAIL_PROVIDER: 'resend', EMAIL_API_KEY: 're_test', EMAIL_FROM: config.fromAddress }).name
+    ).toBe('resend');
+  });
+});
@@ -0,0 +1,69 @@
+import type { EmailConfig, EmailMessage, EmailSendResult, IEmailProvider } from './provider';
+import { EmailDeliveryError } from './provider';
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+// Timeouts, idempotency conflicts with an in-flight send, rate limits and
+// server errors can succeed on a later attempt; other 4xx responses won't
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Email provider for Resend (https://resend.com), called over its HTTP API.
+ *
+ * Needs an API key (EMAIL_API_KEY) and a from address on a domain verified
+ * with Resend (EMAIL_FROM); construction fails without them so a
+ * misconfigured worker doesn't quietly drop email.
+ */
+export class ResendEmailProvider implements IEmailProvider {
+  readonly name = 'resend';
+  private apiKey: string;
+  private fromAddress: string;
+
+  constructor(config: Partial<EmailConfig> = {}) {
+    if (!config.apiKey) {
+      throw new Error('EMAIL_API_KEY is not set. Set it with `wrangler secret put EMAIL_API_KEY`');
+    }
+    if (!config.fromAddress) {
+      throw new Error('EMAIL_FROM is not set. Resend needs a from address on a verified domain');
+    }
+    this.apiKey = config.apiKey;
+    this.fromAddress = config.fromAddress;
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.apiKey}`,
+      'Content-Type': 'application/json',
+    };
+    if (message.idempotencyKey) {
+      headers['Idempotency-Key'] = message.idempotencyKey;
+    }
+
+    const { email, name } = message.to;
+    const response = await fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        from: message.from || this.fromAddress,
+        to: [name ? `"${name.replace(/["\\]/g, '')}" <${email}>` : email],
+        subject: message.subject,
+        text: message.text,
+      }),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as { id?: string; message?: string };
+    if (!response.ok) {
+      throw new EmailDeliveryError(
+        `Resend error ${response.status}: ${body.message || response.statusText}`,
+        isRetryableStatus(response.status)
+      );
+    }
+    if (!body.id) {
+      throw new EmailDeliveryError('Resend accepted the message without returning an id');
+    }
+
+    return { messageId: body.id };
+  }
+}
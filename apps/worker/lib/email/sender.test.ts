@@ -0,0 +1,194 @@
+/**
+ * Unit tests for the outbound email sender (queueing, retries, idempotency)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Communication } from '~/shared/types';
+import * as communications from '../db/communications';
+import { InMemoryEmailProvider } from './index';
+import { EmailDeliveryError } from './provider';
+import {
+  MAX_EMAIL_ATTEMPTS,
+  deliverCommunication,
+  getRetryDelaySeconds,
+  processDueEmails,
+  queueEmail,
+} from './sender';
+
+vi.mock('../db/communications', () => ({
+  claimCommunication: vi.fn(),
+  createCommunication: vi.fn(),
+  getCommunicationById: vi.fn(),
+  getCommunicationByIdempotencyKey: vi.fn(),
+  getDueCommunications: vi.fn(),
+  requeueStaleCommunications: vi.fn(),
+  updateCommunication: vi.fn(),
+}));
+
+const db = {} as any;
+
+const communication = (overrides: Partial<Communication> = {}): Communication => ({
+  id: 'comm_1',
+  entityType: 'application',
+  entityId: 'lead_1',
+  channel: 'email',
+  recipientEmail: 'tina@example.com',
+  recipientName: 'Tina Tenant',
+  subject: 'Hello',
+  body: 'Hi Tina',
+  status: 'sending',
+  attempts: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const input = {
+  entityType: 'application' as const,
+  entityId: 'lead_1',
+  to: { email: 'tina@example.com' },
+  subject: 'Hello',
+  body: 'Hi Tina',
+};
+
+describe('Email sender', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getRetryDelaySeconds', () => {
+    it('should back off exponentially up to six hours', () => {
+      expect(getRetryDelaySeconds(1)).toBe(60);
+      expect(getRetryDelaySeconds(2)).toBe(240);
+      expect(getRetryDelaySeconds(3)).toBe(960);
+      expect(getRetryDelaySeconds(10)).toBe(6 * 60 * 60);
+    });
+  });
+
+  describe('queueEmail', () => {
+    it('should return the original message for a repeated idempotency key', async () => {
+      const existing = communication({ status: 'sent', idempotencyKey: 'key_1' });
+      vi.mocked(communications.getCommunicationByIdempotencyKey).mockResolvedValue(existing);
+
+      const result = await queueEmail(db, 'site_1', { ...input, idempotencyKey: 'key_1' });
+
+      expect(result).toEqual({ communication: existing, duplicate: true });
+      expect(communications.createCommunication).not.toHaveBeenCalled();
+    });
+
+    it('should create a queued message for a new key', async () => {
+      const created = communication({ status: 'queued', attempts: 0 });
+      vi.mocked(communications.getCommunicationByIdempotencyKey).mockResolvedValue(null);
+      vi.mocked(communications.createCommunication).mockResolvedValue(created);
+
+      const result = await queueEmail(db, 'site_1', { ...input, idempotencyKey: 'key_2' });
+
+      expect(result).toEqual({ communication: created, duplicate: false });
+      expect(communications.createCommunication).toHaveBeenCalledWith(
+        db,
+        'site_1',
+        expect.objectContaining({ recipientEmail: 'tina@example.com', idempotencyKey: 'key_2' })
+      );
+    });
+
+    it('should return the winner when a concurrent insert takes the key', async () => {
+      const winner = communication({ status: 'queued', idempotencyKey: 'key_3' });
+      vi.mocked(communications.getCommunicationByIdempotencyKey)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(winner);
+      vi.mocked(communications.createCommunication).mockRejectedValue(new Error('UNIQUE constraint failed'));
+
+      const result = await queueEmail(db, 'site_1', { ...input, idempotencyKey: 'key_3' });
+
+      expect(result).toEqual({ communication: winner, duplicate: true });
+    });
+  });
+
+  describe('deliverCommunication', () => {
+    it('should mark the message sent on success', async () => {
+      const provider = new InMemoryEmailProvider();
+      vi.mocked(communications.claimCommunication).mockResolvedValue(true);
+      vi.mocked(communications.getCommunicationById).mockResolvedValue(communication());
+
+      await deliverCommunication(db, provider, 'site_1', 'comm_1');
+
+      expect(provider.sent).toHaveLength(1);
+      expect(provider.sent[0].idempotencyKey).toBe('comm_1');
+      expect(communications.updateCommunication).toHaveBeenCalledWith(
+        db,
+        'site_1',
+        'comm_1',
+        expect.objectContaining({ status: 'sent', provider: 'memory', providerMessageId: provider.sent[0].messageId })
+      );
+    });
+
+    it('should skip messages it could not claim', async () => {
+      const provider = new InMemoryEmailProvider();
+      vi.mocked(communications.claimCommunication).mockResolvedValue(false);
+      vi.mocked(communications.getCommunicationById).mockResolvedValue(communication({ status: 'sent' }));
+
+      const result = await deliverCommunication(db, provider, 'site_1', 'comm_1');
+
+      expect(result?.status).toBe('sent');
+      expect(provider.sent).toHaveLength(0);
+      expect(communications.updateCommunication).not.toHaveBeenCalled();
+    });
+
+    it('should re-queue retryable failures with backoff', async () => {
+      const provider = new InMemoryEmailProvider();
+      provider.failNext();
+      vi.mocked(communications.claimCommunication).mockResolvedValue(true);
+      vi.mocked(communications.getCommunicationById).mockResolvedValue(communication({ attempts: 2 }));
+
+      const before = Date.now();
+      await deliverCommunication(db, provider, 'site_1', 'comm_1');
+
+      const update = vi.mocked(communications.updateCommunication).mock.calls[0][3];
+      expect(update.status).toBe('queued');
+      expect(update.lastError).toBe('Simulated transient failure');
+      expect(new Date(update.nextAttemptAt!).getTime()).toBeGreaterThanOrEqual(before + 240 * 1000);
+    });
+
+    it('should fail permanently after the last attempt', async () => {
+      const provider = new InMemoryEmailProvider();
+      provider.failNext();
+      vi.mocked(communications.claimCommunication).mockResolvedValue(true);
+      vi.mocked(communications.getCommunicationById).mockResolvedValue(
+        communication({ attempts: MAX_EMAIL_ATTEMPTS })
+      );
+
+      await deliverCommunication(db, provider, 'site_1', 'comm_1');
+
+      expect(vi.mocked(communications.updateCommunication).mock.calls[0][3].status).toBe('failed');
+    });
+
+    it('should not retry permanent provider errors', async () => {
+      const provider = new InMemoryEmailProvider();
+      vi.spyOn(provider, 'send').mockRejectedValue(new EmailDeliveryError('Mailbox does not exist', false));
+      vi.mocked(communications.claimCommunication).mockResolvedValue(true);
+      vi.mocked(communications.getCommunicationById).mockResolvedValue(communication());
+
+      await deliverCommunication(db, provider, 'site_1', 'comm_1');
+
+      const update = vi.mocked(communications.updateCommunication).mock.calls[0][3];
+      expect(update.status).toBe('failed');
+      expect(update.lastError).toBe('Mailbox does not exist');
+    });
+  });
+
+  describe('processDueEmails', () => {
+    it('should re-queue attempts claimed before the sending timeout first', async () => {
+      vi.mocked(communications.requeueStaleCommunications).mockResolvedValue(2);
+      vi.mocked(communications.getDueCommunications).mockResolvedValue([]);
+
+      const result = await processDueEmails({ DB: db, EMAIL_PROVIDER: 'memory' }, '2026-01-01T01:00:00.000Z');
+
+      expect(communications.requeueStaleCommunications).toHaveBeenCalledWith(
+        db,
+        '2026-01-01T00:45:00.000Z',
+        MAX_EMAIL_ATTEMPTS
+      );
+      expect(result).toEqual({ requeued: 2, attempted: 0, sent: 0, failed: 0 });
+    });
+  });
+});
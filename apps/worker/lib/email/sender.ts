@@ -0,0 +1,226 @@
+/**
+ * Outbound email sender
+ *
+ * Every message is first written to the communications table ('queued'),
+ * which is both the history shown in Ops and the source of truth for
+ * delivery. Dispatch then goes through EMAIL_QUEUE when it is bound, or is
+ * attempted inline otherwise. Failed attempts are re-queued with
+ * exponential backoff; the cron sweep picks up anything that is due.
+ */
+
+import type { Communication, CommunicationEntityType } from '../../../../shared/types';
+import type { CloudflareEnv, EmailQueueMessage } from '../../../../shared/config';
+import type { DatabaseInput } from '../db/helpers';
+import {
+  claimCommunication,
+  createCommunication,
+  getCommunicationById,
+  getCommunicationByIdempotencyKey,
+  getDueCommunications,
+  requeueStaleCommunications,
+  updateCommunication,
+} from '../db/communications';
+import type { EmailProviderEnv, IEmailProvider } from './provider';
+import { EmailDeliveryError, getEmailProvider } from './provider';
+
+export const MAX_EMAIL_ATTEMPTS = 5;
+
+// An attempt still 'sending' after this long was cut off before it recorded
+// its outcome. Longer than a worker invocation can run
+export const SENDING_TIMEOUT_SECONDS = 15 * 60;
+
+const BASE_RETRY_DELAY_SECONDS = 60;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+type EmailEnv = Pick<CloudflareEnv, 'DB' | 'EMAIL_QUEUE'> & EmailProviderEnv;
+
+export interface QueueEmailInput {
+  entityType: CommunicationEntityType;
+  entityId: string;
+  to: { email: string; name?: string };
+  subject: string;
+  body: string;
+  templateKey?: string;
+  idempotencyKey?: string;
+  createdBy?: string;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures: 1m, 4m, 16m, 64m... capped at 6h
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * 4 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Record a message as queued.
+ * A repeated idempotency key returns the original message instead of
+ * creating a second one.
+ */
+export async function queueEmail(
+  db: DatabaseInput,
+  siteId: string,
+  input: QueueEmailInput
+): Promise<{ communication: Communication; duplicate: boolean }> {
+  if (input.idempotencyKey) {
+    const existing = await getCommunicationByIdempotencyKey(db, siteId, input.idempotencyKey);
+    if (existing) {
+      return { communication: existing, duplicate: true };
+    }
+  }
+
+  try {
+    const communication = await createCommunication(db, siteId, {
+      entityType: input.entityType,
+      entityId: input.entityId,
+      templateKey: input.templateKey,
+      recipientEmail: input.to.email,
+      recipientName: input.to.name,
+      subject: input.subject,
+      body: input.body,
+      idempotencyKey: input.idempotencyKey,
+      createdBy: input.createdBy,
+    });
+    return { communication, duplicate: false };
+  } catch (error) {
+    // Lost a race with a concurrent request using the same key
+    if (input.idempotencyKey) {
+      const existing = await getCommunicationByIdempotencyKey(db, siteId, input.idempotencyKey);
+      if (existing) {
+        return { communication: existing, duplicate: true };
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Make one delivery attempt for a queued message.
+ * Messages that are not queued (already sent, failed, or claimed by another
+ * attempt) are returned unchanged.
+ */
+export async function deliverCommunication(
+  db: DatabaseInput,
+  provider: IEmailProvider,
+  siteId: string,
+  communicationId: string
+): Promise<Communication | null> {
+  const claimed = await claimCommunication(db, siteId, communicationId);
+  const communication = await getCommunicationById(db, siteId, communicationId);
+  if (!claimed || !communication) {
+    return communication;
+  }
+
+  try {
+    const result = await provider.send({
+      to: { email: communication.recipientEmail, name: communication.recipientName },
+      subject: communication.subject,
+      text: communication.body,
+      idempotencyKey: communication.idempotencyKey || communication.id,
+    });
+
+    await updateCommunication(db, siteId, communicationId, {
+      status: 'sent',
+      provider: provider.name,
+      providerMessageId: result.messageId,
+      sentAt: new Date().toISOString(),
+      nextAttemptAt: '',
+      lastError: '',
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const retryable = !(error instanceof EmailDeliveryError) || error.retryable;
+
+    if (retryable && communication.attempts < MAX_EMAIL_ATTEMPTS) {
+      const delaySeconds = getRetryDelaySeconds(communication.attempts);
+      await updateCommunication(db, siteId, communicationId, {
+        status: 'queued',
+        provider: provider.name,
+        nextAttemptAt: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+        lastError: message,
+      });
+    } else {
+      await updateCommunication(db, siteId, communicationId, {
+        status: 'failed',
+        provider: provider.name,
+        nextAttemptAt: '',
+        lastError: message,
+      });
+    }
+  }
+
+  return getCommunicationById(db, siteId, communicationId);
+}
+
+/**
+ * Hand a queued message to EMAIL_QUEUE, or attempt delivery inline when no
+ * queue is bound (local development, tests)
+ */
+export async function dispatchCommunication(
+  env: EmailEnv,
+  siteId: string,
+  communication: Communication
+): Promise<Communication> {
+  if (communication.status !== 'queued') {
+    return communication;
+  }
+
+  if (env.EMAIL_QUEUE) {
+    await env.EMAIL_QUEUE.send({ siteId, communicationId: communication.id });
+    return communication;
+  }
+
+  return (await deliverCommunication(env.DB, getEmailProvider(env), siteId, communication.id)) || communication;
+}
+
+/**
+ * EMAIL_QUEUE consumer. Retries are scheduled from the stored next_attempt_at
+ * so the queue and the cron sweep agree on backoff.
+ */
+export async function processEmailQueueBatch(batch: MessageBatch<EmailQueueMessage>, env: EmailEnv): Promise<void> {
+  const provider = getEmailProvider(env);
+
+  for (const message of batch.messages) {
+    try {
+      const { siteId, communicationId } = message.body;
+      const communication = await deliverCommunication(env.DB, provider, siteId, communicationId);
+
+      if (communication?.status === 'queued' && communication.nextAttemptAt) {
+        const delaySeconds = Math.ceil((new Date(communication.nextAttemptAt).getTime() - Date.now()) / 1000);
+        message.retry({ delaySeconds: Math.max(delaySeconds, 0) });
+      } else {
+        message.ack();
+      }
+    } catch (error) {
+      console.error('Error delivering queued email:', error);
+      message.retry();
+    }
+  }
+}
+
+/**
+ * Cron sweep: re-queue attempts that were cut off mid-send, then attempt
+ * every queued message that is due, across all sites. Covers deployments
+ * without EMAIL_QUEUE and queue messages that were lost. A re-queued message
+ * is sent with the same idempotency key, so a provider that already accepted
+ * it doesn't send it twice.
+ */
+export async function processDueEmails(
+  env: Omit<EmailEnv, 'EMAIL_QUEUE'>,
+  now: string = new Date().toISOString()
+): Promise<{ requeued: number; attempted: number; sent: number; failed: number }> {
+  const provider = getEmailProvider(env);
+  const claimedBefore = new Date(new Date(now).getTime() - SENDING_TIMEOUT_SECONDS * 1000).toISOString();
+  const requeued = await requeueStaleCommunications(env.DB, claimedBefore, MAX_EMAIL_ATTEMPTS);
+  const due = await getDueCommunications(env.DB, now);
+  let sent = 0;
+  let failed = 0;
+
+  for (const communication of due) {
+    const result = await deliverCommunication(env.DB, provider, communication.siteId, communication.id);
+    if (result?.status === 'sent') sent++;
+    if (result?.status === 'failed') failed++;
+  }
+
+  return { requeued, attempted: due.length, sent, failed };
+}
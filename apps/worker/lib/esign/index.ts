@@ -0,0 +1,15 @@
+/**
+ * E-signature providers
+ *
+ * Importing this module registers the built-in providers. Select one with
+ * the ESIGN_PROVIDER env var (default: 'stub').
+ */
+
+import { registerESignProvider } from './provider';
+import { StubESignProvider } from './stub';
+
+registerESignProvider('stub', (config) => new StubESignProvider(config));
+
+export * from './provider';
+export { StubESignProvider, STUB_SIGNATURE_HEADER, signStubWebhookPayload } from './stub';
+export * from './lease-signing';
@@ -0,0 +1,137 @@
+/**
+ * Lease signing flow
+ *
+ * draft → (send) → pending_signature → (envelope completed) → signed
+ *
+ * The signed PDF returned by the provider is stored in the private bucket
+ * and recorded as a 'lease_document' lease file.
+ */
+
+import type { R2Bucket } from '@cloudflare/workers-types';
+import type { Lease, LeaseFile, LeaseSignatureEnvelope } from '../../../../shared/types';
+import type { DatabaseInput } from '../db/helpers';
+import { createLeaseFile, getLeaseById, updateLease } from '../db/leases';
+import {
+  createSignatureEnvelope,
+  getSignatureEnvelopeByEnvelopeId,
+  updateSignatureEnvelope,
+} from '../db/lease-signatures';
+import type { IESignProvider, ESignSignerInput, EnvelopeStatusUpdate } from './provider';
+
+export interface SendLeaseForSignatureOptions {
+  landlordSigner?: ESignSignerInput;
+  subject?: string;
+  message?: string;
+}
+
+/**
+ * Send a lease document to the tenant (and optionally the landlord) for
+ * signature and move the lease to 'pending_signature'.
+ */
+export async function sendLeaseForSignature(
+  db: DatabaseInput,
+  bucket: R2Bucket,
+  provider: IESignProvider,
+  siteId: string,
+  lease: Lease,
+  document: LeaseFile,
+  options: SendLeaseForSignatureOptions = {}
+): Promise<LeaseSignatureEnvelope> {
+  if (!lease.tenant?.email) {
+    throw new Error('Lease tenant has no email address');
+  }
+
+  const object = await bucket.get(document.r2Key);
+  if (!object) {
+    throw new Error(`Lease document ${document.fileName} not found in storage`);
+  }
+
+  const signers: ESignSignerInput[] = [
+    { email: lease.tenant.email, name: `${lease.tenant.firstName} ${lease.tenant.lastName}` },
+  ];
+  if (options.landlordSigner) {
+    signers.push(options.landlordSigner);
+  }
+
+  const envelope = await provider.sendEnvelope({
+    referenceId: lease.id,
+    documentName: document.fileName,
+    document: await object.arrayBuffer(),
+    signers,
+    subject: options.subject,
+    message: options.message,
+  });
+
+  const record = await createSignatureEnvelope(db, siteId, {
+    leaseId: lease.id,
+    provider: provider.name,
+    envelopeId: envelope.envelopeId,
+    status: envelope.status,
+    signers: envelope.signers,
+    sentAt: envelope.sentAt,
+    expiresAt: envelope.expiresAt,
+  });
+
+  await updateLease(db, siteId, lease.id, {
+    status: 'pending_signature',
+    docuSignEnvelopeId: envelope.envelopeId,
+  });
+
+  return record;
+}
+
+/**
+ * Apply a provider status update (webhook or poll) to the stored envelope
+ * and its lease. Completing an envelope stores the signed PDF and marks the
+ * lease signed; declined/voided envelopes return the lease to draft.
+ * Safe to call repeatedly with the same update.
+ */
+export async function applyEnvelopeStatusUpdate(
+  db: DatabaseInput,
+  bucket: R2Bucket,
+  provider: IESignProvider,
+  siteId: string,
+  envelope: LeaseSignatureEnvelope,
+  update: EnvelopeStatusUpdate
+): Promise<LeaseSignatureEnvelope> {
+  await updateSignatureEnvelope(db, siteId, envelope.id, {
+    status: update.status,
+    signers: update.signers,
+    completedAt: update.completedAt,
+  });
+
+  const lease = await getLeaseById(db, siteId, envelope.leaseId);
+
+  if (update.status === 'completed' && !envelope.signedFileId) {
+    const signed = await provider.downloadSignedDocument(update.envelopeId);
+    const r2Key = `leases/${envelope.leaseId}/${Date.now()}-${signed.fileName}`;
+
+    await bucket.put(r2Key, signed.content, {
+      httpMetadata: {
+        contentType: signed.mimeType,
+      },
+    });
+
+    const leaseFile = await createLeaseFile(db, siteId, {
+      leaseId: envelope.leaseId,
+      fileType: 'lease_document',
+      fileName: signed.fileName,
+      fileSize: signed.content.byteLength,
+      mimeType: signed.mimeType,
+      r2Key,
+    });
+
+    await updateSignatureEnvelope(db, siteId, envelope.id, { signedFileId: leaseFile.id });
+
+    if (lease?.status === 'pending_signature') {
+      await updateLease(db, siteId, lease.id, {
+        status: 'signed',
+        signedAt: update.completedAt || new Date().toISOString(),
+      });
+    }
+  } else if ((update.status === 'declined' || update.status === 'voided') && lease?.status === 'pending_signature') {
+    await updateLease(db, siteId, lease.id, { status: 'draft' });
+  }
+
+  return (await getSignatureEnvelopeByEnvelopeId(db, envelope.provider, envelope.envelopeId))!;
+}
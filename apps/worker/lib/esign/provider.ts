@@ -0,0 +1,117 @@
+import type { DocuSignEnvelopeInfo, DocuSignSigner, DocuSignStatus } from '../../../../shared/types';
+import type { CloudflareEnv } from '../../../../shared/config';
+
+/**
+ * A person who must sign the envelope
+ */
+export interface ESignSignerInput {
+  email: string;
+  name: string;
+}
+
+/**
+ * Request to send a document out for signature
+ */
+export interface SendEnvelopeRequest {
+  /** Our reference for the envelope (the lease ID) */
+  referenceId: string;
+  documentName: string;
+  document: ArrayBuffer;
+  signers: ESignSignerInput[];
+  subject?: string;
+  message?: string;
+}
+
+/**
+ * Envelope status as reported by the provider (poll or webhook)
+ */
+export interface EnvelopeStatusUpdate {
+  envelopeId: string;
+  status: DocuSignStatus;
+  signers: DocuSignSigner[];
+  completedAt?: string;
+}
+
+/**
+ * Signed document returned by the provider once an envelope completes
+ */
+export interface ESignDocument {
+  fileName: string;
+  mimeType: string;
+  content: ArrayBuffer;
+}
+
+/**
+ * E-signature provider interface
+ * Implementations wrap a vendor API (DocuSign, Dropbox Sign, ...) or the local stub
+ */
+export interface IESignProvider {
+  readonly name: string;
+
+  /**
+   * Send a document to the signers
+   */
+  sendEnvelope(request: SendEnvelopeRequest): Promise<DocuSignEnvelopeInfo>;
+
+  /**
+   * Poll the provider for the current envelope status
+   */
+  getEnvelopeStatus(envelopeId: string): Promise<EnvelopeStatusUpdate>;
+
+  /**
+   * Download the completed, signed document
+   */
+  downloadSignedDocument(envelopeId: string): Promise<ESignDocument>;
+
+  /**
+   * Verify and parse a webhook payload
+   * @returns The status update, or null if the payload could not be verified
+   */
+  parseWebhook(body: string, headers: Headers): Promise<EnvelopeStatusUpdate | null>;
+}
+
+/**
+ * Provider configuration
+ */
+export interface ESignConfig {
+  provider: string;
+  webhookSecret?: string;
+}
+
+export type ESignProviderFactory = (config: ESignConfig) => IESignProvider;
+
+const providers = new Map<string, ESignProviderFactory>();
+
+/**
+ * Register an e-signature provider implementation
+ * @param name - Provider name (e.g., 'stub', 'docusign')
+ * @param factory - Factory function to create the provider instance
+ */
+export function registerESignProvider(name: string, factory: ESignProviderFactory): void {
+  providers.set(name, factory);
+}
+
+/**
+ * Create an e-signature provider from configuration
+ * @throws Error if provider is not registered
+ */
+export function createESignProvider(config: ESignConfig): IESignProvider {
+  const factory = providers.get(config.provider);
+  if (!factory) {
+    throw new Error(
+      `E-signature provider '${config.provider}' not registered. ` +
+        `Available providers: ${Array.from(providers.keys()).join(', ') || 'none'}`
+    );
+  }
+  return factory(config);
+}
+
+/**
+ * Create the provider configured for this worker (ESIGN_PROVIDER, default 'stub')
+ */
+export function getESignProvider(env: Pick<CloudflareEnv, 'ESIGN_PROVIDER' | 'ESIGN_WEBHOOK_SECRET'>): IESignProvider {
+  return createESignProvider({
+    provider: env.ESIGN_PROVIDER || 'stub',
+    webhookSecret: env.ESIGN_WEBHOOK_SECRET,
+  });
+}
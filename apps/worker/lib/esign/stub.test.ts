@@ -0,0 +1,130 @@
+/**
+ * Unit tests for the stub e-signature provider
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StubESignProvider, signStubWebhookPayload, STUB_SIGNATURE_HEADER } from './stub';
+import { createESignProvider, getESignProvider } from './index';
+
+const sendRequest = {
+  referenceId: 'lease_1',
+  documentName: 'lease.pdf',
+  document: new TextEncoder().encode('%PDF-1.4 lease').buffer as ArrayBuffer,
+  signers: [
+    { email: 'tenant@example.com', name: 'Tina Tenant' },
+    { email: 'landlord@example.com', name: 'Larry Landlord' },
+  ],
+};
+
+describe('StubESignProvider', () => {
+  describe('sendEnvelope', () => {
+    it('should create a sent envelope with every signer pending', async () => {
+      const provider = new StubESignProvider();
+      const envelope = await provider.sendEnvelope(sendRequest);
+
+      expect(envelope.envelopeId).toMatch(/^env_/);
+      expect(envelope.status).toBe('sent');
+      expect(envelope.signers.map((s) => s.status)).toEqual(['sent', 'sent']);
+      expect(new Date(envelope.expiresAt).getTime()).toBeGreaterThan(new Date(envelope.sentAt).getTime());
+    });
+
+    it('should require at least one signer', async () => {
+      const provider = new StubESignProvider();
+      await expect(provider.sendEnvelope({ ...sendRequest, signers: [] })).rejects.toThrow('signer');
+    });
+  });
+
+  describe('simulateSigning', () => {
+    it('should only complete once every signer has signed', async () => {
+      const provider = new StubESignProvider();
+      const { envelopeId } = await provider.sendEnvelope(sendRequest);
+
+      const partial = provider.simulateSigning(envelopeId, 'tenant@example.com');
+      expect(partial.status).toBe('delivered');
+      expect(partial.completedAt).toBeUndefined();
+
+      const complete = provider.simulateSigning(envelopeId, 'landlord@example.com');
+      expect(complete.status).toBe('completed');
+      expect(complete.completedAt).toBeDefined();
+      expect((await provider.getEnvelopeStatus(envelopeId)).status).toBe('completed');
+    });
+  });
+
+  describe('downloadSignedDocument', () => {
+    it('should refuse envelopes that are not completed', async () => {
+      const provider = new StubESignProvider();
+      const { envelopeId } = await provider.sendEnvelope(sendRequest);
+
+      await expect(provider.downloadSignedDocument(envelopeId)).rejects.toThrow('not completed');
+    });
+
+    it('should return the signed PDF once completed', async () => {
+      const provider = new StubESignProvider();
+      const { envelopeId } = await provider.sendEnvelope(sendRequest);
+      provider.simulateSigning(envelopeId);
+
+      const document = await provider.downloadSignedDocument(envelopeId);
+      expect(document.mimeType).toBe('application/pdf');
+      expect(document.fileName).toBe(`signed-${envelopeId}.pdf`);
+      expect(document.content.byteLength).toBe(sendRequest.document.byteLength);
+    });
+
+    it('should return a placeholder PDF for envelopes sent by another instance', async () => {
+      const document = await new StubESignProvider().downloadSignedDocument('env_unknown');
+      expect(new TextDecoder().decode(document.content)).toContain('%PDF');
+    });
+  });
+
+  describe('parseWebhook', () => {
+    const body = JSON.stringify({ envelopeId: 'env_1', status: 'completed' });
+
+    it('should accept a payload signed with the webhook secret', async () => {
+      const provider = new StubESignProvider({ webhookSecret: 'shh' });
+      const headers = new Headers({ [STUB_SIGNATURE_HEADER]: await signStubWebhookPayload('shh', body) });
+
+      const update = await provider.parseWebhook(body, headers);
+      expect(update?.envelopeId).toBe('env_1');
+      expect(update?.status).toBe('completed');
+      expect(update?.completedAt).toBeDefined();
+    });
+
+    it('should reject missing or invalid signatures when a secret is configured', async () => {
+      const provider = new StubESignProvider({ webhookSecret: 'shh' });
+
+      expect(await provider.parseWebhook(body, new Headers())).toBeNull();
+      expect(
+        await provider.parseWebhook(
+          body,
+          new Headers({ [STUB_SIGNATURE_HEADER]: await signStubWebhookPayload('wrong', body) })
+        )
+      ).toBeNull();
+    });
+
+    it('should reject malformed payloads and unknown statuses', async () => {
+      const provider = new StubESignProvider();
+
+      expect(await provider.parseWebhook('not json', new Headers())).toBeNull();
+      expect(
+        await provider.parseWebhook(JSON.stringify({ envelopeId: 'env_1', status: 'bogus' }), new Headers())
+      ).toBeNull();
+    });
+
+    it('should update a known envelope from the webhook', async () => {
+      const provider = new StubESignProvider();
+      const { envelopeId } = await provider.sendEnvelope(sendRequest);
+
+      await provider.parseWebhook(JSON.stringify({ envelopeId, status: 'declined' }), new Headers());
+      expect((await provider.getEnvelopeStatus(envelopeId)).status).toBe('declined');
+    });
+  });
+});
+
+describe('E-signature provider registry', () => {
+  it('should default to the stub provider', () => {
+    expect(getESignProvider({}).name).toBe('stub');
+  });
+
+  it('should list available providers for an unknown name', () => {
+    expect(() => createESignProvider({ provider: 'nope' })).toThrow("Available providers: stub");
+  });
+});
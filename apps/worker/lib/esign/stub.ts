@@ -0,0 +1,180 @@
+import type { DocuSignEnvelopeInfo, DocuSignSigner, DocuSignStatus } from '../../../../shared/types';
+import { generateId, hmacSha256Hex, timingSafeEqual } from '../../../../shared/utils';
+import type {
+  IESignProvider,
+  ESignConfig,
+  ESignDocument,
+  EnvelopeStatusUpdate,
+  SendEnvelopeRequest,
+} from './provider';
+
+/**
+ * Header carrying the hex HMAC-SHA256 of the raw webhook body
+ */
+export const STUB_SIGNATURE_HEADER = 'X-ESign-Signature';
+
+const ENVELOPE_TTL_DAYS = 30;
+
+const STATUSES: DocuSignStatus[] = ['created', 'sent', 'delivered', 'signed', 'completed', 'declined', 'voided'];
+
+interface StubEnvelope {
+  info: DocuSignEnvelopeInfo;
+  documentName: string;
+  document: ArrayBuffer;
+  completedAt?: string;
+}
+
+/**
+ * Local e-signature provider for development and tests.
+ *
+ * Envelopes live in memory for the lifetime of the instance. Signing is
+ * driven either by simulateSigning() or by posting a webhook payload:
+ *   { envelopeId, status, signers?, completedAt? }
+ * signed with ESIGN_WEBHOOK_SECRET in the X-ESign-Signature header.
+ * Without a configured secret, unsigned payloads are accepted.
+ */
+export class StubESignProvider implements IESignProvider {
+  readonly name = 'stub';
+  private envelopes = new Map<string, StubEnvelope>();
+  private webhookSecret?: string;
+
+  constructor(config: Partial<ESignConfig> = {}) {
+    this.webhookSecret = config.webhookSecret;
+  }
+
+  async sendEnvelope(request: SendEnvelopeRequest): Promise<DocuSignEnvelopeInfo> {
+    if (request.signers.length === 0) {
+      throw new Error('At least one signer is required');
+    }
+
+    const now = new Date();
+    const info: DocuSignEnvelopeInfo = {
+      envelopeId: generateId('env'),
+      status: 'sent',
+      sentAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ENVELOPE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      signers: request.signers.map((signer) => ({
+        email: signer.email,
+        name: signer.name,
+        status: 'sent',
+      })),
+    };
+
+    this.envelopes.set(info.envelopeId, {
+      info,
+      documentName: request.documentName,
+      document: request.document,
+    });
+
+    return info;
+  }
+
+  async getEnvelopeStatus(envelopeId: string): Promise<EnvelopeStatusUpdate> {
+    const envelope = this.getEnvelope(envelopeId);
+    return {
+      envelopeId,
+      status: envelope.info.status,
+      signers: envelope.info.signers,
+      completedAt: envelope.completedAt,
+    };
+  }
+
+  async downloadSignedDocument(envelopeId: string): Promise<ESignDocument> {
+    const envelope = this.envelopes.get(envelopeId);
+    if (envelope && envelope.info.status !== 'completed') {
+      throw new Error(`Envelope ${envelopeId} is not completed`);
+    }
+
+    // Envelopes completed through a webhook may have been sent by another
+    // instance; fall back to a placeholder PDF so the flow can still finish.
+    const content = envelope
+      ? envelope.document
+      : new TextEncoder().encode(`%PDF-1.4\n% Signed document for envelope ${envelopeId}\n%%EOF\n`).buffer;
+
+    return {
+      fileName: `signed-${envelopeId}.pdf`,
+      mimeType: 'application/pdf',
+      content: content as ArrayBuffer,
+    };
+  }
+
+  async parseWebhook(body: string, headers: Headers): Promise<EnvelopeStatusUpdate | null> {
+    if (this.webhookSecret) {
+      const signature = headers.get(STUB_SIGNATURE_HEADER);
+      if (!signature) return null;
+
+      const expected = await hmacSha256Hex(this.webhookSecret, body);
+      if (!timingSafeEqual(signature.toLowerCase(), expected)) return null;
+    }
+
+    let payload: Partial<EnvelopeStatusUpdate>;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return null;
+    }
+
+    if (!payload.envelopeId || !payload.status || !STATUSES.includes(payload.status)) {
+      return null;
+    }
+
+    const envelope = this.envelopes.get(payload.envelopeId);
+    const update: EnvelopeStatusUpdate = {
+      envelopeId: payload.envelopeId,
+      status: payload.status,
+      signers: payload.signers || envelope?.info.signers || [],
+      completedAt: payload.completedAt || (payload.status === 'completed' ? new Date().toISOString() : undefined),
+    };
+
+    if (envelope) {
+      envelope.info.status = update.status;
+      envelope.info.signers = update.signers;
+      envelope.completedAt = update.completedAt;
+    }
+
+    return update;
+  }
+
+  /**
+   * Mark a signer (or every signer) as signed. The envelope completes once
+   * all signers have signed.
+   */
+  simulateSigning(envelopeId: string, email?: string): EnvelopeStatusUpdate {
+    const envelope = this.getEnvelope(envelopeId);
+    const now = new Date().toISOString();
+
+    envelope.info.signers = envelope.info.signers.map((signer): DocuSignSigner =>
+      !email || signer.email === email ? { ...signer, status: 'signed', signedAt: now } : signer
+    );
+
+    if (envelope.info.signers.every((signer) => signer.status === 'signed')) {
+      envelope.info.status = 'completed';
+      envelope.info.signedAt = now;
+      envelope.completedAt = now;
+    } else {
+      envelope.info.status = 'delivered';
+    }
+
+    return {
+      envelopeId,
+      status: envelope.info.status,
+      signers: envelope.info.signers,
+      completedAt: envelope.completedAt,
+    };
+  }
+
+  private getEnvelope(envelopeId: string): StubEnvelope {
+    const envelope = this.envelopes.get(envelopeId);
+    if (!envelope) {
+      throw new Error(`Envelope ${envelopeId} not found`);
+    }
+    return envelope;
+  }
+}
+
+/**
+ * Sign a stub webhook body (for local testing and tooling)
+ */
+export function signStubWebhookPayload(secret: string, body: string): Promise<string> {
+  return hmacSha256Hex(secret, body);
+}
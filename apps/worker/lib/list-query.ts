@@ -0,0 +1,30 @@
+import type { Context } from 'hono';
+import { CursorPaginationSchema } from '../../../shared/config';
+import { getRequestAccess } from '../middleware/user-access';
+import type { PageOptions } from './db/pagination';
+
+export type ListQueryResult =
+  | { success: true; options: PageOptions; paginate: boolean }
+  | { success: false; message: string };
+
+/**
+ * Read the query params shared by the ops list endpoints (limit, cursor,
+ * sortBy, sortOrder, search) and attach the caller's property scope so it
+ * is applied in SQL. paginate is false when neither limit nor cursor was
+ * given; those callers get the full list, as before pagination existed.
+ */
+export function readListQuery(c: Context): ListQueryResult {
+  const parsed = CursorPaginationSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return {
+      success: false,
+      message: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+    };
+  }
+
+  return {
+    success: true,
+    options: { ...parsed.data, propertyIds: getRequestAccess(c)?.propertyIds ?? null },
+    paginate: parsed.data.limit !== undefined || parsed.data.cursor !== undefined,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Applicant screening flow
+ *
+ * Each applicant gets their own screening order. The latest result is
+ * mirrored onto the applicant's background_check_* columns, which the Ops
+ * stage checks use to gate screening → approved.
+ */
+
+import type { ApplicationApplicant, ScreeningResult } from '../../../../shared/types';
+import { generateId } from '../../../../shared/utils';
+import type { DatabaseInput } from '../db/helpers';
+import { updateApplicant } from '../db/application-applicants';
+import { createScreeningResult, getScreeningResultByReference, updateScreeningResult } from '../db/screening';
+import type { IScreeningProvider, ScreeningReport } from './provider';
+
+/**
+ * Order a screening report for an applicant and record it as in progress
+ */
+export async function requestApplicantScreening(
+  db: DatabaseInput,
+  provider: IScreeningProvider,
+  siteId: string,
+  applicant: ApplicationApplicant,
+  requestedBy?: string
+): Promise<ScreeningResult> {
+  const id = generateId('screening');
+  const report = await provider.requestScreening({
+    externalId: id,
+    subject: {
+      firstName: applicant.firstName,
+      lastName: applicant.lastName,
+      email: applicant.email,
+      phone: applicant.phone,
+      dateOfBirth: applicant.dateOfBirth,
+    },
+  });
+
+  const result = await createScreeningResult(db, siteId, {
+    id,
+    leadId: applicant.applicationId,
+    applicantId: applicant.id,
+    provider: provider.name,
+    referenceId: report.referenceId,
+    status: report.status,
+    requestedBy,
+  });
+
+  await updateApplicant(db, applicant.id, {
+    backgroundCheckStatus: report.status,
+    backgroundCheckProvider: provider.name,
+    backgroundCheckReferenceId: report.referenceId,
+    backgroundCheckCompletedAt: null,
+  });
+
+  // Some providers answer synchronously
+  if (report.status === 'completed' || report.status === 'failed') {
+    return applyScreeningReport(db, siteId, result, report);
+  }
+
+  return result;
+}
+
+/**
+ * Apply a provider report (webhook or poll) to the stored result and its
+ * applicant. Safe to call repeatedly with the same report.
+ */
+export async function applyScreeningReport(
+  db: DatabaseInput,
+  siteId: string,
+  result: ScreeningResult,
+  report: ScreeningReport
+): Promise<ScreeningResult> {
+  await updateScreeningResult(db, siteId, result.id, {
+    status: report.status,
+    creditScore: report.creditScore,
+    criminalCheck: report.criminalCheck,
+    evictionHistory: report.evictionHistory,
+    identityVerified: report.identityVerified,
+    report: report.report,
+    completedAt: report.completedAt,
+  });
+
+  if (result.applicantId) {
+    await updateApplicant(db, result.applicantId, {
+      backgroundCheckStatus: report.status,
+      backgroundCheckCompletedAt: report.completedAt || null,
+    });
+  }
+
+  return (await getScreeningResultByReference(db, result.provider, result.referenceId))!;
+}
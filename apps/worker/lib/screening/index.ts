@@ -0,0 +1,15 @@
+/**
+ * Tenant screening providers
+ *
+ * Importing this module registers the built-in providers. Select one with
+ * the SCREENING_PROVIDER env var (default: 'stub').
+ */
+
+import { registerScreeningProvider } from './provider';
+import { StubScreeningProvider } from './stub';
+
+registerScreeningProvider('stub', (config) => new StubScreeningProvider(config));
+
+export * from './provider';
+export { StubScreeningProvider, STUB_SCREENING_SIGNATURE_HEADER, signStubScreeningPayload } from './stub';
+export * from './applicant-screening';
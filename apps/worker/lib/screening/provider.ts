@@ -0,0 +1,107 @@
+import type { ScreeningResult, ScreeningStatus } from '../../../../shared/types';
+import type { CloudflareEnv } from '../../../../shared/config';
+
+/**
+ * Person being screened
+ */
+export interface ScreeningSubject {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string | null;
+  dateOfBirth?: string | null;
+}
+
+/**
+ * Request to order a screening report
+ */
+export interface ScreeningRequest {
+  /** Our reference for the order (the screening result ID) */
+  externalId: string;
+  subject: ScreeningSubject;
+  monthlyRent?: number;
+}
+
+/**
+ * Screening report as returned by the provider (order, poll or webhook)
+ */
+export interface ScreeningReport
+  extends Pick<
+    ScreeningResult,
+    'creditScore' | 'criminalCheck' | 'evictionHistory' | 'identityVerified' | 'report' | 'completedAt'
+  > {
+  referenceId: string;
+  status: ScreeningStatus;
+}
+
+/**
+ * Tenant screening provider interface
+ * Implementations wrap a vendor API (Certn, SingleKey, ...) or the local stub
+ */
+export interface IScreeningProvider {
+  readonly name: string;
+
+  /**
+   * Order a screening report for an applicant
+   */
+  requestScreening(request: ScreeningRequest): Promise<ScreeningReport>;
+
+  /**
+   * Poll the provider for the current report
+   */
+  getScreeningReport(referenceId: string): Promise<ScreeningReport>;
+
+  /**
+   * Verify and parse a webhook payload
+   * @returns The report, or null if the payload could not be verified
+   */
+  parseWebhook(body: string, headers: Headers): Promise<ScreeningReport | null>;
+}
+
+/**
+ * Provider configuration
+ */
+export interface ScreeningConfig {
+  provider: string;
+  webhookSecret?: string;
+}
+
+export type ScreeningProviderFactory = (config: ScreeningConfig) => IScreeningProvider;
+
+const providers = new Map<string, ScreeningProviderFactory>();
+
+/**
+ * Register a screening provider implementation
+ * @param name - Provider name (e.g., 'stub', 'certn', 'singlekey')
+ * @param factory - Factory function to create the provider instance
+ */
+export function registerScreeningProvider(name: string, factory: ScreeningProviderFactory): void {
+  providers.set(name, factory);
+}
+
+/**
+ * Create a screening provider from configuration
+ * @throws Error if provider is not registered
+ */
+export function createScreeningProvider(config: ScreeningConfig): IScreeningProvider {
+  const factory = providers.get(config.provider);
+  if (!factory) {
+    throw new Error(
+      `Screening provider '${config.provider}' not registered. ` +
+        `Available providers: ${Array.from(providers.keys()).join(', ') || 'none'}`
+    );
+  }
+  return factory(config);
+}
+
+/**
+ * Create the provider configured for this worker (SCREENING_PROVIDER, default 'stub')
+ */
+export function getScreeningProvider(
+  env: Pick<CloudflareEnv, 'SCREENING_PROVIDER' | 'SCREENING_WEBHOOK_SECRET'>
+): IScreeningProvider {
+  return createScreeningProvider({
+    provider: env.SCREENING_PROVIDER || 'stub',
+    webhookSecret: env.SCREENING_WEBHOOK_SECRET,
+  });
+}
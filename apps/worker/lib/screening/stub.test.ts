@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the stub screening provider
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StubScreeningProvider, signStubScreeningPayload, STUB_SCREENING_SIGNATURE_HEADER } from './stub';
+import { createScreeningProvider, getScreeningProvider } from './index';
+
+const request = {
+  externalId: 'screening_1',
+  subject: { firstName: 'Tina', lastName: 'Tenant', email: 'tina@example.com' },
+};
+
+describe('StubScreeningProvider', () => {
+  describe('requestScreening', () => {
+    it('should start orders in progress', async () => {
+      const provider = new StubScreeningProvider();
+      const report = await provider.requestScreening(request);
+
+      expect(report.referenceId).toMatch(/^scr_/);
+      expect(report.status).toBe('in_progress');
+      expect((await provider.getScreeningReport(report.referenceId)).status).toBe('in_progress');
+    });
+
+    it('should require an applicant email', async () => {
+      const provider = new StubScreeningProvider();
+      await expect(
+        provider.requestScreening({ ...request, subject: { ...request.subject, email: '' } })
+      ).rejects.toThrow('email');
+    });
+  });
+
+  describe('simulateCompletion', () => {
+    it('should default to a clean report', async () => {
+      const provider = new StubScreeningProvider();
+      const { referenceId } = await provider.requestScreening(request);
+
+      const report = provider.simulateCompletion(referenceId);
+      expect(report.status).toBe('completed');
+      expect(report.criminalCheck).toBe('clear');
+      expect(report.evictionHistory).toBe('clear');
+      expect(report.identityVerified).toBe(true);
+      expect(report.completedAt).toBeDefined();
+    });
+
+    it('should apply the given outcome', async () => {
+      const provider = new StubScreeningProvider();
+      const { referenceId } = await provider.requestScreening(request);
+
+      provider.simulateCompletion(referenceId, { evictionHistory: 'flagged', creditScore: 540 });
+      const report = await provider.getScreeningReport(referenceId);
+      expect(report.evictionHistory).toBe('flagged');
+      expect(report.creditScore).toBe(540);
+    });
+
+    it('should reject unknown orders', () => {
+      expect(() => new StubScreeningProvider().simulateCompletion('scr_unknown')).toThrow('not found');
+    });
+  });
+
+  describe('parseWebhook', () => {
+    const body = JSON.stringify({ referenceId: 'scr_1', status: 'completed', criminalCheck: 'flagged' });
+
+    it('should accept a payload signed with the webhook secret', async () => {
+      const provider = new StubScreeningProvider({ webhookSecret: 'shh' });
+      const headers = new Headers({ [STUB_SCREENING_SIGNATURE_HEADER]: await signStubScreeningPayload('shh', body) });
+
+      const report = await provider.parseWebhook(body, headers);
+      expect(report?.referenceId).toBe('scr_1');
+      expect(report?.criminalCheck).toBe('flagged');
+      expect(report?.completedAt).toBeDefined();
+    });
+
+    it('should reject missing or invalid signatures when a secret is configured', async () => {
+      const provider = new StubScreeningProvider({ webhookSecret: 'shh' });
+
+      expect(await provider.parseWebhook(body, new Headers())).toBeNull();
+      expect(
+        await provider.parseWebhook(
+          body,
+          new Headers({ [STUB_SCREENING_SIGNATURE_HEADER]: await signStubScreeningPayload('wrong', body) })
+        )
+      ).toBeNull();
+    });
+
+    it('should reject malformed payloads and unknown statuses', async () => {
+      const provider = new StubScreeningProvider();
+
+      expect(await provider.parseWebhook('not json', new Headers())).toBeNull();
+      expect(
+        await provider.parseWebhook(JSON.stringify({ referenceId: 'scr_1', status: 'approved' }), new Headers())
+      ).toBeNull();
+    });
+  });
+});
+
+describe('Screening provider registry', () => {
+  it('should default to the stub provider', () => {
+    expect(getScreeningProvider({}).name).toBe('stub');
+  });
+
+  it('should list available providers for an unknown name', () => {
+    expect(() => createScreeningProvider({ provider: 'certn' })).toThrow('Available providers: stub');
+  });
+});
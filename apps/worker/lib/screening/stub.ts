@@ -0,0 +1,118 @@
+import type { ScreeningStatus } from '../../../../shared/types';
+import { generateId, hmacSha256Hex, timingSafeEqual } from '../../../../shared/utils';
+import type { IScreeningProvider, ScreeningConfig, ScreeningReport, ScreeningRequest } from './provider';
+
+/**
+ * Header carrying the hex HMAC-SHA256 of the raw webhook body
+ */
+export const STUB_SCREENING_SIGNATURE_HEADER = 'X-Screening-Signature';
+
+const STATUSES: ScreeningStatus[] = ['pending', 'in_progress', 'completed', 'failed'];
+
+/**
+ * Local screening provider for development and tests.
+ *
+ * Orders start 'in_progress' and live in memory for the lifetime of the
+ * instance. Results arrive via simulateCompletion() or by posting a
+ * webhook payload:
+ *   { referenceId, status, creditScore?, criminalCheck?, evictionHistory?, identityVerified? }
+ * signed with SCREENING_WEBHOOK_SECRET in the X-Screening-Signature header.
+ * Without a configured secret, unsigned payloads are accepted.
+ */
+export class StubScreeningProvider implements IScreeningProvider {
+  readonly name = 'stub';
+  private reports = new Map<string, ScreeningReport>();
+  private webhookSecret?: string;
+
+  constructor(config: Partial<ScreeningConfig> = {}) {
+    this.webhookSecret = config.webhookSecret;
+  }
+
+  async requestScreening(request: ScreeningRequest): Promise<ScreeningReport> {
+    if (!request.subject.email) {
+      throw new Error('Applicant email is required for screening');
+    }
+
+    const report: ScreeningReport = {
+      referenceId: generateId('scr'),
+      status: 'in_progress',
+    };
+    this.reports.set(report.referenceId, report);
+
+    return { ...report };
+  }
+
+  async getScreeningReport(referenceId: string): Promise<ScreeningReport> {
+    const report = this.reports.get(referenceId);
+    if (!report) {
+      throw new Error(`Screening ${referenceId} not found`);
+    }
+    return { ...report };
+  }
+
+  async parseWebhook(body: string, headers: Headers): Promise<ScreeningReport | null> {
+    if (this.webhookSecret) {
+      const signature = headers.get(STUB_SCREENING_SIGNATURE_HEADER);
+      if (!signature) return null;
+
+      const expected = await hmacSha256Hex(this.webhookSecret, body);
+      if (!timingSafeEqual(signature.toLowerCase(), expected)) return null;
+    }
+
+    let payload: Partial<ScreeningReport>;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return null;
+    }
+
+    if (!payload.referenceId || !payload.status || !STATUSES.includes(payload.status)) {
+      return null;
+    }
+
+    const report: ScreeningReport = {
+      referenceId: payload.referenceId,
+      status: payload.status,
+      creditScore: payload.creditScore,
+      criminalCheck: payload.criminalCheck,
+      evictionHistory: payload.evictionHistory,
+      identityVerified: payload.identityVerified,
+      report: payload.report,
+      completedAt:
+        payload.completedAt || (payload.status === 'completed' || payload.status === 'failed' ? new Date().toISOString() : undefined),
+    };
+    this.reports.set(report.referenceId, report);
+
+    return report;
+  }
+
+  /**
+   * Complete an order. Defaults to a clean report.
+   */
+  simulateCompletion(referenceId: string, outcome: Partial<Omit<ScreeningReport, 'referenceId'>> = {}): ScreeningReport {
+    if (!this.reports.has(referenceId)) {
+      throw new Error(`Screening ${referenceId} not found`);
+    }
+
+    const report: ScreeningReport = {
+      referenceId,
+      status: 'completed',
+      creditScore: 720,
+      criminalCheck: 'clear',
+      evictionHistory: 'clear',
+      identityVerified: true,
+      completedAt: new Date().toISOString(),
+      ...outcome,
+    };
+    this.reports.set(referenceId, report);
+
+    return { ...report };
+  }
+}
+
+/**
+ * Sign a stub webhook body (for local testing and tooling)
+ */
+export function signStubScreeningPayload(secret: string, body: string): Promise<string> {
+  return hmacSha256Hex(secret, body);
+}
@@ -0,0 +1,18 @@
+/**
+ * Links into a site's storefront (apps/site) for emails the worker sends
+ */
+
+import type { CloudflareEnv } from '../../../shared/config';
+
+/**
+ * Absolute storefront URL for a path, or null when STOREFRONT_URL isn't set
+ */
+export function buildStorefrontUrl(
+  env: Pick<CloudflareEnv, 'STOREFRONT_URL'>,
+  siteId: string,
+  path: string
+): string | null {
+  if (!env.STOREFRONT_URL) return null;
+  const base = env.STOREFRONT_URL.replace('{siteId}', siteId).replace(/\/+$/, '');
+  return `${base}${path}`;
+}
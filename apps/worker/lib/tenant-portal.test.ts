@@ -0,0 +1,69 @@
+/**
+ * Unit tests for tenant portal helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Lease, Tenant } from '~/shared/types';
+import { canUsePortal, pickCurrentLease } from './tenant-portal';
+
+const lease = (overrides: Partial<Lease>): Lease => ({
+  id: overrides.id || 'lease_1',
+  propertyId: 'prop_1',
+  tenantId: 'tenant_1',
+  startDate: '2025-01-01',
+  endDate: '2025-12-31',
+  monthlyRent: 2000,
+  securityDeposit: 2000,
+  status: 'active',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const tenant = (status: Tenant['status']): Tenant => ({
+  id: 'tenant_1',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  email: 'jane@example.com',
+  phone: '555-0100',
+  status,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+describe('Tenant portal', () => {
+  describe('pickCurrentLease', () => {
+    it('should prefer an active lease over newer leases in other statuses', () => {
+      const picked = pickCurrentLease([
+        lease({ id: 'renewal', status: 'pending_signature' }),
+        lease({ id: 'current', status: 'active' }),
+        lease({ id: 'old', status: 'expired' }),
+      ]);
+      expect(picked?.id).toBe('current');
+    });
+
+    it('should fall back to the most recent ended lease', () => {
+      const picked = pickCurrentLease([
+        lease({ id: 'newer', status: 'terminated' }),
+        lease({ id: 'older', status: 'expired' }),
+        lease({ id: 'oldest', status: 'terminated' }),
+      ]);
+      expect(picked?.id).toBe('older');
+    });
+
+    it('should never show a draft lease', () => {
+      expect(pickCurrentLease([lease({ status: 'draft' })])).toBeUndefined();
+      expect(pickCurrentLease([])).toBeUndefined();
+    });
+  });
+
+  describe('canUsePortal', () => {
+    it('should allow current and former tenants but not removed ones', () => {
+      expect(canUsePortal(tenant('active'))).toBe(true);
+      expect(canUsePortal(tenant('moving_out'))).toBe(true);
+      expect(canUsePortal(tenant('terminated'))).toBe(true);
+      expect(canUsePortal(tenant('inactive'))).toBe(false);
+      expect(canUsePortal(tenant('evicted'))).toBe(false);
+    });
+  });
+});
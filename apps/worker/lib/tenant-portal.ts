@@ -0,0 +1,61 @@
+/**
+ * Tenant portal helpers
+ *
+ * Tenants sign in with a single-use emailed link, which the storefront
+ * exchanges for a session token (see routes/portal.ts).
+ */
+
+import type { Lease, Tenant } from '../../../shared/types';
+import { getEmailProvider } from './email';
+import type { EmailProviderEnv } from './email';
+
+export const PORTAL_LOGIN_LINK_TTL_SECONDS = 15 * 60;
+export const PORTAL_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Former tenants (terminated) keep access, e.g. to see a final balance
+const PORTAL_BLOCKED_STATUSES: Tenant['status'][] = ['inactive', 'evicted'];
+
+export function canUsePortal(tenant: Tenant): boolean {
+  return !PORTAL_BLOCKED_STATUSES.includes(tenant.status);
+}
+
+// Drafts are still being prepared by staff and never shown to the tenant
+const LEASE_PRIORITY: Lease['status'][] = ['active', 'signed', 'pending_signature', 'expired', 'terminated'];
+
+/**
+ * The lease the portal shows: an active or signed lease first, otherwise the
+ * most recent one in the next best status. Expects leases newest first.
+ */
+export function pickCurrentLease(leases: Lease[]): Lease | undefined {
+  for (const status of LEASE_PRIORITY) {
+    const lease = leases.find((l) => l.status === status);
+    if (lease) return lease;
+  }
+  return undefined;
+}
+
+/**
+ * Email a login link. Sent directly rather than through the communications
+ * queue: the link expires in minutes, so a delayed retry is useless, and it
+ * shouldn't sit readable in the staff-visible communication history.
+ */
+export async function sendPortalLoginLink(
+  env: EmailProviderEnv,
+  tenant: Tenant,
+  link: string
+): Promise<void> {
+  const provider = getEmailProvider(env);
+  await provider.send({
+    to: { email: tenant.email, name: `${tenant.firstName} ${tenant.lastName}` },
+    subject: 'Your tenant portal sign-in link',
+    text: [
+      `Hi ${tenant.firstName},`,
+      '',
+      'Use the link below to sign in to your tenant portal. It works once and expires in 15 minutes.',
+      '',
+      link,
+      '',
+      "If you didn't ask to sign in, you can ignore this email.",
+    ].join('\n'),
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for work order attachment validation and signed downloads
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ATTACHMENT_URL_TTL_SECONDS,
+  createAttachmentDownloadUrl,
+  validateWorkOrderAttachment,
+  verifyAttachmentDownload,
+} from './work-order-attachments';
+
+const MB = 1024 * 1024;
+
+describe('validateWorkOrderAttachment', () => {
+  it('accepts photos and videos within their limits', () => {
+    expect(validateWorkOrderAttachment({ type: 'image/jpeg', size: 2 * MB }, 0)).toBeNull();
+    expect(validateWorkOrderAttachment({ type: 'video/mp4', size: 40 * MB }, 9)).toBeNull();
+  });
+
+  it('rejects unsupported types, oversized files and full work orders', () => {
+    expect(validateWorkOrderAttachment({ type: 'application/pdf', size: MB }, 0)?.status).toBe(415);
+    expect(validateWorkOrderAttachment({ type: 'image/png', size: 40 * MB }, 0)?.status).toBe(413);
+    expect(validateWorkOrderAttachment({ type: 'video/webm', size: 60 * MB }, 0)?.status).toBe(413);
+    expect(validateWorkOrderAttachment({ type: 'image/png', size: MB }, 10)?.status).toBe(400);
+  });
+});
+
+describe('signed attachment downloads', () => {
+  const secret = 'test-signing-secret';
+  const now = new Date('2025-06-01T12:00:00.000Z');
+
+  async function signedParams(siteId = 'site_1', attachmentId = 'woatt_1') {
+    const { url } = await createAttachmentDownloadUrl(secret, 'https://worker.example.com', siteId, attachmentId, now);
+    const params = new URL(url).searchParams;
+    return { expires: params.get('expires')!, signature: params.get('signature')! };
+  }
+
+  it('verifies a URL it issued until it expires', async () => {
+    const { expires, signature } = await signedParams();
+    expect(await verifyAttachmentDownload(secret, 'site_1', 'woatt_1', expires, signature, now)).toBe(true);
+
+    const later = new Date(now.getTime() + (ATTACHMENT_URL_TTL_SECONDS + 1) * 1000);
+    expect(await verifyAttachmentDownload(secret, 'site_1', 'woatt_1', expires, signature, later)).toBe(false);
+  });
+
+  it('rejects a signature reused for another site, file or expiry', async () => {
+    const { expires, signature } = await signedParams();
+    expect(await verifyAttachmentDownload(secret, 'site_2', 'woatt_1', expires, signature, now)).toBe(false);
+    expect(await verifyAttachmentDownload(secret, 'site_1', 'woatt_2', expires, signature, now)).toBe(false);
+    expect(await verifyAttachmentDownload(secret, 'site_1', 'woatt_1', String(Number(expires) + 60), signature, now)).toBe(false);
+    expect(await verifyAttachmentDownload('other-secret', 'site_1', 'woatt_1', expires, signature, now)).toBe(false);
+  });
+});
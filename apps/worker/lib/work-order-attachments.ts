@@ -0,0 +1,202 @@
+/**
+ * Work order photo and video storage
+ *
+ * Files live in the private bucket under {siteId}/work-orders/{workOrderId}/.
+ * Tenants reach them through the portal (which checks ownership); ops gets
+ * short-lived signed URLs served by routes/files.ts so <img>/<video> tags
+ * can load them without credentials.
+ */
+
+import { createWorkOrderAttachment, deleteWorkOrderAttachment } from './db/work-order-attachments';
+import { WORK_ORDER_ATTACHMENT_CONSTRAINTS } from '../../../shared/config';
+import type { CloudflareEnv } from '../../../shared/config';
+import type { WorkOrderAttachment } from '../../../shared/types';
+import { generateId, hmacSha256Hex, timingSafeEqual } from '../../../shared/utils';
+
+export const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+export interface AttachmentValidationError {
+  status: 400 | 413 | 415;
+  error: string;
+  message: string;
+}
+
+const MB = 1024 * 1024;
+
+export function isVideoMimeType(mimeType: string): boolean {
+  return (WORK_ORDER_ATTACHMENT_CONSTRAINTS.allowedVideoTypes as readonly string[]).includes(mimeType);
+}
+
+/**
+ * Check type, size and the per-work-order limit before anything is stored
+ */
+export function validateWorkOrderAttachment(
+  file: { type: string; size: number },
+  existingCount: number
+): AttachmentValidationError | null {
+  const { allowedImageTypes, maxImageSize, maxVideoSize, maxAttachmentsPerWorkOrder } = WORK_ORDER_ATTACHMENT_CONSTRAINTS;
+  const isVideo = isVideoMimeType(file.type);
+
+  if (!isVideo && !(allowedImageTypes as readonly string[]).includes(file.type)) {
+    return {
+      status: 415,
+      error: 'Unsupported file type',
+      message: `File type ${file.type || 'unknown'} is not allowed`,
+    };
+  }
+
+  const maxSize = isVideo ? maxVideoSize : maxImageSize;
+  if (file.size > maxSize) {
+    return {
+      status: 413,
+      error: 'File too large',
+      message: `${isVideo ? 'Videos' : 'Photos'} can be at most ${maxSize / MB}MB`,
+    };
+  }
+
+  if (existingCount >= maxAttachmentsPerWorkOrder) {
+    return {
+      status: 400,
+      error: 'Too many files',
+      message: `A work order can have at most ${maxAttachmentsPerWorkOrder} photos and videos`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Store an uploaded file and record it against the work order
+ */
+export async function storeWorkOrderAttachment(
+  env: Pick<CloudflareEnv, 'DB' | 'PRIVATE_BUCKET'>,
+  siteId: string,
+  workOrderId: string,
+  file: File,
+  uploadedBy: { tenantId?: string; userId?: string }
+): Promise<WorkOrderAttachment> {
+  const id = generateId('woatt');
+  const r2Key = `${siteId}/work-orders/${workOrderId}/${id}-${file.name}`;
+
+  await env.PRIVATE_BUCKET.put(r2Key, file.stream(), {
+    httpMetadata: { contentType: file.type },
+  });
+
+  return createWorkOrderAttachment(env.DB, siteId, {
+    id,
+    workOrderId,
+    fileName: file.name,
+    fileSize: file.size,
+    mimeType: file.type,
+    r2Key,
+    uploadedByTenantId: uploadedBy.tenantId,
+    uploadedByUserId: uploadedBy.userId,
+  });
+}
+
+export async function removeWorkOrderAttachment(
+  env: Pick<CloudflareEnv, 'DB' | 'PRIVATE_BUCKET'>,
+  siteId: string,
+  attachment: WorkOrderAttachment
+): Promise<void> {
+  await env.PRIVATE_BUCKET.delete(attachment.r2Key);
+  await deleteWorkOrderAttachment(env.DB, siteId, attachment.id);
+}
+
+// ==================== SIGNED DOWNLOADS ====================
+
+function signaturePayload(siteId: string, attachmentId: string, expires: number): string {
+  return `work-order-attachment:${siteId}:${attachmentId}:${expires}`;
+}
+
+/**
+ * Signed URL for an attachment on this worker, valid for ATTACHMENT_URL_TTL_SECONDS
+ */
+export async function createAttachmentDownloadUrl(
+  secret: string,
+  origin: string,
+  siteId: string,
+  attachmentId: string,
+  now: Date = new Date()
+): Promise<{ url: string; expiresAt: string }> {
+  const expires = Math.floor(now.getTime() / 1000) + ATTACHMENT_URL_TTL_SECONDS;
+  const signature = await hmacSha256Hex(secret, signaturePayload(siteId, attachmentId, expires));
+
+  const url = new URL(`/api/files/work-order-attachments/${attachmentId}`, origin);
+  url.searchParams.set('site', siteId);
+  url.searchParams.set('expires', String(expires));
+  url.searchParams.set('signature', signature);
+
+  return { url: url.toString(), expiresAt: new Date(expires * 1000).toISOString() };
+}
+
+export async function verifyAttachmentDownload(
+  secret: string,
+  siteId: string,
+  attachmentId: string,
+  expires: string,
+  signature: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < Math.floor(now.getTime() / 1000)) {
+    return false;
+  }
+  const expected = await hmacSha256Hex(secret, signaturePayload(siteId, attachmentId, expiresAt));
+  return timingSafeEqual(expected, signature);
+}
+
+/**
+ * Add signed URLs to attachments for ops viewing
+ */
+export async function withSignedUrls(
+  secret: string,
+  origin: string,
+  siteId: string,
+  attachments: WorkOrderAttachment[]
+): Promise<WorkOrderAttachment[]> {
+  return Promise.all(
+    attachments.map(async (attachment) => {
+      const { url, expiresAt } = await createAttachmentDownloadUrl(secret, origin, siteId, attachment.id);
+      return { ...attachment, signedUrl: url, expiresAt };
+    })
+  );
+}
+
+// ==================== SERVING ====================
+
+/**
+ * Stream a stored file, honouring Range requests so videos can seek
+ * (Safari won't play video without them). Returns null if the object is missing.
+ */
+export async function serveStoredFile(
+  bucket: R2Bucket,
+  file: { r2Key: string; fileName: string; mimeType: string },
+  request: Request,
+  cacheControl: string
+): Promise<Response | null> {
+  const rangeRequested = request.headers.has('Range');
+  const object = await bucket.get(file.r2Key, rangeRequested ? { range: request.headers } : undefined);
+  if (!object) {
+    return null;
+  }
+
+  const headers = new Headers({
+    'Content-Type': file.mimeType,
+    'Content-Disposition': `inline; filename="${file.fileName.replace(/"/g, '')}"`,
+    'Cache-Control': cacheControl,
+    'Accept-Ranges': 'bytes',
+  });
+
+  const range = object.range as { offset?: number; length?: number; suffix?: number } | undefined;
+  if (rangeRequested && range) {
+    const offset = range.suffix !== undefined ? object.size - range.suffix : range.offset ?? 0;
+    const length = range.suffix !== undefined ? range.suffix : range.length ?? object.size - offset;
+    headers.set('Content-Range', `bytes ${offset}-${offset + length - 1}/${object.size}`);
+    headers.set('Content-Length', String(length));
+    return new Response(object.body, { status: 206, headers });
+  }
+
+  headers.set('Content-Length', String(object.size));
+  return new Response(object.body, { headers });
+}
@@ -2,14 +2,21 @@
  * Internal Authentication Middleware
  *
  * Validates requests from apps/ops to worker (/api/ops/*)
- * Three options available - currently using Option 1 (trust)
+ * Four options available - currently using Option 4 (signature)
  */
 
 import type { Context, Next } from 'hono';
+import { recordRequestNonce } from '../lib/db';
+import {
+  parseSigningKeys,
+  verifyRequestSignature,
+  REQUEST_SIGNATURE_MAX_AGE_SECONDS,
+} from '../../../shared/utils';
 
 /**
- * Option 1: Trust all requests (simplest, recommended for internal services)
- * No authentication - assumes ops app is trusted
+ * Option 1: Trust all requests
+ * No authentication - assumes ops app is trusted and the worker is unreachable
+ * from anywhere else
  */
 export async function trustMiddleware(c: Context, next: Next) {
   await next();
@@ -50,9 +57,66 @@ export async function contextMiddleware(c: Context, next: Next) {
   await next();
 }
 
-// Export the chosen option (default: trust)
-export const internalAuthMiddleware = trustMiddleware;
+/**
+ * Option 4: Signed requests
+ * Verifies the HMAC signature apps/ops adds to every call (see
+ * shared/utils/request-signing.ts) against WORKER_INTERNAL_KEY, a list of
+ * "id:secret" keys so an old key can stay accepted while it is rotated out.
+ * The signature binds X-User-Id and X-Site-Id, so they can be trusted
+ * afterwards. State-changing requests have their nonce recorded, and a
+ * repeated nonce is rejected as a replay; reads are only bounded by the
+ * timestamp window.
+ */
+export async function signatureMiddleware(c: Context, next: Next) {
+  const keys = parseSigningKeys(c.env.WORKER_INTERNAL_KEY);
+  if (keys.length === 0) {
+    console.error('Signature middleware: WORKER_INTERNAL_KEY is not configured');
+    return c.json({ error: 'Unauthorized', message: 'Request signing is not configured' }, 401);
+  }
+
+  const url = new URL(c.req.url);
+  const method = c.req.method.toUpperCase();
+  const userId = c.req.header('X-User-Id');
+  const siteId = c.req.header('X-Site-Id');
+
+  try {
+    // Clone so route handlers can still read the body
+    const body = method === 'GET' || method === 'HEAD'
+      ? null
+      : await c.req.raw.clone().arrayBuffer();
+
+    const result = await verifyRequestSignature(
+      keys,
+      { method, path: url.pathname + url.search, body, userId, siteId },
+      c.req.raw.headers
+    );
+
+    if (!result.valid) {
+      return c.json({ error: 'Unauthorized', message: `Invalid request signature (${result.reason})` }, 401);
+    }
+
+    if (method !== 'GET' && method !== 'HEAD') {
+      const expiresAt = new Date((result.timestamp + REQUEST_SIGNATURE_MAX_AGE_SECONDS) * 1000).toISOString();
+      const fresh = await recordRequestNonce(c.env.DB, result.nonce, result.keyId, expiresAt);
+      if (!fresh) {
+        return c.json({ error: 'Unauthorized', message: 'Request has already been processed' }, 401);
+      }
+    }
+  } catch (error) {
+    console.error('Signature middleware error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+
+  if (userId) c.set('userId', userId);
+  if (siteId) c.set('siteId', siteId);
+
+  await next();
+}
+
+// Export the chosen option (default: signature)
+export const internalAuthMiddleware = signatureMiddleware;
 
 // To switch to another option, change the export above:
+// export const internalAuthMiddleware = trustMiddleware;
 // export const internalAuthMiddleware = keyMiddleware;
 // export const internalAuthMiddleware = contextMiddleware;
@@ -0,0 +1,102 @@
+/**
+ * Route Permission Middleware
+ *
+ * Declares what each /api/ops/* route requires of the acting user:
+ *
+ *   opsRoutes.post('/leases', requirePermission('leases:write'), async (c) => ...)
+ *
+ * The acting user is the signed X-User-Id (see middleware/internal.ts). Their
+ * site access and role come from userAccessMiddleware, and the check uses
+ * the role matrix in shared/utils/permissions.ts. Ops sends the signed-in
+ * user on every call; only the routes in SYSTEM_ROUTES (the login lookup)
+ * may be called without one. Anything else without X-User-Id is a 401.
+ *
+ * Every rejection is a 403 with the same payload:
+ *   { error: 'Forbidden', message, permission? }
+ */
+
+import type { Context, Next } from 'hono';
+import { getRequestAccess } from './user-access';
+import { isUserSuperAdmin } from '../lib/db/users';
+import { hasPermission } from '../../../shared/utils';
+import type { Permission } from '../../../shared/types';
+
+interface PermissionOptions {
+  // Route param holding a user id; that user may act on their own record
+  allowSelf?: string;
+}
+
+// Routes ops calls before anyone is signed in, so without an acting user
+const SYSTEM_ROUTES: Array<{ method: string; path: RegExp }> = [
+  // Login: look up the user by email to check their password
+  { method: 'GET', path: /^\/api\/ops\/users\/email\/[^/]+$/ },
+];
+
+/**
+ * Whether the request is for a route that may be called without an acting user
+ */
+export function isSystemRoute(c: Context): boolean {
+  const method = c.req.method.toUpperCase();
+  return SYSTEM_ROUTES.some((route) => route.method === method && route.path.test(c.req.path));
+}
+
+export function missingUser(c: Context) {
+  return c.json({
+    error: 'Unauthorized',
+    message: 'Missing acting user (X-User-Id)',
+  }, 401);
+}
+
+export function forbidden(c: Context, message: string, permission?: Permission) {
+  return c.json({
+    error: 'Forbidden',
+    message,
+    ...(permission ? { permission } : {}),
+  }, 403);
+}
+
+export function requirePermission(permission: Permission, options: PermissionOptions = {}) {
+  return async function permissionMiddleware(c: Context, next: Next) {
+    const userId = c.req.header('X-User-Id');
+    if (!userId) {
+      if (!isSystemRoute(c)) {
+        return missingUser(c);
+      }
+      await next();
+      return;
+    }
+
+    if (options.allowSelf && c.req.param(options.allowSelf) === userId) {
+      await next();
+      return;
+    }
+
+    const access = getRequestAccess(c);
+    if (!access) {
+      return forbidden(c, 'User does not have access to this site', permission);
+    }
+
+    if (!hasPermission(access, permission)) {
+      return forbidden(c, `Your role does not have the ${permission} permission`, permission);
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Only super admins, e.g. for granting super admin or access to other sites
+ */
+export async function requireSuperAdmin(c: Context, next: Next) {
+  const userId = c.req.header('X-User-Id');
+  if (!userId) {
+    return missingUser(c);
+  }
+
+  const isSuperAdmin = getRequestAccess(c)?.isSuperAdmin ?? await isUserSuperAdmin(c.env.DB, userId);
+  if (!isSuperAdmin) {
+    return forbidden(c, 'Only super admins can do this');
+  }
+
+  await next();
+}
@@ -0,0 +1,39 @@
+/**
+ * Tenant Session Authentication Middleware
+ *
+ * Validates tenant portal session tokens for /api/portal/*
+ * Sessions are issued by POST /api/public/portal/sessions after a tenant
+ * follows their emailed login link; apps/site forwards the token it keeps
+ * in the tenant's cookie. This is separate from the site API token.
+ */
+
+import type { Context, Next } from 'hono';
+import { getPortalSession } from '../lib/db/tenant-portal';
+
+export async function tenantAuthMiddleware(c: Context, next: Next) {
+  const auth = c.req.header('Authorization');
+
+  if (!auth?.startsWith('Bearer ')) {
+    return c.json({ error: 'Unauthorized', message: 'Missing or invalid Authorization header' }, 401);
+  }
+
+  const token = auth.replace('Bearer ', '');
+
+  try {
+    const session = await getPortalSession(c.env.DB, token);
+
+    if (!session) {
+      return c.json({ error: 'Unauthorized', message: 'Invalid or expired session' }, 401);
+    }
+
+    // Store tenant context for route handlers
+    c.set('siteId', session.siteId);
+    c.set('tenantId', session.tenantId);
+    c.set('sessionToken', token);
+
+    await next();
+  } catch (error) {
+    console.error('Tenant auth middleware error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
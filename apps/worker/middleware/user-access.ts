@@ -0,0 +1,188 @@
+/**
+ * User Access Middleware
+ *
+ * Resolves the acting ops user's role and property scope for /api/ops/*
+ * from the X-User-Id and X-Site-Id headers, and stores it as `access` for
+ * route handlers (see shared/utils/permissions.ts).
+ *
+ * Requests without X-User-Id are rejected unless they hit a system route
+ * (see SYSTEM_ROUTES in ./permissions). Without X-Site-Id no access is
+ * resolved, so only a user's own records are reachable.
+ *
+ * Routes that act on one record check its property against the user's scope
+ * with the check*Access helpers below (403 outside it).
+ */
+
+import type { Context, Next } from 'hono';
+import { getUserAccess } from '../lib/db/users';
+import { getApplicantById } from '../lib/db/application-applicants';
+import { getDocumentById } from '../lib/db/application-documents';
+import { getNoteById } from '../lib/db/application-internal-notes';
+import { getImageById } from '../lib/db/images';
+import { getLeadById } from '../lib/db/leads';
+import { getLeaseById } from '../lib/db/leases';
+import { getNoticeById } from '../lib/db/notices';
+import { getPropertyById } from '../lib/db/properties';
+import { getTenantById, getTenantPropertyIds } from '../lib/db/tenants';
+import { getUnitById } from '../lib/db/units';
+import { getWorkOrderById } from '../lib/db/work-orders';
+import { forbidden, isSystemRoute, missingUser } from './permissions';
+import type { UserAccess } from '../../../shared/types';
+import { canAccessProperty } from '../../../shared/utils';
+
+export async function userAccessMiddleware(c: Context, next: Next) {
+  const userId = c.req.header('X-User-Id');
+  const siteId = c.req.header('X-Site-Id');
+
+  if (!userId) {
+    if (isSystemRoute(c)) {
+      await next();
+      return;
+    }
+    return missingUser(c);
+  }
+
+  if (!siteId) {
+    await next();
+    return;
+  }
+
+  try {
+    const access = await getUserAccess(c.env.DB, userId, siteId);
+
+    if (!access) {
+      return forbidden(c, 'User does not have access to this site');
+    }
+
+    c.set('access', access);
+  } catch (error) {
+    console.error('User access middleware error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+
+  await next();
+}
+
+/**
+ * Access resolved for the current request, or undefined for system routes
+ * and calls without a site
+ */
+export function getRequestAccess(c: Context): UserAccess | undefined {
+  return c.get('access') as UserAccess | undefined;
+}
+
+/**
+ * 403 response unless the acting user's property scope covers the record's
+ * property (any of them, for a record tied to several), or null to go ahead.
+ * A record without a property is only reachable by users with no scope.
+ */
+export function denyPropertyAccess(
+  c: Context,
+  propertyId: string | null | undefined | Array<string | null | undefined>
+): Response | null {
+  const access = getRequestAccess(c);
+  const propertyIds = Array.isArray(propertyId) ? propertyId : [propertyId];
+  if (canAccessProperty(access, null) || propertyIds.some((id) => canAccessProperty(access, id))) {
+    return null;
+  }
+  return forbidden(c, 'User does not have access to this property');
+}
+
+// Checks for routes that act on one record. Each returns the response to send
+// instead (404 if the record doesn't exist, 403 if its property is outside
+// the user's scope) or null to go ahead.
+
+function notFound(c: Context, message: string): Response {
+  return c.json({ error: 'Not found', message }, 404);
+}
+
+export async function checkPropertyAccess(c: Context, siteId: string, id: string): Promise<Response | null> {
+  const property = await getPropertyById(c.env.DB, siteId, id);
+  if (!property) return notFound(c, 'Property not found');
+  return denyPropertyAccess(c, property.id);
+}
+
+export async function checkUnitAccess(c: Context, siteId: string, id: string): Promise<Response | null> {
+  const unit = await getUnitById(c.env.DB, siteId, id);
+  if (!unit) return notFound(c, 'Unit not found');
+  return denyPropertyAccess(c, unit.propertyId);
+}
+
+// Images belong to a property or one of its units
+export async function checkImageEntityAccess(
+  c: Context,
+  siteId: string,
+  entityType: string,
+  entityId: string
+): Promise<Response | null> {
+  return entityType === 'unit' ? checkUnitAccess(c, siteId, entityId) : checkPropertyAccess(c, siteId, entityId);
+}
+
+export async function checkImageAccess(c: Context, siteId: string, id: string): Promise<Response | null> {
+  const image = await getImageById(c.env.DB, siteId, id);
+  if (!image) return notFound(c, 'Image not found');
+  return checkImageEntityAccess(c, siteId, image.entityType, image.entityId);
+}
+
+export async function checkLeadAccess(c: Context, siteId: string, id: string): Promise<Response | null> {
+  const lead = await getLeadById(c.env.DB, siteId, id);
+  if (!lead) return notFound(c, 'Lead not found');
+  return denyPropertyAccess(c, lead.propertyId);
+}
+
+export async function checkTenantAccess(c: Context, siteId: string, id: string): Promise<Response | null> {
+  const tenant = await getTenantById(c.env.DB, siteId, id);
+  if (!tenant) return notFound(c, 'Tenant not found');
+  // Users without a property scope don't need the lookup
+  if (canAccessProperty(getRequestAccess(c), null)) return null;
+  return denyPropertyAccess(c, await getTenantPropertyIds(c.env.DB, siteId, id));
+}
+
+export async function checkNoticeAccess(c: Context, siteId: string, id: string): Promise<Response | null> {
+  const notice = await getNoticeById(c.env.DB, siteId, id);
+  if (!notice) return notFound(c, 'Notice not found');
+  // A notice without a lease goes with its tenant
+  if (!notice.propertyId) return checkTenantAccess(c, siteId, notice.tenantId);
+  return denyPropertyAccess(c, notice.propertyId);
+}
+
+export async function checkLeaseAccess(c: Context, siteId: string, id: string): Promise<Response | null> {
+  const lease = await getLeaseById(c.env.DB, siteId, id);
+  if (!lease) return notFound(c, 'Lease not found');
+  return denyPropertyAccess(c, lease.propertyId);
+}
+
+export async function checkWorkOrderAccess(c: Context, siteId: string, id: string): Promise<Response | null> {
+  const workOrder = await getWorkOrderById(c.env.DB, siteId, id);
+  if (!workOrder) return notFound(c, 'Work order not found');
+  return denyPropertyAccess(c, workOrder.propertyId);
+}
+
+/**
+ * An application (lead) and the applicants, documents and notes under it,
+ * which are looked up without a site: the application must also be on the
+ * acting user's site. Requests without a site have no access to check.
+ */
+export async function checkApplicationAccess(c: Context, applicationId: string): Promise<Response | null> {
+  const access = getRequestAccess(c);
+  if (!access) return null;
+  return checkLeadAccess(c, access.siteId, applicationId);
+}
+
+export async function checkApplicantAccess(c: Context, applicantId: string): Promise<Response | null> {
+  const applicant = await getApplicantById(c.env.DB, applicantId);
+  if (!applicant) return notFound(c, 'Applicant not found');
+  return checkApplicationAccess(c, applicant.applicationId);
+}
+
+export async function checkApplicationDocumentAccess(c: Context, documentId: string): Promise<Response | null> {
+  const document = await getDocumentById(c.env.DB, documentId);
+  if (!document) return notFound(c, 'Document not found');
+  return checkApplicationAccess(c, document.applicationId);
+}
+
+export async function checkApplicationNoteAccess(c: Context, noteId: string): Promise<Response | null> {
+  const note = await getNoteById(c.env.DB, noteId);
+  if (!note) return notFound(c, 'Note not found');
+  return checkApplicationAccess(c, note.applicationId);
+}
@@ -0,0 +1,52 @@
+/**
+ * Signed File Routes (/api/files/*)
+ *
+ * Serves private bucket files to browsers holding a short-lived signed URL
+ * (issued by the ops API). No other authentication: the signature is the
+ * credential, so it covers the site, the file and the expiry.
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getWorkOrderAttachmentById } from '../lib/db';
+import { serveStoredFile, verifyAttachmentDownload } from '../lib/work-order-attachments';
+import type { CloudflareEnv } from '../../../shared/config';
+
+type Bindings = CloudflareEnv;
+
+const fileRoutes = new Hono<{ Bindings: Bindings }>();
+
+/**
+ * GET /api/files/work-order-attachments/:id?site=&expires=&signature=
+ * Stream a work order photo or video
+ */
+fileRoutes.get('/work-order-attachments/:id', async (c: Context) => {
+  try {
+    const id = c.req.param('id');
+    const siteId = c.req.query('site') || '';
+    const expires = c.req.query('expires') || '';
+    const signature = c.req.query('signature') || '';
+
+    const secret = c.env.FILE_SIGNING_SECRET;
+    if (!secret || !(await verifyAttachmentDownload(secret, siteId, id, expires, signature))) {
+      return c.json({ error: 'Forbidden', message: 'Invalid or expired download link' }, 403);
+    }
+
+    const attachment = await getWorkOrderAttachmentById(c.env.DB, siteId, id);
+    const response = attachment
+      ? await serveStoredFile(c.env.PRIVATE_BUCKET, attachment, c.req.raw, 'private, max-age=300')
+      : null;
+    if (!response) {
+      return c.json({ error: 'Not found', message: 'File not found' }, 404);
+    }
+    return response;
+  } catch (error) {
+    console.error('Error serving signed file:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export { fileRoutes };
@@ -0,0 +1,119 @@
+/**
+ * AI Scoring Rubric API Routes (/api/ops/ai-rubric)
+ *
+ * Handles:
+ * - Reading the site's current (or a past) AI scoring rubric
+ * - Saving a new rubric version
+ *
+ * The AI cron evaluator scores with the current version and records it on
+ * each evaluation.
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getCurrentAIRubric, getAIRubricVersion, createAIRubricVersion } from '../lib/db/ai-rubrics';
+import { validateAIScoringRubric } from '../../../shared/utils';
+import { SaveAIScoringRubricSchema } from '../../../shared/config';
+import type { CloudflareEnv } from '../../../shared/config';
+import { requirePermission } from '../middleware/permissions';
+
+type Bindings = CloudflareEnv;
+
+const opsAIRubricRoutes = new Hono<{ Bindings: Bindings }>();
+
+// ==================== AI SCORING RUBRIC ====================
+
+/**
+ * GET /api/ops/ai-rubric
+ * Current scoring rubric, or a past one with ?version=N (0 is the built-in rubric)
+ */
+opsAIRubricRoutes.get('/ai-rubric', requirePermission('leads:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const versionParam = c.req.query('version');
+    const rubric = versionParam !== undefined
+      ? await getAIRubricVersion(c.env.DB, siteId, Number(versionParam))
+      : await getCurrentAIRubric(c.env.DB, siteId);
+
+    if (!rubric) {
+      return c.json({ error: 'Not found', message: 'Rubric version not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: rubric,
+    });
+  } catch (error) {
+    console.error('Error fetching AI rubric:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/ai-rubric
+ * Save the rubric as a new version
+ *
+ * Body: AIScoringRubric {
+ *   incomeTiers, employmentTiers: Array<{ below, deduction }>,
+ *   documentQualityDeductions: { excellent, good, poor },
+ *   riskFlagDeductions, fraudSignalDeductions: Record<string, number>,
+ *   labelCutoffs: { A, B },
+ *   disqualifyingFraudSignals, verificationFraudSignals: string[]
+ * }
+ */
+opsAIRubricRoutes.post('/ai-rubric', requirePermission('settings:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+
+    const parsed = SaveAIScoringRubricSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          error: 'Validation failed',
+          message: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+        },
+        400
+      );
+    }
+
+    const problems = validateAIScoringRubric(parsed.data);
+    if (problems.length > 0) {
+      return c.json({ error: 'Validation failed', message: problems.join(', ') }, 400);
+    }
+
+    const rubric = await createAIRubricVersion(c.env.DB, siteId, parsed.data, userId);
+
+    return c.json(
+      {
+        success: true,
+        data: rubric,
+      },
+      201
+    );
+  } catch (error) {
+    console.error('Error saving AI rubric:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+export default opsAIRubricRoutes;
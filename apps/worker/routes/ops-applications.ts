@@ -38,9 +38,9 @@ import {
   getTransitionsByApplicationId,
   getTransitionById,
   getLatestTransition,
-  createTransition,
   getBypassTransitions,
   getTransitionStats,
+  changeApplicationStage,
 } from '../lib/db/application-stage-transitions';
 import {
   getNotesByApplicationId,
@@ -53,9 +53,22 @@ import {
   getHighPriorityNotes,
   getNoteStats,
 } from '../lib/db/application-internal-notes';
-import { updateLead, getLeadById, recordLeadHistory } from '../lib/db/leads';
+import { getApplicationPipeline } from '../lib/db/application-pipelines';
+import { updateLead, getLeadById, recordLeadHistory, StageTransitionError } from '../lib/db/leads';
+import { sendEntityEmail } from '../lib/email';
+import { inviteApplicant } from '../lib/applicant-invites';
+import { emailApplicationStatusLink } from '../lib/application-status';
 
 import type { CloudflareEnv } from '../../../shared/config';
+import { checkPipelineTransition, findPipelineTarget, resolvePipelineStage } from '../../../shared/utils';
+import { requirePermission } from '../middleware/permissions';
+import {
+  checkApplicantAccess,
+  checkApplicationAccess,
+  checkApplicationDocumentAccess,
+  checkApplicationNoteAccess,
+  denyPropertyAccess,
+} from '../middleware/user-access';
 
 type Bindings = CloudflareEnv;
 
@@ -67,9 +80,11 @@ const opsApplicationsRoutes = new Hono<{ Bindings: Bindings }>();
  * GET /api/ops/applications/:applicationId/applicants
  * Get all applicants for an application
  */
-opsApplicationsRoutes.get('/applications/:applicationId/applicants', async (c: Context) => {
+opsApplicationsRoutes.get('/applications/:applicationId/applicants', requirePermission('leads:read'), async (c: Context) => {
   try {
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const applicants = await getApplicantsByApplicationId(c.env.DB, applicationId);
 
     return c.json({
@@ -89,9 +104,11 @@ opsApplicationsRoutes.get('/applications/:applicationId/applicants', async (c: C
  * GET /api/ops/applicants/:applicantId
  * Get a single applicant by ID
  */
-opsApplicationsRoutes.get('/applicants/:applicantId', async (c: Context) => {
+opsApplicationsRoutes.get('/applicants/:applicantId', requirePermission('leads:read'), async (c: Context) => {
   try {
     const applicantId = c.req.param('applicantId');
+    const denied = await checkApplicantAccess(c, applicantId);
+    if (denied) return denied;
     const applicant = await getApplicantById(c.env.DB, applicantId);
 
     if (!applicant) {
@@ -115,9 +132,11 @@ opsApplicationsRoutes.get('/applicants/:applicantId', async (c: Context) => {
  * POST /api/ops/applications/:applicationId/applicants
  * Create a new applicant for an application
  */
-opsApplicationsRoutes.post('/applications/:applicationId/applicants', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/:applicationId/applicants', requirePermission('leads:write'), async (c: Context) => {
   try {
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
     const body = await c.req.json();
 
@@ -129,14 +148,28 @@ opsApplicationsRoutes.post('/applications/:applicationId/applicants', async (c:
       }, 400);
     }
 
+    const { sendInvite, ...details } = body;
+
     // Create applicant
     const applicant = await createApplicant(c.env.DB, {
-      ...body,
+      ...details,
       applicationId,
       createdBy: userId || null,
     });
 
-    // TODO: If sendInvite=true, send invite email with token
+    if (sendInvite && applicant.applicantType !== 'primary') {
+      const siteId = c.req.header('X-Site-Id');
+      const lead = siteId ? await getLeadById(c.env.DB, siteId, applicationId) : null;
+      const invited = lead && siteId
+        ? await inviteApplicant(c.env, siteId, applicant.id, `${lead.firstName} ${lead.lastName}`)
+        : null;
+      if (invited) {
+        return c.json({
+          success: true,
+          data: invited,
+        }, 201);
+      }
+    }
 
     return c.json({
       success: true,
@@ -151,13 +184,65 @@ opsApplicationsRoutes.post('/applications/:applicationId/applicants', async (c:
   }
 });
 
+/**
+ * POST /api/ops/applicants/:applicantId/invite
+ * Send (or re-send) a co-applicant or guarantor their storefront invite link
+ *
+ * Issues a new token, so any earlier link stops working. The link is emailed
+ * (and inviteSentAt set) when STOREFRONT_URL is configured.
+ */
+opsApplicationsRoutes.post('/applicants/:applicantId/invite', requirePermission('leads:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const applicantId = c.req.param('applicantId');
+    const denied = await checkApplicantAccess(c, applicantId);
+    if (denied) return denied;
+
+    const applicant = await getApplicantById(c.env.DB, applicantId);
+    const lead = applicant ? await getLeadById(c.env.DB, siteId, applicant.applicationId) : null;
+    if (!applicant || !lead) {
+      return c.json({ error: 'Applicant not found' }, 404);
+    }
+    if (applicant.applicantType === 'primary') {
+      return c.json({
+        error: 'Validation error',
+        message: 'Only co-applicants and guarantors can be invited',
+      }, 400);
+    }
+    const invited = await inviteApplicant(c.env, siteId, applicantId, `${lead.firstName} ${lead.lastName}`);
+    // Null once the applicant has accepted
+    if (!invited) {
+      return c.json({
+        error: 'Conflict',
+        message: 'This applicant has already completed their invite',
+      }, 409);
+    }
+
+    return c.json({
+      success: true,
+      data: invited,
+    });
+  } catch (error) {
+    console.error('Error sending applicant invite:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
 /**
  * PATCH /api/ops/applicants/:applicantId
  * Update an applicant
  */
-opsApplicationsRoutes.patch('/applicants/:applicantId', async (c: Context) => {
+opsApplicationsRoutes.patch('/applicants/:applicantId', requirePermission('leads:write'), async (c: Context) => {
   try {
     const applicantId = c.req.param('applicantId');
+    const denied = await checkApplicantAccess(c, applicantId);
+    if (denied) return denied;
     const body = await c.req.json();
 
     const updated = await updateApplicant(c.env.DB, applicantId, body);
@@ -179,9 +264,11 @@ opsApplicationsRoutes.patch('/applicants/:applicantId', async (c: Context) => {
  * DELETE /api/ops/applicants/:applicantId
  * Delete an applicant
  */
-opsApplicationsRoutes.delete('/applicants/:applicantId', async (c: Context) => {
+opsApplicationsRoutes.delete('/applicants/:applicantId', requirePermission('leads:write'), async (c: Context) => {
   try {
     const applicantId = c.req.param('applicantId');
+    const denied = await checkApplicantAccess(c, applicantId);
+    if (denied) return denied;
     await deleteApplicant(c.env.DB, applicantId);
 
     return c.json({
@@ -203,9 +290,11 @@ opsApplicationsRoutes.delete('/applicants/:applicantId', async (c: Context) => {
  * GET /api/ops/applications/:applicationId/documents
  * Get all documents for an application
  */
-opsApplicationsRoutes.get('/applications/:applicationId/documents', async (c: Context) => {
+opsApplicationsRoutes.get('/applications/:applicationId/documents', requirePermission('leads:read'), async (c: Context) => {
   try {
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const documents = await getDocumentsByApplicationId(c.env.DB, applicationId);
 
     return c.json({
@@ -225,9 +314,11 @@ opsApplicationsRoutes.get('/applications/:applicationId/documents', async (c: Co
  * GET /api/ops/applications/:applicationId/documents/stats
  * Get document statistics for an application
  */
-opsApplicationsRoutes.get('/applications/:applicationId/documents/stats', async (c: Context) => {
+opsApplicationsRoutes.get('/applications/:applicationId/documents/stats', requirePermission('leads:read'), async (c: Context) => {
   try {
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const stats = await getDocumentStats(c.env.DB, applicationId);
 
     return c.json({
@@ -247,9 +338,11 @@ opsApplicationsRoutes.get('/applications/:applicationId/documents/stats', async
  * GET /api/ops/applicants/:applicantId/documents
  * Get all documents for a specific applicant
  */
-opsApplicationsRoutes.get('/applicants/:applicantId/documents', async (c: Context) => {
+opsApplicationsRoutes.get('/applicants/:applicantId/documents', requirePermission('leads:read'), async (c: Context) => {
   try {
     const applicantId = c.req.param('applicantId');
+    const denied = await checkApplicantAccess(c, applicantId);
+    if (denied) return denied;
     const documents = await getDocumentsByApplicantId(c.env.DB, applicantId);
 
     return c.json({
@@ -269,9 +362,11 @@ opsApplicationsRoutes.get('/applicants/:applicantId/documents', async (c: Contex
  * POST /api/ops/applications/:applicationId/documents
  * Create a new document record
  */
-opsApplicationsRoutes.post('/applications/:applicationId/documents', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/:applicationId/documents', requirePermission('leads:write'), async (c: Context) => {
   try {
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
     const body = await c.req.json();
 
@@ -306,9 +401,11 @@ opsApplicationsRoutes.post('/applications/:applicationId/documents', async (c: C
  * PATCH /api/ops/documents/:documentId
  * Update a document's metadata
  */
-opsApplicationsRoutes.patch('/documents/:documentId', async (c: Context) => {
+opsApplicationsRoutes.patch('/documents/:documentId', requirePermission('leads:write'), async (c: Context) => {
   try {
     const documentId = c.req.param('documentId');
+    const denied = await checkApplicationDocumentAccess(c, documentId);
+    if (denied) return denied;
     const body = await c.req.json();
 
     const updated = await updateDocument(c.env.DB, documentId, body);
@@ -330,9 +427,11 @@ opsApplicationsRoutes.patch('/documents/:documentId', async (c: Context) => {
  * POST /api/ops/documents/:documentId/verify
  * Mark a document as verified
  */
-opsApplicationsRoutes.post('/documents/:documentId/verify', async (c: Context) => {
+opsApplicationsRoutes.post('/documents/:documentId/verify', requirePermission('leads:write'), async (c: Context) => {
   try {
     const documentId = c.req.param('documentId');
+    const denied = await checkApplicationDocumentAccess(c, documentId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
 
     if (!userId) {
@@ -358,9 +457,11 @@ opsApplicationsRoutes.post('/documents/:documentId/verify', async (c: Context) =
  * POST /api/ops/documents/:documentId/reject
  * Reject a document
  */
-opsApplicationsRoutes.post('/documents/:documentId/reject', async (c: Context) => {
+opsApplicationsRoutes.post('/documents/:documentId/reject', requirePermission('leads:write'), async (c: Context) => {
   try {
     const documentId = c.req.param('documentId');
+    const denied = await checkApplicationDocumentAccess(c, documentId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
     const body = await c.req.json();
 
@@ -393,9 +494,11 @@ opsApplicationsRoutes.post('/documents/:documentId/reject', async (c: Context) =
  * GET /api/ops/applications/:applicationId/transitions
  * Get all stage transitions for an application
  */
-opsApplicationsRoutes.get('/applications/:applicationId/transitions', async (c: Context) => {
+opsApplicationsRoutes.get('/applications/:applicationId/transitions', requirePermission('leads:read'), async (c: Context) => {
   try {
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const transitions = await getTransitionsByApplicationId(c.env.DB, applicationId);
 
     return c.json({
@@ -413,12 +516,23 @@ opsApplicationsRoutes.get('/applications/:applicationId/transitions', async (c:
 
 /**
  * POST /api/ops/applications/:applicationId/transitions
- * Create a stage transition (and update lead status)
+ * Move the application to another stage of the site's pipeline, as allowed
+ * by the shared workflow
+ *
+ * Body: {
+ *   toStage: string,                       // pipeline stage key or status
+ *   checklist?: Record<string, boolean>,   // manual checklist items ticked
+ *   bypassReason?: string,                 // when the checklist is incomplete
+ *   bypassCategory?: BypassCategory,       // or the move skips stages
+ *   internalNotes?: string
+ * }
  */
-opsApplicationsRoutes.post('/applications/:applicationId/transitions', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/:applicationId/transitions', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
     const body = await c.req.json();
 
@@ -434,36 +548,35 @@ opsApplicationsRoutes.post('/applications/:applicationId/transitions', async (c:
       return c.json({ error: 'Missing required field: toStage' }, 400);
     }
 
+    const pipeline = await getApplicationPipeline(c.env.DB, siteId);
+    if (!findPipelineTarget(pipeline, body.toStage)) {
+      return c.json({ error: `Unknown stage: ${body.toStage}` }, 400);
+    }
+
     // Get current lead to determine fromStage
     const lead = await getLeadById(c.env.DB, siteId, applicationId);
     if (!lead) {
       return c.json({ error: 'Application not found' }, 404);
     }
 
-    // Create transition record
-    const transition = await createTransition(c.env.DB, {
-      applicationId,
-      fromStage: lead.status,
-      toStage: body.toStage,
-      transitionType: 'manual',
-      confirmationAcknowledged: true,
-      bypassReason: body.bypassReason || null,
-      bypassCategory: body.bypassCategory || null,
-      checklistSnapshot: body.checklistSnapshot || null,
+    const transitionId = await changeApplicationStage(c.env.DB, siteId, lead, body.toStage, {
+      type: 'manual',
+      userId,
+      checklist: body.checklist,
+      bypassReason: body.bypassReason,
+      bypassCategory: body.bypassCategory,
       internalNotes: body.internalNotes || null,
-      transitionedBy: userId,
-    });
-
-    // Update lead status
-    await updateLead(c.env.DB, siteId, applicationId, {
-      status: body.toStage,
     });
+    const transition = transitionId ? await getTransitionById(c.env.DB, transitionId) : null;
 
     return c.json({
       success: true,
       data: transition,
     }, 201);
   } catch (error) {
+    if (error instanceof StageTransitionError) {
+      return c.json({ error: error.message }, 409);
+    }
     console.error('Error creating transition:', error);
     return c.json({
       error: 'Internal server error',
@@ -478,9 +591,11 @@ opsApplicationsRoutes.post('/applications/:applicationId/transitions', async (c:
  * GET /api/ops/applications/:applicationId/notes
  * Get all notes for an application
  */
-opsApplicationsRoutes.get('/applications/:applicationId/notes', async (c: Context) => {
+opsApplicationsRoutes.get('/applications/:applicationId/notes', requirePermission('leads:read'), async (c: Context) => {
   try {
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const category = c.req.query('category');
 
     const notes = await getNotesByApplicationId(c.env.DB, applicationId, {
@@ -504,9 +619,11 @@ opsApplicationsRoutes.get('/applications/:applicationId/notes', async (c: Contex
  * POST /api/ops/applications/:applicationId/notes
  * Create a new internal note
  */
-opsApplicationsRoutes.post('/applications/:applicationId/notes', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/:applicationId/notes', requirePermission('leads:write'), async (c: Context) => {
   try {
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
     const body = await c.req.json();
 
@@ -541,9 +658,11 @@ opsApplicationsRoutes.post('/applications/:applicationId/notes', async (c: Conte
  * PATCH /api/ops/notes/:noteId
  * Update a note
  */
-opsApplicationsRoutes.patch('/notes/:noteId', async (c: Context) => {
+opsApplicationsRoutes.patch('/notes/:noteId', requirePermission('leads:write'), async (c: Context) => {
   try {
     const noteId = c.req.param('noteId');
+    const denied = await checkApplicationNoteAccess(c, noteId);
+    if (denied) return denied;
     const body = await c.req.json();
 
     const updated = await updateNote(c.env.DB, noteId, body);
@@ -565,9 +684,11 @@ opsApplicationsRoutes.patch('/notes/:noteId', async (c: Context) => {
  * DELETE /api/ops/notes/:noteId
  * Delete a note
  */
-opsApplicationsRoutes.delete('/notes/:noteId', async (c: Context) => {
+opsApplicationsRoutes.delete('/notes/:noteId', requirePermission('leads:write'), async (c: Context) => {
   try {
     const noteId = c.req.param('noteId');
+    const denied = await checkApplicationNoteAccess(c, noteId);
+    if (denied) return denied;
     await deleteNote(c.env.DB, noteId);
 
     return c.json({
@@ -595,10 +716,12 @@ opsApplicationsRoutes.delete('/notes/:noteId', async (c: Context) => {
  * - sortOrder: 'asc' | 'desc' (default: 'desc')
  * - status: Filter by application status
  */
-opsApplicationsRoutes.get('/properties/:propertyId/applications', async (c: Context) => {
+opsApplicationsRoutes.get('/properties/:propertyId/applications', requirePermission('leads:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     const propertyId = c.req.param('propertyId');
+    const denied = denyPropertyAccess(c, propertyId);
+    if (denied) return denied;
 
     if (!siteId) {
       return c.json({ error: 'Missing X-Site-Id header' }, 400);
@@ -655,10 +778,12 @@ opsApplicationsRoutes.get('/properties/:propertyId/applications', async (c: Cont
  * GET /api/ops/properties/:propertyId/shortlist
  * Get shortlisted applications for a property
  */
-opsApplicationsRoutes.get('/properties/:propertyId/shortlist', async (c: Context) => {
+opsApplicationsRoutes.get('/properties/:propertyId/shortlist', requirePermission('leads:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     const propertyId = c.req.param('propertyId');
+    const denied = denyPropertyAccess(c, propertyId);
+    if (denied) return denied;
 
     if (!siteId) {
       return c.json({ error: 'Missing X-Site-Id header' }, 400);
@@ -692,10 +817,12 @@ opsApplicationsRoutes.get('/properties/:propertyId/shortlist', async (c: Context
  * POST /api/ops/applications/:applicationId/shortlist
  * Add an application to the shortlist
  */
-opsApplicationsRoutes.post('/applications/:applicationId/shortlist', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/:applicationId/shortlist', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
 
     if (!siteId || !userId) {
@@ -727,10 +854,12 @@ opsApplicationsRoutes.post('/applications/:applicationId/shortlist', async (c: C
  * DELETE /api/ops/applications/:applicationId/shortlist
  * Remove an application from the shortlist
  */
-opsApplicationsRoutes.delete('/applications/:applicationId/shortlist', async (c: Context) => {
+opsApplicationsRoutes.delete('/applications/:applicationId/shortlist', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
 
     if (!siteId) {
       return c.json({ error: 'Missing X-Site-Id header' }, 400);
@@ -760,8 +889,10 @@ opsApplicationsRoutes.delete('/applications/:applicationId/shortlist', async (c:
 /**
  * POST /api/ops/applications/:applicationId/approve
  * Approve an application
+ *
+ * Body (optional): { checklist?, bypassReason?, bypassCategory? } as for transitions
  */
-opsApplicationsRoutes.post('/applications/:applicationId/approve', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/:applicationId/approve', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -769,14 +900,23 @@ opsApplicationsRoutes.post('/applications/:applicationId/approve', async (c: Con
     }
 
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
+    const body = await c.req.json().catch(() => ({}));
 
     const lead = await getLeadById(c.env.DB, siteId, applicationId);
     if (!lead) {
       return c.json({ error: 'Not found', message: 'Application not found' }, 404);
     }
 
-    await updateLead(c.env.DB, siteId, applicationId, { status: 'approved' });
+    await changeApplicationStage(c.env.DB, siteId, lead, 'approved', {
+      type: 'manual',
+      userId,
+      checklist: body.checklist,
+      bypassReason: body.bypassReason,
+      bypassCategory: body.bypassCategory,
+    });
     await recordLeadHistory(c.env.DB, siteId, applicationId, 'application_approved', {
       previousStatus: lead.status,
       approvedBy: userId ?? null,
@@ -787,6 +927,9 @@ opsApplicationsRoutes.post('/applications/:applicationId/approve', async (c: Con
       message: 'Application approved',
     });
   } catch (error) {
+    if (error instanceof StageTransitionError) {
+      return c.json({ error: error.message }, 409);
+    }
     console.error('Error approving application:', error);
     return c.json({
       error: 'Internal server error',
@@ -799,7 +942,7 @@ opsApplicationsRoutes.post('/applications/:applicationId/approve', async (c: Con
  * POST /api/ops/applications/:applicationId/reject
  * Reject an application
  */
-opsApplicationsRoutes.post('/applications/:applicationId/reject', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/:applicationId/reject', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -807,6 +950,8 @@ opsApplicationsRoutes.post('/applications/:applicationId/reject', async (c: Cont
     }
 
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
     const body = await c.req.json();
     const reason = typeof body?.reason === 'string' && body.reason.trim().length > 0
@@ -818,7 +963,11 @@ opsApplicationsRoutes.post('/applications/:applicationId/reject', async (c: Cont
       return c.json({ error: 'Not found', message: 'Application not found' }, 404);
     }
 
-    await updateLead(c.env.DB, siteId, applicationId, { status: 'rejected' });
+    await changeApplicationStage(c.env.DB, siteId, lead, 'rejected', {
+      type: 'manual',
+      userId,
+      internalNotes: reason,
+    });
     await recordLeadHistory(c.env.DB, siteId, applicationId, 'application_rejected', {
       previousStatus: lead.status,
       rejectedBy: userId ?? null,
@@ -830,6 +979,9 @@ opsApplicationsRoutes.post('/applications/:applicationId/reject', async (c: Cont
       message: 'Application rejected',
     });
   } catch (error) {
+    if (error instanceof StageTransitionError) {
+      return c.json({ error: error.message }, 409);
+    }
     console.error('Error rejecting application:', error);
     return c.json({
       error: 'Internal server error',
@@ -842,7 +994,7 @@ opsApplicationsRoutes.post('/applications/:applicationId/reject', async (c: Cont
  * POST /api/ops/applications/:applicationId/revive
  * Revive a rejected application back to a reviewable state
  */
-opsApplicationsRoutes.post('/applications/:applicationId/revive', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/:applicationId/revive', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -850,6 +1002,8 @@ opsApplicationsRoutes.post('/applications/:applicationId/revive', async (c: Cont
     }
 
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
 
     const lead = await getLeadById(c.env.DB, siteId, applicationId);
@@ -857,7 +1011,7 @@ opsApplicationsRoutes.post('/applications/:applicationId/revive', async (c: Cont
       return c.json({ error: 'Not found', message: 'Application not found' }, 404);
     }
 
-    await updateLead(c.env.DB, siteId, applicationId, { status: 'new' });
+    await changeApplicationStage(c.env.DB, siteId, lead, 'new', { type: 'manual', userId });
     await recordLeadHistory(c.env.DB, siteId, applicationId, 'application_revived', {
       previousStatus: lead.status,
       revivedBy: userId ?? null,
@@ -868,6 +1022,9 @@ opsApplicationsRoutes.post('/applications/:applicationId/revive', async (c: Cont
       message: 'Application revived',
     });
   } catch (error) {
+    if (error instanceof StageTransitionError) {
+      return c.json({ error: error.message }, 409);
+    }
     console.error('Error reviving application:', error);
     return c.json({
       error: 'Internal server error',
@@ -878,27 +1035,52 @@ opsApplicationsRoutes.post('/applications/:applicationId/revive', async (c: Cont
 
 /**
  * POST /api/ops/applications/:applicationId/send-email
- * Send email to applicant (stub)
+ * Queue an email to the application's applicants and log it.
+ *
+ * Body: {
+ *   template?: string,   // built-in template key; otherwise subject + message
+ *   subject?: string,
+ *   message?: string
+ * }
  */
-opsApplicationsRoutes.post('/applications/:applicationId/send-email', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/:applicationId/send-email', requirePermission('leads:write'), async (c: Context) => {
   try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
     const userId = c.req.header('X-User-Id');
     const body = await c.req.json();
     const { subject, message, template } = body;
 
-    console.log(`[STUB] Sending email for application ${applicationId} by user ${userId}`);
-    console.log(`Subject: ${subject}, Template: ${template}`);
+    const result = await sendEntityEmail(c.env, siteId, {
+      entityType: 'application',
+      entityId: applicationId,
+      templateKey: template || undefined,
+      subject,
+      body: message,
+      idempotencyKey: c.req.header('Idempotency-Key'),
+      createdBy: userId,
+    });
 
-    // TODO: Implement actual email sending logic
-    // - Load applicant email addresses
-    // - Render email template with application data
-    // - Send via email service (e.g., SendGrid, AWS SES)
-    // - Log email sent in application history
+    if (!result.ok) {
+      return result.reason === 'not_found'
+        ? c.json({ error: 'Not found', message: 'Application not found' }, 404)
+        : c.json({ error: 'Validation failed', message: result.message }, 400);
+    }
+
+    await recordLeadHistory(c.env.DB, siteId, applicationId, 'email_sent', {
+      communicationIds: result.communications.map((communication) => communication.id),
+      template: template || null,
+      sentBy: userId ?? null,
+    });
 
     return c.json({
       success: true,
-      message: 'Email sent (stub)',
+      data: result.communications,
     });
   } catch (error) {
     console.error('Error sending email:', error);
@@ -909,11 +1091,63 @@ opsApplicationsRoutes.post('/applications/:applicationId/send-email', async (c:
   }
 });
 
+/**
+ * POST /api/ops/applications/:applicationId/status-link
+ * Email the applicant a fresh link to their status page, where they can
+ * upload outstanding documents. Needs STOREFRONT_URL and FILE_SIGNING_SECRET.
+ */
+opsApplicationsRoutes.post('/applications/:applicationId/status-link', requirePermission('leads:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
+    const userId = c.req.header('X-User-Id');
+
+    const lead = await getLeadById(c.env.DB, siteId, applicationId);
+    if (!lead || lead.propertyId === 'general') {
+      return c.json({ error: 'Not found', message: 'Application not found' }, 404);
+    }
+
+    const expiresAt = await emailApplicationStatusLink(c.env, siteId, lead);
+    if (!expiresAt) {
+      return c.json({
+        error: 'Not configured',
+        message: 'STOREFRONT_URL and FILE_SIGNING_SECRET must be set to send status links',
+      }, 500);
+    }
+
+    await recordLeadHistory(c.env.DB, siteId, applicationId, 'status_link_sent', {
+      expiresAt,
+      sentBy: userId ?? null,
+    });
+
+    return c.json({
+      success: true,
+      data: { expiresAt },
+    });
+  } catch (error) {
+    console.error('Error sending status link:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
 /**
  * POST /api/ops/applications/bulk
  * Perform bulk operations on multiple applications
+ *
+ * move_to_stage params: { stage, bypass_reason?, bypass_category? }, where
+ * stage is a pipeline stage key or a status. Each application must be
+ * allowed to make the move; there are no per-application checklists here,
+ * so gated moves need the bypass reason and category.
  */
-opsApplicationsRoutes.post('/applications/bulk', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/bulk', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.get('siteId');
     const userId = c.get('userId');
@@ -948,6 +1182,10 @@ opsApplicationsRoutes.post('/applications/bulk', async (c: Context) => {
     if (selectedApps.length !== application_ids.length) {
       return c.json({ error: 'Some applications not found' }, 404);
     }
+    for (const app of selectedApps) {
+      const denied = denyPropertyAccess(c, app.propertyId);
+      if (denied) return denied;
+    }
 
     const unitIds = new Set(selectedApps.map((app: any) => app.unitId).filter(Boolean));
     if (unitIds.size > 1) {
@@ -974,26 +1212,41 @@ opsApplicationsRoutes.post('/applications/bulk', async (c: Context) => {
 
     const { updateLead } = await import('../lib/db/leads');
     const { logAuditEntry } = await import('../lib/db/bulk-actions');
+    const { withTransaction } = await import('../lib/db/helpers');
 
+    // move_to_stage takes a pipeline stage key or a status
+    const moveTarget =
+      action === 'move_to_stage' && typeof params.stage === 'string'
+        ? findPipelineTarget(await getApplicationPipeline(c.env.DB, siteId), params.stage)
+        : undefined;
+
+    // Each application's update and audit entry commit together
     for (const appId of application_ids) {
+      // Every id was found above
+      const app = selectedApps.find((selected: any) => selected.id === appId)!;
       try {
         switch (action) {
           case 'reject':
-            await updateLead(c.env.DB, siteId, appId, {
-              status: 'rejected',
-            });
-            await logAuditEntry(c.env.DB, {
-              entityType: 'application',
-              entityId: appId,
-              action: 'reject',
-              performedBy: userId,
-              bulkActionId,
-              changes: {
-                status: 'rejected',
-                reason: params.reason || 'Bulk rejection',
-                rejected_at: new Date().toISOString(),
-                rejected_by: userId,
-              },
+            await withTransaction(c.env.DB, async (tx) => {
+              await changeApplicationStage(tx, siteId, app, 'rejected', {
+                type: 'manual',
+                userId,
+                internalNotes: params.reason || 'Bulk rejection',
+              });
+              await logAuditEntry(tx, {
+                siteId,
+                entityType: 'application',
+                entityId: appId,
+                action: 'reject',
+                performedBy: userId,
+                bulkActionId,
+                changes: {
+                  status: 'rejected',
+                  reason: params.reason || 'Bulk rejection',
+                  rejected_at: new Date().toISOString(),
+                  rejected_by: userId,
+                },
+              });
             });
             results.push({ application_id: appId, status: 'success' });
             successCount++;
@@ -1003,47 +1256,76 @@ opsApplicationsRoutes.post('/applications/bulk', async (c: Context) => {
             if (!params.stage) {
               throw new Error('Stage parameter required for move_to_stage action');
             }
-            await updateLead(c.env.DB, siteId, appId, { status: params.stage });
-            await logAuditEntry(c.env.DB, {
-              entityType: 'application',
-              entityId: appId,
-              action: 'move_to_stage',
-              performedBy: userId,
-              bulkActionId,
-              changes: { status: params.stage },
+            if (!moveTarget) {
+              throw new Error(`Unknown stage: ${params.stage}`);
+            }
+            await withTransaction(c.env.DB, async (tx) => {
+              await changeApplicationStage(tx, siteId, app, params.stage, {
+                type: 'manual',
+                userId,
+                bypassReason: params.bypass_reason,
+                bypassCategory: params.bypass_category,
+              });
+              await logAuditEntry(tx, {
+                siteId,
+                entityType: 'application',
+                entityId: appId,
+                action: 'move_to_stage',
+                performedBy: userId,
+                bulkActionId,
+                changes: { status: moveTarget.bucket, pipeline_stage: moveTarget.key },
+              });
             });
             results.push({ application_id: appId, status: 'success' });
             successCount++;
             break;
 
           case 'archive':
-            await updateLead(c.env.DB, siteId, appId, { isActive: false });
-            await logAuditEntry(c.env.DB, {
-              entityType: 'application',
-              entityId: appId,
-              action: 'archive',
-              performedBy: userId,
-              bulkActionId,
-              changes: { is_active: false },
+            await withTransaction(c.env.DB, async (tx) => {
+              await updateLead(tx, siteId, appId, { isActive: false });
+              await logAuditEntry(tx, {
+                siteId,
+                entityType: 'application',
+                entityId: appId,
+                action: 'archive',
+                performedBy: userId,
+                bulkActionId,
+                changes: { is_active: false },
+              });
             });
             results.push({ application_id: appId, status: 'success' });
             successCount++;
             break;
 
-          case 'send_email':
-            // TODO: Integrate with email system (Feature #1 from 202601-next-batch)
-            console.log(`[STUB] Sending email to application ${appId}`);
+          case 'send_email': {
+            const sent = await sendEntityEmail(c.env, siteId, {
+              entityType: 'application',
+              entityId: appId,
+              templateKey: params.template_id,
+              subject: params.subject,
+              body: params.message,
+              idempotencyKey: `${bulkActionId}:${appId}`,
+              createdBy: userId,
+            });
+            if (!sent.ok) {
+              throw new Error(sent.message);
+            }
             await logAuditEntry(c.env.DB, {
+              siteId,
               entityType: 'application',
               entityId: appId,
               action: 'send_email',
               performedBy: userId,
               bulkActionId,
-              changes: { email_template: params.template_id },
+              changes: {
+                email_template: params.template_id,
+                communication_ids: sent.communications.map((communication) => communication.id),
+              },
             });
             results.push({ application_id: appId, status: 'success' });
             successCount++;
             break;
+          }
         }
       } catch (error) {
         console.error(`Error processing application ${appId}:`, error);
@@ -1078,11 +1360,13 @@ opsApplicationsRoutes.post('/applications/bulk', async (c: Context) => {
  * POST /api/ops/applications/:applicationId/proceed-to-lease
  * Initiate lease creation from approved application
  */
-opsApplicationsRoutes.post('/applications/:applicationId/proceed-to-lease', async (c: Context) => {
+opsApplicationsRoutes.post('/applications/:applicationId/proceed-to-lease', requirePermission('leases:write'), async (c: Context) => {
   try {
     const siteId = c.get('siteId');
     const userId = c.get('userId');
     const applicationId = c.req.param('applicationId');
+    const denied = await checkApplicationAccess(c, applicationId);
+    if (denied) return denied;
 
     if (!siteId || !userId) {
       return c.json({ error: 'Missing siteId or userId' }, 401);
@@ -1135,66 +1419,83 @@ opsApplicationsRoutes.post('/applications/:applicationId/proceed-to-lease', asyn
       }, 400);
     }
 
-    // Create tenant record from application data
-    const { createTenant } = await import('../lib/db/tenants');
-    const tenant = await createTenant(c.env.DB, siteId, {
-      leadId: applicationId,
-      firstName: application.firstName,
-      lastName: application.lastName,
-      email: application.email,
-      phone: application.phone || '',
-      emergencyContact: undefined,
-      emergencyPhone: undefined,
-      status: 'moving_in', // Tenant approved, in process of finalizing lease
-    });
+    // Shortlisting stands in for the background check. D1 refuses reads once
+    // the transaction below has queued a write, so the pipeline is loaded here
+    const pipeline = await getApplicationPipeline(c.env.DB, siteId);
+    const approved = findPipelineTarget(pipeline, 'approved');
+    const check = approved
+      ? checkPipelineTransition(
+          pipeline,
+          resolvePipelineStage(pipeline, application.status, application.pipelineStage),
+          approved,
+          { type: 'system', checklist: [] }
+        )
+      : null;
+    if (!check?.allowed) {
+      return c.json({ error: check?.message ?? 'The pipeline has no approved stage' }, 409);
+    }
 
-    // Create lease record with draft status
-    // Note: This creates a "lease in progress" that needs to complete onboarding checklist
-    const { createLease } = await import('../lib/db/leases');
-    const lease = await createLease(c.env.DB, siteId, {
-      propertyId: application.propertyId,
-      unitId: application.unitId,
-      tenantId: tenant.id,
-      status: 'draft', // Draft until lease documents are uploaded
-      startDate: lease_start_date,
-      endDate: calculateLeaseEndDate(lease_start_date, lease_term_months),
-      monthlyRent: unit.rentAmount,
-      securityDeposit: unit.depositAmount || unit.rentAmount, // Use deposit or default to 1 month rent
-    });
-    const leaseId = lease.id;
+    const { withTransaction } = await import('../lib/db/helpers');
+    const { insertTenant } = await import('../lib/db/tenants');
+    const { insertLease } = await import('../lib/db/leases');
+    const { createLeaseChecklist, DEFAULT_CHECKLIST_STEPS } = await import('../lib/db/lease-onboarding');
+    const { logAuditEntry } = await import('../lib/db/bulk-actions');
 
-    // Set onboarding status to in_progress via direct DB update
-    // (updateLease doesn't support onboarding_status yet, so we use direct SQL)
-    await c.env.DB
-      .prepare('UPDATE leases SET onboarding_status = ? WHERE id = ?')
-      .bind('in_progress', leaseId)
-      .run();
+    // Tenant, lease, checklist and application status are written together:
+    // a failure part way must not leave a lease without its tenant
+    const leaseId = await withTransaction(c.env.DB, async (tx) => {
+      await changeApplicationStage(tx, siteId, application, 'approved', { type: 'system', userId, pipeline });
+
+      // Create tenant record from application data
+      const tenantId = await insertTenant(tx, siteId, {
+        leadId: applicationId,
+        firstName: application.firstName,
+        lastName: application.lastName,
+        email: application.email,
+        phone: application.phone || '',
+        emergencyContact: undefined,
+        emergencyPhone: undefined,
+        status: 'moving_in', // Tenant approved, in process of finalizing lease
+      });
 
-    // Create onboarding checklist for the new lease
-    const { createLeaseChecklist, DEFAULT_CHECKLIST_STEPS } = await import('../lib/db/lease-onboarding');
-    await createLeaseChecklist(c.env.DB, leaseId, DEFAULT_CHECKLIST_STEPS);
+      // Create lease record with draft status
+      // Note: This creates a "lease in progress" that needs to complete onboarding checklist
+      const newLeaseId = await insertLease(tx, siteId, {
+        propertyId: application.propertyId,
+        unitId: application.unitId,
+        tenantId,
+        status: 'draft', // Draft until lease documents are uploaded
+        startDate: lease_start_date,
+        endDate: calculateLeaseEndDate(lease_start_date, lease_term_months),
+        monthlyRent: unit.rentAmount,
+        securityDeposit: unit.depositAmount || unit.rentAmount, // Use deposit or default to 1 month rent
+      });
 
-    // Update application status to approved
-    const { updateLead } = await import('../lib/db/leads');
-    await updateLead(c.env.DB, siteId, applicationId, {
-      status: 'approved',
-    });
+      // Set onboarding status to in_progress via direct DB update
+      // (updateLease doesn't support onboarding_status yet, so we use direct SQL)
+      await tx.execute('UPDATE leases SET onboarding_status = ? WHERE id = ?', ['in_progress', newLeaseId]);
+
+      // Create onboarding checklist for the new lease
+      await createLeaseChecklist(tx, newLeaseId, DEFAULT_CHECKLIST_STEPS);
+
+      // Log audit entry with approval metadata
+      await logAuditEntry(tx, {
+        siteId,
+        entityType: 'application',
+        entityId: applicationId,
+        action: 'proceed_to_lease',
+        performedBy: userId,
+        changes: {
+          status: 'approved',
+          approved_at: new Date().toISOString(),
+          approved_by: userId,
+          lease_id: newLeaseId,
+          lease_start_date,
+          lease_term_months,
+        },
+      });
 
-    // Log audit entry with approval metadata
-    const { logAuditEntry } = await import('../lib/db/bulk-actions');
-    await logAuditEntry(c.env.DB, {
-      entityType: 'application',
-      entityId: applicationId,
-      action: 'proceed_to_lease',
-      performedBy: userId,
-      changes: {
-        status: 'approved',
-        approved_at: new Date().toISOString(),
-        approved_by: userId,
-        lease_id: leaseId,
-        lease_start_date,
-        lease_term_months,
-      },
+      return newLeaseId;
     });
 
     return c.json({
@@ -1203,6 +1504,9 @@ opsApplicationsRoutes.post('/applications/:applicationId/proceed-to-lease', asyn
       message: 'Lease created successfully. Complete the onboarding checklist to activate.',
     });
   } catch (error) {
+    if (error instanceof StageTransitionError) {
+      return c.json({ error: error.message }, 409);
+    }
     console.error('Error proceeding to lease:', error);
     return c.json({
       error: 'Internal server error',
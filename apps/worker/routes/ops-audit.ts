@@ -0,0 +1,128 @@
+/**
+ * Audit Log API Routes (/api/ops/audit)
+ *
+ * Handles:
+ * - Listing who changed what on the site, filtered by entity, actor and date
+ *
+ * Entries are written by the mutation routes via recordEntityChange (field
+ * diffs) and logAuditEntry (workflow actions such as approvals).
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getAuditLog } from '../lib/db';
+import type { CloudflareEnv } from '../../../shared/config';
+import type { AuditEntityType, Permission } from '../../../shared/types';
+import { hasPermission } from '../../../shared/utils';
+import {
+  checkLeadAccess,
+  checkLeaseAccess,
+  checkPropertyAccess,
+  checkTenantAccess,
+  checkUnitAccess,
+  checkWorkOrderAccess,
+  getRequestAccess,
+} from '../middleware/user-access';
+import { forbidden } from '../middleware/permissions';
+
+type Bindings = CloudflareEnv;
+
+const opsAuditRoutes = new Hono<{ Bindings: Bindings }>();
+
+// Reading an entity's history needs read access to the entity itself
+const ENTITY_READ_PERMISSIONS: Record<AuditEntityType, Permission> = {
+  property: 'properties:read',
+  unit: 'properties:read',
+  lead: 'leads:read',
+  application: 'leads:read',
+  tenant: 'tenants:read',
+  lease: 'leases:read',
+  work_order: 'work_orders:read',
+  user: 'users:admin',
+  site_api_token: 'settings:write',
+};
+
+// Entities that belong to a property, for users limited to some properties
+const ENTITY_ACCESS_CHECKS: Partial<
+  Record<AuditEntityType, (c: Context, siteId: string, id: string) => Promise<Response | null>>
+> = {
+  property: checkPropertyAccess,
+  unit: checkUnitAccess,
+  lead: checkLeadAccess,
+  application: checkLeadAccess,
+  tenant: checkTenantAccess,
+  lease: checkLeaseAccess,
+  work_order: checkWorkOrderAccess,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/ops/audit
+ * Audit entries for the site, newest first
+ *
+ * Query: entityType, entityId, performedBy, from, to (YYYY-MM-DD), limit
+ * Without entityType the whole site log is returned, which needs users:admin.
+ * Users limited to some properties must name an entity on one of them.
+ */
+opsAuditRoutes.get('/audit', async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const entityType = c.req.query('entityType') as AuditEntityType | undefined;
+    if (entityType && !(entityType in ENTITY_READ_PERMISSIONS)) {
+      return c.json({ error: 'Bad request', message: `Unknown entity type: ${entityType}` }, 400);
+    }
+
+    const from = c.req.query('from');
+    const to = c.req.query('to');
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return c.json({ error: 'Bad request', message: 'from and to must be YYYY-MM-DD dates' }, 400);
+    }
+
+    const permission = entityType ? ENTITY_READ_PERMISSIONS[entityType] : 'users:admin';
+    const access = getRequestAccess(c);
+    if (!access) {
+      return forbidden(c, 'User does not have access to this site', permission);
+    }
+    if (!hasPermission(access, permission)) {
+      return forbidden(c, `Your role does not have the ${permission} permission`, permission);
+    }
+
+    const entityId = c.req.query('entityId');
+    const checkEntityAccess = entityType ? ENTITY_ACCESS_CHECKS[entityType] : undefined;
+    if (checkEntityAccess && access.propertyIds !== null) {
+      if (!entityId) {
+        return forbidden(c, 'Your access is limited to some properties, so entityId is required', permission);
+      }
+      const denied = await checkEntityAccess(c, siteId, entityId);
+      if (denied) return denied;
+    }
+
+    const limit = c.req.query('limit');
+    const entries = await getAuditLog(c.env.DB, siteId, {
+      entityType,
+      entityId,
+      performedBy: c.req.query('performedBy'),
+      from,
+      to,
+      limit: limit ? parseInt(limit, 10) || undefined : undefined,
+    });
+
+    return c.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export default opsAuditRoutes;
@@ -0,0 +1,195 @@
+/**
+ * Communications API Routes (/api/ops/{applications,tenants,work-orders}/:id/communications)
+ *
+ * Handles:
+ * - Per-entity outbound email history
+ * - Composing and queueing email from a built-in template or free-form text
+ * - Re-queueing failed messages
+ *
+ * Delivery goes through lib/email (EMAIL_QUEUE when bound, inline otherwise).
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getCommunicationsByEntity, getCommunicationById, updateCommunication } from '../lib/db/communications';
+import { sendEntityEmail, dispatchCommunication } from '../lib/email';
+import { SendCommunicationSchema } from '../../../shared/config';
+import type { CloudflareEnv } from '../../../shared/config';
+import type { CommunicationEntityType, Permission } from '../../../shared/types';
+import { hasPermission } from '../../../shared/utils';
+import { getRequestAccess } from '../middleware/user-access';
+import { forbidden, requirePermission } from '../middleware/permissions';
+
+type Bindings = CloudflareEnv;
+
+const opsCommunicationsRoutes = new Hono<{ Bindings: Bindings }>();
+
+// URL segment → communications.entity_type
+const ENTITY_PATHS: Record<string, CommunicationEntityType> = {
+  applications: 'application',
+  tenants: 'tenant',
+  'work-orders': 'work_order',
+};
+
+// Permissions covering each entity's communications
+const ENTITY_PERMISSIONS: Record<CommunicationEntityType, { read: Permission; write: Permission }> = {
+  application: { read: 'leads:read', write: 'leads:write' },
+  tenant: { read: 'tenants:read', write: 'tenants:write' },
+  work_order: { read: 'work_orders:read', write: 'work_orders:write' },
+};
+
+// ==================== COMMUNICATIONS ====================
+
+for (const [path, entityType] of Object.entries(ENTITY_PATHS)) {
+  /**
+   * GET /api/ops/{applications,tenants,work-orders}/:id/communications
+   * Communication history for the entity (newest first)
+   */
+  opsCommunicationsRoutes.get(`/${path}/:id/communications`, requirePermission(ENTITY_PERMISSIONS[entityType].read), async (c: Context) => {
+    try {
+      const siteId = c.req.header('X-Site-Id');
+      if (!siteId) {
+        return c.json({ error: 'Missing X-Site-Id header' }, 400);
+      }
+
+      const communications = await getCommunicationsByEntity(c.env.DB, siteId, entityType, c.req.param('id'));
+
+      return c.json({
+        success: true,
+        data: communications,
+      });
+    } catch (error) {
+      console.error('Error fetching communications:', error);
+      return c.json(
+        {
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  });
+
+  /**
+   * POST /api/ops/{applications,tenants,work-orders}/:id/communications
+   * Queue an email to everyone on the entity (or the listed recipients).
+   *
+   * Body: {
+   *   templateKey?: string,        // built-in template (see shared/utils/email-templates)
+   *   subject?: string,            // free-form; may use {{variables}}
+   *   body?: string,
+   *   recipientEmails?: string[],
+   *   idempotencyKey?: string      // or the Idempotency-Key header
+   * }
+   */
+  opsCommunicationsRoutes.post(`/${path}/:id/communications`, requirePermission(ENTITY_PERMISSIONS[entityType].write), async (c: Context) => {
+    try {
+      const siteId = c.req.header('X-Site-Id');
+      if (!siteId) {
+        return c.json({ error: 'Missing X-Site-Id header' }, 400);
+      }
+      const userId = c.req.header('X-User-Id');
+
+      const parsed = SendCommunicationSchema.safeParse(await c.req.json());
+      if (!parsed.success) {
+        return c.json(
+          {
+            error: 'Validation failed',
+            message: parsed.error.issues.map((issue) => issue.message).join(', '),
+          },
+          400
+        );
+      }
+
+      const result = await sendEntityEmail(c.env, siteId, {
+        ...parsed.data,
+        entityType,
+        entityId: c.req.param('id'),
+        idempotencyKey: parsed.data.idempotencyKey || c.req.header('Idempotency-Key'),
+        createdBy: userId,
+      });
+
+      if (!result.ok) {
+        return result.reason === 'not_found'
+          ? c.json({ error: 'Not found', message: result.message }, 404)
+          : c.json({ error: 'Validation failed', message: result.message }, 400);
+      }
+
+      return c.json(
+        {
+          success: true,
+          data: result.communications,
+        },
+        201
+      );
+    } catch (error) {
+      console.error('Error sending communication:', error);
+      return c.json(
+        {
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  });
+}
+
+/**
+ * POST /api/ops/communications/:id/retry
+ * Re-queue a failed message for another delivery attempt
+ */
+opsCommunicationsRoutes.post('/communications/:id/retry', async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const id = c.req.param('id');
+
+    const communication = await getCommunicationById(c.env.DB, siteId, id);
+    if (!communication) {
+      return c.json({ error: 'Not found', message: 'Communication not found' }, 404);
+    }
+
+    // The permission depends on what the message is about, so check it here
+    const permission = ENTITY_PERMISSIONS[communication.entityType]?.write;
+    const access = getRequestAccess(c);
+    if (!access) {
+      return forbidden(c, 'User does not have access to this site', permission);
+    }
+    if (permission && !hasPermission(access, permission)) {
+      return forbidden(c, `Your role does not have the ${permission} permission`, permission);
+    }
+
+    if (communication.status !== 'failed') {
+      return c.json(
+        { error: 'Invalid status transition', message: `Cannot retry a ${communication.status} message` },
+        400
+      );
+    }
+
+    await updateCommunication(c.env.DB, siteId, id, {
+      status: 'queued',
+      nextAttemptAt: new Date().toISOString(),
+    });
+    const requeued = await getCommunicationById(c.env.DB, siteId, id);
+    const updated = await dispatchCommunication(c.env, siteId, requeued!);
+
+    return c.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    console.error('Error retrying communication:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+export default opsCommunicationsRoutes;
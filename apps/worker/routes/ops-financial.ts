@@ -0,0 +1,170 @@
+/**
+ * Financial Reporting API Routes (/api/ops/financial/*)
+ *
+ * Handles:
+ * - Arrears / delinquency report with aging buckets
+ * - Portfolio summary and rent roll (one row per unit with lease and tenant)
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { validateAsOf } from '../lib/db/ledger';
+import { getDelinquencyReport } from '../lib/db/delinquency';
+import { getPortfolioSummary, getRentRoll } from '../lib/db/rent-roll';
+import { getRequestAccess } from '../middleware/user-access';
+import { requirePermission } from '../middleware/permissions';
+import type { CloudflareEnv } from '../../../shared/config';
+
+type Bindings = CloudflareEnv;
+
+const opsFinancialRoutes = new Hono<{ Bindings: Bindings }>();
+
+// ==================== DELINQUENCY ====================
+
+/**
+ * GET /api/ops/financial/delinquency
+ * Outstanding balances per tenant and per property, aged into
+ * current / 1-30 / 31-60 / 61-90 / 90+ day buckets. Each tenant row
+ * includes the unpaid charges that make up its buckets. Users limited to
+ * specific properties (e.g. owners) only see those properties. Read-only:
+ * rent charges are posted by the daily job.
+ *
+ * Query params:
+ * - asOf: YYYY-MM-DD, not after today (default: today)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: DelinquencyReport
+ * }
+ */
+opsFinancialRoutes.get('/financial/delinquency', requirePermission('financials:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const access = getRequestAccess(c);
+    const asOf = c.req.query('asOf') || new Date().toISOString().slice(0, 10);
+    const asOfError = validateAsOf(asOf);
+    if (asOfError) {
+      return c.json({ error: 'Invalid asOf', message: asOfError }, 400);
+    }
+
+    const report = await getDelinquencyReport(c.env.DB, siteId, asOf, access?.propertyIds ?? null);
+
+    return c.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error fetching delinquency report:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+// ==================== PORTFOLIO / RENT ROLL ====================
+
+/**
+ * GET /api/ops/financial/portfolio-summary
+ * Unit counts, occupancy, monthly rent (from current leases), active tenants,
+ * collections this month and outstanding balances for the site. Users
+ * limited to specific properties only see those properties. Read-only: rent
+ * charges are posted by the daily job.
+ *
+ * Query params:
+ * - asOf: YYYY-MM-DD, not after today (default: today)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: PortfolioSummary
+ * }
+ */
+opsFinancialRoutes.get('/financial/portfolio-summary', requirePermission('financials:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const access = getRequestAccess(c);
+    const asOf = c.req.query('asOf') || new Date().toISOString().slice(0, 10);
+    const asOfError = validateAsOf(asOf);
+    if (asOfError) {
+      return c.json({ error: 'Invalid asOf', message: asOfError }, 400);
+    }
+
+    const summary = await getPortfolioSummary(c.env.DB, siteId, asOf, access?.propertyIds ?? null);
+
+    return c.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    console.error('Error fetching portfolio summary:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/ops/financial/rent-roll
+ * Every unit with its property, current lease (dates and rent), tenant,
+ * collections this month and ledger balance, plus the portfolio summary.
+ * Users limited to specific properties only see those properties. Read-only.
+ *
+ * Query params:
+ * - asOf: YYYY-MM-DD, not after today (default: today)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: RentRoll
+ * }
+ */
+opsFinancialRoutes.get('/financial/rent-roll', requirePermission('financials:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const access = getRequestAccess(c);
+    const asOf = c.req.query('asOf') || new Date().toISOString().slice(0, 10);
+    const asOfError = validateAsOf(asOf);
+    if (asOfError) {
+      return c.json({ error: 'Invalid asOf', message: asOfError }, 400);
+    }
+
+    const rentRoll = await getRentRoll(c.env.DB, siteId, asOf, access?.propertyIds ?? null);
+
+    return c.json({
+      success: true,
+      data: rentRoll,
+    });
+  } catch (error) {
+    console.error('Error fetching rent roll:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+export default opsFinancialRoutes;
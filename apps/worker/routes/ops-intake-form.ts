@@ -0,0 +1,115 @@
+/**
+ * Intake Form API Routes (/api/ops/intake-form)
+ *
+ * Handles:
+ * - Reading the site's current (or a past) application intake form
+ * - Saving a new form version
+ *
+ * The storefront renders the current version via /api/public/intake-form and
+ * leads are validated against the version they were submitted on.
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getCurrentIntakeForm, getIntakeFormVersion, createIntakeFormVersion } from '../lib/db/intake-forms';
+import { validateIntakeFormSchema } from '../../../shared/utils';
+import { SaveIntakeFormSchema } from '../../../shared/config';
+import type { CloudflareEnv } from '../../../shared/config';
+import { requirePermission } from '../middleware/permissions';
+
+type Bindings = CloudflareEnv;
+
+const opsIntakeFormRoutes = new Hono<{ Bindings: Bindings }>();
+
+// ==================== INTAKE FORM ====================
+
+/**
+ * GET /api/ops/intake-form
+ * Current intake form, or a past one with ?version=N
+ */
+opsIntakeFormRoutes.get('/intake-form', requirePermission('leads:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const versionParam = c.req.query('version');
+    const intakeForm = versionParam !== undefined
+      ? await getIntakeFormVersion(c.env.DB, siteId, Number(versionParam))
+      : await getCurrentIntakeForm(c.env.DB, siteId);
+
+    if (!intakeForm) {
+      return c.json({ error: 'Not found', message: 'Intake form version not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: intakeForm,
+    });
+  } catch (error) {
+    console.error('Error fetching intake form:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/intake-form
+ * Save the form as a new version
+ *
+ * Body: {
+ *   sections: Array<{ id, title, description?, fields: IntakeFormField[] }>
+ * }
+ */
+opsIntakeFormRoutes.post('/intake-form', requirePermission('settings:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+
+    const parsed = SaveIntakeFormSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          error: 'Validation failed',
+          message: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+        },
+        400
+      );
+    }
+
+    const problems = validateIntakeFormSchema(parsed.data);
+    if (problems.length > 0) {
+      return c.json({ error: 'Validation failed', message: problems.join(', ') }, 400);
+    }
+
+    const intakeForm = await createIntakeFormVersion(c.env.DB, siteId, parsed.data, userId);
+
+    return c.json(
+      {
+        success: true,
+        data: intakeForm,
+      },
+      201
+    );
+  } catch (error) {
+    console.error('Error saving intake form:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+export default opsIntakeFormRoutes;
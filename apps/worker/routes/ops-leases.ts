@@ -6,11 +6,13 @@
  * - Status transition validation
  * - CSV export generation
  * - Audit trail for all bulk actions
+ * - Rent ledger (charges, payments, credits, adjustments)
+ * - E-signature envelopes (send for signature, status refresh)
  */
 
 import { Hono } from 'hono';
 import type { Context } from 'hono';
-import { getLeases, updateLease } from '../lib/db/leases';
+import { getLeases, getLeaseById, updateLease, getLeaseFiles } from '../lib/db/leases';
 import { createBulkAction, updateBulkActionResults, logAuditEntry } from '../lib/db/bulk-actions';
 import {
   getLeasesInProgress,
@@ -18,7 +20,25 @@ import {
   updateChecklistStep,
   completeLeaseOnboarding,
 } from '../lib/db/lease-onboarding';
+import {
+  getLedgerEntries,
+  getLedgerEntryById,
+  createLedgerEntry,
+  deleteLedgerEntry,
+  generateRentCharges,
+  getLeaseBalanceSummaries,
+  applyRunningBalance,
+  summarizeLedger,
+  validateAsOf,
+} from '../lib/db/ledger';
+import { withTransaction } from '../lib/db/helpers';
+import { getLatestSignatureEnvelope } from '../lib/db/lease-signatures';
+import { getESignProvider, sendLeaseForSignature, applyEnvelopeStatusUpdate } from '../lib/esign';
+import { CreateLedgerEntrySchema, SendLeaseForSignatureSchema } from '../../../shared/config';
 import type { CloudflareEnv } from '../../../shared/config';
+import { checkLeaseAccess, denyPropertyAccess, getRequestAccess } from '../middleware/user-access';
+import { requirePermission } from '../middleware/permissions';
+import { canAccessProperty, filterByPropertyAccess } from '../../../shared/utils';
 
 type Bindings = CloudflareEnv;
 
@@ -120,7 +140,7 @@ function generateLeaseCSV(leases: any[]): string {
  *   }
  * }
  */
-opsLeasesRoutes.post('/leases/bulk', async (c: Context) => {
+opsLeasesRoutes.post('/leases/bulk', requirePermission('leases:write'), async (c: Context) => {
   try {
     const siteId = c.get('siteId');
     const userId = c.get('userId');
@@ -153,6 +173,10 @@ opsLeasesRoutes.post('/leases/bulk', async (c: Context) => {
     if (selectedLeases.length !== lease_ids.length) {
       return c.json({ error: 'Some leases not found' }, 404);
     }
+    for (const lease of selectedLeases) {
+      const denied = denyPropertyAccess(c, lease.propertyId);
+      if (denied) return denied;
+    }
 
     // Handle export action separately (no database changes)
     if (action === 'export') {
@@ -171,6 +195,7 @@ opsLeasesRoutes.post('/leases/bulk', async (c: Context) => {
 
       // Log audit entry
       await logAuditEntry(c.env.DB, {
+        siteId,
         entityType: 'lease',
         entityId: 'bulk',
         action: 'export',
@@ -223,23 +248,25 @@ opsLeasesRoutes.post('/leases/bulk', async (c: Context) => {
               );
             }
 
-            // Update lease status
-            await updateLease(c.env.DB, siteId, leaseId, {
-              status: params.new_status,
-            });
-
-            // Log audit entry
-            await logAuditEntry(c.env.DB, {
-              entityType: 'lease',
-              entityId: leaseId,
-              action: 'update_status',
-              performedBy: userId,
-              bulkActionId,
-              changes: {
-                old_status: lease.status,
-                new_status: params.new_status,
-                reason: params.reason || 'Bulk status update',
-              },
+            // Update lease status and log the audit entry together
+            await withTransaction(c.env.DB, async (tx) => {
+              await updateLease(tx, siteId, leaseId, {
+                status: params.new_status,
+              });
+
+              await logAuditEntry(tx, {
+                siteId,
+                entityType: 'lease',
+                entityId: leaseId,
+                action: 'update_status',
+                performedBy: userId,
+                bulkActionId,
+                changes: {
+                  old_status: lease.status,
+                  new_status: params.new_status,
+                  reason: params.reason || 'Bulk status update',
+                },
+              });
             });
 
             results.push({ lease_id: leaseId, status: 'success' });
@@ -252,6 +279,7 @@ opsLeasesRoutes.post('/leases/bulk', async (c: Context) => {
             console.log(`[STUB] Sending email to lease ${leaseId}`);
 
             await logAuditEntry(c.env.DB, {
+              siteId,
               entityType: 'lease',
               entityId: leaseId,
               action: 'send_email',
@@ -277,6 +305,7 @@ opsLeasesRoutes.post('/leases/bulk', async (c: Context) => {
             console.log(`[STUB] Generating document for lease ${leaseId}`);
 
             await logAuditEntry(c.env.DB, {
+              siteId,
               entityType: 'lease',
               entityId: leaseId,
               action: 'generate_documents',
@@ -349,7 +378,7 @@ opsLeasesRoutes.post('/leases/bulk', async (c: Context) => {
  *   ]
  * }
  */
-opsLeasesRoutes.get('/leases/in-progress', async (c: Context) => {
+opsLeasesRoutes.get('/leases/in-progress', requirePermission('leases:read'), async (c: Context) => {
   try {
     const siteId = c.get('siteId');
 
@@ -390,7 +419,7 @@ opsLeasesRoutes.get('/leases/in-progress', async (c: Context) => {
  *   progress: { total_steps, completed_steps, percentage }
  * }
  */
-opsLeasesRoutes.patch('/leases/:id/checklist', async (c: Context) => {
+opsLeasesRoutes.patch('/leases/:id/checklist', requirePermission('leases:write'), async (c: Context) => {
   try {
     const siteId = c.get('siteId');
     const userId = c.get('userId');
@@ -399,6 +428,8 @@ opsLeasesRoutes.patch('/leases/:id/checklist', async (c: Context) => {
     if (!siteId || !userId) {
       return c.json({ error: 'Missing siteId or userId' }, 401);
     }
+    const denied = await checkLeaseAccess(c, siteId, leaseId);
+    if (denied) return denied;
 
     const body = await c.req.json();
     const { step_id, completed, notes } = body;
@@ -418,6 +449,7 @@ opsLeasesRoutes.patch('/leases/:id/checklist', async (c: Context) => {
 
     // Log audit entry
     await logAuditEntry(c.env.DB, {
+      siteId,
       entityType: 'lease',
       entityId: leaseId,
       action: 'update_checklist',
@@ -470,7 +502,7 @@ opsLeasesRoutes.patch('/leases/:id/checklist', async (c: Context) => {
  *   message: string
  * }
  */
-opsLeasesRoutes.post('/leases/:id/complete-onboarding', async (c: Context) => {
+opsLeasesRoutes.post('/leases/:id/complete-onboarding', requirePermission('leases:write'), async (c: Context) => {
   try {
     const siteId = c.get('siteId');
     const userId = c.get('userId');
@@ -479,23 +511,27 @@ opsLeasesRoutes.post('/leases/:id/complete-onboarding', async (c: Context) => {
     if (!siteId || !userId) {
       return c.json({ error: 'Missing siteId or userId' }, 401);
     }
+    const denied = await checkLeaseAccess(c, siteId, leaseId);
+    if (denied) return denied;
 
     const body = await c.req.json().catch(() => ({}));
     const { set_active_status = true } = body;
 
-    // Complete the onboarding
-    await completeLeaseOnboarding(c.env.DB, leaseId, set_active_status);
+    // Complete the onboarding and log it in one transaction
+    await withTransaction(c.env.DB, async (tx) => {
+      await completeLeaseOnboarding(tx, leaseId, set_active_status);
 
-    // Log audit entry
-    await logAuditEntry(c.env.DB, {
-      entityType: 'lease',
-      entityId: leaseId,
-      action: 'complete_onboarding',
-      performedBy: userId,
-      changes: {
-        onboarding_status: set_active_status ? null : 'completed',
-        lease_status: set_active_status ? 'active' : undefined,
-      },
+      await logAuditEntry(tx, {
+        siteId,
+        entityType: 'lease',
+        entityId: leaseId,
+        action: 'complete_onboarding',
+        performedBy: userId,
+        changes: {
+          onboarding_status: set_active_status ? null : 'completed',
+          lease_status: set_active_status ? 'active' : undefined,
+        },
+      });
     });
 
     return c.json({
@@ -515,4 +551,434 @@ opsLeasesRoutes.post('/leases/:id/complete-onboarding', async (c: Context) => {
   }
 });
 
+// ==================== LEASE LEDGER ENDPOINTS ====================
+
+/**
+ * GET /api/ops/leases/ledger-summary
+ * Ledger totals (charged, paid, balance, collected this month) for every lease in the site.
+ * Read-only: monthly rent charges are posted by the daily job.
+ *
+ * Query params:
+ * - asOf: YYYY-MM-DD, not after today (default: today)
+ */
+opsLeasesRoutes.get('/leases/ledger-summary', requirePermission('financials:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const access = getRequestAccess(c);
+    const asOf = c.req.query('asOf') || new Date().toISOString().slice(0, 10);
+    const asOfError = validateAsOf(asOf);
+    if (asOfError) {
+      return c.json({ error: 'Invalid asOf', message: asOfError }, 400);
+    }
+
+    const summaries = await getLeaseBalanceSummaries(c.env.DB, siteId, asOf);
+
+    return c.json({
+      success: true,
+      data: filterByPropertyAccess(access, summaries, (summary) => summary.propertyId),
+    });
+  } catch (error) {
+    console.error('Error fetching ledger summary:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/ops/leases/:id/ledger
+ * Ledger entries for a lease with running balance and totals.
+ * Read-only: monthly rent charges are posted by the daily job.
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: { leaseId, entries: LedgerEntry[], summary: LedgerSummary }
+ * }
+ */
+opsLeasesRoutes.get('/leases/:id/ledger', requirePermission('financials:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const leaseId = c.req.param('id');
+
+    const access = getRequestAccess(c);
+    const lease = await getLeaseById(c.env.DB, siteId, leaseId);
+    if (!lease || !canAccessProperty(access, lease.propertyId)) {
+      return c.json({ error: 'Not found', message: 'Lease not found' }, 404);
+    }
+
+    const entries = await getLedgerEntries(c.env.DB, siteId, leaseId);
+
+    return c.json({
+      success: true,
+      data: {
+        leaseId,
+        entries: applyRunningBalance(entries),
+        summary: summarizeLedger(entries),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching lease ledger:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/leases/:id/ledger
+ * Record a ledger entry (charge, payment, credit or adjustment)
+ *
+ * Request body:
+ * {
+ *   entryType: 'charge' | 'payment' | 'credit' | 'adjustment',
+ *   category?: 'rent' | 'deposit' | 'late_fee' | 'utility' | 'other',
+ *   amount: number,            // negative only allowed for adjustments
+ *   effectiveDate: 'YYYY-MM-DD',
+ *   description?: string,
+ *   paymentMethod?: string,
+ *   reference?: string
+ * }
+ */
+opsLeasesRoutes.post('/leases/:id/ledger', requirePermission('financials:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    const userId = c.req.header('X-User-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const leaseId = c.req.param('id');
+
+    const access = getRequestAccess(c);
+    const lease = await getLeaseById(c.env.DB, siteId, leaseId);
+    if (!lease || !canAccessProperty(access, lease.propertyId)) {
+      return c.json({ error: 'Not found', message: 'Lease not found' }, 404);
+    }
+
+    const body = await c.req.json();
+    const parsed = CreateLedgerEntrySchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({
+        error: 'Validation error',
+        message: parsed.error.issues.map((issue) => issue.message).join(', '),
+      }, 400);
+    }
+
+    const entry = await createLedgerEntry(c.env.DB, siteId, {
+      ...parsed.data,
+      leaseId,
+      createdBy: userId || undefined,
+    });
+
+    if (userId) {
+      await logAuditEntry(c.env.DB, {
+        siteId,
+        entityType: 'lease',
+        entityId: leaseId,
+        action: `ledger_${entry.entryType}`,
+        performedBy: userId,
+        changes: {
+          ledger_entry_id: entry.id,
+          amount: entry.amount,
+          category: entry.category,
+          effective_date: entry.effectiveDate,
+        },
+      });
+    }
+
+    return c.json({
+      success: true,
+      data: entry,
+    }, 201);
+  } catch (error) {
+    console.error('Error creating ledger entry:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/leases/:id/ledger/generate-charges
+ * Generate missing monthly rent charges up to a date, without waiting for
+ * the daily job (e.g. after back-dating a lease)
+ *
+ * Request body (optional):
+ * {
+ *   as_of?: 'YYYY-MM-DD', not after today (default: today)
+ * }
+ */
+opsLeasesRoutes.post('/leases/:id/ledger/generate-charges', requirePermission('financials:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const leaseId = c.req.param('id');
+
+    const access = getRequestAccess(c);
+    const lease = await getLeaseById(c.env.DB, siteId, leaseId);
+    if (!lease || !canAccessProperty(access, lease.propertyId)) {
+      return c.json({ error: 'Not found', message: 'Lease not found' }, 404);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const asOf = body.as_of || new Date().toISOString().slice(0, 10);
+    // Generated charges can't be deleted, so they are never posted ahead of time
+    const asOfError = typeof asOf === 'string' ? validateAsOf(asOf) : 'Expected a date (YYYY-MM-DD)';
+    if (asOfError) {
+      return c.json({ error: 'Invalid as_of', message: asOfError }, 400);
+    }
+
+    const created = await generateRentCharges(c.env.DB, siteId, lease, asOf);
+
+    return c.json({
+      success: true,
+      data: { created },
+    });
+  } catch (error) {
+    console.error('Error generating rent charges:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/leases/:id/ledger/:entryId/delete
+ * Delete a ledger entry (e.g. a payment recorded in error)
+ */
+opsLeasesRoutes.post('/leases/:id/ledger/:entryId/delete', requirePermission('financials:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    const userId = c.req.header('X-User-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const leaseId = c.req.param('id');
+    const entryId = c.req.param('entryId');
+
+    const access = getRequestAccess(c);
+    const lease = await getLeaseById(c.env.DB, siteId, leaseId);
+    const entry = await getLedgerEntryById(c.env.DB, siteId, entryId);
+    if (!lease || !canAccessProperty(access, lease.propertyId) || !entry || entry.leaseId !== leaseId) {
+      return c.json({ error: 'Not found', message: 'Ledger entry not found' }, 404);
+    }
+
+    // Generated rent charges would be recreated by the next run; waive them with a credit instead
+    if (entry.period) {
+      return c.json({
+        error: 'Validation error',
+        message: 'Generated rent charges cannot be deleted. Record a credit to waive rent.',
+      }, 400);
+    }
+
+    await deleteLedgerEntry(c.env.DB, siteId, entryId);
+
+    if (userId) {
+      await logAuditEntry(c.env.DB, {
+        siteId,
+        entityType: 'lease',
+        entityId: leaseId,
+        action: 'ledger_delete',
+        performedBy: userId,
+        changes: {
+          ledger_entry_id: entryId,
+          entry_type: entry.entryType,
+          amount: entry.amount,
+          effective_date: entry.effectiveDate,
+        },
+      });
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting ledger entry:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+// ==================== E-SIGNATURE ====================
+
+/**
+ * GET /api/ops/leases/:id/signature
+ * Latest e-signature envelope for a lease (null if never sent).
+ * Pass ?refresh=true to poll the provider and apply any status change.
+ */
+opsLeasesRoutes.get('/leases/:id/signature', requirePermission('leases:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const leaseId = c.req.param('id');
+    const denied = await checkLeaseAccess(c, siteId, leaseId);
+    if (denied) return denied;
+
+    let envelope = await getLatestSignatureEnvelope(c.env.DB, siteId, leaseId);
+
+    if (envelope && c.req.query('refresh') === 'true' && !['completed', 'declined', 'voided'].includes(envelope.status)) {
+      const provider = getESignProvider(c.env);
+      if (provider.name === envelope.provider) {
+        try {
+          const update = await provider.getEnvelopeStatus(envelope.envelopeId);
+          envelope = await applyEnvelopeStatusUpdate(c.env.DB, c.env.PRIVATE_BUCKET, provider, siteId, envelope, update);
+        } catch (error) {
+          // Provider unavailable or envelope unknown; fall back to the stored state
+          console.error('Error refreshing envelope status:', error);
+        }
+      }
+    }
+
+    return c.json({
+      success: true,
+      data: envelope,
+    });
+  } catch (error) {
+    console.error('Error fetching lease signature:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/leases/:id/signature/send
+ * Send the lease document to the tenant for e-signature and move the lease
+ * to 'pending_signature'. The lease must be a draft (or pending_signature,
+ * to resend) and have an uploaded 'lease_document' file.
+ *
+ * Request body:
+ * {
+ *   documentId?: string,                          // defaults to latest lease_document
+ *   landlordSigner?: { name: string, email: string },
+ *   subject?: string,
+ *   message?: string
+ * }
+ */
+opsLeasesRoutes.post('/leases/:id/signature/send', requirePermission('leases:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+    const leaseId = c.req.param('id');
+    const denied = await checkLeaseAccess(c, siteId, leaseId);
+    if (denied) return denied;
+
+    const parsed = SendLeaseForSignatureSchema.safeParse(await c.req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return c.json(
+        {
+          error: 'Validation failed',
+          message: parsed.error.issues.map((issue) => issue.message).join(', '),
+        },
+        400
+      );
+    }
+
+    const lease = await getLeaseById(c.env.DB, siteId, leaseId);
+    if (!lease) {
+      return c.json({ error: 'Not found', message: 'Lease not found' }, 404);
+    }
+    if (lease.status !== 'draft' && lease.status !== 'pending_signature') {
+      return c.json(
+        { error: 'Invalid status transition', message: `Cannot send a ${lease.status} lease for signature` },
+        400
+      );
+    }
+
+    const documents = (await getLeaseFiles(c.env.DB, siteId, leaseId)).filter(
+      (file) => file.fileType === 'lease_document'
+    );
+    const document = parsed.data.documentId
+      ? documents.find((file) => file.id === parsed.data.documentId)
+      : documents[0];
+    if (!document) {
+      return c.json(
+        { error: 'Validation failed', message: 'Upload a lease document before sending for signature' },
+        400
+      );
+    }
+
+    const provider = getESignProvider(c.env);
+    const envelope = await sendLeaseForSignature(
+      c.env.DB,
+      c.env.PRIVATE_BUCKET,
+      provider,
+      siteId,
+      lease,
+      document,
+      parsed.data
+    );
+
+    if (userId) {
+      await logAuditEntry(c.env.DB, {
+        siteId,
+        entityType: 'lease',
+        entityId: leaseId,
+        action: 'signature_sent',
+        performedBy: userId,
+        changes: {
+          provider: envelope.provider,
+          envelope_id: envelope.envelopeId,
+          document_id: document.id,
+          signers: envelope.signers.map((signer) => signer.email),
+        },
+      });
+    }
+
+    return c.json(
+      {
+        success: true,
+        data: envelope,
+      },
+      201
+    );
+  } catch (error) {
+    console.error('Error sending lease for signature:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
 export default opsLeasesRoutes;
@@ -0,0 +1,415 @@
+/**
+ * Tenant Notice API Routes (/api/ops/tenants/:id/notices, /api/ops/notices/*)
+ *
+ * Handles:
+ * - Ontario N1 / N4 / N11 notice records per tenant
+ * - Lifecycle: create (draft) → serve → effective → complete, or void
+ * - Effective-date calculation on serve (see shared/utils/notices.ts)
+ * - Upcoming deadlines and raised reminders for the Ops dashboard
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getTenantById, updateTenant } from '../lib/db/tenants';
+import { getLeaseById, getLeases } from '../lib/db/leases';
+import {
+  getNoticesByTenant,
+  getNoticeById,
+  getNoticeEvents,
+  getUpcomingNotices,
+  createNotice,
+  serveNotice,
+  voidNotice,
+  completeNotice,
+  acknowledgeNoticeReminder,
+  canTransitionNotice,
+} from '../lib/db/notices';
+import { CreateNoticeSchema, ServeNoticeSchema } from '../../../shared/config';
+import type { CloudflareEnv } from '../../../shared/config';
+import { requirePermission } from '../middleware/permissions';
+import { checkNoticeAccess, checkTenantAccess, getRequestAccess } from '../middleware/user-access';
+import { filterByPropertyAccess } from '../../../shared/utils';
+
+type Bindings = CloudflareEnv;
+
+const opsNoticesRoutes = new Hono<{ Bindings: Bindings }>();
+
+function invalidTransition(c: Context, from: string, to: string) {
+  return c.json({ error: 'Invalid status transition', message: `Cannot move notice from ${from} to ${to}` }, 400);
+}
+
+// ==================== TENANT NOTICES ====================
+
+/**
+ * GET /api/ops/tenants/:id/notices
+ * List all notices for a tenant (newest first)
+ */
+opsNoticesRoutes.get('/tenants/:id/notices', requirePermission('tenants:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const tenantId = c.req.param('id');
+    const denied = await checkTenantAccess(c, siteId, tenantId);
+    if (denied) return denied;
+
+    const notices = await getNoticesByTenant(c.env.DB, siteId, tenantId);
+
+    return c.json({
+      success: true,
+      data: notices,
+    });
+  } catch (error) {
+    console.error('Error fetching tenant notices:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/tenants/:id/notices
+ * Create a draft notice for a tenant
+ *
+ * Body: {
+ *   type: 'n1' | 'n4' | 'n11',
+ *   leaseId?: string,          // defaults to the tenant's active/signed lease
+ *   details: NoticeDetails,    // N1 rents, N4 arrears, N11 agreed termination date
+ *   reminderSchedule?: number[],
+ *   notes?: string
+ * }
+ */
+opsNoticesRoutes.post('/tenants/:id/notices', requirePermission('tenants:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+    const tenantId = c.req.param('id');
+    const denied = await checkTenantAccess(c, siteId, tenantId);
+    if (denied) return denied;
+
+    const tenant = await getTenantById(c.env.DB, siteId, tenantId);
+    if (!tenant) {
+      return c.json({ error: 'Not found', message: 'Tenant not found' }, 404);
+    }
+
+    const parsed = CreateNoticeSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          error: 'Validation failed',
+          message: parsed.error.issues.map((issue) => issue.message).join(', '),
+        },
+        400
+      );
+    }
+
+    let lease = parsed.data.leaseId ? await getLeaseById(c.env.DB, siteId, parsed.data.leaseId) : null;
+    if (parsed.data.leaseId && (!lease || lease.tenantId !== tenantId)) {
+      return c.json({ error: 'Not found', message: 'Lease not found for this tenant' }, 404);
+    }
+    if (!lease) {
+      const leases = await getLeases(c.env.DB, siteId, { tenantId });
+      lease = leases.find((l) => l.status === 'active' || l.status === 'signed') || null;
+    }
+
+    const notice = await createNotice(
+      c.env.DB,
+      siteId,
+      tenantId,
+      {
+        ...parsed.data,
+        leaseId: lease?.id,
+        propertyId: lease?.propertyId,
+        unitId: lease?.unitId,
+      },
+      userId
+    );
+
+    return c.json(
+      {
+        success: true,
+        data: notice,
+      },
+      201
+    );
+  } catch (error) {
+    console.error('Error creating notice:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+// ==================== NOTICE LIFECYCLE ====================
+
+/**
+ * GET /api/ops/notices/upcoming
+ * Served/effective notices with an unacknowledged reminder or an
+ * effective date in the next `days` days (default 30)
+ */
+opsNoticesRoutes.get('/notices/upcoming', requirePermission('tenants:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const days = c.req.query('days') ? parseInt(c.req.query('days')!, 10) : 30;
+    const notices = await getUpcomingNotices(c.env.DB, siteId, { days: Number.isNaN(days) ? 30 : days });
+
+    return c.json({
+      success: true,
+      data: filterByPropertyAccess(getRequestAccess(c), notices, (notice) => notice.propertyId),
+    });
+  } catch (error) {
+    console.error('Error fetching upcoming notices:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/ops/notices/:id
+ * Get a notice with its event history
+ */
+opsNoticesRoutes.get('/notices/:id', requirePermission('tenants:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const noticeId = c.req.param('id');
+    const denied = await checkNoticeAccess(c, siteId, noticeId);
+    if (denied) return denied;
+
+    const notice = await getNoticeById(c.env.DB, siteId, noticeId);
+    if (!notice) {
+      return c.json({ error: 'Not found', message: 'Notice not found' }, 404);
+    }
+
+    const events = await getNoticeEvents(c.env.DB, siteId, noticeId);
+
+    return c.json({
+      success: true,
+      data: { ...notice, events },
+    });
+  } catch (error) {
+    console.error('Error fetching notice:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/notices/:id/serve
+ * Record service of a draft notice and calculate its effective date.
+ * Serving an N11 moves the tenant to 'pending_n11'.
+ *
+ * Body: { servedOn: 'YYYY-MM-DD', serviceMethod, rentPeriod?: 'monthly' | 'weekly' }
+ */
+opsNoticesRoutes.post('/notices/:id/serve', requirePermission('tenants:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+    const noticeId = c.req.param('id');
+    const denied = await checkNoticeAccess(c, siteId, noticeId);
+    if (denied) return denied;
+
+    const notice = await getNoticeById(c.env.DB, siteId, noticeId);
+    if (!notice) {
+      return c.json({ error: 'Not found', message: 'Notice not found' }, 404);
+    }
+    if (!canTransitionNotice(notice.status, 'served')) {
+      return invalidTransition(c, notice.status, 'served');
+    }
+
+    const parsed = ServeNoticeSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          error: 'Validation failed',
+          message: parsed.error.issues.map((issue) => issue.message).join(', '),
+        },
+        400
+      );
+    }
+
+    const lease = notice.leaseId ? await getLeaseById(c.env.DB, siteId, notice.leaseId) : null;
+
+    const served = await serveNotice(
+      c.env.DB,
+      siteId,
+      notice,
+      { ...parsed.data, leaseStartDate: lease?.startDate },
+      userId
+    );
+    if (!served) {
+      return c.json({ error: 'Validation failed', message: 'Unable to determine the effective date' }, 400);
+    }
+
+    if (notice.type === 'n11') {
+      await updateTenant(c.env.DB, siteId, notice.tenantId, { status: 'pending_n11' });
+    }
+
+    return c.json({
+      success: true,
+      data: served,
+    });
+  } catch (error) {
+    console.error('Error serving notice:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/notices/:id/void
+ * Void a draft or served notice (e.g. N4 arrears paid before the termination date)
+ *
+ * Body: { reason?: string }
+ */
+opsNoticesRoutes.post('/notices/:id/void', requirePermission('tenants:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+    const noticeId = c.req.param('id');
+    const denied = await checkNoticeAccess(c, siteId, noticeId);
+    if (denied) return denied;
+    const body = await c.req.json().catch(() => ({}));
+
+    const notice = await getNoticeById(c.env.DB, siteId, noticeId);
+    if (!notice) {
+      return c.json({ error: 'Not found', message: 'Notice not found' }, 404);
+    }
+    if (!canTransitionNotice(notice.status, 'void')) {
+      return invalidTransition(c, notice.status, 'void');
+    }
+
+    await voidNotice(c.env.DB, siteId, noticeId, body.reason, userId);
+
+    return c.json({
+      success: true,
+      data: await getNoticeById(c.env.DB, siteId, noticeId),
+    });
+  } catch (error) {
+    console.error('Error voiding notice:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/notices/:id/complete
+ * Close out a served or effective notice
+ */
+opsNoticesRoutes.post('/notices/:id/complete', requirePermission('tenants:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+    const noticeId = c.req.param('id');
+    const denied = await checkNoticeAccess(c, siteId, noticeId);
+    if (denied) return denied;
+
+    const notice = await getNoticeById(c.env.DB, siteId, noticeId);
+    if (!notice) {
+      return c.json({ error: 'Not found', message: 'Notice not found' }, 404);
+    }
+    if (!canTransitionNotice(notice.status, 'completed')) {
+      return invalidTransition(c, notice.status, 'completed');
+    }
+
+    await completeNotice(c.env.DB, siteId, noticeId, userId);
+
+    return c.json({
+      success: true,
+      data: await getNoticeById(c.env.DB, siteId, noticeId),
+    });
+  } catch (error) {
+    console.error('Error completing notice:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/notices/:id/acknowledge-reminder
+ * Dismiss a raised reminder from the dashboard
+ */
+opsNoticesRoutes.post('/notices/:id/acknowledge-reminder', requirePermission('tenants:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+    const noticeId = c.req.param('id');
+    const denied = await checkNoticeAccess(c, siteId, noticeId);
+    if (denied) return denied;
+
+    const notice = await getNoticeById(c.env.DB, siteId, noticeId);
+    if (!notice) {
+      return c.json({ error: 'Not found', message: 'Notice not found' }, 404);
+    }
+
+    await acknowledgeNoticeReminder(c.env.DB, siteId, noticeId, userId);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error acknowledging notice reminder:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+export default opsNoticesRoutes;
@@ -0,0 +1,104 @@
+/**
+ * Application Pipeline API Routes (/api/ops/application-pipeline)
+ *
+ * Handles:
+ * - Reading the site's application pipeline (the built-in one until saved)
+ * - Replacing the site's pipeline
+ *
+ * Stage changes are checked against the pipeline by changeApplicationStage.
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getApplicationPipeline, saveApplicationPipeline } from '../lib/db/application-pipelines';
+import { validateApplicationPipeline } from '../../../shared/utils';
+import { SaveApplicationPipelineSchema } from '../../../shared/config';
+import type { CloudflareEnv } from '../../../shared/config';
+import { requirePermission } from '../middleware/permissions';
+
+type Bindings = CloudflareEnv;
+
+const opsPipelineRoutes = new Hono<{ Bindings: Bindings }>();
+
+// ==================== APPLICATION PIPELINE ====================
+
+/**
+ * GET /api/ops/application-pipeline
+ * The site's application pipeline
+ */
+opsPipelineRoutes.get('/application-pipeline', requirePermission('leads:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const pipeline = await getApplicationPipeline(c.env.DB, siteId);
+
+    return c.json({
+      success: true,
+      data: pipeline,
+    });
+  } catch (error) {
+    console.error('Error fetching application pipeline:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * PUT /api/ops/application-pipeline
+ * Replace the site's pipeline
+ *
+ * Body: {
+ *   stages: Array<{ key, label, bucket: LeadStatus, checklist: PipelineChecklistItem[] }>
+ * }
+ */
+opsPipelineRoutes.put('/application-pipeline', requirePermission('settings:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+
+    const parsed = SaveApplicationPipelineSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          error: 'Validation failed',
+          message: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+        },
+        400
+      );
+    }
+
+    const problems = validateApplicationPipeline(parsed.data);
+    if (problems.length > 0) {
+      return c.json({ error: 'Validation failed', message: problems.join(', ') }, 400);
+    }
+
+    const pipeline = await saveApplicationPipeline(c.env.DB, siteId, parsed.data.stages, userId);
+
+    return c.json({
+      success: true,
+      data: pipeline,
+    });
+  } catch (error) {
+    console.error('Error saving application pipeline:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+export default opsPipelineRoutes;
@@ -0,0 +1,161 @@
+/**
+ * Tenant Screening API Routes (/api/ops/applications/:applicationId/screening)
+ *
+ * Handles:
+ * - Ordering screening reports per applicant through the configured provider
+ * - Polling the provider for outstanding reports
+ * - Mirroring results onto applicant background check fields
+ *
+ * Provider callbacks arrive on /api/webhooks/screening/:provider (see webhooks.ts).
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getLeadById, recordLeadHistory } from '../lib/db/leads';
+import { getApplicantsByApplicationId } from '../lib/db/application-applicants';
+import { changeApplicationStage } from '../lib/db/application-stage-transitions';
+import { getScreeningResultsByLead } from '../lib/db/screening';
+import { getScreeningProvider, requestApplicantScreening, applyScreeningReport } from '../lib/screening';
+import type { CloudflareEnv } from '../../../shared/config';
+import { getStageTransitionRule } from '../../../shared/utils';
+import { requirePermission } from '../middleware/permissions';
+import { checkLeadAccess } from '../middleware/user-access';
+
+type Bindings = CloudflareEnv;
+
+const opsScreeningRoutes = new Hono<{ Bindings: Bindings }>();
+
+// ==================== SCREENING ====================
+
+/**
+ * GET /api/ops/applications/:applicationId/screening
+ * Screening results for an application (newest first).
+ * Pass ?refresh=true to poll the provider for outstanding reports.
+ */
+opsScreeningRoutes.get('/applications/:applicationId/screening', requirePermission('leads:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const applicationId = c.req.param('applicationId');
+    const denied = await checkLeadAccess(c, siteId, applicationId);
+    if (denied) return denied;
+
+    let results = await getScreeningResultsByLead(c.env.DB, siteId, applicationId);
+
+    if (c.req.query('refresh') === 'true') {
+      const provider = getScreeningProvider(c.env);
+      const outstanding = results.filter(
+        (result) => result.provider === provider.name && (result.status === 'pending' || result.status === 'in_progress')
+      );
+
+      for (const result of outstanding) {
+        try {
+          const report = await provider.getScreeningReport(result.referenceId);
+          await applyScreeningReport(c.env.DB, siteId, result, report);
+        } catch (error) {
+          // Provider unavailable or order unknown; keep the stored state
+          console.error('Error refreshing screening result:', error);
+        }
+      }
+
+      if (outstanding.length > 0) {
+        results = await getScreeningResultsByLead(c.env.DB, siteId, applicationId);
+      }
+    }
+
+    return c.json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    console.error('Error fetching screening results:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/applications/:applicationId/screening
+ * Order screening reports and move the application to 'screening' when the
+ * workflow allows it from its current stage.
+ *
+ * Body: {
+ *   applicantIds?: string[]   // defaults to every applicant without a completed check
+ * }
+ */
+opsScreeningRoutes.post('/applications/:applicationId/screening', requirePermission('leads:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+    const applicationId = c.req.param('applicationId');
+    const denied = await checkLeadAccess(c, siteId, applicationId);
+    if (denied) return denied;
+    const body = await c.req.json().catch(() => ({}));
+
+    const lead = await getLeadById(c.env.DB, siteId, applicationId);
+    if (!lead) {
+      return c.json({ error: 'Not found', message: 'Application not found' }, 404);
+    }
+
+    const applicants = await getApplicantsByApplicationId(c.env.DB, applicationId);
+    const requestedIds: string[] | undefined = Array.isArray(body.applicantIds) ? body.applicantIds : undefined;
+    const targets = requestedIds
+      ? applicants.filter((applicant) => requestedIds.includes(applicant.id))
+      : applicants.filter(
+          (applicant) =>
+            applicant.backgroundCheckStatus !== 'completed' && applicant.backgroundCheckStatus !== 'in_progress'
+        );
+
+    if (targets.length === 0) {
+      return c.json(
+        { error: 'Validation failed', message: 'No applicants need screening' },
+        400
+      );
+    }
+
+    const provider = getScreeningProvider(c.env);
+    const results = [];
+    for (const applicant of targets) {
+      results.push(await requestApplicantScreening(c.env.DB, provider, siteId, applicant, userId));
+    }
+
+    // Ordering reports moves the application on wherever the workflow allows it
+    if (getStageTransitionRule(lead.status, 'screening')) {
+      await changeApplicationStage(c.env.DB, siteId, lead, 'screening', { type: 'system', userId });
+    }
+    await recordLeadHistory(c.env.DB, siteId, applicationId, 'screening_requested', {
+      provider: provider.name,
+      applicantIds: targets.map((applicant) => applicant.id),
+      requestedBy: userId ?? null,
+    });
+
+    return c.json(
+      {
+        success: true,
+        data: results,
+      },
+      201
+    );
+  } catch (error) {
+    console.error('Error requesting screening:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+export default opsScreeningRoutes;
@@ -0,0 +1,83 @@
+/**
+ * Global Search API Routes (/api/ops/search)
+ *
+ * Handles:
+ * - Searching properties, units, applicants, tenants and work orders by name,
+ *   email, phone, address or unit number from the ops command palette
+ *
+ * The index is kept up to date by triggers on the source tables (migration
+ * 0023), so there is nothing to call when records change.
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { searchSite, SEARCH_ENTITY_TYPES } from '../lib/db';
+import type { CloudflareEnv } from '../../../shared/config';
+import { GlobalSearchSchema } from '../../../shared/config';
+import type { Permission, SearchEntityType } from '../../../shared/types';
+import { hasPermission } from '../../../shared/utils';
+import { getRequestAccess } from '../middleware/user-access';
+import { forbidden } from '../middleware/permissions';
+
+type Bindings = CloudflareEnv;
+
+const opsSearchRoutes = new Hono<{ Bindings: Bindings }>();
+
+// Each group is only searched when the caller can read that kind of record
+const ENTITY_READ_PERMISSIONS: Record<SearchEntityType, Permission> = {
+  property: 'properties:read',
+  unit: 'properties:read',
+  lead: 'leads:read',
+  tenant: 'tenants:read',
+  work_order: 'work_orders:read',
+};
+
+/**
+ * GET /api/ops/search
+ * Records on the site matching every word of q, grouped by entity type
+ *
+ * Query: q (required, max 100 characters), limit (results per type, 1-20, default 5)
+ * Groups the caller's role cannot read come back empty, and results are
+ * limited to the caller's properties.
+ */
+opsSearchRoutes.get('/search', async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const parsed = GlobalSearchSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Bad request',
+        message: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+      }, 400);
+    }
+
+    const access = getRequestAccess(c);
+    if (!access) {
+      return forbidden(c, 'User does not have access to this site');
+    }
+    const types = SEARCH_ENTITY_TYPES.filter((type) => hasPermission(access, ENTITY_READ_PERMISSIONS[type]));
+
+    const results = await searchSite(c.env.DB, siteId, parsed.data.q, {
+      limit: parsed.data.limit,
+      types,
+      propertyIds: access.propertyIds,
+    });
+
+    return c.json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    console.error('Error searching:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export default opsSearchRoutes;
@@ -13,6 +13,8 @@ import type { Context } from 'hono';
 import { getTenants } from '../lib/db/tenants';
 import { createBulkAction, updateBulkActionResults, logAuditEntry } from '../lib/db/bulk-actions';
 import type { CloudflareEnv } from '../../../shared/config';
+import { requirePermission } from '../middleware/permissions';
+import { denyPropertyAccess } from '../middleware/user-access';
 
 type Bindings = CloudflareEnv;
 
@@ -87,7 +89,7 @@ function generateTenantCSV(tenants: any[]): string {
  *   }
  * }
  */
-opsTenantsRoutes.post('/tenants/bulk', async (c: Context) => {
+opsTenantsRoutes.post('/tenants/bulk', requirePermission('tenants:write'), async (c: Context) => {
   try {
     const siteId = c.get('siteId');
     const userId = c.get('userId');
@@ -120,6 +122,10 @@ opsTenantsRoutes.post('/tenants/bulk', async (c: Context) => {
     if (selectedTenants.length !== tenant_ids.length) {
       return c.json({ error: 'Some tenants not found' }, 404);
     }
+    for (const tenant of selectedTenants) {
+      const denied = denyPropertyAccess(c, tenant.currentLease?.propertyId);
+      if (denied) return denied;
+    }
 
     // Handle export action separately (no database changes)
     if (action === 'export') {
@@ -138,6 +144,7 @@ opsTenantsRoutes.post('/tenants/bulk', async (c: Context) => {
 
       // Log audit entry
       await logAuditEntry(c.env.DB, {
+        siteId,
         entityType: 'tenant',
         entityId: 'bulk',
         action: 'export',
@@ -188,6 +195,7 @@ opsTenantsRoutes.post('/tenants/bulk', async (c: Context) => {
             console.log(`[STUB] Adding tags to tenant ${tenantId}:`, params.tags);
 
             await logAuditEntry(c.env.DB, {
+              siteId,
               entityType: 'tenant',
               entityId: tenantId,
               action: 'add_tag',
@@ -213,6 +221,7 @@ opsTenantsRoutes.post('/tenants/bulk', async (c: Context) => {
             console.log(`[STUB] Sending email to tenant ${tenantId}`);
 
             await logAuditEntry(c.env.DB, {
+              siteId,
               entityType: 'tenant',
               entityId: tenantId,
               action: 'send_email',
@@ -238,6 +247,7 @@ opsTenantsRoutes.post('/tenants/bulk', async (c: Context) => {
             console.log(`[STUB] Sending document to tenant ${tenantId}`);
 
             await logAuditEntry(c.env.DB, {
+              siteId,
               entityType: 'tenant',
               entityId: tenantId,
               action: 'send_document',
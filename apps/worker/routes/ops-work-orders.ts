@@ -4,12 +4,25 @@
  * Handles:
  * - Work order counts by status
  * - Work order list endpoints
+ * - Photo and video attachments
  */
 
 import { Hono } from 'hono';
 import type { Context } from 'hono';
-import { getWorkOrders } from '../lib/db/work-orders';
+import { getWorkOrders, getWorkOrderById } from '../lib/db/work-orders';
+import { getWorkOrderAttachments, getWorkOrderAttachmentById } from '../lib/db/work-order-attachments';
+import {
+  createAttachmentDownloadUrl,
+  removeWorkOrderAttachment,
+  storeWorkOrderAttachment,
+  validateWorkOrderAttachment,
+  withSignedUrls,
+} from '../lib/work-order-attachments';
+import { WORK_ORDER_ATTACHMENT_CONSTRAINTS } from '../../../shared/config';
 import type { CloudflareEnv } from '../../../shared/config';
+import { getRequestAccess } from '../middleware/user-access';
+import { requirePermission } from '../middleware/permissions';
+import { canAccessProperty, filterByPropertyAccess } from '../../../shared/utils';
 
 type Bindings = CloudflareEnv;
 
@@ -31,16 +44,20 @@ const opsWorkOrdersRoutes = new Hono<{ Bindings: Bindings }>();
  *   total_actionable: number (open + in_progress)
  * }
  */
-opsWorkOrdersRoutes.get('/work-orders/counts', async (c: Context) => {
+opsWorkOrdersRoutes.get('/work-orders/counts', requirePermission('work_orders:read'), async (c: Context) => {
   try {
-    const siteId = c.get('siteId');
+    const siteId = c.get('siteId') || c.req.header('X-Site-Id');
 
     if (!siteId) {
       return c.json({ error: 'Missing siteId' }, 401);
     }
 
-    // Fetch all work orders for this site
-    const allWorkOrders = await getWorkOrders(c.env.DB, siteId, {});
+    // Fetch all work orders for this site the user can see
+    const allWorkOrders = filterByPropertyAccess(
+      getRequestAccess(c),
+      await getWorkOrders(c.env.DB, siteId, {}),
+      (wo) => wo.propertyId
+    );
 
     // Calculate counts
     const counts = {
@@ -74,4 +91,165 @@ opsWorkOrdersRoutes.get('/work-orders/counts', async (c: Context) => {
   }
 });
 
+// ==================== ATTACHMENTS ====================
+
+/**
+ * GET /api/ops/work-orders/:id/attachments
+ * List photos and videos for a work order, each with a signed URL
+ * (empty signedUrl when FILE_SIGNING_SECRET isn't configured)
+ */
+opsWorkOrdersRoutes.get('/work-orders/:id/attachments', requirePermission('work_orders:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const workOrderId = c.req.param('id');
+
+    const workOrder = await getWorkOrderById(c.env.DB, siteId, workOrderId);
+    if (!workOrder || !canAccessProperty(getRequestAccess(c), workOrder.propertyId)) {
+      return c.json({ error: 'Not found', message: 'Work order not found' }, 404);
+    }
+
+    const attachments = await getWorkOrderAttachments(c.env.DB, siteId, workOrderId);
+    const secret = c.env.FILE_SIGNING_SECRET;
+
+    return c.json({
+      success: true,
+      data: secret ? await withSignedUrls(secret, new URL(c.req.url).origin, siteId, attachments) : attachments,
+    });
+  } catch (error) {
+    console.error('Error fetching work order attachments:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/work-orders/:id/attachments
+ * Upload a photo or video
+ *
+ * Body: multipart/form-data with a `file` field
+ */
+opsWorkOrdersRoutes.post('/work-orders/:id/attachments', requirePermission('work_orders:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+    const userId = c.req.header('X-User-Id');
+    const workOrderId = c.req.param('id');
+
+    const contentLength = c.req.header('content-length');
+    if (contentLength && parseInt(contentLength) > WORK_ORDER_ATTACHMENT_CONSTRAINTS.maxVideoSize) {
+      return c.json({ error: 'File too large', message: 'File exceeds the maximum upload size' }, 413);
+    }
+
+    const workOrder = await getWorkOrderById(c.env.DB, siteId, workOrderId);
+    if (!workOrder || !canAccessProperty(getRequestAccess(c), workOrder.propertyId)) {
+      return c.json({ error: 'Not found', message: 'Work order not found' }, 404);
+    }
+
+    const formData = await c.req.formData();
+    const file = formData.get('file') as File | null;
+    if (!file || typeof file === 'string') {
+      return c.json({ error: 'Validation failed', message: 'No file provided' }, 400);
+    }
+
+    const existing = await getWorkOrderAttachments(c.env.DB, siteId, workOrderId);
+    const invalid = validateWorkOrderAttachment(file, existing.length);
+    if (invalid) {
+      return c.json({ error: invalid.error, message: invalid.message }, invalid.status);
+    }
+
+    const attachment = await storeWorkOrderAttachment(c.env, siteId, workOrderId, file, {
+      userId: userId || undefined,
+    });
+
+    return c.json({ success: true, data: attachment }, 201);
+  } catch (error) {
+    console.error('Error uploading work order attachment:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * GET /api/ops/work-orders/:id/attachments/:attachmentId/download
+ * Issue a short-lived signed download URL
+ *
+ * Response: { success: true, data: { url, expiresAt } }
+ */
+opsWorkOrdersRoutes.get('/work-orders/:id/attachments/:attachmentId/download', requirePermission('work_orders:read'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const attachment = await getWorkOrderAttachmentById(c.env.DB, siteId, c.req.param('attachmentId'));
+    if (!attachment || attachment.workOrderId !== c.req.param('id')) {
+      return c.json({ error: 'Not found', message: 'Attachment not found' }, 404);
+    }
+
+    const secret = c.env.FILE_SIGNING_SECRET;
+    if (!secret) {
+      return c.json({ error: 'Not configured', message: 'FILE_SIGNING_SECRET is not set' }, 500);
+    }
+
+    const download = await createAttachmentDownloadUrl(secret, new URL(c.req.url).origin, siteId, attachment.id);
+    return c.json({ success: true, data: download });
+  } catch (error) {
+    console.error('Error signing work order attachment download:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/ops/work-orders/:id/attachments/:attachmentId/delete
+ * Delete an attachment and its stored file
+ */
+opsWorkOrdersRoutes.post('/work-orders/:id/attachments/:attachmentId/delete', requirePermission('work_orders:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) {
+      return c.json({ error: 'Missing X-Site-Id header' }, 400);
+    }
+
+    const attachment = await getWorkOrderAttachmentById(c.env.DB, siteId, c.req.param('attachmentId'));
+    if (!attachment || attachment.workOrderId !== c.req.param('id')) {
+      return c.json({ error: 'Not found', message: 'Attachment not found' }, 404);
+    }
+
+    await removeWorkOrderAttachment(c.env, siteId, attachment);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting work order attachment:', error);
+    return c.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
 export default opsWorkOrdersRoutes;
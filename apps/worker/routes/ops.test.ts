@@ -0,0 +1,285 @@
+/**
+ * Integration tests for the ops routes as called by apps/ops
+ * @vitest-environment node
+ *
+ * The ops worker client is used as-is, with fetch routed into /api/ops over
+ * an in-memory SQLite database, so calls are signed, scoped and audited as
+ * in production. Transactions follow D1's rules: writes are queued until
+ * commit and reads after a queued write fail.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'node:path';
+import { Hono } from 'hono';
+import { SQLiteDatabaseAdapter, applySqlFiles } from '../../../shared/storage-sqlite/sqlite-database';
+import { runD1Transaction } from '../../../shared/storage-cloudflare/d1-database';
+import type { ITransaction } from '../../../shared/storage-core';
+import { opsRoutes } from './ops';
+import { createUser, grantPropertyAccess } from '../lib/db/users';
+import { createProperty } from '../lib/db/properties';
+import { getAuditLog } from '../lib/db/audit';
+import { createLead, getLeadById } from '../lib/db/leads';
+import { createLease, getLeaseById } from '../lib/db/leases';
+import { createTenant, getTenantById } from '../lib/db/tenants';
+import { getLedgerEntries } from '../lib/db/ledger';
+import {
+  fetchDelinquencyReportFromWorker,
+  fetchPropertiesFromWorker,
+  fetchUnitsForPropertiesFromWorker,
+  fetchUserByEmailFromWorker,
+  savePropertyToWorker,
+  saveUnitToWorker,
+  saveWorkOrderToWorker,
+  signedWorkerFetch,
+} from '../../ops/app/lib/worker-client';
+import type { WorkerConfig, WorkerEnv } from '../../ops/app/lib/worker-client';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../scripts/migrations');
+const SITE_ID = 'site_1';
+const CONFIG: WorkerConfig = { WORKER_URL: 'http://worker.test', WORKER_INTERNAL_KEY: 'k1:test-secret' };
+
+class D1SemanticsDatabase extends SQLiteDatabaseAdapter {
+  async transaction<T>(fn: (tx: ITransaction) => Promise<T>): Promise<T> {
+    return runD1Transaction(this, fn);
+  }
+}
+
+describe('ops routes', () => {
+  let db: D1SemanticsDatabase;
+  let managerEnv: WorkerEnv;
+  let ownerEnv: WorkerEnv;
+  let ownedPropertyId: string;
+
+  const propertyData = (name: string) => ({
+    name,
+    address: '1 Main St',
+    city: 'Toronto',
+    province: 'ON',
+    postalCode: 'M1M 1M1',
+    propertyType: 'multi_family',
+  });
+
+  beforeEach(async () => {
+    db = new D1SemanticsDatabase();
+    await applySqlFiles(db, MIGRATIONS_DIR);
+
+    const app = new Hono();
+    app.route('/api/ops', opsRoutes);
+    const env = { DB: db, WORKER_INTERNAL_KEY: CONFIG.WORKER_INTERNAL_KEY };
+    vi.stubGlobal('fetch', (input: string, init?: RequestInit) => app.request(input, init, env));
+
+    const manager = await createUser(db, {
+      email: 'pm@example.com',
+      name: 'Pat Manager',
+      passwordHash: 'x',
+      role: 'property_manager',
+      siteId: SITE_ID,
+    });
+    const owner = await createUser(db, {
+      email: 'owner@example.com',
+      name: 'Olive Owner',
+      passwordHash: 'x',
+      role: 'owner',
+      siteId: SITE_ID,
+    });
+    managerEnv = { ...CONFIG, userId: manager.id };
+    ownerEnv = { ...CONFIG, userId: owner.id };
+
+    const owned = await createProperty(db, SITE_ID, propertyData('Maple House'));
+    await createProperty(db, SITE_ID, propertyData('Cedar Court'));
+    ownedPropertyId = owned.id;
+    await grantPropertyAccess(db, SITE_ID, owner.id, owned.id, manager.id);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('limits lists to the acting user\'s properties', async () => {
+    const managerProperties = await fetchPropertiesFromWorker(managerEnv, SITE_ID);
+    expect(managerProperties).toHaveLength(2);
+
+    const ownerProperties = await fetchPropertiesFromWorker(ownerEnv, SITE_ID);
+    expect(ownerProperties.map((property) => property.id)).toEqual([ownedPropertyId]);
+  });
+
+  it('fetches units for a page of properties in one call, within the user\'s scope', async () => {
+    const [maple, cedar] = await fetchPropertiesFromWorker(managerEnv, SITE_ID);
+    for (const property of [maple, cedar]) {
+      await saveUnitToWorker(managerEnv, SITE_ID, {
+        propertyId: property.id,
+        unitNumber: '1',
+        bedrooms: 1,
+        bathrooms: 1,
+        rentAmount: 1500,
+      });
+    }
+    const propertyIds = [maple.id, cedar.id];
+
+    expect(await fetchUnitsForPropertiesFromWorker(managerEnv, SITE_ID, propertyIds)).toHaveLength(2);
+    const ownerUnits = await fetchUnitsForPropertiesFromWorker(ownerEnv, SITE_ID, propertyIds);
+    expect(ownerUnits.map((unit) => unit.propertyId)).toEqual([ownedPropertyId]);
+  });
+
+  it('is rejected by the worker without an acting user', async () => {
+    await expect(fetchPropertiesFromWorker({ ...CONFIG, userId: '' }, SITE_ID)).rejects.toThrow(
+      'Worker API error: Unauthorized'
+    );
+  });
+
+  it('looks users up by email for login without an acting user', async () => {
+    const user = await fetchUserByEmailFromWorker(CONFIG, SITE_ID, 'pm@example.com');
+    expect(user?.email).toBe('pm@example.com');
+  });
+
+  it('records the acting user on audit entries for ops saves', async () => {
+    const property = await savePropertyToWorker(managerEnv, SITE_ID, propertyData('Birch Row'));
+    const unit = await saveUnitToWorker(managerEnv, SITE_ID, {
+      propertyId: property.id,
+      unitNumber: '101',
+      bedrooms: 2,
+      bathrooms: 1,
+      rentAmount: 2000,
+    });
+    const workOrder = await saveWorkOrderToWorker(managerEnv, SITE_ID, {
+      propertyId: property.id,
+      title: 'Leaking tap',
+      description: 'Kitchen tap drips',
+      category: 'plumbing',
+      priority: 'medium',
+    });
+
+    for (const [entityType, entityId] of [
+      ['property', property.id],
+      ['unit', unit.id],
+      ['work_order', workOrder.id],
+    ] as const) {
+      const [entry] = await getAuditLog(db, SITE_ID, { entityType, entityId });
+      expect(entry).toMatchObject({ action: 'create', performedBy: managerEnv.userId, performedByName: 'Pat Manager' });
+    }
+  });
+
+  it('proceeds a shortlisted application to a draft lease', async () => {
+    const unit = await saveUnitToWorker(managerEnv, SITE_ID, {
+      propertyId: ownedPropertyId,
+      unitNumber: '2',
+      bedrooms: 2,
+      bathrooms: 1,
+      rentAmount: 1800,
+    });
+    const lead = await createLead(db, SITE_ID, {
+      propertyId: ownedPropertyId,
+      firstName: 'Sam',
+      lastName: 'Applicant',
+      email: 'sam@example.com',
+      phone: '555-0100',
+      employmentStatus: 'employed',
+      moveInDate: '2026-12-01',
+      isActive: true,
+    });
+    await db.execute("UPDATE leads SET status = 'ai_evaluated', ai_label = 'A', unit_id = ? WHERE id = ?", [
+      unit.id,
+      lead.id,
+    ]);
+
+    const response = await signedWorkerFetch(
+      `${CONFIG.WORKER_URL}/api/ops/applications/${lead.id}/proceed-to-lease`,
+      managerEnv,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Site-Id': SITE_ID },
+        body: JSON.stringify({ lease_start_date: '2026-12-01', lease_term_months: 12 }),
+      }
+    );
+    expect(response.status).toBe(200);
+    const { lease_id } = (await response.json()) as { lease_id: string };
+
+    expect(await getLeaseById(db, SITE_ID, lease_id)).toMatchObject({ unitId: unit.id, status: 'draft' });
+    expect((await getLeadById(db, SITE_ID, lead.id))?.status).toBe('approved');
+  });
+
+  it('reports delinquency without posting rent charges', async () => {
+    const tenant = await createTenant(db, SITE_ID, {
+      firstName: 'Ada',
+      lastName: 'Tenant',
+      email: 'ada@example.com',
+      phone: '555-0100',
+      status: 'active',
+    });
+    const lease = await createLease(db, SITE_ID, {
+      propertyId: ownedPropertyId,
+      tenantId: tenant.id,
+      startDate: '2025-01-01',
+      endDate: '2030-12-31',
+      monthlyRent: 1500,
+      securityDeposit: 1500,
+      status: 'active',
+    });
+
+    await fetchDelinquencyReportFromWorker(managerEnv, SITE_ID);
+    await expect(fetchDelinquencyReportFromWorker(managerEnv, SITE_ID, '2030-06-01')).rejects.toThrow(
+      'Worker API error: Invalid asOf'
+    );
+    expect(await getLedgerEntries(db, SITE_ID, lease.id)).toEqual([]);
+  });
+
+  it('refuses records on properties outside the acting user\'s scope', async () => {
+    const cedarId = (await fetchPropertiesFromWorker(managerEnv, SITE_ID)).find((p) => p.name === 'Cedar Court')!.id;
+    const leadData = {
+      firstName: 'Sam',
+      lastName: 'Applicant',
+      email: 'sam@example.com',
+      phone: '555-0100',
+      employmentStatus: 'employed' as const,
+      moveInDate: '2026-12-01',
+      isActive: true,
+    };
+    const ownLead = await createLead(db, SITE_ID, { ...leadData, propertyId: ownedPropertyId });
+    const lead = await createLead(db, SITE_ID, { ...leadData, propertyId: cedarId });
+    const tenant = await createTenant(db, SITE_ID, {
+      firstName: 'Ada',
+      lastName: 'Tenant',
+      email: 'ada@example.com',
+      phone: '555-0100',
+      status: 'active',
+    });
+    await createLease(db, SITE_ID, {
+      propertyId: cedarId,
+      tenantId: tenant.id,
+      startDate: '2025-01-01',
+      endDate: '2030-12-31',
+      monthlyRent: 1500,
+      securityDeposit: 1500,
+      status: 'active',
+    });
+
+    const ownerFetch = (path: string, init: RequestInit = {}) =>
+      signedWorkerFetch(`${CONFIG.WORKER_URL}/api/ops${path}`, ownerEnv, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', 'X-Site-Id': SITE_ID },
+      });
+    const post = (body: unknown) => ({ method: 'POST', body: JSON.stringify(body) });
+
+    expect((await ownerFetch(`/leads/${ownLead.id}`)).status).toBe(200);
+    for (const [path, init] of [
+      [`/leads/${lead.id}`, {}],
+      [`/leads/${lead.id}/notes`, post({ landlordNote: 'Owner note' })],
+      [`/tenants/${tenant.id}`, {}],
+      [`/tenants/${tenant.id}`, { method: 'DELETE' }],
+      [`/applications/${lead.id}/notes`, {}],
+      [`/properties/${cedarId}/applications`, {}],
+      [`/properties/${cedarId}/delete`, post({})],
+      [`/tenants/${tenant.id}/notices`, {}],
+      [`/applications/${lead.id}/screening`, {}],
+      [`/audit?entityType=lead&entityId=${lead.id}`, {}],
+      [`/audit?entityType=lead`, {}],
+    ] as const) {
+      const response = await ownerFetch(path, init);
+      expect(response.status, `${init.method ?? 'GET'} ${path}`).toBe(403);
+    }
+
+    expect((await getLeadById(db, SITE_ID, lead.id))?.landlordNote).toBeNull();
+    expect(await getTenantById(db, SITE_ID, tenant.id)).not.toBeNull();
+    expect((await fetchPropertiesFromWorker(managerEnv, SITE_ID)).map((p) => p.id)).toContain(cedarId);
+  });
+});
@@ -2,14 +2,30 @@
  * Ops API Routes (/api/ops/*)
  *
  * Used by apps/ops (admin dashboard)
- * Authentication: Internal (trust/key/context - see middleware/internal.ts)
+ * Authentication: Signed requests (see middleware/internal.ts)
+ * Authorization: each route declares the permission it needs (see middleware/permissions.ts)
  */
 
 import { Hono } from 'hono';
 import type { Context } from 'hono';
 import { internalAuthMiddleware } from '../middleware/internal';
+import {
+  userAccessMiddleware,
+  getRequestAccess,
+  denyPropertyAccess,
+  checkImageAccess,
+  checkImageEntityAccess,
+  checkLeadAccess,
+  checkLeaseAccess,
+  checkPropertyAccess,
+  checkTenantAccess,
+  checkUnitAccess,
+  checkWorkOrderAccess,
+} from '../middleware/user-access';
+import { requirePermission, requireSuperAdmin } from '../middleware/permissions';
 import {
   getProperties,
+  getPropertiesPage,
   getPropertyById,
   getPropertyBySlug,
   getPropertyWithUnits,
@@ -28,9 +44,11 @@ import {
   getUnitHistory,
   createUnitHistory,
   getLeads,
+  getLeadsPage,
   getLeadById,
   createLead,
   updateLead,
+  StageTransitionError,
   archiveLead,
   restoreLead,
   getLeadFiles,
@@ -41,12 +59,16 @@ import {
   recordLeadHistory,
   getGeneralInquiriesCount,
   getWorkOrders,
+  getWorkOrdersPage,
   getWorkOrderById,
   createWorkOrder,
   updateWorkOrder,
   deleteWorkOrder,
+  getWorkOrderAttachments,
   getTenants,
+  getTenantsPage,
   getTenantById,
+  getTenantPropertyIds,
   createTenant,
   updateTenant,
   deleteTenant,
@@ -64,7 +86,11 @@ import {
   revokeSiteAccess,
   isUserSuperAdmin,
   setSuperAdminStatus,
+  getUserPropertyAccess,
+  grantPropertyAccess,
+  revokePropertyAccess,
   getImagesByEntity,
+  getImagesByEntities,
   getImageById,
   createImage,
   updateImage,
@@ -76,6 +102,7 @@ import {
   updateSiteApiToken,
   deleteSiteApiToken,
   getLeases,
+  getLeasesPage,
   getLeaseById,
   createLease,
   updateLease,
@@ -86,18 +113,36 @@ import {
   deleteLeaseFile,
   getThemeConfiguration,
   upsertThemeConfiguration,
+  logAuditEntry,
+  recordEntityChange,
+  withTransaction,
+  InvalidCursorError,
 } from '../lib/db';
 import { buildThemePayload } from '../lib/theme-response';
+import { removeWorkOrderAttachment } from '../lib/work-order-attachments';
+import { changeApplicationStage } from '../lib/db/application-stage-transitions';
+import { canAccessProperty, filterByPropertyAccess, isApplicationStage } from '../../../shared/utils';
+import { readListQuery } from '../lib/list-query';
 
 
 // Import shared environment types
 import type { CloudflareEnv } from '../../../shared/config';
+import { UserRoleEnum, AssignTenantSchema } from '../../../shared/config';
 
 // Import application workflow routes
 import opsApplicationsRoutes from './ops-applications';
 import opsLeasesRoutes from './ops-leases';
 import opsTenantsRoutes from './ops-tenants';
 import opsWorkOrdersRoutes from './ops-work-orders';
+import opsFinancialRoutes from './ops-financial';
+import opsNoticesRoutes from './ops-notices';
+import opsScreeningRoutes from './ops-screening';
+import opsCommunicationsRoutes from './ops-communications';
+import opsIntakeFormRoutes from './ops-intake-form';
+import opsPipelineRoutes from './ops-pipeline';
+import opsAIRubricRoutes from './ops-ai-rubric';
+import opsAuditRoutes from './ops-audit';
+import opsSearchRoutes from './ops-search';
 
 // Use shared bindings type
 type Bindings = CloudflareEnv;
@@ -107,6 +152,9 @@ const opsRoutes = new Hono<{ Bindings: Bindings }>();
 // Apply internal auth middleware to all ops routes
 opsRoutes.use('*', internalAuthMiddleware);
 
+// Resolve the acting user's role and property scope
+opsRoutes.use('*', userAccessMiddleware);
+
 // Mount application workflow routes
 opsRoutes.route('/', opsApplicationsRoutes);
 
@@ -119,6 +167,33 @@ opsRoutes.route('/', opsTenantsRoutes);
 // Mount work order operations routes
 opsRoutes.route('/', opsWorkOrdersRoutes);
 
+// Mount financial reporting routes
+opsRoutes.route('/', opsFinancialRoutes);
+
+// Mount tenant notice routes
+opsRoutes.route('/', opsNoticesRoutes);
+
+// Mount tenant screening routes
+opsRoutes.route('/', opsScreeningRoutes);
+
+// Mount outbound email / communication log routes
+opsRoutes.route('/', opsCommunicationsRoutes);
+
+// Mount application intake form routes
+opsRoutes.route('/', opsIntakeFormRoutes);
+
+// Mount application pipeline routes
+opsRoutes.route('/', opsPipelineRoutes);
+
+// Mount AI scoring rubric routes
+opsRoutes.route('/', opsAIRubricRoutes);
+
+// Mount audit log routes
+opsRoutes.route('/', opsAuditRoutes);
+
+// Mount global search routes
+opsRoutes.route('/', opsSearchRoutes);
+
 // ==================== PROPERTIES ====================
 
 /**
@@ -127,8 +202,10 @@ opsRoutes.route('/', opsWorkOrdersRoutes);
  * Query params:
  * - withApplicationCounts: Include application counts
  * - onlyAvailable: Only properties with available units
+ * - limit, cursor: Return one page (see "Pagination" in the worker README)
+ * - sortBy (createdAt, name, city, propertyType), sortOrder, search
  */
-opsRoutes.get('/properties', async (c: Context) => {
+opsRoutes.get('/properties', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -138,21 +215,35 @@ opsRoutes.get('/properties', async (c: Context) => {
     const withCounts = c.req.query('withApplicationCounts') === 'true';
     const onlyAvailable = c.req.query('onlyAvailable') === 'true';
 
-    let properties;
     if (withCounts) {
-      properties = await getPropertiesWithApplicationCounts(c.env.DB, siteId, {
+      const properties = await getPropertiesWithApplicationCounts(c.env.DB, siteId, {
         isActive: true,
         onlyAvailable,
       });
-    } else {
-      properties = await getProperties(c.env.DB, siteId);
+      return c.json({
+        success: true,
+        data: filterByPropertyAccess(getRequestAccess(c), properties, (p) => p.id),
+      });
+    }
+
+    const list = readListQuery(c);
+    if (!list.success) {
+      return c.json({ error: 'Bad request', message: list.message }, 400);
+    }
+
+    if (list.paginate) {
+      const page = await getPropertiesPage(c.env.DB, siteId, list.options);
+      return c.json({ success: true, data: page.items, pagination: page.pagination });
     }
 
     return c.json({
       success: true,
-      data: properties,
+      data: await getProperties(c.env.DB, siteId, list.options),
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return c.json({ error: 'Bad request', message: error.message }, 400);
+    }
     console.error('Error fetching properties:', error);
     return c.json({
       error: 'Internal server error',
@@ -165,7 +256,7 @@ opsRoutes.get('/properties', async (c: Context) => {
  * GET /api/ops/properties/:id
  * Get a single property by ID
  */
-opsRoutes.get('/properties/:id', async (c: Context) => {
+opsRoutes.get('/properties/:id', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -175,7 +266,7 @@ opsRoutes.get('/properties/:id', async (c: Context) => {
 
     const property = await getPropertyById(c.env.DB, siteId, id);
 
-    if (!property) {
+    if (!property || !canAccessProperty(getRequestAccess(c), property.id)) {
       return c.json({
         error: 'Not found',
         message: 'Property not found',
@@ -201,7 +292,7 @@ opsRoutes.get('/properties/:id', async (c: Context) => {
  * - If body.id exists, update
  * - If no body.id, create new
  */
-opsRoutes.post('/properties', async (c: Context) => {
+opsRoutes.post('/properties', requirePermission('properties:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -209,7 +300,13 @@ opsRoutes.post('/properties', async (c: Context) => {
     }
     const body = await c.req.json();
 
+    if (body.id) {
+      const denied = await checkPropertyAccess(c, siteId, body.id);
+      if (denied) return denied;
+    }
+
     let result;
+    const before = body.id ? await getPropertyById(c.env.DB, siteId, body.id) : null;
 
     if (body.id) {
       // Update existing property
@@ -219,6 +316,16 @@ opsRoutes.post('/properties', async (c: Context) => {
       result = await createProperty(c.env.DB, siteId, body);
     }
 
+    const propertyId = body.id || result?.id;
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'property',
+      entityId: propertyId,
+      action: body.id ? 'update' : 'create',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: await getPropertyById(c.env.DB, siteId, propertyId),
+    });
+
     return c.json({
       success: true,
       data: result,
@@ -237,20 +344,23 @@ opsRoutes.post('/properties', async (c: Context) => {
 /**
  * GET /api/ops/units
  * List all units (optionally filtered by property)
+ *
+ * Query: propertyId, or propertyIds (comma-separated) for several at once
  */
-opsRoutes.get('/units', async (c: Context) => {
+opsRoutes.get('/units', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
       return c.json({ error: 'Missing X-Site-Id header' }, 400);
     }
     const propertyId = c.req.query('propertyId');
+    const propertyIds = c.req.query('propertyIds')?.split(',').filter(Boolean);
 
-    const units = await getUnits(c.env.DB, siteId, propertyId ? { propertyId } : undefined);
+    const units = await getUnits(c.env.DB, siteId, { propertyId, propertyIds });
 
     return c.json({
       success: true,
-      data: units,
+      data: filterByPropertyAccess(getRequestAccess(c), units, (u) => u.propertyId),
     });
   } catch (error) {
     console.error('Error fetching units:', error);
@@ -265,7 +375,7 @@ opsRoutes.get('/units', async (c: Context) => {
  * GET /api/ops/units/:id
  * Get a single unit by ID
  */
-opsRoutes.get('/units/:id', async (c: Context) => {
+opsRoutes.get('/units/:id', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -275,7 +385,7 @@ opsRoutes.get('/units/:id', async (c: Context) => {
 
     const unit = await getUnitById(c.env.DB, siteId, id);
 
-    if (!unit) {
+    if (!unit || !canAccessProperty(getRequestAccess(c), unit.propertyId)) {
       return c.json({
         error: 'Not found',
         message: 'Unit not found',
@@ -299,7 +409,7 @@ opsRoutes.get('/units/:id', async (c: Context) => {
  * POST /api/ops/units
  * Create or update a unit
  */
-opsRoutes.post('/units', async (c: Context) => {
+opsRoutes.post('/units', requirePermission('properties:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -307,7 +417,14 @@ opsRoutes.post('/units', async (c: Context) => {
     }
     const body = await c.req.json();
 
+    // The unit and, if it is being given one, its new property
+    const denied =
+      (body.id ? await checkUnitAccess(c, siteId, body.id) : null) ??
+      (body.propertyId !== undefined || !body.id ? denyPropertyAccess(c, body.propertyId) : null);
+    if (denied) return denied;
+
     let result;
+    const before = body.id ? await getUnitById(c.env.DB, siteId, body.id) : null;
 
     if (body.id) {
       result = await updateUnit(c.env.DB, siteId, body.id, body);
@@ -315,6 +432,16 @@ opsRoutes.post('/units', async (c: Context) => {
       result = await createUnit(c.env.DB, siteId, body);
     }
 
+    const unitId = body.id || result?.id;
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'unit',
+      entityId: unitId,
+      action: body.id ? 'update' : 'create',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: await getUnitById(c.env.DB, siteId, unitId),
+    });
+
     return c.json({
       success: true,
       data: result,
@@ -332,33 +459,45 @@ opsRoutes.post('/units', async (c: Context) => {
 
 /**
  * GET /api/ops/leads
- * List all leads for a site
+ * List leads for a site (the newest 50 unless paginated)
+ * Query params:
+ * - status, propertyId
+ * - limit, cursor: Return one page (see "Pagination" in the worker README)
+ * - sortBy (createdAt, updatedAt, firstName, lastName, email, status, moveInDate, aiScore, propertyName), sortOrder
+ * - search: Name, email or phone
  */
-opsRoutes.get('/leads', async (c: Context) => {
+opsRoutes.get('/leads', requirePermission('leads:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
       return c.json({ error: 'Missing X-Site-Id header' }, 400);
     }
 
+    const list = readListQuery(c);
+    if (!list.success) {
+      return c.json({ error: 'Bad request', message: list.message }, 400);
+    }
+
     // Extract query parameters for filtering
-    const status = c.req.query('status');
-    const propertyId = c.req.query('propertyId');
-    const sortBy = c.req.query('sortBy');
-    const sortOrder = c.req.query('sortOrder') as 'asc' | 'desc' | undefined;
+    const options = {
+      ...list.options,
+      status: c.req.query('status'),
+      propertyId: c.req.query('propertyId'),
+    };
 
-    const leads = await getLeads(c.env.DB, siteId, {
-      status,
-      propertyId,
-      sortBy,
-      sortOrder,
-    });
+    if (list.paginate) {
+      const page = await getLeadsPage(c.env.DB, siteId, options);
+      return c.json({ success: true, data: page.items, pagination: page.pagination });
+    }
 
     return c.json({
       success: true,
-      data: leads,
+      data: await getLeads(c.env.DB, siteId, options),
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return c.json({ error: 'Bad request', message: error.message }, 400);
+    }
     console.error('Error fetching leads:', error);
     return c.json({
       error: 'Internal server error',
@@ -371,16 +510,26 @@ opsRoutes.get('/leads', async (c: Context) => {
  * POST /api/ops/leads
  * Create a new lead
  */
-opsRoutes.post('/leads', async (c: Context) => {
+opsRoutes.post('/leads', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
       return c.json({ error: 'Missing X-Site-Id header' }, 400);
     }
     const body = await c.req.json();
+    const denied = denyPropertyAccess(c, body.propertyId);
+    if (denied) return denied;
 
     const lead = await createLead(c.env.DB, siteId, body);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'lead',
+      entityId: lead.id,
+      action: 'create',
+      performedBy: c.req.header('X-User-Id'),
+      after: lead,
+    });
+
     return c.json({
       success: true,
       data: lead,
@@ -398,7 +547,7 @@ opsRoutes.post('/leads', async (c: Context) => {
  * GET /api/ops/general-inquiries/count
  * Get count of general inquiries (property_id = 'general')
  */
-opsRoutes.get('/general-inquiries/count', async (c: Context) => {
+opsRoutes.get('/general-inquiries/count', requirePermission('leads:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -425,7 +574,7 @@ opsRoutes.get('/general-inquiries/count', async (c: Context) => {
  * GET /api/ops/leads/:id
  * Get a single lead by ID
  */
-opsRoutes.get('/leads/:id', async (c: Context) => {
+opsRoutes.get('/leads/:id', requirePermission('leads:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -441,6 +590,8 @@ opsRoutes.get('/leads/:id', async (c: Context) => {
         message: 'Lead not found',
       }, 404);
     }
+    const denied = denyPropertyAccess(c, lead.propertyId);
+    if (denied) return denied;
 
     return c.json({
       success: true,
@@ -459,13 +610,15 @@ opsRoutes.get('/leads/:id', async (c: Context) => {
  * GET /api/ops/leads/:id/history
  * Get history records for a lead
  */
-opsRoutes.get('/leads/:id/history', async (c: Context) => {
+opsRoutes.get('/leads/:id/history', requirePermission('leads:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
       return c.json({ error: 'Missing X-Site-Id header' }, 400);
     }
     const id = c.req.param('id');
+    const denied = await checkLeadAccess(c, siteId, id);
+    if (denied) return denied;
 
     const history = await getLeadHistory(c.env.DB, siteId, id);
 
@@ -486,13 +639,15 @@ opsRoutes.get('/leads/:id/history', async (c: Context) => {
  * POST /api/ops/leads/:id/notes
  * Update landlord and application notes for a lead
  */
-opsRoutes.post('/leads/:id/notes', async (c: Context) => {
+opsRoutes.post('/leads/:id/notes', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
       return c.json({ error: 'Missing X-Site-Id header' }, 400);
     }
     const id = c.req.param('id');
+    const denied = await checkLeadAccess(c, siteId, id);
+    if (denied) return denied;
     const body = await c.req.json();
 
     // Update lead with notes (will automatically record history)
@@ -520,16 +675,28 @@ opsRoutes.post('/leads/:id/notes', async (c: Context) => {
  * POST /api/ops/leads/:id/archive
  * Archive a lead (soft delete)
  */
-opsRoutes.post('/leads/:id/archive', async (c: Context) => {
+opsRoutes.post('/leads/:id/archive', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
       return c.json({ error: 'Missing X-Site-Id header' }, 400);
     }
     const id = c.req.param('id');
+    const denied = await checkLeadAccess(c, siteId, id);
+    if (denied) return denied;
+    const before = await getLeadById(c.env.DB, siteId, id);
 
     await archiveLead(c.env.DB, siteId, id);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'lead',
+      entityId: id,
+      action: 'update',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: await getLeadById(c.env.DB, siteId, id),
+    });
+
     return c.json({
       success: true,
       message: 'Lead archived successfully',
@@ -547,16 +714,28 @@ opsRoutes.post('/leads/:id/archive', async (c: Context) => {
  * POST /api/ops/leads/:id/restore
  * Restore an archived lead
  */
-opsRoutes.post('/leads/:id/restore', async (c: Context) => {
+opsRoutes.post('/leads/:id/restore', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
       return c.json({ error: 'Missing X-Site-Id header' }, 400);
     }
     const id = c.req.param('id');
+    const denied = await checkLeadAccess(c, siteId, id);
+    if (denied) return denied;
+    const before = await getLeadById(c.env.DB, siteId, id);
 
     await restoreLead(c.env.DB, siteId, id);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'lead',
+      entityId: id,
+      action: 'update',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: await getLeadById(c.env.DB, siteId, id),
+    });
+
     return c.json({
       success: true,
       message: 'Lead restored successfully',
@@ -575,30 +754,42 @@ opsRoutes.post('/leads/:id/restore', async (c: Context) => {
 /**
  * GET /api/ops/work-orders
  * List all work orders for a site
+ * Query params:
+ * - status (comma-separated for several), propertyId
+ * - limit, cursor: Return one page (see "Pagination" in the worker README)
+ * - sortBy (createdAt, title, category, priority, status, scheduledDate, propertyName, unitNumber, tenantName), sortOrder
+ * - search: Title, description, property or tenant name
  */
-opsRoutes.get('/work-orders', async (c: Context) => {
+opsRoutes.get('/work-orders', requirePermission('work_orders:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
 
+    const list = readListQuery(c);
+    if (!list.success) {
+      return c.json({ error: 'Bad request', message: list.message }, 400);
+    }
+
     // Get query parameters
-    const status = c.req.query('status');
-    const propertyId = c.req.query('propertyId');
-    const sortBy = c.req.query('sortBy');
-    const sortOrder = c.req.query('sortOrder') as 'asc' | 'desc' | undefined;
+    const options = {
+      ...list.options,
+      status: c.req.query('status'),
+      propertyId: c.req.query('propertyId'),
+    };
 
-    const workOrders = await getWorkOrders(c.env.DB, siteId, {
-      status,
-      propertyId,
-      sortBy,
-      sortOrder,
-    });
+    if (list.paginate) {
+      const page = await getWorkOrdersPage(c.env.DB, siteId, options);
+      return c.json({ success: true, data: page.items, pagination: page.pagination });
+    }
 
     return c.json({
       success: true,
-      data: workOrders,
+      data: await getWorkOrders(c.env.DB, siteId, options),
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return c.json({ error: 'Bad request', message: error.message }, 400);
+    }
     console.error('Error fetching work orders:', error);
     return c.json({
       error: 'Internal server error',
@@ -611,13 +802,20 @@ opsRoutes.get('/work-orders', async (c: Context) => {
  * POST /api/ops/work-orders
  * Create or update a work order
  */
-opsRoutes.post('/work-orders', async (c: Context) => {
+opsRoutes.post('/work-orders', requirePermission('work_orders:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const body = await c.req.json();
 
+    // The work order and, if it is being given one, its new property
+    const denied =
+      (body.id ? await checkWorkOrderAccess(c, siteId, body.id) : null) ??
+      (body.propertyId !== undefined || !body.id ? denyPropertyAccess(c, body.propertyId) : null);
+    if (denied) return denied;
+
     let result;
+    const before = body.id ? await getWorkOrderById(c.env.DB, siteId, body.id) : null;
 
     if (body.id) {
       result = await updateWorkOrder(c.env.DB, siteId, body.id, body);
@@ -625,6 +823,16 @@ opsRoutes.post('/work-orders', async (c: Context) => {
       result = await createWorkOrder(c.env.DB, siteId, body);
     }
 
+    const workOrderId = body.id || result?.id;
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'work_order',
+      entityId: workOrderId,
+      action: body.id ? 'update' : 'create',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: await getWorkOrderById(c.env.DB, siteId, workOrderId),
+    });
+
     return c.json({
       success: true,
       data: result,
@@ -644,7 +852,7 @@ opsRoutes.post('/work-orders', async (c: Context) => {
  * GET /api/ops/users
  * List all users (super admin only)
  */
-opsRoutes.get('/users', async (c: Context) => {
+opsRoutes.get('/users', requirePermission('users:admin'), async (c: Context) => {
   try {
     const users = await getUsers(c.env.DB);
 
@@ -665,7 +873,7 @@ opsRoutes.get('/users', async (c: Context) => {
  * POST /api/ops/users
  * Create a new user
  */
-opsRoutes.post('/users', async (c: Context) => {
+opsRoutes.post('/users', requirePermission('users:admin'), async (c: Context) => {
   try {
     const body = await c.req.json();
 
@@ -676,6 +884,12 @@ opsRoutes.post('/users', async (c: Context) => {
         message: 'Missing required fields: email, name, password, role, siteId',
       }, 400);
     }
+    if (!UserRoleEnum.safeParse(body.role).success) {
+      return c.json({
+        error: 'Bad request',
+        message: `Invalid role: ${body.role}`,
+      }, 400);
+    }
 
     // Import hashPassword from shared utils
     const { hashPassword } = await import('../../../shared/utils/crypto');
@@ -692,6 +906,14 @@ opsRoutes.post('/users', async (c: Context) => {
       isSuperAdmin: body.isSuperAdmin || false,
     });
 
+    await recordEntityChange(c.env.DB, body.siteId, {
+      entityType: 'user',
+      entityId: user.id,
+      action: 'create',
+      performedBy: c.req.header('X-User-Id'),
+      after: user,
+    });
+
     return c.json({
       success: true,
       data: user,
@@ -709,7 +931,7 @@ opsRoutes.post('/users', async (c: Context) => {
  * GET /api/ops/users/:id
  * Get a single user by ID
  */
-opsRoutes.get('/users/:id', async (c: Context) => {
+opsRoutes.get('/users/:id', requirePermission('users:admin', { allowSelf: 'id' }), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -741,7 +963,7 @@ opsRoutes.get('/users/:id', async (c: Context) => {
  * GET /api/ops/users/email/:email
  * Get a user by email (used for login)
  */
-opsRoutes.get('/users/email/:email', async (c: Context) => {
+opsRoutes.get('/users/email/:email', requirePermission('users:admin'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -773,7 +995,7 @@ opsRoutes.get('/users/email/:email', async (c: Context) => {
  * POST /api/ops/users/:id/update-login
  * Update user's last login timestamp
  */
-opsRoutes.post('/users/:id/update-login', async (c: Context) => {
+opsRoutes.post('/users/:id/update-login', requirePermission('users:admin', { allowSelf: 'id' }), async (c: Context) => {
   try {
     const userId = c.req.param('id');
 
@@ -797,7 +1019,7 @@ opsRoutes.post('/users/:id/update-login', async (c: Context) => {
  * POST /api/ops/users/:id/password
  * Update user password
  */
-opsRoutes.post('/users/:id/password', async (c: Context) => {
+opsRoutes.post('/users/:id/password', requirePermission('users:admin', { allowSelf: 'id' }), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -806,6 +1028,14 @@ opsRoutes.post('/users/:id/password', async (c: Context) => {
 
     await updateUserPassword(c.env.DB, siteId, userId, body.passwordHash);
 
+    await logAuditEntry(c.env.DB, {
+      siteId,
+      entityType: 'user',
+      entityId: userId,
+      action: 'password_change',
+      performedBy: c.req.header('X-User-Id'),
+    });
+
     return c.json({
       success: true,
     });
@@ -822,15 +1052,25 @@ opsRoutes.post('/users/:id/password', async (c: Context) => {
  * POST /api/ops/users/:id/profile
  * Update user profile (name, email)
  */
-opsRoutes.post('/users/:id/profile', async (c: Context) => {
+opsRoutes.post('/users/:id/profile', requirePermission('users:admin', { allowSelf: 'id' }), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
     const body = await c.req.json();
+    const before = await getUserById(c.env.DB, siteId, id);
 
     await updateUserProfile(c.env.DB, siteId, id, body);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'user',
+      entityId: id,
+      action: 'update',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: await getUserById(c.env.DB, siteId, id),
+    });
+
     return c.json({
       success: true,
     });
@@ -847,14 +1087,26 @@ opsRoutes.post('/users/:id/profile', async (c: Context) => {
  * POST /api/ops/users/:id/super-admin
  * Toggle super admin status
  */
-opsRoutes.post('/users/:id/super-admin', async (c: Context) => {
+opsRoutes.post('/users/:id/super-admin', requireSuperAdmin, async (c: Context) => {
   try {
     const id = c.req.param('id');
     const body = await c.req.json();
     const isSuperAdmin = body.isSuperAdmin === true;
+    const before = await getUserById(c.env.DB, '', id);
 
     await setSuperAdminStatus(c.env.DB, id, isSuperAdmin);
 
+    if (before) {
+      await recordEntityChange(c.env.DB, c.req.header('X-Site-Id') || before.siteId, {
+        entityType: 'user',
+        entityId: id,
+        action: 'update',
+        performedBy: c.req.header('X-User-Id'),
+        before,
+        after: { ...before, isSuperAdmin },
+      });
+    }
+
     return c.json({
       success: true,
     });
@@ -871,7 +1123,7 @@ opsRoutes.post('/users/:id/super-admin', async (c: Context) => {
  * PUT /api/ops/users/:id/role
  * Update user role
  */
-opsRoutes.put('/users/:id/role', async (c: Context) => {
+opsRoutes.put('/users/:id/role', requirePermission('users:admin'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -886,9 +1138,26 @@ opsRoutes.put('/users/:id/role', async (c: Context) => {
         message: 'Missing required field: role',
       }, 400);
     }
+    if (!UserRoleEnum.safeParse(body.role).success) {
+      return c.json({
+        error: 'Bad request',
+        message: `Invalid role: ${body.role}`,
+      }, 400);
+    }
+
+    const before = await getUserById(c.env.DB, siteId, id);
 
     await updateUserRole(c.env.DB, siteId, id, body.role);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'user',
+      entityId: id,
+      action: 'update',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: await getUserById(c.env.DB, siteId, id),
+    });
+
     return c.json({
       success: true,
     });
@@ -905,7 +1174,7 @@ opsRoutes.put('/users/:id/role', async (c: Context) => {
  * GET /api/ops/users/:id/sites
  * Get accessible sites for a user
  */
-opsRoutes.get('/users/:id/sites', async (c: Context) => {
+opsRoutes.get('/users/:id/sites', requirePermission('users:admin', { allowSelf: 'id' }), async (c: Context) => {
   try {
     const userId = c.req.param('id');
     const sites = await getUserAccessibleSites(c.env.DB, userId);
@@ -917,7 +1186,7 @@ opsRoutes.get('/users/:id/sites', async (c: Context) => {
 });
 
 // Single-site access check endpoint
-opsRoutes.get('/users/:id/sites/:siteId', async (c: Context) => {
+opsRoutes.get('/users/:id/sites/:siteId', requirePermission('users:admin', { allowSelf: 'id' }), async (c: Context) => {
   try {
     const userId = c.req.param('id');
     const siteId = c.req.param('siteId');
@@ -933,12 +1202,29 @@ opsRoutes.get('/users/:id/sites/:siteId', async (c: Context) => {
  * POST /api/ops/users/:id/site-access
  * Grant site access to a user
  */
-opsRoutes.post('/users/:id/site-access', async (c: Context) => {
+opsRoutes.post('/users/:id/site-access', requireSuperAdmin, async (c: Context) => {
   try {
     const userId = c.req.param('id');
     const body = await c.req.json();
 
-    await grantSiteAccess(c.env.DB, userId, body.siteId, body.role || 'admin');
+    const role = UserRoleEnum.safeParse(body.role || 'viewer');
+    if (!body.siteId || !role.success) {
+      return c.json({
+        error: 'Bad request',
+        message: 'siteId and a valid role are required',
+      }, 400);
+    }
+
+    await grantSiteAccess(c.env.DB, userId, body.siteId, role.data, body.grantedBy || c.req.header('X-User-Id'));
+
+    await logAuditEntry(c.env.DB, {
+      siteId: body.siteId,
+      entityType: 'user',
+      entityId: userId,
+      action: 'site_access_granted',
+      performedBy: c.req.header('X-User-Id'),
+      changes: { role: role.data },
+    });
 
     return c.json({
       success: true,
@@ -956,13 +1242,21 @@ opsRoutes.post('/users/:id/site-access', async (c: Context) => {
  * POST /api/ops/users/:id/site-access/:siteId/delete
  * Revoke site access from a user
  */
-opsRoutes.post('/users/:id/site-access/:siteId/delete', async (c: Context) => {
+opsRoutes.post('/users/:id/site-access/:siteId/delete', requireSuperAdmin, async (c: Context) => {
   try {
     const userId = c.req.param('id');
     const siteId = c.req.param('siteId');
 
     await revokeSiteAccess(c.env.DB, userId, siteId);
 
+    await logAuditEntry(c.env.DB, {
+      siteId,
+      entityType: 'user',
+      entityId: userId,
+      action: 'site_access_revoked',
+      performedBy: c.req.header('X-User-Id'),
+    });
+
     return c.json({
       success: true,
     });
@@ -975,35 +1269,127 @@ opsRoutes.post('/users/:id/site-access/:siteId/delete', async (c: Context) => {
   }
 });
 
+/**
+ * GET /api/ops/users/:id/properties
+ * Properties the user is limited to on this site (empty = no property grants)
+ */
+opsRoutes.get('/users/:id/properties', requirePermission('users:admin', { allowSelf: 'id' }), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
+
+    const grants = await getUserPropertyAccess(c.env.DB, siteId, c.req.param('id'));
+    return c.json({ success: true, data: grants });
+  } catch (error) {
+    console.error('Error fetching user property access:', error);
+    return c.json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
+
+/**
+ * POST /api/ops/users/:id/properties
+ * Grant a user access to a property
+ *
+ * Body: { propertyId }
+ */
+opsRoutes.post('/users/:id/properties', requirePermission('users:admin'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
+    const body = await c.req.json();
+
+    const property = body.propertyId ? await getPropertyById(c.env.DB, siteId, body.propertyId) : null;
+    if (!property) {
+      return c.json({ error: 'Not found', message: 'Property not found' }, 404);
+    }
+
+    await grantPropertyAccess(c.env.DB, siteId, c.req.param('id'), property.id, c.req.header('X-User-Id'));
+
+    await logAuditEntry(c.env.DB, {
+      siteId,
+      entityType: 'user',
+      entityId: c.req.param('id'),
+      action: 'property_access_granted',
+      performedBy: c.req.header('X-User-Id'),
+      changes: { propertyId: property.id, propertyName: property.name },
+    });
+
+    return c.json({ success: true }, 201);
+  } catch (error) {
+    console.error('Error granting property access:', error);
+    return c.json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
+
+/**
+ * POST /api/ops/users/:id/properties/:propertyId/delete
+ * Revoke a user's access to a property
+ */
+opsRoutes.post('/users/:id/properties/:propertyId/delete', requirePermission('users:admin'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
+
+    await revokePropertyAccess(c.env.DB, siteId, c.req.param('id'), c.req.param('propertyId'));
+
+    await logAuditEntry(c.env.DB, {
+      siteId,
+      entityType: 'user',
+      entityId: c.req.param('id'),
+      action: 'property_access_revoked',
+      performedBy: c.req.header('X-User-Id'),
+      changes: { propertyId: c.req.param('propertyId') },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking property access:', error);
+    return c.json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
+
 // ==================== TENANTS ====================
 
 /**
  * GET /api/ops/tenants
  * List all tenants for a site
+ * Query params:
+ * - status, propertyId, unitId (of the current lease)
+ * - limit, cursor: Return one page (see "Pagination" in the worker README)
+ * - sortBy (createdAt, firstName, lastName, email, status, propertyName, unitNumber, activeWorkOrderCount), sortOrder
+ * - search: Name, email or phone
  */
-opsRoutes.get('/tenants', async (c: Context) => {
+opsRoutes.get('/tenants', requirePermission('tenants:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
 
+    const list = readListQuery(c);
+    if (!list.success) {
+      return c.json({ error: 'Bad request', message: list.message }, 400);
+    }
+
     // Get query parameters
-    const status = c.req.query('status');
-    const propertyId = c.req.query('propertyId');
-    const sortBy = c.req.query('sortBy');
-    const sortOrder = c.req.query('sortOrder') as 'asc' | 'desc' | undefined;
+    const options = {
+      ...list.options,
+      status: c.req.query('status'),
+      propertyId: c.req.query('propertyId'),
+      unitId: c.req.query('unitId'),
+    };
 
-    const tenants = await getTenants(c.env.DB, siteId, {
-      status,
-      propertyId,
-      sortBy,
-      sortOrder,
-    });
+    if (list.paginate) {
+      const page = await getTenantsPage(c.env.DB, siteId, options);
+      return c.json({ success: true, data: page.items, pagination: page.pagination });
+    }
 
     return c.json({
       success: true,
-      data: tenants,
+      data: await getTenants(c.env.DB, siteId, options),
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return c.json({ error: 'Bad request', message: error.message }, 400);
+    }
     console.error('Error fetching tenants:', error);
     return c.json({
       error: 'Internal server error',
@@ -1016,7 +1402,7 @@ opsRoutes.get('/tenants', async (c: Context) => {
  * GET /api/ops/tenants/:id
  * Get a single tenant by ID
  */
-opsRoutes.get('/tenants/:id', async (c: Context) => {
+opsRoutes.get('/tenants/:id', requirePermission('tenants:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -1030,6 +1416,8 @@ opsRoutes.get('/tenants/:id', async (c: Context) => {
         message: 'Tenant not found',
       }, 404);
     }
+    const denied = denyPropertyAccess(c, await getTenantPropertyIds(c.env.DB, siteId, id));
+    if (denied) return denied;
 
     return c.json({
       success: true,
@@ -1048,7 +1436,7 @@ opsRoutes.get('/tenants/:id', async (c: Context) => {
  * POST /api/ops/tenants
  * Create a new tenant
  */
-opsRoutes.post('/tenants', async (c: Context) => {
+opsRoutes.post('/tenants', requirePermission('tenants:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -1056,6 +1444,14 @@ opsRoutes.post('/tenants', async (c: Context) => {
 
     const tenant = await createTenant(c.env.DB, siteId, body);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'tenant',
+      entityId: tenant.id,
+      action: 'create',
+      performedBy: c.req.header('X-User-Id'),
+      after: tenant,
+    });
+
     return c.json({
       success: true,
       data: tenant,
@@ -1073,18 +1469,30 @@ opsRoutes.post('/tenants', async (c: Context) => {
  * PATCH /api/ops/tenants/:id
  * Update tenant information
  */
-opsRoutes.patch('/tenants/:id', async (c: Context) => {
+opsRoutes.patch('/tenants/:id', requirePermission('tenants:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkTenantAccess(c, siteId, id);
+    if (denied) return denied;
     const body = await c.req.json();
+    const before = await getTenantById(c.env.DB, siteId, id);
 
     await updateTenant(c.env.DB, siteId, id, body);
 
     // Fetch updated tenant
     const updatedTenant = await getTenantById(c.env.DB, siteId, id);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'tenant',
+      entityId: id,
+      action: 'update',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: updatedTenant,
+    });
+
     return c.json({
       success: true,
       data: updatedTenant,
@@ -1098,14 +1506,25 @@ opsRoutes.patch('/tenants/:id', async (c: Context) => {
   }
 });
 
-opsRoutes.delete('/tenants/:id', async (c: Context) => {
+opsRoutes.delete('/tenants/:id', requirePermission('tenants:delete'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkTenantAccess(c, siteId, id);
+    if (denied) return denied;
+    const before = await getTenantById(c.env.DB, siteId, id);
 
     await deleteTenant(c.env.DB, siteId, id);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'tenant',
+      entityId: id,
+      action: 'delete',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+    });
+
     return c.json({
       success: true,
       message: 'Tenant deleted successfully',
@@ -1124,22 +1543,27 @@ opsRoutes.delete('/tenants/:id', async (c: Context) => {
 /**
  * GET /api/ops/images
  * Get images for a property or unit
+ *
+ * Query: entityType, and entityId or entityIds (comma-separated) for several at once
  */
-opsRoutes.get('/images', async (c: Context) => {
+opsRoutes.get('/images', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const entityType = c.req.query('entityType') as 'property' | 'unit';
     const entityId = c.req.query('entityId');
+    const entityIds = c.req.query('entityIds')?.split(',').filter(Boolean);
 
-    if (!entityType || !entityId) {
+    if (!entityType || (!entityId && !entityIds)) {
       return c.json({
         error: 'Bad request',
-        message: 'entityType and entityId are required',
+        message: 'entityType and entityId (or entityIds) are required',
       }, 400);
     }
 
-    const images = await getImagesByEntity(c.env.DB, siteId, entityType, entityId);
+    const images = entityIds
+      ? await getImagesByEntities(c.env.DB, siteId, entityType, entityIds)
+      : await getImagesByEntity(c.env.DB, siteId, entityType, entityId!);
 
     return c.json({
       success: true,
@@ -1158,11 +1582,13 @@ opsRoutes.get('/images', async (c: Context) => {
  * GET /api/ops/images/:id
  * Get a single image by ID
  */
-opsRoutes.get('/images/:id', async (c: Context) => {
+opsRoutes.get('/images/:id', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkImageAccess(c, siteId, id);
+    if (denied) return denied;
 
     const image = await getImageById(c.env.DB, siteId, id);
 
@@ -1190,11 +1616,13 @@ opsRoutes.get('/images/:id', async (c: Context) => {
  * POST /api/ops/images
  * Create a new image record
  */
-opsRoutes.post('/images', async (c: Context) => {
+opsRoutes.post('/images', requirePermission('properties:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const body = await c.req.json();
+    const denied = await checkImageEntityAccess(c, siteId, body.entityType, body.entityId);
+    if (denied) return denied;
 
     const image = await createImage(c.env.DB, siteId, body);
 
@@ -1215,11 +1643,13 @@ opsRoutes.post('/images', async (c: Context) => {
  * POST /api/ops/images/:id
  * Update an image record
  */
-opsRoutes.post('/images/:id', async (c: Context) => {
+opsRoutes.post('/images/:id', requirePermission('properties:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkImageAccess(c, siteId, id);
+    if (denied) return denied;
     const body = await c.req.json();
 
     await updateImage(c.env.DB, siteId, id, body);
@@ -1240,11 +1670,13 @@ opsRoutes.post('/images/:id', async (c: Context) => {
  * POST /api/ops/images/:id/delete
  * Delete an image record and R2 file
  */
-opsRoutes.post('/images/:id/delete', async (c: Context) => {
+opsRoutes.post('/images/:id/delete', requirePermission('properties:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkImageAccess(c, siteId, id);
+    if (denied) return denied;
 
     // First, fetch the image to get the R2 key
     const image = await getImageById(c.env.DB, siteId, id);
@@ -1284,11 +1716,13 @@ opsRoutes.post('/images/:id/delete', async (c: Context) => {
  * POST /api/ops/images/:id/set-cover
  * Set an image as the cover image
  */
-opsRoutes.post('/images/:id/set-cover', async (c: Context) => {
+opsRoutes.post('/images/:id/set-cover', requirePermission('properties:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkImageAccess(c, siteId, id);
+    if (denied) return denied;
     const body = await c.req.json();
 
     await setCoverImage(c.env.DB, siteId, body.entityType, body.entityId, id);
@@ -1309,11 +1743,13 @@ opsRoutes.post('/images/:id/set-cover', async (c: Context) => {
  * GET /api/ops/images/:id/serve
  * Serve an image file from R2
  */
-opsRoutes.get('/images/:id/serve', async (c: Context) => {
+opsRoutes.get('/images/:id/serve', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkImageAccess(c, siteId, id);
+    if (denied) return denied;
 
     const image = await getImageById(c.env.DB, siteId, id);
 
@@ -1351,7 +1787,7 @@ opsRoutes.get('/images/:id/serve', async (c: Context) => {
  * POST /api/ops/images/presign
  * Generate a presigned URL for uploading an image to R2
  */
-opsRoutes.post('/images/presign', async (c: Context) => {
+opsRoutes.post('/images/presign', requirePermission('properties:write'), async (c: Context) => {
   try {
     const body = await c.req.json();
     const { key, contentType } = body;
@@ -1389,7 +1825,7 @@ opsRoutes.post('/images/presign', async (c: Context) => {
  * POST /api/ops/images/upload
  * Upload an image to R2
  */
-opsRoutes.post('/images/upload', async (c: Context) => {
+opsRoutes.post('/images/upload', requirePermission('properties:write'), async (c: Context) => {
   try {
     const formData = await c.req.formData();
     const file = formData.get('file') as File | null;
@@ -1429,7 +1865,7 @@ opsRoutes.post('/images/upload', async (c: Context) => {
  * POST /api/ops/images/reorder
  * Reorder images for a property or unit
  */
-opsRoutes.post('/images/reorder', async (c: Context) => {
+opsRoutes.post('/images/reorder', requirePermission('properties:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -1443,6 +1879,11 @@ opsRoutes.post('/images/reorder', async (c: Context) => {
       }, 400);
     }
 
+    for (const imageId of imageIds) {
+      const denied = await checkImageAccess(c, siteId, imageId);
+      if (denied) return denied;
+    }
+
     // Update display order for each image
     for (let i = 0; i < imageIds.length; i++) {
       await updateImage(c.env.DB, siteId, imageIds[i], { sortOrder: i });
@@ -1466,11 +1907,13 @@ opsRoutes.post('/images/reorder', async (c: Context) => {
  * GET /api/ops/leads/:id/files
  * Get files for a lead with signed URLs for downloading (valid for 24 hours)
  */
-opsRoutes.get('/leads/:id/files', async (c: Context) => {
+opsRoutes.get('/leads/:id/files', requirePermission('leads:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const leadId = c.req.param('id');
+    const denied = await checkLeadAccess(c, siteId, leadId);
+    if (denied) return denied;
 
     const files = await getLeadFiles(c.env.DB, siteId, leadId);
 
@@ -1507,11 +1950,13 @@ opsRoutes.get('/leads/:id/files', async (c: Context) => {
  * POST /api/ops/leads/:id/files
  * Upload a file for a lead
  */
-opsRoutes.post('/leads/:id/files', async (c: Context) => {
+opsRoutes.post('/leads/:id/files', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const leadId = c.req.param('id');
+    const denied = await checkLeadAccess(c, siteId, leadId);
+    if (denied) return denied;
     const formData = await c.req.formData();
     const file = formData.get('file') as File | null;
     if (!file || typeof file === 'string') {
@@ -1547,6 +1992,15 @@ opsRoutes.post('/leads/:id/files', async (c: Context) => {
       mimeType: file.type,
     });
 
+    // The first document moves a new application on to documents_pending
+    const lead = await getLeadById(c.env.DB, siteId, leadId);
+    if (lead?.status === 'new') {
+      await changeApplicationStage(c.env.DB, siteId, lead, 'documents_pending', {
+        type: 'automatic',
+        userId: c.req.header('X-User-Id'),
+      });
+    }
+
     return c.json({
       success: true,
       data: leadFile,
@@ -1566,7 +2020,7 @@ opsRoutes.post('/leads/:id/files', async (c: Context) => {
  * POST /api/ops/leads/:id/ai-evaluation
  * Create AI evaluation job (async)
  */
-opsRoutes.post('/leads/:id/ai-evaluation', async (c: Context) => {
+opsRoutes.post('/leads/:id/ai-evaluation', requirePermission('leads:write'), async (c: Context) => {
   try {
     const leadId = c.req.param('id');
     const siteId = c.req.header('X-Site-Id');
@@ -1593,6 +2047,8 @@ opsRoutes.post('/leads/:id/ai-evaluation', async (c: Context) => {
         message: 'Lead not found or access denied'
       }, 404);
     }
+    const denied = await checkLeadAccess(c, siteId, leadId);
+    if (denied) return denied;
 
     // Step 2: Check if already evaluated (unless force_refresh)
     if (!force_refresh) {
@@ -1733,7 +2189,7 @@ opsRoutes.post('/leads/:id/ai-evaluation', async (c: Context) => {
  * GET /api/ops/ai-evaluation-jobs/:jobId
  * Get AI evaluation job status
  */
-opsRoutes.get('/ai-evaluation-jobs/:jobId', async (c: Context) => {
+opsRoutes.get('/ai-evaluation-jobs/:jobId', requirePermission('leads:read'), async (c: Context) => {
   try {
     const jobId = c.req.param('jobId');
     const siteId = c.req.header('X-Site-Id');
@@ -1764,6 +2220,8 @@ opsRoutes.get('/ai-evaluation-jobs/:jobId', async (c: Context) => {
         message: 'Job not found or access denied'
       }, 404);
     }
+    const denied = await checkLeadAccess(c, siteId, job.lead_id);
+    if (denied) return denied;
 
     // If completed, fetch the evaluation result
     let evaluation = null;
@@ -1820,11 +2278,13 @@ opsRoutes.get('/ai-evaluation-jobs/:jobId', async (c: Context) => {
  * POST /api/ops/leads/:id/ai-evaluate
  * Run AI evaluation on a lead (DEPRECATED - kept for backwards compatibility)
  */
-opsRoutes.post('/leads/:id/ai-evaluate', async (c: Context) => {
+opsRoutes.post('/leads/:id/ai-evaluate', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const leadId = c.req.param('id');
+    const denied = await checkLeadAccess(c, siteId, leadId);
+    if (denied) return denied;
     const body = await c.req.json();
 
     // Create AI evaluation record
@@ -1837,6 +2297,7 @@ opsRoutes.post('/leads/:id/ai-evaluate', async (c: Context) => {
       recommendation: body.recommendation,
       fraudSignals: body.fraudSignals || [],
       modelVersion: body.modelVersion || '1.0',
+      rubricVersion: null,
     });
 
     // Update lead with AI score and label
@@ -1862,11 +2323,13 @@ opsRoutes.post('/leads/:id/ai-evaluate', async (c: Context) => {
  * GET /api/ops/leads/:id/ai-evaluation
  * Get AI evaluation for a lead
  */
-opsRoutes.get('/leads/:id/ai-evaluation', async (c: Context) => {
+opsRoutes.get('/leads/:id/ai-evaluation', requirePermission('leads:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const leadId = c.req.param('id');
+    const denied = await checkLeadAccess(c, siteId, leadId);
+    if (denied) return denied;
 
     const evaluation = await getAIEvaluation(c.env.DB, siteId, leadId);
 
@@ -1887,7 +2350,7 @@ opsRoutes.get('/leads/:id/ai-evaluation', async (c: Context) => {
  * GET /api/ops/ai-usage
  * Get AI evaluation usage and quota for current site
  */
-opsRoutes.get('/ai-usage', async (c: Context) => {
+opsRoutes.get('/ai-usage', requirePermission('leads:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) {
@@ -1962,14 +2425,25 @@ opsRoutes.get('/ai-usage', async (c: Context) => {
  * POST /api/ops/properties/:id/delete
  * Delete a property
  */
-opsRoutes.post('/properties/:id/delete', async (c: Context) => {
+opsRoutes.post('/properties/:id/delete', requirePermission('properties:delete'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkPropertyAccess(c, siteId, id);
+    if (denied) return denied;
+    const before = await getPropertyById(c.env.DB, siteId, id);
 
     await deleteProperty(c.env.DB, siteId, id);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'property',
+      entityId: id,
+      action: 'delete',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+    });
+
     return c.json({
       success: true,
     });
@@ -1986,14 +2460,25 @@ opsRoutes.post('/properties/:id/delete', async (c: Context) => {
  * POST /api/ops/units/:id/delete
  * Delete a unit
  */
-opsRoutes.post('/units/:id/delete', async (c: Context) => {
+opsRoutes.post('/units/:id/delete', requirePermission('properties:delete'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkUnitAccess(c, siteId, id);
+    if (denied) return denied;
+    const before = await getUnitById(c.env.DB, siteId, id);
 
     await deleteUnit(c.env.DB, siteId, id);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'unit',
+      entityId: id,
+      action: 'delete',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+    });
+
     return c.json({
       success: true,
     });
@@ -2010,7 +2495,7 @@ opsRoutes.post('/units/:id/delete', async (c: Context) => {
  * GET /api/ops/units/:id/with-details
  * Get unit with full details (property, images, tenants)
  */
-opsRoutes.get('/units/:id/with-details', async (c: Context) => {
+opsRoutes.get('/units/:id/with-details', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2018,7 +2503,7 @@ opsRoutes.get('/units/:id/with-details', async (c: Context) => {
 
     const unit = await getUnitWithDetails(c.env.DB, siteId, id);
 
-    if (!unit) {
+    if (!unit || !canAccessProperty(getRequestAccess(c), unit.propertyId)) {
       return c.json({
         error: 'Not found',
         message: 'Unit not found',
@@ -2042,11 +2527,13 @@ opsRoutes.get('/units/:id/with-details', async (c: Context) => {
  * GET /api/ops/units/:id/history
  * Get unit history
  */
-opsRoutes.get('/units/:id/history', async (c: Context) => {
+opsRoutes.get('/units/:id/history', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const unitId = c.req.param('id');
+    const denied = await checkUnitAccess(c, siteId, unitId);
+    if (denied) return denied;
 
     const history = await getUnitHistory(c.env.DB, siteId, unitId);
 
@@ -2067,11 +2554,13 @@ opsRoutes.get('/units/:id/history', async (c: Context) => {
  * POST /api/ops/units/:id/history
  * Create unit history event
  */
-opsRoutes.post('/units/:id/history', async (c: Context) => {
+opsRoutes.post('/units/:id/history', requirePermission('properties:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const unitId = c.req.param('id');
+    const denied = await checkUnitAccess(c, siteId, unitId);
+    if (denied) return denied;
     const body = await c.req.json();
 
     await createUnitHistory(c.env.DB, siteId, {
@@ -2096,11 +2585,142 @@ opsRoutes.post('/units/:id/history', async (c: Context) => {
   }
 });
 
+/**
+ * POST /api/ops/units/:id/assign-tenant
+ * Move a tenant into a unit: marks it occupied and records the move-in, atomically
+ *
+ * Request body: { tenantId: string, moveInDate?: 'YYYY-MM-DD' }
+ */
+opsRoutes.post('/units/:id/assign-tenant', requirePermission('properties:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
+    const unitId = c.req.param('id');
+    const denied = await checkUnitAccess(c, siteId, unitId);
+    if (denied) return denied;
+
+    const parsed = AssignTenantSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', message: parsed.error.issues.map((i) => i.message).join(', ') }, 400);
+    }
+    const { tenantId, moveInDate } = parsed.data;
+
+    const [unit, tenant] = await Promise.all([
+      getUnitById(c.env.DB, siteId, unitId),
+      getTenantById(c.env.DB, siteId, tenantId),
+    ]);
+    if (!unit) {
+      return c.json({ error: 'Not found', message: 'Unit not found' }, 404);
+    }
+    if (!tenant) {
+      return c.json({ error: 'Not found', message: 'Tenant not found' }, 404);
+    }
+
+    await withTransaction(c.env.DB, async (tx) => {
+      await updateUnit(tx, siteId, unitId, {
+        currentTenantId: tenantId,
+        status: 'occupied',
+      });
+
+      await createUnitHistory(tx, siteId, {
+        unitId,
+        eventType: 'tenant_move_in',
+        eventData: {
+          tenantId,
+          tenantName: `${tenant.firstName} ${tenant.lastName}`,
+          moveInDate: moveInDate || new Date().toISOString().split('T')[0],
+          previousStatus: unit.status,
+        },
+      });
+
+      await recordEntityChange(tx, siteId, {
+        entityType: 'unit',
+        entityId: unitId,
+        action: 'update',
+        performedBy: c.req.header('X-User-Id'),
+        before: { status: unit.status, currentTenantId: unit.currentTenantId },
+        after: { status: 'occupied', currentTenantId: tenantId },
+      });
+    });
+
+    return c.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error('Error assigning tenant:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/ops/units/:id/remove-tenant
+ * Move the current tenant out: marks the unit available and records the move-out, atomically
+ */
+opsRoutes.post('/units/:id/remove-tenant', requirePermission('properties:write'), async (c: Context) => {
+  try {
+    const siteId = c.req.header('X-Site-Id');
+    if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
+    const unitId = c.req.param('id');
+    const denied = await checkUnitAccess(c, siteId, unitId);
+    if (denied) return denied;
+
+    const unit = await getUnitById(c.env.DB, siteId, unitId);
+    if (!unit) {
+      return c.json({ error: 'Not found', message: 'Unit not found' }, 404);
+    }
+    if (!unit.currentTenantId) {
+      return c.json({ error: 'Bad request', message: 'Unit has no tenant assigned' }, 400);
+    }
+
+    const tenantId = unit.currentTenantId;
+    const tenant = await getTenantById(c.env.DB, siteId, tenantId);
+
+    await withTransaction(c.env.DB, async (tx) => {
+      await updateUnit(tx, siteId, unitId, {
+        currentTenantId: null,
+        status: 'available',
+      });
+
+      await createUnitHistory(tx, siteId, {
+        unitId,
+        eventType: 'tenant_move_out',
+        eventData: {
+          tenantId,
+          tenantName: tenant ? `${tenant.firstName} ${tenant.lastName}` : 'Unknown',
+          moveOutDate: new Date().toISOString().split('T')[0],
+        },
+      });
+
+      await recordEntityChange(tx, siteId, {
+        entityType: 'unit',
+        entityId: unitId,
+        action: 'update',
+        performedBy: c.req.header('X-User-Id'),
+        before: { status: unit.status, currentTenantId: tenantId },
+        after: { status: 'available', currentTenantId: null },
+      });
+    });
+
+    return c.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error('Error removing tenant:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
 /**
  * GET /api/ops/work-orders/:id
  * Get a single work order
  */
-opsRoutes.get('/work-orders/:id', async (c: Context) => {
+opsRoutes.get('/work-orders/:id', requirePermission('work_orders:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2108,7 +2728,7 @@ opsRoutes.get('/work-orders/:id', async (c: Context) => {
 
     const workOrder = await getWorkOrderById(c.env.DB, siteId, id);
 
-    if (!workOrder) {
+    if (!workOrder || !canAccessProperty(getRequestAccess(c), workOrder.propertyId)) {
       return c.json({
         error: 'Not found',
         message: 'Work order not found',
@@ -2132,14 +2752,31 @@ opsRoutes.get('/work-orders/:id', async (c: Context) => {
  * POST /api/ops/work-orders/:id/delete
  * Delete a work order
  */
-opsRoutes.post('/work-orders/:id/delete', async (c: Context) => {
+opsRoutes.post('/work-orders/:id/delete', requirePermission('work_orders:delete'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkWorkOrderAccess(c, siteId, id);
+    if (denied) return denied;
+    const before = await getWorkOrderById(c.env.DB, siteId, id);
+
+    // Remove stored photos and videos first so nothing is left orphaned in R2
+    const attachments = await getWorkOrderAttachments(c.env.DB, siteId, id);
+    for (const attachment of attachments) {
+      await removeWorkOrderAttachment(c.env, siteId, attachment);
+    }
 
     await deleteWorkOrder(c.env.DB, siteId, id);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'work_order',
+      entityId: id,
+      action: 'delete',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+    });
+
     return c.json({
       success: true,
     });
@@ -2156,7 +2793,7 @@ opsRoutes.post('/work-orders/:id/delete', async (c: Context) => {
  * GET /api/ops/properties/:id/with-units
  * Get property with all units
  */
-opsRoutes.get('/properties/:id/with-units', async (c: Context) => {
+opsRoutes.get('/properties/:id/with-units', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2164,7 +2801,7 @@ opsRoutes.get('/properties/:id/with-units', async (c: Context) => {
 
     const property = await getPropertyWithUnits(c.env.DB, siteId, id);
 
-    if (!property) {
+    if (!property || !canAccessProperty(getRequestAccess(c), property.id)) {
       return c.json({
         error: 'Not found',
         message: 'Property not found',
@@ -2188,7 +2825,7 @@ opsRoutes.get('/properties/:id/with-units', async (c: Context) => {
  * GET /api/ops/properties/slug/:slug
  * Get property by URL slug
  */
-opsRoutes.get('/properties/slug/:slug', async (c: Context) => {
+opsRoutes.get('/properties/slug/:slug', requirePermission('properties:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2196,7 +2833,7 @@ opsRoutes.get('/properties/slug/:slug', async (c: Context) => {
 
     const property = await getPropertyBySlug(c.env.DB, siteId, slug);
 
-    if (!property) {
+    if (!property || !canAccessProperty(getRequestAccess(c), property.id)) {
       return c.json({
         error: 'Not found',
         message: 'Property not found',
@@ -2218,24 +2855,59 @@ opsRoutes.get('/properties/slug/:slug', async (c: Context) => {
 
 /**
  * POST /api/ops/leads/:id
- * Update a lead
+ * Update a lead. A status change is a manual stage move, so it takes the same
+ * checklist, bypassReason and bypassCategory fields as
+ * POST /api/ops/applications/:applicationId/transitions.
  */
-opsRoutes.post('/leads/:id', async (c: Context) => {
+opsRoutes.post('/leads/:id', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
-    const body = await c.req.json();
-
-    await updateLead(c.env.DB, siteId, id, body);
+    const { status, checklist, bypassReason, bypassCategory, ...changes } = await c.req.json();
+    const before = await getLeadById(c.env.DB, siteId, id);
+    if (!before) {
+      return c.json({ error: 'Not found', message: 'Lead not found' }, 404);
+    }
+    // Moving the lead needs access to both properties
+    const denied =
+      denyPropertyAccess(c, before.propertyId) ??
+      (changes.propertyId !== undefined ? denyPropertyAccess(c, changes.propertyId) : null);
+    if (denied) return denied;
+
+    if (status !== undefined && status !== before.status) {
+      if (!isApplicationStage(status)) {
+        return c.json({ error: 'Bad request', message: `Unknown status: ${status}` }, 400);
+      }
+      await changeApplicationStage(c.env.DB, siteId, before, status, {
+        type: 'manual',
+        userId: c.req.header('X-User-Id'),
+        checklist,
+        bypassReason,
+        bypassCategory,
+      });
+    }
+    await updateLead(c.env.DB, siteId, id, changes);
 
     const updatedLead = await getLeadById(c.env.DB, siteId, id);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'lead',
+      entityId: id,
+      action: 'update',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: updatedLead,
+    });
+
     return c.json({
       success: true,
       data: updatedLead,
     });
   } catch (error) {
+    if (error instanceof StageTransitionError) {
+      return c.json({ error: 'Invalid stage transition', message: error.message }, 409);
+    }
     console.error('Error updating lead:', error);
     return c.json({
       error: 'Internal server error',
@@ -2248,11 +2920,13 @@ opsRoutes.post('/leads/:id', async (c: Context) => {
  * POST /api/ops/leads/:id/history
  * Record a history event for a lead
  */
-opsRoutes.post('/leads/:id/history', async (c: Context) => {
+opsRoutes.post('/leads/:id/history', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const leadId = c.req.param('id');
+    const denied = await checkLeadAccess(c, siteId, leadId);
+    if (denied) return denied;
     const body = await c.req.json();
 
     await recordLeadHistory(c.env.DB, siteId, leadId, body.eventType, body.eventData);
@@ -2273,11 +2947,13 @@ opsRoutes.post('/leads/:id/history', async (c: Context) => {
  * POST /api/ops/leads/:id/files
  * Create a lead file record (for metadata only, actual upload happens separately)
  */
-opsRoutes.post('/leads/:id/files', async (c: Context) => {
+opsRoutes.post('/leads/:id/files', requirePermission('leads:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const leadId = c.req.param('id');
+    const denied = await checkLeadAccess(c, siteId, leadId);
+    if (denied) return denied;
     const body = await c.req.json();
 
     const file = await createLeadFile(c.env.DB, siteId, {
@@ -2289,6 +2965,15 @@ opsRoutes.post('/leads/:id/files', async (c: Context) => {
       r2Key: body.r2Key,
     });
 
+    // The first document moves a new application on to documents_pending
+    const lead = await getLeadById(c.env.DB, siteId, leadId);
+    if (lead?.status === 'new') {
+      await changeApplicationStage(c.env.DB, siteId, lead, 'documents_pending', {
+        type: 'automatic',
+        userId: c.req.header('X-User-Id'),
+      });
+    }
+
     return c.json({
       success: true,
       data: file,
@@ -2308,7 +2993,7 @@ opsRoutes.post('/leads/:id/files', async (c: Context) => {
  * GET /api/ops/site-api-tokens
  * List all API tokens for a site
  */
-opsRoutes.get('/site-api-tokens', async (c: Context) => {
+opsRoutes.get('/site-api-tokens', requirePermission('settings:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2332,7 +3017,7 @@ opsRoutes.get('/site-api-tokens', async (c: Context) => {
  * GET /api/ops/site-api-tokens/:id
  * Get a single API token by ID
  */
-opsRoutes.get('/site-api-tokens/:id', async (c: Context) => {
+opsRoutes.get('/site-api-tokens/:id', requirePermission('settings:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2364,7 +3049,7 @@ opsRoutes.get('/site-api-tokens/:id', async (c: Context) => {
  * POST /api/ops/site-api-tokens
  * Create a new API token
  */
-opsRoutes.post('/site-api-tokens', async (c: Context) => {
+opsRoutes.post('/site-api-tokens', requirePermission('settings:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2384,6 +3069,14 @@ opsRoutes.post('/site-api-tokens', async (c: Context) => {
       expiresAt: expiresAt || null,
     });
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'site_api_token',
+      entityId: result.record.id,
+      action: 'create',
+      performedBy: c.req.header('X-User-Id'),
+      after: result.record,
+    });
+
     return c.json({
       success: true,
       data: {
@@ -2404,7 +3097,7 @@ opsRoutes.post('/site-api-tokens', async (c: Context) => {
  * POST /api/ops/site-api-tokens/:id
  * Update an API token (activate/deactivate or change description)
  */
-opsRoutes.post('/site-api-tokens/:id', async (c: Context) => {
+opsRoutes.post('/site-api-tokens/:id', requirePermission('settings:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2412,12 +3105,22 @@ opsRoutes.post('/site-api-tokens/:id', async (c: Context) => {
 
     const body = await c.req.json();
     const { description, isActive } = body;
+    const before = await getSiteApiTokenById(c.env.DB, siteId, id);
 
     await updateSiteApiToken(c.env.DB, siteId, id, {
       description,
       isActive,
     });
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'site_api_token',
+      entityId: id,
+      action: 'update',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: await getSiteApiTokenById(c.env.DB, siteId, id),
+    });
+
     return c.json({
       success: true,
     });
@@ -2434,14 +3137,23 @@ opsRoutes.post('/site-api-tokens/:id', async (c: Context) => {
  * POST /api/ops/site-api-tokens/:id/delete
  * Delete (revoke) an API token
  */
-opsRoutes.post('/site-api-tokens/:id/delete', async (c: Context) => {
+opsRoutes.post('/site-api-tokens/:id/delete', requirePermission('settings:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const before = await getSiteApiTokenById(c.env.DB, siteId, id);
 
     await deleteSiteApiToken(c.env.DB, siteId, id);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'site_api_token',
+      entityId: id,
+      action: 'delete',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+    });
+
     return c.json({
       success: true,
     });
@@ -2480,7 +3192,7 @@ opsRoutes.get('/theme', async (c: Context) => {
 /**
  * POST /api/ops/theme
  */
-opsRoutes.post('/theme', async (c: Context) => {
+opsRoutes.post('/theme', requirePermission('settings:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2519,34 +3231,44 @@ opsRoutes.post('/theme', async (c: Context) => {
 /**
  * GET /api/ops/leases
  * List all leases for a site
+ * Query params:
+ * - status, propertyId, unitId, tenantId
+ * - limit, cursor: Return one page (see "Pagination" in the worker README)
+ * - sortBy (createdAt, startDate, endDate, monthlyRent, status, propertyName, unitNumber, tenantName), sortOrder
+ * - search: Tenant name or email, property name or unit number
  */
-opsRoutes.get('/leases', async (c: Context) => {
+opsRoutes.get('/leases', requirePermission('leases:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
 
+    const list = readListQuery(c);
+    if (!list.success) {
+      return c.json({ error: 'Bad request', message: list.message }, 400);
+    }
+
     // Get query parameters
-    const status = c.req.query('status');
-    const propertyId = c.req.query('propertyId');
-    const unitId = c.req.query('unitId');
-    const tenantId = c.req.query('tenantId');
-    const sortBy = c.req.query('sortBy');
-    const sortOrder = c.req.query('sortOrder') as 'asc' | 'desc' | undefined;
+    const options = {
+      ...list.options,
+      status: c.req.query('status'),
+      propertyId: c.req.query('propertyId'),
+      unitId: c.req.query('unitId'),
+      tenantId: c.req.query('tenantId'),
+    };
 
-    const leases = await getLeases(c.env.DB, siteId, {
-      status,
-      propertyId,
-      unitId,
-      tenantId,
-      sortBy,
-      sortOrder,
-    });
+    if (list.paginate) {
+      const page = await getLeasesPage(c.env.DB, siteId, options);
+      return c.json({ success: true, data: page.items, pagination: page.pagination });
+    }
 
     return c.json({
       success: true,
-      data: leases,
+      data: await getLeases(c.env.DB, siteId, options),
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return c.json({ error: 'Bad request', message: error.message }, 400);
+    }
     console.error('Error fetching leases:', error);
     return c.json({
       error: 'Internal server error',
@@ -2559,7 +3281,7 @@ opsRoutes.get('/leases', async (c: Context) => {
  * GET /api/ops/leases/:id
  * Get a single lease by ID
  */
-opsRoutes.get('/leases/:id', async (c: Context) => {
+opsRoutes.get('/leases/:id', requirePermission('leases:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2567,7 +3289,7 @@ opsRoutes.get('/leases/:id', async (c: Context) => {
 
     const lease = await getLeaseById(c.env.DB, siteId, id);
 
-    if (!lease) {
+    if (!lease || !canAccessProperty(getRequestAccess(c), lease.propertyId)) {
       return c.json({
         error: 'Not found',
         message: 'Lease not found',
@@ -2591,7 +3313,7 @@ opsRoutes.get('/leases/:id', async (c: Context) => {
  * POST /api/ops/leases
  * Create a new lease
  */
-opsRoutes.post('/leases', async (c: Context) => {
+opsRoutes.post('/leases', requirePermission('leases:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2609,6 +3331,8 @@ opsRoutes.post('/leases', async (c: Context) => {
       docuSignEnvelopeId,
       signedAt,
     } = body;
+    const denied = denyPropertyAccess(c, propertyId);
+    if (denied) return denied;
 
     const lease = await createLease(c.env.DB, siteId, {
       propertyId,
@@ -2623,6 +3347,14 @@ opsRoutes.post('/leases', async (c: Context) => {
       signedAt,
     });
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'lease',
+      entityId: lease.id,
+      action: 'create',
+      performedBy: c.req.header('X-User-Id'),
+      after: lease,
+    });
+
     return c.json({
       success: true,
       data: lease,
@@ -2640,16 +3372,30 @@ opsRoutes.post('/leases', async (c: Context) => {
  * POST /api/ops/leases/:id
  * Update a lease
  */
-opsRoutes.post('/leases/:id', async (c: Context) => {
+opsRoutes.post('/leases/:id', requirePermission('leases:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
-
     const body = await c.req.json();
+    // Moving the lease needs access to both properties
+    const denied =
+      (await checkLeaseAccess(c, siteId, id)) ??
+      (body.propertyId !== undefined ? denyPropertyAccess(c, body.propertyId) : null);
+    if (denied) return denied;
+    const before = await getLeaseById(c.env.DB, siteId, id);
 
     await updateLease(c.env.DB, siteId, id, body);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'lease',
+      entityId: id,
+      action: 'update',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+      after: await getLeaseById(c.env.DB, siteId, id),
+    });
+
     return c.json({
       success: true,
     });
@@ -2666,14 +3412,25 @@ opsRoutes.post('/leases/:id', async (c: Context) => {
  * POST /api/ops/leases/:id/delete
  * Delete a lease
  */
-opsRoutes.post('/leases/:id/delete', async (c: Context) => {
+opsRoutes.post('/leases/:id/delete', requirePermission('leases:delete'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const id = c.req.param('id');
+    const denied = await checkLeaseAccess(c, siteId, id);
+    if (denied) return denied;
+    const before = await getLeaseById(c.env.DB, siteId, id);
 
     await deleteLease(c.env.DB, siteId, id);
 
+    await recordEntityChange(c.env.DB, siteId, {
+      entityType: 'lease',
+      entityId: id,
+      action: 'delete',
+      performedBy: c.req.header('X-User-Id'),
+      before,
+    });
+
     return c.json({
       success: true,
     });
@@ -2690,11 +3447,13 @@ opsRoutes.post('/leases/:id/delete', async (c: Context) => {
  * GET /api/ops/leases/:id/files
  * Get all files for a lease
  */
-opsRoutes.get('/leases/:id/files', async (c: Context) => {
+opsRoutes.get('/leases/:id/files', requirePermission('leases:read'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const leaseId = c.req.param('id');
+    const denied = await checkLeaseAccess(c, siteId, leaseId);
+    if (denied) return denied;
 
     const files = await getLeaseFiles(c.env.DB, siteId, leaseId);
 
@@ -2734,11 +3493,13 @@ opsRoutes.get('/leases/:id/files', async (c: Context) => {
  * POST /api/ops/leases/:id/files
  * Upload a file for a lease
  */
-opsRoutes.post('/leases/:id/files', async (c: Context) => {
+opsRoutes.post('/leases/:id/files', requirePermission('leases:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
     const leaseId = c.req.param('id');
+    const denied = await checkLeaseAccess(c, siteId, leaseId);
+    if (denied) return denied;
     const formData = await c.req.formData();
     const file = formData.get('file') as File | null;
     if (!file || typeof file === 'string') {
@@ -2791,7 +3552,7 @@ opsRoutes.post('/leases/:id/files', async (c: Context) => {
  * POST /api/ops/leases/:leaseId/files/:fileId/delete
  * Delete a lease file
  */
-opsRoutes.post('/leases/:leaseId/files/:fileId/delete', async (c: Context) => {
+opsRoutes.post('/leases/:leaseId/files/:fileId/delete', requirePermission('leases:write'), async (c: Context) => {
   try {
     const siteId = c.req.header('X-Site-Id');
     if (!siteId) { return c.json({ error: 'Missing X-Site-Id header' }, 400); }
@@ -2805,6 +3566,8 @@ opsRoutes.post('/leases/:leaseId/files/:fileId/delete', async (c: Context) => {
         message: 'File not found',
       }, 404);
     }
+    const denied = await checkLeaseAccess(c, siteId, file.leaseId);
+    if (denied) return denied;
 
     // Delete from R2
     await c.env.PRIVATE_BUCKET.delete(file.r2Key);
@@ -0,0 +1,364 @@
+/**
+ * Tenant Portal Routes (/api/portal/*)
+ *
+ * Used by apps/site on behalf of a signed-in tenant
+ * Authentication: Bearer tenant session token (see middleware/tenant-auth.ts)
+ *
+ * Every handler is scoped to the session's tenant: records belonging to
+ * anyone else are reported as not found.
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { tenantAuthMiddleware } from '../middleware/tenant-auth';
+import {
+  getTenantById,
+  updateTenant,
+  getLeases,
+  getLeaseFiles,
+  getLeaseFileById,
+  getLedgerEntries,
+  applyRunningBalance,
+  summarizeLedger,
+  getWorkOrders,
+  getWorkOrderById,
+  createWorkOrder,
+  getWorkOrderAttachments,
+  getWorkOrderAttachmentById,
+  revokePortalSession,
+} from '../lib/db';
+import { pickCurrentLease } from '../lib/tenant-portal';
+import { serveStoredFile, storeWorkOrderAttachment, validateWorkOrderAttachment } from '../lib/work-order-attachments';
+import {
+  PortalWorkOrderSchema,
+  UpdateEmergencyContactSchema,
+  WORK_ORDER_ATTACHMENT_CONSTRAINTS,
+} from '../../../shared/config';
+import type { CloudflareEnv } from '../../../shared/config';
+import type { Lease, TenantPortalProfile } from '../../../shared/types';
+
+type Bindings = CloudflareEnv;
+
+const portalRoutes = new Hono<{ Bindings: Bindings }>();
+
+// Apply tenant session auth to all portal routes
+portalRoutes.use('*', tenantAuthMiddleware);
+
+const CLOSED_WORK_ORDER_STATUSES = ['completed', 'cancelled'];
+
+async function getCurrentLease(c: Context): Promise<Lease | undefined> {
+  const leases = await getLeases(c.env.DB, c.get('siteId') as string, { tenantId: c.get('tenantId') as string });
+  return pickCurrentLease(leases);
+}
+
+async function getOwnWorkOrder(c: Context, id: string) {
+  const workOrder = await getWorkOrderById(c.env.DB, c.get('siteId') as string, id);
+  return workOrder && workOrder.tenantId === c.get('tenantId') ? workOrder : null;
+}
+
+function serverError(c: Context, action: string, error: unknown) {
+  console.error(`Error ${action}:`, error);
+  return c.json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : 'Unknown error',
+  }, 500);
+}
+
+// ==================== PROFILE ====================
+
+/**
+ * GET /api/portal/me
+ * Tenant profile with current lease, balance and open work order count
+ */
+portalRoutes.get('/me', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const tenantId = c.get('tenantId') as string;
+
+    const tenant = await getTenantById(c.env.DB, siteId, tenantId);
+    if (!tenant) {
+      return c.json({ error: 'Not found', message: 'Tenant not found' }, 404);
+    }
+
+    const lease = await getCurrentLease(c);
+    let balance;
+    if (lease) {
+      balance = summarizeLedger(await getLedgerEntries(c.env.DB, siteId, lease.id));
+    }
+
+    const workOrders = await getWorkOrders(c.env.DB, siteId, { tenantId });
+    const profile: TenantPortalProfile = {
+      tenant,
+      lease,
+      balance,
+      openWorkOrderCount: workOrders.filter((wo) => !CLOSED_WORK_ORDER_STATUSES.includes(wo.status)).length,
+    };
+
+    return c.json({ success: true, data: profile });
+  } catch (error) {
+    return serverError(c, 'fetching portal profile', error);
+  }
+});
+
+/**
+ * PUT /api/portal/me/emergency-contact
+ * Update the tenant's emergency contact
+ *
+ * Body: { emergencyContact?: string, emergencyPhone?: string }
+ */
+portalRoutes.put('/me/emergency-contact', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const tenantId = c.get('tenantId') as string;
+
+    const parsed = UpdateEmergencyContactSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', message: parsed.error.issues[0]?.message }, 400);
+    }
+
+    // Empty strings clear the field
+    await updateTenant(c.env.DB, siteId, tenantId, {
+      emergencyContact: parsed.data.emergencyContact?.trim() ?? '',
+      emergencyPhone: parsed.data.emergencyPhone?.trim() ?? '',
+    });
+    const tenant = await getTenantById(c.env.DB, siteId, tenantId);
+
+    return c.json({ success: true, data: tenant });
+  } catch (error) {
+    return serverError(c, 'updating emergency contact', error);
+  }
+});
+
+/**
+ * POST /api/portal/logout
+ * End the current session
+ */
+portalRoutes.post('/logout', async (c: Context) => {
+  try {
+    await revokePortalSession(c.env.DB, c.get('sessionToken') as string);
+    return c.json({ success: true });
+  } catch (error) {
+    return serverError(c, 'ending portal session', error);
+  }
+});
+
+// ==================== LEASE ====================
+
+/**
+ * GET /api/portal/lease
+ * Current lease and its files (null when the tenant has no lease to show)
+ */
+portalRoutes.get('/lease', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const lease = await getCurrentLease(c);
+    if (!lease) {
+      return c.json({ success: true, data: null });
+    }
+
+    const files = await getLeaseFiles(c.env.DB, siteId, lease.id);
+    return c.json({ success: true, data: { ...lease, files } });
+  } catch (error) {
+    return serverError(c, 'fetching portal lease', error);
+  }
+});
+
+/**
+ * GET /api/portal/lease/files/:fileId
+ * Stream a file of the current lease
+ */
+portalRoutes.get('/lease/files/:fileId', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const lease = await getCurrentLease(c);
+    const file = lease ? await getLeaseFileById(c.env.DB, siteId, c.req.param('fileId')) : null;
+    if (!lease || !file || file.leaseId !== lease.id) {
+      return c.json({ error: 'Not found', message: 'File not found' }, 404);
+    }
+
+    const response = await serveStoredFile(c.env.PRIVATE_BUCKET, file, c.req.raw, 'private, no-store');
+    if (!response) {
+      return c.json({ error: 'Not found', message: 'File not found in storage' }, 404);
+    }
+    return response;
+  } catch (error) {
+    return serverError(c, 'streaming lease file', error);
+  }
+});
+
+/**
+ * GET /api/portal/ledger
+ * Ledger for the current lease with running balance and totals
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: { leaseId, entries: LedgerEntry[], summary: LedgerSummary } | null
+ * }
+ */
+portalRoutes.get('/ledger', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const lease = await getCurrentLease(c);
+    if (!lease) {
+      return c.json({ success: true, data: null });
+    }
+
+    const entries = await getLedgerEntries(c.env.DB, siteId, lease.id);
+
+    return c.json({
+      success: true,
+      data: {
+        leaseId: lease.id,
+        entries: applyRunningBalance(entries),
+        summary: summarizeLedger(entries),
+      },
+    });
+  } catch (error) {
+    return serverError(c, 'fetching portal ledger', error);
+  }
+});
+
+// ==================== WORK ORDERS ====================
+
+/**
+ * GET /api/portal/work-orders
+ * The tenant's work orders, newest first
+ */
+portalRoutes.get('/work-orders', async (c: Context) => {
+  try {
+    const workOrders = await getWorkOrders(c.env.DB, c.get('siteId') as string, {
+      tenantId: c.get('tenantId') as string,
+    });
+    return c.json({ success: true, data: workOrders });
+  } catch (error) {
+    return serverError(c, 'fetching portal work orders', error);
+  }
+});
+
+/**
+ * POST /api/portal/work-orders
+ * Submit a maintenance request for the current lease's property
+ *
+ * Body: { title, description, category, priority? }
+ */
+portalRoutes.post('/work-orders', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const tenantId = c.get('tenantId') as string;
+
+    const parsed = PortalWorkOrderSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', message: parsed.error.issues[0]?.message }, 400);
+    }
+
+    const lease = await getCurrentLease(c);
+    if (!lease || !['active', 'signed'].includes(lease.status)) {
+      return c.json({
+        error: 'Validation failed',
+        message: 'Maintenance requests can only be submitted for an active lease',
+      }, 400);
+    }
+
+    const workOrder = await createWorkOrder(c.env.DB, siteId, {
+      propertyId: lease.propertyId,
+      tenantId,
+      title: parsed.data.title,
+      description: parsed.data.description,
+      category: parsed.data.category,
+      priority: parsed.data.priority,
+    });
+
+    return c.json({ success: true, data: workOrder }, 201);
+  } catch (error) {
+    return serverError(c, 'creating portal work order', error);
+  }
+});
+
+/**
+ * GET /api/portal/work-orders/:id
+ * One of the tenant's work orders with its photos and videos
+ */
+portalRoutes.get('/work-orders/:id', async (c: Context) => {
+  try {
+    const workOrder = await getOwnWorkOrder(c, c.req.param('id'));
+    if (!workOrder) {
+      return c.json({ error: 'Not found', message: 'Work order not found' }, 404);
+    }
+
+    const attachments = await getWorkOrderAttachments(c.env.DB, c.get('siteId') as string, workOrder.id);
+    return c.json({ success: true, data: { ...workOrder, attachments } });
+  } catch (error) {
+    return serverError(c, 'fetching portal work order', error);
+  }
+});
+
+/**
+ * POST /api/portal/work-orders/:id/attachments
+ * Attach a photo or video to one of the tenant's open work orders
+ *
+ * Body: multipart/form-data with a `file` field
+ */
+portalRoutes.post('/work-orders/:id/attachments', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const tenantId = c.get('tenantId') as string;
+
+    const contentLength = c.req.header('content-length');
+    if (!contentLength || parseInt(contentLength) > WORK_ORDER_ATTACHMENT_CONSTRAINTS.maxVideoSize) {
+      return c.json({ error: 'File too large', message: 'File exceeds the maximum upload size' }, 413);
+    }
+
+    const workOrder = await getOwnWorkOrder(c, c.req.param('id'));
+    if (!workOrder) {
+      return c.json({ error: 'Not found', message: 'Work order not found' }, 404);
+    }
+    if (CLOSED_WORK_ORDER_STATUSES.includes(workOrder.status)) {
+      return c.json({ error: 'Validation failed', message: 'Files cannot be added to a closed work order' }, 400);
+    }
+
+    const formData = await c.req.formData();
+    const file = formData.get('file') as File | null;
+    if (!file || typeof file === 'string') {
+      return c.json({ error: 'Validation failed', message: 'No file provided' }, 400);
+    }
+
+    const existing = await getWorkOrderAttachments(c.env.DB, siteId, workOrder.id);
+    const invalid = validateWorkOrderAttachment(file, existing.length);
+    if (invalid) {
+      return c.json({ error: invalid.error, message: invalid.message }, invalid.status);
+    }
+
+    const attachment = await storeWorkOrderAttachment(c.env, siteId, workOrder.id, file, { tenantId });
+
+    return c.json({ success: true, data: attachment }, 201);
+  } catch (error) {
+    return serverError(c, 'uploading work order attachment', error);
+  }
+});
+
+/**
+ * GET /api/portal/work-orders/:id/attachments/:attachmentId
+ * Stream a photo or video attached to one of the tenant's work orders
+ */
+portalRoutes.get('/work-orders/:id/attachments/:attachmentId', async (c: Context) => {
+  try {
+    const workOrder = await getOwnWorkOrder(c, c.req.param('id'));
+    const attachment = workOrder
+      ? await getWorkOrderAttachmentById(c.env.DB, c.get('siteId') as string, c.req.param('attachmentId'))
+      : null;
+    if (!workOrder || !attachment || attachment.workOrderId !== workOrder.id) {
+      return c.json({ error: 'Not found', message: 'Attachment not found' }, 404);
+    }
+
+    const response = await serveStoredFile(c.env.PRIVATE_BUCKET, attachment, c.req.raw, 'private, no-store');
+    if (!response) {
+      return c.json({ error: 'Not found', message: 'Attachment not found in storage' }, 404);
+    }
+    return response;
+  } catch (error) {
+    return serverError(c, 'streaming work order attachment', error);
+  }
+});
+
+export { portalRoutes };
@@ -0,0 +1,129 @@
+/**
+ * Integration tests for the public routes the storefront calls
+ * @vitest-environment node
+ *
+ * Requests go through the routes with a real site API token over an
+ * in-memory SQLite database; the private bucket is kept in a Map.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import path from 'node:path';
+import { Hono } from 'hono';
+import { SQLiteDatabaseAdapter, applySqlFiles } from '../../../shared/storage-sqlite/sqlite-database';
+import { publicRoutes } from './public';
+import { createSiteApiToken } from '../lib/db/site-tokens';
+import { createProperty } from '../lib/db/properties';
+import { createLead } from '../lib/db/leads';
+import { getDocumentsByApplicationId } from '../lib/db/application-documents';
+import { createApplicationStatusLink } from '../lib/application-status';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../scripts/migrations');
+const SITE_ID = 'site_1';
+const FILE_SIGNING_SECRET = 'test-signing-secret';
+
+function memoryBucket() {
+  const objects = new Map<string, { size: number; contentType?: string }>();
+  return {
+    objects,
+    async put(key: string, body: ReadableStream, options?: { httpMetadata?: { contentType?: string } }) {
+      const size = (await new Response(body).arrayBuffer()).byteLength;
+      objects.set(key, { size, contentType: options?.httpMetadata?.contentType });
+    },
+    async head(key: string) {
+      return objects.get(key) ?? null;
+    },
+    async delete(key: string) {
+      objects.delete(key);
+    },
+  };
+}
+
+describe('public routes', () => {
+  let db: SQLiteDatabaseAdapter;
+  let bucket: ReturnType<typeof memoryBucket>;
+  let app: Hono;
+  let token: string;
+  let leadId: string;
+
+  beforeEach(async () => {
+    db = new SQLiteDatabaseAdapter();
+    await applySqlFiles(db, MIGRATIONS_DIR);
+    bucket = memoryBucket();
+
+    app = new Hono();
+    app.route('/api/public', publicRoutes);
+
+    ({ token } = await createSiteApiToken(db, SITE_ID, { description: 'storefront' }));
+    const property = await createProperty(db, SITE_ID, {
+      name: 'Maple House',
+      address: '1 Main St',
+      city: 'Toronto',
+      province: 'ON',
+      postalCode: 'M1M 1M1',
+      propertyType: 'multi_family',
+    });
+    const lead = await createLead(db, SITE_ID, {
+      propertyId: property.id,
+      firstName: 'Sam',
+      lastName: 'Applicant',
+      email: 'sam@example.com',
+      phone: '555-0100',
+      employmentStatus: 'employed',
+      moveInDate: '2026-12-01',
+      isActive: true,
+    });
+    await db.execute("UPDATE leads SET status = 'documents_pending' WHERE id = ?", [lead.id]);
+    leadId = lead.id;
+  });
+
+  // Uploads are refused without a Content-Length, which FormData bodies
+  // don't get until they are serialized
+  async function uploadFromStatusPage(form: FormData) {
+    const link = (await createApplicationStatusLink(
+      { STOREFRONT_URL: 'https://example.com', FILE_SIGNING_SECRET },
+      SITE_ID,
+      leadId
+    ))!;
+    const { search } = new URL(link.url);
+    const serialized = new Request('http://worker.test', { method: 'POST', body: form });
+    const body = await serialized.arrayBuffer();
+    return app.request(
+      `/api/public/applications/${leadId}/status/documents${search}`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': serialized.headers.get('Content-Type')!,
+          'Content-Length': String(body.byteLength),
+        },
+        body,
+      },
+      { DB: db, PRIVATE_BUCKET: bucket, FILE_SIGNING_SECRET }
+    );
+  }
+
+  it('stores a document uploaded from the status page', async () => {
+    const form = new FormData();
+    form.append('file', new File(['%PDF-1.4 pay stub'], 'paystub.pdf', { type: 'application/pdf' }));
+    form.append('documentType', 'paystub');
+
+    const response = await uploadFromStatusPage(form);
+    expect(response.status).toBe(201);
+    const { data } = (await response.json()) as { data: { id: string; fileName: string } };
+    expect(data.fileName).toBe('paystub.pdf');
+
+    const [document] = await getDocumentsByApplicationId(db, leadId);
+    expect(document).toMatchObject({ id: data.id, documentType: 'paystub', mimeType: 'application/pdf' });
+    expect(bucket.objects.get(document.storageKey)).toEqual({ size: 17, contentType: 'application/pdf' });
+  });
+
+  it('rejects a status page upload without a file', async () => {
+    const form = new FormData();
+    form.append('file', 'not a file');
+    form.append('documentType', 'paystub');
+
+    const response = await uploadFromStatusPage(form);
+    expect(response.status).toBe(400);
+    expect(await getDocumentsByApplicationId(db, leadId)).toEqual([]);
+  });
+});
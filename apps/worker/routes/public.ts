@@ -20,11 +20,58 @@ import {
   getImagesByEntityWithUrls,
   getImagesByEntityWithVerification,
   getThemeConfiguration,
+  getCurrentIntakeForm,
+  getIntakeFormVersion,
+  getTenantByEmail,
+  getTenantById,
+  createPortalToken,
+  consumePortalLoginToken,
+  getLeadById,
+  recordLeadHistory,
 } from '../lib/db';
+import {
+  getApplicantByInviteTokenForSite,
+  getPrimaryApplicant,
+  acceptApplicantInvite,
+  recalculateHousehold,
+} from '../lib/db/application-applicants';
+import {
+  createDocument,
+  getDocumentsByApplicantId,
+  getDocumentsByApplicationId,
+} from '../lib/db/application-documents';
+import { getApplicantInviteState } from '../lib/applicant-invites';
+import {
+  APPLICANT_STAGE_COPY,
+  acceptsApplicantDocuments,
+  emailApplicationStatusLink,
+  verifyApplicationStatusLink,
+} from '../lib/application-status';
 import { buildThemePayload } from '../lib/theme-response';
-import { FILE_UPLOAD_CONSTRAINTS } from '../../../shared/config';
-import type { FileUploadResponse } from '../../../shared/types';
-import { generateId } from '../../../shared/utils';
+import {
+  PORTAL_LOGIN_LINK_TTL_SECONDS,
+  PORTAL_SESSION_TTL_SECONDS,
+  canUsePortal,
+  sendPortalLoginLink,
+} from '../lib/tenant-portal';
+import {
+  AcceptApplicantInviteSchema,
+  FILE_UPLOAD_CONSTRAINTS,
+  LeadFileTypeEnum,
+  LeadSubmissionSchema,
+  RequestPortalLoginLinkSchema,
+} from '../../../shared/config';
+import type {
+  ApplicantInvite,
+  ApplicationApplicant,
+  ApplicationDocument,
+  ApplicationStatusView,
+  EmploymentStatus,
+  Lead,
+  FileUploadResponse,
+  TenantPortalSession,
+} from '../../../shared/types';
+import { generateId, getOutstandingDocuments, validateIntakeAnswers } from '../../../shared/utils';
 
 // Import shared environment types
 import type { CloudflareEnv } from '../../../shared/config';
@@ -228,6 +275,29 @@ publicRoutes.get('/theme', async (c: Context) => {
   }
 });
 
+/**
+ * GET /api/public/intake-form
+ * Current application intake form for the storefront to render.
+ * Submissions should echo back `version` as `intakeFormVersion`.
+ */
+publicRoutes.get('/intake-form', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const intakeForm = await getCurrentIntakeForm(c.env.DB, siteId);
+
+    return c.json({
+      success: true,
+      data: intakeForm,
+    });
+  } catch (error) {
+    console.error('Error fetching intake form:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
 /**
  * POST /api/public/leads/files/upload
  * Upload a file for a lead application (before lead is created)
@@ -359,26 +429,30 @@ publicRoutes.post('/leads/files/upload', async (c: Context) => {
 /**
  * POST /api/public/leads
  * Submit a tenant application
+ *
+ * Body: {
+ *   propertyId: string,            // 'general' for a general inquiry
+ *   unitId?: string,
+ *   intakeFormVersion?: number,    // form version the applicant saw (defaults to the current one)
+ *   fileIds?: string[],
+ *   ...answers                     // one key per intake form field
+ * }
  */
 publicRoutes.post('/leads', async (c: Context) => {
   try {
     const siteId = c.get('siteId') as string;
-    const body = await c.req.json();
+    const parsed = LeadSubmissionSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Validation error',
+        message: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+      }, 400);
+    }
+    const body = parsed.data;
 
     // Check if this is a General Inquiry
     const isGeneralInquiry = body.propertyId === 'general';
 
-    // Validate required fields
-    const requiredFields = ['propertyId', 'firstName', 'lastName', 'email', 'phone'];
-    for (const field of requiredFields) {
-      if (!body[field]) {
-        return c.json({
-          error: 'Validation error',
-          message: `Missing required field: ${field}`,
-        }, 400);
-      }
-    }
-
     // General Inquiries should not have file attachments
     if (isGeneralInquiry && body.fileIds && body.fileIds.length > 0) {
       return c.json({
@@ -387,8 +461,46 @@ publicRoutes.post('/leads', async (c: Context) => {
       }, 400);
     }
 
-    // Create the lead
-    const lead = await createLead(c.env.DB, siteId, body);
+    // Validate against the form version the applicant filled in, so a form
+    // edited mid-session doesn't reject their submission
+    const intakeForm = body.intakeFormVersion !== undefined
+      ? await getIntakeFormVersion(c.env.DB, siteId, body.intakeFormVersion)
+      : await getCurrentIntakeForm(c.env.DB, siteId);
+    if (!intakeForm) {
+      return c.json({
+        error: 'Validation error',
+        message: `Unknown intake form version: ${body.intakeFormVersion}`,
+      }, 400);
+    }
+
+    const { core, answers, errors } = validateIntakeAnswers(intakeForm.schema, body, {
+      generalInquiry: isGeneralInquiry,
+    });
+    if (Object.keys(errors).length > 0) {
+      return c.json({
+        error: 'Validation error',
+        message: Object.values(errors).join(', '),
+        fields: errors,
+      }, 400);
+    }
+
+    // Create the lead. Applications still need employment status and move-in
+    // date columns when the form leaves them out or optional.
+    const lead = await createLead(c.env.DB, siteId, {
+      propertyId: body.propertyId,
+      unitId: body.unitId,
+      firstName: core.firstName!,
+      lastName: core.lastName!,
+      email: core.email!,
+      phone: core.phone!,
+      currentAddress: core.currentAddress,
+      employmentStatus: (core.employmentStatus || 'employed') as EmploymentStatus,
+      moveInDate: core.moveInDate || new Date().toISOString().split('T')[0],
+      message: core.message,
+      intakeFormVersion: intakeForm.version,
+      intakeAnswers: answers,
+      isActive: true,
+    });
 
     // Associate uploaded files with the lead (if any)
     if (body.fileIds && Array.isArray(body.fileIds) && body.fileIds.length > 0) {
@@ -440,6 +552,19 @@ publicRoutes.post('/leads', async (c: Context) => {
       console.log(`Associated ${body.fileIds.length} files with lead ${lead.id}`);
     }
 
+    // Give applicants a way to follow up. A failed email shouldn't fail the
+    // submission; staff can re-send the link from the application.
+    if (!isGeneralInquiry) {
+      try {
+        const expiresAt = await emailApplicationStatusLink(c.env, siteId, lead);
+        if (expiresAt) {
+          await recordLeadHistory(c.env.DB, siteId, lead.id, 'status_link_sent', { expiresAt, sentBy: null });
+        }
+      } catch (error) {
+        console.error('Error emailing application status link:', error);
+      }
+    }
+
     return c.json({
       success: true,
       data: lead,
@@ -453,4 +578,469 @@ publicRoutes.post('/leads', async (c: Context) => {
   }
 });
 
+/**
+ * POST /api/public/portal/login-link
+ * Email a tenant a single-use portal sign-in link
+ *
+ * Body: {
+ *   email: string,
+ *   verifyUrl: string   // storefront page; the token is appended as ?token=
+ * }
+ *
+ * Always succeeds so the response doesn't reveal who is a tenant.
+ */
+publicRoutes.post('/portal/login-link', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const parsed = RequestPortalLoginLinkSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Validation error',
+        message: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+      }, 400);
+    }
+
+    const tenant = await getTenantByEmail(c.env.DB, siteId, parsed.data.email);
+    if (tenant && canUsePortal(tenant)) {
+      const { token } = await createPortalToken(c.env.DB, siteId, tenant.id, 'login', PORTAL_LOGIN_LINK_TTL_SECONDS);
+      const link = new URL(parsed.data.verifyUrl);
+      link.searchParams.set('token', token);
+      await sendPortalLoginLink(c.env, tenant, link.toString());
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error sending portal login link:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/public/portal/sessions
+ * Exchange a login link token for a portal session token
+ *
+ * Body: { token: string }
+ */
+publicRoutes.post('/portal/sessions', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const body = await c.req.json<{ token?: unknown }>();
+    if (typeof body.token !== 'string' || !body.token) {
+      return c.json({ error: 'Validation error', message: 'token is required' }, 400);
+    }
+
+    const owner = await consumePortalLoginToken(c.env.DB, siteId, body.token);
+    const tenant = owner ? await getTenantById(c.env.DB, siteId, owner.tenantId) : null;
+    if (!tenant || !canUsePortal(tenant)) {
+      return c.json({ error: 'Unauthorized', message: 'This sign-in link is invalid or has expired' }, 401);
+    }
+
+    const { token, expiresAt } = await createPortalToken(
+      c.env.DB,
+      siteId,
+      tenant.id,
+      'session',
+      PORTAL_SESSION_TTL_SECONDS
+    );
+    const session: TenantPortalSession = { sessionToken: token, expiresAt };
+
+    return c.json({ success: true, data: session }, 201);
+  } catch (error) {
+    console.error('Error creating portal session:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+// ==================== APPLICANT UPLOADS ====================
+
+/**
+ * Validate and store a document an applicant uploads themselves, or return the
+ * error response to send instead. Same limits as application uploads.
+ */
+async function uploadApplicantDocument(
+  c: Context,
+  applicationId: string,
+  applicantId: string | null,
+  existingCount: number
+): Promise<ApplicationDocument | Response> {
+  const siteId = c.get('siteId') as string;
+
+  const contentLength = c.req.header('content-length');
+  if (!contentLength || parseInt(contentLength) > FILE_UPLOAD_CONSTRAINTS.maxFileSize) {
+    return c.json({
+      error: 'File too large',
+      message: `File size exceeds maximum of ${FILE_UPLOAD_CONSTRAINTS.maxFileSize / 1024 / 1024}MB`,
+      maxSize: FILE_UPLOAD_CONSTRAINTS.maxFileSize,
+    }, 413);
+  }
+
+  const formData = await c.req.formData();
+  const file = formData.get('file') as File | null;
+  if (!file || typeof file === 'string') {
+    return c.json({ error: 'Validation error', message: 'No file provided' }, 400);
+  }
+  const documentType = LeadFileTypeEnum.safeParse(formData.get('documentType'));
+  if (!documentType.success) {
+    return c.json({
+      error: 'Validation error',
+      message: `documentType must be one of: ${LeadFileTypeEnum.options.join(', ')}`,
+    }, 400);
+  }
+
+  if (!FILE_UPLOAD_CONSTRAINTS.allowedMimeTypes.includes(file.type as any)) {
+    return c.json({
+      error: 'Unsupported file type',
+      message: `File type ${file.type} is not allowed`,
+      allowedTypes: FILE_UPLOAD_CONSTRAINTS.allowedMimeTypes,
+    }, 415);
+  }
+  if (file.size > FILE_UPLOAD_CONSTRAINTS.maxFileSize) {
+    return c.json({
+      error: 'File too large',
+      message: `File size exceeds maximum of ${FILE_UPLOAD_CONSTRAINTS.maxFileSize / 1024 / 1024}MB`,
+      maxSize: FILE_UPLOAD_CONSTRAINTS.maxFileSize,
+    }, 413);
+  }
+
+  if (existingCount >= FILE_UPLOAD_CONSTRAINTS.maxFilesPerLead) {
+    return c.json({
+      error: 'Too many files',
+      message: `You can upload up to ${FILE_UPLOAD_CONSTRAINTS.maxFilesPerLead} documents`,
+    }, 429);
+  }
+
+  const fileId = generateId('file');
+  const r2Key = applicantId
+    ? `${siteId}/leads/${applicationId}/applicants/${applicantId}/${fileId}-${file.name}`
+    : `${siteId}/leads/${applicationId}/${fileId}-${file.name}`;
+  await c.env.PRIVATE_BUCKET.put(r2Key, file.stream(), {
+    httpMetadata: {
+      contentType: file.type,
+    },
+  });
+
+  const uploadedObject = await c.env.PRIVATE_BUCKET.head(r2Key);
+  if (!uploadedObject) {
+    throw new Error('File upload failed - file not found after upload');
+  }
+  if (uploadedObject.size > FILE_UPLOAD_CONSTRAINTS.maxFileSize) {
+    await c.env.PRIVATE_BUCKET.delete(r2Key);
+    return c.json({
+      error: 'File too large',
+      message: 'File size exceeds maximum after upload',
+    }, 413);
+  }
+
+  // Uploaded by the applicant, not a staff user
+  return createDocument(c.env.DB, {
+    applicationId,
+    applicantId,
+    documentType: documentType.data,
+    fileName: file.name,
+    fileSize: uploadedObject.size,
+    mimeType: file.type,
+    storageKey: r2Key,
+    storageUrl: null,
+    verificationStatus: 'pending',
+    verifiedBy: null,
+    verifiedAt: null,
+    rejectionReason: null,
+    uploadedBy: null,
+    expiresAt: null,
+  });
+}
+
+// ==================== APPLICANT INVITES ====================
+
+const CLOSED_INVITE_MESSAGES = {
+  expired: 'This invite link has expired. Ask the property manager to send a new one.',
+  accepted: 'This invite has already been completed.',
+};
+
+/**
+ * The invited applicant behind a token, or the 404/410 response to send instead
+ */
+async function findOpenInvite(c: Context, token: string): Promise<ApplicationApplicant | Response> {
+  const siteId = c.get('siteId') as string;
+  const applicant = await getApplicantByInviteTokenForSite(c.env.DB, siteId, token);
+  if (!applicant || applicant.applicantType === 'primary') {
+    return c.json({ error: 'Not found', message: 'Invite not found' }, 404);
+  }
+
+  const state = getApplicantInviteState(applicant);
+  if (state !== 'open') {
+    return c.json({ error: 'Gone', message: CLOSED_INVITE_MESSAGES[state], state }, 410);
+  }
+  return applicant;
+}
+
+/**
+ * GET /api/public/applicant-invites/:token
+ * The invite an emailed co-applicant or guarantor link points at
+ *
+ * 404 for an unknown token, 410 once it has expired or been accepted.
+ */
+publicRoutes.get('/applicant-invites/:token', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const applicant = await findOpenInvite(c, c.req.param('token'));
+    if (applicant instanceof Response) return applicant;
+
+    const lead = await getLeadById(c.env.DB, siteId, applicant.applicationId);
+    const property = lead && lead.propertyId !== 'general'
+      ? await getPropertyById(c.env.DB, siteId, lead.propertyId)
+      : null;
+    const documents = await getDocumentsByApplicantId(c.env.DB, applicant.id);
+
+    const invite: ApplicantInvite = {
+      applicantType: applicant.applicantType as ApplicantInvite['applicantType'],
+      firstName: applicant.firstName,
+      lastName: applicant.lastName,
+      email: applicant.email,
+      phone: applicant.phone,
+      dateOfBirth: applicant.dateOfBirth,
+      employmentStatus: applicant.employmentStatus,
+      employerName: applicant.employerName,
+      jobTitle: applicant.jobTitle,
+      monthlyIncome: applicant.monthlyIncome,
+      expiresAt: applicant.inviteTokenExpiresAt!,
+      primaryApplicantName: lead ? `${lead.firstName} ${lead.lastName}` : '',
+      propertyName: property?.name ?? null,
+      documents: documents.map(({ id, documentType, fileName, uploadedAt }) => ({
+        id,
+        documentType,
+        fileName,
+        uploadedAt,
+      })),
+    };
+
+    return c.json({ success: true, data: invite });
+  } catch (error) {
+    console.error('Error fetching applicant invite:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/public/applicant-invites/:token/documents
+ * Upload one of the invited applicant's own documents
+ *
+ * Multipart form: file, documentType (government_id, paystub, bank_statement,
+ * tax_return, employment_letter or other). Same limits as application uploads.
+ */
+publicRoutes.post('/applicant-invites/:token/documents', async (c: Context) => {
+  try {
+    const applicant = await findOpenInvite(c, c.req.param('token'));
+    if (applicant instanceof Response) return applicant;
+
+    const existing = await getDocumentsByApplicantId(c.env.DB, applicant.id);
+    const document = await uploadApplicantDocument(c, applicant.applicationId, applicant.id, existing.length);
+    if (document instanceof Response) return document;
+
+    return c.json({
+      success: true,
+      data: {
+        id: document.id,
+        documentType: document.documentType,
+        fileName: document.fileName,
+        uploadedAt: document.uploadedAt,
+      },
+    }, 201);
+  } catch (error) {
+    console.error('Error uploading applicant invite document:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/public/applicant-invites/:token/accept
+ * Save the invited applicant's details and close the invite
+ *
+ * Body: {
+ *   firstName: string,
+ *   lastName: string,
+ *   phone?: string,
+ *   dateOfBirth?: string,        // YYYY-MM-DD
+ *   employmentStatus: EmploymentStatus,
+ *   employerName?: string,
+ *   jobTitle?: string,
+ *   monthlyIncome?: number
+ * }
+ *
+ * Recomputes the application's household income and score.
+ */
+publicRoutes.post('/applicant-invites/:token/accept', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const token = c.req.param('token');
+    const applicant = await findOpenInvite(c, token);
+    if (applicant instanceof Response) return applicant;
+
+    const parsed = AcceptApplicantInviteSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Validation error',
+        message: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+      }, 400);
+    }
+
+    // Null when the link expired or was used since it was looked up
+    const accepted = await acceptApplicantInvite(c.env.DB, siteId, token, parsed.data);
+    if (!accepted) {
+      return c.json({ error: 'Gone', message: CLOSED_INVITE_MESSAGES.accepted }, 410);
+    }
+
+    await recalculateHousehold(c.env.DB, siteId, accepted.applicationId);
+    await recordLeadHistory(c.env.DB, siteId, accepted.applicationId, 'applicant_invite_accepted', {
+      applicantId: accepted.id,
+      applicantType: accepted.applicantType,
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error accepting applicant invite:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+// ==================== APPLICATION STATUS ====================
+
+/**
+ * The application a signed status link points at, or the 403/404 response
+ * to send instead. The link's `expires` and `signature` come as query params.
+ */
+async function findStatusLinkApplication(c: Context, applicationId: string): Promise<Lead | Response> {
+  const siteId = c.get('siteId') as string;
+  const secret = c.env.FILE_SIGNING_SECRET;
+  const expires = c.req.query('expires') || '';
+  const signature = c.req.query('signature') || '';
+  if (!secret || !(await verifyApplicationStatusLink(secret, siteId, applicationId, expires, signature))) {
+    return c.json({ error: 'Forbidden', message: 'Invalid or expired link' }, 403);
+  }
+
+  const lead = await getLeadById(c.env.DB, siteId, applicationId);
+  if (!lead || !lead.isActive || lead.propertyId === 'general') {
+    return c.json({ error: 'Not found', message: 'Application not found' }, 404);
+  }
+  return lead;
+}
+
+/**
+ * GET /api/public/applications/:id/status?expires=&signature=
+ * The applicant-facing view of an application, from an emailed status link
+ *
+ * Shows a friendly stage, the documents still needed (the same requirements
+ * as the ops documents checklist) and the applicant's own uploads.
+ */
+publicRoutes.get('/applications/:id/status', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const lead = await findStatusLinkApplication(c, c.req.param('id'));
+    if (lead instanceof Response) return lead;
+
+    const [property, primary, documents] = await Promise.all([
+      getPropertyById(c.env.DB, siteId, lead.propertyId),
+      getPrimaryApplicant(c.env.DB, lead.id),
+      getDocumentsByApplicationId(c.env.DB, lead.id),
+    ]);
+    // What's outstanding follows the ops checklist, across the household.
+    // Co-applicants manage their own uploads from their invite links.
+    const outstanding = getOutstandingDocuments(documents);
+    const ownDocuments = documents.filter((doc) => !doc.applicantId || doc.applicantId === primary?.id);
+
+    const status: ApplicationStatusView = {
+      firstName: lead.firstName,
+      propertyName: property?.name ?? null,
+      submittedAt: lead.createdAt,
+      stage: APPLICANT_STAGE_COPY[lead.status],
+      acceptsDocuments: acceptsApplicantDocuments(lead.status),
+      missingDocumentTypes: outstanding.missingTypes,
+      rejectedDocumentIds: outstanding.rejected
+        .filter((doc) => ownDocuments.includes(doc))
+        .map((doc) => doc.id),
+      documents: ownDocuments.map(({ id, documentType, fileName, uploadedAt, verificationStatus, rejectionReason }) => ({
+        id,
+        documentType,
+        fileName,
+        uploadedAt,
+        verificationStatus,
+        rejectionReason,
+      })),
+      linkExpiresAt: new Date(Number(c.req.query('expires')) * 1000).toISOString(),
+    };
+
+    return c.json({ success: true, data: status });
+  } catch (error) {
+    console.error('Error fetching application status:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/public/applications/:id/status/documents?expires=&signature=
+ * Upload a missing or replacement document from the status page
+ *
+ * Multipart form: file, documentType (government_id, paystub, bank_statement,
+ * tax_return, employment_letter or other). 409 once a decision has been made.
+ */
+publicRoutes.post('/applications/:id/status/documents', async (c: Context) => {
+  try {
+    const siteId = c.get('siteId') as string;
+    const lead = await findStatusLinkApplication(c, c.req.param('id'));
+    if (lead instanceof Response) return lead;
+
+    if (!acceptsApplicantDocuments(lead.status)) {
+      return c.json({
+        error: 'Conflict',
+        message: 'This application is no longer accepting documents',
+      }, 409);
+    }
+
+    const primary = await getPrimaryApplicant(c.env.DB, lead.id);
+    const existing = await getDocumentsByApplicationId(c.env.DB, lead.id);
+    const ownCount = existing.filter((doc) => !doc.applicantId || doc.applicantId === primary?.id).length;
+    const document = await uploadApplicantDocument(c, lead.id, primary?.id ?? null, ownCount);
+    if (document instanceof Response) return document;
+
+    await recordLeadHistory(c.env.DB, siteId, lead.id, 'applicant_document_uploaded', {
+      documentId: document.id,
+      documentType: document.documentType,
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        id: document.id,
+        documentType: document.documentType,
+        fileName: document.fileName,
+        uploadedAt: document.uploadedAt,
+      },
+    }, 201);
+  } catch (error) {
+    console.error('Error uploading application status document:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
 export { publicRoutes };
@@ -0,0 +1,111 @@
+/**
+ * Webhook Routes (/api/webhooks/*)
+ *
+ * Callbacks from third-party providers. Not behind internal or bearer auth:
+ * each provider verifies its own payload signature.
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getSignatureEnvelopeByEnvelopeId } from '../lib/db/lease-signatures';
+import { getESignProvider, applyEnvelopeStatusUpdate } from '../lib/esign';
+import { getScreeningResultByReference } from '../lib/db/screening';
+import { getScreeningProvider, applyScreeningReport } from '../lib/screening';
+
+// Import shared environment types
+import type { CloudflareEnv } from '../../../shared/config';
+
+type Bindings = CloudflareEnv;
+
+const webhookRoutes = new Hono<{ Bindings: Bindings }>();
+
+// ==================== E-SIGNATURE ====================
+
+/**
+ * POST /api/webhooks/esign/:provider
+ * Envelope status callback. Advances the lease from 'pending_signature' to
+ * 'signed' and stores the signed PDF once the envelope completes.
+ */
+webhookRoutes.post('/esign/:provider', async (c: Context) => {
+  try {
+    const providerName = c.req.param('provider');
+    const provider = getESignProvider(c.env);
+    if (provider.name !== providerName) {
+      return c.json({ error: 'Not found', message: `E-signature provider '${providerName}' is not enabled` }, 404);
+    }
+
+    const body = await c.req.text();
+    const update = await provider.parseWebhook(body, c.req.raw.headers);
+    if (!update) {
+      return c.json({ error: 'Unauthorized', message: 'Invalid webhook signature or payload' }, 401);
+    }
+
+    const envelope = await getSignatureEnvelopeByEnvelopeId(c.env.DB, provider.name, update.envelopeId);
+    if (!envelope) {
+      return c.json({ error: 'Not found', message: 'Envelope not found' }, 404);
+    }
+
+    const updated = await applyEnvelopeStatusUpdate(
+      c.env.DB,
+      c.env.PRIVATE_BUCKET,
+      provider,
+      envelope.siteId,
+      envelope,
+      update
+    );
+
+    return c.json({
+      success: true,
+      data: { envelopeId: updated.envelopeId, status: updated.status },
+    });
+  } catch (error) {
+    console.error('Error processing e-signature webhook:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+// ==================== TENANT SCREENING ====================
+
+/**
+ * POST /api/webhooks/screening/:provider
+ * Screening report callback. Updates the stored result and the applicant's
+ * background check status.
+ */
+webhookRoutes.post('/screening/:provider', async (c: Context) => {
+  try {
+    const providerName = c.req.param('provider');
+    const provider = getScreeningProvider(c.env);
+    if (provider.name !== providerName) {
+      return c.json({ error: 'Not found', message: `Screening provider '${providerName}' is not enabled` }, 404);
+    }
+
+    const body = await c.req.text();
+    const report = await provider.parseWebhook(body, c.req.raw.headers);
+    if (!report) {
+      return c.json({ error: 'Unauthorized', message: 'Invalid webhook signature or payload' }, 401);
+    }
+
+    const result = await getScreeningResultByReference(c.env.DB, provider.name, report.referenceId);
+    if (!result) {
+      return c.json({ error: 'Not found', message: 'Screening result not found' }, 404);
+    }
+
+    const updated = await applyScreeningReport(c.env.DB, result.siteId, result, report);
+
+    return c.json({
+      success: true,
+      data: { referenceId: updated.referenceId, status: updated.status },
+    });
+  } catch (error) {
+    console.error('Error processing screening webhook:', error);
+    return c.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export { webhookRoutes };
@@ -6,17 +6,27 @@
  *
  * Architecture:
  * - apps/site → /api/public/* (Bearer token auth)
- * - apps/ops → /api/ops/* (Internal auth)
+ * - apps/site tenant portal → /api/portal/* (tenant session auth)
+ * - apps/ops → /api/ops/* (HMAC-signed requests)
+ * - Provider callbacks → /api/webhooks/* (provider signature)
+ * - Browsers with a signed link → /api/files/* (URL signature)
  * - All D1/R2 operations happen here
  */
 
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { publicRoutes } from './routes/public';
+import { portalRoutes } from './routes/portal';
 import { opsRoutes } from './routes/ops';
+import { webhookRoutes } from './routes/webhooks';
+import { fileRoutes } from './routes/files';
+import { processNoticeReminders } from './lib/db/notices';
+import { processRentCharges } from './lib/db/ledger';
+import { purgeExpiredRequestNonces } from './lib/db/request-nonces';
+import { processDueEmails, processEmailQueueBatch } from './lib/email';
 
 // Import shared environment types from centralized config
-import type { CloudflareEnv } from '../../shared/config';
+import type { CloudflareEnv, EmailQueueMessage } from '../../shared/config';
 
 // Re-export for backward compatibility and convenience
 export type Env = CloudflareEnv;
@@ -30,7 +40,10 @@ const app = new Hono<{ Bindings: Env }>();
 app.use('*', cors({
   origin: '*', // TODO: Restrict to specific origins in production
   allowMethods: ['GET', 'POST', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'X-Site-Id', 'X-User-Id', 'X-Internal-Key'],
+  allowHeaders: [
+    'Content-Type', 'Authorization', 'X-Site-Id', 'X-User-Id', 'X-Internal-Key', 'Idempotency-Key',
+    'X-Signature', 'X-Signature-Timestamp', 'X-Signature-Nonce', 'X-Signature-Key-Id',
+  ],
   exposeHeaders: ['Content-Length'],
   maxAge: 600,
   credentials: true,
@@ -46,7 +59,10 @@ app.get('/', (c) => {
     version: '1.0.0',
     endpoints: {
       public: '/api/public/*',
+      portal: '/api/portal/*',
       ops: '/api/ops/*',
+      webhooks: '/api/webhooks/*',
+      files: '/api/files/*',
     },
   });
 });
@@ -54,9 +70,18 @@ app.get('/', (c) => {
 // Mount public API routes (for apps/site)
 app.route('/api/public', publicRoutes);
 
+// Mount tenant portal routes (for signed-in tenants on apps/site)
+app.route('/api/portal', portalRoutes);
+
 // Mount ops API routes (for apps/ops)
 app.route('/api/ops', opsRoutes);
 
+// Mount provider webhooks (e-signature and screening callbacks)
+app.route('/api/webhooks', webhookRoutes);
+
+// Mount signed private file downloads
+app.route('/api/files', fileRoutes);
+
 // 404 handler
 app.notFound((c) => {
   return c.json({
@@ -74,5 +99,60 @@ app.onError((err, c) => {
   }, 500);
 });
 
+// ==================== SCHEDULED JOBS ====================
+
+// Cron expressions from wrangler.toml
+const DAILY_CRON = '0 11 * * *';
+
+/**
+ * Cron triggers (see wrangler.toml):
+ * - Daily: advance served notices to effective, raise notice deadline
+ *   reminders for the Ops dashboard, and post the monthly rent charges that
+ *   have come due (ledger and report reads never create charges).
+ * - Every 15 minutes: re-queue email stuck in 'sending' by an attempt that
+ *   never finished, attempt queued email that is due (retries, and any
+ *   message the queue did not deliver), and drop signed request nonces
+ *   that are past their timestamp window.
+ */
+async function scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
+  console.log('Cron triggered at:', new Date(event.scheduledTime).toISOString());
+
+  if (event.cron === DAILY_CRON) {
+    ctx.waitUntil(
+      processNoticeReminders(env.DB)
+        .then((result) => console.log('Notice reminders processed:', result))
+        .catch((error) => console.error('Notice reminder processing error:', error))
+    );
+    ctx.waitUntil(
+      processRentCharges(env.DB)
+        .then((created) => console.log('Rent charges generated:', created))
+        .catch((error) => console.error('Rent charge generation error:', error))
+    );
+    return;
+  }
+
+  ctx.waitUntil(
+    processDueEmails(env)
+      .then((result) => console.log('Email queue processed:', result))
+      .catch((error) => console.error('Email queue processing error:', error))
+  );
+  ctx.waitUntil(
+    purgeExpiredRequestNonces(env.DB)
+      .then((purged) => console.log('Expired request nonces purged:', purged))
+      .catch((error) => console.error('Request nonce purge error:', error))
+  );
+}
+
+/**
+ * EMAIL_QUEUE consumer (see wrangler.toml)
+ */
+async function queue(batch: MessageBatch<EmailQueueMessage>, env: Env): Promise<void> {
+  await processEmailQueueBatch(batch, env);
+}
+
 // Export the app as a Cloudflare Worker
-export default app;
+export default {
+  fetch: app.fetch,
+  scheduled,
+  queue,
+};
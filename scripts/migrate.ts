@@ -0,0 +1,94 @@
+/**
+ * Schema Migration Runner
+ *
+ * Applies pending files from scripts/migrations in filename order and records
+ * them in the schema_migrations table, refusing to run if an applied file has
+ * been edited since (checksum drift).
+ *
+ * Usage:
+ * npm run db:migrate -- [target] [options]
+ *
+ * Targets (default: --local-d1):
+ *   --local-d1            Local D1 database used by `wrangler dev` (apps/worker)
+ *   --sqlite <file>       SQLite file (created if missing)
+ *   --postgres <url>      PostgreSQL; defaults to scripts/migrations-postgres
+ *
+ * Options:
+ *   --dir <path>          Migrations directory
+ *   --dry-run             Print pending migrations and their statements only
+ *   --baseline            Record pending migrations as applied without running
+ *                         them (for databases migrated by hand before this)
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { IDatabase } from '../shared/storage-core';
+import { runMigrations, type Migration } from '../shared/storage-core/migrations';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+/**
+ * Read every .sql file in a directory as a migration
+ */
+async function readMigrationFiles(directory: string): Promise<Migration[]> {
+  const files = (await readdir(directory)).filter((file) => file.endsWith('.sql')).sort();
+  return Promise.all(
+    files.map(async (name) => ({ name, sql: await readFile(path.join(directory, name), 'utf8') }))
+  );
+}
+
+function getArg(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function openDatabase(args: string[]): Promise<{ db: IDatabase; dir: string; dispose: () => Promise<void> }> {
+  const sqlitePath = getArg(args, '--sqlite');
+  if (sqlitePath) {
+    const { SQLiteDatabaseAdapter } = await import('../shared/storage-sqlite');
+    const db = new SQLiteDatabaseAdapter(sqlitePath);
+    return { db, dir: 'scripts/migrations', dispose: () => db.close() };
+  }
+
+  const postgresUrl = getArg(args, '--postgres');
+  if (postgresUrl) {
+    const { createDatabase } = await import('../shared/storage-postgres');
+    const db = createDatabase({ provider: 'postgresql', connectionString: postgresUrl });
+    return { db, dir: 'scripts/migrations-postgres', dispose: () => db.close() };
+  }
+
+  // Local D1: the same SQLite file `wrangler dev` uses for apps/worker
+  const { getPlatformProxy } = await import('wrangler');
+  const { D1DatabaseAdapter } = await import('../shared/storage-cloudflare/d1-database');
+  const proxy = await getPlatformProxy<{ DB: D1Database }>({
+    configPath: path.join(ROOT, 'apps/worker/wrangler.toml'),
+    persist: { path: path.join(ROOT, 'apps/worker/.wrangler/state/v3') },
+  });
+  return { db: new D1DatabaseAdapter(proxy.env.DB), dir: 'scripts/migrations', dispose: () => proxy.dispose() };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const { db, dir, dispose } = await openDatabase(args);
+
+  try {
+    const directory = path.resolve(ROOT, getArg(args, '--dir') ?? dir);
+    const result = await runMigrations(db, await readMigrationFiles(directory), {
+      dryRun: args.includes('--dry-run'),
+      baseline: args.includes('--baseline'),
+      log: (line) => console.log(line),
+    });
+
+    if (!result.dryRun && result.applied.length > 0) {
+      console.log(`\n${result.applied.length} migration(s) ${args.includes('--baseline') ? 'recorded' : 'applied'}`);
+    }
+  } finally {
+    await dispose();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,863 @@
+-- Migration: PostgreSQL baseline schema
+-- Created: 2026-10-19
+-- Feature: PostgreSQL provider for self-hosted deployments
+--
+-- Equivalent to applying scripts/migrations 0000 through 0022 on D1/SQLite.
+-- Column types are kept as in SQLite so the worker's queries run unchanged
+-- through PostgresDatabaseAdapter: timestamps are TEXT, flags are INTEGER
+-- 0/1, REAL becomes DOUBLE PRECISION, and datetime('now') defaults use
+-- to_char() in SQLite's 'YYYY-MM-DD HH:MM:SS' format.
+--
+-- New D1 migrations need a matching file here (0023_*.sql, ...).
+
+CREATE TABLE IF NOT EXISTS ai_evaluation_jobs (
+  id TEXT PRIMARY KEY,
+  lead_id TEXT NOT NULL,
+  site_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  requested_by TEXT NOT NULL,
+  requested_at TEXT NOT NULL,
+  started_at TEXT,
+  completed_at TEXT,
+  evaluation_id TEXT,
+  error_code TEXT,
+  error_message TEXT,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  max_retries INTEGER NOT NULL DEFAULT 3,
+  model_version TEXT NOT NULL DEFAULT '@cf/meta/llama-3.2-11b-vision-instruct',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_lead_id ON ai_evaluation_jobs(lead_id);
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_lead_status ON ai_evaluation_jobs(lead_id, status);
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_requested_at ON ai_evaluation_jobs(requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_site_id ON ai_evaluation_jobs(site_id);
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_status ON ai_evaluation_jobs(status);
+
+CREATE TABLE IF NOT EXISTS ai_evaluation_usage (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL,
+  month TEXT NOT NULL,
+  evaluation_count INTEGER NOT NULL DEFAULT 0,
+  quota_limit INTEGER NOT NULL DEFAULT 20,
+  tier TEXT NOT NULL DEFAULT 'free',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE(site_id, month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_site_month ON ai_evaluation_usage(site_id, month);
+
+CREATE TABLE IF NOT EXISTS application_applicants (
+  id TEXT PRIMARY KEY,
+  application_id TEXT NOT NULL,
+  applicant_type TEXT NOT NULL CHECK(applicant_type IN ('primary', 'co_applicant', 'guarantor')),
+
+  -- Personal info
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  date_of_birth TEXT,
+
+  -- Employment
+  employment_status TEXT CHECK(employment_status IN ('employed', 'self_employed', 'unemployed', 'retired', 'student')),
+  employer_name TEXT,
+  job_title TEXT,
+  monthly_income DOUBLE PRECISION,
+
+  -- AI Evaluation
+  ai_score DOUBLE PRECISION,
+  ai_label TEXT CHECK(ai_label IN ('A', 'B', 'C', 'D')),
+  ai_risk_flags TEXT, -- JSON array
+  ai_evaluated_at TEXT,
+
+  -- Background check
+  background_check_status TEXT CHECK(background_check_status IN ('pending', 'in_progress', 'completed', 'failed')),
+  background_check_provider TEXT,
+  background_check_reference_id TEXT,
+  background_check_completed_at TEXT,
+
+  -- Invite system (for async co-applicant submission)
+  invite_token TEXT UNIQUE,
+  invite_sent_at TEXT,
+  invite_accepted_at TEXT,
+
+  -- Metadata
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  created_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_applicants_application_id ON application_applicants(application_id);
+CREATE INDEX IF NOT EXISTS idx_application_applicants_email ON application_applicants(email);
+CREATE INDEX IF NOT EXISTS idx_application_applicants_invite_token ON application_applicants(invite_token);
+CREATE INDEX IF NOT EXISTS idx_application_applicants_type ON application_applicants(application_id, applicant_type);
+
+CREATE TABLE IF NOT EXISTS application_documents (
+  id TEXT PRIMARY KEY,
+  application_id TEXT NOT NULL,
+  applicant_id TEXT, -- NULL for household-level docs
+
+  -- Document metadata
+  document_type TEXT NOT NULL CHECK(document_type IN (
+    'government_id', 'paystub', 'bank_statement', 'tax_return',
+    'employment_letter', 'credit_report', 'background_check', 'other'
+  )),
+  file_name TEXT NOT NULL,
+  file_size INTEGER,
+  mime_type TEXT,
+
+  -- Storage
+  storage_key TEXT NOT NULL, -- R2 object key
+  storage_url TEXT,
+
+  -- Status
+  verification_status TEXT CHECK(verification_status IN ('pending', 'verified', 'rejected', 'expired')),
+  verified_by TEXT,
+  verified_at TEXT,
+  rejection_reason TEXT,
+
+  -- Metadata
+  uploaded_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  uploaded_by TEXT,
+  expires_at TEXT -- For time-sensitive documents
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_documents_applicant_id ON application_documents(applicant_id);
+CREATE INDEX IF NOT EXISTS idx_application_documents_application_id ON application_documents(application_id);
+CREATE INDEX IF NOT EXISTS idx_application_documents_storage_key ON application_documents(storage_key);
+CREATE INDEX IF NOT EXISTS idx_application_documents_type ON application_documents(document_type);
+
+CREATE TABLE IF NOT EXISTS application_internal_notes (
+  id TEXT PRIMARY KEY,
+  application_id TEXT NOT NULL,
+  applicant_id TEXT, -- NULL for household-level notes
+
+  -- Note content
+  note_text TEXT NOT NULL,
+  note_category TEXT CHECK(note_category IN ('general', 'documents', 'ai_screening', 'background_check', 'decision', 'lease_prep')),
+
+  -- Tags
+  tagged_applicants TEXT, -- JSON array of applicant IDs
+  priority TEXT CHECK(priority IN ('low', 'medium', 'high', 'urgent')),
+
+  -- Visibility
+  is_sensitive INTEGER DEFAULT 0,
+  visible_to_roles TEXT, -- JSON array: ['admin', 'property_manager']
+
+  -- Metadata
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  created_by TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_internal_notes_application_id ON application_internal_notes(application_id);
+CREATE INDEX IF NOT EXISTS idx_internal_notes_category ON application_internal_notes(note_category);
+CREATE INDEX IF NOT EXISTS idx_internal_notes_created_at ON application_internal_notes(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS application_stage_transitions (
+  id TEXT PRIMARY KEY,
+  application_id TEXT NOT NULL,
+
+  -- Stage change
+  from_stage TEXT NOT NULL,
+  to_stage TEXT NOT NULL,
+  transition_type TEXT NOT NULL CHECK(transition_type IN ('manual', 'automatic', 'system')),
+
+  -- Confirmation metadata
+  confirmation_acknowledged INTEGER DEFAULT 0,
+  bypass_reason TEXT, -- For AI screening bypass, missing docs override
+  bypass_category TEXT CHECK(bypass_category IN ('ai_offline', 'manual_override', 'emergency', 'other')),
+
+  -- Checklist state at time of transition (JSON)
+  checklist_snapshot TEXT, -- JSON: { "documents": {...}, "ai_screening": {...} }
+
+  -- Notes
+  internal_notes TEXT,
+
+  -- Metadata
+  transitioned_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  transitioned_by TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_stage_transitions_application_id ON application_stage_transitions(application_id);
+CREATE INDEX IF NOT EXISTS idx_stage_transitions_from_to ON application_stage_transitions(application_id, from_stage, to_stage);
+CREATE INDEX IF NOT EXISTS idx_stage_transitions_transitioned_at ON application_stage_transitions(transitioned_at);
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id TEXT PRIMARY KEY,
+  site_id TEXT,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  performed_by TEXT,
+  changes TEXT,
+  bulk_action_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor
+  ON audit_log(site_id, performed_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_bulk_action
+  ON audit_log(bulk_action_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity
+  ON audit_log(site_id, entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_site_created
+  ON audit_log(site_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS bulk_actions (
+  id TEXT PRIMARY KEY,
+  performed_by TEXT NOT NULL,
+  action_type TEXT NOT NULL, -- 'reject', 'move_to_stage', 'archive', 'send_email'
+  application_count INTEGER NOT NULL,
+  success_count INTEGER NOT NULL DEFAULT 0,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  params TEXT, -- JSON parameters
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_bulk_actions_created
+  ON bulk_actions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bulk_actions_user
+  ON bulk_actions(performed_by, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS communications (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  entity_type TEXT NOT NULL CHECK(entity_type IN ('application', 'tenant', 'work_order')),
+  entity_id TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'email' CHECK(channel IN ('email')),
+  template_key TEXT,                       -- Built-in template used, NULL for free-form
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,                      -- Rendered plain-text body
+  status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT,                    -- NULL once sent or permanently failed
+  last_error TEXT,
+  idempotency_key TEXT,                    -- Caller-supplied; repeats return the original row
+  provider TEXT,                           -- e.g. 'memory'; set on delivery
+  provider_message_id TEXT,
+  sent_at TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_communications_due ON communications(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_communications_entity ON communications(site_id, entity_type, entity_id, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_communications_idempotency ON communications(site_id, idempotency_key);
+
+CREATE TABLE IF NOT EXISTS images (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  r2_key TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  sort_order INTEGER DEFAULT 0,
+  is_cover INTEGER DEFAULT 0,
+  alt_text TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  UNIQUE(entity_type, entity_id, r2_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_images_cover ON images(entity_type, entity_id, is_cover);
+CREATE INDEX IF NOT EXISTS idx_images_entity ON images(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_images_site ON images(site_id);
+
+CREATE TABLE IF NOT EXISTS intake_form_versions (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  version INTEGER NOT NULL CHECK(version > 0),
+  schema_json TEXT NOT NULL,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  UNIQUE(site_id, version)
+);
+
+
+CREATE TABLE IF NOT EXISTS lead_ai_evaluations (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  lead_id TEXT NOT NULL UNIQUE,
+  score INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  risk_flags TEXT DEFAULT '[]',
+  recommendation TEXT NOT NULL,
+  fraud_signals TEXT DEFAULT '[]',
+  model_version TEXT NOT NULL,
+  evaluated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_ai_evaluations_site ON lead_ai_evaluations(site_id);
+
+CREATE TABLE IF NOT EXISTS lead_files (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  lead_id TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  mime_type TEXT NOT NULL,
+  r2_key TEXT NOT NULL,
+  uploaded_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_files_lead ON lead_files(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_files_site ON lead_files(site_id);
+
+CREATE TABLE IF NOT EXISTS lead_history (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL,
+  lead_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  event_data TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_history_lead_id ON lead_history(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_history_site_id ON lead_history(site_id);
+
+CREATE TABLE IF NOT EXISTS leads (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  property_id TEXT NOT NULL,
+  unit_id TEXT,
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  current_address TEXT,
+  employment_status TEXT NOT NULL DEFAULT 'employed',
+  monthly_income INTEGER,
+  move_in_date TEXT NOT NULL,
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'new',
+  ai_score INTEGER,
+  ai_label TEXT,
+  landlord_note TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  primary_applicant_id TEXT,
+  shortlisted_at TEXT,
+  shortlisted_by TEXT,
+  decision_deadline TEXT,
+  household_monthly_income DOUBLE PRECISION,
+  household_ai_score DOUBLE PRECISION,
+  applicant_count INTEGER DEFAULT 1,
+  intake_form_version INTEGER,
+  intake_answers_json TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_leads_active ON leads(site_id, is_active);
+CREATE INDEX IF NOT EXISTS idx_leads_active_unit_created
+  ON leads(is_active, unit_id, created_at DESC)
+  WHERE is_active = 1;
+CREATE INDEX IF NOT EXISTS idx_leads_ai_score ON leads(site_id, ai_score DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_created_at ON leads(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_email ON leads(email);
+CREATE INDEX IF NOT EXISTS idx_leads_household_score ON leads(household_ai_score DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_primary_applicant ON leads(primary_applicant_id);
+CREATE INDEX IF NOT EXISTS idx_leads_property_id ON leads(property_id);
+CREATE INDEX IF NOT EXISTS idx_leads_property_shortlist ON leads(property_id, shortlisted_at) WHERE shortlisted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_property_unit_created
+  ON leads(property_id, unit_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_shortlisted_at ON leads(shortlisted_at);
+CREATE INDEX IF NOT EXISTS idx_leads_site_id ON leads(site_id);
+CREATE INDEX IF NOT EXISTS idx_leads_site_unit_status
+  ON leads(site_id, unit_id, status);
+CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);
+CREATE INDEX IF NOT EXISTS idx_leads_unit_ai_score
+  ON leads(unit_id, ai_score DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_unit_id ON leads(unit_id);
+CREATE INDEX IF NOT EXISTS idx_leads_unit_status_created
+  ON leads(unit_id, status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS lease_files (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  lease_id TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  mime_type TEXT NOT NULL,
+  r2_key TEXT NOT NULL,
+  uploaded_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lease_files_lease ON lease_files(lease_id);
+CREATE INDEX IF NOT EXISTS idx_lease_files_site ON lease_files(site_id);
+CREATE INDEX IF NOT EXISTS idx_lease_files_type ON lease_files(file_type);
+
+CREATE TABLE IF NOT EXISTS lease_ledger_entries (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  lease_id TEXT NOT NULL,
+  entry_type TEXT NOT NULL CHECK(entry_type IN ('charge', 'payment', 'credit', 'adjustment')),
+  category TEXT NOT NULL DEFAULT 'other', -- 'rent', 'deposit', 'late_fee', 'utility', 'other'
+  amount DOUBLE PRECISION NOT NULL,
+  description TEXT,
+  effective_date TEXT NOT NULL, -- YYYY-MM-DD (due date for charges, received date for payments)
+  period TEXT, -- YYYY-MM for auto-generated monthly rent charges
+  payment_method TEXT, -- 'cash', 'cheque', 'e_transfer', 'pad', 'card', 'other'
+  reference TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lease_ledger_entries_lease
+  ON lease_ledger_entries(site_id, lease_id, effective_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lease_ledger_entries_rent_period
+  ON lease_ledger_entries(lease_id, period)
+  WHERE period IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_lease_ledger_entries_type
+  ON lease_ledger_entries(site_id, entry_type, effective_date);
+
+CREATE TABLE IF NOT EXISTS lease_onboarding_checklists (
+  id TEXT PRIMARY KEY,
+  lease_id TEXT NOT NULL UNIQUE,
+  steps TEXT NOT NULL,
+  total_steps INTEGER NOT NULL DEFAULT 7,
+  completed_steps INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lease_onboarding_checklists_lease_id
+  ON lease_onboarding_checklists(lease_id);
+
+CREATE TABLE IF NOT EXISTS lease_signature_envelopes (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  lease_id TEXT NOT NULL,
+  provider TEXT NOT NULL,                  -- e.g. 'stub', 'docusign'
+  envelope_id TEXT NOT NULL,               -- Provider's envelope ID
+  status TEXT NOT NULL DEFAULT 'sent' CHECK(status IN ('created', 'sent', 'delivered', 'signed', 'completed', 'declined', 'voided')),
+  signers_json TEXT NOT NULL DEFAULT '[]', -- [{ email, name, status, signedAt? }]
+  sent_at TEXT NOT NULL,
+  expires_at TEXT,
+  completed_at TEXT,
+  signed_file_id TEXT,                     -- lease_files row holding the signed PDF
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lease_signature_envelopes_envelope ON lease_signature_envelopes(provider, envelope_id);
+CREATE INDEX IF NOT EXISTS idx_lease_signature_envelopes_lease ON lease_signature_envelopes(site_id, lease_id);
+
+CREATE TABLE IF NOT EXISTS leases (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  property_id TEXT NOT NULL,
+  unit_id TEXT,
+  tenant_id TEXT NOT NULL,
+  start_date TEXT NOT NULL,
+  end_date TEXT NOT NULL,
+  monthly_rent DOUBLE PRECISION NOT NULL,
+  security_deposit DOUBLE PRECISION NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft',
+  docusign_envelope_id TEXT,
+  signed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  onboarding_status TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_leases_onboarding_status
+  ON leases(onboarding_status)
+  WHERE onboarding_status IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_leases_property ON leases(property_id);
+CREATE INDEX IF NOT EXISTS idx_leases_site ON leases(site_id);
+CREATE INDEX IF NOT EXISTS idx_leases_status ON leases(status);
+CREATE INDEX IF NOT EXISTS idx_leases_tenant ON leases(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_leases_unit ON leases(unit_id);
+
+CREATE TABLE IF NOT EXISTS migration_history (
+  id INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  migration_name TEXT UNIQUE NOT NULL,
+  applied_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+
+CREATE TABLE IF NOT EXISTS notice_events (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  notice_id TEXT NOT NULL,
+  type TEXT NOT NULL,                      -- created | served | voided | became_effective | completed | reminder | reminder_acknowledged
+  payload_json TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_notice_events_notice ON notice_events(notice_id, created_at);
+
+CREATE TABLE IF NOT EXISTS properties (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  address TEXT NOT NULL,
+  city TEXT NOT NULL,
+  province TEXT NOT NULL,
+  postal_code TEXT NOT NULL,
+  property_type TEXT NOT NULL DEFAULT 'single_family',
+  description TEXT,
+  year_built INTEGER,
+  amenities TEXT DEFAULT '[]',
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_properties_active ON properties(is_active);
+CREATE INDEX IF NOT EXISTS idx_properties_city ON properties(city);
+CREATE INDEX IF NOT EXISTS idx_properties_site_id ON properties(site_id);
+CREATE INDEX IF NOT EXISTS idx_properties_slug ON properties(slug);
+CREATE INDEX IF NOT EXISTS idx_properties_type ON properties(property_type);
+
+CREATE TABLE IF NOT EXISTS request_nonces (
+  nonce TEXT PRIMARY KEY,
+  key_id TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_nonces_expires ON request_nonces(expires_at);
+
+CREATE TABLE IF NOT EXISTS screening_results (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  lead_id TEXT NOT NULL,
+  applicant_id TEXT,
+  provider TEXT NOT NULL,                  -- e.g. 'stub', 'certn', 'singlekey'
+  reference_id TEXT NOT NULL,              -- Provider's order/report ID
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'in_progress', 'completed', 'failed')),
+  credit_score INTEGER,
+  criminal_check TEXT CHECK(criminal_check IN ('clear', 'flagged')),
+  eviction_history TEXT CHECK(eviction_history IN ('clear', 'flagged')),
+  identity_verified INTEGER,               -- 0/1, NULL until reported
+  report_json TEXT,                        -- Raw provider report
+  requested_by TEXT,
+  requested_at TEXT NOT NULL,
+  completed_at TEXT,
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_screening_results_applicant ON screening_results(applicant_id);
+CREATE INDEX IF NOT EXISTS idx_screening_results_lead ON screening_results(site_id, lead_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_screening_results_reference ON screening_results(provider, reference_id);
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+
+CREATE TABLE IF NOT EXISTS site_api_tokens (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_at TEXT NOT NULL,
+  last_used_at TEXT,
+  expires_at TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_api_tokens_site_id ON site_api_tokens(site_id);
+CREATE INDEX IF NOT EXISTS idx_site_api_tokens_token_hash ON site_api_tokens(token_hash);
+
+CREATE TABLE IF NOT EXISTS sites (
+  site_id TEXT PRIMARY KEY DEFAULT (substr(md5(random()::text), 1, 12)),
+  name TEXT NOT NULL,
+  domain TEXT,
+  settings TEXT DEFAULT '{}',
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sites_active ON sites(is_active);
+CREATE INDEX IF NOT EXISTS idx_sites_domain ON sites(domain);
+
+CREATE TABLE IF NOT EXISTS staged_files (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  file_type TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  mime_type TEXT NOT NULL,
+  r2_key TEXT NOT NULL,
+  uploaded_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  expires_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC' + interval '24 hours', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_staged_files_expires_at ON staged_files(expires_at);
+CREATE INDEX IF NOT EXISTS idx_staged_files_site_id ON staged_files(site_id);
+
+CREATE TABLE IF NOT EXISTS tenant_notices (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  tenant_id TEXT NOT NULL,
+  lease_id TEXT,
+  property_id TEXT,
+  unit_id TEXT,
+  type TEXT NOT NULL CHECK(type IN ('n1', 'n4', 'n11')),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK(status IN ('draft', 'served', 'void', 'effective', 'completed')),
+  served_on TEXT,                          -- Date the notice was given (YYYY-MM-DD)
+  service_method TEXT,                     -- hand | mail | courier | email | mail_slot
+  effective_on TEXT,                       -- Rent increase date (N1) or termination date (N4/N11)
+  details_json TEXT NOT NULL DEFAULT '{}', -- Type-specific fields (rent amounts, arrears, signatures)
+  reminder_schedule_json TEXT NOT NULL DEFAULT '[30,7,1]', -- Days before effective_on to remind
+  next_reminder_on TEXT,
+  reminder_due_at TEXT,                    -- Set by the scheduled job, cleared when acknowledged
+  document_id TEXT,
+  notes TEXT,
+  void_reason TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_notices_effective ON tenant_notices(site_id, status, effective_on);
+CREATE INDEX IF NOT EXISTS idx_tenant_notices_reminder ON tenant_notices(status, next_reminder_on);
+CREATE INDEX IF NOT EXISTS idx_tenant_notices_tenant ON tenant_notices(site_id, tenant_id);
+
+CREATE TABLE IF NOT EXISTS tenant_portal_tokens (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  tenant_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK(kind IN ('login', 'session')),
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  last_used_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_portal_tokens_tenant ON tenant_portal_tokens(site_id, tenant_id);
+
+CREATE TABLE IF NOT EXISTS tenants (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  lead_id TEXT UNIQUE,
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  emergency_contact TEXT,
+  emergency_phone TEXT,
+  status TEXT NOT NULL DEFAULT 'active',
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenants_site ON tenants(site_id);
+CREATE INDEX IF NOT EXISTS idx_tenants_status ON tenants(status);
+
+CREATE TABLE IF NOT EXISTS theme_configurations (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL,
+  theme_preset TEXT NOT NULL DEFAULT 'professional',
+  brand_name TEXT,
+  brand_logo_url TEXT,
+  brand_favicon_url TEXT,
+  custom_primary_hsl TEXT,
+  custom_secondary_hsl TEXT,
+  custom_accent_hsl TEXT,
+  font_family TEXT DEFAULT 'Inter',
+  enable_dark_mode INTEGER DEFAULT 1,
+  default_mode TEXT DEFAULT 'dark',
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  UNIQUE(site_id)
+);
+
+
+CREATE TABLE IF NOT EXISTS unit_history (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  unit_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  event_data TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_unit_history_site ON unit_history(site_id);
+CREATE INDEX IF NOT EXISTS idx_unit_history_type ON unit_history(event_type);
+CREATE INDEX IF NOT EXISTS idx_unit_history_unit ON unit_history(unit_id);
+
+CREATE TABLE IF NOT EXISTS units (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  property_id TEXT NOT NULL,
+  unit_number TEXT NOT NULL,
+  name TEXT,
+  bedrooms INTEGER NOT NULL DEFAULT 1,
+  bathrooms DOUBLE PRECISION NOT NULL DEFAULT 1,
+  sqft INTEGER,
+  rent_amount DOUBLE PRECISION NOT NULL,
+  deposit_amount DOUBLE PRECISION,
+  status TEXT NOT NULL DEFAULT 'available',
+  floor INTEGER,
+  features TEXT DEFAULT '[]',
+  available_date TEXT,
+  current_tenant_id TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_units_active ON units(is_active);
+CREATE INDEX IF NOT EXISTS idx_units_property ON units(property_id);
+CREATE INDEX IF NOT EXISTS idx_units_site ON units(site_id);
+CREATE INDEX IF NOT EXISTS idx_units_status ON units(status);
+CREATE INDEX IF NOT EXISTS idx_units_tenant ON units(current_tenant_id);
+
+CREATE TABLE IF NOT EXISTS user_access (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  granted_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  granted_by TEXT,
+  role TEXT NOT NULL DEFAULT 'viewer',
+  UNIQUE(user_id, site_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_access_site ON user_access(site_id);
+CREATE INDEX IF NOT EXISTS idx_user_access_user ON user_access(user_id);
+
+CREATE TABLE IF NOT EXISTS user_property_access (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  user_id TEXT NOT NULL,
+  property_id TEXT NOT NULL,
+  granted_by TEXT,
+  granted_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  UNIQUE(user_id, property_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_property_access_property ON user_property_access(property_id);
+CREATE INDEX IF NOT EXISTS idx_user_property_access_user ON user_property_access(site_id, user_id);
+
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  email TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'staff',
+  is_super_admin INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  last_login_at TEXT,
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+CREATE INDEX IF NOT EXISTS idx_users_site ON users(site_id);
+CREATE INDEX IF NOT EXISTS idx_users_updated_at ON users(updated_at);
+
+CREATE TABLE IF NOT EXISTS work_order_attachments (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  work_order_id TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  mime_type TEXT NOT NULL,
+  r2_key TEXT NOT NULL,
+  uploaded_by_tenant_id TEXT,
+  uploaded_by_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_attachments_work_order ON work_order_attachments(site_id, work_order_id);
+
+CREATE TABLE IF NOT EXISTS work_orders (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  property_id TEXT NOT NULL,
+  tenant_id TEXT,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  category TEXT NOT NULL,
+  priority TEXT NOT NULL DEFAULT 'medium',
+  status TEXT NOT NULL DEFAULT 'open',
+  assigned_to TEXT,
+  scheduled_date TEXT,
+  completed_at TEXT,
+  notes TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_priority ON work_orders(priority);
+CREATE INDEX IF NOT EXISTS idx_work_orders_property ON work_orders(property_id);
+CREATE INDEX IF NOT EXISTS idx_work_orders_site ON work_orders(site_id);
+CREATE INDEX IF NOT EXISTS idx_work_orders_status ON work_orders(status);
+
+-- Foreign keys are added last: tenants, leads and application_applicants reference each other
+ALTER TABLE ai_evaluation_jobs ADD CONSTRAINT fk_ai_evaluation_jobs_evaluation_id FOREIGN KEY (evaluation_id) REFERENCES lead_ai_evaluations(id);
+ALTER TABLE ai_evaluation_jobs ADD CONSTRAINT fk_ai_evaluation_jobs_lead_id FOREIGN KEY (lead_id) REFERENCES leads(id);
+ALTER TABLE application_applicants ADD CONSTRAINT fk_application_applicants_created_by FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE application_applicants ADD CONSTRAINT fk_application_applicants_application_id FOREIGN KEY (application_id) REFERENCES leads(id) ON DELETE CASCADE;
+ALTER TABLE application_documents ADD CONSTRAINT fk_application_documents_verified_by FOREIGN KEY (verified_by) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE application_documents ADD CONSTRAINT fk_application_documents_uploaded_by FOREIGN KEY (uploaded_by) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE application_documents ADD CONSTRAINT fk_application_documents_applicant_id FOREIGN KEY (applicant_id) REFERENCES application_applicants(id) ON DELETE CASCADE;
+ALTER TABLE application_documents ADD CONSTRAINT fk_application_documents_application_id FOREIGN KEY (application_id) REFERENCES leads(id) ON DELETE CASCADE;
+ALTER TABLE application_internal_notes ADD CONSTRAINT fk_application_internal_notes_created_by FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE application_internal_notes ADD CONSTRAINT fk_application_internal_notes_applicant_id FOREIGN KEY (applicant_id) REFERENCES application_applicants(id) ON DELETE CASCADE;
+ALTER TABLE application_internal_notes ADD CONSTRAINT fk_application_internal_notes_application_id FOREIGN KEY (application_id) REFERENCES leads(id) ON DELETE CASCADE;
+ALTER TABLE application_stage_transitions ADD CONSTRAINT fk_application_stage_transitions_transitioned_by FOREIGN KEY (transitioned_by) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE application_stage_transitions ADD CONSTRAINT fk_application_stage_transitions_application_id FOREIGN KEY (application_id) REFERENCES leads(id) ON DELETE CASCADE;
+ALTER TABLE bulk_actions ADD CONSTRAINT fk_bulk_actions_performed_by FOREIGN KEY (performed_by) REFERENCES users(id);
+ALTER TABLE communications ADD CONSTRAINT fk_communications_created_by FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE lead_ai_evaluations ADD CONSTRAINT fk_lead_ai_evaluations_lead_id FOREIGN KEY (lead_id) REFERENCES leads(id);
+ALTER TABLE lead_files ADD CONSTRAINT fk_lead_files_lead_id FOREIGN KEY (lead_id) REFERENCES leads(id);
+ALTER TABLE lead_history ADD CONSTRAINT fk_lead_history_lead_id FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE;
+ALTER TABLE leads ADD CONSTRAINT fk_leads_unit_id FOREIGN KEY (unit_id) REFERENCES units(id);
+ALTER TABLE leads ADD CONSTRAINT fk_leads_property_id FOREIGN KEY (property_id) REFERENCES properties(id);
+ALTER TABLE leads ADD CONSTRAINT fk_leads_shortlisted_by FOREIGN KEY (shortlisted_by) REFERENCES users(id);
+ALTER TABLE leads ADD CONSTRAINT fk_leads_primary_applicant_id FOREIGN KEY (primary_applicant_id) REFERENCES application_applicants(id);
+ALTER TABLE lease_files ADD CONSTRAINT fk_lease_files_lease_id FOREIGN KEY (lease_id) REFERENCES leases(id) ON DELETE CASCADE;
+ALTER TABLE lease_ledger_entries ADD CONSTRAINT fk_lease_ledger_entries_created_by FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE lease_ledger_entries ADD CONSTRAINT fk_lease_ledger_entries_lease_id FOREIGN KEY (lease_id) REFERENCES leases(id) ON DELETE CASCADE;
+ALTER TABLE lease_onboarding_checklists ADD CONSTRAINT fk_lease_onboarding_checklists_lease_id FOREIGN KEY (lease_id) REFERENCES leases(id) ON DELETE CASCADE;
+ALTER TABLE lease_signature_envelopes ADD CONSTRAINT fk_lease_signature_envelopes_signed_file_id FOREIGN KEY (signed_file_id) REFERENCES lease_files(id) ON DELETE SET NULL;
+ALTER TABLE lease_signature_envelopes ADD CONSTRAINT fk_lease_signature_envelopes_lease_id FOREIGN KEY (lease_id) REFERENCES leases(id) ON DELETE CASCADE;
+ALTER TABLE leases ADD CONSTRAINT fk_leases_tenant_id FOREIGN KEY (tenant_id) REFERENCES tenants(id);
+ALTER TABLE leases ADD CONSTRAINT fk_leases_property_id FOREIGN KEY (property_id) REFERENCES properties(id);
+ALTER TABLE leases ADD CONSTRAINT fk_leases_unit_id FOREIGN KEY (unit_id) REFERENCES units(id);
+ALTER TABLE notice_events ADD CONSTRAINT fk_notice_events_notice_id FOREIGN KEY (notice_id) REFERENCES tenant_notices(id) ON DELETE CASCADE;
+ALTER TABLE screening_results ADD CONSTRAINT fk_screening_results_requested_by FOREIGN KEY (requested_by) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE screening_results ADD CONSTRAINT fk_screening_results_applicant_id FOREIGN KEY (applicant_id) REFERENCES application_applicants(id) ON DELETE SET NULL;
+ALTER TABLE screening_results ADD CONSTRAINT fk_screening_results_lead_id FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE;
+ALTER TABLE sessions ADD CONSTRAINT fk_sessions_user_id FOREIGN KEY (user_id) REFERENCES users(id);
+ALTER TABLE tenant_notices ADD CONSTRAINT fk_tenant_notices_created_by FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE tenant_notices ADD CONSTRAINT fk_tenant_notices_lease_id FOREIGN KEY (lease_id) REFERENCES leases(id) ON DELETE SET NULL;
+ALTER TABLE tenant_notices ADD CONSTRAINT fk_tenant_notices_tenant_id FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE;
+ALTER TABLE tenant_portal_tokens ADD CONSTRAINT fk_tenant_portal_tokens_tenant_id FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE;
+ALTER TABLE tenants ADD CONSTRAINT fk_tenants_lead_id FOREIGN KEY (lead_id) REFERENCES leads(id);
+ALTER TABLE unit_history ADD CONSTRAINT fk_unit_history_unit_id FOREIGN KEY (unit_id) REFERENCES units(id) ON DELETE CASCADE;
+ALTER TABLE units ADD CONSTRAINT fk_units_current_tenant_id FOREIGN KEY (current_tenant_id) REFERENCES tenants(id) ON DELETE SET NULL;
+ALTER TABLE units ADD CONSTRAINT fk_units_property_id FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE;
+ALTER TABLE user_access ADD CONSTRAINT fk_user_access_user_id FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE user_property_access ADD CONSTRAINT fk_user_property_access_property_id FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE;
+ALTER TABLE user_property_access ADD CONSTRAINT fk_user_property_access_user_id FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE work_order_attachments ADD CONSTRAINT fk_work_order_attachments_work_order_id FOREIGN KEY (work_order_id) REFERENCES work_orders(id) ON DELETE CASCADE;
+ALTER TABLE work_orders ADD CONSTRAINT fk_work_orders_tenant_id FOREIGN KEY (tenant_id) REFERENCES tenants(id);
+ALTER TABLE work_orders ADD CONSTRAINT fk_work_orders_property_id FOREIGN KEY (property_id) REFERENCES properties(id);
@@ -0,0 +1,229 @@
+-- Migration: Full-text search index for ops global search
+-- Created: 2026-10-19
+-- Feature: Search properties, units, applicants, tenants and work orders from one box
+--
+-- PostgreSQL counterpart of scripts/migrations/0023_search_index.sql. The
+-- documents and the text indexed for each record are the same; instead of an
+-- FTS5 table, search_documents carries a generated tsvector with a GIN index.
+-- The 'simple' configuration is used so names are matched as typed, without
+-- English stemming.
+
+CREATE TABLE IF NOT EXISTS search_documents (
+  id BIGSERIAL PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('property', 'unit', 'lead', 'tenant', 'work_order')),
+  entity_id TEXT NOT NULL,
+  site_id TEXT NOT NULL,
+  property_id TEXT,
+  title TEXT NOT NULL,
+  subtitle TEXT,
+  body TEXT,
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(subtitle, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(body, '')), 'C')
+  ) STORED,
+  UNIQUE (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_documents_property ON search_documents(property_id);
+CREATE INDEX IF NOT EXISTS idx_search_documents_vector ON search_documents USING GIN (search_vector);
+
+-- The text indexed for each record. Tenants are indexed with the property
+-- and unit of their current lease, so "chen 302" finds the tenant in unit 302.
+CREATE OR REPLACE VIEW search_sources AS
+SELECT
+  'property'::TEXT AS entity_type,
+  p.id AS entity_id,
+  p.site_id,
+  p.id AS property_id,
+  p.name AS title,
+  p.address || ', ' || p.city AS subtitle,
+  coalesce(p.province, '') || ' ' || coalesce(p.postal_code, '') AS body
+FROM properties p
+UNION ALL
+SELECT
+  'unit',
+  u.id,
+  u.site_id,
+  u.property_id,
+  'Unit ' || u.unit_number,
+  p.name,
+  coalesce(u.name, '')
+FROM units u
+LEFT JOIN properties p ON p.id = u.property_id
+UNION ALL
+SELECT
+  'lead',
+  l.id,
+  l.site_id,
+  l.property_id,
+  l.first_name || ' ' || l.last_name,
+  l.email,
+  coalesce(l.phone, '') || ' ' || coalesce(p.name, '') || ' ' || coalesce(u.unit_number, '')
+FROM leads l
+LEFT JOIN properties p ON p.id = l.property_id
+LEFT JOIN units u ON u.id = l.unit_id
+UNION ALL
+SELECT
+  'tenant',
+  t.id,
+  t.site_id,
+  cl.property_id,
+  t.first_name || ' ' || t.last_name,
+  t.email,
+  coalesce(t.phone, '') || ' ' || coalesce(p.name, '') || ' ' || coalesce(u.unit_number, '')
+FROM tenants t
+LEFT JOIN leases cl ON cl.id = (
+  SELECT id FROM leases
+  WHERE tenant_id = t.id AND status IN ('active', 'signed')
+  ORDER BY start_date DESC
+  LIMIT 1
+)
+LEFT JOIN properties p ON p.id = cl.property_id
+LEFT JOIN units u ON u.id = cl.unit_id
+UNION ALL
+SELECT
+  'work_order',
+  w.id,
+  w.site_id,
+  w.property_id,
+  w.title,
+  p.name,
+  coalesce(w.description, '') || ' ' || coalesce(t.first_name || ' ' || t.last_name, '')
+FROM work_orders w
+LEFT JOIN properties p ON p.id = w.property_id
+LEFT JOIN tenants t ON t.id = w.tenant_id;
+
+-- Re-index the given records of one type from search_sources
+CREATE OR REPLACE FUNCTION refresh_search_documents(doc_type TEXT, doc_ids TEXT[]) RETURNS void AS $$
+BEGIN
+  DELETE FROM search_documents WHERE entity_type = doc_type AND entity_id = ANY(doc_ids);
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT s.entity_type, s.entity_id, s.site_id, s.property_id, s.title, s.subtitle, s.body
+  FROM search_sources s
+  WHERE s.entity_type = doc_type AND s.entity_id = ANY(doc_ids);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Re-index every record shown with a property's name or unit numbers
+CREATE OR REPLACE FUNCTION refresh_property_search_documents(doc_property_ids TEXT[]) RETURNS void AS $$
+BEGIN
+  DELETE FROM search_documents WHERE property_id = ANY(doc_property_ids);
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT s.entity_type, s.entity_id, s.site_id, s.property_id, s.title, s.subtitle, s.body
+  FROM search_sources s
+  WHERE s.property_id = ANY(doc_property_ids);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_properties_sync() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM search_documents WHERE entity_type = 'property' AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+  PERFORM refresh_property_search_documents(ARRAY[NEW.id]);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_units_sync() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM search_documents WHERE entity_type = 'unit' AND entity_id = OLD.id;
+    RETURN OLD;
+  ELSIF TG_OP = 'INSERT' THEN
+    PERFORM refresh_search_documents('unit', ARRAY[NEW.id]);
+  ELSE
+    PERFORM refresh_property_search_documents(ARRAY[OLD.property_id, NEW.property_id]);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_leads_sync() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM search_documents WHERE entity_type = 'lead' AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+  PERFORM refresh_search_documents('lead', ARRAY[NEW.id]);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_tenants_sync() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM search_documents WHERE entity_type = 'tenant' AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+  PERFORM refresh_search_documents('tenant', ARRAY[NEW.id]);
+  IF TG_OP = 'UPDATE' THEN
+    -- Work orders are indexed with the tenant's name
+    PERFORM refresh_search_documents('work_order', ARRAY(SELECT id FROM work_orders WHERE tenant_id = NEW.id));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_leases_sync() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM refresh_search_documents('tenant', ARRAY[NEW.tenant_id]);
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM refresh_search_documents('tenant', ARRAY[OLD.tenant_id]);
+    RETURN OLD;
+  END IF;
+  PERFORM refresh_search_documents('tenant', ARRAY[OLD.tenant_id, NEW.tenant_id]);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_work_orders_sync() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM search_documents WHERE entity_type = 'work_order' AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+  PERFORM refresh_search_documents('work_order', ARRAY[NEW.id]);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS search_properties_sync ON properties;
+CREATE TRIGGER search_properties_sync
+AFTER INSERT OR DELETE OR UPDATE OF site_id, name, address, city, province, postal_code ON properties
+FOR EACH ROW EXECUTE FUNCTION search_properties_sync();
+
+DROP TRIGGER IF EXISTS search_units_sync ON units;
+CREATE TRIGGER search_units_sync
+AFTER INSERT OR DELETE OR UPDATE OF site_id, property_id, unit_number, name ON units
+FOR EACH ROW EXECUTE FUNCTION search_units_sync();
+
+DROP TRIGGER IF EXISTS search_leads_sync ON leads;
+CREATE TRIGGER search_leads_sync
+AFTER INSERT OR DELETE OR UPDATE OF site_id, property_id, unit_id, first_name, last_name, email, phone ON leads
+FOR EACH ROW EXECUTE FUNCTION search_leads_sync();
+
+DROP TRIGGER IF EXISTS search_tenants_sync ON tenants;
+CREATE TRIGGER search_tenants_sync
+AFTER INSERT OR DELETE OR UPDATE OF site_id, first_name, last_name, email, phone ON tenants
+FOR EACH ROW EXECUTE FUNCTION search_tenants_sync();
+
+DROP TRIGGER IF EXISTS search_leases_sync ON leases;
+CREATE TRIGGER search_leases_sync
+AFTER INSERT OR DELETE OR UPDATE OF tenant_id, property_id, unit_id, status, start_date ON leases
+FOR EACH ROW EXECUTE FUNCTION search_leases_sync();
+
+DROP TRIGGER IF EXISTS search_work_orders_sync ON work_orders;
+CREATE TRIGGER search_work_orders_sync
+AFTER INSERT OR DELETE OR UPDATE OF site_id, property_id, tenant_id, title, description ON work_orders
+FOR EACH ROW EXECUTE FUNCTION search_work_orders_sync();
+
+-- Index the records that already exist
+INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+FROM search_sources
+ON CONFLICT (entity_type, entity_id) DO NOTHING;
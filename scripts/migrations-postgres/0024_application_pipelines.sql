@@ -0,0 +1,17 @@
+-- Migration: Per-site application pipeline stages
+-- Created: 2026-10-19
+-- Feature: Sites order their own application stages, each placed in a lead status
+--
+-- PostgreSQL counterpart of scripts/migrations/0024_application_pipelines.sql.
+
+CREATE TABLE IF NOT EXISTS application_pipelines (
+  site_id TEXT PRIMARY KEY,
+  stages_json TEXT NOT NULL,
+  updated_by TEXT,
+  updated_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS'))
+);
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS pipeline_stage TEXT;
+
+ALTER TABLE application_stage_transitions ADD COLUMN IF NOT EXISTS from_pipeline_stage TEXT;
+ALTER TABLE application_stage_transitions ADD COLUMN IF NOT EXISTS to_pipeline_stage TEXT;
@@ -0,0 +1,7 @@
+-- Migration: Co-applicant and guarantor invite expiry
+-- Created: 2026-10-19
+-- Feature: Invited co-applicants and guarantors complete their own details on the storefront
+--
+-- PostgreSQL counterpart of scripts/migrations/0025_applicant_invite_expiry.sql.
+
+ALTER TABLE application_applicants ADD COLUMN IF NOT EXISTS invite_token_expires_at TEXT;
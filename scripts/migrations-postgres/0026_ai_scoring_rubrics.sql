@@ -0,0 +1,17 @@
+-- Migration: Per-site AI scoring rubrics
+-- Created: 2026-10-19
+-- Feature: Sites tune how AI evaluations are scored, labelled and recommended
+--
+-- PostgreSQL counterpart of scripts/migrations/0026_ai_scoring_rubrics.sql.
+
+CREATE TABLE IF NOT EXISTS ai_scoring_rubric_versions (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  version INTEGER NOT NULL CHECK(version > 0),
+  rubric_json TEXT NOT NULL,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS')),
+  UNIQUE(site_id, version)
+);
+
+ALTER TABLE lead_ai_evaluations ADD COLUMN IF NOT EXISTS rubric_version INTEGER;
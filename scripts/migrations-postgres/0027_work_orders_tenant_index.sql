@@ -0,0 +1,7 @@
+-- Migration: Index work orders by tenant
+-- Created: 2026-10-19
+-- Feature: Tenant lookups on work orders (tenant pages, search index refresh)
+--
+-- PostgreSQL counterpart of scripts/migrations/0027_work_orders_tenant_index.sql.
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_tenant ON work_orders(tenant_id);
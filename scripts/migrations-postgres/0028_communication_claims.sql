@@ -0,0 +1,7 @@
+-- Migration: Record when an email delivery attempt was claimed
+-- Created: 2026-10-19
+-- Feature: Outbound email queue recovers attempts that never finished
+--
+-- PostgreSQL counterpart of scripts/migrations/0028_communication_claims.sql.
+
+ALTER TABLE communications ADD COLUMN IF NOT EXISTS claimed_at TEXT;
@@ -0,0 +1,35 @@
+-- Migration: Add per-lease rent ledger
+-- Created: 2026-10-19
+-- Feature: Rent ledger and payment recording
+
+-- Ledger entries for a lease. Amounts are stored as positive numbers for
+-- charges, payments and credits; adjustments carry their own sign
+-- (positive increases the balance owed, negative reduces it).
+CREATE TABLE IF NOT EXISTS lease_ledger_entries (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  lease_id TEXT NOT NULL,
+  entry_type TEXT NOT NULL CHECK(entry_type IN ('charge', 'payment', 'credit', 'adjustment')),
+  category TEXT NOT NULL DEFAULT 'other', -- 'rent', 'deposit', 'late_fee', 'utility', 'other'
+  amount REAL NOT NULL,
+  description TEXT,
+  effective_date TEXT NOT NULL, -- YYYY-MM-DD (due date for charges, received date for payments)
+  period TEXT, -- YYYY-MM for auto-generated monthly rent charges
+  payment_method TEXT, -- 'cash', 'cheque', 'e_transfer', 'pad', 'card', 'other'
+  reference TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (lease_id) REFERENCES leases(id) ON DELETE CASCADE,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lease_ledger_entries_lease
+  ON lease_ledger_entries(site_id, lease_id, effective_date);
+
+CREATE INDEX IF NOT EXISTS idx_lease_ledger_entries_type
+  ON lease_ledger_entries(site_id, entry_type, effective_date);
+
+-- Guarantees monthly rent generation is idempotent: one rent charge per lease per period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lease_ledger_entries_rent_period
+  ON lease_ledger_entries(lease_id, period)
+  WHERE period IS NOT NULL;
@@ -0,0 +1,49 @@
+-- Migration: Add tenant notices (Ontario N1 / N4 / N11)
+-- Created: 2026-10-19
+-- Feature: Notice lifecycle tracking with deadline reminders
+
+-- Notice records with lifecycle status and key dates
+CREATE TABLE IF NOT EXISTS tenant_notices (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  tenant_id TEXT NOT NULL,
+  lease_id TEXT,
+  property_id TEXT,
+  unit_id TEXT,
+  type TEXT NOT NULL CHECK(type IN ('n1', 'n4', 'n11')),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK(status IN ('draft', 'served', 'void', 'effective', 'completed')),
+  served_on TEXT,                          -- Date the notice was given (YYYY-MM-DD)
+  service_method TEXT,                     -- hand | mail | courier | email | mail_slot
+  effective_on TEXT,                       -- Rent increase date (N1) or termination date (N4/N11)
+  details_json TEXT NOT NULL DEFAULT '{}', -- Type-specific fields (rent amounts, arrears, signatures)
+  reminder_schedule_json TEXT NOT NULL DEFAULT '[30,7,1]', -- Days before effective_on to remind
+  next_reminder_on TEXT,
+  reminder_due_at TEXT,                    -- Set by the scheduled job, cleared when acknowledged
+  document_id TEXT,
+  notes TEXT,
+  void_reason TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE,
+  FOREIGN KEY (lease_id) REFERENCES leases(id) ON DELETE SET NULL,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_notices_tenant ON tenant_notices(site_id, tenant_id);
+CREATE INDEX IF NOT EXISTS idx_tenant_notices_effective ON tenant_notices(site_id, status, effective_on);
+CREATE INDEX IF NOT EXISTS idx_tenant_notices_reminder ON tenant_notices(status, next_reminder_on);
+
+-- Lifecycle history for each notice
+CREATE TABLE IF NOT EXISTS notice_events (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  notice_id TEXT NOT NULL,
+  type TEXT NOT NULL,                      -- created | served | voided | became_effective | completed | reminder | reminder_acknowledged
+  payload_json TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (notice_id) REFERENCES tenant_notices(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notice_events_notice ON notice_events(notice_id, created_at);
@@ -0,0 +1,25 @@
+-- Migration: Add lease signature envelopes
+-- Created: 2026-10-19
+-- Feature: E-signature envelopes and signer state per lease
+
+-- One row per envelope sent to the e-signature provider
+CREATE TABLE IF NOT EXISTS lease_signature_envelopes (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  lease_id TEXT NOT NULL,
+  provider TEXT NOT NULL,                  -- e.g. 'stub', 'docusign'
+  envelope_id TEXT NOT NULL,               -- Provider's envelope ID
+  status TEXT NOT NULL DEFAULT 'sent' CHECK(status IN ('created', 'sent', 'delivered', 'signed', 'completed', 'declined', 'voided')),
+  signers_json TEXT NOT NULL DEFAULT '[]', -- [{ email, name, status, signedAt? }]
+  sent_at TEXT NOT NULL,
+  expires_at TEXT,
+  completed_at TEXT,
+  signed_file_id TEXT,                     -- lease_files row holding the signed PDF
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (lease_id) REFERENCES leases(id) ON DELETE CASCADE,
+  FOREIGN KEY (signed_file_id) REFERENCES lease_files(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lease_signature_envelopes_lease ON lease_signature_envelopes(site_id, lease_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lease_signature_envelopes_envelope ON lease_signature_envelopes(provider, envelope_id);
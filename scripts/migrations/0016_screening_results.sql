@@ -0,0 +1,31 @@
+-- Migration: Add screening results
+-- Created: 2026-10-19
+-- Feature: Tenant screening reports per applicant (Certn / SingleKey via provider adapters)
+
+-- One row per screening order; the applicant's background_check_* columns
+-- mirror the latest result so stage checks can read them directly
+CREATE TABLE IF NOT EXISTS screening_results (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  lead_id TEXT NOT NULL,
+  applicant_id TEXT,
+  provider TEXT NOT NULL,                  -- e.g. 'stub', 'certn', 'singlekey'
+  reference_id TEXT NOT NULL,              -- Provider's order/report ID
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'in_progress', 'completed', 'failed')),
+  credit_score INTEGER,
+  criminal_check TEXT CHECK(criminal_check IN ('clear', 'flagged')),
+  eviction_history TEXT CHECK(eviction_history IN ('clear', 'flagged')),
+  identity_verified INTEGER,               -- 0/1, NULL until reported
+  report_json TEXT,                        -- Raw provider report
+  requested_by TEXT,
+  requested_at TEXT NOT NULL,
+  completed_at TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE,
+  FOREIGN KEY (applicant_id) REFERENCES application_applicants(id) ON DELETE SET NULL,
+  FOREIGN KEY (requested_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_screening_results_lead ON screening_results(site_id, lead_id);
+CREATE INDEX IF NOT EXISTS idx_screening_results_applicant ON screening_results(applicant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_screening_results_reference ON screening_results(provider, reference_id);
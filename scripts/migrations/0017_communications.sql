@@ -0,0 +1,34 @@
+-- Migration: Add communications log
+-- Created: 2026-10-19
+-- Feature: Outbound email queue and per-entity communication history
+
+-- One row per outbound message. The row doubles as the delivery queue entry:
+-- 'queued' rows with a due next_attempt_at are picked up by the sender.
+CREATE TABLE IF NOT EXISTS communications (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  entity_type TEXT NOT NULL CHECK(entity_type IN ('application', 'tenant', 'work_order')),
+  entity_id TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'email' CHECK(channel IN ('email')),
+  template_key TEXT,                       -- Built-in template used, NULL for free-form
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,                      -- Rendered plain-text body
+  status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT,                    -- NULL once sent or permanently failed
+  last_error TEXT,
+  idempotency_key TEXT,                    -- Caller-supplied; repeats return the original row
+  provider TEXT,                           -- e.g. 'memory'; set on delivery
+  provider_message_id TEXT,
+  sent_at TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_communications_entity ON communications(site_id, entity_type, entity_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_communications_due ON communications(status, next_attempt_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_communications_idempotency ON communications(site_id, idempotency_key);
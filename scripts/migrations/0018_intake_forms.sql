@@ -0,0 +1,19 @@
+-- Migration: Add per-site intake form schemas
+-- Created: 2026-10-19
+-- Feature: Configurable application intake form per site
+
+-- Every save inserts a new version; rows are never updated so leads can always
+-- be read against the exact form the applicant filled in.
+CREATE TABLE IF NOT EXISTS intake_form_versions (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  version INTEGER NOT NULL CHECK(version > 0),
+  schema_json TEXT NOT NULL,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(site_id, version)
+);
+
+-- Answers to custom questions, stored alongside the lead
+ALTER TABLE leads ADD COLUMN intake_form_version INTEGER;
+ALTER TABLE leads ADD COLUMN intake_answers_json TEXT;
@@ -0,0 +1,35 @@
+-- Migration: Add tenant portal tokens and work order attachments
+-- Created: 2026-10-19
+-- Feature: Tenant self-service portal on the storefront
+
+-- Magic-link login tokens and the portal sessions they are exchanged for.
+-- Only a hash of each token is stored.
+CREATE TABLE IF NOT EXISTS tenant_portal_tokens (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK(kind IN ('login', 'session')),
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  last_used_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_portal_tokens_tenant ON tenant_portal_tokens(site_id, tenant_id);
+
+-- Photos attached to a work order (tenants attach them when reporting an issue)
+CREATE TABLE IF NOT EXISTS work_order_attachments (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  work_order_id TEXT NOT NULL REFERENCES work_orders(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  mime_type TEXT NOT NULL,
+  r2_key TEXT NOT NULL,
+  uploaded_by_tenant_id TEXT,
+  uploaded_by_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_attachments_work_order ON work_order_attachments(site_id, work_order_id);
@@ -0,0 +1,31 @@
+-- Migration: Owner / property manager roles and per-property access grants
+-- Created: 2026-10-19
+-- Feature: Role-based access control scoped to properties
+--
+-- Not idempotent: ALTER TABLE ADD COLUMN fails if user_access.role already exists.
+
+-- Roles: owner, property_manager, maintenance, viewer.
+-- Former admins become property managers; anything unrecognised drops to viewer.
+UPDATE users SET role = 'property_manager' WHERE role IN ('admin', 'manager');
+UPDATE users SET role = 'viewer' WHERE role NOT IN ('owner', 'property_manager', 'maintenance', 'viewer');
+
+-- Role a user holds on a site other than their primary one
+ALTER TABLE user_access ADD COLUMN role TEXT NOT NULL DEFAULT 'viewer';
+
+-- Existing cross-site grants were full access
+UPDATE user_access SET role = 'property_manager';
+
+-- Limits a user to specific properties within a site. Owners only see
+-- properties granted here; other roles are limited once they have a grant.
+CREATE TABLE IF NOT EXISTS user_property_access (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  property_id TEXT NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  granted_by TEXT,
+  granted_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(user_id, property_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_property_access_user ON user_property_access(site_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_user_property_access_property ON user_property_access(property_id);
@@ -0,0 +1,15 @@
+-- Migration: Nonces of signed ops → worker requests
+-- Created: 2026-10-19
+-- Feature: Signed service-to-service calls with replay protection
+
+-- One row per accepted state-changing request. A nonce that is already
+-- present is a replay. Rows only need to outlive the signature timestamp
+-- window; the 15-minute cron deletes them after expires_at.
+CREATE TABLE IF NOT EXISTS request_nonces (
+  nonce TEXT PRIMARY KEY,
+  key_id TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_nonces_expires ON request_nonces(expires_at);
@@ -0,0 +1,35 @@
+-- Migration: Site-scoped audit log for all entity mutations
+-- Created: 2026-10-19
+-- Feature: Unified audit log with an ops activity viewer
+--
+-- Rebuilds audit_log to add site_id and to let performed_by be empty (system
+-- changes) and outlive the user it names; SQLite cannot drop the old foreign
+-- key in place. Existing rows keep a NULL site_id.
+
+CREATE TABLE audit_log_new (
+  id TEXT PRIMARY KEY,
+  site_id TEXT,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  performed_by TEXT,
+  changes TEXT,
+  bulk_action_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+INSERT INTO audit_log_new (id, site_id, entity_type, entity_id, action, performed_by, changes, bulk_action_id, created_at)
+SELECT id, NULL, entity_type, entity_id, action, performed_by, changes, bulk_action_id, created_at
+FROM audit_log;
+
+DROP TABLE audit_log;
+ALTER TABLE audit_log_new RENAME TO audit_log;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_bulk_action
+  ON audit_log(bulk_action_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity
+  ON audit_log(site_id, entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor
+  ON audit_log(site_id, performed_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_site_created
+  ON audit_log(site_id, created_at DESC);
@@ -0,0 +1,243 @@
+-- Migration: Full-text search index for ops global search
+-- Created: 2026-10-19
+-- Feature: Search properties, units, applicants, tenants and work orders from one box
+--
+-- search_documents holds one row per searchable record (title, subtitle and
+-- body text plus the site and property it belongs to); search_index is an
+-- FTS5 index over it. Triggers on the source tables keep both up to date, so
+-- every write path is covered without application code.
+--
+-- Note: `wrangler d1 export` does not support virtual tables. Drop
+-- search_index before exporting; afterwards recreate it (the CREATE VIRTUAL
+-- TABLE below) and run: INSERT INTO search_index (search_index) VALUES ('rebuild');
+
+CREATE TABLE IF NOT EXISTS search_documents (
+  id INTEGER PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('property', 'unit', 'lead', 'tenant', 'work_order')),
+  entity_id TEXT NOT NULL,
+  site_id TEXT NOT NULL,
+  property_id TEXT,
+  title TEXT NOT NULL,
+  subtitle TEXT,
+  body TEXT,
+  UNIQUE (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_documents_property ON search_documents(property_id);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  title,
+  subtitle,
+  body,
+  content = 'search_documents',
+  content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+-- Keep the FTS index in step with search_documents
+CREATE TRIGGER IF NOT EXISTS search_documents_insert AFTER INSERT ON search_documents BEGIN
+  INSERT INTO search_index (rowid, title, subtitle, body) VALUES (NEW.id, NEW.title, NEW.subtitle, NEW.body);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_documents_delete AFTER DELETE ON search_documents BEGIN
+  INSERT INTO search_index (search_index, rowid, title, subtitle, body) VALUES ('delete', OLD.id, OLD.title, OLD.subtitle, OLD.body);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_documents_update AFTER UPDATE ON search_documents BEGIN
+  INSERT INTO search_index (search_index, rowid, title, subtitle, body) VALUES ('delete', OLD.id, OLD.title, OLD.subtitle, OLD.body);
+  INSERT INTO search_index (rowid, title, subtitle, body) VALUES (NEW.id, NEW.title, NEW.subtitle, NEW.body);
+END;
+
+-- The text indexed for each record. Tenants are indexed with the property
+-- and unit of their current lease, so "chen 302" finds the tenant in unit 302.
+CREATE VIEW IF NOT EXISTS search_sources AS
+SELECT
+  'property' AS entity_type,
+  p.id AS entity_id,
+  p.site_id,
+  p.id AS property_id,
+  p.name AS title,
+  p.address || ', ' || p.city AS subtitle,
+  COALESCE(p.province, '') || ' ' || COALESCE(p.postal_code, '') AS body
+FROM properties p
+UNION ALL
+SELECT
+  'unit',
+  u.id,
+  u.site_id,
+  u.property_id,
+  'Unit ' || u.unit_number,
+  p.name,
+  COALESCE(u.name, '')
+FROM units u
+LEFT JOIN properties p ON p.id = u.property_id
+UNION ALL
+SELECT
+  'lead',
+  l.id,
+  l.site_id,
+  l.property_id,
+  l.first_name || ' ' || l.last_name,
+  l.email,
+  COALESCE(l.phone, '') || ' ' || COALESCE(p.name, '') || ' ' || COALESCE(u.unit_number, '')
+FROM leads l
+LEFT JOIN properties p ON p.id = l.property_id
+LEFT JOIN units u ON u.id = l.unit_id
+UNION ALL
+SELECT
+  'tenant',
+  t.id,
+  t.site_id,
+  cl.property_id,
+  t.first_name || ' ' || t.last_name,
+  t.email,
+  COALESCE(t.phone, '') || ' ' || COALESCE(p.name, '') || ' ' || COALESCE(u.unit_number, '')
+FROM tenants t
+LEFT JOIN leases cl ON cl.id = (
+  SELECT id FROM leases
+  WHERE tenant_id = t.id AND status IN ('active', 'signed')
+  ORDER BY start_date DESC
+  LIMIT 1
+)
+LEFT JOIN properties p ON p.id = cl.property_id
+LEFT JOIN units u ON u.id = cl.unit_id
+UNION ALL
+SELECT
+  'work_order',
+  w.id,
+  w.site_id,
+  w.property_id,
+  w.title,
+  p.name,
+  COALESCE(w.description, '') || ' ' || COALESCE(t.first_name || ' ' || t.last_name, '')
+FROM work_orders w
+LEFT JOIN properties p ON p.id = w.property_id
+LEFT JOIN tenants t ON t.id = w.tenant_id;
+
+-- Properties: a rename or move is shown on every record of the property
+CREATE TRIGGER IF NOT EXISTS search_properties_insert AFTER INSERT ON properties BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE entity_type = 'property' AND entity_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_properties_update
+AFTER UPDATE OF site_id, name, address, city, province, postal_code ON properties BEGIN
+  DELETE FROM search_documents WHERE property_id = OLD.id;
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE property_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_properties_delete AFTER DELETE ON properties BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'property' AND entity_id = OLD.id;
+END;
+
+-- Units: leads and tenants are indexed with their unit number
+CREATE TRIGGER IF NOT EXISTS search_units_insert AFTER INSERT ON units BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE entity_type = 'unit' AND entity_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_units_update
+AFTER UPDATE OF site_id, property_id, unit_number, name ON units BEGIN
+  DELETE FROM search_documents WHERE property_id IN (OLD.property_id, NEW.property_id) AND entity_type <> 'property';
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE property_id IN (OLD.property_id, NEW.property_id) AND entity_type <> 'property';
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_units_delete AFTER DELETE ON units BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'unit' AND entity_id = OLD.id;
+END;
+
+-- Leads (applicants)
+CREATE TRIGGER IF NOT EXISTS search_leads_insert AFTER INSERT ON leads BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE entity_type = 'lead' AND entity_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_leads_update
+AFTER UPDATE OF site_id, property_id, unit_id, first_name, last_name, email, phone ON leads BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'lead' AND entity_id = OLD.id;
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE entity_type = 'lead' AND entity_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_leads_delete AFTER DELETE ON leads BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'lead' AND entity_id = OLD.id;
+END;
+
+-- Tenants: work orders are indexed with the tenant's name
+CREATE TRIGGER IF NOT EXISTS search_tenants_insert AFTER INSERT ON tenants BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE entity_type = 'tenant' AND entity_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_tenants_update
+AFTER UPDATE OF site_id, first_name, last_name, email, phone ON tenants BEGIN
+  DELETE FROM search_documents
+  WHERE (entity_type = 'tenant' AND entity_id = OLD.id)
+     OR (entity_type = 'work_order' AND entity_id IN (SELECT id FROM work_orders WHERE tenant_id = OLD.id));
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources
+  WHERE (entity_type = 'tenant' AND entity_id = NEW.id)
+     OR (entity_type = 'work_order' AND entity_id IN (SELECT id FROM work_orders WHERE tenant_id = NEW.id));
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_tenants_delete AFTER DELETE ON tenants BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'tenant' AND entity_id = OLD.id;
+END;
+
+-- Leases: a tenant is indexed with the property and unit of their current lease
+CREATE TRIGGER IF NOT EXISTS search_leases_insert AFTER INSERT ON leases BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'tenant' AND entity_id = NEW.tenant_id;
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE entity_type = 'tenant' AND entity_id = NEW.tenant_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_leases_update
+AFTER UPDATE OF tenant_id, property_id, unit_id, status, start_date ON leases BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'tenant' AND entity_id IN (OLD.tenant_id, NEW.tenant_id);
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE entity_type = 'tenant' AND entity_id IN (OLD.tenant_id, NEW.tenant_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_leases_delete AFTER DELETE ON leases BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'tenant' AND entity_id = OLD.tenant_id;
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE entity_type = 'tenant' AND entity_id = OLD.tenant_id;
+END;
+
+-- Work orders
+CREATE TRIGGER IF NOT EXISTS search_work_orders_insert AFTER INSERT ON work_orders BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE entity_type = 'work_order' AND entity_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_work_orders_update
+AFTER UPDATE OF site_id, property_id, tenant_id, title, description ON work_orders BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'work_order' AND entity_id = OLD.id;
+  INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+  SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+  FROM search_sources WHERE entity_type = 'work_order' AND entity_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_work_orders_delete AFTER DELETE ON work_orders BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'work_order' AND entity_id = OLD.id;
+END;
+
+-- Index the records that already exist
+INSERT INTO search_documents (entity_type, entity_id, site_id, property_id, title, subtitle, body)
+SELECT entity_type, entity_id, site_id, property_id, title, subtitle, body
+FROM search_sources;
@@ -0,0 +1,19 @@
+-- Migration: Per-site application pipeline stages
+-- Created: 2026-10-19
+-- Feature: Sites order their own application stages, each placed in a lead status
+--
+-- One row per site; sites without a row use the built-in pipeline (one stage
+-- per status). leads.pipeline_stage is the lead's stage within its status;
+-- NULL means the status's first stage.
+
+CREATE TABLE IF NOT EXISTS application_pipelines (
+  site_id TEXT PRIMARY KEY,
+  stages_json TEXT NOT NULL,
+  updated_by TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+ALTER TABLE leads ADD COLUMN pipeline_stage TEXT;
+
+ALTER TABLE application_stage_transitions ADD COLUMN from_pipeline_stage TEXT;
+ALTER TABLE application_stage_transitions ADD COLUMN to_pipeline_stage TEXT;
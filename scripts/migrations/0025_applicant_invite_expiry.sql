@@ -0,0 +1,9 @@
+-- Migration: Co-applicant and guarantor invite expiry
+-- Created: 2026-10-19
+-- Feature: Invited co-applicants and guarantors complete their own details on the storefront
+--
+-- An invite link works until invite_token_expires_at and only until the
+-- applicant accepts (invite_accepted_at). Invites issued before this
+-- migration have no expiry and must be re-sent.
+
+ALTER TABLE application_applicants ADD COLUMN invite_token_expires_at TEXT;
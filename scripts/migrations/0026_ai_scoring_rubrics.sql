@@ -0,0 +1,20 @@
+-- Migration: Per-site AI scoring rubrics
+-- Created: 2026-10-19
+-- Feature: Sites tune how AI evaluations are scored, labelled and recommended
+--
+-- Every save inserts a new version; rows are never updated so an evaluation
+-- can always be explained against the rubric that scored it. Sites without a
+-- row use the built-in rubric (version 0).
+
+CREATE TABLE IF NOT EXISTS ai_scoring_rubric_versions (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  version INTEGER NOT NULL CHECK(version > 0),
+  rubric_json TEXT NOT NULL,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(site_id, version)
+);
+
+-- NULL for evaluations recorded before rubrics or posted by an external evaluator
+ALTER TABLE lead_ai_evaluations ADD COLUMN rubric_version INTEGER;
@@ -0,0 +1,8 @@
+-- Migration: Index work orders by tenant
+-- Created: 2026-10-19
+-- Feature: Tenant lookups on work orders (tenant pages, search index refresh)
+--
+-- Renaming a tenant re-indexes their work orders for search (see the
+-- tenants triggers in 0023_search_index.sql), which looks them up by tenant_id.
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_tenant ON work_orders(tenant_id);
@@ -0,0 +1,10 @@
+-- Migration: Record when an email delivery attempt was claimed
+-- Created: 2026-10-19
+-- Feature: Outbound email queue recovers attempts that never finished
+--
+-- A delivery attempt moves its row to 'sending'. If the worker dies before
+-- recording the outcome, the cron sweep re-queues rows that have been
+-- 'sending' since before the timeout, going by claimed_at. Rows already
+-- 'sending' when this runs have no claimed_at and are re-queued too.
+
+ALTER TABLE communications ADD COLUMN claimed_at TEXT;
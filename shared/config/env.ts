@@ -64,7 +64,8 @@ export interface EnvVars {
   ENVIRONMENT: string;
 
   /**
-   * Internal authentication key for worker-to-ops communication
+   * Keys for signing ops-to-worker requests, "id:secret" entries separated by
+   * commas. Ops signs with the first; the worker accepts any of them.
    */
   WORKER_INTERNAL_KEY?: string;
 
@@ -77,13 +78,81 @@ export interface EnvVars {
    * Worker URL for API calls from ops
    */
   WORKER_URL: string;
+
+  /**
+   * E-signature provider name (default: 'stub')
+   */
+  ESIGN_PROVIDER?: string;
+
+  /**
+   * Shared secret used to verify e-signature webhook payloads
+   */
+  ESIGN_WEBHOOK_SECRET?: string;
+
+  /**
+   * Tenant screening provider name (default: 'stub')
+   */
+  SCREENING_PROVIDER?: string;
+
+  /**
+   * Shared secret used to verify screening webhook payloads
+   */
+  SCREENING_WEBHOOK_SECRET?: string;
+
+  /**
+   * Secret used to sign short-lived private file download URLs and
+   * applicant status page links
+   */
+  FILE_SIGNING_SECRET?: string;
+
+  /**
+   * Outbound email provider name: 'resend', or 'memory' for local development
+   * and tests. Sending fails while it is unset
+   */
+  EMAIL_PROVIDER?: string;
+
+  /**
+   * API key for the email provider (Resend)
+   */
+  EMAIL_API_KEY?: string;
+
+  /**
+   * From address for outbound email, e.g. "LeaseLab <no-reply@example.com>"
+   */
+  EMAIL_FROM?: string;
+
+  /**
+   * Storefront base URL used in emailed links, e.g. "https://{siteId}.example.com".
+   * "{siteId}" is replaced with the site's ID. Without it, invites and status links are not emailed.
+   */
+  STOREFRONT_URL?: string;
+}
+
+/**
+ * Cloudflare Queue Bindings
+ */
+export interface QueueBindings {
+  /**
+   * Outbound email delivery queue (optional)
+   * Queue name: leaselab-email
+   * Without it, messages are delivered inline and retried by the cron sweep
+   */
+  EMAIL_QUEUE?: Queue<EmailQueueMessage>;
+}
+
+/**
+ * Body of a message on EMAIL_QUEUE; the communications row holds the content
+ */
+export interface EmailQueueMessage {
+  siteId: string;
+  communicationId: string;
 }
 
 /**
  * Complete Cloudflare Environment
  * This is the full environment available in Cloudflare Workers/Pages
  */
-export interface CloudflareEnv extends D1Bindings, R2Bindings, EnvVars {}
+export interface CloudflareEnv extends D1Bindings, R2Bindings, QueueBindings, EnvVars {}
 
 /**
  * Ops App Environment (no D1, only R2 for file uploads)
@@ -71,7 +71,7 @@ export const WorkOrderStatusEnum = z.enum([
   'completed',
   'cancelled',
 ]);
-export const UserRoleEnum = z.enum(['admin', 'manager', 'staff']);
+export const UserRoleEnum = z.enum(['owner', 'property_manager', 'maintenance', 'viewer']);
 
 // API Route Definitions
 export const API_ROUTES = {
@@ -140,17 +140,16 @@ export const API_ROUTES = {
 // Zod Schemas for API DTOs
 
 // Lead Submission Schema (from storefront)
-export const LeadSubmissionSchema = z.object({
-  propertyId: z.string().min(1),
-  firstName: z.string().min(1).max(100),
-  lastName: z.string().min(1).max(100),
-  email: z.string().email(),
-  phone: z.string().min(10).max(20),
-  currentAddress: z.string().optional(),
-  employmentStatus: EmploymentStatusEnum,
-  moveInDate: z.string().regex(/\d{4}-\d{2}-\d{2}/),
-  message: z.string().max(1000).optional(),
-});
+// Applicant answers are top-level keys validated against the site's intake form
+// (see validateIntakeAnswers in shared/utils); this covers the envelope.
+export const LeadSubmissionSchema = z
+  .object({
+    propertyId: z.string().min(1),
+    unitId: z.string().optional(),
+    intakeFormVersion: z.number().int().min(0).optional(),
+    fileIds: z.array(z.string()).optional(),
+  })
+  .passthrough();
 
 export type LeadSubmissionInput = z.infer<typeof LeadSubmissionSchema>;
 
@@ -334,6 +333,247 @@ export const CreateLeaseSchema = z.object({
 
 export type CreateLeaseInput = z.infer<typeof CreateLeaseSchema>;
 
+// Lease Ledger Schema
+export const LedgerEntryTypeEnum = z.enum(['charge', 'payment', 'credit', 'adjustment']);
+export const LedgerEntryCategoryEnum = z.enum(['rent', 'deposit', 'late_fee', 'utility', 'other']);
+export const PaymentMethodEnum = z.enum(['cash', 'cheque', 'e_transfer', 'pad', 'card', 'other']);
+
+export const CreateLedgerEntrySchema = z
+  .object({
+    entryType: LedgerEntryTypeEnum,
+    category: LedgerEntryCategoryEnum.default('other'),
+    amount: z.number().refine((value) => value !== 0, 'Amount cannot be zero'),
+    description: z.string().max(500).optional(),
+    effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    paymentMethod: PaymentMethodEnum.optional(),
+    reference: z.string().max(200).optional(),
+  })
+  .refine((entry) => entry.entryType === 'adjustment' || entry.amount > 0, {
+    message: 'Only adjustments may have a negative amount',
+    path: ['amount'],
+  });
+
+export type CreateLedgerEntryInput = z.infer<typeof CreateLedgerEntrySchema>;
+
+// Lease E-Signature Schema
+export const SendLeaseForSignatureSchema = z.object({
+  documentId: z.string().optional(), // defaults to the most recent lease_document file
+  landlordSigner: z
+    .object({
+      name: z.string().min(1).max(200),
+      email: z.string().email(),
+    })
+    .optional(),
+  subject: z.string().max(200).optional(),
+  message: z.string().max(2000).optional(),
+});
+
+export type SendLeaseForSignatureInput = z.infer<typeof SendLeaseForSignatureSchema>;
+
+// Outbound Email Schema
+export const SendCommunicationSchema = z
+  .object({
+    templateKey: z.string().optional(),
+    subject: z.string().min(1).max(200).optional(),
+    body: z.string().min(1).max(10000).optional(),
+    recipientEmails: z.array(z.string().email()).max(20).optional(),
+    idempotencyKey: z.string().min(1).max(200).optional(),
+  })
+  .refine((email) => email.templateKey || (email.subject && email.body), {
+    message: 'A template or a subject and body are required',
+    path: ['templateKey'],
+  });
+
+export type SendCommunicationInput = z.infer<typeof SendCommunicationSchema>;
+
+// Intake Form Schemas
+export const IntakeFieldTypeEnum = z.enum([
+  'text',
+  'textarea',
+  'email',
+  'phone',
+  'number',
+  'date',
+  'select',
+  'yes_no',
+  'list',
+]);
+
+const IntakeFormItemFieldSchema = z.object({
+  key: z.string().min(1).max(50),
+  label: z.string().min(1).max(200),
+  type: IntakeFieldTypeEnum,
+  required: z.boolean(),
+  helpText: z.string().max(500).optional(),
+  options: z.array(z.string().min(1).max(100)).max(50).optional(),
+});
+
+export const IntakeFormFieldSchema = IntakeFormItemFieldSchema.extend({
+  itemFields: z.array(IntakeFormItemFieldSchema).max(10).optional(),
+  maxItems: z.number().int().optional(),
+});
+
+export const SaveIntakeFormSchema = z.object({
+  sections: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(50),
+        title: z.string().min(1).max(200),
+        description: z.string().max(1000).optional(),
+        fields: z.array(IntakeFormFieldSchema).max(50),
+      })
+    )
+    .min(1)
+    .max(20),
+});
+
+export type SaveIntakeFormInput = z.infer<typeof SaveIntakeFormSchema>;
+
+// Application Pipeline Schemas
+export const SaveApplicationPipelineSchema = z.object({
+  stages: z
+    .array(
+      z.object({
+        key: z.string().min(1).max(50),
+        label: z.string().min(1).max(100),
+        bucket: LeadStatusEnum,
+        checklist: z
+          .array(
+            z.object({
+              id: z.string().min(1).max(50),
+              label: z.string().min(1).max(200),
+              description: z.string().max(500).optional(),
+              required: z.boolean(),
+            })
+          )
+          .max(20),
+      })
+    )
+    .min(1)
+    .max(30),
+});
+
+export type SaveApplicationPipelineInput = z.infer<typeof SaveApplicationPipelineSchema>;
+
+// AI Scoring Rubric Schemas
+const AIRubricDeductionSchema = z.number().min(0).max(100);
+const AIRubricTiersSchema = z
+  .array(z.object({ below: z.number().min(0).max(1000), deduction: AIRubricDeductionSchema }))
+  .max(10);
+
+export const SaveAIScoringRubricSchema = z.object({
+  incomeTiers: AIRubricTiersSchema,
+  employmentTiers: AIRubricTiersSchema,
+  documentQualityDeductions: z.object({
+    excellent: AIRubricDeductionSchema,
+    good: AIRubricDeductionSchema,
+    poor: AIRubricDeductionSchema,
+  }),
+  riskFlagDeductions: z.record(z.string(), AIRubricDeductionSchema),
+  fraudSignalDeductions: z.record(z.string(), AIRubricDeductionSchema),
+  labelCutoffs: z.object({
+    A: z.number().min(0).max(100),
+    B: z.number().min(0).max(100),
+  }),
+  disqualifyingFraudSignals: z.array(z.string().max(50)).max(20),
+  verificationFraudSignals: z.array(z.string().max(50)).max(20),
+});
+
+export type SaveAIScoringRubricInput = z.infer<typeof SaveAIScoringRubricSchema>;
+
+// Applicant Invite Schemas
+// What an invited co-applicant or guarantor fills in on the storefront
+export const AcceptApplicantInviteSchema = z.object({
+  firstName: z.string().min(1).max(100),
+  lastName: z.string().min(1).max(100),
+  phone: z.string().max(30).optional(),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  employmentStatus: EmploymentStatusEnum,
+  employerName: z.string().max(200).optional(),
+  jobTitle: z.string().max(200).optional(),
+  monthlyIncome: z.number().min(0).optional(),
+});
+
+export type AcceptApplicantInviteInput = z.infer<typeof AcceptApplicantInviteSchema>;
+
+// Tenant Portal Schemas
+export const RequestPortalLoginLinkSchema = z.object({
+  email: z.string().email(),
+  verifyUrl: z.string().url(), // storefront page the emailed link points at
+});
+
+export const UpdateEmergencyContactSchema = z.object({
+  emergencyContact: z.string().max(200).optional(),
+  emergencyPhone: z.string().max(30).optional(),
+});
+
+export const PortalWorkOrderSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().min(1).max(5000),
+  category: WorkOrderCategoryEnum,
+  priority: WorkOrderPriorityEnum.default('medium'),
+});
+
+export type PortalWorkOrderInput = z.infer<typeof PortalWorkOrderSchema>;
+
+// Work order photos and videos. Photos use the general upload limit; videos
+// from a phone need more room.
+export const WORK_ORDER_ATTACHMENT_CONSTRAINTS = {
+  maxImageSize: FILE_UPLOAD_CONSTRAINTS.maxFileSize,
+  maxVideoSize: 50 * 1024 * 1024, // 50MB
+  maxAttachmentsPerWorkOrder: 10,
+  allowedImageTypes: ['image/jpeg', 'image/png', 'image/heic', 'image/heif', 'image/webp'] as const,
+  allowedVideoTypes: ['video/mp4', 'video/quicktime', 'video/webm'] as const,
+} as const;
+
+// Tenant Notice Schemas
+export const NoticeTypeEnum = z.enum(['n1', 'n4', 'n11']);
+export const NoticeServiceMethodEnum = z.enum(['hand', 'mail', 'courier', 'email', 'mail_slot']);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const NoticeDetailsSchema = z.object({
+  currentRent: z.number().positive().optional(),
+  newRent: z.number().positive().optional(),
+  arrearsAmount: z.number().positive().optional(),
+  arrearsPeriodStart: isoDate.optional(),
+  arrearsPeriodEnd: isoDate.optional(),
+  agreedTerminationDate: isoDate.optional(),
+  tenantSignedOn: isoDate.optional(),
+  landlordSignedOn: isoDate.optional(),
+});
+
+export const CreateNoticeSchema = z
+  .object({
+    type: NoticeTypeEnum,
+    leaseId: z.string().optional(),
+    details: NoticeDetailsSchema.default({}),
+    reminderSchedule: z.array(z.number().int().min(0).max(365)).max(10).optional(),
+    notes: z.string().max(2000).optional(),
+  })
+  .refine((notice) => notice.type !== 'n1' || (notice.details.currentRent && notice.details.newRent), {
+    message: 'N1 requires the current and new rent',
+    path: ['details'],
+  })
+  .refine((notice) => notice.type !== 'n4' || notice.details.arrearsAmount, {
+    message: 'N4 requires the arrears amount',
+    path: ['details'],
+  })
+  .refine((notice) => notice.type !== 'n11' || notice.details.agreedTerminationDate, {
+    message: 'N11 requires the agreed termination date',
+    path: ['details'],
+  });
+
+export type CreateNoticeInput = z.infer<typeof CreateNoticeSchema>;
+
+export const ServeNoticeSchema = z.object({
+  servedOn: isoDate,
+  serviceMethod: NoticeServiceMethodEnum,
+  rentPeriod: z.enum(['monthly', 'weekly']).optional(),
+});
+
+export type ServeNoticeInput = z.infer<typeof ServeNoticeSchema>;
+
 // Auth Schemas
 export const LoginSchema = z.object({
   email: z.string().email(),
@@ -350,6 +590,26 @@ export const PaginationSchema = z.object({
 
 export type PaginationInput = z.infer<typeof PaginationSchema>;
 
+// Cursor pagination for list endpoints. Without a limit the full list is
+// returned, as before; sortBy is checked against each list's own sort keys.
+export const CursorPaginationSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().min(1).optional(),
+  sortBy: z.string().optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  search: z.string().trim().max(100).optional(),
+});
+
+export type CursorPaginationInput = z.infer<typeof CursorPaginationSchema>;
+
+// Global search (ops command palette); limit is per entity type
+export const GlobalSearchSchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  limit: z.coerce.number().int().min(1).max(20).optional(),
+});
+
+export type GlobalSearchInput = z.infer<typeof GlobalSearchSchema>;
+
 // Filter Schemas
 export const LeadFilterSchema = z.object({
   status: LeadStatusEnum.optional(),
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { D1DatabaseAdapter, createD1Database } from './d1-database';
+import { D1DatabaseAdapter, TransactionReadAfterWriteError, createD1Database } from './d1-database';
 
 // Mock D1 types
 interface MockD1Result<T> {
@@ -152,6 +152,55 @@ describe('D1DatabaseAdapter', () => {
 
       expect(result).toBe('done');
     });
+
+    it('should commit queued writes in a single batch', async () => {
+      const adapter = new D1DatabaseAdapter(mockD1 as unknown as D1Database);
+      await adapter.transaction(async (tx) => {
+        await tx.execute('INSERT INTO tenants (id) VALUES (?)', ['tenant_1']);
+        await tx.execute('INSERT INTO leases (id, tenant_id) VALUES (?, ?)', ['lease_1', 'tenant_1']);
+      });
+
+      expect(mockStatement.run).not.toHaveBeenCalled();
+      expect(mockD1.batch).toHaveBeenCalledTimes(1);
+      expect((mockD1.batch as ReturnType<typeof vi.fn>).mock.calls[0][0]).toHaveLength(2);
+    });
+
+    it('should discard queued writes when the function throws', async () => {
+      const adapter = new D1DatabaseAdapter(mockD1 as unknown as D1Database);
+      await expect(
+        adapter.transaction(async (tx) => {
+          await tx.execute('INSERT INTO tenants (id) VALUES (?)', ['tenant_1']);
+          throw new Error('unit is not available');
+        })
+      ).rejects.toThrow('unit is not available');
+
+      expect(mockD1.batch).not.toHaveBeenCalled();
+    });
+
+    it('should allow reads before the first write and reject reads after it', async () => {
+      const adapter = new D1DatabaseAdapter(mockD1 as unknown as D1Database);
+      await expect(
+        adapter.transaction(async (tx) => {
+          await tx.queryOne('SELECT * FROM units WHERE id = ?', ['unit_1']);
+          await tx.execute('UPDATE units SET status = ? WHERE id = ?', ['occupied', 'unit_1']);
+          return tx.queryOne('SELECT * FROM units WHERE id = ?', ['unit_1']);
+        })
+      ).rejects.toBeInstanceOf(TransactionReadAfterWriteError);
+
+      expect(mockStatement.first).toHaveBeenCalledTimes(1);
+      expect(mockD1.batch).not.toHaveBeenCalled();
+    });
+
+    it('should fold nested transactions into the outer batch', async () => {
+      const adapter = new D1DatabaseAdapter(mockD1 as unknown as D1Database);
+      await adapter.transaction(async (tx) => {
+        await tx.execute('UPDATE units SET status = ? WHERE id = ?', ['occupied', 'unit_1']);
+        await tx.transaction((inner) => inner.execute('INSERT INTO unit_history (id) VALUES (?)', ['hist_1']));
+      });
+
+      expect(mockD1.batch).toHaveBeenCalledTimes(1);
+      expect((mockD1.batch as ReturnType<typeof vi.fn>).mock.calls[0][0]).toHaveLength(2);
+    });
   });
 
   describe('close', () => {
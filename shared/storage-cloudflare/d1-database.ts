@@ -48,16 +48,7 @@ export class D1DatabaseAdapter implements IDatabase {
   }
 
   async transaction<T>(fn: (tx: ITransaction) => Promise<T>): Promise<T> {
-    // D1 doesn't have native transaction support in the same way as traditional DBs
-    // We can use batch for atomic operations, but for now we'll execute sequentially
-    // and wrap in a transaction-like interface
-    const tx: ITransaction = {
-      query: <U = unknown>(sql: string, params?: unknown[]) => this.query<U>(sql, params),
-      queryOne: <U = unknown>(sql: string, params?: unknown[]) => this.queryOne<U>(sql, params),
-      execute: (sql: string, params?: unknown[]) => this.execute(sql, params),
-    };
-
-    return fn(tx);
+    return runD1Transaction(this, fn);
   }
 
   async batch(
@@ -87,6 +78,99 @@ export class D1DatabaseAdapter implements IDatabase {
   }
 }
 
+/**
+ * Thrown when a D1 transaction reads after queueing a write. The read would
+ * not see the queued write, so it fails instead of returning stale rows.
+ */
+export class TransactionReadAfterWriteError extends Error {
+  constructor(sql: string) {
+    super(
+      `Cannot read inside a D1 transaction after a write has been queued (${sql.trim().split(/\s+/).slice(0, 4).join(' ')} ...). ` +
+        'Do the reads before the first write, or after the transaction.'
+    );
+    this.name = 'TransactionReadAfterWriteError';
+  }
+}
+
+/**
+ * Transaction over D1, which has no interactive transactions.
+ *
+ * Writes are queued and committed together with batch(), which D1 runs as a
+ * single SQL transaction: either every statement applies or none does.
+ * Reads go straight to the database, so they are only allowed before the
+ * first write (see TransactionReadAfterWriteError). Queued writes report
+ * changes = 0 because their real results only exist after commit.
+ */
+export class D1Transaction implements ITransaction {
+  private statements: Array<{ sql: string; params?: unknown[] }> = [];
+
+  constructor(private db: Pick<IDatabase, 'query' | 'queryOne' | 'batch'>) {}
+
+  async query<T = unknown>(sql: string, params?: unknown[]): Promise<T[]> {
+    this.assertNoQueuedWrites(sql);
+    return this.db.query<T>(sql, params);
+  }
+
+  async queryOne<T = unknown>(sql: string, params?: unknown[]): Promise<T | null> {
+    this.assertNoQueuedWrites(sql);
+    return this.db.queryOne<T>(sql, params);
+  }
+
+  async execute(sql: string, params?: unknown[]): Promise<ExecuteResult> {
+    this.statements.push({ sql, params });
+    return { success: true, changes: 0, lastRowId: 0 };
+  }
+
+  async batch(statements: Array<{ sql: string; params?: unknown[] }>): Promise<ExecuteResult[]> {
+    this.statements.push(...statements);
+    return statements.map(() => ({ success: true, changes: 0, lastRowId: 0 }));
+  }
+
+  async transaction<T>(fn: (tx: ITransaction) => Promise<T>): Promise<T> {
+    // Nested transactions join this one
+    return fn(this);
+  }
+
+  async close(): Promise<void> {}
+
+  /**
+   * Number of writes waiting to be committed
+   */
+  get pendingWrites(): number {
+    return this.statements.length;
+  }
+
+  /**
+   * Apply every queued write atomically
+   */
+  async commit(): Promise<ExecuteResult[]> {
+    if (this.statements.length === 0) return [];
+    const statements = this.statements;
+    this.statements = [];
+    return this.db.batch(statements);
+  }
+
+  private assertNoQueuedWrites(sql: string): void {
+    if (this.statements.length > 0) {
+      throw new TransactionReadAfterWriteError(sql);
+    }
+  }
+}
+
+/**
+ * Run fn in a D1Transaction and commit its writes. If fn throws, the queued
+ * writes are discarded and nothing reaches the database.
+ */
+export async function runD1Transaction<T>(
+  db: Pick<IDatabase, 'query' | 'queryOne' | 'batch'>,
+  fn: (tx: ITransaction) => Promise<T>
+): Promise<T> {
+  const tx = new D1Transaction(db);
+  const result = await fn(tx);
+  await tx.commit();
+  return result;
+}
+
 /**
  * Create a D1 database adapter from configuration
  */
@@ -7,7 +7,14 @@ import './r2-object-store';
 import { createStorageProvider } from '../storage-core';
 
 // Re-export adapter classes
-export { D1Database, D1DatabaseAdapter, createD1Database } from './d1-database';
+export {
+  D1Database,
+  D1DatabaseAdapter,
+  D1Transaction,
+  TransactionReadAfterWriteError,
+  runD1Transaction,
+  createD1Database,
+} from './d1-database';
 export { KVCache, KVCacheAdapter, createKVCache } from './kv-cache';
 export { R2ObjectStore, R2ObjectStoreAdapter, createR2ObjectStore } from './r2-object-store';
 
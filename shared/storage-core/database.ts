@@ -28,19 +28,23 @@ export interface ExecuteResult {
 }
 
 /**
- * Transaction interface for database operations
+ * Transaction interface for database operations.
+ * A transaction is a full database handle, so the same data functions run
+ * inside and outside one; nested transaction() calls join the outer one.
  */
-export interface ITransaction {
-  query<T = unknown>(sql: string, params?: unknown[]): Promise<T[]>;
-  queryOne<T = unknown>(sql: string, params?: unknown[]): Promise<T | null>;
-  execute(sql: string, params?: unknown[]): Promise<ExecuteResult>;
-}
+export interface ITransaction extends IDatabase {}
 
 /**
  * Abstract database interface for relational database operations.
  * Implementations: D1Database, PostgreSQLDatabase, MySQLDatabase
  */
 export interface IDatabase {
+  /**
+   * SQL dialect, for the few queries that cannot be written portably
+   * (e.g. full-text search). Omitted means SQLite, as on D1.
+   */
+  readonly dialect?: 'sqlite' | 'postgresql';
+
   /**
    * Execute a SELECT query and return multiple rows
    * @param sql - SQL query string with ? placeholders
@@ -67,6 +71,7 @@ export interface IDatabase {
 
   /**
    * Execute multiple statements in a transaction
+   * All writes are applied together, or none are if fn throws or a write fails
    * @param fn - Function that receives a transaction and performs operations
    * @returns Result of the transaction function
    */
@@ -94,7 +99,7 @@ export interface DatabaseConfig {
   // Cloudflare D1 specific (type is D1Database from @cloudflare/workers-types)
   d1Binding?: unknown;
 
-  // Standard SQL databases
+  // Standard SQL databases (for sqlite: a file path, or ':memory:')
   connectionString?: string;
 
   // Connection pool settings
@@ -1,2 +1,4 @@
 // Factory and registry
 export { createDatabase, createCache, createObjectStore, createStorageProvider, registerDatabaseProvider, registerCacheProvider, registerObjectStoreProvider, getRegistry, clearRegistry, } from './factory';
+// Schema migrations
+export { SCHEMA_MIGRATIONS_TABLE, MigrationChecksumError, MigrationFailedError, checksumMigration, splitSqlStatements, planMigrations, runMigrations, } from './migrations';
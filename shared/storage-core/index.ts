@@ -52,3 +52,22 @@ export type {
   CacheFactory,
   ObjectStoreFactory,
 } from './factory';
+
+// Schema migrations
+export {
+  SCHEMA_MIGRATIONS_TABLE,
+  MigrationChecksumError,
+  MigrationFailedError,
+  checksumMigration,
+  splitSqlStatements,
+  planMigrations,
+  runMigrations,
+} from './migrations';
+
+export type {
+  Migration,
+  AppliedMigration,
+  MigrationPlan,
+  MigrationRunOptions,
+  MigrationRunResult,
+} from './migrations';
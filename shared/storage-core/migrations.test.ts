@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the schema migration runner
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  MigrationChecksumError,
+  MigrationFailedError,
+  runMigrations,
+  splitSqlStatements,
+  type Migration,
+} from './migrations';
+import { SQLiteDatabaseAdapter } from '../storage-sqlite/sqlite-database';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../scripts/migrations');
+
+const MIGRATIONS: Migration[] = [
+  { name: '0001_units.sql', sql: 'CREATE TABLE units (id TEXT PRIMARY KEY);' },
+  { name: '0002_unit_status.sql', sql: "ALTER TABLE units ADD COLUMN status TEXT NOT NULL DEFAULT 'available';" },
+];
+
+describe('splitSqlStatements', () => {
+  it('should split on semicolons outside literals, comments and triggers', () => {
+    const sql = `
+      -- a comment; not a statement
+      INSERT INTO notes (body) VALUES ('a; b');
+      /* block; comment */
+      CREATE TRIGGER touch AFTER UPDATE ON notes BEGIN
+        UPDATE notes SET updated_at = datetime('now') WHERE id = NEW.id;
+      END;
+      SELECT 1
+    `;
+
+    expect(splitSqlStatements(sql)).toEqual([
+      "INSERT INTO notes (body) VALUES ('a; b')",
+      expect.stringMatching(/^CREATE TRIGGER touch[\s\S]*WHERE id = NEW\.id;\s+END$/),
+      'SELECT 1',
+    ]);
+  });
+
+  it('should keep a Postgres $$-quoted function body in one statement', () => {
+    const sql = `
+      CREATE FUNCTION touch() RETURNS trigger AS $fn$
+      BEGIN
+        NEW.updated_at := now();
+        RETURN NEW;
+      END;
+      $fn$ LANGUAGE plpgsql;
+      SELECT 1;
+    `;
+
+    expect(splitSqlStatements(sql)).toEqual([
+      expect.stringMatching(/^CREATE FUNCTION touch\(\)[\s\S]*\$fn\$ LANGUAGE plpgsql$/),
+      'SELECT 1',
+    ]);
+  });
+});
+
+describe('runMigrations', () => {
+  let db: SQLiteDatabaseAdapter;
+
+  beforeEach(() => {
+    db = new SQLiteDatabaseAdapter();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should apply pending migrations in order and record them', async () => {
+    const result = await runMigrations(db, [...MIGRATIONS].reverse());
+
+    expect(result.applied).toEqual(['0001_units.sql', '0002_unit_status.sql']);
+    await db.execute('INSERT INTO units (id) VALUES (?)', ['unit_1']);
+    expect(await db.queryOne('SELECT status FROM units')).toEqual({ status: 'available' });
+
+    const again = await runMigrations(db, MIGRATIONS);
+    expect(again.applied).toEqual([]);
+    expect(again.plan.applied.map((m) => m.name)).toEqual(['0001_units.sql', '0002_unit_status.sql']);
+  });
+
+  it('should refuse to run when an applied migration has changed', async () => {
+    await runMigrations(db, MIGRATIONS.slice(0, 1));
+
+    const edited = [{ ...MIGRATIONS[0], sql: 'CREATE TABLE units (id TEXT PRIMARY KEY, name TEXT);' }, MIGRATIONS[1]];
+    await expect(runMigrations(db, edited)).rejects.toBeInstanceOf(MigrationChecksumError);
+    expect(await db.query("SELECT name FROM pragma_table_info('units') WHERE name = 'status'")).toEqual([]);
+
+  });
+
+  it('should not count a change of line endings as drift', async () => {
+    const lf: Migration = { name: '0001_leases.sql', sql: 'CREATE TABLE leases (\n  id TEXT PRIMARY KEY\n);\n' };
+    await runMigrations(db, [lf]);
+
+    const crlf = { ...lf, sql: lf.sql.replace(/\n/g, '\r\n') };
+    expect((await runMigrations(db, [crlf])).plan.drifted).toEqual([]);
+  });
+
+  it('should leave a failed migration unrecorded and roll back its statements', async () => {
+    const broken: Migration = {
+      name: '0003_broken.sql',
+      sql: 'CREATE TABLE leases (id TEXT PRIMARY KEY); ALTER TABLE missing ADD COLUMN x TEXT;',
+    };
+
+    await expect(runMigrations(db, [...MIGRATIONS, broken])).rejects.toThrow(MigrationFailedError);
+
+    const tables = await db.query<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'leases'");
+    expect(tables).toEqual([]);
+    const recorded = await db.query<{ name: string }>('SELECT name FROM schema_migrations');
+    expect(recorded.map((row) => row.name)).toEqual(['0001_units.sql', '0002_unit_status.sql']);
+  });
+
+  it('should only report in dry-run mode', async () => {
+    const lines: string[] = [];
+    const result = await runMigrations(db, MIGRATIONS, { dryRun: true, log: (line) => lines.push(line) });
+
+    expect(result.applied).toEqual([]);
+    expect(result.plan.pending.map((m) => m.name)).toEqual(['0001_units.sql', '0002_unit_status.sql']);
+    expect(lines).toContain('would apply 0001_units.sql (1 statements)');
+    expect(lines).toContain('  CREATE TABLE units (id TEXT PRIMARY KEY);');
+    expect(await db.query("SELECT name FROM sqlite_master WHERE name = 'units'")).toEqual([]);
+    expect(await db.query("SELECT name FROM sqlite_master WHERE name = 'schema_migrations'")).toEqual([]);
+  });
+
+  it('should record without running in baseline mode', async () => {
+    await db.exec('CREATE TABLE units (id TEXT PRIMARY KEY)');
+
+    const result = await runMigrations(db, MIGRATIONS.slice(0, 1), { baseline: true });
+
+    expect(result.applied).toEqual(['0001_units.sql']);
+    expect((await runMigrations(db, MIGRATIONS)).applied).toEqual(['0002_unit_status.sql']);
+  });
+
+  it('should apply the real scripts/migrations and flag the duplicate 0009 files', async () => {
+    const files = (await readdir(MIGRATIONS_DIR)).filter((file) => file.endsWith('.sql'));
+    const migrations = await Promise.all(
+      files.map(async (name) => ({ name, sql: await readFile(path.join(MIGRATIONS_DIR, name), 'utf8') }))
+    );
+
+    const result = await runMigrations(db, migrations);
+
+    expect(result.applied).toHaveLength(files.length);
+    expect(result.plan.duplicateVersions).toEqual(['0009']);
+    expect(await db.queryOne("SELECT name FROM sqlite_master WHERE name = 'audit_log'")).toEqual({ name: 'audit_log' });
+  });
+});
@@ -0,0 +1,291 @@
+import type { IDatabase } from './database';
+import { sha256Hex } from '../utils/crypto';
+
+/**
+ * Table that records which migrations have been applied to a database
+ */
+export const SCHEMA_MIGRATIONS_TABLE = 'schema_migrations';
+
+/**
+ * A migration file: its filename (e.g. 0013_lease_ledger.sql) and contents
+ */
+export interface Migration {
+  name: string;
+  sql: string;
+}
+
+/**
+ * A row of schema_migrations
+ */
+export interface AppliedMigration {
+  name: string;
+  checksum: string;
+  appliedAt: string;
+}
+
+/**
+ * What a run would do, computed without changing the database
+ */
+export interface MigrationPlan {
+  /** Not yet applied, in the order they will run */
+  pending: Array<Migration & { checksum: string; statements: string[] }>;
+  applied: AppliedMigration[];
+  /** Applied files whose contents changed since they were applied */
+  drifted: Array<{ name: string; recordedChecksum: string; currentChecksum: string }>;
+  /** Recorded as applied but no longer present on disk */
+  missing: AppliedMigration[];
+  /** Version prefixes shared by more than one file (e.g. two 0009_* files) */
+  duplicateVersions: string[];
+}
+
+export interface MigrationRunOptions {
+  /** Report what would run without executing anything */
+  dryRun?: boolean;
+  /**
+   * Record pending migrations as applied without running them, for databases
+   * that were migrated by hand before the runner existed
+   */
+  baseline?: boolean;
+  /** Receives one line per step (defaults to no output) */
+  log?: (line: string) => void;
+}
+
+export interface MigrationRunResult {
+  plan: MigrationPlan;
+  /** Migrations run (or recorded, with baseline) in this call */
+  applied: string[];
+  dryRun: boolean;
+}
+
+/**
+ * Applied migration files were edited after they ran. The database no longer
+ * matches what the files describe, so nothing is run until this is resolved.
+ */
+export class MigrationChecksumError extends Error {
+  constructor(public drifted: MigrationPlan['drifted']) {
+    super(`Applied migrations have changed on disk: ${drifted.map((d) => d.name).join(', ')}`);
+    this.name = 'MigrationChecksumError';
+  }
+}
+
+/**
+ * A migration's statements failed. It was applied atomically, so none of them
+ * took effect and it is still pending.
+ */
+export class MigrationFailedError extends Error {
+  constructor(public migration: string, cause: unknown) {
+    super(`Migration ${migration} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'MigrationFailedError';
+  }
+}
+
+/**
+ * Checksum of a migration file; line endings are normalised so a checkout
+ * on Windows does not count as drift
+ */
+export function checksumMigration(sql: string): Promise<string> {
+  return sha256Hex(sql.replace(/\r\n/g, '\n'));
+}
+
+/**
+ * Split a SQL script into statements. Comments are dropped; semicolons inside
+ * string literals, quoted identifiers, Postgres $$-quoted function bodies and
+ * CREATE TRIGGER ... END bodies do not end a statement.
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  const push = () => {
+    const statement = current.trim();
+    if (statement) statements.push(statement);
+    current = '';
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      current += ' ';
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      // Quotes are escaped by doubling them, so scanning to the next quote works
+      let end = i + 1;
+      while (end < sql.length && sql[end] !== char) end++;
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+    if (char === '$') {
+      const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i))?.[0];
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length);
+        const stop = end === -1 ? sql.length : end + tag.length;
+        current += sql.slice(i, stop);
+        i = stop;
+        continue;
+      }
+    }
+    if (char === ';') {
+      const isTrigger = /^\s*CREATE\s+(TEMP\s+|TEMPORARY\s+)?TRIGGER\b/i.test(current);
+      if (!isTrigger || /\bEND\s*$/i.test(current)) {
+        push();
+        i++;
+        continue;
+      }
+    }
+
+    current += char;
+    i++;
+  }
+  push();
+
+  return statements;
+}
+
+async function ensureMigrationsTable(db: IDatabase): Promise<void> {
+  await db.execute(
+    `CREATE TABLE IF NOT EXISTS ${SCHEMA_MIGRATIONS_TABLE} (
+      name TEXT PRIMARY KEY,
+      checksum TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`
+  );
+}
+
+async function migrationsTableExists(db: IDatabase): Promise<boolean> {
+  const sql =
+    db.dialect === 'postgresql'
+      ? 'SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = ?'
+      : "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?";
+  return (await db.queryOne(sql, [SCHEMA_MIGRATIONS_TABLE])) !== null;
+}
+
+async function getAppliedMigrations(db: IDatabase): Promise<AppliedMigration[]> {
+  // A database the runner has never written to has nothing applied
+  if (!(await migrationsTableExists(db))) {
+    return [];
+  }
+  const rows = await db.query<{ name: string; checksum: string; applied_at: string }>(
+    `SELECT name, checksum, applied_at FROM ${SCHEMA_MIGRATIONS_TABLE} ORDER BY name`
+  );
+  return rows.map((row) => ({ name: row.name, checksum: row.checksum, appliedAt: row.applied_at }));
+}
+
+/**
+ * Compare migration files with what the database has recorded.
+ * Read-only: a missing schema_migrations table means nothing is applied.
+ */
+export async function planMigrations(db: IDatabase, migrations: Migration[]): Promise<MigrationPlan> {
+  const applied = await getAppliedMigrations(db);
+  const appliedByName = new Map(applied.map((migration) => [migration.name, migration]));
+
+  // Files are ordered by full name, so duplicate numbers still run in a fixed order
+  const sorted = [...migrations].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  const names = new Set(sorted.map((migration) => migration.name));
+
+  const plan: MigrationPlan = {
+    pending: [],
+    applied,
+    drifted: [],
+    missing: applied.filter((migration) => !names.has(migration.name)),
+    duplicateVersions: [],
+  };
+
+  const versionCounts = new Map<string, number>();
+  for (const migration of sorted) {
+    const version = migration.name.split('_')[0];
+    versionCounts.set(version, (versionCounts.get(version) ?? 0) + 1);
+
+    const checksum = await checksumMigration(migration.sql);
+    const recorded = appliedByName.get(migration.name);
+    if (!recorded) {
+      plan.pending.push({ ...migration, checksum, statements: splitSqlStatements(migration.sql) });
+    } else if (recorded.checksum !== checksum) {
+      plan.drifted.push({ name: migration.name, recordedChecksum: recorded.checksum, currentChecksum: checksum });
+    }
+  }
+  plan.duplicateVersions = [...versionCounts].filter(([, count]) => count > 1).map(([version]) => version);
+
+  return plan;
+}
+
+/**
+ * Apply pending migrations in filename order.
+ *
+ * Each migration's statements and its schema_migrations row are sent as one
+ * batch, so a migration is either fully applied and recorded or not at all.
+ * Stops at the first failure; later migrations stay pending.
+ */
+export async function runMigrations(
+  db: IDatabase,
+  migrations: Migration[],
+  options: MigrationRunOptions = {}
+): Promise<MigrationRunResult> {
+  const log = options.log ?? (() => {});
+  const plan = await planMigrations(db, migrations);
+  const dryRun = options.dryRun ?? false;
+
+  for (const version of plan.duplicateVersions) {
+    log(`warning: more than one migration is numbered ${version}; they run in filename order`);
+  }
+  for (const migration of plan.missing) {
+    log(`warning: ${migration.name} was applied but its file is missing`);
+  }
+  for (const drift of plan.drifted) {
+    log(`drift: ${drift.name} changed since it was applied (${drift.recordedChecksum.slice(0, 12)} -> ${drift.currentChecksum.slice(0, 12)})`);
+  }
+
+  if (plan.drifted.length > 0 && !dryRun) {
+    throw new MigrationChecksumError(plan.drifted);
+  }
+
+  if (plan.pending.length === 0) {
+    log('Database is up to date');
+    return { plan, applied: [], dryRun };
+  }
+
+  if (!dryRun) {
+    await ensureMigrationsTable(db);
+  }
+
+  const applied: string[] = [];
+  for (const migration of plan.pending) {
+    if (dryRun) {
+      log(`would ${options.baseline ? 'record' : 'apply'} ${migration.name} (${migration.statements.length} statements)`);
+      if (!options.baseline) {
+        for (const statement of migration.statements) {
+          log(`  ${statement.replace(/\s+/g, ' ')};`);
+        }
+      }
+      continue;
+    }
+
+    const record = {
+      sql: `INSERT INTO ${SCHEMA_MIGRATIONS_TABLE} (name, checksum, applied_at) VALUES (?, ?, ?)`,
+      params: [migration.name, migration.checksum, new Date().toISOString()],
+    };
+    const statements = options.baseline ? [] : migration.statements.map((sql) => ({ sql }));
+
+    try {
+      await db.batch([...statements, record]);
+    } catch (error) {
+      throw new MigrationFailedError(migration.name, error);
+    }
+
+    applied.push(migration.name);
+    log(`${options.baseline ? 'recorded' : 'applied'} ${migration.name}`);
+  }
+
+  return { plan, applied, dryRun };
+}
@@ -182,6 +182,8 @@ export interface ObjectStoreConfig {
 
   // Local file system
   localBasePath?: string;
+  // Secret for signing getSignedUrl URLs (random per instance if unset)
+  localSigningSecret?: string;
 
   // Public URL base for generating public URLs
   publicUrlBase?: string;
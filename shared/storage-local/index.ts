@@ -0,0 +1,10 @@
+// Import the adapter to register it with the provider factory
+import './local-object-store';
+
+// Re-export adapter classes
+export { LocalObjectStore, LocalObjectStoreAdapter, createLocalObjectStore } from './local-object-store';
+
+// Re-export core types for convenience
+export type { IObjectStore, ObjectStoreConfig } from '../storage-core';
+
+export { createObjectStore } from '../storage-core';
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the local file system object store
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { LocalObjectStoreAdapter, createLocalObjectStore } from './local-object-store';
+import { createObjectStore } from '../storage-core';
+
+describe('LocalObjectStoreAdapter', () => {
+  let basePath: string;
+  let store: LocalObjectStoreAdapter;
+
+  beforeEach(async () => {
+    basePath = await mkdtemp(path.join(tmpdir(), 'leaselab-store-'));
+    store = new LocalObjectStoreAdapter(basePath, 'http://localhost:8787/files', 'test-secret');
+  });
+
+  afterEach(async () => {
+    await rm(basePath, { recursive: true, force: true });
+  });
+
+  it('should store objects with their metadata', async () => {
+    await store.put('leases/lease_1/lease.pdf', new Uint8Array([1, 2, 3]), {
+      contentType: 'application/pdf',
+      customMetadata: { uploadedBy: 'user_1' },
+    });
+
+    const result = await store.get('leases/lease_1/lease.pdf');
+    expect(new Uint8Array(result!.data as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
+    expect(result!.metadata).toMatchObject({
+      contentType: 'application/pdf',
+      contentLength: 3,
+      customMetadata: { uploadedBy: 'user_1' },
+    });
+    expect(await store.get('leases/lease_1/missing.pdf')).toBeNull();
+  });
+
+  it('should copy and delete objects', async () => {
+    await store.put('a.txt', 'hello', { contentType: 'text/plain' });
+    await store.copy('a.txt', 'archive/a.txt');
+    await store.deleteMany(['a.txt']);
+
+    expect(await store.exists('a.txt')).toBe(false);
+    expect(await store.head('archive/a.txt')).toMatchObject({ contentType: 'text/plain', contentLength: 5 });
+    await expect(store.copy('a.txt', 'b.txt')).rejects.toThrow('Source object not found: a.txt');
+  });
+
+  it('should list with prefix, delimiter and cursor without exposing metadata files', async () => {
+    await store.put('images/1.jpg', 'x');
+    await store.put('images/2.jpg', 'x');
+    await store.put('images/thumbs/1.jpg', 'x');
+    await store.put('docs/a.pdf', 'x');
+
+    const folders = await store.list({ prefix: 'images/', delimiter: '/' });
+    expect(folders.objects.map((o) => o.key)).toEqual(['images/1.jpg', 'images/2.jpg']);
+    expect(folders.delimitedPrefixes).toEqual(['images/thumbs/']);
+
+    const firstPage = await store.list({ limit: 2 });
+    expect(firstPage.objects.map((o) => o.key)).toEqual(['docs/a.pdf', 'images/1.jpg']);
+    expect(firstPage.truncated).toBe(true);
+
+    const secondPage = await store.list({ limit: 2, cursor: firstPage.cursor });
+    expect(secondPage.objects.map((o) => o.key)).toEqual(['images/2.jpg', 'images/thumbs/1.jpg']);
+    expect(secondPage.truncated).toBe(false);
+  });
+
+  it('should reject keys outside the base path', async () => {
+    await expect(store.put('../escape.txt', 'x')).rejects.toThrow('Invalid object key');
+    await expect(store.put('.metadata/a.txt.json', 'x')).rejects.toThrow('Invalid object key');
+  });
+
+  it('should sign URLs that only verify for the same key, method and expiry window', async () => {
+    const url = await store.getSignedUrl('leases/lease 1.pdf', { expiresIn: 60 });
+
+    expect(url.startsWith('http://localhost:8787/files/leases/lease%201.pdf?')).toBe(true);
+    expect(await store.verifySignedUrl(url)).toBe('leases/lease 1.pdf');
+    expect(await store.verifySignedUrl(url, 'PUT')).toBeNull();
+    expect(await store.verifySignedUrl(url.replace('lease%201', 'lease%202'))).toBeNull();
+
+    const expired = await store.getSignedUrl('leases/lease 1.pdf', { expiresIn: -1 });
+    expect(await store.verifySignedUrl(expired)).toBeNull();
+
+    const otherStore = new LocalObjectStoreAdapter(basePath, 'http://localhost:8787/files', 'other-secret');
+    expect(await otherStore.verifySignedUrl(url)).toBeNull();
+  });
+
+  it('should require publicUrlBase for signed URLs', async () => {
+    const unsigned = new LocalObjectStoreAdapter(basePath);
+    await expect(unsigned.getSignedUrl('a.txt')).rejects.toThrow('publicUrlBase');
+  });
+});
+
+describe('createLocalObjectStore', () => {
+  it('should be created through the provider registry', () => {
+    expect(createObjectStore({ provider: 'local', localBasePath: tmpdir() })).toBeInstanceOf(LocalObjectStoreAdapter);
+  });
+
+  it('should throw error when localBasePath is missing', () => {
+    expect(() => createLocalObjectStore({ provider: 'local' })).toThrow('localBasePath is required for local provider');
+  });
+});
@@ -0,0 +1,323 @@
+import { createHash } from 'node:crypto';
+import { copyFile, mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  IObjectStore,
+  ObjectMetadata,
+  ObjectPutOptions,
+  ObjectGetResult,
+  ObjectInfo,
+  ObjectListOptions,
+  ObjectListResult,
+  SignedUrlOptions,
+  ObjectStoreConfig,
+} from '../storage-core';
+import { registerObjectStoreProvider } from '../storage-core';
+import { generateRandomToken, hmacSha256Hex, timingSafeEqual } from '../utils/crypto';
+
+// Sidecar directory for content type and custom metadata, hidden from list()
+const METADATA_DIR = '.metadata';
+
+const DEFAULT_LIST_LIMIT = 1000;
+
+interface StoredMetadata {
+  contentType?: string;
+  customMetadata?: Record<string, string>;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  etag: string;
+}
+
+async function toBuffer(data: ArrayBuffer | ReadableStream<Uint8Array> | Uint8Array | string): Promise<Buffer> {
+  if (typeof data === 'string') return Buffer.from(data);
+  if (data instanceof Uint8Array) return Buffer.from(data);
+  if (data instanceof ArrayBuffer) return Buffer.from(data);
+  return Buffer.from(await new Response(data).arrayBuffer());
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Local file system object store implementing IObjectStore interface
+ *
+ * Objects are stored as plain files under basePath, so fixtures can be
+ * inspected by hand. getSignedUrl returns an HMAC-signed URL under
+ * publicUrlBase; whatever serves those URLs checks it with verifySignedUrl.
+ */
+export class LocalObjectStoreAdapter implements IObjectStore {
+  private basePath: string;
+  private publicUrlBase?: string;
+  private signingSecret: string;
+
+  constructor(basePath: string, publicUrlBase?: string, signingSecret?: string) {
+    this.basePath = path.resolve(basePath);
+    this.publicUrlBase = publicUrlBase?.replace(/\/+$/, '');
+    this.signingSecret = signingSecret || generateRandomToken();
+  }
+
+  async put(
+    key: string,
+    data: ArrayBuffer | ReadableStream<Uint8Array> | Uint8Array | string,
+    options?: ObjectPutOptions
+  ): Promise<void> {
+    const filePath = this.resolveKey(key);
+    const body = await toBuffer(data);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+
+    await this.writeMetadata(key, {
+      contentType: options?.contentType,
+      customMetadata: options?.customMetadata,
+      cacheControl: options?.cacheControl,
+      contentDisposition: options?.contentDisposition,
+      contentEncoding: options?.contentEncoding,
+      etag: createHash('md5').update(body).digest('hex'),
+    });
+  }
+
+  async get(key: string): Promise<ObjectGetResult | null> {
+    const metadata = await this.head(key);
+    if (!metadata) {
+      return null;
+    }
+
+    const body = await readFile(this.resolveKey(key));
+    return {
+      data: body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) as ArrayBuffer,
+      metadata,
+    };
+  }
+
+  async head(key: string): Promise<ObjectMetadata | null> {
+    const filePath = this.resolveKey(key);
+
+    let info;
+    try {
+      info = await stat(filePath);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+    if (!info.isFile()) {
+      return null;
+    }
+
+    const stored = await this.readMetadata(key);
+    return {
+      contentType: stored?.contentType,
+      contentLength: info.size,
+      etag: stored?.etag,
+      lastModified: info.mtime,
+      customMetadata: stored?.customMetadata,
+      cacheControl: stored?.cacheControl,
+      contentDisposition: stored?.contentDisposition,
+      contentEncoding: stored?.contentEncoding,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+    await rm(this.metadataPath(key), { force: true });
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.delete(key);
+    }
+  }
+
+  async list(options?: ObjectListOptions): Promise<ObjectListResult> {
+    const prefix = options?.prefix ?? '';
+    const limit = options?.limit ?? DEFAULT_LIST_LIMIT;
+
+    // Keys sort like R2 (lexicographically); the cursor is the last key returned
+    const keys = (await this.walk(''))
+      .filter((key) => key.startsWith(prefix) && (!options?.cursor || key > options.cursor))
+      .sort();
+
+    const objects: ObjectInfo[] = [];
+    const delimitedPrefixes = new Set<string>();
+    let lastKey: string | undefined;
+    let truncated = false;
+
+    for (const key of keys) {
+      if (objects.length + delimitedPrefixes.size >= limit) {
+        truncated = true;
+        break;
+      }
+
+      if (options?.delimiter) {
+        const index = key.indexOf(options.delimiter, prefix.length);
+        if (index !== -1) {
+          delimitedPrefixes.add(key.slice(0, index + options.delimiter.length));
+          lastKey = key;
+          continue;
+        }
+      }
+
+      const metadata = await this.head(key);
+      if (metadata) {
+        objects.push({
+          key,
+          size: metadata.contentLength ?? 0,
+          etag: metadata.etag,
+          lastModified: metadata.lastModified,
+          customMetadata: metadata.customMetadata,
+        });
+      }
+      lastKey = key;
+    }
+
+    return {
+      objects,
+      cursor: truncated ? lastKey : undefined,
+      truncated,
+      delimitedPrefixes: [...delimitedPrefixes],
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.head(key)) !== null;
+  }
+
+  async getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string> {
+    if (!this.publicUrlBase) {
+      throw new Error('Signed URL generation requires publicUrlBase configuration for the local provider');
+    }
+    this.resolveKey(key);
+
+    const method = options?.method ?? 'GET';
+    const expires = Math.floor(Date.now() / 1000) + (options?.expiresIn ?? 3600);
+    const signature = await hmacSha256Hex(this.signingSecret, `${method}\n${key}\n${expires}`);
+
+    const url = new URL(`${this.publicUrlBase}/${key.split('/').map(encodeURIComponent).join('/')}`);
+    url.searchParams.set('expires', String(expires));
+    url.searchParams.set('method', method);
+    url.searchParams.set('signature', signature);
+    return url.toString();
+  }
+
+  /**
+   * Check a URL produced by getSignedUrl: signature, expiry and method
+   * @returns The object key when valid, otherwise null
+   */
+  async verifySignedUrl(signedUrl: string, method: 'GET' | 'PUT' = 'GET'): Promise<string | null> {
+    if (!this.publicUrlBase) {
+      return null;
+    }
+
+    const url = new URL(signedUrl);
+    const base = new URL(this.publicUrlBase);
+    const basePathname = base.pathname.replace(/\/+$/, '');
+    if (url.origin !== base.origin || !url.pathname.startsWith(`${basePathname}/`)) {
+      return null;
+    }
+
+    const expires = Number(url.searchParams.get('expires'));
+    const signature = url.searchParams.get('signature') ?? '';
+    if (url.searchParams.get('method') !== method || !Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return null;
+    }
+
+    const key = url.pathname.slice(basePathname.length + 1).split('/').map(decodeURIComponent).join('/');
+    const expected = await hmacSha256Hex(this.signingSecret, `${method}\n${key}\n${expires}`);
+    return timingSafeEqual(signature, expected) ? key : null;
+  }
+
+  async copy(sourceKey: string, destinationKey: string): Promise<void> {
+    if (!(await this.exists(sourceKey))) {
+      throw new Error(`Source object not found: ${sourceKey}`);
+    }
+
+    const destinationPath = this.resolveKey(destinationKey);
+    await mkdir(path.dirname(destinationPath), { recursive: true });
+    await copyFile(this.resolveKey(sourceKey), destinationPath);
+
+    const stored = await this.readMetadata(sourceKey);
+    if (stored) {
+      await this.writeMetadata(destinationKey, stored);
+    }
+  }
+
+  async close(): Promise<void> {
+    // Nothing is held open between calls
+  }
+
+  /**
+   * Map a key to a path under basePath, rejecting keys that would escape it
+   */
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.basePath, key);
+    if (
+      !key ||
+      path.isAbsolute(key) ||
+      !filePath.startsWith(this.basePath + path.sep) ||
+      key.split('/')[0] === METADATA_DIR
+    ) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private metadataPath(key: string): string {
+    this.resolveKey(key);
+    return path.join(this.basePath, METADATA_DIR, `${key}.json`);
+  }
+
+  private async readMetadata(key: string): Promise<StoredMetadata | null> {
+    try {
+      return JSON.parse(await readFile(this.metadataPath(key), 'utf8')) as StoredMetadata;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  private async writeMetadata(key: string, metadata: StoredMetadata): Promise<void> {
+    const metadataPath = this.metadataPath(key);
+    await mkdir(path.dirname(metadataPath), { recursive: true });
+    await writeFile(metadataPath, JSON.stringify(metadata));
+  }
+
+  private async walk(relativeDir: string): Promise<string[]> {
+    let entries;
+    try {
+      entries = await readdir(path.join(this.basePath, relativeDir), { withFileTypes: true });
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    const keys: string[] = [];
+    for (const entry of entries) {
+      const key = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (key !== METADATA_DIR) {
+          keys.push(...(await this.walk(key)));
+        }
+      } else if (entry.isFile()) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * Create a local file system object store adapter from configuration
+ */
+export function createLocalObjectStore(config: ObjectStoreConfig): IObjectStore {
+  if (!config.localBasePath) {
+    throw new Error('localBasePath is required for local provider');
+  }
+  return new LocalObjectStoreAdapter(config.localBasePath, config.publicUrlBase, config.localSigningSecret);
+}
+
+// Register the provider
+registerObjectStoreProvider('local', createLocalObjectStore);
+
+export { LocalObjectStoreAdapter as LocalObjectStore };
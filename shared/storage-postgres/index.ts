@@ -0,0 +1,17 @@
+// Import the adapter to register it with the provider factory
+import './postgres-database';
+
+// Re-export adapter classes
+export {
+  PostgresDatabase,
+  PostgresDatabaseAdapter,
+  PostgresTransaction,
+  createPostgresDatabase,
+  postgresPoolTypes,
+  translateSql,
+} from './postgres-database';
+
+// Re-export core types for convenience
+export type { IDatabase, ITransaction, DatabaseConfig } from '../storage-core';
+
+export { createDatabase } from '../storage-core';
@@ -0,0 +1,264 @@
+import pg from 'pg';
+import type { Pool, PoolClient } from 'pg';
+import type {
+  IDatabase,
+  ITransaction,
+  ExecuteResult,
+  DatabaseConfig,
+} from '../storage-core';
+import { registerDatabaseProvider } from '../storage-core';
+
+/**
+ * Anything that can run a query: the pool, or a client checked out for a transaction
+ */
+type Queryable = Pick<Pool, 'query'> | PoolClient;
+
+// COUNT(*) and SUM() over integers come back as int8/numeric, which pg returns
+// as strings. D1 returns numbers, and the worker's row mappers expect them.
+const INT8_OID = 20;
+const NUMERIC_OID = 1700;
+
+const pgTypes = {
+  getTypeParser(oid: number, format?: 'text' | 'binary') {
+    if (oid === INT8_OID || oid === NUMERIC_OID) {
+      return (value: string) => Number(value);
+    }
+    return pg.types.getTypeParser(oid, format);
+  },
+} as pg.CustomTypesConfig;
+
+const NOW_UTC = "now() AT TIME ZONE 'UTC'";
+
+/**
+ * Translate a SQLite-flavoured statement (as written for D1) to Postgres:
+ *
+ * - `?` placeholders become `$1`, `$2`, ...
+ * - `datetime('now'[, modifier])` and `date('now'[, modifier])` become
+ *   to_char() in the same text format SQLite produces
+ * - `INSERT OR IGNORE INTO` becomes `INSERT INTO ... ON CONFLICT DO NOTHING`
+ * - `LIKE` becomes `ILIKE` (SQLite's LIKE is case-insensitive)
+ * - camelCase aliases (`site_id as siteId`) are quoted so Postgres keeps their case
+ *
+ * String literals, quoted identifiers and comments are left untouched.
+ */
+export function translateSql(sql: string): string {
+  let text = sql.replace(
+    /\b(datetime|date)\(\s*'now'\s*(?:,\s*'([^']+)'\s*)?\)/gi,
+    (_match, fn: string, modifier?: string) => {
+      const time = modifier ? `${NOW_UTC} + interval '${modifier}'` : NOW_UTC;
+      const format = fn.toLowerCase() === 'date' ? 'YYYY-MM-DD' : 'YYYY-MM-DD HH24:MI:SS';
+      return `to_char(${time}, '${format}')`;
+    }
+  );
+
+  let insertOrIgnore = false;
+  let placeholder = 0;
+  let result = '';
+
+  // Walk the statement, only rewriting the parts that are SQL code
+  const tokenPattern = /'(?:[^']|'')*'|"(?:[^"]|"")*"|--[^\n]*|\/\*[\s\S]*?\*\//g;
+  let lastIndex = 0;
+  const rewriteCode = (code: string) =>
+    code
+      .replace(/\bINSERT\s+OR\s+IGNORE\s+INTO\b/gi, () => {
+        insertOrIgnore = true;
+        return 'INSERT INTO';
+      })
+      .replace(/\bLIKE\b/gi, 'ILIKE')
+      .replace(/\b([Aa][Ss]\s+)([a-z_][a-z0-9_]*[A-Z][A-Za-z0-9_]*)\b/g, '$1"$2"')
+      .replace(/\?/g, () => `$${++placeholder}`);
+
+  for (const match of text.matchAll(tokenPattern)) {
+    result += rewriteCode(text.slice(lastIndex, match.index)) + match[0];
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  result += rewriteCode(text.slice(lastIndex));
+  text = result;
+
+  if (insertOrIgnore) {
+    const returning = text.search(/\bRETURNING\b/i);
+    text = returning === -1
+      ? `${text.replace(/[\s;]+$/, '')} ON CONFLICT DO NOTHING`
+      : `${text.slice(0, returning)}ON CONFLICT DO NOTHING ${text.slice(returning)}`;
+  }
+
+  return text;
+}
+
+/**
+ * Convert bound values the way D1 does: booleans become 0/1 (flags are
+ * INTEGER columns in the schema) and undefined becomes NULL
+ */
+function toPostgresParams(params?: unknown[]): unknown[] {
+  return (params ?? []).map((value) => {
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return value;
+  });
+}
+
+async function runQuery<T>(client: Queryable, sql: string, params?: unknown[]): Promise<T[]> {
+  const result = await client.query(translateSql(sql), toPostgresParams(params));
+  return result.rows as T[];
+}
+
+async function runExecute(client: Queryable, sql: string, params?: unknown[]): Promise<ExecuteResult> {
+  const result = await client.query(translateSql(sql), toPostgresParams(params));
+  return {
+    success: true,
+    changes: result.rowCount ?? 0,
+    // Postgres has no rowid; use RETURNING id when the new key is needed
+    lastRowId: 0,
+  };
+}
+
+/**
+ * A transaction on one checked-out client. Nested transactions use savepoints.
+ */
+export class PostgresTransaction implements ITransaction {
+  readonly dialect = 'postgresql';
+  private savepointDepth = 0;
+
+  constructor(private client: PoolClient) {}
+
+  async query<T = unknown>(sql: string, params?: unknown[]): Promise<T[]> {
+    return runQuery<T>(this.client, sql, params);
+  }
+
+  async queryOne<T = unknown>(sql: string, params?: unknown[]): Promise<T | null> {
+    const rows = await runQuery<T>(this.client, sql, params);
+    return rows[0] ?? null;
+  }
+
+  async execute(sql: string, params?: unknown[]): Promise<ExecuteResult> {
+    return runExecute(this.client, sql, params);
+  }
+
+  async transaction<T>(fn: (tx: ITransaction) => Promise<T>): Promise<T> {
+    const savepoint = `leaselab_tx_${this.savepointDepth++}`;
+    await this.client.query(`SAVEPOINT ${savepoint}`);
+
+    try {
+      const result = await fn(this);
+      await this.client.query(`RELEASE SAVEPOINT ${savepoint}`);
+      return result;
+    } catch (error) {
+      await this.client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      throw error;
+    } finally {
+      this.savepointDepth--;
+    }
+  }
+
+  async batch(
+    statements: Array<{ sql: string; params?: unknown[] }>
+  ): Promise<ExecuteResult[]> {
+    const results: ExecuteResult[] = [];
+    for (const { sql, params } of statements) {
+      results.push(await runExecute(this.client, sql, params));
+    }
+    return results;
+  }
+
+  async close(): Promise<void> {
+    // The client is released by the adapter when the transaction ends
+  }
+}
+
+/**
+ * PostgreSQL database adapter implementing IDatabase interface
+ *
+ * Runs the worker's D1 queries unchanged (see translateSql) against the
+ * schema in scripts/migrations-postgres, which keeps SQLite's column types:
+ * TEXT timestamps, INTEGER flags and DOUBLE PRECISION amounts.
+ */
+export class PostgresDatabaseAdapter implements IDatabase {
+  readonly dialect = 'postgresql';
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async query<T = unknown>(sql: string, params?: unknown[]): Promise<T[]> {
+    return runQuery<T>(this.pool, sql, params);
+  }
+
+  async queryOne<T = unknown>(sql: string, params?: unknown[]): Promise<T | null> {
+    const rows = await runQuery<T>(this.pool, sql, params);
+    return rows[0] ?? null;
+  }
+
+  async execute(sql: string, params?: unknown[]): Promise<ExecuteResult> {
+    return runExecute(this.pool, sql, params);
+  }
+
+  /**
+   * Real transaction: BEGIN/COMMIT on a dedicated client, ROLLBACK if fn throws.
+   * Unlike D1, reads inside the transaction see its own writes.
+   */
+  async transaction<T>(fn: (tx: ITransaction) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await fn(new PostgresTransaction(client));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async batch(
+    statements: Array<{ sql: string; params?: unknown[] }>
+  ): Promise<ExecuteResult[]> {
+    // Atomic like D1's batch(): one failing statement rolls back the rest
+    return this.transaction((tx) => tx.batch(statements));
+  }
+
+  /**
+   * Run a script of one or more statements without parameters or translation
+   * (e.g. a file from scripts/migrations-postgres)
+   */
+  async exec(sql: string): Promise<void> {
+    await this.pool.query(sql);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/**
+ * Create a PostgreSQL database adapter from configuration
+ * idleTimeout is in milliseconds
+ */
+export function createPostgresDatabase(config: DatabaseConfig): IDatabase {
+  if (!config.connectionString) {
+    throw new Error('connectionString is required for postgresql provider');
+  }
+
+  return new PostgresDatabaseAdapter(
+    new pg.Pool({
+      connectionString: config.connectionString,
+      max: config.poolSize,
+      idleTimeoutMillis: config.idleTimeout,
+      types: pgTypes,
+    })
+  );
+}
+
+/**
+ * Pool options that make pg return numbers for COUNT/SUM, as D1 does.
+ * Use these when building a Pool by hand for PostgresDatabaseAdapter.
+ */
+export const postgresPoolTypes = pgTypes;
+
+// Register the provider
+registerDatabaseProvider('postgresql', createPostgresDatabase);
+
+export { PostgresDatabaseAdapter as PostgresDatabase };
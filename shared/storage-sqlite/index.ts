@@ -0,0 +1,15 @@
+// Import the adapter to register it with the provider factory
+import './sqlite-database';
+
+// Re-export adapter classes
+export {
+  SQLiteDatabase,
+  SQLiteDatabaseAdapter,
+  applySqlFiles,
+  createSQLiteDatabase,
+} from './sqlite-database';
+
+// Re-export core types for convenience
+export type { IDatabase, ITransaction, DatabaseConfig } from '../storage-core';
+
+export { createDatabase } from '../storage-core';
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the SQLite database adapter
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'node:path';
+import { SQLiteDatabaseAdapter, applySqlFiles, createSQLiteDatabase } from './sqlite-database';
+import { createDatabase } from '../storage-core';
+import { createLease, getLeaseById } from '../../apps/worker/lib/db/leases';
+import { createProperty } from '../../apps/worker/lib/db/properties';
+import { createTenant } from '../../apps/worker/lib/db/tenants';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../scripts/migrations');
+
+describe('SQLiteDatabaseAdapter', () => {
+  let db: SQLiteDatabaseAdapter;
+
+  beforeEach(async () => {
+    db = new SQLiteDatabaseAdapter();
+    await db.exec('CREATE TABLE units (id TEXT PRIMARY KEY, status TEXT NOT NULL, is_active INTEGER, notes TEXT)');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should bind booleans and undefined the way D1 does', async () => {
+    const result = await db.execute('INSERT INTO units (id, status, is_active, notes) VALUES (?, ?, ?, ?)', [
+      'unit_1',
+      'available',
+      true,
+      undefined,
+    ]);
+
+    expect(result).toMatchObject({ success: true, changes: 1 });
+    expect(await db.queryOne('SELECT * FROM units WHERE id = ?', ['unit_1'])).toEqual({
+      id: 'unit_1',
+      status: 'available',
+      is_active: 1,
+      notes: null,
+    });
+  });
+
+  it('should roll back a transaction when the function throws', async () => {
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.execute('INSERT INTO units (id, status) VALUES (?, ?)', ['unit_1', 'occupied']);
+        expect(await tx.query('SELECT id FROM units')).toHaveLength(1);
+        throw new Error('no lease');
+      })
+    ).rejects.toThrow('no lease');
+
+    expect(await db.query('SELECT id FROM units')).toEqual([]);
+  });
+
+  it('should roll back a whole batch when one statement fails', async () => {
+    await expect(
+      db.batch([
+        { sql: 'INSERT INTO units (id, status) VALUES (?, ?)', params: ['unit_1', 'available'] },
+        { sql: 'INSERT INTO units (id, status) VALUES (?, ?)', params: ['unit_1', 'available'] },
+      ])
+    ).rejects.toThrow();
+
+    expect(await db.query('SELECT id FROM units')).toEqual([]);
+  });
+
+  it('should be created through the provider registry', () => {
+    expect(createDatabase({ provider: 'sqlite' })).toBeInstanceOf(SQLiteDatabaseAdapter);
+    expect(createSQLiteDatabase({ provider: 'sqlite', connectionString: ':memory:' })).toBeInstanceOf(SQLiteDatabaseAdapter);
+  });
+});
+
+describe('SQLite with the real migrations', () => {
+  it('should apply scripts/migrations and run the worker DB functions', async () => {
+    const db = new SQLiteDatabaseAdapter();
+    const applied = await applySqlFiles(db, MIGRATIONS_DIR);
+    expect(applied[0]).toBe('0000_init_from_production.sql');
+
+    const property = await createProperty(db, 'site_1', {
+      name: 'Maple House',
+      address: '1 Main St',
+      city: 'Toronto',
+      province: 'ON',
+      postalCode: 'M1M 1M1',
+      propertyType: 'single_family',
+    });
+
+    const tenant = await createTenant(db, 'site_1', {
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      email: 'ada@example.com',
+      phone: '555-0100',
+      status: 'active',
+    });
+    const lease = await createLease(db, 'site_1', {
+      propertyId: property.id,
+      tenantId: tenant.id,
+      startDate: '2026-01-01',
+      endDate: '2026-12-31',
+      monthlyRent: 2000,
+      securityDeposit: 2000,
+      status: 'active',
+    });
+
+    const stored = await getLeaseById(db, 'site_1', lease.id);
+    expect(stored?.tenant?.firstName).toBe('Ada');
+    expect(stored?.property?.name).toBe('Maple House');
+
+    await db.close();
+  });
+});
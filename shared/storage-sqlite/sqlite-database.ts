@@ -0,0 +1,156 @@
+import Database from 'better-sqlite3';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  IDatabase,
+  ITransaction,
+  ExecuteResult,
+  DatabaseConfig,
+} from '../storage-core';
+import { registerDatabaseProvider } from '../storage-core';
+
+type SQLiteValue = string | number | bigint | Buffer | null;
+
+/**
+ * Convert bound values the way D1 does: booleans become 0/1 and undefined
+ * becomes NULL (better-sqlite3 rejects both as-is)
+ */
+function toSQLiteParams(params?: unknown[]): SQLiteValue[] {
+  return (params ?? []).map((value) => {
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof Date) return value.toISOString();
+    return value as SQLiteValue;
+  });
+}
+
+/**
+ * SQLite database adapter implementing IDatabase interface
+ *
+ * Runs the same SQL as D1 (which is SQLite) against a local file or an
+ * in-memory database, so the worker's DB functions and integration tests
+ * can run offline. Foreign keys are enforced, as on D1.
+ */
+export class SQLiteDatabaseAdapter implements IDatabase {
+  private db: Database.Database;
+  private transactionDepth = 0;
+
+  constructor(db: Database.Database | string = ':memory:') {
+    this.db = typeof db === 'string' ? new Database(db) : db;
+    this.db.pragma('foreign_keys = ON');
+  }
+
+  async query<T = unknown>(sql: string, params?: unknown[]): Promise<T[]> {
+    const stmt = this.db.prepare(sql);
+    if (!stmt.reader) {
+      stmt.run(...toSQLiteParams(params));
+      return [];
+    }
+    return stmt.all(...toSQLiteParams(params)) as T[];
+  }
+
+  async queryOne<T = unknown>(sql: string, params?: unknown[]): Promise<T | null> {
+    const stmt = this.db.prepare(sql);
+    if (!stmt.reader) {
+      stmt.run(...toSQLiteParams(params));
+      return null;
+    }
+    return (stmt.get(...toSQLiteParams(params)) as T | undefined) ?? null;
+  }
+
+  async execute(sql: string, params?: unknown[]): Promise<ExecuteResult> {
+    return this.run(sql, params);
+  }
+
+  /**
+   * Real SQLite transaction. Nested calls use savepoints, so an inner failure
+   * only rolls back the inner work if the caller catches it.
+   *
+   * There is a single connection: anything else awaited on this adapter
+   * while fn is running also becomes part of the transaction.
+   */
+  async transaction<T>(fn: (tx: ITransaction) => Promise<T>): Promise<T> {
+    const savepoint = `leaselab_tx_${this.transactionDepth++}`;
+    this.db.exec(`SAVEPOINT ${savepoint}`);
+
+    try {
+      const result = await fn(this);
+      this.db.exec(`RELEASE ${savepoint}`);
+      return result;
+    } catch (error) {
+      this.db.exec(`ROLLBACK TO ${savepoint}`);
+      this.db.exec(`RELEASE ${savepoint}`);
+      throw error;
+    } finally {
+      this.transactionDepth--;
+    }
+  }
+
+  async batch(
+    statements: Array<{ sql: string; params?: unknown[] }>
+  ): Promise<ExecuteResult[]> {
+    // Atomic like D1's batch(): one failing statement rolls back the rest
+    const runAll = this.db.transaction(() => statements.map(({ sql, params }) => this.run(sql, params)));
+    return runAll();
+  }
+
+  /**
+   * Run a script of one or more statements without parameters (e.g. a migration file)
+   */
+  async exec(sql: string): Promise<void> {
+    this.db.exec(sql);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private run(sql: string, params?: unknown[]): ExecuteResult {
+    const stmt = this.db.prepare(sql);
+
+    // INSERT ... RETURNING and friends return rows; D1 accepts them in run()
+    if (stmt.reader) {
+      const rows = stmt.all(...toSQLiteParams(params));
+      return { success: true, changes: rows.length, lastRowId: 0 };
+    }
+
+    const result = stmt.run(...toSQLiteParams(params));
+    return {
+      success: true,
+      changes: result.changes,
+      lastRowId: Number(result.lastInsertRowid),
+    };
+  }
+}
+
+/**
+ * Apply every .sql file in a directory in filename order.
+ * Meant for fresh test databases; it does not track what has been applied.
+ */
+export async function applySqlFiles(db: SQLiteDatabaseAdapter, directory: string): Promise<string[]> {
+  const files = (await readdir(directory)).filter((file) => file.endsWith('.sql')).sort();
+
+  for (const file of files) {
+    const sql = await readFile(path.join(directory, file), 'utf8');
+    try {
+      await db.exec(sql);
+    } catch (error) {
+      throw new Error(`Failed to apply ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Create a SQLite database adapter from configuration
+ * connectionString is a file path, or ':memory:' (the default)
+ */
+export function createSQLiteDatabase(config: DatabaseConfig): IDatabase {
+  return new SQLiteDatabaseAdapter(config.connectionString || ':memory:');
+}
+
+// Register the provider
+registerDatabaseProvider('sqlite', createSQLiteDatabase);
+
+export { SQLiteDatabaseAdapter as SQLiteDatabase };
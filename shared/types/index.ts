@@ -113,7 +113,10 @@ export interface Lead {
   employmentStatus: EmploymentStatus;
   moveInDate: string;
   message?: string;
+  intakeFormVersion?: number; // Intake form version the applicant submitted against
+  intakeAnswers?: IntakeAnswers; // Answers to the site's custom intake questions
   status: LeadStatus;
+  pipelineStage?: string; // Site pipeline stage within the status; unset = the status's first stage
   aiScore?: number;
   aiLabel?: AILabel;
   landlordNote?: string; // Internal-only notes (includes legacy income info)
@@ -217,9 +220,41 @@ export interface LeadAIResult {
   recommendation: string;
   fraudSignals: string[];
   modelVersion: string;
+  rubricVersion: number | null; // Scoring rubric version; null when not scored by the AI evaluator
   evaluatedAt: string;
 }
 
+export type AIRecommendation = 'approve' | 'approve_with_conditions' | 'approve_with_verification' | 'reject';
+
+// Deduction applied while a measure is below `below`; the lowest matching tier wins
+export interface AIRubricTier {
+  below: number;
+  deduction: number;
+}
+
+export type AIDocumentQuality = 'excellent' | 'good' | 'poor';
+
+// How the AI evaluator turns extracted data, risk flags and fraud signals into
+// a 0-100 score, a label and a recommendation. Scores start at 100.
+export interface AIScoringRubric {
+  incomeTiers: AIRubricTier[]; // monthly income as a multiple of rent
+  employmentTiers: AIRubricTier[]; // months with the current employer
+  documentQualityDeductions: Record<AIDocumentQuality, number>;
+  riskFlagDeductions: Record<string, number>;
+  fraudSignalDeductions: Record<string, number>;
+  labelCutoffs: { A: number; B: number }; // minimum score for each label; lower scores are C
+  disqualifyingFraudSignals: string[]; // always recommend rejection
+  verificationFraudSignals: string[]; // approve only after manual verification
+}
+
+// Versions are immutable; saving the rubric creates a new version
+export interface AIRubric {
+  version: number; // 0 = built-in default (site has never saved a rubric)
+  rubric: AIScoringRubric;
+  createdBy?: string;
+  createdAt?: string;
+}
+
 export interface AIEvaluationRequest {
   leadId: string;
   lead: Lead;
@@ -269,6 +304,65 @@ export type TenantStatus =
   | 'inactive'       // Tenant is no longer active
   | 'evicted';       // Tenant was evicted
 
+// Tenant Notice Types (Ontario LTB forms)
+export type NoticeType =
+  | 'n1'             // Notice of rent increase (90 days)
+  | 'n4'             // Notice to end tenancy early for non-payment of rent
+  | 'n11';           // Agreement to end the tenancy
+
+export type NoticeStatus = 'draft' | 'served' | 'void' | 'effective' | 'completed';
+
+export type NoticeServiceMethod = 'hand' | 'mail' | 'courier' | 'email' | 'mail_slot';
+
+export interface NoticeDetails {
+  // N1
+  currentRent?: number;
+  newRent?: number;
+  // N4
+  arrearsAmount?: number;
+  arrearsPeriodStart?: string;
+  arrearsPeriodEnd?: string;
+  // N11
+  agreedTerminationDate?: string;
+  tenantSignedOn?: string;
+  landlordSignedOn?: string;
+}
+
+export interface TenantNotice {
+  id: string;
+  tenantId: string;
+  leaseId?: string;
+  propertyId?: string;
+  unitId?: string;
+  type: NoticeType;
+  status: NoticeStatus;
+  servedOn?: string;
+  serviceMethod?: NoticeServiceMethod;
+  effectiveOn?: string;
+  details: NoticeDetails;
+  reminderSchedule: number[];
+  nextReminderOn?: string;
+  reminderDueAt?: string;
+  documentId?: string;
+  notes?: string;
+  voidReason?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Computed fields (from joins)
+  tenantName?: string;
+  events?: NoticeEvent[];
+}
+
+export interface NoticeEvent {
+  id: string;
+  noticeId: string;
+  type: string;
+  payload?: Record<string, unknown>;
+  createdBy?: string;
+  createdAt: string;
+}
+
 // Lease Types
 export interface Lease {
   id: string;
@@ -298,6 +392,143 @@ export type LeaseStatus =
   | 'expired'
   | 'terminated';
 
+// Lease Ledger Types
+export type LedgerEntryType = 'charge' | 'payment' | 'credit' | 'adjustment';
+
+export type LedgerEntryCategory = 'rent' | 'deposit' | 'late_fee' | 'utility' | 'other';
+
+export type PaymentMethod = 'cash' | 'cheque' | 'e_transfer' | 'pad' | 'card' | 'other';
+
+export interface LedgerEntry {
+  id: string;
+  leaseId: string;
+  entryType: LedgerEntryType;
+  category: LedgerEntryCategory;
+  amount: number; // Positive for charge/payment/credit; signed for adjustment
+  description?: string;
+  effectiveDate: string; // YYYY-MM-DD
+  period?: string; // YYYY-MM for auto-generated rent charges
+  paymentMethod?: PaymentMethod;
+  reference?: string;
+  createdBy?: string;
+  createdAt: string;
+  // Computed
+  balance?: number; // Running balance after this entry
+}
+
+export interface LedgerSummary {
+  totalCharged: number;
+  totalPaid: number;
+  totalCredited: number;
+  totalAdjusted: number;
+  balance: number; // Positive = tenant owes, negative = prepaid
+}
+
+export interface LeaseLedger {
+  leaseId: string;
+  entries: LedgerEntry[];
+  summary: LedgerSummary;
+}
+
+// Per-lease ledger totals used by the rent roll
+export interface LeaseBalanceSummary extends LedgerSummary {
+  leaseId: string;
+  propertyId: string;
+  unitId?: string;
+  tenantId: string;
+  monthlyRent: number;
+  collectedThisMonth: number;
+}
+
+// Delinquency / Aging Types
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+export type AgingBuckets = Record<AgingBucket, number>;
+
+// Unpaid remainder of a single charge after payments/credits are applied oldest-first
+export interface AgedLedgerItem {
+  entryId: string;
+  leaseId: string;
+  category: LedgerEntryCategory;
+  description?: string;
+  effectiveDate: string;
+  originalAmount: number;
+  outstanding: number;
+  daysPastDue: number;
+  bucket: AgingBucket;
+}
+
+export interface TenantDelinquency {
+  tenantId: string;
+  tenantName: string;
+  email?: string;
+  propertyId: string;
+  propertyName: string;
+  unitId?: string;
+  unitNumber?: string;
+  leaseIds: string[];
+  buckets: AgingBuckets;
+  total: number;
+  items: AgedLedgerItem[];
+}
+
+export interface PropertyDelinquency {
+  propertyId: string;
+  propertyName: string;
+  tenantCount: number;
+  buckets: AgingBuckets;
+  total: number;
+}
+
+export interface DelinquencyReport {
+  asOf: string;
+  tenants: TenantDelinquency[];
+  properties: PropertyDelinquency[];
+  totals: AgingBuckets & { total: number };
+}
+
+// Rent Roll / Portfolio Types (one row per unit, joined in SQL)
+export interface RentRollRow {
+  unitId: string;
+  unitNumber: string;
+  propertyId: string;
+  propertyName: string;
+  propertyAddress: string;
+  status: UnitStatus;
+  rentAmount: number; // the unit's listed rent
+  squareFeet?: number;
+  // The unit's current lease: active or signed, latest start on or before asOf
+  leaseId?: string;
+  leaseStart?: string;
+  leaseEnd?: string;
+  leaseRent?: number;
+  tenantId?: string;
+  tenantName?: string;
+  // Summed over every lease the unit has had, so old arrears stay visible
+  collectedThisMonth: number;
+  balance: number;
+}
+
+export interface PortfolioSummary {
+  asOf: string;
+  propertyCount: number;
+  totalUnits: number;
+  occupiedUnits: number;
+  vacantUnits: number;
+  totalRent: number; // occupied units, at the current lease's rent where there is one
+  potentialRent: number; // every unit at its listed rent
+  occupancyRate: number; // percent, 0-100
+  activeTenants: number; // tenants with a current lease
+  collectedThisMonth: number;
+  totalOutstanding: number; // positive unit balances only; credits are not netted off
+}
+
+export interface RentRoll {
+  asOf: string;
+  rows: RentRollRow[];
+  summary: PortfolioSummary;
+}
+
 // Lease File Types
 export interface LeaseFile {
   id: string;
@@ -359,11 +590,43 @@ export type WorkOrderStatus =
   | 'completed'
   | 'cancelled';
 
-// Screening Types (Placeholder for Certn/SingleKey)
+// Photo or video attached to a work order (stored in the private bucket)
+export interface WorkOrderAttachment {
+  id: string;
+  workOrderId: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  r2Key: string;
+  uploadedByTenantId?: string;
+  uploadedByUserId?: string;
+  createdAt: string;
+  // Computed (for ops viewing)
+  signedUrl?: string;
+  expiresAt?: string;
+}
+
+// Tenant Portal Types
+export interface TenantPortalSession {
+  sessionToken: string;
+  expiresAt: string;
+}
+
+// What a signed-in tenant sees about themselves
+export interface TenantPortalProfile {
+  tenant: Tenant;
+  lease?: Lease; // Current lease, with property and unit
+  balance?: LedgerSummary;
+  openWorkOrderCount: number;
+}
+
+// Screening Types (Certn/SingleKey via worker provider adapters)
 export interface ScreeningResult {
   id: string;
   leadId: string;
-  provider: 'certn' | 'singlekey';
+  applicantId?: string;
+  provider: string; // 'certn' | 'singlekey' | 'stub'
+  referenceId: string; // Provider's order/report ID
   status: ScreeningStatus;
   creditScore?: number;
   criminalCheck?: 'clear' | 'flagged';
@@ -372,11 +635,12 @@ export interface ScreeningResult {
   report?: Record<string, unknown>;
   requestedAt: string;
   completedAt?: string;
+  updatedAt: string;
 }
 
 export type ScreeningStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
 
-// DocuSign Types (Placeholder)
+// E-Signature Types (provider-agnostic; named after DocuSign envelopes)
 export interface DocuSignEnvelopeInfo {
   envelopeId: string;
   status: DocuSignStatus;
@@ -402,6 +666,136 @@ export type DocuSignStatus =
   | 'declined'
   | 'voided';
 
+// Persisted e-signature envelope for a lease
+export interface LeaseSignatureEnvelope extends DocuSignEnvelopeInfo {
+  id: string;
+  leaseId: string;
+  provider: string;
+  completedAt?: string;
+  signedFileId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Communication Types (outbound email log and delivery queue)
+export type CommunicationEntityType = 'application' | 'tenant' | 'work_order';
+
+export type CommunicationChannel = 'email';
+
+export type CommunicationStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface Communication {
+  id: string;
+  entityType: CommunicationEntityType;
+  entityId: string;
+  channel: CommunicationChannel;
+  templateKey?: string;
+  recipientEmail: string;
+  recipientName?: string;
+  subject: string;
+  body: string;
+  status: CommunicationStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  idempotencyKey?: string;
+  provider?: string;
+  providerMessageId?: string;
+  sentAt?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Audit Log Types (who changed what, per site)
+export type AuditEntityType =
+  | 'property'
+  | 'unit'
+  | 'lead'
+  | 'application'
+  | 'tenant'
+  | 'lease'
+  | 'work_order'
+  | 'user'
+  | 'site_api_token';
+
+// Field-level diff; created records have before = null, deleted ones after = null
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditLogEntry {
+  id: string;
+  siteId?: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  performedBy?: string;
+  performedByName?: string;
+  // AuditChanges for create/update/delete; free-form details for other actions
+  changes: Record<string, any>;
+  bulkActionId?: string;
+  createdAt: string;
+}
+
+// Global Search Types (ops command palette)
+export type SearchEntityType = 'property' | 'unit' | 'lead' | 'tenant' | 'work_order';
+
+export interface SearchResult {
+  entityType: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle?: string;
+  propertyId?: string; // the property the record belongs to; a tenant's is that of their current lease
+}
+
+// Best matches first within each group; types the caller cannot read are empty
+export type SearchResults = Record<SearchEntityType, SearchResult[]>;
+
+// Intake Form Types (per-site application form schema)
+export type IntakeFieldType =
+  | 'text'
+  | 'textarea'
+  | 'email'
+  | 'phone'
+  | 'number'
+  | 'date'
+  | 'select'
+  | 'yes_no'
+  | 'list';
+
+export interface IntakeFormField {
+  key: string;
+  label: string;
+  type: IntakeFieldType;
+  required: boolean;
+  helpText?: string;
+  options?: string[]; // select
+  itemFields?: IntakeFormField[]; // list: the columns of each entry (e.g. vehicle make/model/plate)
+  maxItems?: number; // list
+}
+
+export interface IntakeFormSection {
+  id: string;
+  title: string;
+  description?: string;
+  fields: IntakeFormField[];
+}
+
+export interface IntakeFormSchema {
+  sections: IntakeFormSection[];
+}
+
+// Versions are immutable; saving the form creates a new version
+export interface IntakeForm {
+  version: number; // 0 = built-in default (site has never saved a form)
+  schema: IntakeFormSchema;
+  createdBy?: string;
+  createdAt?: string;
+}
+
+export type IntakeListItem = Record<string, string | number | boolean>;
+export type IntakeAnswerValue = string | number | boolean | IntakeListItem[];
+export type IntakeAnswers = Record<string, IntakeAnswerValue>;
+
 // API Response Types
 export interface ApiResponse<T> {
   success: boolean;
@@ -418,12 +812,24 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+// Keyset pagination for list endpoints (?limit=&cursor=)
+export interface CursorPagination {
+  limit: number;
+  nextCursor: string | null; // pass back as ?cursor= for the next page; null on the last page
+  hasMore: boolean;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  pagination: CursorPagination;
+}
+
 // User/Auth Types
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'admin' | 'maintenance' | 'viewer';
+  role: UserRole;
   passwordHash: string;
   siteId: string;
   isSuperAdmin: boolean; // Can access multiple sites
@@ -431,7 +837,50 @@ export interface User {
   updatedAt: string;
 }
 
-export type UserRole = 'admin' | 'manager' | 'staff';
+// owner: read-only, limited to the properties they own (including financials)
+// property_manager: full access (optionally limited to granted properties)
+// maintenance: work orders, plus read access to properties and tenants
+// viewer: read-only, no financials
+export type UserRole = 'owner' | 'property_manager' | 'maintenance' | 'viewer';
+
+export type Permission =
+  | 'properties:read'
+  | 'properties:write'
+  | 'properties:delete'
+  | 'leads:read'
+  | 'leads:write'
+  | 'tenants:read'
+  | 'tenants:write'
+  | 'tenants:delete'
+  | 'leases:read'
+  | 'leases:write'
+  | 'leases:delete'
+  | 'work_orders:read'
+  | 'work_orders:write'
+  | 'work_orders:delete'
+  | 'financials:read'
+  | 'financials:write'
+  | 'settings:write'
+  | 'users:admin';
+
+// Grant limiting a user to specific properties within a site
+export interface UserPropertyAccess {
+  id: string;
+  userId: string;
+  propertyId: string;
+  propertyName?: string;
+  grantedBy?: string;
+  grantedAt: string;
+}
+
+// Resolved role and property scope of a user on one site
+export interface UserAccess {
+  userId: string;
+  siteId: string;
+  role: UserRole;
+  isSuperAdmin: boolean;
+  propertyIds: string[] | null; // null = every property on the site
+}
 
 export interface Session {
   id: string;
@@ -478,6 +927,7 @@ export interface ApplicationApplicant {
 
   // Invite system
   inviteToken: string | null;
+  inviteTokenExpiresAt: string | null;
   inviteSentAt: string | null;
   inviteAcceptedAt: string | null;
 
@@ -526,6 +976,53 @@ export interface ApplicationDocument {
   expiresAt: string | null;
 }
 
+// A document as shown back to the applicant who uploaded it
+export type ApplicantInviteDocument = Pick<ApplicationDocument, 'id' | 'documentType' | 'fileName' | 'uploadedAt'>;
+
+/**
+ * What the storefront shows an invited co-applicant or guarantor.
+ * Only returned while the invite is open.
+ */
+export interface ApplicantInvite {
+  applicantType: Exclude<ApplicantType, 'primary'>;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string | null;
+  dateOfBirth: string | null;
+  employmentStatus: EmploymentStatus | null;
+  employerName: string | null;
+  jobTitle: string | null;
+  monthlyIncome: number | null;
+  expiresAt: string;
+  primaryApplicantName: string;
+  propertyName: string | null;
+  documents: ApplicantInviteDocument[];
+}
+
+/**
+ * What the storefront status page shows an applicant about their application.
+ * The stage is the applicant-facing wording, not the internal pipeline stage.
+ */
+export interface ApplicationStatusView {
+  firstName: string;
+  propertyName: string | null;
+  submittedAt: string;
+  stage: {
+    label: string;
+    description: string;
+  };
+  // False once a decision has been made; uploads are refused after that
+  acceptsDocuments: boolean;
+  missingDocumentTypes: DocumentType[];
+  // Rejected uploads that haven't been replaced yet
+  rejectedDocumentIds: string[];
+  documents: Array<
+    Pick<ApplicationDocument, 'id' | 'documentType' | 'fileName' | 'uploadedAt' | 'verificationStatus' | 'rejectionReason'>
+  >;
+  linkExpiresAt: string;
+}
+
 export type StageTransitionType = 'manual' | 'automatic' | 'system';
 export type BypassCategory = 'ai_offline' | 'manual_override' | 'emergency' | 'other';
 
@@ -536,6 +1033,8 @@ export interface ApplicationStageTransition {
   // Stage change
   fromStage: LeadStatus;
   toStage: LeadStatus;
+  fromPipelineStage: string | null;
+  toPipelineStage: string | null;
   transitionType: StageTransitionType;
 
   // Confirmation metadata
@@ -646,6 +1145,55 @@ export interface StageConfig {
   actions?: StageActionConfig[];
 }
 
+// Stage workflow enforced by the worker (see shared/utils/application-workflow.ts)
+// checklist: the current stage's required items must be complete, or a bypass given
+// bypass: always needs a bypass reason and category (the move skips stages)
+// none: allowed as is (rejections, moving back a stage)
+export type StageTransitionGate = 'checklist' | 'bypass' | 'none';
+
+export interface StageTransitionRule {
+  to: LeadStatus;
+  gate: StageTransitionGate;
+}
+
+// A checklist item with its state; automatic items are derived from the
+// application's data, the others are ticked by the reviewer
+export interface StageChecklistItem {
+  id: string;
+  label: string;
+  description?: string;
+  required: boolean;
+  checked: boolean;
+  automatic: boolean;
+}
+
+// Reviewer-ticked checklist items, keyed by item id
+export type StageChecklistState = Record<string, boolean>;
+
+// Per-site application pipeline (see shared/utils/application-pipeline.ts).
+// Stages are ordered and each sits in one LeadStatus bucket, so a site can
+// split a status into several stages or leave a status out altogether.
+export interface PipelineChecklistItem {
+  id: string;
+  label: string;
+  description?: string;
+  required: boolean;
+}
+
+export interface PipelineStage {
+  key: string;
+  label: string;
+  bucket: LeadStatus;
+  // Extra items ticked by the reviewer before leaving the stage
+  checklist: PipelineChecklistItem[];
+}
+
+export interface ApplicationPipeline {
+  stages: PipelineStage[];
+  updatedBy?: string;
+  updatedAt?: string; // Unset for the built-in default
+}
+
 // Property-centric view types
 export interface PropertyApplicationSummary {
   propertyId: string;
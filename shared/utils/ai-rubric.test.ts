@@ -0,0 +1,138 @@
+/**
+ * Unit tests for AI scoring rubrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_AI_SCORING_RUBRIC,
+  getRequiredIncomeMultiple,
+  labelForScore,
+  recommendationForScore,
+  scoreWithRubric,
+  validateAIScoringRubric,
+} from './ai-rubric';
+import type { AIScoringRubric } from '../types';
+import type { AIScoringInput } from './ai-rubric';
+
+const applicant = (overrides: Partial<AIScoringInput> = {}): AIScoringInput => ({
+  monthlyIncome: 6000,
+  monthlyRent: 2000,
+  employmentMonths: 36,
+  documentQuality: 'excellent',
+  riskFlags: [],
+  fraudSignals: [],
+  ...overrides,
+});
+
+describe('scoreWithRubric', () => {
+  const score = (overrides: Partial<AIScoringInput>) => scoreWithRubric(DEFAULT_AI_SCORING_RUBRIC, applicant(overrides));
+
+  it('keeps the scoring used before rubrics were configurable', () => {
+    expect(score({})).toBe(100);
+
+    // Income as a multiple of rent
+    expect(score({ monthlyIncome: 3900 })).toBe(70);
+    expect(score({ monthlyIncome: 4000 })).toBe(80);
+    expect(score({ monthlyIncome: 5000 })).toBe(90);
+    expect(score({ monthlyIncome: 5999 })).toBe(90);
+
+    // Months with the current employer
+    expect(score({ employmentMonths: 0 })).toBe(80);
+    expect(score({ employmentMonths: 11 })).toBe(85);
+    expect(score({ employmentMonths: 12 })).toBe(95);
+    expect(score({ employmentMonths: 24 })).toBe(100);
+
+    expect(score({ documentQuality: 'good' })).toBe(95);
+    expect(score({ documentQuality: 'poor' })).toBe(85);
+
+    expect(score({ riskFlags: ['income_below_requirement', 'inconsistent_information'] })).toBe(65);
+    expect(score({ riskFlags: ['employment_duration_short'] })).toBe(100);
+    expect(score({ fraudSignals: ['fake_employment_letter', 'too_perfect_documents'] })).toBe(50);
+  });
+
+  it('clamps the score to 0', () => {
+    expect(score({ monthlyIncome: 0, fraudSignals: ['forged_document', 'altered_paystub'] })).toBe(0);
+  });
+
+  it('applies a custom rubric', () => {
+    const strict: AIScoringRubric = {
+      ...DEFAULT_AI_SCORING_RUBRIC,
+      incomeTiers: [{ below: 3.5, deduction: 25 }],
+      riskFlagDeductions: { employment_duration_short: 30 },
+    };
+
+    expect(scoreWithRubric(strict, applicant())).toBe(75);
+    expect(scoreWithRubric(strict, applicant({ monthlyIncome: 7000, riskFlags: ['employment_duration_short'] }))).toBe(70);
+    expect(getRequiredIncomeMultiple(strict)).toBe(3.5);
+  });
+});
+
+describe('labelForScore', () => {
+  it('uses the rubric cut-offs', () => {
+    expect(labelForScore(DEFAULT_AI_SCORING_RUBRIC, 80)).toBe('A');
+    expect(labelForScore(DEFAULT_AI_SCORING_RUBRIC, 79)).toBe('B');
+    expect(labelForScore(DEFAULT_AI_SCORING_RUBRIC, 49)).toBe('C');
+
+    const lenient = { ...DEFAULT_AI_SCORING_RUBRIC, labelCutoffs: { A: 70, B: 40 } };
+    expect(labelForScore(lenient, 75)).toBe('A');
+    expect(labelForScore(lenient, 45)).toBe('B');
+  });
+});
+
+describe('recommendationForScore', () => {
+  it('follows the label without fraud signals', () => {
+    expect(recommendationForScore(DEFAULT_AI_SCORING_RUBRIC, 90, [])).toBe('approve');
+    expect(recommendationForScore(DEFAULT_AI_SCORING_RUBRIC, 60, [])).toBe('approve_with_conditions');
+    expect(recommendationForScore(DEFAULT_AI_SCORING_RUBRIC, 30, [])).toBe('reject');
+  });
+
+  it('rejects on a disqualifying signal and asks for verification on others', () => {
+    expect(recommendationForScore(DEFAULT_AI_SCORING_RUBRIC, 90, ['altered_paystub'])).toBe('reject');
+    expect(recommendationForScore(DEFAULT_AI_SCORING_RUBRIC, 90, ['unusually_high_income'])).toBe(
+      'approve_with_verification'
+    );
+    expect(recommendationForScore(DEFAULT_AI_SCORING_RUBRIC, 90, ['suspicious_bank_statement'])).toBe('approve');
+  });
+
+  it('uses the rubric lists of disqualifying signals', () => {
+    const rubric = {
+      ...DEFAULT_AI_SCORING_RUBRIC,
+      disqualifyingFraudSignals: ['suspicious_bank_statement'],
+      verificationFraudSignals: [],
+    };
+
+    expect(recommendationForScore(rubric, 90, ['suspicious_bank_statement'])).toBe('reject');
+    expect(recommendationForScore(rubric, 90, ['altered_paystub'])).toBe('approve');
+  });
+});
+
+describe('validateAIScoringRubric', () => {
+  it('accepts the default rubric', () => {
+    expect(validateAIScoringRubric(DEFAULT_AI_SCORING_RUBRIC)).toEqual([]);
+  });
+
+  it('lists every problem', () => {
+    const errors = validateAIScoringRubric({
+      ...DEFAULT_AI_SCORING_RUBRIC,
+      incomeTiers: [
+        { below: 2, deduction: 10 },
+        { below: 3, deduction: 20 },
+      ],
+      employmentTiers: [
+        { below: 12, deduction: 10 },
+        { below: 12, deduction: 5 },
+      ],
+      riskFlagDeductions: { no_pets: 5 },
+      disqualifyingFraudSignals: ['forged_document', 'too_perfect_documents'],
+      labelCutoffs: { A: 50, B: 50 },
+    });
+
+    expect(errors).toEqual([
+      'Income tiers should deduct less as the threshold rises',
+      'Employment tiers need different thresholds',
+      'Unknown risk flag "no_pets"',
+      '"too_perfect_documents" can\'t both disqualify and need verification',
+      'The A cut-off must be higher than the B cut-off',
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+// Per-site scoring rubric for AI evaluations. The model extracts data and
+// flags from an applicant's documents; the rubric turns those into the score,
+// label and recommendation, so sites can tune them without changing prompts.
+// Each evaluation records the rubric version that scored it.
+
+import type {
+  AIDocumentQuality,
+  AILabel,
+  AIRecommendation,
+  AIRubric,
+  AIRubricTier,
+  AIScoringRubric,
+} from '../types';
+
+// Risk flags and fraud signals the evaluation prompt asks the model to use
+export const AI_RISK_FLAGS = [
+  'income_below_requirement',
+  'employment_duration_short',
+  'documents_incomplete',
+  'documents_illegible',
+  'financial_health_poor',
+  'inconsistent_information',
+] as const;
+
+export const AI_FRAUD_SIGNALS = [
+  'forged_document',
+  'altered_paystub',
+  'fake_employment_letter',
+  'suspicious_bank_statement',
+  'too_perfect_documents',
+  'unusually_high_income',
+  'perfect_score_red_flag',
+  'inconsistent_lifestyle',
+] as const;
+
+// The scoring every site had before rubrics were configurable
+export const DEFAULT_AI_SCORING_RUBRIC: AIScoringRubric = {
+  incomeTiers: [
+    { below: 2, deduction: 30 },
+    { below: 2.5, deduction: 20 },
+    { below: 3, deduction: 10 },
+  ],
+  employmentTiers: [
+    { below: 1, deduction: 20 },
+    { below: 12, deduction: 15 },
+    { below: 24, deduction: 5 },
+  ],
+  documentQualityDeductions: { excellent: 0, good: 5, poor: 15 },
+  riskFlagDeductions: {
+    income_below_requirement: 20,
+    documents_incomplete: 10,
+    financial_health_poor: 10,
+    inconsistent_information: 15,
+  },
+  fraudSignalDeductions: {
+    forged_document: 50,
+    altered_paystub: 50,
+    fake_employment_letter: 40,
+    suspicious_bank_statement: 30,
+    too_perfect_documents: 10,
+    unusually_high_income: 10,
+  },
+  labelCutoffs: { A: 80, B: 50 },
+  disqualifyingFraudSignals: ['forged_document', 'altered_paystub'],
+  verificationFraudSignals: ['too_perfect_documents', 'unusually_high_income'],
+};
+
+export const DEFAULT_AI_RUBRIC: AIRubric = { version: 0, rubric: DEFAULT_AI_SCORING_RUBRIC };
+
+export interface AIScoringInput {
+  monthlyIncome: number;
+  monthlyRent: number;
+  employmentMonths: number;
+  documentQuality: string;
+  riskFlags: string[];
+  fraudSignals: string[];
+}
+
+function tierDeduction(tiers: AIRubricTier[], value: number): number {
+  const tier = [...tiers].sort((a, b) => a.below - b.below).find((t) => value < t.below);
+  return tier ? tier.deduction : 0;
+}
+
+function sumDeductions(deductions: Record<string, number>, keys: string[]): number {
+  return keys.reduce((total, key) => total + (deductions[key] ?? 0), 0);
+}
+
+/**
+ * Score (0-100) for an applicant under a rubric
+ */
+export function scoreWithRubric(rubric: AIScoringRubric, input: AIScoringInput): number {
+  const rentMultiple = input.monthlyRent > 0 ? input.monthlyIncome / input.monthlyRent : Infinity;
+  const quality = input.documentQuality as AIDocumentQuality;
+  const score =
+    100 -
+    tierDeduction(rubric.incomeTiers, rentMultiple) -
+    tierDeduction(rubric.employmentTiers, input.employmentMonths) -
+    (rubric.documentQualityDeductions[quality] ?? 0) -
+    sumDeductions(rubric.riskFlagDeductions, input.riskFlags) -
+    sumDeductions(rubric.fraudSignalDeductions, input.fraudSignals);
+
+  return Math.max(0, Math.min(100, score));
+}
+
+export function labelForScore(rubric: AIScoringRubric, score: number): Extract<AILabel, 'A' | 'B' | 'C'> {
+  if (score >= rubric.labelCutoffs.A) return 'A';
+  if (score >= rubric.labelCutoffs.B) return 'B';
+  return 'C';
+}
+
+/**
+ * Recommendation from the score's label, overridden by fraud signals the
+ * rubric treats as disqualifying or as needing verification
+ */
+export function recommendationForScore(
+  rubric: AIScoringRubric,
+  score: number,
+  fraudSignals: string[]
+): AIRecommendation {
+  if (fraudSignals.some((signal) => rubric.disqualifyingFraudSignals.includes(signal))) {
+    return 'reject';
+  }
+  if (fraudSignals.some((signal) => rubric.verificationFraudSignals.includes(signal))) {
+    return 'approve_with_verification';
+  }
+
+  const label = labelForScore(rubric, score);
+  if (label === 'A') return 'approve';
+  if (label === 'B') return 'approve_with_conditions';
+  return 'reject';
+}
+
+/**
+ * Income multiple at which the rubric stops deducting, quoted to the model as
+ * the income requirement
+ */
+export function getRequiredIncomeMultiple(rubric: AIScoringRubric): number {
+  return rubric.incomeTiers.reduce((max, tier) => Math.max(max, tier.below), 0);
+}
+
+/**
+ * Rules a rubric must satisfy before it can be saved.
+ * Returns human-readable problems; an empty array means the rubric is valid.
+ */
+export function validateAIScoringRubric(rubric: AIScoringRubric): string[] {
+  const errors: string[] = [];
+
+  const checkTiers = (tiers: AIRubricTier[], name: string) => {
+    const thresholds = tiers.map((tier) => tier.below);
+    if (new Set(thresholds).size !== thresholds.length) {
+      errors.push(`${name} tiers need different thresholds`);
+    }
+    const sorted = [...tiers].sort((a, b) => a.below - b.below);
+    if (sorted.some((tier, index) => index > 0 && tier.deduction > sorted[index - 1].deduction)) {
+      errors.push(`${name} tiers should deduct less as the threshold rises`);
+    }
+  };
+  checkTiers(rubric.incomeTiers, 'Income');
+  checkTiers(rubric.employmentTiers, 'Employment');
+
+  const knownFlags: readonly string[] = AI_RISK_FLAGS;
+  const knownSignals: readonly string[] = AI_FRAUD_SIGNALS;
+  for (const flag of Object.keys(rubric.riskFlagDeductions)) {
+    if (!knownFlags.includes(flag)) errors.push(`Unknown risk flag "${flag}"`);
+  }
+  const signals = [
+    ...Object.keys(rubric.fraudSignalDeductions),
+    ...rubric.disqualifyingFraudSignals,
+    ...rubric.verificationFraudSignals,
+  ];
+  for (const signal of new Set(signals)) {
+    if (!knownSignals.includes(signal)) errors.push(`Unknown fraud signal "${signal}"`);
+  }
+  for (const signal of rubric.verificationFraudSignals) {
+    if (rubric.disqualifyingFraudSignals.includes(signal)) {
+      errors.push(`"${signal}" can't both disqualify and need verification`);
+    }
+  }
+
+  if (rubric.labelCutoffs.A <= rubric.labelCutoffs.B) {
+    errors.push('The A cut-off must be higher than the B cut-off');
+  }
+
+  return errors;
+}
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for per-site application pipelines
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_APPLICATION_PIPELINE,
+  checkPipelineTransition,
+  findPipelineTarget,
+  getNextPipelineStages,
+  getPipelineStageChecklist,
+  getPipelineTransitionGate,
+  resolvePipelineStage,
+  validateApplicationPipeline,
+} from './application-pipeline';
+import { getStageTransitionRule } from './application-workflow';
+import type { ApplicationPipeline, LeadStatus, PipelineStage } from '../types';
+
+const stage = (key: string, bucket: LeadStatus, checklist: PipelineStage['checklist'] = []): PipelineStage => ({
+  key,
+  label: key
+    .split('_')
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' '),
+  bucket,
+  checklist,
+});
+
+// A site that schedules showings, checks references and skips AI evaluation
+const pipeline: ApplicationPipeline = {
+  stages: [
+    stage('new', 'new'),
+    stage('showing_scheduled', 'new', [{ id: 'showing_done', label: 'Showing completed', required: true }]),
+    stage('documents_pending', 'documents_pending'),
+    stage('documents_received', 'documents_received'),
+    stage('references_checked', 'screening', [{ id: 'references_called', label: 'References called', required: true }]),
+    stage('screening', 'screening'),
+    stage('approved', 'approved'),
+  ],
+};
+
+const at = (key: string) => pipeline.stages.find((s) => s.key === key)!;
+
+describe('Application pipeline', () => {
+  describe('validateApplicationPipeline', () => {
+    it('should accept the default and a pipeline that leaves out AI evaluation', () => {
+      expect(validateApplicationPipeline(DEFAULT_APPLICATION_PIPELINE)).toEqual([]);
+      expect(validateApplicationPipeline(pipeline)).toEqual([]);
+    });
+
+    it('should list every structural problem', () => {
+      const errors = validateApplicationPipeline({
+        stages: [
+          stage('documents_pending', 'documents_pending'),
+          stage('screening', 'new'),
+          stage('Bad Key', 'documents_pending', [{ id: 'review_application', label: '', required: true }]),
+          stage('new', 'new'),
+        ],
+      });
+
+      expect(errors).toEqual([
+        'The first stage must be in "New", where new applications start',
+        'Stage key "screening" is reserved for "Background Check"',
+        '"Screening" (New) cannot come after "Documents Pending"',
+        '"Bad Key" is not a valid stage key (lowercase letters, digits and underscores)',
+        'Every checklist item in "Bad Key" needs a label',
+        '"New" (New) cannot come after "Bad Key"',
+      ]);
+    });
+
+    it('should refuse consecutive statuses the workflow cannot move between', () => {
+      const errors = validateApplicationPipeline({ stages: [stage('new', 'new'), stage('lease_signed', 'lease_signed')] });
+
+      expect(errors).toEqual([
+        '"Lease Signed" cannot directly follow "New": applications cannot move from New to Lease Signed',
+      ]);
+    });
+  });
+
+  describe('stages', () => {
+    it('should resolve a lead to its stage, falling back to the first stage of its status', () => {
+      expect(resolvePipelineStage(pipeline, 'new', 'showing_scheduled').key).toBe('showing_scheduled');
+      expect(resolvePipelineStage(pipeline, 'screening').key).toBe('references_checked');
+      expect(resolvePipelineStage(pipeline, 'screening', 'removed_stage').key).toBe('references_checked');
+      expect(resolvePipelineStage(pipeline, 'rejected')).toEqual({
+        key: 'rejected',
+        label: 'Rejected',
+        bucket: 'rejected',
+        checklist: [],
+      });
+    });
+
+    it('should find a move target by stage key or status', () => {
+      expect(findPipelineTarget(pipeline, 'showing_scheduled')?.bucket).toBe('new');
+      expect(findPipelineTarget(pipeline, 'screening')?.key).toBe('screening');
+      expect(findPipelineTarget(pipeline, 'nope')).toBeUndefined();
+    });
+  });
+
+  describe('getPipelineTransitionGate', () => {
+    it('should match the workflow for the default pipeline', () => {
+      const resolve = (status: LeadStatus) => resolvePipelineStage(DEFAULT_APPLICATION_PIPELINE, status);
+      const moves: Array<[LeadStatus, LeadStatus]> = [
+        ['new', 'documents_pending'],
+        ['new', 'screening'],
+        ['screening', 'documents_pending'],
+        ['approved', 'rejected'],
+        ['new', 'lease_signed'],
+      ];
+
+      for (const [from, to] of moves) {
+        expect(getPipelineTransitionGate(DEFAULT_APPLICATION_PIPELINE, resolve(from), resolve(to))).toBe(
+          getStageTransitionRule(from, to)?.gate
+        );
+      }
+    });
+
+    it('should gate moves between custom stages on their order', () => {
+      expect(getPipelineTransitionGate(pipeline, at('new'), at('showing_scheduled'))).toBe('checklist');
+      expect(getPipelineTransitionGate(pipeline, at('showing_scheduled'), at('new'))).toBe('none');
+      expect(getPipelineTransitionGate(pipeline, at('new'), at('documents_pending'))).toBe('bypass');
+      expect(getPipelineTransitionGate(pipeline, at('showing_scheduled'), at('documents_pending'))).toBe('checklist');
+    });
+
+    it('should not need a bypass to pass a status the site left out', () => {
+      expect(getPipelineTransitionGate(pipeline, at('documents_received'), at('references_checked'))).toBe('checklist');
+      expect(getNextPipelineStages(pipeline, at('documents_received')).map((s) => s.key)).toEqual([
+        'documents_pending',
+        'references_checked',
+        'screening',
+      ]);
+    });
+  });
+
+  describe('checklists', () => {
+    it("should add the workflow's items only on the last stage of a status", () => {
+      const data = { applicants: [] };
+
+      expect(getPipelineStageChecklist(pipeline, at('new'), data).map((item) => item.id)).toEqual([]);
+      expect(
+        getPipelineStageChecklist(pipeline, at('showing_scheduled'), data, { showing_done: true }).map(
+          ({ id, checked }) => ({ id, checked })
+        )
+      ).toEqual([
+        { id: 'verify_contact_info', checked: false },
+        { id: 'verify_employment', checked: false },
+        { id: 'review_application', checked: false },
+        { id: 'showing_done', checked: true },
+      ]);
+    });
+
+    it('should hold a manual move on the custom items', () => {
+      const from = at('references_checked');
+      const checklist = getPipelineStageChecklist(pipeline, from, {});
+      const result = checkPipelineTransition(pipeline, from, at('screening'), { type: 'manual', checklist });
+
+      expect(result.allowed).toBe(false);
+      expect(result.incompleteItems.map((item) => item.id)).toEqual(['references_called']);
+
+      const ticked = getPipelineStageChecklist(pipeline, from, {}, { references_called: true });
+      expect(checkPipelineTransition(pipeline, from, at('screening'), { type: 'manual', checklist: ticked }).allowed).toBe(
+        true
+      );
+    });
+
+    it('should refuse a move the pipeline does not allow', () => {
+      expect(
+        checkPipelineTransition(pipeline, at('new'), resolvePipelineStage(pipeline, 'lease_signed'), {
+          type: 'system',
+          checklist: [],
+        }).message
+      ).toBe('Cannot move an application from New to Lease Signed');
+    });
+  });
+});
@@ -0,0 +1,223 @@
+// Per-site application pipeline layered over the application workflow.
+// A site orders its own stages and places each in a LeadStatus bucket; the
+// status still moves along the workflow's edges, while the pipeline decides
+// which moves skip stages. Leads keep the key of their stage within the
+// status bucket (unset means the bucket's first stage).
+
+import type {
+  ApplicationPipeline,
+  LeadStatus,
+  PipelineStage,
+  StageChecklistItem,
+  StageChecklistState,
+  StageTransitionGate,
+} from '../types';
+import type { StageChecklistData, StageTransitionCheck, StageTransitionInput } from './application-workflow';
+import {
+  APPLICATION_STAGE_LABELS,
+  APPLICATION_STAGE_ORDER,
+  APPLICATION_WORKFLOW,
+  checkStageGate,
+  evaluateStageChecklist,
+  getStageTransitionRule,
+  isApplicationStage,
+} from './application-workflow';
+
+export const PIPELINE_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// One stage per status on the happy path, as every site had before pipelines
+export const DEFAULT_APPLICATION_PIPELINE: ApplicationPipeline = {
+  stages: APPLICATION_STAGE_ORDER.map((status) => ({
+    key: status,
+    label: APPLICATION_STAGE_LABELS[status],
+    bucket: status,
+    checklist: [],
+  })),
+};
+
+/**
+ * Structural rules a pipeline must satisfy before it can be saved.
+ * Returns human-readable problems; an empty array means the pipeline is valid.
+ */
+export function validateApplicationPipeline(pipeline: ApplicationPipeline): string[] {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  if (pipeline.stages.length === 0) {
+    errors.push('The pipeline needs at least one stage');
+    return errors;
+  }
+  if (pipeline.stages[0].bucket !== 'new') {
+    errors.push(`The first stage must be in "${APPLICATION_STAGE_LABELS.new}", where new applications start`);
+  }
+
+  pipeline.stages.forEach((stage, index) => {
+    const name = stage.label.trim() || stage.key;
+
+    if (!PIPELINE_KEY_PATTERN.test(stage.key)) {
+      errors.push(`"${stage.key}" is not a valid stage key (lowercase letters, digits and underscores)`);
+    }
+    if (keys.has(stage.key)) {
+      errors.push(`Duplicate stage key "${stage.key}"`);
+    }
+    keys.add(stage.key);
+    if (!stage.label.trim()) {
+      errors.push('Every stage needs a label');
+    }
+    if (!APPLICATION_STAGE_ORDER.includes(stage.bucket)) {
+      errors.push(`"${name}" cannot be placed in "${APPLICATION_STAGE_LABELS[stage.bucket] ?? stage.bucket}"`);
+      return;
+    }
+    // A key that names a status is read as that status, so it must sit there
+    if (isApplicationStage(stage.key) && stage.key !== stage.bucket) {
+      errors.push(`Stage key "${stage.key}" is reserved for "${APPLICATION_STAGE_LABELS[stage.key]}"`);
+    }
+
+    const previous = pipeline.stages[index - 1];
+    if (previous && previous.bucket !== stage.bucket && APPLICATION_STAGE_ORDER.includes(previous.bucket)) {
+      if (APPLICATION_STAGE_ORDER.indexOf(previous.bucket) > APPLICATION_STAGE_ORDER.indexOf(stage.bucket)) {
+        errors.push(`"${name}" (${APPLICATION_STAGE_LABELS[stage.bucket]}) cannot come after "${previous.label}"`);
+      } else if (!getStageTransitionRule(previous.bucket, stage.bucket)) {
+        errors.push(
+          `"${name}" cannot directly follow "${previous.label}": applications cannot move from ` +
+            `${APPLICATION_STAGE_LABELS[previous.bucket]} to ${APPLICATION_STAGE_LABELS[stage.bucket]}`
+        );
+      }
+    }
+
+    const itemIds = new Set(APPLICATION_WORKFLOW[stage.bucket].checklist.map((item) => item.id));
+    for (const item of stage.checklist) {
+      if (!PIPELINE_KEY_PATTERN.test(item.id)) {
+        errors.push(`"${item.id}" is not a valid checklist item id (lowercase letters, digits and underscores)`);
+      }
+      if (itemIds.has(item.id)) {
+        errors.push(`Duplicate checklist item "${item.id}" in "${name}"`);
+      }
+      itemIds.add(item.id);
+      if (!item.label.trim()) {
+        errors.push(`Every checklist item in "${name}" needs a label`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+function pipelineIndex(pipeline: ApplicationPipeline, stage: PipelineStage): number {
+  return pipeline.stages.findIndex((s) => s.key === stage.key && s.bucket === stage.bucket);
+}
+
+/**
+ * Whether any of the site's stages sits in the given status
+ */
+export function pipelineIncludesBucket(pipeline: ApplicationPipeline, bucket: LeadStatus): boolean {
+  return pipeline.stages.some((stage) => stage.bucket === bucket);
+}
+
+/**
+ * The stage a lead is in. A lead whose status has no stage in the pipeline
+ * (rejected, a status the site left out, or a stage since removed) gets a
+ * stand-in named after the status.
+ */
+export function resolvePipelineStage(
+  pipeline: ApplicationPipeline,
+  status: LeadStatus,
+  key?: string | null
+): PipelineStage {
+  const inBucket = pipeline.stages.filter((stage) => stage.bucket === status);
+  return (
+    inBucket.find((stage) => stage.key === key) ??
+    inBucket[0] ?? { key: status, label: APPLICATION_STAGE_LABELS[status] ?? status, bucket: status, checklist: [] }
+  );
+}
+
+/**
+ * The stage a move targets: a pipeline stage key, or a status (its first stage)
+ */
+export function findPipelineTarget(pipeline: ApplicationPipeline, stage: string): PipelineStage | undefined {
+  const byKey = pipeline.stages.find((s) => s.key === stage);
+  if (byKey) return byKey;
+  return isApplicationStage(stage) ? resolvePipelineStage(pipeline, stage) : undefined;
+}
+
+/**
+ * Gate for a move between two stages, or undefined if the move is not
+ * allowed. Between statuses the workflow's edge must exist; moves back and
+ * rejections need nothing. Moving on to the very next stage of the pipeline
+ * needs the current stage's checklist, and any move further ahead skips
+ * stages and needs a bypass.
+ */
+export function getPipelineTransitionGate(
+  pipeline: ApplicationPipeline,
+  from: PipelineStage,
+  to: PipelineStage
+): StageTransitionGate | undefined {
+  const fromIndex = pipelineIndex(pipeline, from);
+  const toIndex = pipelineIndex(pipeline, to);
+
+  if (from.bucket === to.bucket) {
+    if (fromIndex < 0 || toIndex < 0 || fromIndex === toIndex) return undefined;
+    if (toIndex < fromIndex) return 'none';
+    return toIndex === fromIndex + 1 ? 'checklist' : 'bypass';
+  }
+
+  const rule = getStageTransitionRule(from.bucket, to.bucket);
+  if (!rule) return undefined;
+  if (rule.gate === 'none' || fromIndex < 0) return rule.gate;
+  return toIndex === fromIndex + 1 ? 'checklist' : 'bypass';
+}
+
+/**
+ * Pipeline stages an application can be moved to from the given stage
+ */
+export function getNextPipelineStages(pipeline: ApplicationPipeline, from: PipelineStage): PipelineStage[] {
+  return pipeline.stages.filter((stage) => getPipelineTransitionGate(pipeline, from, stage) !== undefined);
+}
+
+/**
+ * A stage's checklist with each item's state: the site's own items, after
+ * the workflow's items for the status when this is the last stage in it.
+ */
+export function getPipelineStageChecklist(
+  pipeline: ApplicationPipeline,
+  stage: PipelineStage,
+  data: StageChecklistData,
+  ticked: StageChecklistState = {}
+): StageChecklistItem[] {
+  const index = pipelineIndex(pipeline, stage);
+  const leavesBucket = index < 0 || pipeline.stages[index + 1]?.bucket !== stage.bucket;
+
+  return [
+    ...(leavesBucket ? evaluateStageChecklist(stage.bucket, data, ticked) : []),
+    ...stage.checklist.map((item) => ({
+      id: item.id,
+      label: item.label,
+      description: item.description,
+      required: item.required,
+      checked: ticked[item.id] === true,
+      automatic: false,
+    })),
+  ];
+}
+
+/**
+ * Check a move between two stages of the site's pipeline (see
+ * getPipelineTransitionGate and checkStageGate)
+ */
+export function checkPipelineTransition(
+  pipeline: ApplicationPipeline,
+  from: PipelineStage,
+  to: PipelineStage,
+  input: StageTransitionInput
+): StageTransitionCheck {
+  const gate = getPipelineTransitionGate(pipeline, from, to);
+  if (!gate) {
+    return {
+      allowed: false,
+      message: `Cannot move an application from ${from.label} to ${to.label}`,
+      bypassed: false,
+      incompleteItems: [],
+    };
+  }
+  return checkStageGate(gate, to.label, input);
+}
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the application stage workflow
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  APPLICATION_WORKFLOW,
+  checkStageTransition,
+  evaluateStageChecklist,
+  getNextStages,
+  getOutstandingDocuments,
+  getPreviousStages,
+  getStageTransitionRule,
+} from './application-workflow';
+import type { ApplicationDocument, LeadStatus } from '../types';
+
+describe('Application workflow', () => {
+  describe('edges', () => {
+    it('should only lead to stages the workflow defines', () => {
+      const stages = Object.keys(APPLICATION_WORKFLOW);
+      for (const stage of stages as LeadStatus[]) {
+        for (const next of getNextStages(stage)) {
+          expect(stages).toContain(next);
+        }
+      }
+    });
+
+    it('should end at a signed lease and let rejected applications be revived', () => {
+      expect(getNextStages('lease_signed')).toEqual([]);
+      expect(getNextStages('rejected')).toEqual(['new']);
+      expect(getStageTransitionRule('screening', 'approved')?.gate).toBe('checklist');
+      expect(getStageTransitionRule('new', 'approved')).toBeUndefined();
+    });
+
+    it('should list the stages an AI evaluation can finish from', () => {
+      expect(getPreviousStages('ai_evaluated')).toEqual([
+        'new',
+        'documents_pending',
+        'documents_received',
+        'ai_evaluating',
+        'screening',
+      ]);
+    });
+  });
+
+  describe('evaluateStageChecklist', () => {
+    it('should check automatic items from the data and manual items from the ticked state', () => {
+      const items = evaluateStageChecklist('ai_evaluated', { aiScore: 72, applicants: [] }, { review_ai_score: true });
+
+      expect(items.map(({ id, checked, automatic }) => ({ id, checked, automatic }))).toEqual([
+        { id: 'ai_evaluation_complete', checked: true, automatic: true },
+        { id: 'review_ai_score', checked: true, automatic: false },
+        { id: 'ai_score_acceptable', checked: true, automatic: true },
+        { id: 'all_applicants_scored', checked: true, automatic: true },
+      ]);
+    });
+
+    it('should not let the ticked state check an automatic item', () => {
+      const items = evaluateStageChecklist('ai_evaluated', { aiScore: 30 }, { ai_score_acceptable: true });
+
+      expect(items.find((item) => item.id === 'ai_score_acceptable')?.checked).toBe(false);
+    });
+  });
+
+  describe('checkStageTransition', () => {
+    const checklist = evaluateStageChecklist('ai_evaluated', { aiScore: 72 });
+
+    it('should refuse moves without an edge, whoever makes them', () => {
+      const result = checkStageTransition('new', 'lease_signed', { type: 'system', checklist: [] });
+
+      expect(result.allowed).toBe(false);
+      expect(result.message).toBe('Cannot move an application from New to Lease Signed');
+    });
+
+    it('should hold a manual move until the required items are complete', () => {
+      const result = checkStageTransition('ai_evaluated', 'screening', { type: 'manual', checklist });
+
+      expect(result.allowed).toBe(false);
+      expect(result.incompleteItems.map((item) => item.id)).toEqual(['review_ai_score']);
+      expect(result.message).toContain('Review AI score and assessment');
+
+      const ticked = evaluateStageChecklist('ai_evaluated', { aiScore: 72 }, { review_ai_score: true });
+      expect(checkStageTransition('ai_evaluated', 'screening', { type: 'manual', checklist: ticked })).toEqual({
+        allowed: true,
+        bypassed: false,
+        incompleteItems: [],
+      });
+    });
+
+    it('should let a manual move past incomplete items with a reason and category', () => {
+      const tooShort = checkStageTransition('ai_evaluated', 'screening', {
+        type: 'manual',
+        checklist,
+        bypassReason: 'urgent',
+        bypassCategory: 'emergency',
+      });
+      expect(tooShort.allowed).toBe(false);
+
+      const result = checkStageTransition('ai_evaluated', 'screening', {
+        type: 'manual',
+        checklist,
+        bypassReason: 'Reviewed the score on a call with the owner',
+        bypassCategory: 'other',
+      });
+      expect(result).toMatchObject({ allowed: true, bypassed: true });
+    });
+
+    it('should always need a bypass for a manual move that skips stages', () => {
+      const result = checkStageTransition('new', 'screening', { type: 'manual', checklist: [] });
+
+      expect(result.allowed).toBe(false);
+      expect(result.message).toContain('skips stages');
+      expect(
+        checkStageTransition('new', 'screening', {
+          type: 'manual',
+          checklist: [],
+          bypassReason: 'Returning applicant with documents on file',
+          bypassCategory: 'manual_override',
+        }).bypassed
+      ).toBe(true);
+    });
+
+    it('should only check the edge for automatic and system moves', () => {
+      expect(checkStageTransition('ai_evaluated', 'screening', { type: 'system', checklist }).allowed).toBe(true);
+      expect(checkStageTransition('new', 'documents_pending', { type: 'automatic', checklist: [] }).allowed).toBe(true);
+    });
+  });
+
+  describe('getOutstandingDocuments', () => {
+    const doc = (
+      id: string,
+      documentType: ApplicationDocument['documentType'],
+      verificationStatus: ApplicationDocument['verificationStatus'],
+      uploadedAt: string
+    ) => ({ id, documentType, verificationStatus, uploadedAt }) as ApplicationDocument;
+
+    it('should list required types with nothing uploaded', () => {
+      expect(getOutstandingDocuments().missingTypes).toEqual(['government_id', 'paystub', 'bank_statement']);
+      const uploaded = [doc('d1', 'government_id', 'pending', '2025-01-01'), doc('d2', 'tax_return', 'verified', '2025-01-01')];
+      expect(getOutstandingDocuments(uploaded).missingTypes).toEqual(['paystub', 'bank_statement']);
+    });
+
+    it('should keep rejected uploads outstanding until a newer one replaces them', () => {
+      const rejected = doc('d1', 'paystub', 'rejected', '2025-01-01');
+      expect(getOutstandingDocuments([rejected]).rejected).toEqual([rejected]);
+      expect(getOutstandingDocuments([rejected, doc('d2', 'paystub', 'pending', '2025-01-02')]).rejected).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,517 @@
+// Application stage workflow shared by the ops UI and the worker.
+// Each stage lists the stages an application may move to next and the
+// checklist a reviewer works through before leaving it. The worker enforces
+// these rules on every status change; the ops StageChecker renders from them.
+
+import type {
+  ApplicationApplicant,
+  ApplicationDocument,
+  BypassCategory,
+  DocumentType,
+  LeadStatus,
+  ScreeningResult,
+  StageChecklistItem,
+  StageChecklistState,
+  StageTransitionGate,
+  StageTransitionRule,
+  StageTransitionType,
+} from '../types';
+
+export const APPLICATION_STAGE_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  documents_pending: 'Documents Pending',
+  documents_received: 'Documents Received',
+  ai_evaluating: 'AI Evaluating',
+  ai_evaluated: 'AI Evaluated',
+  screening: 'Background Check',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  lease_sent: 'Lease Sent',
+  lease_signed: 'Lease Signed',
+};
+
+/**
+ * The happy path, in order. ai_evaluating is left out: it only lasts while
+ * an evaluation job runs.
+ */
+export const APPLICATION_STAGE_ORDER: LeadStatus[] = [
+  'new',
+  'documents_pending',
+  'documents_received',
+  'ai_evaluated',
+  'screening',
+  'approved',
+  'lease_sent',
+  'lease_signed',
+];
+
+export const BYPASS_CATEGORY_LABELS: Record<BypassCategory, string> = {
+  ai_offline: 'AI evaluation unavailable',
+  manual_override: 'Manual override',
+  emergency: 'Emergency',
+  other: 'Other',
+};
+
+export const MIN_BYPASS_REASON_LENGTH = 10;
+
+// AI score an application needs before it goes to a background check
+export const AI_SCORE_THRESHOLD = 50;
+
+export interface StageChecklistData {
+  applicants?: ApplicationApplicant[];
+  documents?: ApplicationDocument[];
+  aiScore?: number | null;
+  screeningResults?: ScreeningResult[];
+}
+
+/**
+ * A checklist item. Items with isChecked are ticked from the data and cannot
+ * be ticked by hand; the rest are ticked by the reviewer.
+ */
+export interface StageChecklistItemDefinition {
+  id: string;
+  label: string;
+  description: string;
+  required: boolean | ((data: StageChecklistData) => boolean);
+  isChecked?: (data: StageChecklistData) => boolean;
+}
+
+export interface StageDefinition {
+  checklist: StageChecklistItemDefinition[];
+  transitions: StageTransitionRule[];
+}
+
+export const APPLICATION_DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  government_id: 'Government ID',
+  paystub: 'Pay stub',
+  bank_statement: 'Bank statement',
+  tax_return: 'Tax return',
+  employment_letter: 'Employment letter',
+  credit_report: 'Credit report',
+  background_check: 'Background check',
+  other: 'Other',
+};
+
+// Documents every application needs before it leaves Documents Pending
+export const REQUIRED_DOCUMENT_TYPES: DocumentType[] = ['government_id', 'paystub', 'bank_statement'];
+
+export interface OutstandingDocuments {
+  missingTypes: DocumentType[];
+  rejected: ApplicationDocument[];
+}
+
+/**
+ * What an application still needs from the applicant: required types with
+ * nothing uploaded, and rejected uploads not yet replaced by a newer one.
+ * Shared by the documents checklist and the applicant's status page.
+ */
+export function getOutstandingDocuments(documents: ApplicationDocument[] = []): OutstandingDocuments {
+  return {
+    missingTypes: REQUIRED_DOCUMENT_TYPES.filter((type) => !documents.some((doc) => doc.documentType === type)),
+    rejected: documents.filter(
+      (doc) =>
+        doc.verificationStatus === 'rejected' &&
+        !documents.some(
+          (other) =>
+            other.documentType === doc.documentType &&
+            other.verificationStatus !== 'rejected' &&
+            other.uploadedAt > doc.uploadedAt
+        )
+    ),
+  };
+}
+
+function primaryApplicant(data: StageChecklistData): ApplicationApplicant | undefined {
+  return data.applicants?.find((a) => a.applicantType === 'primary');
+}
+
+// An invited applicant has completed once they accept the invite
+function hasCompletedInvite(applicant: ApplicationApplicant): boolean {
+  return Boolean((applicant.inviteToken || applicant.inviteSentAt) && applicant.inviteAcceptedAt);
+}
+
+function hasVerifiedDocument(data: StageChecklistData, types: ApplicationDocument['documentType'][]): boolean {
+  return data.documents?.some((doc) => types.includes(doc.documentType) && doc.verificationStatus === 'verified') ?? false;
+}
+
+/**
+ * Whether every applicant's background check has come back from the provider
+ */
+function allBackgroundChecksReturned(applicants?: ApplicationApplicant[]): boolean {
+  return applicants
+    ? applicants.every(
+        (a) =>
+          a.backgroundCheckStatus !== null &&
+          a.backgroundCheckStatus !== undefined &&
+          a.backgroundCheckStatus !== 'pending' &&
+          a.backgroundCheckStatus !== 'in_progress'
+      )
+    : false;
+}
+
+// Review items tick themselves only when every returned report is clean
+function screeningReportsClean(data: StageChecklistData, isClear: (r: ScreeningResult) => boolean): boolean {
+  const completed = data.screeningResults?.filter((r) => r.status === 'completed') ?? [];
+  return allBackgroundChecksReturned(data.applicants) && completed.length > 0 && completed.every(isClear);
+}
+
+export const APPLICATION_WORKFLOW: Record<LeadStatus, StageDefinition> = {
+  new: {
+    checklist: [
+      {
+        id: 'verify_contact_info',
+        label: 'Verify contact information',
+        description: 'Confirm email and phone number are valid',
+        required: true,
+        isChecked: (data) => Boolean(primaryApplicant(data)?.email && primaryApplicant(data)?.phone),
+      },
+      {
+        id: 'verify_employment',
+        label: 'Verify employment status',
+        description: 'Ensure employment information is complete',
+        required: true,
+        isChecked: (data) => Boolean(primaryApplicant(data)?.employmentStatus && primaryApplicant(data)?.employerName),
+      },
+      {
+        id: 'review_application',
+        label: 'Review application for completeness',
+        description: 'Check that all required fields are filled',
+        required: true,
+      },
+    ],
+    transitions: [
+      { to: 'documents_pending', gate: 'checklist' },
+      { to: 'documents_received', gate: 'bypass' },
+      { to: 'ai_evaluated', gate: 'bypass' },
+      { to: 'screening', gate: 'bypass' },
+      { to: 'rejected', gate: 'none' },
+    ],
+  },
+  documents_pending: {
+    checklist: [
+      {
+        id: 'request_documents',
+        label: 'Request required documents from applicant',
+        description: 'Send document upload link to primary applicant',
+        required: true,
+      },
+      {
+        id: 'all_documents_uploaded',
+        label: 'All required documents uploaded',
+        description: 'Government ID, pay stub, and bank statement',
+        required: true,
+        isChecked: (data) => getOutstandingDocuments(data.documents).missingTypes.length === 0,
+      },
+      {
+        id: 'co_applicants_completed',
+        label: 'Co-applicants completed their submissions',
+        description: 'All invited co-applicants and guarantors have submitted',
+        required: (data) => Boolean(data.applicants && data.applicants.length > 1),
+        isChecked: (data) =>
+          data.applicants?.every((a) => a.applicantType === 'primary' || hasCompletedInvite(a)) ?? false,
+      },
+    ],
+    transitions: [
+      { to: 'documents_received', gate: 'checklist' },
+      { to: 'ai_evaluated', gate: 'bypass' },
+      { to: 'screening', gate: 'bypass' },
+      { to: 'new', gate: 'none' },
+      { to: 'rejected', gate: 'none' },
+    ],
+  },
+  documents_received: {
+    checklist: [
+      {
+        id: 'verify_government_id',
+        label: 'Verify government-issued ID',
+        description: 'Check ID is valid, not expired, and matches applicant name',
+        required: true,
+        isChecked: (data) => hasVerifiedDocument(data, ['government_id']),
+      },
+      {
+        id: 'verify_income_docs',
+        label: 'Verify income documentation',
+        description: 'Check pay stubs and bank statements for authenticity',
+        required: true,
+        isChecked: (data) => hasVerifiedDocument(data, ['paystub', 'bank_statement']),
+      },
+      {
+        id: 'no_rejected_docs',
+        label: 'No rejected documents',
+        description: 'All documents must be verified or re-uploaded',
+        required: true,
+        isChecked: (data) => !(data.documents?.some((doc) => doc.verificationStatus === 'rejected') ?? false),
+      },
+      {
+        id: 'all_docs_verified',
+        label: 'All documents verified',
+        description: 'Every uploaded document has been reviewed',
+        required: false,
+        isChecked: (data) => data.documents?.every((doc) => doc.verificationStatus === 'verified') ?? false,
+      },
+    ],
+    transitions: [
+      { to: 'ai_evaluating', gate: 'none' },
+      { to: 'ai_evaluated', gate: 'checklist' },
+      { to: 'screening', gate: 'bypass' },
+      { to: 'documents_pending', gate: 'none' },
+      { to: 'rejected', gate: 'none' },
+    ],
+  },
+  ai_evaluating: {
+    checklist: [],
+    transitions: [
+      { to: 'ai_evaluated', gate: 'none' },
+      { to: 'screening', gate: 'bypass' },
+      { to: 'documents_received', gate: 'none' },
+      { to: 'rejected', gate: 'none' },
+    ],
+  },
+  ai_evaluated: {
+    checklist: [
+      {
+        id: 'ai_evaluation_complete',
+        label: 'AI evaluation completed',
+        description: 'Application has been scored by AI system',
+        required: true,
+        isChecked: (data) => data.aiScore !== null && data.aiScore !== undefined,
+      },
+      {
+        id: 'review_ai_score',
+        label: 'Review AI score and assessment',
+        description: 'Examine AI evaluation results and recommendations',
+        required: true,
+      },
+      {
+        id: 'ai_score_acceptable',
+        label: 'AI score meets minimum threshold',
+        description: `Score must be at least ${AI_SCORE_THRESHOLD}/100 to proceed`,
+        required: true,
+        isChecked: (data) => (data.aiScore ?? 0) >= AI_SCORE_THRESHOLD,
+      },
+      {
+        id: 'all_applicants_scored',
+        label: 'All applicants have AI scores',
+        description: 'Primary, co-applicants, and guarantors evaluated',
+        required: false,
+        isChecked: (data) => data.applicants?.every((a) => a.aiScore !== null && a.aiScore !== undefined) ?? false,
+      },
+    ],
+    transitions: [
+      { to: 'screening', gate: 'checklist' },
+      { to: 'approved', gate: 'bypass' },
+      { to: 'documents_pending', gate: 'none' },
+      { to: 'rejected', gate: 'none' },
+    ],
+  },
+  screening: {
+    checklist: [
+      {
+        id: 'initiate_background_check',
+        label: 'Initiate background check',
+        description: 'Submit request to third-party screening service',
+        required: true,
+        isChecked: (data) =>
+          data.applicants
+            ? data.applicants.length > 0 &&
+              data.applicants.every((a) => a.backgroundCheckStatus !== null && a.backgroundCheckStatus !== undefined)
+            : false,
+      },
+      {
+        id: 'background_check_received',
+        label: 'Background check results received',
+        description: 'All screening reports have been returned',
+        required: true,
+        isChecked: (data) => allBackgroundChecksReturned(data.applicants),
+      },
+      {
+        id: 'review_criminal_history',
+        label: 'Review criminal history',
+        description: 'Examine criminal background check results',
+        required: true,
+        isChecked: (data) => screeningReportsClean(data, (r) => r.criminalCheck === 'clear'),
+      },
+      {
+        id: 'review_eviction_history',
+        label: 'Review eviction history',
+        description: 'Check for prior evictions or rental disputes',
+        required: true,
+        isChecked: (data) => screeningReportsClean(data, (r) => r.evictionHistory === 'clear'),
+      },
+      {
+        id: 'verify_references',
+        label: 'Contact and verify references',
+        description: 'Call previous landlords and employers',
+        required: false,
+      },
+    ],
+    transitions: [
+      { to: 'approved', gate: 'checklist' },
+      { to: 'ai_evaluated', gate: 'none' },
+      { to: 'rejected', gate: 'none' },
+    ],
+  },
+  approved: {
+    checklist: [
+      {
+        id: 'review_full_application',
+        label: 'Review complete application package',
+        description: 'Final review of all documents and screening results',
+        required: true,
+      },
+      {
+        id: 'approve_application',
+        label: 'Make approval/rejection decision',
+        description: 'Decide whether to approve or reject the application',
+        required: true,
+      },
+      {
+        id: 'notify_applicant',
+        label: 'Notify applicant of decision',
+        description: 'Send approval or rejection notification',
+        required: true,
+      },
+      {
+        id: 'collect_holding_deposit',
+        label: 'Collect holding deposit (if approved)',
+        description: 'Secure property with deposit payment',
+        required: false,
+      },
+    ],
+    transitions: [
+      { to: 'lease_sent', gate: 'checklist' },
+      { to: 'rejected', gate: 'none' },
+    ],
+  },
+  lease_sent: {
+    checklist: [],
+    transitions: [
+      { to: 'lease_signed', gate: 'none' },
+      { to: 'approved', gate: 'none' },
+      { to: 'rejected', gate: 'none' },
+    ],
+  },
+  lease_signed: {
+    checklist: [],
+    transitions: [],
+  },
+  rejected: {
+    checklist: [],
+    transitions: [{ to: 'new', gate: 'none' }],
+  },
+};
+
+export function isApplicationStage(value: unknown): value is LeadStatus {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(APPLICATION_WORKFLOW, value);
+}
+
+export function isBypassCategory(value: unknown): value is BypassCategory {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BYPASS_CATEGORY_LABELS, value);
+}
+
+export function getStageTransitionRule(from: LeadStatus, to: LeadStatus): StageTransitionRule | undefined {
+  return APPLICATION_WORKFLOW[from]?.transitions.find((rule) => rule.to === to);
+}
+
+/**
+ * Stages an application can be moved to from the given stage
+ */
+export function getNextStages(from: LeadStatus): LeadStatus[] {
+  return APPLICATION_WORKFLOW[from]?.transitions.map((rule) => rule.to) ?? [];
+}
+
+/**
+ * Stages from which an application can move to the given stage
+ */
+export function getPreviousStages(to: LeadStatus): LeadStatus[] {
+  return (Object.keys(APPLICATION_WORKFLOW) as LeadStatus[]).filter((from) => getStageTransitionRule(from, to));
+}
+
+/**
+ * A stage's checklist with each item's state. Automatic items follow the
+ * data; the rest are checked when ticked in the given state.
+ */
+export function evaluateStageChecklist(
+  stage: LeadStatus,
+  data: StageChecklistData,
+  ticked: StageChecklistState = {}
+): StageChecklistItem[] {
+  return (APPLICATION_WORKFLOW[stage]?.checklist ?? []).map((item) => ({
+    id: item.id,
+    label: item.label,
+    description: item.description,
+    required: typeof item.required === 'function' ? item.required(data) : item.required,
+    checked: item.isChecked ? item.isChecked(data) : ticked[item.id] === true,
+    automatic: Boolean(item.isChecked),
+  }));
+}
+
+export interface StageTransitionInput {
+  type: StageTransitionType;
+  // The current stage's checklist (see evaluateStageChecklist)
+  checklist: StageChecklistItem[];
+  bypassReason?: string | null;
+  bypassCategory?: BypassCategory | null;
+}
+
+export interface StageTransitionCheck {
+  allowed: boolean;
+  message?: string;
+  // Whether the move only goes ahead because of the bypass given
+  bypassed: boolean;
+  incompleteItems: StageChecklistItem[];
+}
+
+/**
+ * Check a move against the workflow. Every move must follow an allowed edge;
+ * manual moves must also satisfy the edge's gate, with a bypass reason of at
+ * least MIN_BYPASS_REASON_LENGTH characters and a category where the gate
+ * needs one. Automatic and system moves only need the edge.
+ */
+export function checkStageTransition(from: LeadStatus, to: LeadStatus, input: StageTransitionInput): StageTransitionCheck {
+  const rule = getStageTransitionRule(from, to);
+  if (!rule) {
+    return {
+      allowed: false,
+      message: `Cannot move an application from ${APPLICATION_STAGE_LABELS[from] ?? from} to ${APPLICATION_STAGE_LABELS[to] ?? to}`,
+      bypassed: false,
+      incompleteItems: [],
+    };
+  }
+  return checkStageGate(rule.gate, APPLICATION_STAGE_LABELS[to], input);
+}
+
+/**
+ * Check a move along an allowed edge against the edge's gate. toLabel names
+ * the target stage in the error message.
+ */
+export function checkStageGate(
+  gate: StageTransitionGate,
+  toLabel: string,
+  input: StageTransitionInput
+): StageTransitionCheck {
+  if (input.type !== 'manual' || gate === 'none') {
+    return { allowed: true, bypassed: false, incompleteItems: [] };
+  }
+
+  const incompleteItems = gate === 'checklist' ? input.checklist.filter((item) => item.required && !item.checked) : [];
+  if (gate === 'checklist' && incompleteItems.length === 0) {
+    return { allowed: true, bypassed: false, incompleteItems };
+  }
+
+  const hasReason = (input.bypassReason?.trim().length ?? 0) >= MIN_BYPASS_REASON_LENGTH;
+  if (hasReason && isBypassCategory(input.bypassCategory)) {
+    return { allowed: true, bypassed: true, incompleteItems };
+  }
+
+  const requirement = `a bypass reason (at least ${MIN_BYPASS_REASON_LENGTH} characters) and category`;
+  return {
+    allowed: false,
+    message:
+      gate === 'checklist'
+        ? `Incomplete checklist items: ${incompleteItems.map((item) => item.label).join(', ')}. Complete them or give ${requirement}`
+        : `Moving to ${toLabel} skips stages and needs ${requirement}`,
+    bypassed: false,
+    incompleteItems,
+  };
+}
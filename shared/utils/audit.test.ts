@@ -0,0 +1,41 @@
+/**
+ * Unit tests for audit log diffs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffAuditRecords } from './audit';
+
+describe('diffAuditRecords', () => {
+  it('should only include fields that changed', () => {
+    const before = { id: 'lease_1', monthlyRent: 1500, status: 'active', updatedAt: '2026-01-01' };
+    const after = { id: 'lease_1', monthlyRent: 1600, status: 'active', updatedAt: '2026-02-01' };
+
+    expect(diffAuditRecords(before, after)).toEqual({
+      monthlyRent: { before: 1500, after: 1600 },
+    });
+  });
+
+  it('should record every field on create and delete', () => {
+    expect(diffAuditRecords(null, { id: 'unit_1', unitNumber: '2A' })).toEqual({
+      id: { before: null, after: 'unit_1' },
+      unitNumber: { before: null, after: '2A' },
+    });
+    expect(diffAuditRecords({ id: 'unit_1' }, null)).toEqual({
+      id: { before: 'unit_1', after: null },
+    });
+  });
+
+  it('should compare nested values and treat null and undefined alike', () => {
+    const before = { amenities: ['parking'], notes: undefined };
+    const after = { amenities: ['parking'], notes: null };
+    expect(diffAuditRecords(before, after)).toEqual({});
+
+    expect(diffAuditRecords({ amenities: ['parking'] }, { amenities: ['parking', 'laundry'] })).toEqual({
+      amenities: { before: ['parking'], after: ['parking', 'laundry'] },
+    });
+  });
+
+  it('should never include secrets', () => {
+    expect(diffAuditRecords({ passwordHash: 'a' }, { passwordHash: 'b' })).toEqual({});
+  });
+});
@@ -0,0 +1,53 @@
+// Audit log helpers shared by the worker (writing diffs) and ops (showing them)
+
+import type { AuditChanges, AuditEntityType } from '../types';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  property: 'Property',
+  unit: 'Unit',
+  lead: 'Lead',
+  application: 'Application',
+  tenant: 'Tenant',
+  lease: 'Lease',
+  work_order: 'Work Order',
+  user: 'User',
+  site_api_token: 'API Token',
+};
+
+// Bookkeeping and secrets that never belong in an audit diff
+const IGNORED_AUDIT_FIELDS = new Set([
+  'createdAt',
+  'updatedAt',
+  'passwordHash',
+  'tokenHash',
+  'token',
+]);
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if ((a === null || a === undefined) && (b === null || b === undefined)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Field-level diff between two versions of a record. Pass null for before
+ * on create and for after on delete. Nested values are compared as JSON.
+ */
+export function diffAuditRecords(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    if (IGNORED_AUDIT_FIELDS.has(key)) continue;
+    const previous = before?.[key] ?? null;
+    const next = after?.[key] ?? null;
+    if (!isSameValue(previous, next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
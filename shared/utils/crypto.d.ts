@@ -23,4 +23,19 @@ export declare function hashToken(token: string, salt: Uint8Array): Promise<stri
  * Generate a random secure token
  */
 export declare function generateRandomToken(length?: number): string;
+/**
+ * Compute an HMAC-SHA256 signature as lowercase hex
+ * @param secret The shared secret
+ * @param message The message to sign
+ */
+export declare function hmacSha256Hex(secret: string, message: string): Promise<string>;
+/**
+ * Compute a SHA-256 digest as lowercase hex
+ * @param data The text or raw bytes to hash
+ */
+export declare function sha256Hex(data: string | ArrayBuffer | Uint8Array): Promise<string>;
+/**
+ * Compare two strings in constant time (for signatures and tokens)
+ */
+export declare function timingSafeEqual(a: string, b: string): boolean;
 //# sourceMappingURL=crypto.d.ts.map
\ No newline at end of file
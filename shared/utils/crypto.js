@@ -70,3 +70,35 @@ export function generateRandomToken(length = 32) {
     cryptoAPI.getRandomValues(array);
     return Array.from(array).map(b => b.toString(16).padStart(2, '0')).join('');
 }
+/**
+ * Compute an HMAC-SHA256 signature as lowercase hex
+ * @param secret The shared secret
+ * @param message The message to sign
+ */
+export async function hmacSha256Hex(secret, message) {
+    const encoder = new TextEncoder();
+    const key = await cryptoAPI.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await cryptoAPI.subtle.sign('HMAC', key, encoder.encode(message));
+    return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+/**
+ * Compute a SHA-256 digest as lowercase hex
+ * @param data The text or raw bytes to hash
+ */
+export async function sha256Hex(data) {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const digest = await cryptoAPI.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+/**
+ * Compare two strings in constant time (for signatures and tokens)
+ */
+export function timingSafeEqual(a, b) {
+    if (a.length !== b.length)
+        return false;
+    let result = 0;
+    for (let i = 0; i < a.length; i++) {
+        result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return result === 0;
+}
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for outbound email templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMAIL_TEMPLATES,
+  getEmailTemplatesForEntity,
+  getTemplatePlaceholders,
+  isEmailTemplateKey,
+  renderEmail,
+  renderTemplate,
+} from './email-templates';
+
+describe('Email templates', () => {
+  describe('renderTemplate', () => {
+    it('should replace placeholders, tolerating whitespace inside the braces', () => {
+      expect(
+        renderTemplate('Hi {{firstName}}, rent is {{ monthlyRent }}.', { firstName: 'Tina', monthlyRent: '$1,500' })
+      ).toBe('Hi Tina, rent is $1,500.');
+    });
+
+    it('should render unknown variables as empty strings', () => {
+      expect(renderTemplate('Unit {{unitNumber}}{{nope}}', { unitNumber: '4B' })).toBe('Unit 4B');
+    });
+
+    it('should leave text without placeholders untouched', () => {
+      expect(renderTemplate('Plain {text}', {})).toBe('Plain {text}');
+    });
+  });
+
+  describe('getTemplatePlaceholders', () => {
+    it('should list each placeholder once in order of first use', () => {
+      expect(getTemplatePlaceholders('{{a}} {{b}} {{ a }} {{c}}')).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('renderEmail', () => {
+    it('should render subject and body and report missing variables', () => {
+      const result = renderEmail(EMAIL_TEMPLATES.rent_reminder, {
+        firstName: 'Tina',
+        propertyAddress: '12 Main St',
+        monthlyRent: '',
+      });
+
+      expect(result.subject).toBe('Rent reminder for 12 Main St unit ');
+      expect(result.body).toContain('Hi Tina,');
+      expect(result.missingVariables).toEqual(['unitNumber', 'monthlyRent']);
+    });
+
+    it('should report nothing missing when every variable is set', () => {
+      const result = renderEmail(EMAIL_TEMPLATES.application_received, {
+        firstName: 'Tina',
+        propertyName: 'Maple Court',
+      });
+
+      expect(result.subject).toBe('We received your application for Maple Court');
+      expect(result.missingVariables).toEqual([]);
+    });
+  });
+
+  describe('template registry', () => {
+    it('should recognise built-in keys only', () => {
+      expect(isEmailTemplateKey('lease_renewal')).toBe(true);
+      expect(isEmailTemplateKey('toString')).toBe(false);
+    });
+
+    it('should filter templates by entity type', () => {
+      const keys = getEmailTemplatesForEntity('work_order').map((template) => template.key);
+      expect(keys).toEqual(['work_order_scheduled', 'work_order_completed']);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+// Outbound email templates
+// Templates are plain text with {{variable}} placeholders. The worker builds
+// the variables from the entity a message is about (application, tenant or
+// work order) and renders subject and body before queueing.
+
+import type { CommunicationEntityType } from '../types';
+
+export type EmailTemplateKey =
+  | 'application_received'
+  | 'documents_requested'
+  | 'application_approved'
+  | 'application_rejected'
+  | 'rent_reminder'
+  | 'lease_renewal'
+  | 'work_order_scheduled'
+  | 'work_order_completed';
+
+export interface EmailTemplate {
+  key: EmailTemplateKey;
+  label: string;
+  entityType: CommunicationEntityType;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Variables available to templates. Every value is pre-formatted for display
+ * (currency, long dates); entities without a value simply omit the key.
+ */
+export type TemplateVariables = Partial<
+  Record<
+    | 'recipientName'
+    | 'firstName'
+    | 'propertyName'
+    | 'propertyAddress'
+    | 'unitNumber'
+    | 'monthlyRent'
+    | 'moveInDate'
+    | 'leaseStartDate'
+    | 'leaseEndDate'
+    | 'workOrderTitle'
+    | 'workOrderStatus'
+    | 'scheduledDate'
+    | 'today',
+    string
+  >
+>;
+
+export const EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplate> = {
+  application_received: {
+    key: 'application_received',
+    label: 'Application received',
+    entityType: 'application',
+    subject: 'We received your application for {{propertyName}}',
+    body:
+      'Hi {{firstName}},\n\n' +
+      'Thank you for applying to rent {{propertyName}}. We are reviewing your application ' +
+      'and will be in touch with next steps.\n',
+  },
+  documents_requested: {
+    key: 'documents_requested',
+    label: 'Documents requested',
+    entityType: 'application',
+    subject: 'Documents needed for your application at {{propertyName}}',
+    body:
+      'Hi {{firstName}},\n\n' +
+      'To continue with your application for {{propertyName}}, please upload proof of income ' +
+      'and government-issued photo ID.\n',
+  },
+  application_approved: {
+    key: 'application_approved',
+    label: 'Application approved',
+    entityType: 'application',
+    subject: 'Your application for {{propertyName}} has been approved',
+    body:
+      'Hi {{firstName}},\n\n' +
+      'Good news - your application for {{propertyName}} has been approved. ' +
+      'We will send the lease for signature shortly.\n',
+  },
+  application_rejected: {
+    key: 'application_rejected',
+    label: 'Application declined',
+    entityType: 'application',
+    subject: 'Your application for {{propertyName}}',
+    body:
+      'Hi {{firstName}},\n\n' +
+      'Thank you for your interest in {{propertyName}}. After careful review we are unable ' +
+      'to offer you a lease at this time.\n',
+  },
+  rent_reminder: {
+    key: 'rent_reminder',
+    label: 'Rent reminder',
+    entityType: 'tenant',
+    subject: 'Rent reminder for {{propertyAddress}} unit {{unitNumber}}',
+    body:
+      'Hi {{firstName}},\n\n' +
+      'This is a friendly reminder that rent of {{monthlyRent}} for unit {{unitNumber}} ' +
+      'at {{propertyAddress}} is due on the first of the month.\n',
+  },
+  lease_renewal: {
+    key: 'lease_renewal',
+    label: 'Lease renewal',
+    entityType: 'tenant',
+    subject: 'Your lease at {{propertyAddress}} ends on {{leaseEndDate}}',
+    body:
+      'Hi {{firstName}},\n\n' +
+      'Your lease for unit {{unitNumber}} at {{propertyAddress}} ends on {{leaseEndDate}}. ' +
+      'Please let us know whether you would like to renew.\n',
+  },
+  work_order_scheduled: {
+    key: 'work_order_scheduled',
+    label: 'Work order scheduled',
+    entityType: 'work_order',
+    subject: 'Maintenance scheduled: {{workOrderTitle}}',
+    body:
+      'Hi {{firstName}},\n\n' +
+      'Your maintenance request "{{workOrderTitle}}" at {{propertyAddress}} is scheduled ' +
+      'for {{scheduledDate}}.\n',
+  },
+  work_order_completed: {
+    key: 'work_order_completed',
+    label: 'Work order completed',
+    entityType: 'work_order',
+    subject: 'Maintenance completed: {{workOrderTitle}}',
+    body:
+      'Hi {{firstName}},\n\n' +
+      'Your maintenance request "{{workOrderTitle}}" at {{propertyAddress}} has been completed. ' +
+      'Reply to this email if anything still needs attention.\n',
+  },
+};
+
+export function isEmailTemplateKey(key: string): key is EmailTemplateKey {
+  return Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, key);
+}
+
+export function getEmailTemplatesForEntity(entityType: CommunicationEntityType): EmailTemplate[] {
+  return Object.values(EMAIL_TEMPLATES).filter((template) => template.entityType === entityType);
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Names of the placeholders used in a template, in order of first use
+ */
+export function getTemplatePlaceholders(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Replace {{variable}} placeholders. Unknown or empty variables render as an
+ * empty string; use renderEmail() to detect them before sending.
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  const values = variables as Record<string, string | undefined>;
+  return template.replace(PLACEHOLDER, (_, name: string) => values[name] ?? '');
+}
+
+/**
+ * Render a subject and body, reporting placeholders without a value
+ */
+export function renderEmail(
+  template: { subject: string; body: string },
+  variables: TemplateVariables
+): { subject: string; body: string; missingVariables: string[] } {
+  const values = variables as Record<string, string | undefined>;
+  const missingVariables = getTemplatePlaceholders(`${template.subject}\n${template.body}`).filter(
+    (name) => !values[name]
+  );
+
+  return {
+    subject: renderTemplate(template.subject, variables),
+    body: renderTemplate(template.body, variables),
+    missingVariables,
+  };
+}
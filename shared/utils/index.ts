@@ -309,3 +309,12 @@ export async function retry<T>(
 // Export image utilities
 export * from './image';
 export * from './crypto';
+export * from './notices';
+export * from './email-templates';
+export * from './intake-form';
+export * from './permissions';
+export * from './request-signing';
+export * from './audit';
+export * from './application-workflow';
+export * from './application-pipeline';
+export * from './ai-rubric';
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for intake form schema and submission validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { IntakeFormSchema } from '../types';
+import {
+  DEFAULT_INTAKE_FORM_SCHEMA,
+  formatIntakeOption,
+  validateIntakeAnswers,
+  validateIntakeFormSchema,
+} from './intake-form';
+
+const schema: IntakeFormSchema = {
+  sections: [
+    ...DEFAULT_INTAKE_FORM_SCHEMA.sections,
+    {
+      id: 'household',
+      title: 'Household',
+      fields: [
+        { key: 'hasPets', label: 'Pets', type: 'yes_no', required: true },
+        { key: 'occupants', label: 'Occupants', type: 'number', required: false },
+        { key: 'parking', label: 'Parking', type: 'select', required: false, options: ['None', 'One spot'] },
+        {
+          key: 'vehicles',
+          label: 'Vehicles',
+          type: 'list',
+          required: false,
+          maxItems: 2,
+          itemFields: [
+            { key: 'make', label: 'Make', type: 'text', required: true },
+            { key: 'plate', label: 'Plate', type: 'text', required: false },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const contact = { firstName: 'Tina', lastName: 'Tenant', email: 'tina@example.com', phone: '416-555-0100' };
+
+describe('Intake forms', () => {
+  describe('validateIntakeFormSchema', () => {
+    it('should accept the default and extended forms', () => {
+      expect(validateIntakeFormSchema(DEFAULT_INTAKE_FORM_SCHEMA)).toEqual([]);
+      expect(validateIntakeFormSchema(schema)).toEqual([]);
+    });
+
+    it('should require locked lead fields to stay on the form and required', () => {
+      const errors = validateIntakeFormSchema({
+        sections: [
+          {
+            id: 'contact',
+            title: 'Contact',
+            fields: [
+              { key: 'firstName', label: 'First Name', type: 'text', required: true },
+              { key: 'lastName', label: 'Last Name', type: 'text', required: true },
+              { key: 'email', label: 'Email', type: 'email', required: false },
+            ],
+          },
+        ],
+      });
+
+      expect(errors).toContain('Email must be required');
+      expect(errors).toContain('"phone" is required on every form');
+    });
+
+    it('should reject duplicate keys, empty selects and nested lists', () => {
+      const errors = validateIntakeFormSchema({
+        sections: [
+          {
+            ...DEFAULT_INTAKE_FORM_SCHEMA.sections[0],
+            fields: [
+              ...DEFAULT_INTAKE_FORM_SCHEMA.sections[0].fields,
+              { key: 'email', label: 'Other email', type: 'email', required: false },
+              { key: 'pets', label: 'Pets', type: 'select', required: false, options: [] },
+              {
+                key: 'references',
+                label: 'References',
+                type: 'list',
+                required: false,
+                itemFields: [{ key: 'nested', label: 'Nested', type: 'list', required: false }],
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(errors).toContain('Duplicate field key "email"');
+      expect(errors).toContain('Pets needs at least one option');
+      expect(errors).toContain('References: Nested cannot be a list inside a list');
+    });
+  });
+
+  describe('validateIntakeAnswers', () => {
+    it('should split lead fields from custom answers and coerce form values', () => {
+      const result = validateIntakeAnswers(schema, {
+        ...contact,
+        employmentStatus: 'self_employed',
+        hasPets: 'yes',
+        occupants: '3',
+        vehicles: JSON.stringify([{ make: 'Honda', plate: 'ABC 123' }, { make: '', plate: '' }]),
+        unknown: 'ignored',
+      });
+
+      expect(result.errors).toEqual({});
+      expect(result.core).toEqual({ ...contact, employmentStatus: 'self_employed' });
+      expect(result.answers).toEqual({
+        hasPets: true,
+        occupants: 3,
+        vehicles: [{ make: 'Honda', plate: 'ABC 123' }],
+      });
+    });
+
+    it('should report missing and invalid answers by field key', () => {
+      const result = validateIntakeAnswers(schema, {
+        ...contact,
+        email: 'not-an-email',
+        parking: 'Two spots',
+        vehicles: [{ make: 'Honda' }, { make: 'Ford' }, { make: 'Kia' }],
+      });
+
+      expect(result.errors).toEqual({
+        email: 'Email must be a valid email address',
+        hasPets: 'Pets is required',
+        parking: 'Parking must be one of the listed options',
+        vehicles: 'Vehicles allows at most 2 entries',
+      });
+    });
+
+    it('should only check contact fields and message for general inquiries', () => {
+      const result = validateIntakeAnswers(schema, { ...contact, message: 'Any parking?' }, { generalInquiry: true });
+
+      expect(result.errors).toEqual({});
+      expect(result.core.message).toBe('Any parking?');
+    });
+  });
+
+  describe('formatIntakeOption', () => {
+    it('should humanize option values only', () => {
+      expect(formatIntakeOption('self_employed')).toBe('Self employed');
+      expect(formatIntakeOption('One spot')).toBe('One spot');
+    });
+  });
+});
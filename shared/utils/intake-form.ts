@@ -0,0 +1,365 @@
+// Per-site application intake forms
+// A site's form is a list of sections of typed fields. Fields keyed by one of
+// the lead columns (CORE_INTAKE_FIELDS) fill in the lead itself; every other
+// field is a custom question whose answer is stored alongside the lead.
+
+import type {
+  IntakeAnswers,
+  IntakeFieldType,
+  IntakeFormField,
+  IntakeFormSchema,
+  IntakeListItem,
+} from '../types';
+
+export type CoreIntakeFieldKey =
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'currentAddress'
+  | 'employmentStatus'
+  | 'moveInDate'
+  | 'message';
+
+export const EMPLOYMENT_STATUS_OPTIONS = ['employed', 'self_employed', 'student', 'retired', 'unemployed'];
+
+/**
+ * Lead columns that can appear on the form. Their type is fixed; locked fields
+ * must stay on the form and stay required because every lead needs them.
+ */
+export const CORE_INTAKE_FIELDS: Record<
+  CoreIntakeFieldKey,
+  { type: IntakeFieldType; locked: boolean; options?: string[] }
+> = {
+  firstName: { type: 'text', locked: true },
+  lastName: { type: 'text', locked: true },
+  email: { type: 'email', locked: true },
+  phone: { type: 'phone', locked: true },
+  currentAddress: { type: 'text', locked: false },
+  employmentStatus: { type: 'select', locked: false, options: EMPLOYMENT_STATUS_OPTIONS },
+  moveInDate: { type: 'date', locked: false },
+  message: { type: 'textarea', locked: false },
+};
+
+// General inquiries only collect contact details and a message
+export const GENERAL_INQUIRY_FIELD_KEYS: CoreIntakeFieldKey[] = ['firstName', 'lastName', 'email', 'phone', 'message'];
+
+export const MAX_INTAKE_LIST_ITEMS = 20;
+
+const FIELD_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,49}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^[0-9+().\s-]{7,25}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_LENGTH: Partial<Record<IntakeFieldType, number>> = { text: 200, textarea: 2000, email: 320 };
+
+/**
+ * The form every site starts with: the fields the storefront has always asked for
+ */
+export const DEFAULT_INTAKE_FORM_SCHEMA: IntakeFormSchema = {
+  sections: [
+    {
+      id: 'contact',
+      title: 'Contact Information',
+      fields: [
+        { key: 'firstName', label: 'First Name', type: 'text', required: true },
+        { key: 'lastName', label: 'Last Name', type: 'text', required: true },
+        { key: 'email', label: 'Email', type: 'email', required: true },
+        { key: 'phone', label: 'Phone', type: 'phone', required: true },
+      ],
+    },
+    {
+      id: 'application',
+      title: 'Application Details',
+      fields: [
+        { key: 'moveInDate', label: 'Ideal Move-in Date', type: 'date', required: false },
+        {
+          key: 'employmentStatus',
+          label: 'Employment Status',
+          type: 'select',
+          required: false,
+          options: EMPLOYMENT_STATUS_OPTIONS,
+        },
+        { key: 'message', label: 'Message', type: 'textarea', required: false },
+      ],
+    },
+  ],
+};
+
+export function isCoreIntakeField(key: string): key is CoreIntakeFieldKey {
+  return Object.prototype.hasOwnProperty.call(CORE_INTAKE_FIELDS, key);
+}
+
+/**
+ * All fields on the form, in display order
+ */
+export function getIntakeFormFields(schema: IntakeFormSchema): IntakeFormField[] {
+  return schema.sections.flatMap((section) => section.fields);
+}
+
+/**
+ * Options offered by a select field (core fields always use their fixed list)
+ */
+export function getIntakeFieldOptions(field: IntakeFormField): string[] {
+  if (isCoreIntakeField(field.key)) {
+    return CORE_INTAKE_FIELDS[field.key].options ?? [];
+  }
+  return field.options ?? [];
+}
+
+/**
+ * Display label for a select option ('self_employed' → 'Self employed')
+ */
+export function formatIntakeOption(option: string): string {
+  if (!/^[a-z0-9_]+$/.test(option)) return option;
+  const words = option.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Structural rules a form must satisfy before it can be saved.
+ * Returns human-readable problems; an empty array means the form is valid.
+ */
+export function validateIntakeFormSchema(schema: IntakeFormSchema): string[] {
+  const errors: string[] = [];
+  const sectionIds = new Set<string>();
+  const fieldKeys = new Set<string>();
+
+  if (schema.sections.length === 0) {
+    errors.push('The form needs at least one section');
+  }
+
+  for (const section of schema.sections) {
+    if (sectionIds.has(section.id)) {
+      errors.push(`Duplicate section id "${section.id}"`);
+    }
+    sectionIds.add(section.id);
+    if (!section.title.trim()) {
+      errors.push('Every section needs a title');
+    }
+
+    for (const field of section.fields) {
+      errors.push(...validateField(field, fieldKeys, false));
+    }
+  }
+
+  for (const [key, rule] of Object.entries(CORE_INTAKE_FIELDS)) {
+    if (rule.locked && !fieldKeys.has(key)) {
+      errors.push(`"${key}" is required on every form`);
+    }
+  }
+
+  return errors;
+}
+
+function validateField(field: IntakeFormField, keys: Set<string>, isListItem: boolean): string[] {
+  const errors: string[] = [];
+  const name = field.label.trim() || field.key;
+
+  if (!FIELD_KEY_PATTERN.test(field.key)) {
+    errors.push(`"${field.key}" is not a valid field key (letters, digits and underscores, starting with a letter)`);
+  }
+  if (keys.has(field.key)) {
+    errors.push(`Duplicate field key "${field.key}"`);
+  }
+  keys.add(field.key);
+  if (!field.label.trim()) {
+    errors.push(`Field "${field.key}" needs a label`);
+  }
+
+  if (!isListItem && isCoreIntakeField(field.key)) {
+    const rule = CORE_INTAKE_FIELDS[field.key];
+    if (field.type !== rule.type) {
+      errors.push(`${name} must be a ${rule.type} field`);
+    }
+    if (rule.locked && !field.required) {
+      errors.push(`${name} must be required`);
+    }
+    return errors;
+  }
+
+  if (field.type === 'select') {
+    const options = field.options ?? [];
+    if (options.length === 0) {
+      errors.push(`${name} needs at least one option`);
+    } else if (new Set(options).size !== options.length) {
+      errors.push(`${name} has duplicate options`);
+    }
+  }
+
+  if (field.type === 'list') {
+    if (isListItem) {
+      errors.push(`${name} cannot be a list inside a list`);
+      return errors;
+    }
+    const itemFields = field.itemFields ?? [];
+    if (itemFields.length === 0) {
+      errors.push(`${name} needs at least one column`);
+    }
+    const itemKeys = new Set<string>();
+    for (const itemField of itemFields) {
+      errors.push(...validateField(itemField, itemKeys, true).map((error) => `${name}: ${error}`));
+    }
+    if (field.maxItems !== undefined && (field.maxItems < 1 || field.maxItems > MAX_INTAKE_LIST_ITEMS)) {
+      errors.push(`${name} can allow between 1 and ${MAX_INTAKE_LIST_ITEMS} entries`);
+    }
+  }
+
+  return errors;
+}
+
+export interface IntakeValidationResult {
+  /** Values for lead columns */
+  core: Partial<Record<CoreIntakeFieldKey, string>>;
+  /** Answers to custom questions, keyed by field key */
+  answers: IntakeAnswers;
+  /** Problems keyed by field key; empty when the submission is valid */
+  errors: Record<string, string>;
+}
+
+/**
+ * Validate a submission against a form. Accepts raw form values (strings,
+ * 'yes'/'no', JSON-encoded list entries) as well as typed JSON values and
+ * returns them normalized. Keys not on the form are ignored.
+ */
+export function validateIntakeAnswers(
+  schema: IntakeFormSchema,
+  input: Record<string, unknown>,
+  options: { generalInquiry?: boolean } = {}
+): IntakeValidationResult {
+  const result: IntakeValidationResult = { core: {}, answers: {}, errors: {} };
+
+  let fields = getIntakeFormFields(schema);
+  if (options.generalInquiry) {
+    fields = fields.filter((field) => (GENERAL_INQUIRY_FIELD_KEYS as string[]).includes(field.key));
+  }
+
+  for (const field of fields) {
+    const parsed = parseFieldValue(field, input[field.key]);
+    if ('error' in parsed) {
+      result.errors[field.key] = parsed.error;
+    } else if (parsed.value !== undefined) {
+      if (isCoreIntakeField(field.key)) {
+        result.core[field.key] = String(parsed.value);
+      } else {
+        result.answers[field.key] = parsed.value;
+      }
+    }
+  }
+
+  return result;
+}
+
+type ParsedValue = { value: IntakeAnswers[string] | undefined } | { error: string };
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function parseFieldValue(field: IntakeFormField, raw: unknown): ParsedValue {
+  if (field.type === 'list') {
+    return parseListValue(field, raw);
+  }
+
+  if (isBlank(raw)) {
+    return field.required ? { error: `${field.label} is required` } : { value: undefined };
+  }
+
+  const text = typeof raw === 'string' ? raw.trim() : raw;
+
+  switch (field.type) {
+    case 'number': {
+      const value = typeof text === 'number' ? text : Number(text);
+      return Number.isFinite(value) ? { value } : { error: `${field.label} must be a number` };
+    }
+    case 'yes_no': {
+      if (text === true || text === 'true' || text === 'yes' || text === 'on') return { value: true };
+      if (text === false || text === 'false' || text === 'no') return { value: false };
+      return { error: `${field.label} must be yes or no` };
+    }
+    default:
+      break;
+  }
+
+  if (typeof text !== 'string' && typeof text !== 'number') {
+    return { error: `${field.label} is invalid` };
+  }
+  const value = String(text);
+
+  const maxLength = MAX_LENGTH[field.type];
+  if (maxLength && value.length > maxLength) {
+    return { error: `${field.label} must be at most ${maxLength} characters` };
+  }
+
+  switch (field.type) {
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? { value } : { error: `${field.label} must be a valid email address` };
+    case 'phone':
+      return PHONE_PATTERN.test(value) ? { value } : { error: `${field.label} must be a valid phone number` };
+    case 'date':
+      return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+        ? { value }
+        : { error: `${field.label} must be a date (YYYY-MM-DD)` };
+    case 'select':
+      return getIntakeFieldOptions(field).includes(value)
+        ? { value }
+        : { error: `${field.label} must be one of the listed options` };
+    default:
+      return { value };
+  }
+}
+
+function parseListValue(field: IntakeFormField, raw: unknown): ParsedValue {
+  let entries: unknown = raw;
+  if (typeof raw === 'string') {
+    if (raw.trim() === '') {
+      entries = [];
+    } else {
+      try {
+        entries = JSON.parse(raw);
+      } catch {
+        return { error: `${field.label} is invalid` };
+      }
+    }
+  }
+  if (entries === undefined || entries === null) {
+    entries = [];
+  }
+  if (!Array.isArray(entries)) {
+    return { error: `${field.label} is invalid` };
+  }
+
+  const itemFields = field.itemFields ?? [];
+  const items: IntakeListItem[] = [];
+
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') {
+      return { error: `${field.label} is invalid` };
+    }
+    const record = entry as Record<string, unknown>;
+    // Rows left completely empty are dropped rather than reported
+    if (itemFields.every((itemField) => isBlank(record[itemField.key]))) {
+      continue;
+    }
+
+    const item: IntakeListItem = {};
+    for (const itemField of itemFields) {
+      const parsed = parseFieldValue(itemField, record[itemField.key]);
+      if ('error' in parsed) {
+        return { error: `${field.label} #${items.length + 1}: ${parsed.error}` };
+      }
+      if (parsed.value !== undefined && !Array.isArray(parsed.value)) {
+        item[itemField.key] = parsed.value;
+      }
+    }
+    items.push(item);
+  }
+
+  const maxItems = field.maxItems ?? MAX_INTAKE_LIST_ITEMS;
+  if (items.length > maxItems) {
+    return { error: `${field.label} allows at most ${maxItems} entries` };
+  }
+  if (items.length === 0) {
+    return field.required ? { error: `${field.label} needs at least one entry` } : { value: undefined };
+  }
+  return { value: items };
+}
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for Ontario notice date rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addDaysToIsoDate,
+  getDeemedServiceDate,
+  calculateNoticeEffectiveDate,
+  getNextNoticeReminderDate,
+} from './notices';
+
+describe('Notice date rules', () => {
+  describe('addDaysToIsoDate', () => {
+    it('should cross month and year boundaries', () => {
+      expect(addDaysToIsoDate('2025-01-31', 1)).toBe('2025-02-01');
+      expect(addDaysToIsoDate('2025-12-31', 1)).toBe('2026-01-01');
+      expect(addDaysToIsoDate('2025-03-01', -1)).toBe('2025-02-28');
+    });
+  });
+
+  describe('getDeemedServiceDate', () => {
+    it('should add five days for mail and one for courier', () => {
+      expect(getDeemedServiceDate('2025-03-01', 'mail')).toBe('2025-03-06');
+      expect(getDeemedServiceDate('2025-03-01', 'courier')).toBe('2025-03-02');
+    });
+
+    it('should use the same day for hand delivery, mail slot and email', () => {
+      expect(getDeemedServiceDate('2025-03-01', 'hand')).toBe('2025-03-01');
+      expect(getDeemedServiceDate('2025-03-01', 'mail_slot')).toBe('2025-03-01');
+      expect(getDeemedServiceDate('2025-03-01', 'email')).toBe('2025-03-01');
+    });
+  });
+
+  describe('calculateNoticeEffectiveDate', () => {
+    it('should give N4 a 14 day termination date for monthly tenancies', () => {
+      expect(calculateNoticeEffectiveDate('n4', { servedOn: '2025-03-01', serviceMethod: 'hand' })).toBe('2025-03-15');
+      expect(calculateNoticeEffectiveDate('n4', { servedOn: '2025-03-01', serviceMethod: 'mail' })).toBe('2025-03-20');
+    });
+
+    it('should give N4 a 7 day termination date for weekly tenancies', () => {
+      expect(
+        calculateNoticeEffectiveDate('n4', { servedOn: '2025-03-01', serviceMethod: 'hand', rentPeriod: 'weekly' })
+      ).toBe('2025-03-08');
+    });
+
+    it('should give N1 at least 90 days notice', () => {
+      expect(calculateNoticeEffectiveDate('n1', { servedOn: '2025-03-01', serviceMethod: 'hand' })).toBe('2025-05-30');
+    });
+
+    it('should move N1 to the next tenancy anniversary when the lease start is known', () => {
+      expect(
+        calculateNoticeEffectiveDate('n1', {
+          servedOn: '2025-03-01',
+          serviceMethod: 'hand',
+          leaseStartDate: '2024-07-01',
+        })
+      ).toBe('2025-07-01');
+      expect(
+        calculateNoticeEffectiveDate('n1', {
+          servedOn: '2025-05-01',
+          serviceMethod: 'mail',
+          leaseStartDate: '2024-08-01',
+        })
+      ).toBe('2026-08-01');
+    });
+
+    it('should use the agreed termination date for N11', () => {
+      expect(calculateNoticeEffectiveDate('n11', { agreedTerminationDate: '2025-06-30' })).toBe('2025-06-30');
+      expect(calculateNoticeEffectiveDate('n11', { servedOn: '2025-03-01' })).toBeNull();
+    });
+
+    it('should return null without a service date', () => {
+      expect(calculateNoticeEffectiveDate('n4', {})).toBeNull();
+    });
+  });
+
+  describe('getNextNoticeReminderDate', () => {
+    it('should return the earliest reminder on or after the given date', () => {
+      expect(getNextNoticeReminderDate('2025-06-30', [30, 7, 1], '2025-05-01')).toBe('2025-05-31');
+      expect(getNextNoticeReminderDate('2025-06-30', [30, 7, 1], '2025-06-01')).toBe('2025-06-23');
+      expect(getNextNoticeReminderDate('2025-06-30', [30, 7, 1], '2025-06-29')).toBe('2025-06-29');
+    });
+
+    it('should return null once all reminders have passed', () => {
+      expect(getNextNoticeReminderDate('2025-06-30', [30, 7, 1], '2025-06-30')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+// Ontario notice date rules (N1 / N4 / N11)
+// Dates are plain YYYY-MM-DD strings and all arithmetic is done in UTC so the
+// result does not depend on the server's timezone.
+
+import type { NoticeServiceMethod, NoticeType } from '../types';
+
+export const NOTICE_TYPE_LABELS: Record<NoticeType, string> = {
+  n1: 'N1 - Rent Increase',
+  n4: 'N4 - Non-payment of Rent',
+  n11: 'N11 - Agreement to End Tenancy',
+};
+
+// Minimum days between deemed service and the effective date
+export const N1_MINIMUM_NOTICE_DAYS = 90;
+export const N4_MINIMUM_NOTICE_DAYS_MONTHLY = 14;
+export const N4_MINIMUM_NOTICE_DAYS_WEEKLY = 7;
+
+// Days before the effective date at which reminders fire by default
+export const DEFAULT_NOTICE_REMINDER_SCHEDULE = [30, 7, 1];
+
+function parseIsoDate(date: string): Date {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDaysToIsoDate(date: string, days: number): string {
+  const d = parseIsoDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toIsoDate(d);
+}
+
+/**
+ * Date a notice is deemed served under the RTA.
+ * Mail is deemed served on the fifth day after mailing; courier on the
+ * next day; hand delivery, mail slot and email take effect the same day.
+ */
+export function getDeemedServiceDate(servedOn: string, method: NoticeServiceMethod): string {
+  switch (method) {
+    case 'mail':
+      return addDaysToIsoDate(servedOn, 5);
+    case 'courier':
+      return addDaysToIsoDate(servedOn, 1);
+    default:
+      return servedOn.slice(0, 10);
+  }
+}
+
+/**
+ * Earliest permitted effective date for a notice.
+ * - N1: 90 days after deemed service; when the lease start is known, moved to
+ *   the next anniversary of the tenancy (increases are at most once per 12 months).
+ * - N4: 14 days after deemed service (7 for daily/weekly tenancies).
+ * - N11: the termination date agreed by both parties.
+ * Returns null when the required inputs are missing.
+ */
+export function calculateNoticeEffectiveDate(
+  type: NoticeType,
+  options: {
+    servedOn?: string;
+    serviceMethod?: NoticeServiceMethod;
+    leaseStartDate?: string;
+    rentPeriod?: 'monthly' | 'weekly';
+    agreedTerminationDate?: string;
+  }
+): string | null {
+  if (type === 'n11') {
+    return options.agreedTerminationDate ? options.agreedTerminationDate.slice(0, 10) : null;
+  }
+
+  if (!options.servedOn) return null;
+  const deemedServed = getDeemedServiceDate(options.servedOn, options.serviceMethod || 'hand');
+
+  if (type === 'n4') {
+    const minimumDays =
+      options.rentPeriod === 'weekly' ? N4_MINIMUM_NOTICE_DAYS_WEEKLY : N4_MINIMUM_NOTICE_DAYS_MONTHLY;
+    return addDaysToIsoDate(deemedServed, minimumDays);
+  }
+
+  const earliest = addDaysToIsoDate(deemedServed, N1_MINIMUM_NOTICE_DAYS);
+  if (!options.leaseStartDate) return earliest;
+
+  const start = parseIsoDate(options.leaseStartDate);
+  const earliestDate = parseIsoDate(earliest);
+  for (let years = 1; years < 100; years++) {
+    const anniversary = new Date(Date.UTC(start.getUTCFullYear() + years, start.getUTCMonth(), start.getUTCDate()));
+    if (anniversary >= earliestDate) return toIsoDate(anniversary);
+  }
+  return earliest;
+}
+
+/**
+ * Next reminder date on or after `from`, given days-before offsets from the
+ * effective date. Returns null once every reminder has passed.
+ */
+export function getNextNoticeReminderDate(
+  effectiveOn: string,
+  schedule: number[],
+  from: string
+): string | null {
+  const candidates = schedule
+    .map((daysBefore) => addDaysToIsoDate(effectiveOn, -daysBefore))
+    .filter((date) => date >= from.slice(0, 10))
+    .sort();
+  return candidates[0] || null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for role permissions and property scoping
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canAccessProperty,
+  filterByPropertyAccess,
+  hasPermission,
+  normalizeUserRole,
+  resolvePropertyScope,
+} from './permissions';
+
+describe('Role permissions', () => {
+  describe('normalizeUserRole', () => {
+    it('should upgrade legacy admin roles and default unknown roles to viewer', () => {
+      expect(normalizeUserRole('admin')).toBe('property_manager');
+      expect(normalizeUserRole('manager')).toBe('property_manager');
+      expect(normalizeUserRole('owner')).toBe('owner');
+      expect(normalizeUserRole('staff')).toBe('viewer');
+      expect(normalizeUserRole(undefined)).toBe('viewer');
+    });
+  });
+
+  describe('hasPermission', () => {
+    it('should only let owners and property managers see financials', () => {
+      expect(hasPermission({ role: 'owner' }, 'financials:read')).toBe(true);
+      expect(hasPermission({ role: 'property_manager' }, 'financials:read')).toBe(true);
+      expect(hasPermission({ role: 'maintenance' }, 'financials:read')).toBe(false);
+      expect(hasPermission({ role: 'viewer' }, 'financials:read')).toBe(false);
+    });
+
+    it('should keep owners and viewers read-only', () => {
+      expect(hasPermission({ role: 'owner' }, 'leases:write')).toBe(false);
+      expect(hasPermission({ role: 'viewer' }, 'work_orders:write')).toBe(false);
+      expect(hasPermission({ role: 'maintenance' }, 'work_orders:write')).toBe(true);
+      expect(hasPermission({ role: 'maintenance' }, 'leases:read')).toBe(false);
+    });
+
+    it('should grant super admins everything regardless of role', () => {
+      expect(hasPermission({ role: 'viewer', isSuperAdmin: true }, 'users:admin')).toBe(true);
+      expect(hasPermission(null, 'properties:read')).toBe(false);
+    });
+  });
+
+  describe('resolvePropertyScope', () => {
+    it('should limit owners to their grants even when they have none', () => {
+      expect(resolvePropertyScope('owner', false, ['prop_1'])).toEqual(['prop_1']);
+      expect(resolvePropertyScope('owner', false, [])).toEqual([]);
+    });
+
+    it('should only limit other roles once they have a grant', () => {
+      expect(resolvePropertyScope('property_manager', false, [])).toBeNull();
+      expect(resolvePropertyScope('property_manager', false, ['prop_2'])).toEqual(['prop_2']);
+      expect(resolvePropertyScope('owner', true, ['prop_1'])).toBeNull();
+    });
+  });
+
+  describe('property filtering', () => {
+    const items = [
+      { id: 'a', propertyId: 'prop_1' },
+      { id: 'b', propertyId: 'prop_2' },
+      { id: 'c', propertyId: undefined },
+    ];
+
+    it('should pass everything through for site-wide access', () => {
+      expect(filterByPropertyAccess({ propertyIds: null }, items, (i) => i.propertyId)).toHaveLength(3);
+      expect(filterByPropertyAccess(undefined, items, (i) => i.propertyId)).toHaveLength(3);
+    });
+
+    it('should keep only granted properties and drop unassigned records', () => {
+      const access = { propertyIds: ['prop_1'] };
+      expect(filterByPropertyAccess(access, items, (i) => i.propertyId).map((i) => i.id)).toEqual(['a']);
+      expect(canAccessProperty(access, 'prop_2')).toBe(false);
+      expect(canAccessProperty(access, null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+// Role-based access control shared by the ops UI and the worker.
+// Roles grant permissions; property grants (UserAccess.propertyIds) narrow
+// which properties those permissions apply to.
+
+import type { Permission, UserAccess, UserRole } from '../types';
+
+export const USER_ROLES: UserRole[] = ['owner', 'property_manager', 'maintenance', 'viewer'];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  property_manager: 'Property Manager',
+  maintenance: 'Maintenance',
+  viewer: 'Viewer',
+};
+
+export const USER_ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  owner: 'Read-only access to their own properties, including financials',
+  property_manager: 'Full access to manage properties, tenants, leases and users',
+  maintenance: 'Manages work orders; can view properties and tenants',
+  viewer: 'Read-only access, excluding financials',
+};
+
+const READ_ALL: Permission[] = [
+  'properties:read',
+  'leads:read',
+  'tenants:read',
+  'leases:read',
+  'work_orders:read',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  property_manager: [
+    ...READ_ALL,
+    'properties:write',
+    'properties:delete',
+    'leads:write',
+    'tenants:write',
+    'tenants:delete',
+    'leases:write',
+    'leases:delete',
+    'work_orders:write',
+    'work_orders:delete',
+    'financials:read',
+    'financials:write',
+    'settings:write',
+    'users:admin',
+  ],
+  owner: [...READ_ALL, 'financials:read'],
+  maintenance: ['properties:read', 'tenants:read', 'work_orders:read', 'work_orders:write'],
+  viewer: READ_ALL,
+};
+
+// Roles only ever see properties they have been explicitly granted
+const PROPERTY_SCOPED_ROLES: UserRole[] = ['owner'];
+
+/**
+ * Map a stored role onto the current model. Roles from before owners and
+ * property managers existed are upgraded; anything unknown gets the least
+ * privileged role.
+ */
+export function normalizeUserRole(role: string | null | undefined): UserRole {
+  if ((USER_ROLES as string[]).includes(role || '')) return role as UserRole;
+  if (role === 'admin' || role === 'manager' || role === 'super_admin') return 'property_manager';
+  return 'viewer';
+}
+
+export function hasPermission(
+  user: { role: UserRole; isSuperAdmin?: boolean } | null | undefined,
+  permission: Permission
+): boolean {
+  if (!user) return false;
+  if (user.isSuperAdmin) return true;
+  return ROLE_PERMISSIONS[normalizeUserRole(user.role)].includes(permission);
+}
+
+/**
+ * Properties a user may see on a site: null for all of them, otherwise the
+ * granted ids. Owners are always limited to their grants (none means none);
+ * other roles are limited only once they have at least one grant.
+ */
+export function resolvePropertyScope(
+  role: UserRole,
+  isSuperAdmin: boolean,
+  grantedPropertyIds: string[]
+): string[] | null {
+  if (isSuperAdmin) return null;
+  if (grantedPropertyIds.length > 0 || PROPERTY_SCOPED_ROLES.includes(role)) {
+    return grantedPropertyIds;
+  }
+  return null;
+}
+
+export function canAccessProperty(
+  access: Pick<UserAccess, 'propertyIds'> | null | undefined,
+  propertyId: string | null | undefined
+): boolean {
+  if (!access || access.propertyIds === null) return true;
+  return Boolean(propertyId) && access.propertyIds.includes(propertyId as string);
+}
+
+export function filterByPropertyAccess<T>(
+  access: Pick<UserAccess, 'propertyIds'> | null | undefined,
+  items: T[],
+  getPropertyId: (item: T) => string | null | undefined
+): T[] {
+  if (!access || access.propertyIds === null) return items;
+  return items.filter((item) => canAccessProperty(access, getPropertyId(item)));
+}
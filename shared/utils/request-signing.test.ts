@@ -0,0 +1,80 @@
+/**
+ * Unit tests for ops → worker request signing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseSigningKeys,
+  requestSignatureHeaders,
+  signRequest,
+  verifyRequestSignature,
+  REQUEST_SIGNATURE_MAX_AGE_SECONDS,
+  SIGNATURE_HEADER,
+} from './request-signing';
+
+const parts = {
+  method: 'POST',
+  path: '/api/ops/leases/lease_1/ledger',
+  body: JSON.stringify({ amount: 1500 }),
+  userId: 'user_1',
+  siteId: 'site_1',
+};
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+async function signedHeaders(secret = 'current-secret', id = 'k2') {
+  return new Headers(requestSignatureHeaders(await signRequest({ id, secret }, parts, NOW)));
+}
+
+describe('Request signing', () => {
+  describe('parseSigningKeys', () => {
+    it('should parse id:secret lists and give bare secrets the default id', () => {
+      expect(parseSigningKeys('k2:new, k1:old')).toEqual([
+        { id: 'k2', secret: 'new' },
+        { id: 'k1', secret: 'old' },
+      ]);
+      expect(parseSigningKeys('dev-key')).toEqual([{ id: 'default', secret: 'dev-key' }]);
+      expect(parseSigningKeys(undefined)).toEqual([]);
+    });
+  });
+
+  describe('verifyRequestSignature', () => {
+    const keys = parseSigningKeys('k2:current-secret,k1:previous-secret');
+
+    it('should accept a request signed with any configured key', async () => {
+      const current = await verifyRequestSignature(keys, parts, await signedHeaders(), NOW);
+      const previous = await verifyRequestSignature(keys, parts, await signedHeaders('previous-secret', 'k1'), NOW);
+
+      expect(current).toMatchObject({ valid: true, keyId: 'k2' });
+      expect(previous).toMatchObject({ valid: true, keyId: 'k1' });
+    });
+
+    it('should reject a request whose user, site or body was changed', async () => {
+      const headers = await signedHeaders();
+
+      expect(await verifyRequestSignature(keys, { ...parts, userId: 'user_2' }, headers, NOW))
+        .toEqual({ valid: false, reason: 'invalid' });
+      expect(await verifyRequestSignature(keys, { ...parts, siteId: 'site_2' }, headers, NOW))
+        .toEqual({ valid: false, reason: 'invalid' });
+      expect(await verifyRequestSignature(keys, { ...parts, body: '{"amount":1}' }, headers, NOW))
+        .toEqual({ valid: false, reason: 'invalid' });
+    });
+
+    it('should reject stale, unsigned and unknown-key requests', async () => {
+      const later = NOW + (REQUEST_SIGNATURE_MAX_AGE_SECONDS + 1) * 1000;
+      const unsigned = new Headers();
+      const retired = await signedHeaders('retired-secret', 'k0');
+
+      expect(await verifyRequestSignature(keys, parts, await signedHeaders(), later))
+        .toEqual({ valid: false, reason: 'expired' });
+      expect(await verifyRequestSignature(keys, parts, unsigned, NOW)).toEqual({ valid: false, reason: 'missing' });
+      expect(await verifyRequestSignature(keys, parts, retired, NOW)).toEqual({ valid: false, reason: 'unknown_key' });
+    });
+
+    it('should reject a forged signature', async () => {
+      const headers = await signedHeaders('wrong-secret');
+      expect(headers.get(SIGNATURE_HEADER)).toBeTruthy();
+      expect(await verifyRequestSignature(keys, parts, headers, NOW)).toEqual({ valid: false, reason: 'invalid' });
+    });
+  });
+});
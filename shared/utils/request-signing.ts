@@ -0,0 +1,144 @@
+// HMAC request signing for ops → worker calls.
+// The signature covers the method, path and query, a hash of the body, a
+// timestamp and nonce, and the acting user and site, so none of them can be
+// altered or replayed by anyone without the shared key.
+
+import { generateRandomToken, hmacSha256Hex, sha256Hex, timingSafeEqual } from './crypto';
+
+export const SIGNATURE_HEADER = 'X-Signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'X-Signature-Timestamp';
+export const SIGNATURE_NONCE_HEADER = 'X-Signature-Nonce';
+export const SIGNATURE_KEY_ID_HEADER = 'X-Signature-Key-Id';
+
+// How far a request timestamp may drift from the verifier's clock
+export const REQUEST_SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
+export const DEFAULT_SIGNING_KEY_ID = 'default';
+
+const SIGNATURE_VERSION = 'LEASELAB-HMAC-SHA256';
+
+export interface SigningKey {
+  id: string;
+  secret: string;
+}
+
+export interface SignedRequestParts {
+  method: string;
+  // Path including the query string, e.g. /api/ops/leases?status=active
+  path: string;
+  body?: string | ArrayBuffer | Uint8Array | null;
+  userId?: string | null;
+  siteId?: string | null;
+}
+
+export interface RequestSignature {
+  keyId: string;
+  timestamp: number;
+  nonce: string;
+  signature: string;
+}
+
+export type RequestSignatureFailure = 'missing' | 'unknown_key' | 'expired' | 'invalid';
+
+export type RequestSignatureResult =
+  | { valid: true; keyId: string; timestamp: number; nonce: string }
+  | { valid: false; reason: RequestSignatureFailure };
+
+/**
+ * Parse a key setting of the form "id:secret,id:secret". A bare secret gets
+ * the default id. The first key is the one used for signing; verifiers accept
+ * all of them, which is how keys are rotated without downtime.
+ */
+export function parseSigningKeys(value: string | null | undefined): SigningKey[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) return { id: DEFAULT_SIGNING_KEY_ID, secret: entry };
+      return { id: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+    })
+    .filter((key) => key.secret.length > 0);
+}
+
+export async function buildRequestSigningString(
+  parts: SignedRequestParts,
+  timestamp: number,
+  nonce: string
+): Promise<string> {
+  return [
+    SIGNATURE_VERSION,
+    parts.method.toUpperCase(),
+    parts.path,
+    await sha256Hex(parts.body ?? ''),
+    String(timestamp),
+    nonce,
+    parts.userId || '',
+    parts.siteId || '',
+  ].join('\n');
+}
+
+export async function signRequest(
+  key: SigningKey,
+  parts: SignedRequestParts,
+  now: number = Date.now()
+): Promise<RequestSignature> {
+  const timestamp = Math.floor(now / 1000);
+  const nonce = generateRandomToken(16);
+  const signature = await hmacSha256Hex(key.secret, await buildRequestSigningString(parts, timestamp, nonce));
+
+  return { keyId: key.id, timestamp, nonce, signature };
+}
+
+/**
+ * Headers carrying a signature produced by signRequest
+ */
+export function requestSignatureHeaders(signature: RequestSignature): Record<string, string> {
+  return {
+    [SIGNATURE_HEADER]: signature.signature,
+    [SIGNATURE_TIMESTAMP_HEADER]: String(signature.timestamp),
+    [SIGNATURE_NONCE_HEADER]: signature.nonce,
+    [SIGNATURE_KEY_ID_HEADER]: signature.keyId,
+  };
+}
+
+/**
+ * Check a request's signature headers against the accepted keys. This does
+ * not track nonces; callers that need replay protection beyond the timestamp
+ * window must record the returned nonce.
+ */
+export async function verifyRequestSignature(
+  keys: SigningKey[],
+  parts: SignedRequestParts,
+  headers: { get(name: string): string | null | undefined },
+  now: number = Date.now()
+): Promise<RequestSignatureResult> {
+  const signature = headers.get(SIGNATURE_HEADER);
+  const timestampHeader = headers.get(SIGNATURE_TIMESTAMP_HEADER);
+  const nonce = headers.get(SIGNATURE_NONCE_HEADER);
+  const keyId = headers.get(SIGNATURE_KEY_ID_HEADER) || DEFAULT_SIGNING_KEY_ID;
+
+  if (!signature || !timestampHeader || !nonce) {
+    return { valid: false, reason: 'missing' };
+  }
+
+  const key = keys.find((k) => k.id === keyId);
+  if (!key) {
+    return { valid: false, reason: 'unknown_key' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > REQUEST_SIGNATURE_MAX_AGE_SECONDS) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  const expected = await hmacSha256Hex(key.secret, await buildRequestSigningString(parts, timestamp, nonce));
+  if (!timingSafeEqual(expected, signature.toLowerCase())) {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  return { valid: true, keyId, timestamp, nonce };
+}
@@ -13,6 +13,8 @@ export default defineConfig({
     },
   },
   resolve: {
+    // Prefer TypeScript sources over compiled .js files left next to them
+    extensions: ['.ts', '.tsx', '.mjs', '.js', '.jsx', '.json'],
     alias: {
       '@leaselab/storage-core': path.resolve(__dirname, 'packages/storage-core/src'),
       '@leaselab/storage-cloudflare': path.resolve(__dirname, 'packages/storage-cloudflare/src'),